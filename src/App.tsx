@@ -10,6 +10,8 @@ import { CompanyProvider } from "./contexts/CompanyContext";
 import { PolicyProvider } from "./contexts/PolicyContext";
 import { NotificationProvider } from "./contexts/NotificationContext";
 import { VisitorManagementProvider } from "./contexts/VisitorManagementContext";
+import { RoomBookingProvider } from "./contexts/RoomBookingContext";
+import { SpaceProvider } from "./contexts/SpaceContext";
 import { HolidayProvider } from "./contexts/HolidayContext";
 import { LeaveManagementProvider } from "./contexts/LeaveManagementContext";
 import { ExpenseManagementProvider } from "./contexts/ExpenseManagementContext";
@@ -17,6 +19,11 @@ import { SelfServiceProvider } from "./contexts/SelfServiceContext";
 import { PerformanceProvider } from "./contexts/PerformanceContext";
 import { RoleManagementProvider } from "./contexts/RoleManagementContext";
 import { ExcelSheetProvider } from "./contexts/ExcelSheetContext";
+import { DelegationProvider } from "./contexts/DelegationContext";
+import { PayrollProvider } from "./contexts/PayrollContext";
+import { ShiftProvider } from "./contexts/ShiftContext";
+import { OvertimeProvider } from "./contexts/OvertimeContext";
+import { AttendancePunchProvider } from "./contexts/AttendancePunchContext";
 
 // Auth modules
 import { Login } from "./modules/auth/Login";
@@ -41,6 +48,7 @@ import { EmployeeDocuments } from "./modules/core-hr/EmployeeDocuments";
 import { AttendanceManagement } from "./modules/time-attendance/AttendanceManagement";
 import { ShiftSchedule } from "./modules/time-attendance/ShiftSchedule";
 import { OvertimeManagement } from "./modules/time-attendance/OvertimeManagement";
+import { MusterRoll } from "./modules/time-attendance/MusterRoll";
 
 // Leave Management System modules
 import { LeaveHoliday } from "./modules/leave-management-system/LeaveHoliday";
@@ -48,6 +56,7 @@ import { LeaveSettings } from "./modules/leave-management-system/LeaveSettings";
 import { LeaveConfigurationFormPage } from "./modules/leave-management-system/LeaveConfigurationFullFormPage";
 import { ApplyLeavePage } from "./modules/leave-management-system/ApplyLeavePage";
 import { RequestCreditsPage } from "./modules/leave-management-system/RequestCreditsPage";
+import { RequestEncashmentPage } from "./modules/leave-management-system/RequestEncashmentPage";
 
 // Payroll & Compensation modules
 import { SalaryStructure } from "./modules/payroll/SalaryStructure";
@@ -78,6 +87,7 @@ import { MyExpenses } from "./modules/self-service/MyExpenses";
 import { MyRequests } from "./modules/self-service/MyRequests";
 import { TeamOverview } from "./modules/self-service/TeamOverview";
 import { ManagerApprovals } from "./modules/self-service/ManagerApprovals";
+import { DelegationManagement } from "./modules/delegation";
 
 // Expenses, Travel & Assets modules
 import { ExpenseManagement } from "./modules/expenses-assets/ExpenseManagement";
@@ -103,11 +113,14 @@ import { TasksTimesheets } from "./modules/projects/TasksTimesheets";
 import { ProjectAttendance } from "./modules/projects/ProjectAttendance";
 
 // Visitor & Room Management modules
-import { VisitorManagement } from "./modules/visitor-management";
+import { VisitorManagement, VisitorInviteRegistration, VisitorKiosk } from "./modules/visitor-management";
 import { RoomBrowse } from "./modules/visitor-room/RoomBrowse";
 import { RoomForm } from "./modules/visitor-room/RoomForm";
 import { BookingPage } from "./modules/visitor-room/BookingPage";
 import { RoomManagement } from "./modules/visitor-room";
+import { RoomManagementDashboard } from "./modules/visitor-room/RoomManagementDashboard";
+import { FindRoom } from "./modules/visitor-room/FindRoom";
+import { FloorPlanMap } from "./modules/visitor-room/FloorPlanMap";
 
 // Holiday Management modules
 import {
@@ -150,6 +163,11 @@ function App() {
                           <PerformanceProvider>
                           <ExcelSheetProvider>
                             <RoleManagementProvider>
+                            <DelegationProvider>
+                            <PayrollProvider>
+                            <ShiftProvider>
+                            <OvertimeProvider>
+                            <AttendancePunchProvider>
                               <BrowserRouter>
                               <Routes>
                                 {/* Public auth routes */}
@@ -160,6 +178,24 @@ function App() {
                                 element={<ForgotPassword />}
                               />
 
+                              {/* Public visitor pre-registration (invite link) */}
+                              <Route
+                                path="/visitor-invite/:token"
+                                element={<VisitorInviteRegistration />}
+                              />
+
+                              {/* Reception kiosk - protected, full screen without the app shell */}
+                              <Route
+                                path="/visitor-kiosk"
+                                element={
+                                  <RequireAuth>
+                                    <VisitorManagementProvider>
+                                      <VisitorKiosk />
+                                    </VisitorManagementProvider>
+                                  </RequireAuth>
+                                }
+                              />
+
                               {/* Protected routes - rendered inside LayoutWithAppShell */}
                               <Route
                                 element={
@@ -233,6 +269,10 @@ function App() {
                                   path="/leave-holiday/request-credits"
                                   element={<RequestCreditsPage />}
                                 />
+                                <Route
+                                  path="/leave-holiday/request-encashment"
+                                  element={<RequestEncashmentPage />}
+                                />
                                 <Route
                                   path="/holiday-management"
                                   element={<HolidayManagement />}
@@ -245,6 +285,10 @@ function App() {
                                   path="/overtime"
                                   element={<OvertimeManagement />}
                                 />
+                                <Route
+                                  path="/muster-roll"
+                                  element={<MusterRoll />}
+                                />
 
                                 {/* Payroll & Compensation routes - Flat paths */}
                                 <Route
@@ -349,6 +393,10 @@ function App() {
                                   path="/manager-approvals"
                                   element={<ManagerApprovals />}
                                 />
+                                <Route
+                                  path="/approval-delegation"
+                                  element={<DelegationManagement />}
+                                />
 
                                 {/* Expenses, Travel & Assets routes - Flat paths */}
                                 <Route
@@ -450,23 +498,65 @@ function App() {
                                 {/* Default route shows appropriate dashboard based on role */}
                                 <Route
                                   path="/room-management"
-                                  element={<RoomManagement />}
+                                  element={
+                                    <RoomBookingProvider>
+                                      <RoomManagement />
+                                    </RoomBookingProvider>
+                                  }
                                 />
 
                                 {/* Shared sub-routes for all roles */}
                                 <Route
                                   path="/room-management/browse"
-                                  element={<RoomBrowse />}
+                                  element={
+                                    <RoomBookingProvider>
+                                      <RoomBrowse />
+                                    </RoomBookingProvider>
+                                  }
                                 />
                                 <Route
                                   path="/room-management/booking-form"
-                                  element={<BookingPage />}
+                                  element={
+                                    <RoomBookingProvider>
+                                      <BookingPage />
+                                    </RoomBookingProvider>
+                                  }
+                                />
+                                <Route
+                                  path="/room-management/find"
+                                  element={
+                                    <RoomBookingProvider>
+                                      <FindRoom />
+                                    </RoomBookingProvider>
+                                  }
+                                />
+                                <Route
+                                  path="/room-management/floor-plan"
+                                  element={
+                                    <SpaceProvider>
+                                      <RoomBookingProvider>
+                                        <FloorPlanMap />
+                                      </RoomBookingProvider>
+                                    </SpaceProvider>
+                                  }
                                 />
 
                                 {/* Admin-only routes */}
                                 <Route
                                   path="/room-management/room-form"
-                                  element={<RoomForm />}
+                                  element={
+                                    <RoomBookingProvider>
+                                      <RoomForm />
+                                    </RoomBookingProvider>
+                                  }
+                                />
+                                <Route
+                                  path="/room-management/analytics"
+                                  element={
+                                    <RoomBookingProvider>
+                                      <RoomManagementDashboard />
+                                    </RoomBookingProvider>
+                                  }
                                 />
 
                                 {/* Administration & Security routes - Flat paths */}
@@ -546,6 +636,11 @@ function App() {
                             </Routes>
                           </BrowserRouter>
                           <Toaster />
+                            </AttendancePunchProvider>
+                            </OvertimeProvider>
+                            </ShiftProvider>
+                            </PayrollProvider>
+                            </DelegationProvider>
                         </RoleManagementProvider>
                           </ExcelSheetProvider>
                       </PerformanceProvider>
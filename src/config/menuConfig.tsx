@@ -98,6 +98,13 @@ export const allMenuItems: AppShellMenuItem[] = [
     label: 'Overtime Management',
     category: 'Time & Attendance',
   },
+  {
+    id: 'muster-roll',
+    to: '/muster-roll',
+    icon: ClipboardList,
+    label: 'Muster Roll',
+    category: 'Time & Attendance',
+  },
 
   // Leave Management
   {
@@ -276,6 +283,13 @@ export const allMenuItems: AppShellMenuItem[] = [
     label: 'Manager: Approvals',
     category: 'Self Service',
   },
+  {
+    id: 'approval-delegation',
+    to: '/approval-delegation',
+    icon: UserCheck,
+    label: 'Manager: Approval Delegation',
+    category: 'Self Service',
+  },
 
   // Expenses, Travel & Assets
   {
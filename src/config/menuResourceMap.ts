@@ -18,6 +18,7 @@ export const menuResourceMap: Record<string, string> = {
   'attendance-management': 'time-attendance',
   'shift-schedule': 'time-attendance',
   'overtime': 'time-attendance',
+  'muster-roll': 'time-attendance',
 
   // Leave Management System
   'leave-holiday': 'leave-management-system',
@@ -53,6 +54,7 @@ export const menuResourceMap: Record<string, string> = {
   'my-requests': 'self-service',
   'team-overview': 'self-service',
   'manager-approvals': 'self-service',
+  'approval-delegation': 'self-service',
 
   // Expenses, Travel & Assets
   'expense-management': 'expenses-assets',
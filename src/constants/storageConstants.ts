@@ -9,6 +9,7 @@ enum StorageKeys {
     ORG_SETTINGS = "org-settings",
     TENANT = "app-tenant",
     EMPLOYEE_ID = "app-employee-id",
+    LEAVE_COVERAGE_SETTINGS = "leave-coverage-settings",
 
 
 }
@@ -0,0 +1,275 @@
+/**
+ * Attendance Punch Context
+ * Manages web check-in/check-out and the work location geofences with
+ * centralized API access
+ *
+ * Features:
+ * - List and save geofences around work locations
+ * - Record web punches and search punch history
+ * - Approve or reject outside-geofence punches as the reporting manager or their delegate
+ * - Automatic error toast notifications for all operations
+ * - Success toast notifications for geofence save and decision operations
+ * - Single unified loading state for async operations
+ * - Auto token validation and tenant resolution
+ */
+
+import { createContext, ReactNode, useContext, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  resolveAuth,
+  isTokenExpired,
+  removeStorageItem,
+} from "@/store/localStorage";
+import StorageKeys from "@/constants/storageConstants";
+
+// Punch Service
+import {
+  apiGetGeofences,
+  apiSaveGeofence,
+  apiCreatePunch,
+  apiSearchPunches,
+  apiApproveRejectPunch,
+} from "@/services/punchService";
+
+// Types
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  AttendancePunch,
+  AttendancePunchCarrier,
+  WorkLocationGeofence,
+  WorkLocationGeofenceCarrier,
+} from "@/modules/time-attendance/types/punch.types";
+
+/**
+ * Attendance Punch Context Type Definition
+ */
+interface AttendancePunchContextType {
+  // Geofence Methods
+  getGeofences: () => Promise<WorkLocationGeofence[] | null>;
+  saveGeofence: (
+    workLocationId: string,
+    carrier: WorkLocationGeofenceCarrier
+  ) => Promise<WorkLocationGeofence | null>;
+
+  // Punch Methods
+  createPunch: (carrier: AttendancePunchCarrier) => Promise<AttendancePunch | null>;
+  searchPunches: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<AttendancePunch> | null>;
+  approveRejectPunch: (
+    id: string,
+    status: "approve" | "reject",
+    actingFor?: string
+  ) => Promise<AttendancePunch | null>;
+
+  // Loading State
+  isLoading: boolean;
+}
+
+const AttendancePunchContext = createContext<AttendancePunchContextType | undefined>(undefined);
+
+/**
+ * Attendance Punch Provider Component
+ */
+export function AttendancePunchProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * Check if token is still valid
+   */
+  const validateToken = (): boolean => {
+    if (isTokenExpired()) {
+      removeStorageItem(StorageKeys.USER);
+      removeStorageItem(StorageKeys.SESSION);
+      removeStorageItem(StorageKeys.TENANT);
+
+      toast({
+        variant: "destructive",
+        title: "Session Expired",
+        description: "Your session has expired. Please log in again.",
+      });
+
+      window.location.href = "/auth/login";
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Generic error handler
+   */
+  const handleError = (
+    error: unknown,
+    title: string,
+    defaultMessage: string
+  ) => {
+    const errorMessage =
+      error instanceof Error ? error.message : defaultMessage;
+    toast({
+      variant: "destructive",
+      title,
+      description: errorMessage,
+    });
+  };
+
+  /**
+   * Generic success handler
+   */
+  const handleSuccess = (message: string) => {
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  /**
+   * Generic async operation wrapper with token validation and loading state
+   */
+  const executeApiCall = async <T,>(
+    apiCall: (tenant: string, accessToken: string) => Promise<any>,
+    operationName: string,
+    successMessage: string,
+    returnOnSuccess: boolean = false
+  ): Promise<T | boolean | null> => {
+    if (!validateToken()) return returnOnSuccess ? false : null;
+
+    const auth = resolveAuth();
+    if (!auth.tenant || !auth.accessToken) {
+      handleError(
+        new Error("Missing auth"),
+        "Error",
+        "Authentication information is missing"
+      );
+      return returnOnSuccess ? false : null;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiCall(auth.tenant, auth.accessToken);
+
+      if (!response.success) {
+        handleError(
+          response.message,
+          `${operationName} Failed`,
+          response.message || `Failed to ${operationName}`
+        );
+        return returnOnSuccess ? false : null;
+      }
+
+      if (successMessage) {
+        handleSuccess(successMessage);
+      }
+
+      return returnOnSuccess ? true : response.data;
+    } catch (error) {
+      handleError(error, "Error", `An error occurred during ${operationName}`);
+      return returnOnSuccess ? false : null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ==================== GEOFENCE METHODS ====================
+
+  const getGeofences = async (): Promise<WorkLocationGeofence[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiGetGeofences(tenant, accessToken),
+      "Get Geofences",
+      ""
+    ) as Promise<WorkLocationGeofence[] | null>;
+  };
+
+  const saveGeofence = async (
+    workLocationId: string,
+    carrier: WorkLocationGeofenceCarrier
+  ): Promise<WorkLocationGeofence | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSaveGeofence(workLocationId, carrier, tenant, accessToken),
+      "Save Geofence",
+      "Geofence saved successfully"
+    ) as Promise<WorkLocationGeofence | null>;
+  };
+
+  // ==================== PUNCH METHODS ====================
+
+  const createPunch = async (
+    carrier: AttendancePunchCarrier
+  ): Promise<AttendancePunch | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiCreatePunch(carrier, tenant, accessToken),
+      carrier.type === "CHECK_IN" ? "Check In" : "Check Out",
+      carrier.withinGeofence
+        ? `${carrier.type === "CHECK_IN" ? "Checked in" : "Checked out"} successfully`
+        : "Punch recorded and sent to your manager for approval"
+    ) as Promise<AttendancePunch | null>;
+  };
+
+  const searchPunches = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<AttendancePunch> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchPunches(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Punches",
+      ""
+    ) as Promise<Pagination<AttendancePunch> | null>;
+  };
+
+  const approveRejectPunch = async (
+    id: string,
+    status: "approve" | "reject",
+    actingFor?: string
+  ): Promise<AttendancePunch | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiApproveRejectPunch(id, status, tenant, accessToken, actingFor),
+      status === "approve" ? "Approve Punch" : "Reject Punch",
+      status === "approve"
+        ? "Punch approved successfully"
+        : "Punch rejected successfully"
+    ) as Promise<AttendancePunch | null>;
+  };
+
+  // ==================== PROVIDER VALUE ====================
+
+  const contextValue: AttendancePunchContextType = {
+    // Geofence Methods
+    getGeofences,
+    saveGeofence,
+
+    // Punch Methods
+    createPunch,
+    searchPunches,
+    approveRejectPunch,
+
+    // Loading State
+    isLoading,
+  };
+
+  return (
+    <AttendancePunchContext.Provider value={contextValue}>
+      {children}
+    </AttendancePunchContext.Provider>
+  );
+}
+
+/**
+ * Hook to use Attendance Punch Context
+ *
+ * Usage:
+ * const { getGeofences, createPunch, searchPunches, isLoading } = useAttendancePunch();
+ */
+export function useAttendancePunch() {
+  const context = useContext(AttendancePunchContext);
+  if (!context) {
+    throw new Error("useAttendancePunch must be used within AttendancePunchProvider");
+  }
+  return context;
+}
@@ -0,0 +1,288 @@
+/**
+ * Approval Delegation Context
+ * Manages delegation of approval authority with centralized API access
+ *
+ * Features:
+ * - Create, search and revoke delegations
+ * - Delegations the current user acts on (acting-for queues)
+ * - Audit of actions taken as a delegate
+ * - Automatic error toast notifications for all operations
+ * - Success toast notifications for create and revoke operations
+ * - Single unified loading state for async operations
+ * - Auto token validation and tenant resolution
+ */
+
+import { createContext, ReactNode, useContext, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  resolveAuth,
+  isTokenExpired,
+  removeStorageItem,
+} from "@/store/localStorage";
+import StorageKeys from "@/constants/storageConstants";
+
+// Delegation Service
+import {
+  apiCreateDelegation,
+  apiSearchDelegations,
+  apiGetActingDelegations,
+  apiRevokeDelegation,
+  apiRecordDelegatedAction,
+  apiSearchDelegationAudit,
+} from "@/services/delegationService";
+
+// Types
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  Delegation,
+  DelegationAuditEntry,
+  DelegationCarrier,
+  DelegatedActionCarrier,
+} from "@/modules/delegation/types";
+
+/**
+ * Delegation Context Type Definition
+ */
+interface DelegationContextType {
+  // Delegation Methods
+  createDelegation: (carrier: DelegationCarrier) => Promise<Delegation | null>;
+  searchDelegations: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<Delegation> | null>;
+  getActingDelegations: () => Promise<Delegation[] | null>;
+  revokeDelegation: (id: string) => Promise<Delegation | null>;
+
+  // Audit Methods
+  recordDelegatedAction: (
+    carrier: DelegatedActionCarrier
+  ) => Promise<DelegationAuditEntry | null>;
+  searchDelegationAudit: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<DelegationAuditEntry> | null>;
+
+  // Loading State
+  isLoading: boolean;
+}
+
+const DelegationContext = createContext<DelegationContextType | undefined>(
+  undefined
+);
+
+/**
+ * Delegation Provider Component
+ */
+export function DelegationProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * Check if token is still valid
+   */
+  const validateToken = (): boolean => {
+    if (isTokenExpired()) {
+      removeStorageItem(StorageKeys.USER);
+      removeStorageItem(StorageKeys.SESSION);
+      removeStorageItem(StorageKeys.TENANT);
+
+      toast({
+        variant: "destructive",
+        title: "Session Expired",
+        description: "Your session has expired. Please log in again.",
+      });
+
+      window.location.href = "/auth/login";
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Generic error handler
+   */
+  const handleError = (
+    error: unknown,
+    title: string,
+    defaultMessage: string
+  ) => {
+    const errorMessage =
+      error instanceof Error ? error.message : defaultMessage;
+    toast({
+      variant: "destructive",
+      title,
+      description: errorMessage,
+    });
+  };
+
+  /**
+   * Generic success handler
+   */
+  const handleSuccess = (message: string) => {
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  /**
+   * Generic async operation wrapper with token validation and loading state
+   */
+  const executeApiCall = async <T,>(
+    apiCall: (tenant: string, accessToken: string) => Promise<any>,
+    operationName: string,
+    successMessage: string,
+    returnOnSuccess: boolean = false
+  ): Promise<T | boolean | null> => {
+    if (!validateToken()) return returnOnSuccess ? false : null;
+
+    const auth = resolveAuth();
+    if (!auth.tenant || !auth.accessToken) {
+      handleError(
+        new Error("Missing auth"),
+        "Error",
+        "Authentication information is missing"
+      );
+      return returnOnSuccess ? false : null;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiCall(auth.tenant, auth.accessToken);
+
+      if (!response.success) {
+        handleError(
+          response.message,
+          `${operationName} Failed`,
+          response.message || `Failed to ${operationName}`
+        );
+        return returnOnSuccess ? false : null;
+      }
+
+      if (successMessage) {
+        handleSuccess(successMessage);
+      }
+
+      return returnOnSuccess ? true : response.data;
+    } catch (error) {
+      handleError(error, "Error", `An error occurred during ${operationName}`);
+      return returnOnSuccess ? false : null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ==================== DELEGATION METHODS ====================
+
+  const createDelegation = async (
+    carrier: DelegationCarrier
+  ): Promise<Delegation | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiCreateDelegation(carrier, tenant, accessToken),
+      "Create Delegation",
+      "Delegation created successfully"
+    ) as Promise<Delegation | null>;
+  };
+
+  const searchDelegations = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<Delegation> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchDelegations(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Delegations",
+      ""
+    ) as Promise<Pagination<Delegation> | null>;
+  };
+
+  const getActingDelegations = async (): Promise<Delegation[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiGetActingDelegations(tenant, accessToken),
+      "Fetch Acting Delegations",
+      ""
+    ) as Promise<Delegation[] | null>;
+  };
+
+  const revokeDelegation = async (id: string): Promise<Delegation | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiRevokeDelegation(id, tenant, accessToken),
+      "Revoke Delegation",
+      "Delegation revoked successfully"
+    ) as Promise<Delegation | null>;
+  };
+
+  // ==================== AUDIT METHODS ====================
+
+  const recordDelegatedAction = async (
+    carrier: DelegatedActionCarrier
+  ): Promise<DelegationAuditEntry | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiRecordDelegatedAction(carrier, tenant, accessToken),
+      "Record Delegated Action",
+      ""
+    ) as Promise<DelegationAuditEntry | null>;
+  };
+
+  const searchDelegationAudit = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<DelegationAuditEntry> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchDelegationAudit(
+          searchRequest,
+          page,
+          pageSize,
+          tenant,
+          accessToken
+        ),
+      "Search Delegation Audit",
+      ""
+    ) as Promise<Pagination<DelegationAuditEntry> | null>;
+  };
+
+  // ==================== PROVIDER VALUE ====================
+
+  const contextValue: DelegationContextType = {
+    // Delegation Methods
+    createDelegation,
+    searchDelegations,
+    getActingDelegations,
+    revokeDelegation,
+
+    // Audit Methods
+    recordDelegatedAction,
+    searchDelegationAudit,
+
+    // Loading State
+    isLoading,
+  };
+
+  return (
+    <DelegationContext.Provider value={contextValue}>
+      {children}
+    </DelegationContext.Provider>
+  );
+}
+
+/**
+ * Hook to use Delegation Context
+ *
+ * Usage:
+ * const { createDelegation, getActingDelegations, recordDelegatedAction, isLoading } = useDelegation();
+ */
+export function useDelegation() {
+  const context = useContext(DelegationContext);
+  if (!context) {
+    throw new Error("useDelegation must be used within DelegationProvider");
+  }
+  return context;
+}
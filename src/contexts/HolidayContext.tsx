@@ -4,6 +4,8 @@
  *
  * Features:
  * - Holiday CRUD operations
+ * - Bulk creation for iCalendar imports
+ * - Optional holiday quota and employee selections
  * - Automatic error toast notifications for all operations
  * - Success toast notifications for create, update, delete operations
  * - Single unified loading state for async operations
@@ -28,6 +30,12 @@ import {
   apiDeleteHolidayById,
   apiBulkDeleteHolidays,
   apiBulkUpdateHolidays,
+  apiBulkCreateHolidays,
+  apiGetOptionalHolidayQuota,
+  apiSaveOptionalHolidayQuota,
+  apiGetMyOptionalHolidaySelections,
+  apiSelectOptionalHoliday,
+  apiWithdrawOptionalHoliday,
 } from "@/services/holidayService";
 
 // Types
@@ -36,6 +44,10 @@ import UniversalSearchRequest from "@/types/search";
 import {
   Holiday,
   HolidayCarrier,
+  OptionalHolidayQuota,
+  OptionalHolidayQuotaCarrier,
+  OptionalHolidaySelection,
+  OptionalHolidaySelectionCarrier,
 } from "@/modules/leave-management-system/holiday-management/types";
 
 /**
@@ -65,6 +77,23 @@ interface HolidayContextType {
     ids: string[],
     updates: UpdatePayload
   ) => Promise<boolean>;
+  bulkCreateHolidays: (carriers: HolidayCarrier[]) => Promise<Holiday[] | null>;
+
+  // Optional Holiday Methods
+  getOptionalHolidayQuota: (
+    companyId: string,
+    year: number
+  ) => Promise<OptionalHolidayQuota | null>;
+  saveOptionalHolidayQuota: (
+    carrier: OptionalHolidayQuotaCarrier
+  ) => Promise<OptionalHolidayQuota | null>;
+  getMyOptionalHolidaySelections: (
+    year: number
+  ) => Promise<OptionalHolidaySelection[] | null>;
+  selectOptionalHoliday: (
+    carrier: OptionalHolidaySelectionCarrier
+  ) => Promise<OptionalHolidaySelection | null>;
+  withdrawOptionalHoliday: (id: string) => Promise<boolean>;
 
   // Loading State
   isLoading: boolean;
@@ -256,6 +285,75 @@ export function HolidayProvider({ children }: { children: ReactNode }) {
     return result as boolean;
   };
 
+  const bulkCreateHolidays = async (
+    carriers: HolidayCarrier[]
+  ): Promise<Holiday[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiBulkCreateHolidays(carriers, tenant, accessToken),
+      "Import Holidays",
+      `${carriers.length} holiday(ies) imported successfully`
+    ) as Promise<Holiday[] | null>;
+  };
+
+  // ==================== OPTIONAL HOLIDAY METHODS ====================
+
+  const getOptionalHolidayQuota = async (
+    companyId: string,
+    year: number
+  ): Promise<OptionalHolidayQuota | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiGetOptionalHolidayQuota(companyId, year, tenant, accessToken),
+      "Fetch Optional Holiday Quota",
+      ""
+    ) as Promise<OptionalHolidayQuota | null>;
+  };
+
+  const saveOptionalHolidayQuota = async (
+    carrier: OptionalHolidayQuotaCarrier
+  ): Promise<OptionalHolidayQuota | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSaveOptionalHolidayQuota(carrier, tenant, accessToken),
+      "Save Optional Holiday Quota",
+      "Optional holiday quota saved successfully"
+    ) as Promise<OptionalHolidayQuota | null>;
+  };
+
+  const getMyOptionalHolidaySelections = async (
+    year: number
+  ): Promise<OptionalHolidaySelection[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiGetMyOptionalHolidaySelections(year, tenant, accessToken),
+      "Fetch Optional Holiday Selections",
+      ""
+    ) as Promise<OptionalHolidaySelection[] | null>;
+  };
+
+  const selectOptionalHoliday = async (
+    carrier: OptionalHolidaySelectionCarrier
+  ): Promise<OptionalHolidaySelection | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSelectOptionalHoliday(carrier, tenant, accessToken),
+      "Select Optional Holiday",
+      "Optional holiday selected successfully"
+    ) as Promise<OptionalHolidaySelection | null>;
+  };
+
+  const withdrawOptionalHoliday = async (id: string): Promise<boolean> => {
+    const result = await executeApiCall(
+      (tenant, accessToken) =>
+        apiWithdrawOptionalHoliday(id, tenant, accessToken),
+      "Withdraw Optional Holiday",
+      "Optional holiday withdrawn successfully",
+      true
+    );
+    return result as boolean;
+  };
+
   // ==================== PROVIDER VALUE ====================
 
   const contextValue: HolidayContextType = {
@@ -267,6 +365,14 @@ export function HolidayProvider({ children }: { children: ReactNode }) {
     deleteHolidayById,
     bulkDeleteHolidays,
     bulkUpdateHolidays,
+    bulkCreateHolidays,
+
+    // Optional Holiday Methods
+    getOptionalHolidayQuota,
+    saveOptionalHolidayQuota,
+    getMyOptionalHolidaySelections,
+    selectOptionalHoliday,
+    withdrawOptionalHoliday,
 
     // Loading State
     isLoading,
@@ -62,9 +62,15 @@ import {
 // Leave Management Service
 import {
   apiGetTeamAbsenceApplications,
+  apiSearchAbsenceApplications,
   apiGetTeamCreditRequests,
   apiApproveRejectAbsenceApplication,
+  apiRecordApprovalSlaAction,
   apiApproveRejectCreditRequest,
+  apiGetTeamEncashmentRequests,
+  apiApproveRejectEncashmentRequest,
+  apiSearchEncashments,
+  apiProcessEncashmentRequest,
 } from "@/services/leaveManagementService";
 
 // Types
@@ -77,7 +83,7 @@ import {
   LeaveDetails,
   LeaveDetailsCarrier,
 } from "@/modules/leave-management-system/types/leaveConfiguration.types";
-import { AbsenceApplication, Credit } from "@/modules/leave-management-system/types/leave.types";
+import { AbsenceApplication, Credit, Encashment } from "@/modules/leave-management-system/types/leave.types";
 
 /**
  * Generic update payload type
@@ -162,6 +168,7 @@ interface LeaveManagementContextType {
     searchRequest: UniversalSearchRequest,
     page?: number,
     pageSize?: number,
+    actingFor?: string,
   ) => Promise<Pagination<AbsenceApplication> | null>;
   getTeamCreditRequests: (
     searchRequest: UniversalSearchRequest,
@@ -170,12 +177,44 @@ interface LeaveManagementContextType {
   ) => Promise<Pagination<Credit> | null>;
   approveRejectAbsenceApplication: (
     applicationId: string,
-    status: "approve" | "reject"
+    status: "approve" | "reject",
+    actingFor?: string
+  ) => Promise<AbsenceApplication | null>;
+  recordApprovalSlaAction: (
+    applicationId: string,
+    action: "remind" | "escalate"
   ) => Promise<AbsenceApplication | null>;
   approveRejectCreditRequest: (
     creditId: string,
     status: "approve" | "reject"
   ) => Promise<Credit | null>;
+  getTeamEncashmentRequests: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number,
+  ) => Promise<Pagination<Encashment> | null>;
+  approveRejectEncashmentRequest: (
+    encashmentId: string,
+    status: "approve" | "reject"
+  ) => Promise<Encashment | null>;
+
+  // Absence Search Methods (HR)
+  searchAbsenceApplications: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number,
+  ) => Promise<Pagination<AbsenceApplication> | null>;
+
+  // Encashment Processing Methods (HR)
+  searchEncashments: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number,
+  ) => Promise<Pagination<Encashment> | null>;
+  processEncashmentRequest: (
+    encashmentId: string,
+    status: "approve" | "reject" | "paid"
+  ) => Promise<Encashment | null>;
 
   // Loading State
   isLoading: boolean;
@@ -533,6 +572,7 @@ export function LeaveManagementProvider({ children }: { children: ReactNode }) {
     searchRequest: UniversalSearchRequest,
     page: number = 0,
     pageSize: number = 20,
+    actingFor?: string,
   ): Promise<Pagination<AbsenceApplication> | null> => {
     return executeApiCall(
       (tenant, accessToken) =>
@@ -542,6 +582,7 @@ export function LeaveManagementProvider({ children }: { children: ReactNode }) {
           pageSize,
           tenant,
           accessToken,
+          actingFor,
         ),
       "Fetch Team Absence Applications",
       "",
@@ -569,7 +610,8 @@ export function LeaveManagementProvider({ children }: { children: ReactNode }) {
 
   const approveRejectAbsenceApplication = async (
     applicationId: string,
-    status: "approve" | "reject"
+    status: "approve" | "reject",
+    actingFor?: string
   ): Promise<AbsenceApplication | null> => {
     return executeApiCall(
       (tenant, accessToken) =>
@@ -578,12 +620,25 @@ export function LeaveManagementProvider({ children }: { children: ReactNode }) {
           status,
           tenant,
           accessToken,
+          actingFor,
         ),
       `${status.charAt(0).toUpperCase() + status.slice(1)} Absence Application`,
       "", // Empty - let handlers manage toast based on success/failure
     ) as Promise<AbsenceApplication | null>;
   };
 
+  const recordApprovalSlaAction = async (
+    applicationId: string,
+    action: "remind" | "escalate"
+  ): Promise<AbsenceApplication | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiRecordApprovalSlaAction(applicationId, action, tenant, accessToken),
+      "Record Approval SLA Action",
+      "",
+    ) as Promise<AbsenceApplication | null>;
+  };
+
   const approveRejectCreditRequest = async (
     creditId: string,
     status: "approve" | "reject"
@@ -601,6 +656,84 @@ export function LeaveManagementProvider({ children }: { children: ReactNode }) {
     ) as Promise<Credit | null>;
   };
 
+  const getTeamEncashmentRequests = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20,
+  ): Promise<Pagination<Encashment> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiGetTeamEncashmentRequests(
+          searchRequest,
+          page,
+          pageSize,
+          tenant,
+          accessToken,
+        ),
+      "Fetch Team Encashment Requests",
+      "",
+    ) as Promise<Pagination<Encashment> | null>;
+  };
+
+  const approveRejectEncashmentRequest = async (
+    encashmentId: string,
+    status: "approve" | "reject"
+  ): Promise<Encashment | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiApproveRejectEncashmentRequest(
+          encashmentId,
+          status,
+          tenant,
+          accessToken,
+        ),
+      `${status.charAt(0).toUpperCase() + status.slice(1)} Encashment Request`,
+      "", // Empty - let handlers manage toast based on success/failure
+    ) as Promise<Encashment | null>;
+  };
+
+  // ==================== ABSENCE SEARCH METHODS (HR) ====================
+
+  const searchAbsenceApplications = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20,
+  ): Promise<Pagination<AbsenceApplication> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchAbsenceApplications(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Absence Applications",
+      "",
+    ) as Promise<Pagination<AbsenceApplication> | null>;
+  };
+
+  // ==================== ENCASHMENT PROCESSING METHODS (HR) ====================
+
+  const searchEncashments = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20,
+  ): Promise<Pagination<Encashment> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchEncashments(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Encashments",
+      "",
+    ) as Promise<Pagination<Encashment> | null>;
+  };
+
+  const processEncashmentRequest = async (
+    encashmentId: string,
+    status: "approve" | "reject" | "paid"
+  ): Promise<Encashment | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiProcessEncashmentRequest(encashmentId, status, tenant, accessToken),
+      "Process Encashment Request",
+      "", // Empty - let handlers manage toast based on success/failure
+    ) as Promise<Encashment | null>;
+  };
+
   // ==================== PROVIDER VALUE ====================
 
   const contextValue: LeaveManagementContextType = {
@@ -634,7 +767,17 @@ export function LeaveManagementProvider({ children }: { children: ReactNode }) {
     getTeamAbsenceApplications,
     getTeamCreditRequests,
     approveRejectAbsenceApplication,
+    recordApprovalSlaAction,
     approveRejectCreditRequest,
+    getTeamEncashmentRequests,
+    approveRejectEncashmentRequest,
+
+    // Absence Search Methods
+    searchAbsenceApplications,
+
+    // Encashment Processing Methods
+    searchEncashments,
+    processEncashmentRequest,
 
     // Loading State
     isLoading,
@@ -66,6 +66,9 @@ interface NotificationContextType {
   ) => Promise<boolean>;
 
   // Helper Methods
+  raiseNotification: <T>(
+    carrier: NotificationCarrier<T>
+  ) => Promise<Notification<T> | null>;
   markAsRead: (id: string) => Promise<Notification | null>;
   markAsArchived: (id: string) => Promise<Notification | null>;
   bulkMarkAsRead: (ids: string[]) => Promise<boolean>;
@@ -272,6 +275,21 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
 
   // ==================== HELPER METHODS ====================
 
+  /**
+   * Create a notification raised in the background for someone else, e.g. a
+   * reminder or digest; only failures are shown to the current user
+   */
+  const raiseNotification = async <T,>(
+    carrier: NotificationCarrier<T>
+  ): Promise<Notification<T> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiCreateNotification(carrier, tenant, accessToken),
+      "Create Notification",
+      ""
+    ) as Promise<Notification<T> | null>;
+  };
+
   const markAsRead = async (id: string): Promise<Notification | null> => {
     return executeApiCall(
       (tenant, accessToken) =>
@@ -314,6 +332,7 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
     bulkUpdateNotifications,
 
     // Helper Methods
+    raiseNotification,
     markAsRead,
     markAsArchived,
     bulkMarkAsRead,
@@ -0,0 +1,309 @@
+/**
+ * Overtime Context
+ * Manages the overtime policy, overtime claims and their payroll export with
+ * centralized API access
+ *
+ * Features:
+ * - Get and save the tenant's overtime policy
+ * - Submit, search and cancel overtime claims
+ * - Approve (with capped hours) or reject claims as the reporting manager or their delegate
+ * - Mark approved claims of a pay period as exported to payroll
+ * - Automatic error toast notifications for all operations
+ * - Success toast notifications for save, submit, decision and export operations
+ * - Single unified loading state for async operations
+ * - Auto token validation and tenant resolution
+ */
+
+import { createContext, ReactNode, useContext, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  resolveAuth,
+  isTokenExpired,
+  removeStorageItem,
+} from "@/store/localStorage";
+import StorageKeys from "@/constants/storageConstants";
+
+// Overtime Service
+import {
+  apiGetOvertimePolicy,
+  apiSaveOvertimePolicy,
+  apiCreateOvertimeClaims,
+  apiSearchOvertimeClaims,
+  apiDecideOvertimeClaim,
+  apiCancelOvertimeClaim,
+  apiMarkOvertimeExported,
+} from "@/services/overtimeService";
+
+// Types
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  OvertimeClaim,
+  OvertimeClaimCarrier,
+  OvertimeDecisionCarrier,
+  OvertimePolicy,
+} from "@/modules/time-attendance/types/overtime.types";
+
+/**
+ * Overtime Context Type Definition
+ */
+interface OvertimeContextType {
+  // Policy Methods
+  getOvertimePolicy: () => Promise<OvertimePolicy | null>;
+  saveOvertimePolicy: (policy: OvertimePolicy) => Promise<OvertimePolicy | null>;
+
+  // Claim Methods
+  createOvertimeClaims: (
+    carriers: OvertimeClaimCarrier[]
+  ) => Promise<OvertimeClaim[] | null>;
+  searchOvertimeClaims: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<OvertimeClaim> | null>;
+  decideOvertimeClaim: (
+    id: string,
+    decision: OvertimeDecisionCarrier,
+    actingFor?: string
+  ) => Promise<OvertimeClaim | null>;
+  cancelOvertimeClaim: (id: string) => Promise<OvertimeClaim | null>;
+
+  // Payroll Export Methods
+  markOvertimeExported: (
+    period: string,
+    claimIds: string[]
+  ) => Promise<OvertimeClaim[] | null>;
+
+  // Loading State
+  isLoading: boolean;
+}
+
+const OvertimeContext = createContext<OvertimeContextType | undefined>(undefined);
+
+/**
+ * Overtime Provider Component
+ */
+export function OvertimeProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * Check if token is still valid
+   */
+  const validateToken = (): boolean => {
+    if (isTokenExpired()) {
+      removeStorageItem(StorageKeys.USER);
+      removeStorageItem(StorageKeys.SESSION);
+      removeStorageItem(StorageKeys.TENANT);
+
+      toast({
+        variant: "destructive",
+        title: "Session Expired",
+        description: "Your session has expired. Please log in again.",
+      });
+
+      window.location.href = "/auth/login";
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Generic error handler
+   */
+  const handleError = (
+    error: unknown,
+    title: string,
+    defaultMessage: string
+  ) => {
+    const errorMessage =
+      error instanceof Error ? error.message : defaultMessage;
+    toast({
+      variant: "destructive",
+      title,
+      description: errorMessage,
+    });
+  };
+
+  /**
+   * Generic success handler
+   */
+  const handleSuccess = (message: string) => {
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  /**
+   * Generic async operation wrapper with token validation and loading state
+   */
+  const executeApiCall = async <T,>(
+    apiCall: (tenant: string, accessToken: string) => Promise<any>,
+    operationName: string,
+    successMessage: string,
+    returnOnSuccess: boolean = false
+  ): Promise<T | boolean | null> => {
+    if (!validateToken()) return returnOnSuccess ? false : null;
+
+    const auth = resolveAuth();
+    if (!auth.tenant || !auth.accessToken) {
+      handleError(
+        new Error("Missing auth"),
+        "Error",
+        "Authentication information is missing"
+      );
+      return returnOnSuccess ? false : null;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiCall(auth.tenant, auth.accessToken);
+
+      if (!response.success) {
+        handleError(
+          response.message,
+          `${operationName} Failed`,
+          response.message || `Failed to ${operationName}`
+        );
+        return returnOnSuccess ? false : null;
+      }
+
+      if (successMessage) {
+        handleSuccess(successMessage);
+      }
+
+      return returnOnSuccess ? true : response.data;
+    } catch (error) {
+      handleError(error, "Error", `An error occurred during ${operationName}`);
+      return returnOnSuccess ? false : null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ==================== POLICY METHODS ====================
+
+  const getOvertimePolicy = async (): Promise<OvertimePolicy | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiGetOvertimePolicy(tenant, accessToken),
+      "Get Overtime Policy",
+      ""
+    ) as Promise<OvertimePolicy | null>;
+  };
+
+  const saveOvertimePolicy = async (
+    policy: OvertimePolicy
+  ): Promise<OvertimePolicy | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiSaveOvertimePolicy(policy, tenant, accessToken),
+      "Save Overtime Policy",
+      "Overtime policy saved successfully"
+    ) as Promise<OvertimePolicy | null>;
+  };
+
+  // ==================== CLAIM METHODS ====================
+
+  const createOvertimeClaims = async (
+    carriers: OvertimeClaimCarrier[]
+  ): Promise<OvertimeClaim[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiCreateOvertimeClaims(carriers, tenant, accessToken),
+      "Submit Overtime",
+      "Overtime submitted for approval"
+    ) as Promise<OvertimeClaim[] | null>;
+  };
+
+  const searchOvertimeClaims = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<OvertimeClaim> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchOvertimeClaims(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Overtime Claims",
+      ""
+    ) as Promise<Pagination<OvertimeClaim> | null>;
+  };
+
+  const decideOvertimeClaim = async (
+    id: string,
+    decision: OvertimeDecisionCarrier,
+    actingFor?: string
+  ): Promise<OvertimeClaim | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiDecideOvertimeClaim(id, decision, tenant, accessToken, actingFor),
+      decision.status === "approved" ? "Approve Overtime" : "Reject Overtime",
+      decision.status === "approved"
+        ? "Overtime approved successfully"
+        : "Overtime rejected successfully"
+    ) as Promise<OvertimeClaim | null>;
+  };
+
+  const cancelOvertimeClaim = async (
+    id: string
+  ): Promise<OvertimeClaim | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiCancelOvertimeClaim(id, tenant, accessToken),
+      "Cancel Overtime",
+      "Overtime claim cancelled successfully"
+    ) as Promise<OvertimeClaim | null>;
+  };
+
+  // ==================== PAYROLL EXPORT METHODS ====================
+
+  const markOvertimeExported = async (
+    period: string,
+    claimIds: string[]
+  ): Promise<OvertimeClaim[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiMarkOvertimeExported(period, claimIds, tenant, accessToken),
+      "Export Overtime",
+      "Overtime marked as exported to payroll"
+    ) as Promise<OvertimeClaim[] | null>;
+  };
+
+  // ==================== PROVIDER VALUE ====================
+
+  const contextValue: OvertimeContextType = {
+    // Policy Methods
+    getOvertimePolicy,
+    saveOvertimePolicy,
+
+    // Claim Methods
+    createOvertimeClaims,
+    searchOvertimeClaims,
+    decideOvertimeClaim,
+    cancelOvertimeClaim,
+
+    // Payroll Export Methods
+    markOvertimeExported,
+
+    // Loading State
+    isLoading,
+  };
+
+  return (
+    <OvertimeContext.Provider value={contextValue}>
+      {children}
+    </OvertimeContext.Provider>
+  );
+}
+
+/**
+ * Hook to use Overtime Context
+ *
+ * Usage:
+ * const { searchOvertimeClaims, decideOvertimeClaim, isLoading } = useOvertime();
+ */
+export function useOvertime() {
+  const context = useContext(OvertimeContext);
+  if (!context) {
+    throw new Error("useOvertime must be used within OvertimeProvider");
+  }
+  return context;
+}
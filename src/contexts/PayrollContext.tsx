@@ -0,0 +1,558 @@
+/**
+ * Payroll Context
+ * Manages payroll runs with centralized API access
+ *
+ * Features:
+ * - Payroll inputs (salary and LOP days) of a company for a period
+ * - Create, search, fetch and recalculate payroll runs
+ * - Run status workflow: DRAFT -> REVIEW -> LOCKED -> PAID
+ * - Salary structure templates and employee salary revisions
+ * - Payslips of the current user
+ * - Statutory settings, employee statutory details and tax declarations
+ * - Automatic error toast notifications for all operations
+ * - Success toast notifications for create, update, status, revision and statutory save operations
+ * - Single unified loading state for async operations
+ * - Auto token validation and tenant resolution
+ */
+
+import { createContext, ReactNode, useContext, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  resolveAuth,
+  isTokenExpired,
+  removeStorageItem,
+} from "@/store/localStorage";
+import StorageKeys from "@/constants/storageConstants";
+
+// Payroll Service
+import {
+  apiGetPayrollInputs,
+  apiCreatePayrollRun,
+  apiSearchPayrollRuns,
+  apiGetPayrollRun,
+  apiUpdatePayrollRunEntries,
+  apiUpdatePayrollRunStatus,
+  apiGetMyPayslips,
+} from "@/services/payrollService";
+
+// Salary Structure Service
+import {
+  apiCreateSalaryStructure,
+  apiUpdateSalaryStructure,
+  apiSearchSalaryStructures,
+  apiCreateEmployeeSalaryRevision,
+  apiSearchEmployeeSalaryRevisions,
+} from "@/services/salaryStructureService";
+
+// Statutory Service
+import {
+  apiGetStatutorySettings,
+  apiSaveStatutorySettings,
+  apiGetStatutoryEmployeeDetails,
+  apiUpdateStatutoryIdentifiers,
+  apiSearchTaxDeclarations,
+  apiSaveTaxDeclaration,
+} from "@/services/statutoryService";
+
+// Types
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  PayrollEmployeeInput,
+  PayrollRun,
+  PayrollRunCarrier,
+  PayrollRunStatusCarrier,
+  Payslip,
+} from "@/modules/payroll/types/payroll.types";
+import {
+  EmployeeSalaryRevision,
+  EmployeeSalaryRevisionCarrier,
+  SalaryStructure,
+  SalaryStructureCarrier,
+} from "@/modules/payroll/types/salaryStructure.types";
+import {
+  StatutoryEmployeeDetails,
+  StatutoryIdentifiersCarrier,
+  StatutorySettings,
+  TaxDeclaration,
+  TaxDeclarationCarrier,
+} from "@/modules/payroll/types/statutory.types";
+import { payrollRunActionLabels } from "@/modules/payroll/constants";
+
+/**
+ * Payroll Context Type Definition
+ */
+interface PayrollContextType {
+  // Input Methods
+  getPayrollInputs: (
+    companyId: string,
+    period: string
+  ) => Promise<PayrollEmployeeInput[] | null>;
+
+  // Run Methods
+  createPayrollRun: (carrier: PayrollRunCarrier) => Promise<PayrollRun | null>;
+  searchPayrollRuns: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<PayrollRun> | null>;
+  getPayrollRun: (id: string) => Promise<PayrollRun | null>;
+  updatePayrollRunEntries: (
+    id: string,
+    carrier: PayrollRunCarrier
+  ) => Promise<PayrollRun | null>;
+  updatePayrollRunStatus: (
+    id: string,
+    carrier: PayrollRunStatusCarrier
+  ) => Promise<PayrollRun | null>;
+
+  // Salary Structure Methods
+  createSalaryStructure: (
+    carrier: SalaryStructureCarrier
+  ) => Promise<SalaryStructure | null>;
+  updateSalaryStructure: (
+    id: string,
+    carrier: SalaryStructureCarrier
+  ) => Promise<SalaryStructure | null>;
+  searchSalaryStructures: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<SalaryStructure> | null>;
+
+  // Employee Salary Methods
+  createEmployeeSalaryRevision: (
+    carrier: EmployeeSalaryRevisionCarrier
+  ) => Promise<EmployeeSalaryRevision | null>;
+  searchEmployeeSalaryRevisions: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<EmployeeSalaryRevision> | null>;
+
+  // Payslip Methods
+  getMyPayslips: (financialYear: number) => Promise<Payslip[] | null>;
+
+  // Statutory Methods
+  getStatutorySettings: () => Promise<StatutorySettings | null>;
+  saveStatutorySettings: (
+    settings: StatutorySettings
+  ) => Promise<StatutorySettings | null>;
+  getStatutoryEmployeeDetails: (
+    companyId: string
+  ) => Promise<StatutoryEmployeeDetails[] | null>;
+  updateStatutoryIdentifiers: (
+    employeeId: string,
+    carrier: StatutoryIdentifiersCarrier
+  ) => Promise<StatutoryEmployeeDetails | null>;
+  searchTaxDeclarations: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<TaxDeclaration> | null>;
+  saveTaxDeclaration: (
+    carrier: TaxDeclarationCarrier
+  ) => Promise<TaxDeclaration | null>;
+
+  // Loading State
+  isLoading: boolean;
+}
+
+const PayrollContext = createContext<PayrollContextType | undefined>(
+  undefined
+);
+
+/**
+ * Payroll Provider Component
+ */
+export function PayrollProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * Check if token is still valid
+   */
+  const validateToken = (): boolean => {
+    if (isTokenExpired()) {
+      removeStorageItem(StorageKeys.USER);
+      removeStorageItem(StorageKeys.SESSION);
+      removeStorageItem(StorageKeys.TENANT);
+
+      toast({
+        variant: "destructive",
+        title: "Session Expired",
+        description: "Your session has expired. Please log in again.",
+      });
+
+      window.location.href = "/auth/login";
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Generic error handler
+   */
+  const handleError = (
+    error: unknown,
+    title: string,
+    defaultMessage: string
+  ) => {
+    const errorMessage =
+      error instanceof Error ? error.message : defaultMessage;
+    toast({
+      variant: "destructive",
+      title,
+      description: errorMessage,
+    });
+  };
+
+  /**
+   * Generic success handler
+   */
+  const handleSuccess = (message: string) => {
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  /**
+   * Generic async operation wrapper with token validation and loading state
+   */
+  const executeApiCall = async <T,>(
+    apiCall: (tenant: string, accessToken: string) => Promise<any>,
+    operationName: string,
+    successMessage: string,
+    returnOnSuccess: boolean = false
+  ): Promise<T | boolean | null> => {
+    if (!validateToken()) return returnOnSuccess ? false : null;
+
+    const auth = resolveAuth();
+    if (!auth.tenant || !auth.accessToken) {
+      handleError(
+        new Error("Missing auth"),
+        "Error",
+        "Authentication information is missing"
+      );
+      return returnOnSuccess ? false : null;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiCall(auth.tenant, auth.accessToken);
+
+      if (!response.success) {
+        handleError(
+          response.message,
+          `${operationName} Failed`,
+          response.message || `Failed to ${operationName}`
+        );
+        return returnOnSuccess ? false : null;
+      }
+
+      if (successMessage) {
+        handleSuccess(successMessage);
+      }
+
+      return returnOnSuccess ? true : response.data;
+    } catch (error) {
+      handleError(error, "Error", `An error occurred during ${operationName}`);
+      return returnOnSuccess ? false : null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ==================== INPUT METHODS ====================
+
+  const getPayrollInputs = async (
+    companyId: string,
+    period: string
+  ): Promise<PayrollEmployeeInput[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiGetPayrollInputs(companyId, period, tenant, accessToken),
+      "Fetch Payroll Inputs",
+      ""
+    ) as Promise<PayrollEmployeeInput[] | null>;
+  };
+
+  // ==================== RUN METHODS ====================
+
+  const createPayrollRun = async (
+    carrier: PayrollRunCarrier
+  ): Promise<PayrollRun | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiCreatePayrollRun(carrier, tenant, accessToken),
+      "Create Payroll Run",
+      "Payroll run created as draft"
+    ) as Promise<PayrollRun | null>;
+  };
+
+  const searchPayrollRuns = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<PayrollRun> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchPayrollRuns(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Payroll Runs",
+      ""
+    ) as Promise<Pagination<PayrollRun> | null>;
+  };
+
+  const getPayrollRun = async (id: string): Promise<PayrollRun | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiGetPayrollRun(id, tenant, accessToken),
+      "Fetch Payroll Run",
+      ""
+    ) as Promise<PayrollRun | null>;
+  };
+
+  const updatePayrollRunEntries = async (
+    id: string,
+    carrier: PayrollRunCarrier
+  ): Promise<PayrollRun | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiUpdatePayrollRunEntries(id, carrier, tenant, accessToken),
+      "Recalculate Payroll Run",
+      "Payroll run recalculated successfully"
+    ) as Promise<PayrollRun | null>;
+  };
+
+  const updatePayrollRunStatus = async (
+    id: string,
+    carrier: PayrollRunStatusCarrier
+  ): Promise<PayrollRun | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiUpdatePayrollRunStatus(id, carrier, tenant, accessToken),
+      payrollRunActionLabels[carrier.action],
+      "Payroll run updated successfully"
+    ) as Promise<PayrollRun | null>;
+  };
+
+  // ==================== SALARY STRUCTURE METHODS ====================
+
+  const createSalaryStructure = async (
+    carrier: SalaryStructureCarrier
+  ): Promise<SalaryStructure | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiCreateSalaryStructure(carrier, tenant, accessToken),
+      "Create Salary Structure",
+      "Salary structure created successfully"
+    ) as Promise<SalaryStructure | null>;
+  };
+
+  const updateSalaryStructure = async (
+    id: string,
+    carrier: SalaryStructureCarrier
+  ): Promise<SalaryStructure | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiUpdateSalaryStructure(id, carrier, tenant, accessToken),
+      "Update Salary Structure",
+      "Salary structure updated successfully"
+    ) as Promise<SalaryStructure | null>;
+  };
+
+  const searchSalaryStructures = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<SalaryStructure> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchSalaryStructures(
+          searchRequest,
+          page,
+          pageSize,
+          tenant,
+          accessToken
+        ),
+      "Search Salary Structures",
+      ""
+    ) as Promise<Pagination<SalaryStructure> | null>;
+  };
+
+  // ==================== EMPLOYEE SALARY METHODS ====================
+
+  const createEmployeeSalaryRevision = async (
+    carrier: EmployeeSalaryRevisionCarrier
+  ): Promise<EmployeeSalaryRevision | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiCreateEmployeeSalaryRevision(carrier, tenant, accessToken),
+      "Revise Salary",
+      "Salary revision saved successfully"
+    ) as Promise<EmployeeSalaryRevision | null>;
+  };
+
+  const searchEmployeeSalaryRevisions = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<EmployeeSalaryRevision> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchEmployeeSalaryRevisions(
+          searchRequest,
+          page,
+          pageSize,
+          tenant,
+          accessToken
+        ),
+      "Search Salary Revisions",
+      ""
+    ) as Promise<Pagination<EmployeeSalaryRevision> | null>;
+  };
+
+  // ==================== PAYSLIP METHODS ====================
+
+  const getMyPayslips = async (
+    financialYear: number
+  ): Promise<Payslip[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiGetMyPayslips(financialYear, tenant, accessToken),
+      "Fetch Payslips",
+      ""
+    ) as Promise<Payslip[] | null>;
+  };
+
+  // ==================== STATUTORY METHODS ====================
+
+  const getStatutorySettings = async (): Promise<StatutorySettings | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiGetStatutorySettings(tenant, accessToken),
+      "Fetch Statutory Settings",
+      ""
+    ) as Promise<StatutorySettings | null>;
+  };
+
+  const saveStatutorySettings = async (
+    settings: StatutorySettings
+  ): Promise<StatutorySettings | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSaveStatutorySettings(settings, tenant, accessToken),
+      "Save Statutory Settings",
+      "Statutory settings saved successfully"
+    ) as Promise<StatutorySettings | null>;
+  };
+
+  const getStatutoryEmployeeDetails = async (
+    companyId: string
+  ): Promise<StatutoryEmployeeDetails[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiGetStatutoryEmployeeDetails(companyId, tenant, accessToken),
+      "Fetch Statutory Details",
+      ""
+    ) as Promise<StatutoryEmployeeDetails[] | null>;
+  };
+
+  const updateStatutoryIdentifiers = async (
+    employeeId: string,
+    carrier: StatutoryIdentifiersCarrier
+  ): Promise<StatutoryEmployeeDetails | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiUpdateStatutoryIdentifiers(employeeId, carrier, tenant, accessToken),
+      "Update Statutory Details",
+      "Statutory details updated successfully"
+    ) as Promise<StatutoryEmployeeDetails | null>;
+  };
+
+  const searchTaxDeclarations = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<TaxDeclaration> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchTaxDeclarations(
+          searchRequest,
+          page,
+          pageSize,
+          tenant,
+          accessToken
+        ),
+      "Search Tax Declarations",
+      ""
+    ) as Promise<Pagination<TaxDeclaration> | null>;
+  };
+
+  const saveTaxDeclaration = async (
+    carrier: TaxDeclarationCarrier
+  ): Promise<TaxDeclaration | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSaveTaxDeclaration(carrier, tenant, accessToken),
+      "Save Tax Declaration",
+      "Tax declaration saved successfully"
+    ) as Promise<TaxDeclaration | null>;
+  };
+
+  // ==================== PROVIDER VALUE ====================
+
+  const contextValue: PayrollContextType = {
+    // Input Methods
+    getPayrollInputs,
+
+    // Run Methods
+    createPayrollRun,
+    searchPayrollRuns,
+    getPayrollRun,
+    updatePayrollRunEntries,
+    updatePayrollRunStatus,
+
+    // Salary Structure Methods
+    createSalaryStructure,
+    updateSalaryStructure,
+    searchSalaryStructures,
+
+    // Employee Salary Methods
+    createEmployeeSalaryRevision,
+    searchEmployeeSalaryRevisions,
+
+    // Payslip Methods
+    getMyPayslips,
+
+    // Statutory Methods
+    getStatutorySettings,
+    saveStatutorySettings,
+    getStatutoryEmployeeDetails,
+    updateStatutoryIdentifiers,
+    searchTaxDeclarations,
+    saveTaxDeclaration,
+
+    // Loading State
+    isLoading,
+  };
+
+  return (
+    <PayrollContext.Provider value={contextValue}>
+      {children}
+    </PayrollContext.Provider>
+  );
+}
+
+/**
+ * Hook to use Payroll Context
+ *
+ * Usage:
+ * const { getPayrollInputs, createPayrollRun, updatePayrollRunStatus, isLoading } = usePayroll();
+ */
+export function usePayroll() {
+  const context = useContext(PayrollContext);
+  if (!context) {
+    throw new Error("usePayroll must be used within PayrollProvider");
+  }
+  return context;
+}
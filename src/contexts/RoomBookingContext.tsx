@@ -0,0 +1,774 @@
+/**
+ * Room Booking Context
+ * Manages meeting rooms and their bookings with centralized API access
+ *
+ * Features:
+ * - Room CRUD operations and booking create / update / search
+ * - Loaded rooms and bookings kept in state and updated optimistically,
+ *   rolled back when the request fails
+ * - Booking conflicts checked client-side with isRoomAvailable before the
+ *   request and server-side (409); either way surfaced as bookingConflict
+ *   for the booking form instead of a toast
+ * - Recurring series: one booking per occurrence, linked by seriesId, with
+ *   cancel / reschedule of one occurrence, this-and-following or the series
+ * - Check-in / early checkout, and release of unclaimed bookings as no-shows
+ *   (decided by the server's clock, without a toast)
+ * - Automatic error toast notifications for all other failures
+ * - Single unified loading state for async operations
+ * - Auto token validation and tenant resolution
+ */
+
+import { createContext, ReactNode, useContext, useState } from "react";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import {
+  resolveAuth,
+  isTokenExpired,
+  removeStorageItem,
+} from "@/store/localStorage";
+import StorageKeys from "@/constants/storageConstants";
+import { useLayoutContext } from "@/contexts/LayoutContext";
+import { CONFLICT_CODE } from "@/services/utils";
+
+// Room Service
+import {
+  apiCreateRoom,
+  apiGetRoomById,
+  apiUpdateRoom,
+  apiSearchRooms,
+  apiDeleteRoom,
+  RoomUpdatePayload,
+} from "@/services/roomService";
+
+// Booking Service
+import {
+  apiCreateBooking,
+  apiGetBookingById,
+  apiUpdateBooking,
+  apiSearchBookings,
+  apiReleaseNoShows,
+  BookingUpdatePayload,
+} from "@/services/bookingService";
+
+// Types
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  RecurrenceEditScope,
+  Room,
+  RoomBooking,
+  RoomBookingCarrier,
+  RoomCarrier,
+} from "@/modules/visitor-room/types";
+import { isRoomAvailable } from "@/modules/visitor-room/utils/availability";
+import {
+  buildSeriesSplit,
+  buildSeriesTruncation,
+  isChangeableOccurrence,
+  MAX_RECURRENCE_OCCURRENCES,
+  selectOccurrences,
+} from "@/modules/visitor-room/utils/recurrence";
+
+/**
+ * Room Booking Context Type Definition
+ */
+interface RoomBookingContextType {
+  // Room Methods
+  createRoom: (carrier: RoomCarrier) => Promise<Room | null>;
+  getRoomById: (id: string) => Promise<Room | null>;
+  updateRoom: (id: string, payload: RoomUpdatePayload) => Promise<Room | null>;
+  refreshRooms: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<Room> | null>;
+  deleteRoom: (id: string) => Promise<boolean>;
+
+  // Booking Methods
+  createBooking: (carrier: RoomBookingCarrier) => Promise<RoomBooking | null>;
+  getBookingById: (id: string) => Promise<RoomBooking | null>;
+  updateBooking: (
+    id: string,
+    payload: BookingUpdatePayload
+  ) => Promise<RoomBooking | null>;
+  refreshBookings: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<RoomBooking> | null>;
+  searchBookings: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<RoomBooking> | null>;
+
+  // Recurring Booking Methods
+  createBookingSeries: (carriers: RoomBookingCarrier[]) => Promise<RoomBooking[]>;
+  getBookingSeries: (booking: RoomBooking) => Promise<RoomBooking[]>;
+  cancelOccurrences: (
+    booking: RoomBooking,
+    scope: RecurrenceEditScope
+  ) => Promise<boolean>;
+  rescheduleOccurrences: (
+    booking: RoomBooking,
+    scope: RecurrenceEditScope,
+    series: RoomBooking[],
+    payloads: Record<string, BookingUpdatePayload>
+  ) => Promise<boolean>;
+
+  // Check-in Methods
+  checkInBooking: (booking: RoomBooking) => Promise<RoomBooking | null>;
+  checkOutBooking: (booking: RoomBooking) => Promise<RoomBooking | null>;
+  releaseNoShows: (unclaimed: RoomBooking[]) => Promise<RoomBooking[] | null>;
+
+  // Loaded Data
+  rooms: Room[];
+  bookings: RoomBooking[];
+
+  // Conflict State
+  bookingConflict: string | null;
+  clearBookingConflict: () => void;
+
+  // Loading State
+  isLoading: boolean;
+}
+
+const RoomBookingContext = createContext<RoomBookingContextType | undefined>(
+  undefined
+);
+
+/**
+ * Room Booking Provider Component
+ * Should only be used within room management routes
+ */
+export function RoomBookingProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { selectedCompanyScope } = useLayoutContext();
+  const [isLoading, setIsLoading] = useState(false);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [bookings, setBookings] = useState<RoomBooking[]>([]);
+  const [bookingConflict, setBookingConflict] = useState<string | null>(null);
+
+  /**
+   * Check if token is still valid
+   */
+  const validateToken = (): boolean => {
+    if (isTokenExpired()) {
+      removeStorageItem(StorageKeys.USER);
+      removeStorageItem(StorageKeys.SESSION);
+      removeStorageItem(StorageKeys.TENANT);
+
+      toast({
+        variant: "destructive",
+        title: "Session Expired",
+        description: "Your session has expired. Please log in again.",
+      });
+
+      window.location.href = "/auth/login";
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Generic error handler
+   */
+  const handleError = (
+    error: unknown,
+    title: string,
+    defaultMessage: string
+  ) => {
+    const errorMessage =
+      error instanceof Error ? error.message : defaultMessage;
+    toast({
+      variant: "destructive",
+      title,
+      description: errorMessage,
+    });
+  };
+
+  /**
+   * Generic success handler
+   */
+  const handleSuccess = (message: string) => {
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  /**
+   * Generic async operation wrapper with token validation and loading state
+   * A 409 response goes to onConflict when given, without an error toast
+   */
+  const executeApiCall = async <T,>(
+    apiCall: (tenant: string, accessToken: string) => Promise<any>,
+    operationName: string,
+    successMessage: string,
+    returnOnSuccess: boolean = false,
+    onConflict?: (message: string) => void
+  ): Promise<T | boolean | null> => {
+    if (!validateToken()) return returnOnSuccess ? false : null;
+
+    const auth = resolveAuth();
+    if (!auth.tenant || !auth.accessToken) {
+      handleError(
+        new Error("Missing auth"),
+        "Error",
+        "Authentication information is missing"
+      );
+      return returnOnSuccess ? false : null;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiCall(auth.tenant, auth.accessToken);
+
+      if (!response.success) {
+        if (response.code === CONFLICT_CODE && onConflict) {
+          onConflict(response.message);
+        } else {
+          handleError(
+            response.message,
+            `${operationName} Failed`,
+            response.message || `Failed to ${operationName}`
+          );
+        }
+        return returnOnSuccess ? false : null;
+      }
+
+      if (successMessage) {
+        handleSuccess(successMessage);
+      }
+
+      return returnOnSuccess ? true : response.data;
+    } catch (error) {
+      handleError(error, "Error", `An error occurred during ${operationName}`);
+      return returnOnSuccess ? false : null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Replace a loaded item by id, or add it when not loaded yet
+   */
+  const upsert = <T extends { id: string },>(items: T[], item: T): T[] =>
+    items.some((existing) => existing.id === item.id)
+      ? items.map((existing) => (existing.id === item.id ? item : existing))
+      : [...items, item];
+
+  // ==================== ROOM METHODS ====================
+
+  const createRoom = async (carrier: RoomCarrier): Promise<Room | null> => {
+    const room = (await executeApiCall(
+      (tenant, accessToken) => apiCreateRoom(carrier, tenant, accessToken),
+      "Create Room",
+      "Room created successfully"
+    )) as Room | null;
+    if (room) setRooms((prev) => upsert(prev, room));
+    return room;
+  };
+
+  const getRoomById = async (id: string): Promise<Room | null> => {
+    const room = (await executeApiCall(
+      (tenant, accessToken) => apiGetRoomById(id, tenant, accessToken),
+      "Fetch Room",
+      ""
+    )) as Room | null;
+    if (room) setRooms((prev) => upsert(prev, room));
+    return room;
+  };
+
+  const updateRoom = async (
+    id: string,
+    payload: RoomUpdatePayload
+  ): Promise<Room | null> => {
+    const previous = rooms.find((room) => room.id === id);
+    if (previous) {
+      setRooms((prev) => upsert(prev, { ...previous, ...payload }));
+    }
+
+    const room = (await executeApiCall(
+      (tenant, accessToken) => apiUpdateRoom(id, payload, tenant, accessToken),
+      "Update Room",
+      "Room updated successfully"
+    )) as Room | null;
+
+    if (room) {
+      setRooms((prev) => upsert(prev, room));
+    } else if (previous) {
+      setRooms((prev) => upsert(prev, previous));
+    }
+    return room;
+  };
+
+  const refreshRooms = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 10
+  ): Promise<Pagination<Room> | null> => {
+    // Rooms owned by or shared with the selected company (not 'all')
+    const enhancedSearchRequest = { ...searchRequest };
+
+    if (selectedCompanyScope && selectedCompanyScope !== "all") {
+      enhancedSearchRequest.filters = {
+        ...enhancedSearchRequest.filters,
+        or: {
+          ...enhancedSearchRequest.filters?.or,
+          ownerCompanyId: selectedCompanyScope,
+          sharedWithCompanies: selectedCompanyScope,
+        },
+      };
+    }
+
+    const result = (await executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchRooms(enhancedSearchRequest, page, pageSize, tenant, accessToken),
+      "Search Rooms",
+      ""
+    )) as Pagination<Room> | null;
+    if (result) setRooms(result.content);
+    return result;
+  };
+
+  const deleteRoom = async (id: string): Promise<boolean> => {
+    const previous = rooms;
+    setRooms((prev) => prev.filter((room) => room.id !== id));
+
+    const result = (await executeApiCall(
+      (tenant, accessToken) => apiDeleteRoom(id, tenant, accessToken),
+      "Delete Room",
+      "Room deleted successfully",
+      true
+    )) as boolean;
+    if (!result) setRooms(previous);
+    return result;
+  };
+
+  // ==================== BOOKING METHODS ====================
+
+  const clearBookingConflict = () => setBookingConflict(null);
+
+  const createBooking = async (
+    carrier: RoomBookingCarrier
+  ): Promise<RoomBooking | null> => {
+    setBookingConflict(null);
+
+    // Check against the loaded bookings first; the server checks again
+    const start = new Date(carrier.startDateTime);
+    const startTime = format(start, "HH:mm");
+    const endTime = format(new Date(carrier.endDateTime), "HH:mm");
+    const room = rooms.find((r) => r.id === carrier.roomId);
+    if (room && !isRoomAvailable(room, start, startTime, endTime, bookings)) {
+      setBookingConflict(
+        `${room.name} is not available on ${format(start, "MMM d, yyyy")} from ${startTime} to ${endTime}. Please choose another time.`
+      );
+      return null;
+    }
+
+    // Show the booking straight away; replaced or removed once the server answers
+    const now = new Date().toISOString();
+    const optimistic: RoomBooking = {
+      ...carrier,
+      id: `temp-${Date.now()}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    setBookings((prev) => [...prev, optimistic]);
+
+    const booking = (await executeApiCall(
+      (tenant, accessToken) => apiCreateBooking(carrier, tenant, accessToken),
+      "Create Booking",
+      "", // Confirmed by the room list the booking page returns to
+      false,
+      (message) =>
+        setBookingConflict(
+          message || "The room was booked by someone else for this time. Please choose another time."
+        )
+    )) as RoomBooking | null;
+
+    setBookings((prev) =>
+      booking
+        ? prev.map((b) => (b.id === optimistic.id ? booking : b))
+        : prev.filter((b) => b.id !== optimistic.id)
+    );
+    return booking;
+  };
+
+  const getBookingById = async (id: string): Promise<RoomBooking | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiGetBookingById(id, tenant, accessToken),
+      "Fetch Booking",
+      ""
+    ) as Promise<RoomBooking | null>;
+  };
+
+  const updateBooking = async (
+    id: string,
+    payload: BookingUpdatePayload
+  ): Promise<RoomBooking | null> => {
+    const previous = bookings.find((booking) => booking.id === id);
+    if (previous) {
+      setBookings((prev) => upsert(prev, { ...previous, ...payload }));
+    }
+
+    const booking = (await executeApiCall(
+      (tenant, accessToken) =>
+        apiUpdateBooking(id, payload, tenant, accessToken),
+      "Update Booking",
+      "Booking updated successfully",
+      false,
+      (message) =>
+        setBookingConflict(
+          message || "The room is already booked for this time."
+        )
+    )) as RoomBooking | null;
+
+    if (booking) {
+      setBookings((prev) => upsert(prev, booking));
+    } else if (previous) {
+      setBookings((prev) => upsert(prev, previous));
+    }
+    return booking;
+  };
+
+  /**
+   * Bookings are not company-scoped: a room shared across companies shows
+   * every company's bookings so that conflicts stay visible
+   */
+  const refreshBookings = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 10
+  ): Promise<Pagination<RoomBooking> | null> => {
+    const result = (await executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchBookings(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Bookings",
+      ""
+    )) as Pagination<RoomBooking> | null;
+    if (result) setBookings(result.content);
+    return result;
+  };
+
+  /**
+   * Search without replacing the loaded bookings, e.g. the schedule of a
+   * room checked from a page listing the user's own bookings
+   */
+  const searchBookings = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 10
+  ): Promise<Pagination<RoomBooking> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchBookings(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Bookings",
+      ""
+    ) as Promise<Pagination<RoomBooking> | null>;
+  };
+
+  // ==================== RECURRING BOOKING METHODS ====================
+
+  /**
+   * Apply updates to several bookings one by one, optimistically
+   * A booking whose update fails is restored; clashes are reported together
+   */
+  const applyBookingUpdates = async (
+    updates: Record<string, BookingUpdatePayload>,
+    operationName: string,
+    successMessage: string
+  ): Promise<boolean> => {
+    const ids = Object.keys(updates);
+    const previous = bookings.filter((booking) => ids.includes(booking.id));
+    setBookings((prev) =>
+      prev.map((booking) =>
+        updates[booking.id] ? { ...booking, ...updates[booking.id] } : booking
+      )
+    );
+
+    let failed = 0;
+    let clashes = 0;
+    for (const id of ids) {
+      const booking = (await executeApiCall(
+        (tenant, accessToken) =>
+          apiUpdateBooking(id, updates[id], tenant, accessToken),
+        operationName,
+        "",
+        false,
+        () => clashes++
+      )) as RoomBooking | null;
+
+      const replacement = booking || previous.find((b) => b.id === id);
+      if (!booking) failed++;
+      if (replacement) {
+        setBookings((prev) =>
+          prev.map((b) => (b.id === id ? replacement : b))
+        );
+      }
+    }
+
+    if (clashes > 0) {
+      toast({
+        variant: "destructive",
+        title: "Some occurrences were not changed",
+        description: `${clashes} occurrence(s) clashed with other bookings and were left as they were.`,
+      });
+    }
+    if (failed === 0) handleSuccess(successMessage);
+    return failed === 0;
+  };
+
+  /**
+   * Create the occurrences of a recurring booking, then link them
+   * The first booking created keeps the rule and the list of occurrences;
+   * occurrences the server rejects as conflicts are skipped and reported
+   */
+  const createBookingSeries = async (
+    carriers: RoomBookingCarrier[]
+  ): Promise<RoomBooking[]> => {
+    setBookingConflict(null);
+    const created: RoomBooking[] = [];
+    const clashes: string[] = [];
+
+    for (const carrier of carriers) {
+      const first = created[0];
+      const payload: RoomBookingCarrier = first
+        ? { ...carrier, seriesId: first.id, recurrenceRule: undefined }
+        : carrier;
+      const booking = (await executeApiCall(
+        (tenant, accessToken) => apiCreateBooking(payload, tenant, accessToken),
+        "Create Booking",
+        "",
+        false,
+        () => clashes.push(carrier.date)
+      )) as RoomBooking | null;
+      if (booking) created.push(booking);
+    }
+
+    if (created.length === 0) {
+      if (clashes.length > 0) {
+        setBookingConflict(
+          "Every occurrence was booked by someone else meanwhile. Please choose another time."
+        );
+      }
+      return [];
+    }
+
+    const first = created[0];
+    const link = {
+      seriesId: first.id,
+      recurrenceInstances: created.map((booking) => booking.id),
+    };
+    const linked = (await executeApiCall(
+      (tenant, accessToken) =>
+        apiUpdateBooking(first.id, link, tenant, accessToken),
+      "Update Booking",
+      ""
+    )) as RoomBooking | null;
+
+    const series = created.map((booking) =>
+      booking.id === first.id ? linked || { ...booking, ...link } : booking
+    );
+    setBookings((prev) => [...prev, ...series]);
+
+    if (clashes.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Some occurrences were not booked",
+        description: `The room was booked by someone else on ${clashes
+          .map((date) => format(new Date(`${date}T00:00`), "MMM d"))
+          .join(", ")}.`,
+      });
+    }
+    return series;
+  };
+
+  /**
+   * All occurrences of the series a booking belongs to, in date order
+   */
+  const getBookingSeries = async (
+    booking: RoomBooking
+  ): Promise<RoomBooking[]> => {
+    if (!booking.seriesId) return [booking];
+
+    const result = await searchBookings(
+      {
+        filters: { and: { seriesId: booking.seriesId } },
+        sort: { startDateTime: 1 },
+      },
+      0,
+      MAX_RECURRENCE_OCCURRENCES * 2
+    );
+    return result ? result.content : [booking];
+  };
+
+  /**
+   * Cancel one occurrence, this and the following ones (the series then ends
+   * the day before) or every upcoming occurrence of the series
+   */
+  const cancelOccurrences = async (
+    booking: RoomBooking,
+    scope: RecurrenceEditScope
+  ): Promise<boolean> => {
+    const series = await getBookingSeries(booking);
+    const cancelledAt = new Date().toISOString();
+    const updates: Record<string, BookingUpdatePayload> =
+      scope === "following" ? buildSeriesTruncation(booking, series) : {};
+
+    selectOccurrences(booking, series, scope)
+      .filter((occurrence) => isChangeableOccurrence(occurrence))
+      .forEach((occurrence) => {
+        updates[occurrence.id] = {
+          ...updates[occurrence.id],
+          status: "cancelled",
+          cancelledAt,
+        };
+      });
+
+    return applyBookingUpdates(
+      updates,
+      "Cancel Booking",
+      scope === "this" ? "Booking cancelled successfully" : "Bookings cancelled successfully"
+    );
+  };
+
+  /**
+   * Apply per-occurrence changes; editing this and the following occurrences
+   * splits them off into a series of their own
+   */
+  const rescheduleOccurrences = async (
+    booking: RoomBooking,
+    scope: RecurrenceEditScope,
+    series: RoomBooking[],
+    payloads: Record<string, BookingUpdatePayload>
+  ): Promise<boolean> => {
+    const updates: Record<string, BookingUpdatePayload> =
+      scope === "following" ? buildSeriesSplit(booking, series) : {};
+
+    Object.entries(payloads).forEach(([id, payload]) => {
+      updates[id] = { ...updates[id], ...payload };
+    });
+
+    return applyBookingUpdates(
+      updates,
+      "Update Booking",
+      scope === "this" ? "Booking updated successfully" : "Bookings updated successfully"
+    );
+  };
+
+  // ==================== CHECK-IN METHODS ====================
+
+  const checkInBooking = async (
+    booking: RoomBooking
+  ): Promise<RoomBooking | null> => {
+    return updateBooking(booking.id, {
+      checkedInAt: new Date().toISOString(),
+    });
+  };
+
+  /**
+   * Check out now; before the booked end this frees the rest of the slot
+   */
+  const checkOutBooking = async (
+    booking: RoomBooking
+  ): Promise<RoomBooking | null> => {
+    const now = new Date();
+    const end = new Date(booking.endDateTime);
+    return updateBooking(booking.id, {
+      status: "completed",
+      checkedOutAt: now.toISOString(),
+      actualEndTime: (now < end ? now : end).toISOString(),
+    });
+  };
+
+  /**
+   * Ask the server to release bookings nobody checked in to as no-shows
+   * The server judges each check-in window by its own clock, so only the
+   * bookings it returns are updated; no toast, as this runs in the background
+   */
+  const releaseNoShows = async (
+    unclaimed: RoomBooking[]
+  ): Promise<RoomBooking[] | null> => {
+    if (unclaimed.length === 0) return [];
+
+    const released = (await executeApiCall(
+      (tenant, accessToken) =>
+        apiReleaseNoShows(
+          unclaimed.map((booking) => booking.id),
+          tenant,
+          accessToken
+        ),
+      "Release Bookings",
+      ""
+    )) as RoomBooking[] | null;
+
+    if (released && released.length > 0) {
+      setBookings((prev) =>
+        released.reduce((items, booking) => upsert(items, booking), prev)
+      );
+    }
+    return released;
+  };
+
+  // ==================== PROVIDER VALUE ====================
+
+  const contextValue: RoomBookingContextType = {
+    // Room Methods
+    createRoom,
+    getRoomById,
+    updateRoom,
+    refreshRooms,
+    deleteRoom,
+
+    // Booking Methods
+    createBooking,
+    getBookingById,
+    updateBooking,
+    refreshBookings,
+    searchBookings,
+
+    // Recurring Booking Methods
+    createBookingSeries,
+    getBookingSeries,
+    cancelOccurrences,
+    rescheduleOccurrences,
+
+    // Check-in Methods
+    checkInBooking,
+    checkOutBooking,
+    releaseNoShows,
+
+    // Loaded Data
+    rooms,
+    bookings,
+
+    // Conflict State
+    bookingConflict,
+    clearBookingConflict,
+
+    // Loading State
+    isLoading,
+  };
+
+  return (
+    <RoomBookingContext.Provider value={contextValue}>
+      {children}
+    </RoomBookingContext.Provider>
+  );
+}
+
+/**
+ * Hook to use Room Booking Context
+ *
+ * Usage:
+ * const { refreshRooms, createBooking, bookingConflict, isLoading } = useRoomBooking();
+ */
+export function useRoomBooking() {
+  const context = useContext(RoomBookingContext);
+  if (!context) {
+    throw new Error("useRoomBooking must be used within RoomBookingProvider");
+  }
+  return context;
+}
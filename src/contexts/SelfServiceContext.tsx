@@ -33,6 +33,10 @@ import {
   apiGetCredits,
   apiRequestCredits,
   apiCancelCreditRequest,
+  apiGetEncashments,
+  apiRequestEncashment,
+  apiCancelEncashmentRequest,
+  apiGetMyLeaveLedger,
   apiGetMyPerformanceTemplates,
 } from "@/services/selfServiceService";
 
@@ -43,7 +47,7 @@ import {
   GeneralDetailsSnapshot,
   JobDetailsSnapshot,
 } from "@/modules/user-management/types/onboarding.types";
-import { AbsenceApplication, AbsenceCarrier, Credit, CreditCarrier } from "@/modules/leave-management-system/types/leave.types";
+import { AbsenceApplication, AbsenceCarrier, Credit, CreditCarrier, Encashment, EncashmentCarrier, LeaveTransaction } from "@/modules/leave-management-system/types/leave.types";
 import { PerformanceTemplate } from "@/modules/performance/types";
 import UniversalSearchRequest from "@/types/search";
 import Pagination from "@/types/pagination";
@@ -94,6 +98,22 @@ interface SelfServiceContextType {
   ) => Promise<Pagination<Credit> | null>;
   cancelCredit: (creditId: string) => Promise<boolean>;
 
+  // Encashment Methods (Self-Service)
+  requestEncashment: (carrier: EncashmentCarrier) => Promise<Encashment | null>;
+  getEncashments: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number,
+  ) => Promise<Pagination<Encashment> | null>;
+  cancelEncashment: (encashmentId: string) => Promise<boolean>;
+
+  // Leave Ledger Methods (Self-Service)
+  getMyLeaveLedger: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number,
+  ) => Promise<Pagination<LeaveTransaction> | null>;
+
   // Performance Template Methods (Self-Service)
   getMyPerformanceTemplates: () => Promise<PerformanceTemplate[] | null>;
 
@@ -355,6 +375,58 @@ export function SelfServiceProvider({ children }: { children: ReactNode }) {
     return result as boolean;
   };
 
+  // ==================== ENCASHMENT METHODS (SELF-SERVICE) ====================
+
+  const requestEncashment = async (
+    carrier: EncashmentCarrier,
+  ): Promise<Encashment | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiRequestEncashment(carrier, tenant, accessToken),
+      "Request Encashment",
+      "Encashment request submitted successfully",
+    ) as Promise<Encashment | null>;
+  };
+
+  const getEncashments = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20,
+  ): Promise<Pagination<Encashment> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiGetEncashments(searchRequest, page, pageSize, tenant, accessToken),
+      "Get Encashments",
+      "",
+    ) as Promise<Pagination<Encashment> | null>;
+  };
+
+  const cancelEncashment = async (encashmentId: string): Promise<boolean> => {
+    const result = await executeApiCall(
+      (tenant, accessToken) =>
+        apiCancelEncashmentRequest(encashmentId, tenant, accessToken),
+      "Cancel Encashment Request",
+      "Encashment request cancelled successfully",
+      true,
+    );
+    return result as boolean;
+  };
+
+  // ==================== LEAVE LEDGER METHODS (SELF-SERVICE) ====================
+
+  const getMyLeaveLedger = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20,
+  ): Promise<Pagination<LeaveTransaction> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiGetMyLeaveLedger(searchRequest, page, pageSize, tenant, accessToken),
+      "Get Leave Ledger",
+      "",
+    ) as Promise<Pagination<LeaveTransaction> | null>;
+  };
+
   // ==================== PERFORMANCE TEMPLATE METHODS (SELF-SERVICE) ====================
 
   const getMyPerformanceTemplates = async (): Promise<PerformanceTemplate[] | null> => {
@@ -389,6 +461,14 @@ export function SelfServiceProvider({ children }: { children: ReactNode }) {
     getCredits,
     cancelCredit,
 
+    // Encashment Methods
+    requestEncashment,
+    getEncashments,
+    cancelEncashment,
+
+    // Leave Ledger Methods
+    getMyLeaveLedger,
+
     // Performance Template Methods
     getMyPerformanceTemplates,
 
@@ -0,0 +1,409 @@
+/**
+ * Shift Context
+ * Manages shift definitions, rotations, the roster and shift swaps with
+ * centralized API access
+ *
+ * Features:
+ * - Create, update and search shift definitions and rotation patterns
+ * - Search and save the per-employee daily roster
+ * - Shift swap requests approved by the reporting manager (or their delegate)
+ * - Automatic error toast notifications for all operations
+ * - Success toast notifications for create, update, roster save and swap operations
+ * - Single unified loading state for async operations
+ * - Auto token validation and tenant resolution
+ */
+
+import { createContext, ReactNode, useContext, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  resolveAuth,
+  isTokenExpired,
+  removeStorageItem,
+} from "@/store/localStorage";
+import StorageKeys from "@/constants/storageConstants";
+
+// Shift Service
+import {
+  apiCreateShift,
+  apiUpdateShift,
+  apiSearchShifts,
+  apiCreateRotation,
+  apiUpdateRotation,
+  apiSearchRotations,
+  apiSearchRoster,
+  apiSaveRosterAssignments,
+  apiCreateShiftSwap,
+  apiSearchShiftSwaps,
+  apiApproveRejectShiftSwap,
+  apiCancelShiftSwap,
+} from "@/services/shiftService";
+
+// Types
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  RosterAssignment,
+  RosterAssignmentCarrier,
+  RotationPattern,
+  RotationPatternCarrier,
+  ShiftDefinition,
+  ShiftDefinitionCarrier,
+  ShiftSwapCarrier,
+  ShiftSwapRequest,
+} from "@/modules/time-attendance/types/shift.types";
+
+/**
+ * Shift Context Type Definition
+ */
+interface ShiftContextType {
+  // Shift Definition Methods
+  createShift: (carrier: ShiftDefinitionCarrier) => Promise<ShiftDefinition | null>;
+  updateShift: (
+    id: string,
+    carrier: ShiftDefinitionCarrier
+  ) => Promise<ShiftDefinition | null>;
+  searchShifts: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<ShiftDefinition> | null>;
+
+  // Rotation Methods
+  createRotation: (carrier: RotationPatternCarrier) => Promise<RotationPattern | null>;
+  updateRotation: (
+    id: string,
+    carrier: RotationPatternCarrier
+  ) => Promise<RotationPattern | null>;
+  searchRotations: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<RotationPattern> | null>;
+
+  // Roster Methods
+  searchRoster: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<RosterAssignment> | null>;
+  saveRosterAssignments: (
+    carriers: RosterAssignmentCarrier[]
+  ) => Promise<RosterAssignment[] | null>;
+
+  // Swap Methods
+  createShiftSwap: (carrier: ShiftSwapCarrier) => Promise<ShiftSwapRequest | null>;
+  searchShiftSwaps: (
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number
+  ) => Promise<Pagination<ShiftSwapRequest> | null>;
+  approveRejectShiftSwap: (
+    id: string,
+    status: "approve" | "reject",
+    actingFor?: string
+  ) => Promise<ShiftSwapRequest | null>;
+  cancelShiftSwap: (id: string) => Promise<ShiftSwapRequest | null>;
+
+  // Loading State
+  isLoading: boolean;
+}
+
+const ShiftContext = createContext<ShiftContextType | undefined>(undefined);
+
+/**
+ * Shift Provider Component
+ */
+export function ShiftProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * Check if token is still valid
+   */
+  const validateToken = (): boolean => {
+    if (isTokenExpired()) {
+      removeStorageItem(StorageKeys.USER);
+      removeStorageItem(StorageKeys.SESSION);
+      removeStorageItem(StorageKeys.TENANT);
+
+      toast({
+        variant: "destructive",
+        title: "Session Expired",
+        description: "Your session has expired. Please log in again.",
+      });
+
+      window.location.href = "/auth/login";
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Generic error handler
+   */
+  const handleError = (
+    error: unknown,
+    title: string,
+    defaultMessage: string
+  ) => {
+    const errorMessage =
+      error instanceof Error ? error.message : defaultMessage;
+    toast({
+      variant: "destructive",
+      title,
+      description: errorMessage,
+    });
+  };
+
+  /**
+   * Generic success handler
+   */
+  const handleSuccess = (message: string) => {
+    toast({
+      title: "Success",
+      description: message,
+    });
+  };
+
+  /**
+   * Generic async operation wrapper with token validation and loading state
+   */
+  const executeApiCall = async <T,>(
+    apiCall: (tenant: string, accessToken: string) => Promise<any>,
+    operationName: string,
+    successMessage: string,
+    returnOnSuccess: boolean = false
+  ): Promise<T | boolean | null> => {
+    if (!validateToken()) return returnOnSuccess ? false : null;
+
+    const auth = resolveAuth();
+    if (!auth.tenant || !auth.accessToken) {
+      handleError(
+        new Error("Missing auth"),
+        "Error",
+        "Authentication information is missing"
+      );
+      return returnOnSuccess ? false : null;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await apiCall(auth.tenant, auth.accessToken);
+
+      if (!response.success) {
+        handleError(
+          response.message,
+          `${operationName} Failed`,
+          response.message || `Failed to ${operationName}`
+        );
+        return returnOnSuccess ? false : null;
+      }
+
+      if (successMessage) {
+        handleSuccess(successMessage);
+      }
+
+      return returnOnSuccess ? true : response.data;
+    } catch (error) {
+      handleError(error, "Error", `An error occurred during ${operationName}`);
+      return returnOnSuccess ? false : null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // ==================== SHIFT DEFINITION METHODS ====================
+
+  const createShift = async (
+    carrier: ShiftDefinitionCarrier
+  ): Promise<ShiftDefinition | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiCreateShift(carrier, tenant, accessToken),
+      "Create Shift",
+      "Shift created successfully"
+    ) as Promise<ShiftDefinition | null>;
+  };
+
+  const updateShift = async (
+    id: string,
+    carrier: ShiftDefinitionCarrier
+  ): Promise<ShiftDefinition | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiUpdateShift(id, carrier, tenant, accessToken),
+      "Update Shift",
+      "Shift updated successfully"
+    ) as Promise<ShiftDefinition | null>;
+  };
+
+  const searchShifts = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<ShiftDefinition> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchShifts(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Shifts",
+      ""
+    ) as Promise<Pagination<ShiftDefinition> | null>;
+  };
+
+  // ==================== ROTATION METHODS ====================
+
+  const createRotation = async (
+    carrier: RotationPatternCarrier
+  ): Promise<RotationPattern | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiCreateRotation(carrier, tenant, accessToken),
+      "Create Rotation",
+      "Rotation pattern created successfully"
+    ) as Promise<RotationPattern | null>;
+  };
+
+  const updateRotation = async (
+    id: string,
+    carrier: RotationPatternCarrier
+  ): Promise<RotationPattern | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiUpdateRotation(id, carrier, tenant, accessToken),
+      "Update Rotation",
+      "Rotation pattern updated successfully"
+    ) as Promise<RotationPattern | null>;
+  };
+
+  const searchRotations = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<RotationPattern> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchRotations(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Rotations",
+      ""
+    ) as Promise<Pagination<RotationPattern> | null>;
+  };
+
+  // ==================== ROSTER METHODS ====================
+
+  const searchRoster = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<RosterAssignment> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchRoster(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Roster",
+      ""
+    ) as Promise<Pagination<RosterAssignment> | null>;
+  };
+
+  const saveRosterAssignments = async (
+    carriers: RosterAssignmentCarrier[]
+  ): Promise<RosterAssignment[] | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSaveRosterAssignments(carriers, tenant, accessToken),
+      "Save Roster",
+      "Roster saved successfully"
+    ) as Promise<RosterAssignment[] | null>;
+  };
+
+  // ==================== SWAP METHODS ====================
+
+  const createShiftSwap = async (
+    carrier: ShiftSwapCarrier
+  ): Promise<ShiftSwapRequest | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiCreateShiftSwap(carrier, tenant, accessToken),
+      "Request Shift Swap",
+      "Shift swap requested successfully"
+    ) as Promise<ShiftSwapRequest | null>;
+  };
+
+  const searchShiftSwaps = async (
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20
+  ): Promise<Pagination<ShiftSwapRequest> | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiSearchShiftSwaps(searchRequest, page, pageSize, tenant, accessToken),
+      "Search Shift Swaps",
+      ""
+    ) as Promise<Pagination<ShiftSwapRequest> | null>;
+  };
+
+  const approveRejectShiftSwap = async (
+    id: string,
+    status: "approve" | "reject",
+    actingFor?: string
+  ): Promise<ShiftSwapRequest | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiApproveRejectShiftSwap(id, status, tenant, accessToken, actingFor),
+      status === "approve" ? "Approve Shift Swap" : "Reject Shift Swap",
+      status === "approve"
+        ? "Shift swap approved successfully"
+        : "Shift swap rejected successfully"
+    ) as Promise<ShiftSwapRequest | null>;
+  };
+
+  const cancelShiftSwap = async (
+    id: string
+  ): Promise<ShiftSwapRequest | null> => {
+    return executeApiCall(
+      (tenant, accessToken) => apiCancelShiftSwap(id, tenant, accessToken),
+      "Cancel Shift Swap",
+      "Shift swap cancelled successfully"
+    ) as Promise<ShiftSwapRequest | null>;
+  };
+
+  // ==================== PROVIDER VALUE ====================
+
+  const contextValue: ShiftContextType = {
+    // Shift Definition Methods
+    createShift,
+    updateShift,
+    searchShifts,
+
+    // Rotation Methods
+    createRotation,
+    updateRotation,
+    searchRotations,
+
+    // Roster Methods
+    searchRoster,
+    saveRosterAssignments,
+
+    // Swap Methods
+    createShiftSwap,
+    searchShiftSwaps,
+    approveRejectShiftSwap,
+    cancelShiftSwap,
+
+    // Loading State
+    isLoading,
+  };
+
+  return (
+    <ShiftContext.Provider value={contextValue}>
+      {children}
+    </ShiftContext.Provider>
+  );
+}
+
+/**
+ * Hook to use Shift Context
+ *
+ * Usage:
+ * const { searchShifts, searchRoster, saveRosterAssignments, isLoading } = useShift();
+ */
+export function useShift() {
+  const context = useContext(ShiftContext);
+  if (!context) {
+    throw new Error("useShift must be used within ShiftProvider");
+  }
+  return context;
+}
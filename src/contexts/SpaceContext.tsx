@@ -4,6 +4,8 @@
  *
  * Features:
  * - Space CRUD operations
+ * - Floor plans per floor, saved on the space with the rooms placed on them;
+ *   plan images are uploaded and referenced by URL
  * - Automatic error toast notifications for all operations
  * - Success toast notifications for create, update, delete operations
  * - Single unified loading state for async operations
@@ -29,6 +31,8 @@ import {
   apiDeleteSpace,
   apiBulkDeleteSpaces,
   apiBulkUpdateSpaces,
+  apiUploadFloorPlanImage,
+  FloorPlanImage,
   SpaceCarrier,
   SpaceUpdatePayload,
 } from "@/services/spaceService";
@@ -36,7 +40,7 @@ import {
 // Types
 import Pagination from "@/types/pagination";
 import UniversalSearchRequest from "@/types/search";
-import { Space } from "@/modules/space-management/spaceTypes";
+import { FloorPlan, Space } from "@/modules/space-management/spaceTypes";
 
 /**
  * Space Management Context Type Definition
@@ -61,6 +65,11 @@ interface SpaceContextType {
     updates: SpaceUpdatePayload
   ) => Promise<boolean>;
 
+  // Floor Plan Methods
+  uploadFloorPlanImage: (space: Space, file: File) => Promise<FloorPlanImage | null>;
+  saveFloorPlan: (space: Space, floorPlan: FloorPlan) => Promise<Space | null>;
+  deleteFloorPlan: (space: Space, floor: string) => Promise<Space | null>;
+
   // Loading State
   isLoading: boolean;
 }
@@ -267,6 +276,52 @@ export function SpaceProvider({ children }: { children: ReactNode }) {
     return result as boolean;
   };
 
+  // ==================== FLOOR PLAN METHODS ====================
+
+  const uploadFloorPlanImage = async (
+    space: Space,
+    file: File
+  ): Promise<FloorPlanImage | null> => {
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiUploadFloorPlanImage(space.id, file, tenant, accessToken),
+      "Upload Floor Plan Image",
+      ""
+    ) as Promise<FloorPlanImage | null>;
+  };
+
+  /**
+   * Add the floor plan of a floor, or replace the one already there
+   */
+  const saveFloorPlan = async (
+    space: Space,
+    floorPlan: FloorPlan
+  ): Promise<Space | null> => {
+    const floorPlans = [
+      ...(space.floorPlans || []).filter((plan) => plan.floor !== floorPlan.floor),
+      { ...floorPlan, updatedAt: new Date().toISOString() },
+    ];
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiUpdateSpace(space.id, { floorPlans }, tenant, accessToken),
+      "Save Floor Plan",
+      `Floor plan for ${floorPlan.floor} saved successfully`
+    ) as Promise<Space | null>;
+  };
+
+  const deleteFloorPlan = async (
+    space: Space,
+    floor: string
+  ): Promise<Space | null> => {
+    const floorPlans = (space.floorPlans || []).filter((plan) => plan.floor !== floor);
+    return executeApiCall(
+      (tenant, accessToken) =>
+        apiUpdateSpace(space.id, { floorPlans }, tenant, accessToken),
+      "Delete Floor Plan",
+      `Floor plan for ${floor} deleted successfully`
+    ) as Promise<Space | null>;
+  };
+
   // ==================== PROVIDER VALUE ====================
 
   const contextValue: SpaceContextType = {
@@ -279,6 +334,11 @@ export function SpaceProvider({ children }: { children: ReactNode }) {
     bulkDeleteSpaces,
     bulkUpdateSpaces,
 
+    // Floor Plan Methods
+    uploadFloorPlanImage,
+    saveFloorPlan,
+    deleteFloorPlan,
+
     // Loading State
     isLoading,
   };
@@ -51,6 +51,7 @@ import {
   apiBulkAddCredits,
   apiCreditLeaves,
   apiDeductLeaves,
+  apiGetLeaveLedger,
   apiAssignRolesToUsers,
   apiGetUserRoles,
   type BulkCreditCarrier,
@@ -188,6 +189,7 @@ import {
 
 // Types
 import Pagination from "@/types/pagination";
+import { LeaveTransaction } from "@/modules/leave-management-system/types/leave.types";
 import UniversalSearchRequest from "@/types/search";
 import {
   JobDetails,
@@ -473,6 +475,12 @@ interface UserManagementContextType {
   bulkAddCredits: (userIds: string[], carrier: Omit<BulkCreditCarrier, 'userIds'>) => Promise<boolean>;
   creditLeaves: (carrier: LeaveAdjustmentCarrier) => Promise<boolean>;
   deductLeaves: (carrier: LeaveAdjustmentCarrier) => Promise<boolean>;
+  getLeaveLedger: (
+    employeeId: string,
+    searchRequest: UniversalSearchRequest,
+    page?: number,
+    pageSize?: number,
+  ) => Promise<Pagination<LeaveTransaction> | null>;
 
   // Role Assignment Methods
   assignRolesToUsers: (carrier: AssignRolesCarrier) => Promise<boolean>;
@@ -1702,6 +1710,20 @@ export function UserManagementProvider({ children }: { children: ReactNode }) {
     return result as boolean;
   };
 
+  const getLeaveLedger = async (
+    employeeId: string,
+    searchRequest: UniversalSearchRequest,
+    page: number = 0,
+    pageSize: number = 20,
+  ): Promise<Pagination<LeaveTransaction> | null> => {
+    return executeApiCall(
+      (tenant, token) =>
+        apiGetLeaveLedger(employeeId, searchRequest, page, pageSize, tenant, token),
+      "Fetch Leave Ledger",
+      "", // Empty string for no success toast
+    ) as Promise<Pagination<LeaveTransaction> | null>;
+  };
+
   // ==================== ROLE ASSIGNMENT ====================
 
   const assignRolesToUsers = async (
@@ -1847,6 +1869,7 @@ export function UserManagementProvider({ children }: { children: ReactNode }) {
     bulkAddCredits,
     creditLeaves,
     deductLeaves,
+    getLeaveLedger,
 
     // Role Assignment
     assignRolesToUsers,
@@ -4,6 +4,7 @@
  *
  * Features:
  * - Visitor CRUD operations
+ * - Self-registration invites
  * - Automatic error toast notifications for all operations
  * - Success toast notifications for create, update, delete operations
  * - Single unified loading state for async operations
@@ -26,12 +27,18 @@ import {
   updateVisitor as apiUpdateVisitor,
   deleteVisitor as apiDeleteVisitor,
   searchVisitorSnapshots,
+  createVisitorInvite as apiCreateVisitorInvite,
 } from "@/services/visitorManagementMain";
 
 // Types
 import Pagination from "@/types/pagination";
 import UniversalSearchRequest from "@/types/search";
-import { VisitorCarrier, VisitorSnapshot } from "@/modules/visitor-management/types";
+import {
+  VisitorCarrier,
+  VisitorInvite,
+  VisitorInviteCarrier,
+  VisitorSnapshot,
+} from "@/modules/visitor-management/types";
 
 /**
  * Generic update payload type
@@ -58,6 +65,9 @@ interface VisitorManagementContextType {
     updates: UpdatePayload,
   ) => Promise<boolean>;
 
+  // Invite Methods
+  createVisitorInvite: (carrier: VisitorInviteCarrier) => Promise<VisitorInvite | null>;
+
   // Loading State
   isLoading: boolean;
 }
@@ -277,6 +287,18 @@ export function VisitorManagementProvider({ children }: { children: ReactNode })
     return result as boolean;
   };
 
+  // ==================== INVITE METHODS ====================
+
+  const createVisitorInvite = async (
+    carrier: VisitorInviteCarrier,
+  ): Promise<VisitorInvite | null> => {
+    return executeApiCall(
+      () => apiCreateVisitorInvite(carrier),
+      "Create Invite",
+      "Invite link created",
+    ) as Promise<VisitorInvite | null>;
+  };
+
   // ==================== PROVIDER VALUE ====================
 
   const contextValue: VisitorManagementContextType = {
@@ -289,6 +311,9 @@ export function VisitorManagementProvider({ children }: { children: ReactNode })
     bulkDeleteVisitors,
     bulkUpdateVisitors,
 
+    // Invite Methods
+    createVisitorInvite,
+
     // Loading State
     isLoading,
   };
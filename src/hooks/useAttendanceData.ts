@@ -12,11 +12,15 @@ import {
   AttendanceAnalytics,
   RegularisationStatus,
   AttendanceDetail,
+  MusterAttendanceRecord,
 } from '@/types/attendance';
 import {
   getPersonalAttendanceData,
+  getMusterAttendanceData,
+  getTeamAttendanceData,
   getExtraHoursRequests,
   getShiftSettings,
+  updateShiftSettings,
   createExtraHoursRequest,
   updateExtraHoursRequest,
   cancelExtraHoursRequest,
@@ -73,6 +77,82 @@ export function usePersonalAttendance(
   return { data, loading, error, refetch: fetchData };
 }
 
+/**
+ * Hook: Fetch attendance of a company's employees, optionally one department
+ */
+export function useMusterAttendance(
+  companyId: string,
+  department: string | undefined,
+  startDate: string,
+  endDate: string
+) {
+  const [data, setData] = useState<MusterAttendanceRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!companyId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await getMusterAttendanceData({ companyId, department, startDate, endDate });
+
+      if (response.success) {
+        setData(response.data);
+      } else {
+        setError(response.message || 'Failed to fetch attendance data');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, department, startDate, endDate]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, loading, error, refetch: fetchData };
+}
+
+/**
+ * Hook: Fetch attendance of a manager's direct reports
+ */
+export function useTeamAttendance(reportingTo: string, startDate: string, endDate: string) {
+  const [data, setData] = useState<MusterAttendanceRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!reportingTo) {
+      setData([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await getTeamAttendanceData({ reportingTo, startDate, endDate });
+
+      if (response.success) {
+        setData(response.data);
+      } else {
+        setError(response.message || 'Failed to fetch team attendance');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, [reportingTo, startDate, endDate]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { data, loading, error, refetch: fetchData };
+}
+
 /**
  * Hook: Fetch extra hours requests with pagination
  */
@@ -142,28 +222,28 @@ export function useShiftSettings(shiftId: string = 'regular') {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchSettings = async () => {
-      setLoading(true);
-      setError(null);
-      try {
-        const response = await getShiftSettings();
-        if (response.success) {
-          setData(response.data);
-        } else {
-          setError(response.message || 'Failed to fetch shift settings');
-        }
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'An error occurred');
-      } finally {
-        setLoading(false);
+  const fetchSettings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await getShiftSettings();
+      if (response.success) {
+        setData(response.data);
+      } else {
+        setError(response.message || 'Failed to fetch shift settings');
       }
-    };
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
 
+  useEffect(() => {
     fetchSettings();
-  }, []);
+  }, [fetchSettings]);
 
-  return { data, loading, error };
+  return { data, loading, error, refetch: fetchSettings };
 }
 
 // ============================================================================
@@ -247,6 +327,37 @@ export function useUpdateExtraHourRequest() {
   return { update, loading, error };
 }
 
+/**
+ * Hook: Update shift settings
+ */
+export function useUpdateShiftSettings() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = useCallback(async (settings: Partial<ShiftSettings>) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await updateShiftSettings(settings);
+
+      if (response.success) {
+        return response.data;
+      } else {
+        setError(response.message || 'Failed to update shift settings');
+        return null;
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'An error occurred';
+      setError(message);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return { update, loading, error };
+}
+
 /**
  * Hook: Cancel extra hours request
  */
@@ -0,0 +1,31 @@
+/**
+ * CSV helpers (RFC 4180)
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+// Leading characters a spreadsheet would evaluate as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const NUMERIC = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * Quote a CSV field when it contains separators, quotes or line breaks
+ * Text that a spreadsheet would run as a formula is prefixed with an apostrophe;
+ * numbers, including negative ones, are left as they are
+ */
+export function escapeCsvValue(value: CsvValue): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && !NUMERIC.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Join rows into CSV text with CRLF line endings
+ *
+ * @example
+ * toCsv([['Name', 'Amount'], ['Jane', 1200.5]]); // "Name,Amount\r\nJane,1200.5"
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
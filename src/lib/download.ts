@@ -0,0 +1,22 @@
+/**
+ * Browser download helpers
+ */
+
+/**
+ * Trigger a browser file download for text content (CSV, iCalendar, etc.)
+ */
+export function downloadTextFile(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  anchor.style.display = 'none';
+  document.body.appendChild(anchor);
+  anchor.click();
+  // Delay revoke so the browser has time to start the download
+  setTimeout(() => {
+    document.body.removeChild(anchor);
+    URL.revokeObjectURL(url);
+  }, 200);
+}
@@ -0,0 +1,63 @@
+/**
+ * Print helpers
+ * Printable documents are rendered as standalone HTML and printed from a hidden
+ * iframe, so the browser's print dialog can also save them as PDF
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text for interpolation into HTML
+ */
+export function escapeHtml(value: string | number | null | undefined): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+/**
+ * Open the print dialog for a standalone HTML document
+ * Waits for images (e.g. a company logo) so they are not missing from the output
+ */
+export function printHtmlDocument(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.setAttribute('aria-hidden', 'true');
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  const frameDocument = frameWindow?.document;
+  if (!frameWindow || !frameDocument) {
+    document.body.removeChild(frame);
+    return;
+  }
+
+  frameDocument.open();
+  frameDocument.write(html);
+  frameDocument.close();
+
+  const images = Array.from(frameDocument.images);
+  const imagesLoaded = images.map(
+    (image) =>
+      new Promise<void>((resolve) => {
+        if (image.complete) return resolve();
+        image.onload = () => resolve();
+        image.onerror = () => resolve();
+      })
+  );
+
+  Promise.all(imagesLoaded).then(() => {
+    frameWindow.focus();
+    frameWindow.print();
+    // Delay removal so the print dialog has the document
+    setTimeout(() => document.body.removeChild(frame), 1000);
+  });
+}
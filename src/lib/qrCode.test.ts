@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { encodeQrCode, QrMatrix } from './qrCode';
+
+const TEXTS: Record<number, string> = {
+  1: 'VGP-7K2M9QXR4T',
+  2: 'Café lobby · VGP-7K2M9Q',
+  7: 'https://hr.example.com/visitors/gate-pass/VGP-7K2M9QXR4T?tenant=acme&visit=2026-10-19T09:30:00Z&host=jane.doe',
+  10: 'https://hr.example.com/visitors/gate-pass/VGP-7K2M9QXR4T?tenant=acme-corp&visit=2026-10-19T09:30:00Z&host=jane.doe%40example.com&room=Board%20Room%203&ref=front-desk&lang=en-GB&badge=contractor&escort=1',
+};
+
+// Symbols of TEXTS from the qrcode npm package (byte mode, level M), with the
+// mask encodeQrCode picks; its penalty skips the finder-like rule, so the
+// mask may differ from the one that package would choose
+const EXPECTED: Record<number, string[]> = {
+  1: [
+    '#######.##.##.#######',
+    '#.....#.#.....#.....#',
+    '#.###.#...#.#.#.###.#',
+    '#.###.#.#..##.#.###.#',
+    '#.###.#..#.#..#.###.#',
+    '#.....#..#....#.....#',
+    '#######.#.#.#.#######',
+    '........#..#.........',
+    '#.##.###.#.#..#..#.##',
+    '..#.#...#..#####.##..',
+    '#...#.#####..###..###',
+    '##..##.#.##..#...#.##',
+    '.###.##..#######.###.',
+    '........###.#..###.##',
+    '#######.#.#.....#....',
+    '#.....#.#....#..#.#.#',
+    '#.###.#..#.#.##.####.',
+    '#.###.#.#..#.#..####.',
+    '#.###.#.#.####...##..',
+    '#.....#..###.#####..#',
+    '#######.#...#..####..',
+  ],
+  2: [
+    '#######.#...##.#..#######',
+    '#.....#.####.##.#.#.....#',
+    '#.###.#.#...##....#.###.#',
+    '#.###.#..#.#.##.#.#.###.#',
+    '#.###.#.###.#####.#.###.#',
+    '#.....#..##...#.#.#.....#',
+    '#######.#.#.#.#.#.#######',
+    '.........#..##.##........',
+    '#..########.#..#.#..#.###',
+    '...##..###..#......####..',
+    '.#..#.##.###.#.#.##..##.#',
+    '.#.#.......#..#.##...#..#',
+    '##....#####.##.##.##.####',
+    '###..#.#.#....##.#..#....',
+    '##.####....##..#....#..##',
+    '#.#.....#..#...#.###...#.',
+    '#..####.###.#############',
+    '........#..##.###...#..##',
+    '#######.#..#..#.#.#.#.#.#',
+    '#.....#.##..###.#...#..##',
+    '#.###.#.#....##.######...',
+    '#.###.#.#.#..##...#...###',
+    '#.###.#..#.#...#.#.###.##',
+    '#.....#....##.#.###..####',
+    '#######.##....#..##..#..#',
+  ],
+  7: [
+    '#######....##...#..#.........###.#..#.#######',
+    '#.....#.....##.##.##.#.#####.......#..#.....#',
+    '#.###.#.#.#..###.#.#.....##.#.#.##.#..#.###.#',
+    '#.###.#.##.#....#.#.#..##.##..##...##.#.###.#',
+    '#.###.#.##...#..##.########...#.#.###.#.###.#',
+    '#.....#.#......#..#.#...#...#..###....#.....#',
+    '#######.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#######',
+    '........#..####.###.#...#..##.######.........',
+    '#.#####....#.##.#.#.#######......#....#####..',
+    '#.#....#..##########....##.##.##...##...##.##',
+    '..#.####..##...#.#...#.#..#.##.##.#..###.#.#.',
+    '.#..#..#....##.###.###....#..###.#.###.####..',
+    '#.###.##..#.#.##.##.#.##.#.#..##..##.#......#',
+    '..####...##....###.###.###...####..##..#.####',
+    '###..###.####...##.##..###.#...#..###.###.#..',
+    '..##......#.#####....#.##...##..###.#####.#..',
+    '###...#..#.#..#.###.#......#.###.....#...#...',
+    '#.#.#..#.##.#.##....####.....##....###..#.###',
+    '...########..#.#..#.#...#.#.##..#.##..##..##.',
+    '###..#..#..#..#...##.......#.#..####.######.#',
+    '##..######..####..#.######...##..############',
+    '.#.##...##.#..##.#..#...#..##.##...##...###.#',
+    '.##.#.#.##..####.#.##.#.##.#.#.#.##.#.#.#.#..',
+    '..###...#..#.##.#...#...#####.####..#...#####',
+    '#########...#..#.#.#########..#..##.######...',
+    '#.##...###.####...###.#.##....#..#...##..##.#',
+    '####..###.##....###.#..#..#..#.#.##..#.#.#.#.',
+    '##.#.#..#...##.#.....#.##..#.#...#.#.##..###.',
+    '###.#.###..###..##.###.#.#..##.#..#.#.#.#..##',
+    '...##..###..##.#.#....##.#.####.##.#..#..#.##',
+    '.##...##.#####...##.##.###..#..#.##.#..#.##..',
+    '#...##..###.##.#.##..#..#####.####.#..##.##.#',
+    '#..#..##...#.#......##.###.#..##..#.#####...#',
+    '#..#...##.#........#..#.#..#####....##......#',
+    '....#.##########..#.#.##.##....#.##.##.##..#.',
+    '.####..#.####....#...##.###.###.##.####...##.',
+    '#..##.#...#..##.#.#######.##.#.#....#####....',
+    '........#####..#...##...###.###.#..##...#####',
+    '#######..#.#..##..###.#.#..##.#######.#.#.##.',
+    '#.....#.#...###....##...#####.###.###...###.#',
+    '#.###.#.##.##.##..#.######.....#.#########...',
+    '#.###.#.#..#.###.#.##.###..#..##...#.#.##.#.#',
+    '#.###.#.##.#####.#####..#.#.##..######...###.',
+    '#.....#...#.##.#....##.##.##.###..##.....##..',
+    '#######.##..#..#..##..###..#.###..#.#.##.#.#.',
+  ],
+  10: [
+    '#######..#######..########....###....#.#.#######..#######',
+    '#.....#..##.####.#.#..##.####....###..#..#.###.#..#.....#',
+    '#.###.#.###.##..#.#..##.#######.........#...####..#.###.#',
+    '#.###.#.##.####..#.##..#.#.......##.####...#...#..#.###.#',
+    '#.###.#.#...###..######.#.######.#.###.##.##...#..#.###.#',
+    '#.....#.#..#.#...###.#...##...#...###.##.....##...#.....#',
+    '#######.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#.#######',
+    '........##.###....#.#...###...####.#.#..#.#.#####........',
+    '#.#####...#..###.#..##.#.#######..###..#...#.#.#..#####..',
+    '.#.##..###.#....#.##...##..#.##.#..##..#.####..##.....#..',
+    '.##.#.##.##..##.#..#..##.##..#.####..##....##.#####.####.',
+    '#...##.#.....#######.##.##....####...##.##.#.#..#.....#.#',
+    '##..###.##...#.##.###.#.#.##..#...####.....#...#..#..#.#.',
+    '#...##.#.#...##.##.#.#.#.##..##....#.#.####.....#....##.#',
+    '...######....#####.##.#...##...#.##.#.#.##........###..#.',
+    '#.#.#...##.##..#....#..#.##.###.#.#....###.#.#.....#.##.#',
+    '....###.#..#..####.##.........#....##....###..#####..#..#',
+    '##.#...##.#####.#..#.#.###....#....##..####..#.##...###.#',
+    '.#.#.##.###.#.#....#.#.###.......######.##....#####..###.',
+    '..####..####.#..#.#.....#..###.##....##.######....#.####.',
+    '#..####.#..##...#.##.##...#....#.#..###...#..##..##....##',
+    '..#....###.#...#.#....####...#..#..###..###....##..#....#',
+    '#..#.###........#.#.###....#..#..#######...#.###.###..#..',
+    '.#.#....#....####.##.#.#...###.##.#..##.###.#..#.#.#.###.',
+    '..#.#.#####...#..##.#..#.##..#.....#####...#..#......#.##',
+    '..##.....#.#...####.#...#...####...###...##....##...#####',
+    '.##.#####..##.#.##...##.#.##########..#.....##########...',
+    '..###...#.#####..###....#.#...#.#.#..##.##..##..#...####.',
+    '##..#.#.###..#.#...#...#..#.#.##..####...#.#.##.#.#.#####',
+    '..###...#.#.#.##.##..#.####...###....#..######..#...#.##.',
+    '.########.#...######.############.###.##.....##.#####.##.',
+    '..#....##..###..#.......##.#...#####..##########.##...###',
+    '...##.##..##...##.##.#####..###....##.#...#..#...####..##',
+    '#.#..#...##.....#..#.#..#.#....#...###...##.#..#.#....#..',
+    '###..###....##....#....###...###..###.##.#.....#.#..#..##',
+    '..##......##.##.#..###..#..#...###.....##.####.##...###..',
+    '.#...####.#..##.....###....#.###..######..#..#...#..#....',
+    '..#..#.##......#.##..#.##.#.###.#........##..#..#.##.#.##',
+    '#.##.###.####.#...##.##.#..####..##.#.#.......##.#.......',
+    '######...##.####..####.#.##.##.##.#....#####...##.##..###',
+    '#.#...#...#####..##.##....####.#..###.#..###.#....#.#..#.',
+    '..#.#..##....#.#####..#.#.#..####........##..#....##.##.#',
+    '#.###.#.#.#..#.....##..#####.#######..##...#.####.....##.',
+    '##.....#.#.###....#..#.####....##....####..##..##.#.#####',
+    '#####.#...#....####.#.##..###.#..#####.#..##........##.##',
+    '.#.##..###.##.#.....###.#.#..##....#.....###.#.#..#...#.#',
+    '#.#..#####.#.##.##.#.....#.#..##..#.#.#.#..#..####.#..#..',
+    '#####..#.#.###.##.####..#######.##.#....##..#.##......#.#',
+    '......#.....#..####...#..#######.#####...#.#.##.#####..#.',
+    '........#..#...#...#.#.##.#...#.#..#.#..####....#...##..#',
+    '#######..##......##.#...#.#.#.#...##..#.#..######.#.###..',
+    '#.....#.#.#...###.....#.#.#...#.#......##.####..#...#.###',
+    '#.###.#.#...#..#.#.#.##.#######..#.###.......##.######...',
+    '#.###.#.####.###.#.#####..#.####.....#.#####.#.....#.#...',
+    '#.###.#.####...#...#.#...#...#.#.####.#.#..#..###....#...',
+    '#.....#..#.####.##....##..#..####.##.#.###.####......##..',
+    '#######.##.#.###..##.#...#.##..#..###.#...#..##.###.#..#.',
+  ],
+};
+
+const toRows = (matrix: QrMatrix) => matrix.map((row) => row.map((dark) => (dark ? '#' : '.')).join(''));
+
+describe('encodeQrCode', () => {
+  it.each([1, 2, 7, 10])('encodes the version %i reference symbol', (version) => {
+    const rows = toRows(encodeQrCode(TEXTS[version]));
+
+    expect(rows).toHaveLength(version * 4 + 17);
+    expect(rows).toEqual(EXPECTED[version]);
+  });
+
+  it('rejects text too long for version 10', () => {
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow('Text is too long for a QR code');
+  });
+});
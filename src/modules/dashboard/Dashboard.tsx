@@ -1,7 +1,11 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { useAuth } from '@/contexts/AuthContext';
+import { PunchWidget } from '@/modules/time-attendance/components/PunchWidget';
 
 export function Dashboard() {
+  const { user } = useAuth();
+
   return (
     <div className="space-y-6">
       <div>
@@ -12,6 +16,8 @@ export function Dashboard() {
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        <PunchWidget officialEmail={user?.email || ''} />
+
         <Card>
           <CardHeader>
             <CardTitle>Overview</CardTitle>
@@ -0,0 +1,179 @@
+/**
+ * Approval Delegation Page
+ * Managers hand their approvals to a delegate while they are away;
+ * HR manages delegations of every manager and reviews the audit log
+ */
+
+import { useEffect, useState } from 'react';
+import { Plus, UserCheck } from 'lucide-react';
+import { PageLayout } from '@/components/PageLayout';
+import { ConfirmationDialog } from '@/components/common/ConfirmationDialog';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDelegation } from '@/contexts/DelegationContext';
+import UniversalSearchRequest from '@/types/search';
+import { Delegation, DelegationAuditEntry } from './types';
+import { DelegationsTable } from './components/DelegationsTable';
+import { DelegationFormDialog } from './components/DelegationFormDialog';
+import { DelegationAuditLog } from './components/DelegationAuditLog';
+
+// Delegations and audit entries are short lists; one page is enough
+const MAX_ROWS = 200;
+
+export function DelegationManagement() {
+  const { user, hasResourceAccess } = useAuth();
+  const { searchDelegations, getActingDelegations, revokeDelegation, searchDelegationAudit, isLoading } =
+    useDelegation();
+
+  const currentEmail = user?.email || '';
+  const isHR = hasResourceAccess('user-management');
+
+  const [activeTab, setActiveTab] = useState('mine');
+  const [myDelegations, setMyDelegations] = useState<Delegation[]>([]);
+  const [actingDelegations, setActingDelegations] = useState<Delegation[]>([]);
+  const [allDelegations, setAllDelegations] = useState<Delegation[]>([]);
+  const [auditEntries, setAuditEntries] = useState<DelegationAuditEntry[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [revoking, setRevoking] = useState<Delegation | null>(null);
+
+  const fetchMyDelegations = async () => {
+    if (!currentEmail) return;
+    const result = await searchDelegations(
+      { filters: { and: { delegatorEmail: currentEmail } }, sort: { fromDate: -1 } },
+      0,
+      MAX_ROWS
+    );
+    setMyDelegations(result?.content || []);
+  };
+
+  const fetchActingDelegations = async () => {
+    const result = await getActingDelegations();
+    setActingDelegations(result || []);
+  };
+
+  const fetchAllDelegations = async () => {
+    if (!isHR) return;
+    const result = await searchDelegations({ sort: { fromDate: -1 } }, 0, MAX_ROWS);
+    setAllDelegations(result?.content || []);
+  };
+
+  // HR sees every entry; others see actions taken for them or by them
+  const fetchAuditEntries = async () => {
+    if (!currentEmail) return;
+    const searchRequest: UniversalSearchRequest = {
+      ...(!isHR && { filters: { or: { delegatorEmail: currentEmail, delegateEmail: currentEmail } } }),
+      sort: { actedAt: -1 },
+    };
+    const result = await searchDelegationAudit(searchRequest, 0, MAX_ROWS);
+    setAuditEntries(result?.content || []);
+  };
+
+  const refreshDelegations = async () => {
+    await Promise.all([fetchMyDelegations(), fetchAllDelegations()]);
+  };
+
+  useEffect(() => {
+    refreshDelegations();
+    fetchActingDelegations();
+  }, [currentEmail, isHR]);
+
+  useEffect(() => {
+    if (activeTab === 'audit') fetchAuditEntries();
+  }, [activeTab]);
+
+  const handleConfirmRevoke = async () => {
+    if (!revoking) return;
+    const revoked = await revokeDelegation(revoking.id);
+    setRevoking(null);
+    if (revoked) refreshDelegations();
+  };
+
+  return (
+    <>
+      <PageLayout>
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <UserCheck className="h-8 w-8" />
+                Approval Delegation
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Hand your team's leave, expense, attendance and performance approvals to a colleague while you are away
+              </p>
+            </div>
+            <Button onClick={() => setFormOpen(true)} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Delegate Approvals
+            </Button>
+          </div>
+
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList>
+              <TabsTrigger value="mine">My Delegations</TabsTrigger>
+              <TabsTrigger value="acting">Acting For ({actingDelegations.length})</TabsTrigger>
+              {isHR && <TabsTrigger value="all">All Delegations</TabsTrigger>}
+              <TabsTrigger value="audit">Audit Log</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="mine" className="mt-4">
+              <DelegationsTable
+                delegations={myDelegations}
+                isLoading={isLoading && myDelegations.length === 0}
+                onRevoke={setRevoking}
+                emptyMessage="You have not delegated your approvals"
+              />
+            </TabsContent>
+
+            <TabsContent value="acting" className="mt-4">
+              <DelegationsTable
+                delegations={actingDelegations}
+                showDelegator
+                showDelegate={false}
+                emptyMessage="Nobody has delegated their approvals to you"
+              />
+            </TabsContent>
+
+            {isHR && (
+              <TabsContent value="all" className="mt-4">
+                <DelegationsTable
+                  delegations={allDelegations}
+                  showDelegator
+                  onRevoke={setRevoking}
+                />
+              </TabsContent>
+            )}
+
+            <TabsContent value="audit" className="mt-4">
+              <DelegationAuditLog entries={auditEntries} isLoading={isLoading && auditEntries.length === 0} />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </PageLayout>
+
+      <DelegationFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        currentUserEmail={currentEmail}
+        canDelegateForOthers={isHR}
+        existingDelegations={isHR ? allDelegations : myDelegations}
+        onCreated={() => refreshDelegations()}
+      />
+
+      <ConfirmationDialog
+        open={revoking !== null}
+        onOpenChange={(open) => !open && setRevoking(null)}
+        onConfirm={handleConfirmRevoke}
+        title="Revoke Delegation"
+        description={
+          revoking
+            ? `${revoking.delegateName || revoking.delegateEmail} will no longer be able to act on ${revoking.delegatorName || revoking.delegatorEmail}'s approvals. Actions already taken stay in the audit log.`
+            : ''
+        }
+        confirmText="Revoke"
+        variant="destructive"
+      />
+    </>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Acting For Banner Component
+ * Switches an approval screen between the user's own queue and the queue of a
+ * manager who delegated to them, and states whose authority is being used
+ * Renders nothing when the user has no delegation for the domain
+ *
+ * ActingForAlert alone states the authority on screens opened on a single
+ * request, where the delegator follows from the request itself
+ */
+
+import { format } from "date-fns";
+import { UserCheck } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Delegation } from "../types";
+import { getDelegatorLabel } from "../utils/delegationWindow";
+
+interface ActingForBannerProps {
+  delegations: Delegation[]; // Active delegations for the screen's domain
+  actingForId: string; // Empty = own queue
+  onActingForChange: (delegationId: string) => void;
+  ownQueueLabel?: string;
+}
+
+// Select items cannot have an empty value
+const OWN_QUEUE = "OWN";
+
+export function ActingForAlert({ delegation }: { delegation: Delegation }) {
+  return (
+    <Alert className="border-blue-200 bg-blue-50 text-blue-900 dark:border-blue-900 dark:bg-blue-950/30 dark:text-blue-100">
+      <UserCheck className="h-4 w-4" />
+      <AlertTitle>Acting for {getDelegatorLabel(delegation)}</AlertTitle>
+      <AlertDescription>
+        You are reviewing {delegation.delegatorEmail}'s queue until{" "}
+        {format(new Date(delegation.toDate), "MMM dd, yyyy")}. Every approval and
+        rejection is recorded in the delegation audit log.
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export function ActingForBanner({
+  delegations,
+  actingForId,
+  onActingForChange,
+  ownQueueLabel = "My approvals",
+}: ActingForBannerProps) {
+  if (delegations.length === 0) return null;
+
+  const actingFor = delegations.find((delegation) => delegation.id === actingForId);
+
+  return (
+    <div className="space-y-3">
+      <Select
+        value={actingFor ? actingFor.id : OWN_QUEUE}
+        onValueChange={(value) => onActingForChange(value === OWN_QUEUE ? "" : value)}
+      >
+        <SelectTrigger className="w-72">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={OWN_QUEUE}>{ownQueueLabel}</SelectItem>
+          {delegations.map((delegation) => (
+            <SelectItem key={delegation.id} value={delegation.id}>
+              Acting for {getDelegatorLabel(delegation)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {actingFor && <ActingForAlert delegation={actingFor} />}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Delegation Audit Log Component
+ * Approvals and rejections taken by delegates on behalf of their delegators
+ */
+
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DelegationAuditEntry } from "../types";
+import { delegationDomainLabels } from "../constants";
+
+interface DelegationAuditLogProps {
+  entries: DelegationAuditEntry[];
+  isLoading?: boolean;
+}
+
+export function DelegationAuditLog({ entries, isLoading = false }: DelegationAuditLogProps) {
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="rounded-md border max-h-[480px] overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>When</TableHead>
+            <TableHead>Delegate</TableHead>
+            <TableHead>Acting For</TableHead>
+            <TableHead>Domain</TableHead>
+            <TableHead>Record</TableHead>
+            <TableHead>Action</TableHead>
+            <TableHead>Remarks</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                No delegated actions recorded
+              </TableCell>
+            </TableRow>
+          )}
+          {entries.map((entry) => (
+            <TableRow key={entry.id}>
+              <TableCell className="whitespace-nowrap">
+                {format(new Date(entry.actedAt), "MMM dd, yyyy hh:mm a")}
+              </TableCell>
+              <TableCell>{entry.delegateEmail}</TableCell>
+              <TableCell>{entry.delegatorEmail}</TableCell>
+              <TableCell>{delegationDomainLabels[entry.domain] || entry.domain}</TableCell>
+              <TableCell className="whitespace-nowrap">
+                <span className="text-muted-foreground capitalize">{entry.recordType}</span>{" "}
+                <span className="font-mono text-xs">{entry.recordId}</span>
+              </TableCell>
+              <TableCell>
+                <Badge variant={entry.action === "approve" ? "default" : "destructive"}>
+                  {entry.action === "approve" ? "Approved" : "Rejected"}
+                </Badge>
+              </TableCell>
+              <TableCell className="max-w-xs truncate">{entry.remarks || "-"}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
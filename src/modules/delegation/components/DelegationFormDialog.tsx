@@ -0,0 +1,187 @@
+/**
+ * Delegation Form Dialog
+ * Assigns a delegate to a manager's approvals for a date range and domains
+ * HR can pick any manager as the delegator; managers delegate their own approvals
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { UsersSelector } from '@/components/context-aware/UsersSelector';
+import { useDelegation } from '@/contexts/DelegationContext';
+import { Delegation, DelegationDomain } from '../types';
+import { DELEGATION_DOMAINS, delegationDomainLabels } from '../constants';
+import { findOverlappingDelegation, getDelegatorLabel } from '../utils/delegationWindow';
+
+interface DelegationFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserEmail: string;
+  canDelegateForOthers: boolean; // HR
+  existingDelegations: Delegation[]; // Checked for overlaps before submitting
+  onCreated: (delegation: Delegation) => void;
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+export const DelegationFormDialog: React.FC<DelegationFormDialogProps> = ({
+  open,
+  onOpenChange,
+  currentUserEmail,
+  canDelegateForOthers,
+  existingDelegations,
+  onCreated,
+}) => {
+  const { createDelegation, isLoading } = useDelegation();
+  const [delegatorEmail, setDelegatorEmail] = useState(currentUserEmail);
+  const [delegateEmail, setDelegateEmail] = useState('');
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState(today);
+  const [domains, setDomains] = useState<DelegationDomain[]>([]);
+  const [reason, setReason] = useState('');
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDelegatorEmail(currentUserEmail);
+    setDelegateEmail('');
+    setFromDate(today());
+    setToDate(today());
+    setDomains([]);
+    setReason('');
+  }, [open, currentUserEmail]);
+
+  const toggleDomain = (domain: DelegationDomain, checked: boolean) => {
+    setDomains((prev) => (checked ? [...prev, domain] : prev.filter((d) => d !== domain)));
+  };
+
+  const overlap = delegatorEmail
+    ? findOverlappingDelegation(existingDelegations, { delegatorEmail, domains, fromDate, toDate })
+    : null;
+
+  let validationError: string | null = null;
+  if (delegatorEmail && delegateEmail && delegatorEmail.toLowerCase() === delegateEmail.toLowerCase()) {
+    validationError = 'A manager cannot delegate to themselves';
+  } else if (toDate < fromDate) {
+    validationError = 'End date cannot be before the start date';
+  } else if (toDate < today()) {
+    validationError = 'The delegation would already have ended';
+  } else if (overlap) {
+    validationError = `Overlaps the delegation to ${overlap.delegateName || overlap.delegateEmail} (${overlap.fromDate} to ${overlap.toDate}) of ${getDelegatorLabel(overlap)}`;
+  }
+
+  const canSubmit = !!delegatorEmail && !!delegateEmail && !!fromDate && !!toDate && !validationError;
+
+  const handleSave = async () => {
+    const created = await createDelegation({
+      delegatorEmail,
+      delegateEmail,
+      domains,
+      fromDate,
+      toDate,
+      reason: reason.trim() || undefined,
+    });
+    if (created) {
+      onCreated(created);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Delegate Approvals</DialogTitle>
+          <DialogDescription>
+            The delegate reviews the manager's team requests for the selected period
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {canDelegateForOthers && (
+            <div className="space-y-2">
+              <Label>Manager</Label>
+              <UsersSelector
+                value={delegatorEmail}
+                onChange={(value) => setDelegatorEmail(Array.isArray(value) ? value[0] || '' : value)}
+                placeholder="Select the manager whose approvals are delegated"
+                returnField="email"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Delegate</Label>
+            <UsersSelector
+              value={delegateEmail}
+              onChange={(value) => setDelegateEmail(Array.isArray(value) ? value[0] || '' : value)}
+              placeholder="Select who approves in the meantime"
+              returnField="email"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input type="date" value={toDate} min={fromDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Domains</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {DELEGATION_DOMAINS.map((domain) => (
+                <label key={domain} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={domains.includes(domain)}
+                    onCheckedChange={(checked) => toggleDomain(domain, checked === true)}
+                  />
+                  {delegationDomainLabels[domain]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Leave all unchecked to delegate every domain</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. On annual leave"
+              rows={2}
+              className="resize-none"
+            />
+          </div>
+
+          {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSubmit || isLoading}>
+            Delegate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
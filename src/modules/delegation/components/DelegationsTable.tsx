@@ -0,0 +1,137 @@
+/**
+ * Delegations Table Component
+ * Delegations with their period, domains and current state
+ * Revoke is offered for delegations that are scheduled or in force
+ */
+
+import { format } from "date-fns";
+import { Ban } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Delegation } from "../types";
+import {
+  delegationDomainLabels,
+  delegationStateLabels,
+  delegationStateStyles,
+} from "../constants";
+import { getDelegationState } from "../utils/delegationWindow";
+
+interface DelegationsTableProps {
+  delegations: Delegation[];
+  isLoading?: boolean;
+  showDelegator?: boolean;
+  showDelegate?: boolean;
+  onRevoke?: (delegation: Delegation) => void;
+  emptyMessage?: string;
+}
+
+const formatDay = (value: string) => format(new Date(value), "MMM dd, yyyy");
+
+export function DelegationsTable({
+  delegations,
+  isLoading = false,
+  showDelegator = false,
+  showDelegate = true,
+  onRevoke,
+  emptyMessage = "No delegations yet",
+}: DelegationsTableProps) {
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  const columnCount = 4 + (showDelegator ? 1 : 0) + (showDelegate ? 1 : 0) + (onRevoke ? 1 : 0);
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {showDelegator && <TableHead>Manager</TableHead>}
+            {showDelegate && <TableHead>Delegate</TableHead>}
+            <TableHead>Period</TableHead>
+            <TableHead>Domains</TableHead>
+            <TableHead>Reason</TableHead>
+            <TableHead>Status</TableHead>
+            {onRevoke && <TableHead className="text-right">Actions</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {delegations.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={columnCount} className="text-center text-muted-foreground py-6">
+                {emptyMessage}
+              </TableCell>
+            </TableRow>
+          )}
+          {delegations.map((delegation) => {
+            const state = getDelegationState(delegation);
+            const canRevoke = state === "active" || state === "scheduled";
+            return (
+              <TableRow key={delegation.id}>
+                {showDelegator && (
+                  <TableCell>
+                    <div className="font-medium">{delegation.delegatorName || delegation.delegatorEmail}</div>
+                    {delegation.delegatorName && (
+                      <div className="text-xs text-muted-foreground">{delegation.delegatorEmail}</div>
+                    )}
+                  </TableCell>
+                )}
+                {showDelegate && (
+                  <TableCell>
+                    <div className="font-medium">{delegation.delegateName || delegation.delegateEmail}</div>
+                    {delegation.delegateName && (
+                      <div className="text-xs text-muted-foreground">{delegation.delegateEmail}</div>
+                    )}
+                  </TableCell>
+                )}
+                <TableCell className="whitespace-nowrap">
+                  {formatDay(delegation.fromDate)} to {formatDay(delegation.toDate)}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {delegation.domains.length === 0 ? (
+                      <Badge variant="outline">All</Badge>
+                    ) : (
+                      delegation.domains.map((domain) => (
+                        <Badge key={domain} variant="outline">
+                          {delegationDomainLabels[domain]}
+                        </Badge>
+                      ))
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell className="max-w-xs truncate">{delegation.reason || "-"}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={delegationStateStyles[state]}>
+                    {delegationStateLabels[state]}
+                  </Badge>
+                </TableCell>
+                {onRevoke && (
+                  <TableCell className="text-right">
+                    {canRevoke ? (
+                      <Button variant="outline" size="sm" onClick={() => onRevoke(delegation)}>
+                        <Ban className="h-4 w-4 mr-1" />
+                        Revoke
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Approval Delegation Constants
+ */
+
+import { DelegationDomain, DelegationState } from './types';
+
+export const DELEGATION_DOMAINS: DelegationDomain[] = ['leave', 'expense', 'attendance', 'performance'];
+
+export const delegationDomainLabels: Record<DelegationDomain, string> = {
+  leave: 'Leave',
+  expense: 'Expense',
+  attendance: 'Attendance',
+  performance: 'Performance',
+};
+
+export const delegationStateLabels: Record<DelegationState, string> = {
+  scheduled: 'Scheduled',
+  active: 'Active',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+/**
+ * Badge styles per delegation state
+ */
+export const delegationStateStyles: Record<DelegationState, string> = {
+  scheduled: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-950 dark:text-blue-300',
+  active: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-950 dark:text-green-300',
+  expired: 'bg-muted text-muted-foreground',
+  revoked: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-950 dark:text-red-300',
+};
@@ -0,0 +1,77 @@
+/**
+ * useActingDelegations Hook
+ * Loads the delegations the current user acts on for one approval domain,
+ * tracks which delegator's queue is selected and audits actions taken on it
+ */
+
+import { useEffect, useState } from "react";
+import { useDelegation } from "@/contexts/DelegationContext";
+import { Delegation, DelegatedActionType, DelegationDomain } from "../types";
+import { findDelegationForApprover, getActiveDelegations } from "../utils/delegationWindow";
+
+/**
+ * @param domain - Approval domain of the screen
+ *
+ * @example
+ * const { delegations, actingFor, setActingForId, recordAction } = useActingDelegations("leave");
+ * const result = await approveRejectAbsenceApplication(id, "approve", actingFor?.delegatorEmail);
+ * if (result) await recordAction("absence", id, "approve");
+ *
+ * // Screens opened on a single request act for the manager it is pending with
+ * const actingFor = getActingFor(expense.reportingTo);
+ * await recordAction("expense", expense.id, "approve", comments, actingFor);
+ */
+export function useActingDelegations(domain: DelegationDomain) {
+  const { getActingDelegations, recordDelegatedAction } = useDelegation();
+
+  const [delegations, setDelegations] = useState<Delegation[]>([]);
+  // Empty = the user's own queue
+  const [actingForId, setActingForId] = useState("");
+
+  const fetchActingDelegations = async () => {
+    const result = await getActingDelegations();
+    setDelegations(result ? getActiveDelegations(result, domain) : []);
+  };
+  useEffect(() => {
+    fetchActingDelegations();
+  }, [domain]);
+
+  const actingFor = delegations.find((delegation) => delegation.id === actingForId) || null;
+
+  // Delegation in force for a request pending with the given approver, if any
+  const getActingFor = (approverEmail: string | null | undefined) =>
+    findDelegationForApprover(delegations, approverEmail);
+
+  /**
+   * Audit an action taken on a delegator's queue, by default the selected one.
+   * Does nothing while the user works on their own queue.
+   */
+  const recordAction = async (
+    recordType: string,
+    recordId: string,
+    action: DelegatedActionType,
+    remarks?: string,
+    delegation: Delegation | null = actingFor,
+  ): Promise<boolean> => {
+    if (!delegation) return true;
+
+    const entry = await recordDelegatedAction({
+      delegationId: delegation.id,
+      domain,
+      recordType,
+      recordId,
+      action,
+      remarks,
+    });
+    return entry !== null;
+  };
+
+  return {
+    delegations,
+    actingFor,
+    actingForId,
+    setActingForId,
+    getActingFor,
+    recordAction,
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Approval Delegation Module
+ */
+
+export { DelegationManagement } from './DelegationManagement';
+export { ActingForBanner, ActingForAlert } from './components/ActingForBanner';
+export { DelegationsTable } from './components/DelegationsTable';
+export { DelegationFormDialog } from './components/DelegationFormDialog';
+export { DelegationAuditLog } from './components/DelegationAuditLog';
+export { useActingDelegations } from './hooks/useActingDelegations';
+export * from './types';
+export * from './constants';
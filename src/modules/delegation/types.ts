@@ -0,0 +1,71 @@
+/**
+ * Approval Delegation Types
+ * A manager (or HR on their behalf) hands their approval authority to a delegate
+ * for a date range, optionally limited to some approval domains
+ */
+
+// ==================== Enums ====================
+
+export type DelegationDomain = "leave" | "expense" | "attendance" | "performance";
+
+export type DelegationStatus = "ACTIVE" | "REVOKED";
+
+// Derived from status and the date range at a point in time
+export type DelegationState = "scheduled" | "active" | "expired" | "revoked";
+
+export type DelegatedActionType = "approve" | "reject";
+
+// ==================== Core Interfaces ====================
+
+export interface Delegation {
+  id: string;
+  delegatorEmail: string; // Manager whose approvals are delegated (matched against reportingTo)
+  delegatorName?: string;
+  delegateEmail: string; // Acts on the delegator's queue
+  delegateName?: string;
+  domains: DelegationDomain[]; // Empty = all domains
+  fromDate: string; // yyyy-MM-dd, inclusive
+  toDate: string; // yyyy-MM-dd, inclusive
+  reason?: string;
+  status: DelegationStatus;
+  createdBy: string; // Email of the delegator or the HR user who created it
+  createdAt: string;
+  revokedBy?: string;
+  revokedAt?: string;
+}
+
+/**
+ * Approval or rejection taken by a delegate on a delegator's request
+ */
+export interface DelegationAuditEntry {
+  id: string;
+  delegationId: string;
+  delegatorEmail: string;
+  delegateEmail: string;
+  domain: DelegationDomain;
+  recordType: string; // e.g. "absence", "expense", "intimation", "regularisation"
+  recordId: string;
+  action: DelegatedActionType;
+  remarks?: string;
+  actedAt: string;
+}
+
+// ==================== Carrier Types for API ====================
+
+export interface DelegationCarrier {
+  delegatorEmail: string; // Own email for managers; any manager for HR
+  delegateEmail: string;
+  domains: DelegationDomain[];
+  fromDate: string;
+  toDate: string;
+  reason?: string;
+}
+
+export interface DelegatedActionCarrier {
+  delegationId: string;
+  domain: DelegationDomain;
+  recordType: string;
+  recordId: string;
+  action: DelegatedActionType;
+  remarks?: string;
+}
@@ -0,0 +1,106 @@
+/**
+ * Delegation Window
+ * Pure helpers that decide when and for which domains a delegation is in force
+ *
+ * - Date ranges are inclusive and compared as calendar days (yyyy-MM-dd)
+ * - An empty domain list covers every domain
+ * - Revoked delegations are never in force, whatever their dates
+ */
+
+import { format } from 'date-fns';
+import { Delegation, DelegationCarrier, DelegationDomain, DelegationState } from '../types';
+
+const toDay = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Dates may arrive as full ISO timestamps; only the calendar day matters
+const dayOf = (value: string) => value.slice(0, 10);
+
+/**
+ * State of a delegation on a given day
+ *
+ * @example
+ * getDelegationState({ ...delegation, fromDate: '2026-03-01', toDate: '2026-03-10' }, new Date('2026-03-05'));
+ * // 'active'
+ */
+export function getDelegationState(delegation: Delegation, now: Date = new Date()): DelegationState {
+  if (delegation.status === 'REVOKED') return 'revoked';
+
+  const today = toDay(now);
+  if (today < dayOf(delegation.fromDate)) return 'scheduled';
+  if (today > dayOf(delegation.toDate)) return 'expired';
+  return 'active';
+}
+
+export function coversDomain(delegation: Pick<Delegation, 'domains'>, domain: DelegationDomain): boolean {
+  return !delegation.domains || delegation.domains.length === 0 || delegation.domains.includes(domain);
+}
+
+/**
+ * Delegations in force today for a domain, ordered by delegator name
+ */
+export function getActiveDelegations(
+  delegations: Delegation[],
+  domain: DelegationDomain,
+  now: Date = new Date()
+): Delegation[] {
+  return delegations
+    .filter((delegation) => getDelegationState(delegation, now) === 'active' && coversDomain(delegation, domain))
+    .sort((a, b) =>
+      (a.delegatorName || a.delegatorEmail).localeCompare(b.delegatorName || b.delegatorEmail)
+    );
+}
+
+/**
+ * Delegation the current user acts under for a request pending with the given approver
+ * Expects delegations already narrowed to those in force for the domain
+ *
+ * @returns null when the request is not pending with a delegating manager
+ */
+export function findDelegationForApprover(
+  delegations: Delegation[],
+  approverEmail: string | null | undefined
+): Delegation | null {
+  if (!approverEmail) return null;
+  return (
+    delegations.find(
+      (delegation) => delegation.delegatorEmail.toLowerCase() === approverEmail.toLowerCase()
+    ) || null
+  );
+}
+
+/**
+ * First existing delegation of the same delegator that overlaps the candidate
+ * in both dates and domains. Revoked and expired delegations are ignored.
+ *
+ * @returns The conflicting delegation, or null when the candidate can be created
+ */
+export function findOverlappingDelegation(
+  existing: Delegation[],
+  candidate: Pick<DelegationCarrier, 'delegatorEmail' | 'domains' | 'fromDate' | 'toDate'>,
+  now: Date = new Date()
+): Delegation | null {
+  const sharesDomain = (delegation: Delegation) =>
+    candidate.domains.length === 0 ||
+    delegation.domains.length === 0 ||
+    candidate.domains.some((domain) => delegation.domains.includes(domain));
+
+  return (
+    existing.find((delegation) => {
+      const state = getDelegationState(delegation, now);
+      return (
+        delegation.delegatorEmail.toLowerCase() === candidate.delegatorEmail.toLowerCase() &&
+        (state === 'active' || state === 'scheduled') &&
+        dayOf(delegation.fromDate) <= dayOf(candidate.toDate) &&
+        dayOf(candidate.fromDate) <= dayOf(delegation.toDate) &&
+        sharesDomain(delegation)
+      );
+    }) || null
+  );
+}
+
+/**
+ * Display name of the delegator, falling back to their email
+ */
+export function getDelegatorLabel(delegation: Delegation): string {
+  return delegation.delegatorName || delegation.delegatorEmail;
+}
@@ -20,6 +20,7 @@ import { EXPENSE_TYPE_LABELS, EXPENSE_STATUS_LABELS, EXPENSE_STATUS_COLORS } fro
 import { format } from 'date-fns';
 import { User, Mail, Phone, Building2, DollarSign, Calendar, FileText } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { ActingForAlert, useActingDelegations } from '@/modules/delegation';
 
 export function ExpenseApprovalPage() {
   const navigate = useNavigate();
@@ -27,6 +28,9 @@ export function ExpenseApprovalPage() {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Managers who delegated their expense approvals to the current user
+  const { getActingFor, recordAction } = useActingDelegations('expense');
+
   // Find the expense
   const expense = mockExpenses.find(e => e.id === id);
   
@@ -47,6 +51,9 @@ export function ExpenseApprovalPage() {
 
   if (!expense) return null;
 
+  // Acting for the manager the expense is pending with, when they delegated to the current user
+  const actingFor = getActingFor(expense.reportingTo);
+
   // Calculate total from line items
   const calculateTotal = () => {
     return lineItems.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
@@ -94,10 +101,12 @@ export function ExpenseApprovalPage() {
       adjustedTotal: calculateTotal(),
       approverComments,
       action: 'approved',
+      actingFor: actingFor?.delegatorEmail,
     });
 
     // Simulate API call
-    setTimeout(() => {
+    setTimeout(async () => {
+      await recordAction('expense', expense.id, 'approve', approverComments, actingFor);
       toast({
         title: 'Approved',
         description: 'Expense has been approved successfully',
@@ -123,10 +132,12 @@ export function ExpenseApprovalPage() {
       id: expense.id,
       approverComments,
       action: 'rejected',
+      actingFor: actingFor?.delegatorEmail,
     });
 
     // Simulate API call
-    setTimeout(() => {
+    setTimeout(async () => {
+      await recordAction('expense', expense.id, 'reject', approverComments, actingFor);
       toast({
         title: 'Rejected',
         description: 'Expense has been rejected',
@@ -228,6 +239,8 @@ export function ExpenseApprovalPage() {
             onBack={handleCancel}
           />
 
+          {actingFor && <ActingForAlert delegation={actingFor} />}
+
           {/* Expense Overview */}
           <Card>
             <CardHeader>
@@ -20,12 +20,16 @@ import { JourneySegment } from './types/intimation.types';
 import { format } from 'date-fns';
 import { User, Mail, Building2, Calendar, FileText, Plane, Package } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { ActingForAlert, useActingDelegations } from '@/modules/delegation';
 
 export function IntimationApprovalPage() {
   const navigate = useNavigate();
   const { id } = useParams();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Managers who delegated their expense approvals to the current user
+  const { getActingFor, recordAction } = useActingDelegations('expense');
   const journeyFormRef = useRef<JourneyFormBranchRef>(null);
 
   // Find the intimation
@@ -49,6 +53,9 @@ export function IntimationApprovalPage() {
 
   if (!intimation) return null;
 
+  // Acting for the manager the intimation is pending with, when they delegated to the current user
+  const actingFor = getActingFor(intimation.reportingTo);
+
   // Calculate total from journey segments
   const calculateTotal = () => {
     if (intimation.type === 'travel') {
@@ -84,10 +91,12 @@ export function IntimationApprovalPage() {
       adjustedTotal: calculateTotal(),
       approverComments,
       action: 'approved',
+      actingFor: actingFor?.delegatorEmail,
     });
 
     // Simulate API call
-    setTimeout(() => {
+    setTimeout(async () => {
+      await recordAction('intimation', intimation.id, 'approve', approverComments, actingFor);
       toast({
         title: 'Approved',
         description: 'Intimation has been approved successfully',
@@ -113,10 +122,12 @@ export function IntimationApprovalPage() {
       id: intimation.id,
       approverComments,
       action: 'rejected',
+      actingFor: actingFor?.delegatorEmail,
     });
 
     // Simulate API call
-    setTimeout(() => {
+    setTimeout(async () => {
+      await recordAction('intimation', intimation.id, 'reject', approverComments, actingFor);
       toast({
         title: 'Rejected',
         description: 'Intimation has been rejected',
@@ -185,6 +196,8 @@ export function IntimationApprovalPage() {
             onBack={handleCancel}
           />
 
+          {actingFor && <ActingForAlert delegation={actingFor} />}
+
           {/* Intimation Overview */}
           <Card>
             <CardHeader>
@@ -119,6 +119,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'john.doe@company.com',
     employeePhone: '+1 (555) 123-4567',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     description: 'Business trip to San Francisco for client meeting and product demonstration with TechCorp SF office',
     lineItems: [
       {
@@ -186,6 +187,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'john.doe@company.com',
     employeePhone: '+1 (555) 123-4567',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     description: 'Conference attendance at Tech Summit 2024 in Austin, TX for professional development',
     lineItems: [
       {
@@ -260,6 +262,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'jane.smith@company.com',
     employeePhone: '+1 (555) 234-5678',
     department: 'Marketing',
+    reportingTo: 'sarah.w@company.com',
     description: 'Weekly client meals and entertainment during December campaign planning week',
     lineItems: [
       {
@@ -315,6 +318,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'john.doe@company.com',
     employeePhone: '+1 (555) 123-4567',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     description: 'Laptop purchase for work - Personal equipment',
     lineItems: [
       {
@@ -351,6 +355,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'john.doe@company.com',
     employeePhone: '+1 (555) 123-4567',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     description: 'Team building lunch that was cancelled - Non-refundable deposit',
     lineItems: [
       {
@@ -387,6 +392,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'john.doe@company.com',
     employeePhone: '+1 (555) 123-4567',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     description: 'Restocking office supplies for the team - Q4 purchases',
     lineItems: [
       {
@@ -430,6 +436,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'jane.smith@company.com',
     employeePhone: '+1 (555) 234-5678',
     department: 'Marketing',
+    reportingTo: 'sarah.w@company.com',
     description: 'Annual renewal of essential marketing tools and software licenses',
     lineItems: [
       {
@@ -474,6 +481,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'john.doe@company.com',
     employeePhone: '+1 (555) 123-4567',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     description: 'Local transportation for multiple client site visits across the city',
     lineItems: [
       {
@@ -538,6 +546,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'jane.smith@company.com',
     employeePhone: '+1 (555) 234-5678',
     department: 'Marketing',
+    reportingTo: 'sarah.w@company.com',
     description: 'Online certification course for advanced marketing analytics - Google Analytics certification',
     lineItems: [
       {
@@ -573,6 +582,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'john.doe@company.com',
     employeePhone: '+1 (555) 123-4567',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     description: 'Ergonomic equipment for remote work setup - home office',
     lineItems: [
       {
@@ -617,6 +627,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'jane.smith@company.com',
     employeePhone: '+1 (555) 234-5678',
     department: 'Marketing',
+    reportingTo: 'sarah.w@company.com',
     description: 'Office supplies - submitted twice by mistake (duplicate)',
     lineItems: [
       {
@@ -652,6 +663,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'john.doe@company.com',
     employeePhone: '+1 (555) 123-4567',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     description: 'Advance payment for upcoming DevConf 2025 trip - conference travel',
     lineItems: [
       {
@@ -698,6 +710,7 @@ export const mockExpenses: Expense[] = [
     employeeEmail: 'jane.smith@company.com',
     employeePhone: '+1 (555) 234-5678',
     department: 'Marketing',
+    reportingTo: 'sarah.w@company.com',
     description: 'Advance for client meeting in Boston - travel expenses',
     lineItems: [
       {
@@ -765,6 +778,7 @@ export const mockIntimations: Intimation[] = [
     employeeName: 'John Doe',
     employeeEmail: 'john.doe@company.com',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     type: 'travel',
     journeySegments: [
       {
@@ -813,6 +827,7 @@ export const mockIntimations: Intimation[] = [
     employeeName: 'Jane Smith',
     employeeEmail: 'jane.smith@company.com',
     department: 'Marketing',
+    reportingTo: 'sarah.w@company.com',
     type: 'travel',
     journeySegments: [
       {
@@ -840,6 +855,7 @@ export const mockIntimations: Intimation[] = [
     employeeName: 'John Doe',
     employeeEmail: 'john.doe@company.com',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     type: 'other',
     description: 'Need to purchase new development hardware including high-performance workstation and additional monitors for the new team members joining next month. Estimated total cost around $5000. Urgent requirement as new hires start on Feb 1st.',
     status: 'submitted',
@@ -854,6 +870,7 @@ export const mockIntimations: Intimation[] = [
     employeeName: 'Jane Smith',
     employeeEmail: 'jane.smith@company.com',
     department: 'Marketing',
+    reportingTo: 'sarah.w@company.com',
     type: 'other',
     description: 'Planning to organize a client appreciation event in March. Expected expenses include venue rental, catering, and promotional materials. Estimated budget: $8000. Event date tentatively set for March 15th.',
     status: 'draft',
@@ -867,6 +884,7 @@ export const mockIntimations: Intimation[] = [
     employeeName: 'Sarah Williams',
     employeeEmail: 'sarah.w@company.com',
     department: 'Marketing',
+    reportingTo: 'robert.b@company.com',
     type: 'travel',
     journeySegments: [
       {
@@ -893,6 +911,7 @@ export const mockIntimations: Intimation[] = [
     employeeName: 'John Doe',
     employeeEmail: 'john.doe@company.com',
     department: 'Engineering',
+    reportingTo: 'mike.j@company.com',
     type: 'travel',
     journeySegments: [
       {
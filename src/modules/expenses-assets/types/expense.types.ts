@@ -95,6 +95,7 @@ export interface Expense {
 
   // Status and workflow
   status: string; // ExpenseStatus enum value
+  reportingTo?: string; // Email of the approver the claim is pending with
   currentApprovalLevel?: number; // Numeric approval level (1, 2, 3)
 
   // Approval history (IDs only)
@@ -112,6 +112,7 @@ export interface Intimation<T = any> {
 
   // Status and workflow
   status: IntimationStatus;
+  reportingTo?: string; // Email of the approver the intimation is pending with
 
   // Approval workflow
   currentApprovalLevel?: string; // e.g., 'level1', 'level2'
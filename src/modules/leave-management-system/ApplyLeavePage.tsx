@@ -36,15 +36,22 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { TimePicker } from "@/components/ui/time-picker";
-import { format, differenceInCalendarDays } from "date-fns";
+import { format } from "date-fns";
 import { CalendarIcon, Plus, AlertCircle, ArrowLeft } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { AbsenceCarrier, LeaveBalance } from "./types/leave.types";
+import { AbsenceApplication, AbsenceCarrier, LeaveBalance } from "./types/leave.types";
 import { EmployeeLeavesInformation } from "./types/leaveConfiguration.types";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useLeaveManagement } from "@/contexts/LeaveManagementContext";
 import { useSelfService } from "@/contexts/SelfServiceContext";
 import { UsersSelector } from "@/components/context-aware/UsersSelector";
+import { LeaveDayBreakdown } from "./components/LeaveDayBreakdown";
+import { LeavePolicyIssues } from "./components/LeavePolicyIssues";
+import { useLeaveDayCalculator } from "./hooks/useLeaveDayCalculator";
+import {
+  evaluateLeavePolicy,
+  LeavePolicyProfile,
+} from "./utils/leavePolicyValidator";
 
 const applyLeaveFormSchema = z.object({
   absenceTypeId: z.string().min(1, "Absence type is required"),
@@ -69,19 +76,30 @@ const applyLeaveFormSchema = z.object({
 
 type ApplyLeaveFormValues = z.infer<typeof applyLeaveFormSchema>;
 
+// Recent applications checked for overlaps, gaps and yearly request limits
+const MAX_POLICY_APPLICATIONS = 100;
+
 interface ApplyLeavePageProps {}
 
 export function ApplyLeavePage({}: ApplyLeavePageProps) {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { getEmployeeLeavesInformation } = useLeaveManagement();
-  const { raiseAbsenceRequest, isLoading } = useSelfService();
+  const {
+    raiseAbsenceRequest,
+    getLeaveApplicationsSelfService,
+    getGeneralDetailsSelfService,
+    getJobDetailsSelfService,
+    isLoading,
+  } = useSelfService();
+  const { calculate: calculateLeaveDays } = useLeaveDayCalculator();
 
-  const [numberOfDays, setNumberOfDays] = useState(0);
   const [error, setError] = useState("");
   const [employeeLeavesInfo, setEmployeeLeavesInfo] =
     useState<EmployeeLeavesInformation | null>(null);
   const [untrackedLeave, setUntrackedLeave] = useState(false);
+  const [myApplications, setMyApplications] = useState<AbsenceApplication[]>([]);
+  const [policyProfile, setPolicyProfile] = useState<LeavePolicyProfile>({});
 
   const defaultAbsenceTypeId = searchParams.get("absenceTypeId") || "";
 
@@ -171,25 +189,104 @@ export function ApplyLeavePage({}: ApplyLeavePageProps) {
     return [];
   }, [employeeLeavesInfo]);
 
-  // Fetch leave information on component mount
+  // Fetch leave information, existing applications and profile (for policy checks) on component mount
   const fetchData = async () => {
-    const leaveInfo = await getEmployeeLeavesInformation();
+    const [leaveInfo, applications, generalDetails, jobDetails] = await Promise.all([
+      getEmployeeLeavesInformation(),
+      getLeaveApplicationsSelfService(
+        { searchText: undefined, searchFields: [], sort: { fromDate: -1 } },
+        0,
+        MAX_POLICY_APPLICATIONS,
+      ),
+      getGeneralDetailsSelfService(),
+      getJobDetailsSelfService(),
+    ]);
     setEmployeeLeavesInfo(leaveInfo);
+    setMyApplications(applications?.content || []);
+    setPolicyProfile({
+      gender: generalDetails?.gender,
+      maritalStatus: generalDetails?.maritalStatus,
+      employeeType: jobDetails?.employeeType,
+      joiningDate: jobDetails?.joiningDate,
+      probationPeriod: jobDetails?.probationPeriod,
+    });
   };
   useEffect(() => {
     fetchData();
   }, []);
 
-  // Calculate number of days when dates change (all calendar days including weekends)
-  useEffect(() => {
-    if (startDate && endDate) {
-      const days = differenceInCalendarDays(endDate, startDate) + 1;
-      setNumberOfDays(days > 0 ? days : 0);
-      setError("");
-    } else {
-      setNumberOfDays(0);
-    }
-  }, [startDate, endDate]);
+  const selectedBalance = computedBalances.find(
+    (b: LeaveBalance) => b.leaveTypeId === selectedLeaveType,
+  );
+
+  // Check if selected leave type is flexible
+  const isFlexibleLeave = selectedLeaveType && employeeLeavesInfo?.configurations
+    ? (employeeLeavesInfo.configurations[selectedLeaveType]?.category?.toLowerCase() === "flexible")
+    : false;
+
+  const selectedConfiguration = selectedLeaveType
+    ? employeeLeavesInfo?.configurations?.[selectedLeaveType]
+    : undefined;
+
+  // Leave days consumed by the selected range, honouring weekends, holidays and the leave policy
+  // Flexible leaves and leaves without a tracked balance never go into LOP
+  const leaveDays =
+    startDate && (absenceCategory !== "fullDay" || endDate)
+      ? calculateLeaveDays({
+          fromDate: startDate,
+          toDate: endDate ?? startDate,
+          absenceCategory,
+          includeHolidaysWeekends:
+            selectedConfiguration?.restrictions?.includeHolidaysWeekends,
+          numberOfDaysPerOneLeave:
+            selectedConfiguration?.lmsProperties?.numberOfDaysPerOneLeave,
+          availableBalance:
+            !isFlexibleLeave && selectedBalance && selectedBalance.totalAllotted > 0
+              ? selectedBalance.totalAllotted
+              : undefined,
+        })
+      : null;
+  const numberOfDays = leaveDays?.totalDays ?? 0;
+
+  // Build the absence carrier sent to the backend from the form values
+  // For partial day and partial timing, endDate equals startDate
+  const buildAbsenceCarrier = (values: ApplyLeaveFormValues): AbsenceCarrier => {
+    const applyEndDate = values.absenceCategory === "fullDay" ? values.endDate : values.startDate;
+
+    return {
+      absenceType: values.absenceTypeId,
+      fromDate: values.startDate.toISOString(),
+      toDate: (applyEndDate ?? values.startDate).toISOString(),
+      absenceCategory:
+        values.absenceCategory === "partialTiming"
+          ? "partialDay"
+          : (values.absenceCategory as "fullDay" | "partialDay"),
+      partialDaySelection:
+        values.absenceCategory === "partialDay"
+          ? (values.partialDaySelection as "firstHalf" | "secondHalf")
+          : undefined,
+      reason: values.reason.trim(),
+      fromTime:
+        values.absenceCategory === "partialTiming" ? values.fromTime : undefined,
+      toTime: values.absenceCategory === "partialTiming" ? values.toTime : undefined,
+      informTo:
+        values.informToUserIds && values.informToUserIds.length > 0
+          ? values.informToUserIds
+          : undefined,
+      createdAt: new Date().toISOString(),
+    };
+  };
+
+  // Evaluate the draft against the leave policy as the form changes
+  const policyEvaluation =
+    selectedConfiguration && startDate && (absenceCategory !== "fullDay" || endDate)
+      ? evaluateLeavePolicy({
+          draft: buildAbsenceCarrier(form.getValues()),
+          configuration: selectedConfiguration,
+          existingApplications: myApplications,
+          profile: policyProfile,
+        })
+      : null;
 
   // Validate against available balance (skip validation for flexible requests with 0 available)
   useEffect(() => {
@@ -201,6 +298,11 @@ export function ApplyLeavePage({}: ApplyLeavePageProps) {
     }
   }, [selectedLeaveType, numberOfDays, computedBalances]);
 
+  // Clear stale errors when the dates change
+  useEffect(() => {
+    setError("");
+  }, [startDate, endDate]);
+
   // Navigate back to main page with preserved tab state
   const handleGoBack = () => {
     const mainTab = searchParams.get("mainTab") || "balances";
@@ -244,31 +346,13 @@ export function ApplyLeavePage({}: ApplyLeavePageProps) {
     // Note: Balance validation removed - LOP (Loss of Pay) is allowed for all leaves
     // Employees can apply for leave even if it exceeds their available balance
 
-    // For partial day and partial timing, set endDate equal to startDate
-    const applyEndDate = absenceCategory === "fullDay" ? endDate : startDate;
+    // Block submission while the leave policy is violated
+    if (policyEvaluation && !policyEvaluation.isAllowed) {
+      setError("Please resolve the leave policy violations before submitting");
+      return;
+    }
 
-    const absenceData: AbsenceCarrier = {
-      absenceType: selectedLeaveType,
-      fromDate: startDate.toISOString(),
-      toDate: applyEndDate!.toISOString(),
-      absenceCategory:
-        absenceCategory === "partialTiming"
-          ? "partialDay"
-          : (absenceCategory as "fullDay" | "partialDay"),
-      partialDaySelection:
-        absenceCategory === "partialDay"
-          ? (values.partialDaySelection as "firstHalf" | "secondHalf")
-          : undefined,
-      reason: values.reason.trim(),
-      fromTime:
-        absenceCategory === "partialTiming" ? values.fromTime : undefined,
-      toTime: absenceCategory === "partialTiming" ? values.toTime : undefined,
-      informTo:
-        values.informToUserIds && values.informToUserIds.length > 0
-          ? values.informToUserIds
-          : undefined,
-      createdAt: new Date().toISOString(),
-    };
+    const absenceData = buildAbsenceCarrier(values);
 
     // Submit absence application - context handles success/error notifications
     await raiseAbsenceRequest(absenceData);
@@ -278,15 +362,6 @@ export function ApplyLeavePage({}: ApplyLeavePageProps) {
     handleGoBack();
   };
 
-  const selectedBalance = computedBalances.find(
-    (b: LeaveBalance) => b.leaveTypeId === selectedLeaveType,
-  );
-
-  // Check if selected leave type is flexible
-  const isFlexibleLeave = selectedLeaveType && employeeLeavesInfo?.configurations
-    ? (employeeLeavesInfo.configurations[selectedLeaveType]?.category?.toLowerCase() === "flexible")
-    : false;
-
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto py-8 px-4">
@@ -562,36 +637,39 @@ export function ApplyLeavePage({}: ApplyLeavePageProps) {
 
                   {/* Number of Days Display - For All Absence Types */}
                   {startDate && (
-                    <div className="bg-muted p-3 rounded-md">
+                    <div className="bg-muted p-3 rounded-md space-y-3">
                       <p className="text-sm font-medium">
                         Duration:{" "}
                         <span className="text-lg font-bold text-primary">
                           {absenceCategory === "fullDay" && endDate
                             ? `${numberOfDays} day${numberOfDays !== 1 ? "s" : ""}`
                             : absenceCategory === "partialDay"
-                              ? "0.5 days (Half Day)"
+                              ? `${numberOfDays} days (Half Day)`
                               : absenceCategory === "partialTiming" && fromTime && toTime
                                 ? `${fromTime} - ${toTime}`
                                 : "Select details"}
                         </span>
                       </p>
+                      {leaveDays && <LeaveDayBreakdown calculation={leaveDays} />}
                     </div>
                   )}
 
                   {/* LOP Information - Show when exceeding available balance (not for flexible leaves) */}
-                  {!isFlexibleLeave &&
-                    selectedBalance &&
-                    numberOfDays > selectedBalance.totalAllotted &&
-                    selectedBalance.totalAllotted > 0 && (
+                  {selectedBalance &&
+                    leaveDays &&
+                    leaveDays.lopDays > 0 && (
                       <Alert className="border-amber-200 bg-amber-50">
                         <AlertCircle className="h-4 w-4 text-amber-600" />
                         <AlertDescription className="text-amber-800">
                           You are applying for <span className="font-semibold">{numberOfDays} days</span> but only have <span className="font-semibold">{selectedBalance.totalAllotted} days</span> available. 
-                          The remaining <span className="font-semibold">{numberOfDays - selectedBalance.totalAllotted} day(s)</span> will be deducted as <span className="font-semibold">Loss of Pay (LOP)</span>.
+                          The remaining <span className="font-semibold">{leaveDays.lopDays} day(s)</span> will be deducted as <span className="font-semibold">Loss of Pay (LOP)</span>.
                         </AlertDescription>
                       </Alert>
                     )}
 
+                  {/* Leave Policy Violations and Warnings */}
+                  {policyEvaluation && <LeavePolicyIssues evaluation={policyEvaluation} />}
+
                   {/* Partial Day Selection - First Half or Second Half */}
                   {absenceCategory === "partialDay" && (
                     <FormField
@@ -743,6 +821,7 @@ export function ApplyLeavePage({}: ApplyLeavePageProps) {
             onClick={form.handleSubmit(onSubmit)}
             disabled={
               isLoading ||
+              policyEvaluation?.isAllowed === false ||
               !selectedLeaveType ||
               !startDate ||
               !endDate ||
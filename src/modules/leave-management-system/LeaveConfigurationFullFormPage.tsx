@@ -43,6 +43,7 @@ import { useCompany } from "@/contexts/CompanyContext";
 import { useUserManagement } from "@/contexts/UserManagementContext";
 import { LMSConfigurationCarrier } from "./types/leaveConfiguration.types";
 import { ManageEmployeesModal } from "./components/ManageEmployeesModal";
+import { AccrualSimulationPanel } from "./components/AccrualSimulationPanel";
 
 // Simple form schema focusing on core required fields
 const leaveConfigurationFormSchema = z.object({
@@ -112,6 +113,9 @@ const leaveConfigurationFormSchema = z.object({
   maxConsecutiveDays: z.number().min(0).default(0),
   minGapBetweenLeaves: z.number().min(0).default(0),
   maxRequestsPerYear: z.number().min(0).default(0),
+  remindAfterHours: z.number().min(0).default(0),
+  escalateAfterHours: z.number().min(0).default(0),
+  autoApproveAfterHours: z.number().min(0).default(0),
   includeHolidaysWeekends: z.boolean().default(false),
   probationAllowed: z.boolean().default(false),
 
@@ -178,6 +182,9 @@ export function LeaveConfigurationFormPage() {
       maxConsecutiveDays: 0,
       minGapBetweenLeaves: 0,
       maxRequestsPerYear: 0,
+      remindAfterHours: 0,
+      escalateAfterHours: 0,
+      autoApproveAfterHours: 0,
       includeHolidaysWeekends: false,
       probationAllowed: false,
       gender: "all",
@@ -232,6 +239,9 @@ export function LeaveConfigurationFormPage() {
             maxConsecutiveDays: config.restrictions?.maxConsecutiveDays || 0,
             minGapBetweenLeaves: config.restrictions?.minGapBetweenLeaves || 0,
             maxRequestsPerYear: config.restrictions?.maxRequestsPerYear || 0,
+            remindAfterHours: config.restrictions?.approvalSla?.remindAfterHours || 0,
+            escalateAfterHours: config.restrictions?.approvalSla?.escalateAfterHours || 0,
+            autoApproveAfterHours: config.restrictions?.approvalSla?.autoApproveAfterHours || 0,
             includeHolidaysWeekends:
               config.restrictions?.includeHolidaysWeekends ?? false,
             probationAllowed:
@@ -391,6 +401,13 @@ export function LeaveConfigurationFormPage() {
                 maxConsecutiveDays: data.maxConsecutiveDays,
                 minGapBetweenLeaves: data.minGapBetweenLeaves,
                 maxRequestsPerYear: data.maxRequestsPerYear,
+                approvalSla: data.approvalRequired
+                  ? {
+                      remindAfterHours: data.remindAfterHours,
+                      escalateAfterHours: data.escalateAfterHours,
+                      autoApproveAfterHours: data.autoApproveAfterHours,
+                    }
+                  : undefined,
                 includeHolidaysWeekends: data.includeHolidaysWeekends,
                 probationRestrictions: {
                   allowed: data.probationAllowed,
@@ -461,6 +478,13 @@ export function LeaveConfigurationFormPage() {
                 maxConsecutiveDays: data.maxConsecutiveDays,
                 minGapBetweenLeaves: data.minGapBetweenLeaves,
                 maxRequestsPerYear: data.maxRequestsPerYear,
+                approvalSla: data.approvalRequired
+                  ? {
+                      remindAfterHours: data.remindAfterHours,
+                      escalateAfterHours: data.escalateAfterHours,
+                      autoApproveAfterHours: data.autoApproveAfterHours,
+                    }
+                  : undefined,
                 includeHolidaysWeekends: data.includeHolidaysWeekends,
                 probationRestrictions: {
                   allowed: data.probationAllowed,
@@ -1307,6 +1331,39 @@ export function LeaveConfigurationFormPage() {
             </Card>
           )}
 
+          {/* Balance Simulation - Projects the credit and expiry settings above */}
+          {form.watch("category") !== "flexible" && (
+            <AccrualSimulationPanel
+              creditPolicy={
+                form.watch("allowCreditPolicy")
+                  ? {
+                      onDemandCredit: form.watch("category") === "special",
+                      value: form.watch("creditValue"),
+                      frequency: form.watch("creditFrequency"),
+                      customDates: form.watch("creditCustomDates") || [],
+                      maxLimit: form.watch("creditMaxLimit"),
+                    }
+                  : null
+              }
+              expirePolicy={
+                form.watch("allowExpirePolicy")
+                  ? {
+                      carryForward: form.watch("carryForward"),
+                      expireFrequency: form.watch("expireFrequency"),
+                      afterCreditExpiryDays: form.watch("afterCreditExpiryDays"),
+                      customDates: form.watch("expireCustomDates") || [],
+                    }
+                  : null
+              }
+              calendarConfiguration={{
+                monthType: form.watch("monthType"),
+                startDay: form.watch("startDay"),
+                yearType: form.watch("yearType"),
+                startMonth: form.watch("startMonth"),
+              }}
+            />
+          )}
+
           {/* Restrictions */}
           <Card className="p-6">
             <Accordion
@@ -1351,6 +1408,79 @@ export function LeaveConfigurationFormPage() {
                       )}
                     />
 
+                    {/* Approval SLA - hours after submission, 0 turns a timer off */}
+                    {form.watch("approvalRequired") && (
+                      <div className="space-y-2">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="remindAfterHours"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Remind Approver After (hours)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  {...field}
+                                  onChange={(e) =>
+                                    field.onChange(parseInt(e.target.value) || 0)
+                                  }
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="escalateAfterHours"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Escalate After (hours)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  {...field}
+                                  onChange={(e) =>
+                                    field.onChange(parseInt(e.target.value) || 0)
+                                  }
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="autoApproveAfterHours"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Auto-Approve After (hours)</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  {...field}
+                                  onChange={(e) =>
+                                    field.onChange(parseInt(e.target.value) || 0)
+                                  }
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Hours after submission. Escalation goes to the approver's reporting manager. Use 0 to turn a timer off.
+                        </p>
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       <FormField
                         control={form.control}
@@ -10,28 +10,45 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useNavigate } from "react-router-dom";
 import { useLeaveManagement } from "@/contexts/LeaveManagementContext";
-import { useLeavePermissions } from "./hooks";
+import { useCompanyHolidays, useLeavePermissions } from "./hooks";
 import {
   LeaveBalanceCards,
   MyLeaveApplications,
   TeamLeaveApplications,
+  TeamLeaveCalendar,
   MyLeaveCredits,
   TeamLeaveCredits,
+  TeamEncashmentRequests,
+  MyHolidays,
 } from "./components";
-import { mockHolidays } from "./data/mockLeaveData";
 import { EmployeeLeavesInformation } from "./types/leaveConfiguration.types";
-import { Plus, Settings } from "lucide-react";
+import { Banknote, Plus, Settings } from "lucide-react";
+import { useActingDelegations } from "@/modules/delegation";
 import { useToast } from "@/hooks/use-toast";
 
 export function LeaveHoliday() {
   const { toast } = useToast();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
-  const { getEmployeeLeavesInformation, approveRejectAbsenceApplication, approveRejectCreditRequest } = useLeaveManagement();
+  const {
+    getEmployeeLeavesInformation,
+    approveRejectAbsenceApplication,
+    approveRejectCreditRequest,
+    approveRejectEncashmentRequest,
+  } = useLeaveManagement();
   
   // Get leave management permissions
   const permissions = useLeavePermissions();
 
+  // Delegates review a manager's team applications without being leads themselves
+  const { delegations: leaveDelegations } = useActingDelegations("leave");
+  const canViewTeamApplications =
+    permissions.canViewTeamApplications || leaveDelegations.length > 0;
+
+  // Company holidays for the current year (feeds balances and holidays tabs)
+  const holidayYear = new Date().getFullYear();
+  const companyHolidays = useCompanyHolidays(holidayYear);
+
   // Get tab from URL params, default to 'balances'
   const mainTab = (searchParams.get('mainTab') || 'balances') as string;
   const applicationsTab = (searchParams.get('applicationsTab') || 'my-applications') as string;
@@ -92,9 +109,9 @@ export function LeaveHoliday() {
    * Approve team member's leave application
    * API: PUT /emp-user-management/v1/leave-management/absences/{id}?status=approve
    */
-  const handleTeamApprove = async (id: string) => {
+  const handleTeamApprove = async (id: string, actingFor?: string) => {
     console.log("[ACTION] Approving team leave application:", id);
-    const result = await approveRejectAbsenceApplication(id, "approve");
+    const result = await approveRejectAbsenceApplication(id, "approve", actingFor);
     if (result) {
       toast({
         title: "Success",
@@ -102,15 +119,16 @@ export function LeaveHoliday() {
       });
       setActionRefreshVersion((v) => v + 1);
     }
+    return result !== null;
   };
 
   /**
    * Reject team member's leave application
    * API: PUT /emp-user-management/v1/leave-management/absences/{id}?status=reject
    */
-  const handleTeamReject = async (id: string) => {
+  const handleTeamReject = async (id: string, actingFor?: string) => {
     console.log("[ACTION] Rejecting team leave application:", id);
-    const result = await approveRejectAbsenceApplication(id, "reject");
+    const result = await approveRejectAbsenceApplication(id, "reject", actingFor);
     if (result) {
       toast({
         title: "Success",
@@ -118,6 +136,7 @@ export function LeaveHoliday() {
       });
       setActionRefreshVersion((v) => v + 1);
     }
+    return result !== null;
   };
 
 
@@ -154,6 +173,38 @@ export function LeaveHoliday() {
     }
   };
 
+  /**
+   * Approve team member's encashment request - forwards it to HR for processing
+   * API: PUT /emp-user-management/v1/leave-management/encashments/{id}?status=approve
+   */
+  const handleApproveEncashment = async (id: string) => {
+    console.log("[ACTION] Approving team encashment request:", id);
+    const result = await approveRejectEncashmentRequest(id, "approve");
+    if (result) {
+      toast({
+        title: "Success",
+        description: "The encashment request has been approved and sent to HR.",
+      });
+      setActionRefreshVersion((v) => v + 1);
+    }
+  };
+
+  /**
+   * Reject team member's encashment request
+   * API: PUT /emp-user-management/v1/leave-management/encashments/{id}?status=reject
+   */
+  const handleRejectEncashment = async (id: string) => {
+    console.log("[ACTION] Rejecting team encashment request:", id);
+    const result = await approveRejectEncashmentRequest(id, "reject");
+    if (result) {
+      toast({
+        title: "Success",
+        description: "The encashment request has been rejected.",
+      });
+      setActionRefreshVersion((v) => v + 1);
+    }
+  };
+
   // Handle apply leave from card - navigate to apply leave page with leave type and return tab info
   const handleApplyLeaveFromCard = (leaveTypeId: string) => {
     navigate(`/leave-holiday/apply-leave?leaveTypeId=${encodeURIComponent(leaveTypeId)}&mainTab=${encodeURIComponent(mainTab)}&applicationsTab=${encodeURIComponent(applicationsTab)}`);
@@ -174,6 +225,11 @@ export function LeaveHoliday() {
     navigate(`/leave-holiday/request-credits?mainTab=${encodeURIComponent(mainTab)}&applicationsTab=${encodeURIComponent(applicationsTab)}`);
   };
 
+  // Handle encash leave button
+  const handleRequestEncashment = () => {
+    navigate(`/leave-holiday/request-encashment?mainTab=${encodeURIComponent(mainTab)}&applicationsTab=${encodeURIComponent(applicationsTab)}`);
+  };
+
   // Handle main tab change - use replace to avoid creating excessive history entries
   const handleMainTabChange = (value: string) => {
     navigate(`?mainTab=${encodeURIComponent(value)}&applicationsTab=${encodeURIComponent(applicationsTab)}`, { replace: true });
@@ -210,6 +266,12 @@ export function LeaveHoliday() {
                 Request Credits
               </Button>
             )}
+            {permissions.canRequestEncashment && (
+              <Button variant="outline" onClick={handleRequestEncashment}>
+                <Banknote className="h-4 w-4 mr-2" />
+                Encash Leave
+              </Button>
+            )}
             {permissions.canSubmitApplications && (
               <Button onClick={handleApplyLeave}>
                 <Plus className="h-4 w-4 mr-2" />
@@ -223,6 +285,7 @@ export function LeaveHoliday() {
           <TabsList>
             <TabsTrigger value="balances">Leave Balances</TabsTrigger>
             <TabsTrigger value="applications">Leave Applications</TabsTrigger>
+            <TabsTrigger value="holidays">Holidays</TabsTrigger>
           </TabsList>
 
           <TabsContent value="balances" className="mt-4">
@@ -235,7 +298,7 @@ export function LeaveHoliday() {
             {!employeeInfoError && (
               <LeaveBalanceCards
                 employeeLeavesInfo={employeeLeavesInfo}
-                holidays={mockHolidays}
+                holidays={companyHolidays.observed}
                 onApplyLeave={handleApplyLeaveFromCard}
                 onRequestCredits={handleRequestCreditsFromCard}
                 isLoading={isLoadingEmployeeInfo}
@@ -243,6 +306,16 @@ export function LeaveHoliday() {
             )}
           </TabsContent>
 
+          <TabsContent value="holidays" className="mt-4">
+            <MyHolidays
+              year={holidayYear}
+              occurrences={companyHolidays.occurrences}
+              selections={companyHolidays.selections}
+              isLoading={companyHolidays.isLoading}
+              onSelectionsChange={companyHolidays.reload}
+            />
+          </TabsContent>
+
           <TabsContent value="applications">
             <Tabs value={applicationsTab} onValueChange={handleApplicationsTabChange}>
               <TabsList>
@@ -251,17 +324,25 @@ export function LeaveHoliday() {
                     My Applications
                   </TabsTrigger>
                 )}
-                {permissions.canViewTeamApplications && (
+                {canViewTeamApplications && (
                   <TabsTrigger value="team-applications">
                     Team Applications
                   </TabsTrigger>
                 )}
+                {permissions.canViewTeamApplications && (
+                  <TabsTrigger value="team-calendar">
+                    Team Calendar
+                  </TabsTrigger>
+                )}
                 {permissions.canViewMyCredits && (
                   <TabsTrigger value="my-credits">My Credits</TabsTrigger>
                 )}
                 {permissions.canViewTeamCredits && (
                   <TabsTrigger value="team-credits">Team Credits</TabsTrigger>
                 )}
+                {permissions.canViewTeamEncashments && (
+                  <TabsTrigger value="team-encashments">Team Encashments</TabsTrigger>
+                )}
               </TabsList>
 
               {permissions.canViewMyApplications && (
@@ -270,7 +351,7 @@ export function LeaveHoliday() {
                 </TabsContent>
               )}
 
-              {permissions.canViewTeamApplications && (
+              {canViewTeamApplications && (
                 <TabsContent value="team-applications" className="mt-4">
                   <TeamLeaveApplications
                     onApprove={handleTeamApprove}
@@ -280,6 +361,12 @@ export function LeaveHoliday() {
                 </TabsContent>
               )}
 
+              {permissions.canViewTeamApplications && (
+                <TabsContent value="team-calendar" className="mt-4">
+                  <TeamLeaveCalendar refreshDependency={actionRefreshVersion} />
+                </TabsContent>
+              )}
+
               {permissions.canViewMyCredits && (
                 <TabsContent value="my-credits" className="mt-4">
                   <MyLeaveCredits />
@@ -295,6 +382,16 @@ export function LeaveHoliday() {
                   />
                 </TabsContent>
               )}
+
+              {permissions.canViewTeamEncashments && (
+                <TabsContent value="team-encashments" className="mt-4">
+                  <TeamEncashmentRequests
+                    onApprove={handleApproveEncashment}
+                    onReject={handleRejectEncashment}
+                    refreshDependency={actionRefreshVersion}
+                  />
+                </TabsContent>
+              )}
             </Tabs>
           </TabsContent>
         </Tabs>
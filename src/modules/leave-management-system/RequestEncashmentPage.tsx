@@ -0,0 +1,384 @@
+/**
+ * Request Encashment Page
+ * Dedicated page for employees to encash leave days of monetizable leave types
+ * Validates against the MonetizationPolicy limits and the current balance
+ * Supports URL parameters for pre-filling the leave type
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Banknote, AlertCircle, ArrowLeft } from "lucide-react";
+import { Encashment, EncashmentCarrier } from "./types/leave.types";
+import { EmployeeLeavesInformation } from "./types/leaveConfiguration.types";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useLeaveManagement } from "@/contexts/LeaveManagementContext";
+import { useSelfService } from "@/contexts/SelfServiceContext";
+import { UsersSelector } from "@/components/context-aware/UsersSelector";
+import {
+  getEncashmentAllowance,
+  isEncashable,
+  validateEncashmentDays,
+} from "./utils/encashmentPolicy";
+
+const requestEncashmentFormSchema = z.object({
+  absenceType: z.string().min(1, "Leave type is required"),
+  days: z.number({ invalid_type_error: "Days are required" }).positive("Days must be greater than 0"),
+  reason: z
+    .string()
+    .min(10, "Reason must be at least 10 characters")
+    .max(500, "Reason cannot exceed 500 characters"),
+  informTo: z.array(z.string()).optional(),
+});
+
+type RequestEncashmentFormValues = z.infer<typeof requestEncashmentFormSchema>;
+
+// Upper bound of encashment requests an employee raises over a few leave years
+const MAX_ENCASHMENTS = 100;
+
+export function RequestEncashmentPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { getEmployeeLeavesInformation } = useLeaveManagement();
+  const { requestEncashment, getEncashments, isLoading } = useSelfService();
+
+  const [error, setError] = useState("");
+  const [employeeLeavesInfo, setEmployeeLeavesInfo] =
+    useState<EmployeeLeavesInformation | null>(null);
+  const [myEncashments, setMyEncashments] = useState<Encashment[]>([]);
+
+  const form = useForm<RequestEncashmentFormValues>({
+    resolver: zodResolver(requestEncashmentFormSchema),
+    defaultValues: {
+      absenceType: searchParams.get("leaveTypeId") || "",
+      days: 0,
+      reason: "",
+      informTo: [],
+    },
+  });
+
+  const { watch } = form;
+  const selectedLeaveType = watch("absenceType");
+  const days = watch("days");
+
+  // Fetch leave information and existing encashment requests on mount
+  const fetchData = async () => {
+    const [leaveInfo, encashments] = await Promise.all([
+      getEmployeeLeavesInformation(),
+      getEncashments({ searchText: undefined, searchFields: [], sort: { createdAt: -1 } }, 0, MAX_ENCASHMENTS),
+    ]);
+    setEmployeeLeavesInfo(leaveInfo);
+    setMyEncashments(encashments?.content || []);
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  // Leave types the employee can encash
+  const encashableConfigs = useMemo(() => {
+    if (!employeeLeavesInfo?.configurations) return [];
+    return Object.entries(employeeLeavesInfo.configurations)
+      .map(([code, config]) => ({ code, config }))
+      .filter(({ config }) => isEncashable(config));
+  }, [employeeLeavesInfo]);
+
+  const selectedConfiguration = employeeLeavesInfo?.configurations[selectedLeaveType];
+  const allowance = selectedConfiguration
+    ? getEncashmentAllowance(
+        selectedConfiguration,
+        employeeLeavesInfo?.balances[selectedLeaveType],
+        myEncashments,
+      )
+    : null;
+  const daysError = allowance && days > 0 ? validateEncashmentDays(days, allowance) : null;
+
+  // Navigate back to main page with preserved tab state
+  const handleGoBack = () => {
+    const mainTab = searchParams.get("mainTab") || "balances";
+    const applicationsTab =
+      searchParams.get("applicationsTab") || "my-applications";
+    navigate(
+      `/leave-holiday?mainTab=${encodeURIComponent(mainTab)}&applicationsTab=${encodeURIComponent(applicationsTab)}`,
+    );
+  };
+
+  const onSubmit = async (values: RequestEncashmentFormValues) => {
+    if (!allowance) {
+      setError("Please select a leave type");
+      return;
+    }
+
+    const validationError = validateEncashmentDays(values.days, allowance);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const encashmentData: EncashmentCarrier = {
+      absenceType: values.absenceType,
+      days: values.days,
+      reason: values.reason.trim(),
+      informTo:
+        values.informTo && values.informTo.length > 0
+          ? values.informTo
+          : undefined,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Submit encashment request - context handles success/error notifications
+    const result = await requestEncashment(encashmentData);
+    if (result) {
+      handleGoBack();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto py-8 px-4">
+        <div className="max-w-2xl mx-auto">
+          {/* Main Form */}
+          <Card>
+            {/* Header */}
+            <div className="flex items-center gap-4 p-6 border-b">
+              <Button variant="outline" size="icon" onClick={handleGoBack}>
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold">Encash Leave</h1>
+                <p className="text-muted-foreground mt-1">
+                  Convert unused leave days into a payout
+                </p>
+              </div>
+            </div>
+
+            <div className="p-6">
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit(onSubmit)}
+                  className="space-y-6"
+                >
+                  {/* Leave Type Selection */}
+                  <FormField
+                    control={form.control}
+                    name="absenceType"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Leave Type *</FormLabel>
+                        <Select
+                          value={field.value}
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            setError("");
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select leave type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {encashableConfigs.map(({ code, config }) => (
+                              <SelectItem key={code} value={code}>
+                                <div className="flex items-center gap-2">
+                                  <span>{config.name}</span>
+                                  {config.tagline && (
+                                    <span className="text-xs text-muted-foreground">
+                                      ({config.tagline})
+                                    </span>
+                                  )}
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {employeeLeavesInfo && encashableConfigs.length === 0 && (
+                          <FormDescription>
+                            None of your leave types can be encashed
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Allowance */}
+                  {allowance && (
+                    <div className="grid grid-cols-3 gap-4 rounded-lg bg-muted p-4 text-sm">
+                      <div>
+                        <p className="text-muted-foreground">Available to Encash</p>
+                        <p className="text-lg font-semibold">{allowance.balance} days</p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Encashed This Year</p>
+                        <p className="text-lg font-semibold">
+                          {allowance.daysUsed}
+                          {allowance.dayLimit > 0 && ` / ${allowance.dayLimit}`} days
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Requests This Year</p>
+                        <p className="text-lg font-semibold">
+                          {allowance.requestsUsed}
+                          {allowance.requestLimit > 0 && ` / ${allowance.requestLimit}`}
+                        </p>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Days */}
+                  <FormField
+                    control={form.control}
+                    name="days"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Days to Encash *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            step="0.5"
+                            max={allowance?.maxDays}
+                            {...field}
+                            onChange={(e) => {
+                              field.onChange(parseFloat(e.target.value) || 0);
+                              setError("");
+                            }}
+                          />
+                        </FormControl>
+                        {allowance && (
+                          <FormDescription>
+                            You can encash up to {allowance.maxDays} day(s) now
+                          </FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Reason */}
+                  <FormField
+                    control={form.control}
+                    name="reason"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reason *</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="Please provide a reason for your encashment request..."
+                            {...field}
+                            rows={4}
+                            className="resize-none"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          {field.value.length}/500 characters
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="informTo"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Inform To (Optional)</FormLabel>
+                        <FormControl>
+                          <UsersSelector
+                            value={field.value || []}
+                            onChange={(selectedValue) => {
+                              const emails = Array.isArray(selectedValue)
+                                ? selectedValue
+                                : selectedValue
+                                  ? [selectedValue]
+                                  : [];
+                              field.onChange(emails);
+                            }}
+                            placeholder="Search and select employees to inform..."
+                            disabled={false}
+                            returnField="email"
+                            type="multiple"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Select employees to notify about this encashment request
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Error Message */}
+                  {(error || daysError) && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{error || daysError}</AlertDescription>
+                    </Alert>
+                  )}
+                </form>
+              </Form>
+            </div>
+          </Card>
+        </div>
+      </div>
+
+      {/* Form Action Bar - Bottom Fixed Bar */}
+      <div className="fixed bottom-0 left-0 right-0 border-t bg-background/95 backdrop-blur-sm p-4 z-40">
+        <div className="container mx-auto flex gap-2 justify-end">
+          <Button variant="outline" onClick={handleGoBack} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={form.handleSubmit(onSubmit)}
+            disabled={
+              isLoading ||
+              !selectedLeaveType ||
+              !(days > 0) ||
+              !!daysError ||
+              !form.getValues("reason").trim()
+            }
+          >
+            {isLoading ? (
+              <>
+                <div className="h-4 w-4 mr-2 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                Submitting...
+              </>
+            ) : (
+              <>
+                <Banknote className="h-4 w-4 mr-2" />
+                Submit Request
+              </>
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {/* Padding for fixed bottom bar */}
+      <div className="h-20" />
+    </div>
+  );
+}
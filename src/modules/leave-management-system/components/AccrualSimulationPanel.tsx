@@ -0,0 +1,172 @@
+/**
+ * Accrual Simulation Panel
+ * Projects a sample employee's month-by-month balance for the policy being edited
+ * Shows credits, consumption, lapses and carry-forward per leave month
+ */
+
+import { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LineChart } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  CalendarConfiguration,
+  CreditPolicy,
+  ExpirePolicy,
+} from "../types/leaveConfiguration.types";
+import { getPeriodStart, simulateAccrual } from "../utils/leaveAccrualEngine";
+
+interface AccrualSimulationPanelProps {
+  creditPolicy: CreditPolicy | null;
+  expirePolicy: ExpirePolicy | null;
+  calendarConfiguration: CalendarConfiguration;
+}
+
+const PROJECTION_LENGTHS = [12, 18, 24];
+
+export function AccrualSimulationPanel({
+  creditPolicy,
+  expirePolicy,
+  calendarConfiguration,
+}: AccrualSimulationPanelProps) {
+  const [months, setMonths] = useState(12);
+  const [openingBalance, setOpeningBalance] = useState(0);
+  const [monthlyConsumption, setMonthlyConsumption] = useState(0);
+
+  const projection = useMemo(
+    () =>
+      simulateAccrual({
+        creditPolicy,
+        expirePolicy,
+        calendarConfiguration,
+        startDate: getPeriodStart(new Date(), calendarConfiguration),
+        months,
+        openingBalance,
+        monthlyConsumption,
+      }),
+    [creditPolicy, expirePolicy, calendarConfiguration, months, openingBalance, monthlyConsumption]
+  );
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <LineChart className="h-4 w-4" />
+        <h3 className="text-base font-semibold">Simulate Balance</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Projected balance of a sample employee under the current credit, expiry and calendar settings
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="space-y-2">
+          <Label htmlFor="simulation-opening">Opening Balance (Days)</Label>
+          <Input
+            id="simulation-opening"
+            type="number"
+            min="0"
+            step="0.5"
+            value={openingBalance}
+            onChange={(e) => setOpeningBalance(Math.max(0, parseFloat(e.target.value) || 0))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="simulation-consumption">Days Taken per Month</Label>
+          <Input
+            id="simulation-consumption"
+            type="number"
+            min="0"
+            step="0.5"
+            value={monthlyConsumption}
+            onChange={(e) => setMonthlyConsumption(Math.max(0, parseFloat(e.target.value) || 0))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Projection Length</Label>
+          <Select value={months.toString()} onValueChange={(value) => setMonths(parseInt(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROJECTION_LENGTHS.map((length) => (
+                <SelectItem key={length} value={length.toString()}>
+                  {length} months
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="flex flex-wrap gap-2 mb-4 text-xs">
+        <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+          Credited {projection.totalCredited}
+        </Badge>
+        <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+          Consumed {projection.totalConsumed}
+        </Badge>
+        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+          Lapsed {projection.totalLapsed}
+        </Badge>
+        <Badge variant="secondary">Closing {projection.closingBalance}</Badge>
+      </div>
+
+      <div className="rounded-md border max-h-96 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Month</TableHead>
+              <TableHead className="text-right">Opening</TableHead>
+              <TableHead className="text-right">Credited</TableHead>
+              <TableHead className="text-right">Consumed</TableHead>
+              <TableHead className="text-right">Lapsed</TableHead>
+              <TableHead className="text-right">Closing</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {projection.periods.map((period) => (
+              <TableRow key={period.periodStart} className={cn(period.isYearEnd && "bg-muted/50")}>
+                <TableCell>
+                  <div className="font-medium">{period.label}</div>
+                  {period.isYearEnd && (
+                    <div className="text-xs text-muted-foreground">
+                      Year end · carry forward {period.carriedForward}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{period.opening}</TableCell>
+                <TableCell className="text-right text-green-600">
+                  {period.credited > 0 ? `+${period.credited}` : "-"}
+                </TableCell>
+                <TableCell className="text-right text-blue-600">
+                  {period.consumed > 0 ? `-${period.consumed}` : "-"}
+                </TableCell>
+                <TableCell className="text-right text-red-600">
+                  {period.lapsed > 0 ? `-${period.lapsed}` : "-"}
+                </TableCell>
+                <TableCell className="text-right font-semibold">{period.closing}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+/**
+ * Approval SLA Badge Component
+ * Countdown to the next reminder, escalation or auto-approval deadline of a
+ * pending application, with all deadlines listed in a tooltip
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AlarmClock, ArrowUpRight, Timer } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { AbsenceApplication } from "../types/leave.types";
+import { LMSConfiguration } from "../types/leaveConfiguration.types";
+import {
+  APPROVAL_SLA_LABELS,
+  formatSlaCountdown,
+  getApprovalSlaStatus,
+} from "../utils/approvalSla";
+
+interface ApprovalSlaBadgeProps {
+  application: AbsenceApplication;
+  configuration?: LMSConfiguration;
+}
+
+// Deadlines closer than this are highlighted
+const URGENT_MINUTES = 4 * 60;
+
+// Countdowns are shown to the minute
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const formatDeadline = (date: Date) => format(date, "MMM dd, hh:mm a");
+
+export function ApprovalSlaBadge({ application, configuration }: ApprovalSlaBadgeProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const sla = getApprovalSlaStatus(application, configuration, now);
+  if (!sla.isTracked) {
+    return <span className="text-xs text-muted-foreground">-</span>;
+  }
+
+  const { nextDeadline } = sla;
+  const isUrgent =
+    !!nextDeadline && nextDeadline.at.getTime() - now.getTime() < URGENT_MINUTES * 60 * 1000;
+
+  let label: string;
+  let className: string;
+  let Icon = Timer;
+  if (sla.isAutoApprovalOverdue) {
+    label = "Auto-approval due";
+    className = "bg-blue-50 text-blue-700 border-blue-200";
+  } else if (sla.isEscalated || sla.isEscalationDue) {
+    label = nextDeadline
+      ? `Escalated · ${formatSlaCountdown(nextDeadline.at, now)}`
+      : "Escalated";
+    className = "bg-red-50 text-red-700 border-red-200";
+    Icon = ArrowUpRight;
+  } else if (nextDeadline) {
+    label = `${APPROVAL_SLA_LABELS[nextDeadline.kind]} in ${formatSlaCountdown(nextDeadline.at, now)}`;
+    className = isUrgent
+      ? "bg-amber-50 text-amber-700 border-amber-200"
+      : "bg-muted text-muted-foreground";
+    Icon = nextDeadline.kind === "remind" ? AlarmClock : Timer;
+  } else {
+    label = "Overdue";
+    className = "bg-amber-50 text-amber-700 border-amber-200";
+  }
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className={`${className} cursor-help whitespace-nowrap`}>
+            <Icon className="h-3 w-3 mr-1" />
+            {label}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <ul className="space-y-0.5 text-xs">
+            {sla.remindAt && (
+              <li>
+                Reminder: {formatDeadline(sla.remindAt)}
+                {application.remindedAt && " (sent)"}
+              </li>
+            )}
+            {sla.escalateAt && (
+              <li>
+                Escalation: {formatDeadline(sla.escalateAt)}
+                {application.escalatedTo && ` (to ${application.escalatedTo})`}
+              </li>
+            )}
+            {sla.autoApproveAt && <li>Auto-approval: {formatDeadline(sla.autoApproveAt)}</li>}
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Coverage Impact Alert Component
+ * Warns approvers when approving a request drops team availability below the threshold
+ */
+
+import { format, parseISO } from "date-fns";
+import { Users } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ApprovalCoverageImpact } from "../utils/teamCoverage";
+
+interface CoverageImpactAlertProps {
+  impact: ApprovalCoverageImpact;
+  threshold: number;
+}
+
+export function CoverageImpactAlert({ impact, threshold }: CoverageImpactAlertProps) {
+  if (impact.lowDays.length === 0) return null;
+
+  return (
+    <Alert className="border-amber-200 bg-amber-50">
+      <Users className="h-4 w-4 text-amber-600" />
+      <AlertDescription className="text-amber-800">
+        <p className="font-medium mb-1">
+          Approving drops team availability below {threshold}% on {impact.lowDays.length} day
+          {impact.lowDays.length !== 1 ? "s" : ""} (lowest {impact.lowestPercent}%)
+        </p>
+        <ul className="list-disc pl-4 space-y-0.5 text-sm">
+          {impact.lowDays.map((day) => {
+            const alsoOut = day.absences.filter((absence) => absence.employeeId !== impact.employeeId);
+            return (
+              <li key={day.date}>
+                {format(parseISO(day.date), "EEE, MMM dd")}: {day.availablePercent}% available
+                {alsoOut.length > 0 &&
+                  ` · also out: ${alsoOut
+                    .map((absence) => `${absence.firstName} ${absence.lastName}`.trim())
+                    .join(", ")}`}
+              </li>
+            );
+          })}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Encashment Ledger Component
+ * Lists encashment requests with their status, deducted days and payout
+ * Actions (cancel, approve, process) are supplied by the hosting view
+ */
+
+import { ReactNode } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Encashment, EncashmentStatus } from "../types/leave.types";
+
+interface EncashmentLedgerProps {
+  encashments: Encashment[];
+  leaveTypeNames?: Record<string, string>; // Key: leave type code
+  showEmployee?: boolean;
+  isLoading?: boolean;
+  renderActions?: (encashment: Encashment) => ReactNode;
+}
+
+const encashmentStatusStyles: Record<EncashmentStatus, { label: string; className: string }> = {
+  PENDING: { label: "Pending", className: "bg-amber-50 text-amber-700 border-amber-200" },
+  MANAGER_APPROVED: { label: "Manager Approved", className: "bg-blue-50 text-blue-700 border-blue-200" },
+  APPROVED: { label: "Approved", className: "bg-green-50 text-green-700 border-green-200" },
+  PAID: { label: "Paid", className: "bg-emerald-100 text-emerald-800 border-emerald-300" },
+  REJECTED: { label: "Rejected", className: "bg-red-50 text-red-700 border-red-200" },
+  CANCELLED: { label: "Cancelled", className: "bg-gray-100 text-gray-600 border-gray-200" },
+};
+
+const formatDate = (value?: string) => (value ? format(new Date(value), "MMM dd, yyyy") : "-");
+
+const sumDays = (encashments: Encashment[]) =>
+  Math.round(encashments.reduce((sum, encashment) => sum + encashment.days, 0) * 10) / 10;
+
+export function EncashmentLedger({
+  encashments,
+  leaveTypeNames = {},
+  showEmployee = false,
+  isLoading = false,
+  renderActions,
+}: EncashmentLedgerProps) {
+  const byStatus = (...statuses: EncashmentStatus[]) =>
+    encashments.filter((encashment) => statuses.includes(encashment.status));
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Summary */}
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="outline" className={encashmentStatusStyles.PAID.className}>
+          Paid {sumDays(byStatus("PAID"))} days
+        </Badge>
+        <Badge variant="outline" className={encashmentStatusStyles.APPROVED.className}>
+          Awaiting payout {sumDays(byStatus("APPROVED"))} days
+        </Badge>
+        <Badge variant="outline" className={encashmentStatusStyles.PENDING.className}>
+          In approval {sumDays(byStatus("PENDING", "MANAGER_APPROVED"))} days
+        </Badge>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Requested On</TableHead>
+              {showEmployee && <TableHead>Employee</TableHead>}
+              <TableHead>Leave Type</TableHead>
+              <TableHead className="text-right">Days</TableHead>
+              <TableHead className="text-right">Balance After</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Paid On</TableHead>
+              <TableHead>Reason</TableHead>
+              {renderActions && <TableHead className="text-center">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {encashments.length === 0 && (
+              <TableRow>
+                <TableCell
+                  colSpan={7 + (showEmployee ? 1 : 0) + (renderActions ? 1 : 0)}
+                  className="text-center text-muted-foreground py-6"
+                >
+                  No encashment requests yet
+                </TableCell>
+              </TableRow>
+            )}
+            {encashments.map((encashment) => {
+              const status = encashmentStatusStyles[encashment.status] || encashmentStatusStyles.PENDING;
+              return (
+                <TableRow key={encashment.id}>
+                  <TableCell className="whitespace-nowrap">{formatDate(encashment.createdAt)}</TableCell>
+                  {showEmployee && (
+                    <TableCell className="font-medium">
+                      {`${encashment.firstName || ""} ${encashment.lastName || ""}`.trim()}
+                    </TableCell>
+                  )}
+                  <TableCell>{leaveTypeNames[encashment.absenceType] || encashment.absenceType}</TableCell>
+                  <TableCell className="text-right font-semibold">{encashment.days}</TableCell>
+                  <TableCell className="text-right">{encashment.balanceAfter ?? "-"}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={status.className}>
+                      {status.label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {formatDate(encashment.paidOn)}
+                    {encashment.payoutReference && (
+                      <div className="text-xs text-muted-foreground">{encashment.payoutReference}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate">{encashment.reason || "-"}</TableCell>
+                  {renderActions && (
+                    <TableCell>
+                      <div className="flex items-center justify-center gap-2">{renderActions(encashment)}</div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
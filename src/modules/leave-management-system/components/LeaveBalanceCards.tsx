@@ -24,6 +24,7 @@ import {
   SpecialCard,
   MonetizableCard,
 } from "./LeaveCardTypes";
+import { projectYearEndBalance } from "../utils/leaveAccrualEngine";
 
 interface LeaveBalanceCardsProps {
   employeeLeavesInfo: EmployeeLeavesInformation | null;
@@ -234,6 +235,7 @@ export function LeaveBalanceCards({
 
           // Render type-specific card based on category
           const handleApplyLeave = () => onApplyLeave?.(leaveCode);
+          const yearEndProjection = projectYearEndBalance(config, balance.available ?? 0);
 
           switch (config.category?.toLowerCase()) {
             case "accrued":
@@ -244,6 +246,7 @@ export function LeaveBalanceCards({
                   balance={balance}
                   gradient={gradient}
                   onApplyLeave={handleApplyLeave}
+                  yearEndProjection={yearEndProjection}
                 />
               );
             case "flexible":
@@ -276,6 +279,7 @@ export function LeaveBalanceCards({
                   balance={balance}
                   gradient={gradient}
                   onApplyLeave={handleApplyLeave}
+                  yearEndProjection={yearEndProjection}
                 />
               );
             default:
@@ -287,6 +291,7 @@ export function LeaveBalanceCards({
                   balance={balance}
                   gradient={gradient}
                   onApplyLeave={handleApplyLeave}
+                  yearEndProjection={yearEndProjection}
                 />
               );
           }
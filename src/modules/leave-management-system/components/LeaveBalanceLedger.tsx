@@ -0,0 +1,213 @@
+/**
+ * Leave Balance Ledger Component
+ * Transaction history per leave type with running balance and actor
+ * Flags leave types whose ledger does not reconcile with the aggregate balance
+ * (skipped when only part of the history was loaded) and exports the visible
+ * entries to CSV
+ */
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, CheckCircle, Download, Info } from "lucide-react";
+import { downloadTextFile } from "@/lib/download";
+import { LeaveTransaction } from "../types/leave.types";
+import { LeaveBalanceModel } from "../types/leaveConfiguration.types";
+import {
+  buildLeaveLedger,
+  leaveLedgerToCsv,
+  LEAVE_TRANSACTION_LABELS,
+  reconcileLeaveLedger,
+} from "../utils/leaveLedger";
+
+interface LeaveBalanceLedgerProps {
+  transactions: LeaveTransaction[];
+  balances?: Record<string, LeaveBalanceModel>; // Aggregate balances to reconcile against
+  totalTransactions?: number; // Size of the full history, when more may exist than were loaded
+  leaveTypeNames?: Record<string, string>; // Key: leave type code
+  isLoading?: boolean;
+  exportFileName?: string; // Without extension
+}
+
+const ALL_LEAVE_TYPES = "ALL";
+
+export function LeaveBalanceLedger({
+  transactions,
+  balances,
+  totalTransactions,
+  leaveTypeNames = {},
+  isLoading = false,
+  exportFileName = "leave-ledger",
+}: LeaveBalanceLedgerProps) {
+  const [leaveTypeFilter, setLeaveTypeFilter] = useState(ALL_LEAVE_TYPES);
+
+  const entries = useMemo(() => buildLeaveLedger(transactions), [transactions]);
+
+  // A partial history cannot add up to the balance, so it is not reconciled
+  const isPartial = totalTransactions !== undefined && totalTransactions > transactions.length;
+
+  // Only leave types with history are checked; ones never touched have nothing to explain
+  const mismatches = useMemo(() => {
+    if (!balances || isPartial) return [];
+    const ledgerTypes = new Set(entries.map((entry) => entry.absenceType));
+    return reconcileLeaveLedger(entries, balances).filter(
+      (item) => ledgerTypes.has(item.absenceType) && !item.isReconciled,
+    );
+  }, [entries, balances, isPartial]);
+
+  const leaveTypes = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.absenceType))),
+    [entries],
+  );
+
+  const visibleEntries =
+    leaveTypeFilter === ALL_LEAVE_TYPES
+      ? entries
+      : entries.filter((entry) => entry.absenceType === leaveTypeFilter);
+
+  const getLeaveTypeName = (code: string) => leaveTypeNames[code] || code;
+
+  const handleExport = () => {
+    const suffix = leaveTypeFilter === ALL_LEAVE_TYPES ? "" : `-${leaveTypeFilter}`;
+    downloadTextFile(
+      leaveLedgerToCsv(visibleEntries, leaveTypeNames),
+      `${exportFileName}${suffix}-${new Date().toISOString().slice(0, 10)}.csv`,
+      "text/csv",
+    );
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Select value={leaveTypeFilter} onValueChange={setLeaveTypeFilter}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_LEAVE_TYPES}>All leave types</SelectItem>
+            {leaveTypes.map((code) => (
+              <SelectItem key={code} value={code}>
+                {getLeaveTypeName(code)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport}
+          disabled={visibleEntries.length === 0}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Reconciliation */}
+      {balances && entries.length > 0 && (
+        isPartial ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Info className="h-4 w-4" />
+            Showing the oldest {transactions.length} of {totalTransactions} transactions; the ledger is not
+            reconciled with the current balances
+          </div>
+        ) : mismatches.length > 0 ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Ledger does not match the balance</AlertTitle>
+            <AlertDescription>
+              <ul className="mt-1 space-y-1 text-sm">
+                {mismatches.map((item) => (
+                  <li key={item.absenceType}>
+                    <span className="font-medium">{getLeaveTypeName(item.absenceType)}</span>
+                    {item.reportedBalance !== null &&
+                      item.reportedBalance !== item.ledgerBalance &&
+                      ` - available ${item.reportedBalance}, ledger ${item.ledgerBalance}`}
+                    {item.reportedConsumed !== null &&
+                      item.reportedConsumed !== item.ledgerConsumed &&
+                      ` - consumed ${item.reportedConsumed}, ledger ${item.ledgerConsumed}`}
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            Ledger reconciles with the current balances
+          </div>
+        )
+      )}
+
+      <div className="rounded-md border max-h-[480px] overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Leave Type</TableHead>
+              <TableHead>Transaction</TableHead>
+              <TableHead className="text-right">Days</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+              <TableHead>By</TableHead>
+              <TableHead>Remarks</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleEntries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                  No leave transactions yet
+                </TableCell>
+              </TableRow>
+            )}
+            {visibleEntries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell className="whitespace-nowrap">
+                  {format(new Date(entry.effectiveOn), "MMM dd, yyyy")}
+                </TableCell>
+                <TableCell>{getLeaveTypeName(entry.absenceType)}</TableCell>
+                <TableCell>
+                  <Badge variant="outline">{LEAVE_TRANSACTION_LABELS[entry.type] || entry.type}</Badge>
+                </TableCell>
+                <TableCell
+                  className={`text-right font-semibold ${entry.change < 0 ? "text-red-600" : "text-green-600"}`}
+                >
+                  {entry.change > 0 ? `+${entry.change}` : entry.change}
+                </TableCell>
+                <TableCell className="text-right">{entry.runningBalance}</TableCell>
+                <TableCell className="whitespace-nowrap">
+                  {entry.actorName || entry.actorEmail || (
+                    <span className="text-muted-foreground">System</span>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-xs truncate">{entry.remarks || "-"}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { LMSConfiguration } from "../types/leaveConfiguration.types";
 import { LeaveBalanceModel } from "../types/leaveConfiguration.types";
+import { AccrualPeriod } from "../utils/leaveAccrualEngine";
 import {
   CalendarDays,
   CheckCircle2,
@@ -22,6 +23,26 @@ interface BaseCardProps {
   balance: LeaveBalanceModel;
   gradient: string;
   onApplyLeave?: () => void;
+  yearEndProjection?: AccrualPeriod | null; // projected balance at the end of the leave year
+}
+
+/**
+ * Balance breakdown row for the projected year-end balance
+ */
+function YearEndProjectionRow({ projection }: { projection: AccrualPeriod }) {
+  return (
+    <div className="flex justify-between items-center text-sm">
+      <span className="text-muted-foreground">Projected at year end</span>
+      <span className="font-semibold">
+        {Math.round(projection.closing * 10) / 10} days
+        {projection.lapsed > 0 && (
+          <span className="text-xs font-normal text-red-600 ml-1">
+            ({Math.round(projection.lapsed * 10) / 10} lapse)
+          </span>
+        )}
+      </span>
+    </div>
+  );
 }
 
 /**
@@ -34,6 +55,7 @@ export function AccruedCard({
   balance,
   gradient,
   onApplyLeave,
+  yearEndProjection,
 }: BaseCardProps) {
   const available = balance.available ?? 0;
   const consumed = balance.consumed ?? 0;
@@ -118,6 +140,9 @@ export function AccruedCard({
               {Math.round(consumed * 10) / 10} days
             </span>
           </div>
+          {yearEndProjection && (
+            <YearEndProjectionRow projection={yearEndProjection} />
+          )}
         </div>
 
         {/* Apply Leave Button */}
@@ -375,6 +400,7 @@ export function MonetizableCard({
   balance,
   gradient,
   onApplyLeave,
+  yearEndProjection,
 }: BaseCardProps) {
   const available = balance.available ?? 0;
   const consumed = balance.consumed ?? 0;
@@ -458,6 +484,9 @@ export function MonetizableCard({
               {Math.round(consumed * 10) / 10} days
             </span>
           </div>
+          {yearEndProjection && (
+            <YearEndProjectionRow projection={yearEndProjection} />
+          )}
         </div>
 
         {/* Apply Leave Button */}
@@ -0,0 +1,78 @@
+/**
+ * Leave Day Breakdown Component
+ * Per-day view of a leave day calculation: working, weekend, holiday and LOP days
+ */
+
+import { format, parseISO } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { LeaveDay, LeaveDayCalculation } from "../utils/leaveDayCalculator";
+
+interface LeaveDayBreakdownProps {
+  calculation: LeaveDayCalculation;
+  className?: string;
+}
+
+const dayKindStyles: Record<LeaveDay["kind"], string> = {
+  working: "bg-blue-50 text-blue-700 border-blue-200",
+  weekend: "bg-gray-100 text-gray-600 border-gray-200",
+  holiday: "bg-green-50 text-green-700 border-green-200",
+};
+
+const formatUnits = (units: number) => `${units} day${units !== 1 ? "s" : ""}`;
+
+export function LeaveDayBreakdown({ calculation, className }: LeaveDayBreakdownProps) {
+  const { days, totalDays, lopDays, workingDays, weekendDays, holidayDays } = calculation;
+
+  if (days.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {/* Summary */}
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="outline" className={dayKindStyles.working}>
+          {workingDays} working
+        </Badge>
+        {weekendDays > 0 && (
+          <Badge variant="outline" className={dayKindStyles.weekend}>
+            {weekendDays} weekend
+          </Badge>
+        )}
+        {holidayDays > 0 && (
+          <Badge variant="outline" className={dayKindStyles.holiday}>
+            {holidayDays} holiday
+          </Badge>
+        )}
+        {lopDays > 0 && (
+          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+            {formatUnits(lopDays)} LOP
+          </Badge>
+        )}
+        <span className="ml-auto font-medium">Counted: {formatUnits(totalDays)}</span>
+      </div>
+
+      {/* Per-day rows */}
+      <div className="max-h-60 overflow-y-auto rounded-md border divide-y">
+        {days.map((day) => (
+          <div key={day.date} className="flex items-center gap-3 px-3 py-2 text-sm">
+            <span className="w-28 shrink-0">{format(parseISO(day.date), "EEE, MMM dd")}</span>
+            <Badge variant="outline" className={cn("capitalize", dayKindStyles[day.kind])}>
+              {day.kind}
+            </Badge>
+            <span className="flex-1 min-w-0 truncate text-muted-foreground">
+              {day.holidayName}
+            </span>
+            {day.lopUnits > 0 && (
+              <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                LOP {day.lopUnits}
+              </Badge>
+            )}
+            <span className={cn("w-14 text-right", day.units === 0 && "text-muted-foreground")}>
+              {day.units}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * Leave Policy Issues Components
+ * Display the result of a leave policy evaluation inline (forms, dialogs)
+ * or as a compact badge (tables)
+ */
+
+import { AlertCircle, AlertTriangle, ShieldCheck } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { LeavePolicyEvaluation } from "../utils/leavePolicyValidator";
+
+interface LeavePolicyIssuesProps {
+  evaluation: LeavePolicyEvaluation;
+}
+
+export function LeavePolicyIssues({ evaluation }: LeavePolicyIssuesProps) {
+  const { violations, warnings } = evaluation;
+  if (violations.length === 0 && warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {violations.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium mb-1">This request violates the leave policy</p>
+            <ul className="list-disc pl-4 space-y-0.5 text-sm">
+              {violations.map((issue) => (
+                <li key={`${issue.rule}-${issue.message}`}>{issue.message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {warnings.length > 0 && (
+        <Alert className="border-amber-200 bg-amber-50">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800">
+            <ul className="list-disc pl-4 space-y-0.5 text-sm">
+              {warnings.map((issue) => (
+                <li key={`${issue.rule}-${issue.message}`}>{issue.message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+export function LeavePolicyBadge({ evaluation }: LeavePolicyIssuesProps) {
+  const { violations, warnings } = evaluation;
+  const issues = [...violations, ...warnings];
+
+  if (issues.length === 0) {
+    return (
+      <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+        <ShieldCheck className="h-3 w-3 mr-1" />
+        Compliant
+      </Badge>
+    );
+  }
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge
+            variant="outline"
+            className={
+              violations.length > 0
+                ? "bg-red-50 text-red-700 border-red-200 cursor-help"
+                : "bg-amber-50 text-amber-700 border-amber-200 cursor-help"
+            }
+          >
+            {violations.length > 0 ? (
+              <AlertCircle className="h-3 w-3 mr-1" />
+            ) : (
+              <AlertTriangle className="h-3 w-3 mr-1" />
+            )}
+            {violations.length > 0
+              ? `${violations.length} violation${violations.length !== 1 ? "s" : ""}`
+              : `${warnings.length} warning${warnings.length !== 1 ? "s" : ""}`}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <ul className="list-disc pl-4 space-y-0.5 text-xs">
+            {issues.map((issue) => (
+              <li key={`${issue.rule}-${issue.message}`}>{issue.message}</li>
+            ))}
+          </ul>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
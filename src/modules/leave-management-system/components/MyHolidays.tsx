@@ -0,0 +1,181 @@
+/**
+ * My Holidays Component
+ * Lists the year's holidays for the employee's company and lets them
+ * pick optional holidays within the company quota
+ */
+
+import { useEffect, useState } from "react";
+import { format, isBefore, parseISO, startOfToday } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarCheck, CalendarDays } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCompany } from "@/contexts/CompanyContext";
+import { useHoliday } from "@/contexts/HolidayContext";
+import { holidayTypeStyles } from "../holiday-management/constants";
+import {
+  HolidayOccurrence,
+  OptionalHolidayQuota,
+  OptionalHolidaySelection,
+} from "../holiday-management/types";
+
+interface MyHolidaysProps {
+  year: number;
+  occurrences: HolidayOccurrence[];
+  selections: OptionalHolidaySelection[];
+  isLoading?: boolean;
+  onSelectionsChange: () => void;
+}
+
+export function MyHolidays({
+  year,
+  occurrences,
+  selections,
+  isLoading = false,
+  onSelectionsChange,
+}: MyHolidaysProps) {
+  const { activeCompany } = useCompany();
+  const { getOptionalHolidayQuota, selectOptionalHoliday, withdrawOptionalHoliday } = useHoliday();
+  const [quota, setQuota] = useState<OptionalHolidayQuota | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!activeCompany?.id) return;
+    const loadQuota = async () => {
+      setQuota(await getOptionalHolidayQuota(activeCompany.id, year));
+    };
+    loadQuota();
+  }, [activeCompany?.id, year]);
+
+  const today = startOfToday();
+  const maxSelections = quota?.maxSelections ?? 0;
+  const remaining = Math.max(0, maxSelections - selections.length);
+  const selectionByHoliday = new Map(selections.map((s) => [s.holidayId, s]));
+  const optionalCount = occurrences.filter((o) => o.holiday.type === "optional").length;
+
+  const handlePick = async (occurrence: HolidayOccurrence) => {
+    if (!activeCompany?.id) return;
+    setPendingId(occurrence.holiday.id);
+    const selection = await selectOptionalHoliday({
+      holidayId: occurrence.holiday.id,
+      companyId: activeCompany.id,
+      year,
+      date: occurrence.date,
+      createdAt: new Date().toISOString(),
+    });
+    setPendingId(null);
+    if (selection) onSelectionsChange();
+  };
+
+  const handleWithdraw = async (selection: OptionalHolidaySelection) => {
+    setPendingId(selection.holidayId);
+    const success = await withdrawOptionalHoliday(selection.id);
+    setPendingId(null);
+    if (success) onSelectionsChange();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-14 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Optional holiday quota summary */}
+      {optionalCount > 0 && (
+        <Card>
+          <CardContent className="flex flex-wrap items-center justify-between gap-3 py-4">
+            <div className="flex items-center gap-3">
+              <CalendarCheck className="h-5 w-5 text-blue-600" />
+              <div>
+                <p className="text-sm font-medium">Optional holidays</p>
+                <p className="text-xs text-muted-foreground">
+                  Pick up to {maxSelections} of {optionalCount} optional holidays for {year}
+                </p>
+              </div>
+            </div>
+            <Badge variant="outline" className={holidayTypeStyles.optional}>
+              {selections.length} picked · {remaining} remaining
+            </Badge>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <CalendarDays className="h-4 w-4" />
+            Holidays {year}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {occurrences.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              No holidays have been published for {year}
+            </p>
+          ) : (
+            <div className="divide-y">
+              {occurrences.map((occurrence) => {
+                const { holiday } = occurrence;
+                const selection = selectionByHoliday.get(holiday.id);
+                const isPast = isBefore(parseISO(occurrence.date), today);
+
+                return (
+                  <div key={holiday.id} className="flex items-center gap-4 py-3">
+                    <div className="w-14 text-center">
+                      <div className="text-xs text-muted-foreground uppercase">
+                        {format(parseISO(occurrence.date), "MMM")}
+                      </div>
+                      <div className="text-xl font-semibold">
+                        {format(parseISO(occurrence.date), "dd")}
+                      </div>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className={cn("font-medium truncate", isPast && "text-muted-foreground")}>
+                        {holiday.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(parseISO(occurrence.date), "EEEE")}
+                        {holiday.description ? ` · ${holiday.description}` : ""}
+                      </p>
+                    </div>
+                    <Badge variant="outline" className={cn("capitalize", holidayTypeStyles[holiday.type])}>
+                      {holiday.type}
+                    </Badge>
+                    {holiday.type === "optional" && (
+                      selection ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isPast || pendingId === holiday.id}
+                          onClick={() => handleWithdraw(selection)}
+                        >
+                          Withdraw
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          disabled={isPast || remaining === 0 || pendingId === holiday.id}
+                          onClick={() => handlePick(occurrence)}
+                        >
+                          Pick
+                        </Button>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -16,7 +16,11 @@ import { DataTableRef } from "@/components/common/DataTable/types";
 import { GenericToolbar } from "@/components/GenericToolbar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Credit } from "../types/leave.types";
+import { Credit, Encashment, LeaveTransaction } from "../types/leave.types";
+import { LeaveBalanceModel } from "../types/leaveConfiguration.types";
+import { EncashmentLedger } from "./EncashmentLedger";
+import { LeaveBalanceLedger } from "./LeaveBalanceLedger";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import UniversalSearchRequest, {
   Filters,
   FiltersMap,
@@ -37,9 +41,19 @@ import {
 
 interface MyLeaveCreditsProps {}
 
+// Upper bound of leave transactions loaded into the balance ledger
+const MAX_LEDGER_TRANSACTIONS = 500;
+
 export function MyLeaveCredits({}: MyLeaveCreditsProps) {
-  const { getCredits, cancelCredit, isLoading } = useSelfService();
-  const { searchLeaveConfigurations } = useLeaveManagement();
+  const {
+    getCredits,
+    cancelCredit,
+    getEncashments,
+    cancelEncashment,
+    getMyLeaveLedger,
+    isLoading,
+  } = useSelfService();
+  const { searchLeaveConfigurations, getEmployeeLeavesInformation } = useLeaveManagement();
   const tableRef = useRef<DataTableRef>(null);
 
   // Table state
@@ -54,6 +68,14 @@ export function MyLeaveCredits({}: MyLeaveCreditsProps) {
   // Leave configuration state for mapping credit types to names
   const [creditTypeMap, setCreditTypeMap] = useState<Record<string, string>>({});
 
+  // Encashment ledger state
+  const [encashments, setEncashments] = useState<Encashment[]>([]);
+
+  // Leave balance ledger state
+  const [ledgerTransactions, setLedgerTransactions] = useState<LeaveTransaction[]>([]);
+  const [ledgerTotal, setLedgerTotal] = useState<number | undefined>(undefined);
+  const [balances, setBalances] = useState<Record<string, LeaveBalanceModel> | undefined>();
+
   // Column visibility state - default columns to show
   const [visibleColumns, setVisibleColumns] = useState<string[]>([
     "creditType",
@@ -140,6 +162,50 @@ export function MyLeaveCredits({}: MyLeaveCreditsProps) {
     fetchLeaveConfigurations();
   }, []);
 
+  // Fetch encashment requests on mount for the encashment ledger
+  const fetchEncashments = async () => {
+    const searchRequest: UniversalSearchRequest = {
+      searchText: undefined,
+      searchFields: [],
+      sort: { createdAt: -1 },
+    };
+
+    const result = await getEncashments(searchRequest, 0, 100);
+    if (result) {
+      setEncashments(result.content || []);
+    }
+  };
+  useEffect(() => {
+    fetchEncashments();
+  }, []);
+
+  // Fetch leave transactions and current balances on mount for the balance ledger
+  const fetchLedger = async () => {
+    const searchRequest: UniversalSearchRequest = {
+      searchText: undefined,
+      searchFields: [],
+      sort: { effectiveOn: 1 },
+    };
+
+    const [ledger, leaveInfo] = await Promise.all([
+      getMyLeaveLedger(searchRequest, 0, MAX_LEDGER_TRANSACTIONS),
+      getEmployeeLeavesInformation(),
+    ]);
+    setLedgerTransactions(ledger?.content || []);
+    setLedgerTotal(ledger?.totalElements);
+    setBalances(leaveInfo?.balances);
+  };
+  useEffect(() => {
+    fetchLedger();
+  }, []);
+
+  const handleCancelEncashment = async (id: string) => {
+    const success = await cancelEncashment(id);
+    if (success) {
+      await fetchEncashments();
+    }
+  };
+
   // Filter fields
   const filterFields: AvailableFilter[] = [
     {
@@ -537,6 +603,50 @@ export function MyLeaveCredits({}: MyLeaveCreditsProps) {
           message: "Loading your credits...",
         }}
       />
+
+      {/* Encashment Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Encashment Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <EncashmentLedger
+            encashments={encashments}
+            leaveTypeNames={creditTypeMap}
+            renderActions={(encashment) =>
+              encashment.status === "PENDING" ? (
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleCancelEncashment(encashment.id)}
+                  className="text-xs"
+                >
+                  <X className="h-3 w-3 mr-1" />
+                  Cancel
+                </Button>
+              ) : (
+                <span className="text-xs text-muted-foreground">-</span>
+              )
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Leave Balance Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Leave Balance Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LeaveBalanceLedger
+            transactions={ledgerTransactions}
+            totalTransactions={ledgerTotal}
+            balances={balances}
+            leaveTypeNames={creditTypeMap}
+            exportFileName="my-leave-ledger"
+          />
+        </CardContent>
+      </Card>
     </div>
   );
 }
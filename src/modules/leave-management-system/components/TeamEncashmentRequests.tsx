@@ -0,0 +1,135 @@
+/**
+ * Team Encashment Requests Component
+ * Manager view for team member encashment requests with approval actions
+ * Approved requests move on to HR for processing and payout
+ */
+
+import { useState, useEffect } from "react";
+import { useLeaveManagement } from "@/contexts/LeaveManagementContext";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle, XCircle } from "lucide-react";
+import UniversalSearchRequest from "@/types/search";
+import { Encashment } from "../types/leave.types";
+import { EncashmentLedger } from "./EncashmentLedger";
+
+interface TeamEncashmentRequestsProps {
+  onApprove: (id: string) => void;
+  onReject: (id: string) => void;
+  refreshDependency?: number;
+}
+
+// Upper bound of team encashment requests shown at once
+const MAX_TEAM_ENCASHMENTS = 100;
+
+export function TeamEncashmentRequests({
+  onApprove,
+  onReject,
+  refreshDependency = 0,
+}: TeamEncashmentRequestsProps) {
+  const { getTeamEncashmentRequests, searchLeaveConfigurations, isLoading } =
+    useLeaveManagement();
+
+  const [encashments, setEncashments] = useState<Encashment[]>([]);
+  const [statusFilter, setStatusFilter] = useState("PENDING");
+  const [leaveTypeNames, setLeaveTypeNames] = useState<Record<string, string>>({});
+
+  // Fetch encashment requests when the status filter changes or after an action
+  const fetchEncashments = async () => {
+    const searchRequest: UniversalSearchRequest = {
+      searchText: undefined,
+      searchFields: [],
+      ...(statusFilter !== "ALL" && { filters: { and: { status: statusFilter } } }),
+      sort: { createdAt: -1 },
+    };
+
+    const result = await getTeamEncashmentRequests(searchRequest, 0, MAX_TEAM_ENCASHMENTS);
+    if (result) {
+      setEncashments(result.content || []);
+    }
+  };
+
+  useEffect(() => {
+    fetchEncashments();
+  }, [statusFilter, refreshDependency]);
+
+  // Fetch leave configurations on mount to map leave type codes to names
+  const fetchLeaveConfigurations = async () => {
+    const searchRequest: UniversalSearchRequest = {
+      searchText: undefined,
+      searchFields: [],
+    };
+
+    const result = await searchLeaveConfigurations(searchRequest, 0, 100);
+
+    if (result && result.content) {
+      const typeMap: Record<string, string> = {};
+      result.content.forEach((config) => {
+        typeMap[config.code] = config.name;
+      });
+      setLeaveTypeNames(typeMap);
+    }
+  };
+  useEffect(() => {
+    fetchLeaveConfigurations();
+  }, []);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="PENDING">Pending</SelectItem>
+            <SelectItem value="MANAGER_APPROVED">Manager Approved</SelectItem>
+            <SelectItem value="APPROVED">Approved</SelectItem>
+            <SelectItem value="PAID">Paid</SelectItem>
+            <SelectItem value="REJECTED">Rejected</SelectItem>
+            <SelectItem value="ALL">All</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <EncashmentLedger
+        encashments={encashments}
+        leaveTypeNames={leaveTypeNames}
+        showEmployee
+        isLoading={isLoading && encashments.length === 0}
+        renderActions={(encashment) =>
+          encashment.status === "PENDING" ? (
+            <>
+              <Button
+                variant="default"
+                size="sm"
+                onClick={() => onApprove(encashment.id)}
+                className="h-8 bg-green-600 hover:bg-green-700"
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => onReject(encashment.id)}
+                className="h-8"
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+            </>
+          ) : (
+            <span className="text-xs text-muted-foreground">-</span>
+          )
+        }
+      />
+    </div>
+  );
+}
@@ -15,13 +15,28 @@ import { GenericToolbar } from "@/components/GenericToolbar";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { AbsenceApplication } from "../types/leave.types";
+import { LMSConfiguration } from "../types/leaveConfiguration.types";
+import { evaluateApplicationPolicy } from "../utils/leavePolicyValidator";
+import { getLeaveYearStart } from "../utils/leaveAccrualEngine";
+import { LeavePolicyBadge, LeavePolicyIssues } from "./LeavePolicyIssues";
+import { LeaveDayBreakdown } from "./LeaveDayBreakdown";
+import { useLeaveDayCalculator } from "../hooks/useLeaveDayCalculator";
+import { ApprovalSlaBadge } from "./ApprovalSlaBadge";
+import { useApprovalSlaMonitor } from "../hooks/useApprovalSlaMonitor";
+import { CoverageImpactAlert } from "./CoverageImpactAlert";
+import { useApprovalCoverage } from "../hooks/useApprovalCoverage";
+import {
+  ApprovalCoverageImpact,
+  buildTeamAbsenceRangeRequest,
+} from "../utils/teamCoverage";
+import { ActingForBanner, useActingDelegations } from "@/modules/delegation";
 import UniversalSearchRequest, {
   Filters,
   FiltersMap,
   SortMap,
 } from "@/types/search";
-import { format } from "date-fns";
-import { CheckCircle, XCircle } from "lucide-react";
+import { addDays, addMonths, format, parseISO } from "date-fns";
+import { Calendar, CheckCircle, Eye, XCircle } from "lucide-react";
 import {
   AvailableFilter,
   ActiveFilter,
@@ -32,10 +47,44 @@ import {
   TooltipContent,
   TooltipProvider,
 } from "@/components/ui/tooltip";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// Upper bound of applications loaded per policy year for the employees on a page
+const MAX_POLICY_YEAR_APPLICATIONS = 1000;
+
+// Policy limits count applications per leave year of their configuration,
+// keyed by employee and the yyyy-MM-dd start of that year
+const getPolicyYearKey = (
+  application: AbsenceApplication,
+  configuration: LMSConfiguration | undefined
+) => {
+  const yearStart = getLeaveYearStart(
+    new Date(application.fromDate),
+    configuration?.calendarConfiguration || null
+  );
+  return `${application.employeeId}:${format(yearStart, "yyyy-MM-dd")}`;
+};
 
 interface TeamLeaveApplicationsProps {
-  onApprove: (id: string) => void;
-  onReject: (id: string) => void;
+  // actingFor is the delegating manager's email when working on a delegated queue
+  onApprove: (id: string, actingFor?: string) => Promise<boolean>;
+  onReject: (id: string, actingFor?: string) => Promise<boolean>;
   refreshDependency?: number;
 }
 
@@ -44,7 +93,14 @@ export function TeamLeaveApplications({
   onReject,
   refreshDependency = 0,
 }: TeamLeaveApplicationsProps) {
-  const { getTeamAbsenceApplications, isLoading } = useLeaveManagement();
+  const { getTeamAbsenceApplications, searchLeaveConfigurations, isLoading } =
+    useLeaveManagement();
+  const { delegations, actingFor, actingForId, setActingForId, recordAction } =
+    useActingDelegations("leave");
+  const { settings: coverageSettings, checkCoverage } = useApprovalCoverage(
+    actingFor?.delegatorEmail
+  );
+  const { calculate } = useLeaveDayCalculator("team");
   const tableRef = useRef<DataTableRef>(null);
 
   // Table state
@@ -55,6 +111,24 @@ export function TeamLeaveApplications({
   const [pageSize, setPageSize] = useState(10);
   const [totalItems, setTotalItems] = useState(0);
   const [totalPages, setTotalPages] = useState(0);
+  const [configurations, setConfigurations] = useState<
+    Record<string, LMSConfiguration>
+  >({});
+
+  // Applications of the page's employees in each policy year, keyed by getPolicyYearKey
+  const [policyHistory, setPolicyHistory] = useState<
+    Record<string, AbsenceApplication[]>
+  >({});
+
+  // Application shown in the details dialog
+  const [selectedApplication, setSelectedApplication] =
+    useState<AbsenceApplication | null>(null);
+
+  // Approval awaiting confirmation, with its team coverage impact
+  const [pendingApproval, setPendingApproval] = useState<{
+    application: AbsenceApplication;
+    impact: ApprovalCoverageImpact | null; // null while the team size is unknown
+  } | null>(null);
 
   // Column visibility state - default columns to show
   const [visibleColumns, setVisibleColumns] = useState<string[]>([
@@ -68,6 +142,8 @@ export function TeamLeaveApplications({
     "fromDate",
     "toDate",
     "reason",
+    "policy",
+    "sla",
   ]);
 
   // Memoized fetch function to prevent unnecessary re-renders
@@ -102,7 +178,8 @@ export function TeamLeaveApplications({
       const result = await getTeamAbsenceApplications(
         searchRequest,
         page,
-        size
+        size,
+        actingFor?.delegatorEmail
       );
       if (result) {
         setApplications(result.content || []);
@@ -110,18 +187,118 @@ export function TeamLeaveApplications({
         setTotalPages(result.totalPages || 0);
       }
     },
-    [searchQuery, activeFilters]
+    [searchQuery, activeFilters, actingFor]
   );
 
-  // Reset pagination when search/filters change
+  // Reset pagination when search/filters/queue change
   useEffect(() => {
     setPageIndex(0);
-  }, [searchQuery, activeFilters, refreshDependency]);
+  }, [searchQuery, activeFilters, actingForId, refreshDependency]);
 
-  // Fetch applications when pagination or search/filters change
+  // Fetch applications when pagination or search/filters/queue change
   useEffect(() => {
     fetchTeamApplications(pageIndex, pageSize);
-  }, [pageIndex, pageSize, searchQuery, activeFilters, refreshDependency]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [pageIndex, pageSize, searchQuery, activeFilters, actingForId, refreshDependency]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Fetch leave configurations on mount to evaluate applications against their policy
+  const fetchLeaveConfigurations = async () => {
+    const searchRequest: UniversalSearchRequest = {
+      searchText: undefined,
+      searchFields: [],
+    };
+
+    const result = await searchLeaveConfigurations(searchRequest, 0, 100);
+
+    if (result && result.content) {
+      // Build map from absence type code to configuration
+      const configMap: Record<string, LMSConfiguration> = {};
+      result.content.forEach((config) => {
+        configMap[config.code] = config;
+      });
+      setConfigurations(configMap);
+    }
+  };
+  useEffect(() => {
+    fetchLeaveConfigurations();
+  }, []);
+
+  // Policy limits need the employee's whole year, not just the rows on this page
+  const policyYearKeys = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          applications.map((application) =>
+            getPolicyYearKey(application, configurations[application.absenceType])
+          )
+        )
+      )
+        .sort()
+        .join(","),
+    [applications, configurations]
+  );
+
+  const fetchPolicyHistory = async () => {
+    const employeesByYear = new Map<string, string[]>();
+    policyYearKeys
+      .split(",")
+      .filter(Boolean)
+      .forEach((key) => {
+        const [employeeId, yearStart] = key.split(":");
+        employeesByYear.set(yearStart, [
+          ...(employeesByYear.get(yearStart) || []),
+          employeeId,
+        ]);
+      });
+
+    const history: Record<string, AbsenceApplication[]> = {};
+    await Promise.all(
+      Array.from(employeesByYear).map(async ([yearStart, employeeIds]) => {
+        const rangeRequest = buildTeamAbsenceRangeRequest(
+          parseISO(yearStart),
+          addDays(addMonths(parseISO(yearStart), 12), -1)
+        );
+        const result = await getTeamAbsenceApplications(
+          {
+            ...rangeRequest,
+            filters: {
+              and: { ...rangeRequest.filters?.and, employeeId: employeeIds },
+            },
+          },
+          0,
+          MAX_POLICY_YEAR_APPLICATIONS,
+          actingFor?.delegatorEmail
+        );
+        if (!result) return;
+        employeeIds.forEach((employeeId) => {
+          history[`${employeeId}:${yearStart}`] = (result.content || []).filter(
+            (application) => application.employeeId === employeeId
+          );
+        });
+      })
+    );
+    setPolicyHistory(history);
+  };
+  useEffect(() => {
+    fetchPolicyHistory();
+  }, [policyYearKeys]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Falls back to the rows on this page until the employee's year has loaded
+  const getPolicyEvaluation = (application: AbsenceApplication) => {
+    const config = configurations[application.absenceType];
+    if (!config) return null;
+    return evaluateApplicationPolicy(
+      application,
+      config,
+      policyHistory[getPolicyYearKey(application, config)] || applications
+    );
+  };
+
+  // Record due reminders/escalations and keep the row in sync with the server
+  useApprovalSlaMonitor(applications, configurations, (updated) =>
+    setApplications((prev) =>
+      prev.map((application) => (application.id === updated.id ? updated : application))
+    )
+  );
 
   // Filter fields
   const filterFields: AvailableFilter[] = [
@@ -171,6 +348,60 @@ export function TeamLeaveApplications({
     return format(new Date(dateString), "MMM dd, yyyy");
   };
 
+  // Recompute the per-day breakdown; the balance portion is taken from the stored LOP split
+  const getLeaveDays = (application: AbsenceApplication) => {
+    const config = configurations[application.absenceType];
+    const hasLopSplit =
+      application.totalDays != null && application.lopDays != null;
+    return calculate({
+      fromDate: application.fromDate,
+      toDate: application.toDate,
+      absenceCategory: application.absenceCategory,
+      includeHolidaysWeekends: config?.restrictions?.includeHolidaysWeekends,
+      numberOfDaysPerOneLeave: config?.lmsProperties?.numberOfDaysPerOneLeave,
+      availableBalance: hasLopSplit
+        ? application.totalDays! - application.lopDays!
+        : undefined,
+    });
+  };
+
+  const selectedLeaveDays = selectedApplication
+    ? getLeaveDays(selectedApplication)
+    : null;
+  const selectedPolicy = selectedApplication
+    ? getPolicyEvaluation(selectedApplication)
+    : null;
+  const approvalLeaveDays = pendingApproval
+    ? getLeaveDays(pendingApproval.application)
+    : null;
+  const approvalPolicy = pendingApproval
+    ? getPolicyEvaluation(pendingApproval.application)
+    : null;
+
+  // Actions on a delegated queue are also recorded in the delegation audit log
+  const approveApplication = async (id: string) => {
+    const approved = await onApprove(id, actingFor?.delegatorEmail);
+    if (approved) await recordAction("absence", id, "approve");
+  };
+
+  const handleReject = async (id: string) => {
+    const rejected = await onReject(id, actingFor?.delegatorEmail);
+    if (rejected) await recordAction("absence", id, "reject");
+  };
+
+  // Confirm with the day breakdown and any drop in team coverage below the threshold
+  const handleApproveClick = async (application: AbsenceApplication) => {
+    const impact = await checkCoverage(application);
+    setPendingApproval({ application, impact });
+  };
+
+  const handleConfirmApproval = () => {
+    if (pendingApproval) {
+      approveApplication(pendingApproval.application.id);
+    }
+    setPendingApproval(null);
+  };
+
   const handleExport = () => {
     console.log("Export team applications");
   };
@@ -187,6 +418,8 @@ export function TeamLeaveApplications({
     { id: "fromDate", label: "Start Date" },
     { id: "toDate", label: "End Date" },
     { id: "reason", label: "Reason" },
+    { id: "policy", label: "Policy" },
+    { id: "sla", label: "Approval SLA" },
   ];
 
   // Define table columns using ColumnDef from @tanstack/react-table
@@ -342,6 +575,36 @@ export function TeamLeaveApplications({
           );
         },
       },
+      {
+        id: "policy",
+        header: () => <div className="text-center">Policy</div>,
+        cell: ({ row }) => {
+          const evaluation = getPolicyEvaluation(row.original);
+          return (
+            <div className="text-center">
+              {evaluation ? (
+                <LeavePolicyBadge evaluation={evaluation} />
+              ) : (
+                <span className="text-xs text-muted-foreground">-</span>
+              )}
+            </div>
+          );
+        },
+        enableSorting: false,
+      },
+      {
+        id: "sla",
+        header: () => <div className="text-center">Approval SLA</div>,
+        cell: ({ row }) => (
+          <div className="text-center">
+            <ApprovalSlaBadge
+              application={row.original}
+              configuration={configurations[row.original.absenceType]}
+            />
+          </div>
+        ),
+        enableSorting: false,
+      },
       {
         id: "actions",
         header: () => <div className="text-center">Actions</div>,
@@ -350,12 +613,20 @@ export function TeamLeaveApplications({
             row.original.status?.toUpperCase() === "PENDING";
           return (
             <div className="flex items-center justify-center gap-2">
-              {isPending ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedApplication(row.original)}
+                className="h-8 w-8 p-0"
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+              {isPending && (
                 <>
                   <Button
                     variant="default"
                     size="sm"
-                    onClick={() => onApprove(row.original.id)}
+                    onClick={() => handleApproveClick(row.original)}
                     className="h-8 bg-green-600 hover:bg-green-700"
                   >
                     <CheckCircle className="h-4 w-4 mr-1" />
@@ -364,15 +635,13 @@ export function TeamLeaveApplications({
                   <Button
                     variant="destructive"
                     size="sm"
-                    onClick={() => onReject(row.original.id)}
+                    onClick={() => handleReject(row.original.id)}
                     className="h-8"
                   >
                     <XCircle className="h-4 w-4 mr-1" />
                     Reject
                   </Button>
                 </>
-              ) : (
-                <span className="text-xs text-muted-foreground">-</span>
               )}
             </div>
           );
@@ -381,7 +650,7 @@ export function TeamLeaveApplications({
         enableHiding: false,
       },
     ],
-    []
+    [configurations, applications, policyHistory, coverageSettings, actingFor, calculate]
   );
 
   // Filter columns based on visibility state
@@ -425,6 +694,13 @@ export function TeamLeaveApplications({
 
   return (
     <div className="space-y-4">
+      <ActingForBanner
+        delegations={delegations}
+        actingForId={actingForId}
+        onActingForChange={setActingForId}
+        ownQueueLabel="My team"
+      />
+
       <GenericToolbar
         searchPlaceholder="Search team applications..."
         onSearchChange={setSearchQuery}
@@ -468,6 +744,90 @@ export function TeamLeaveApplications({
           message: "Loading team leave applications...",
         }}
       />
+
+      {/* Application details */}
+      <Dialog
+        open={selectedApplication !== null}
+        onOpenChange={(open) => !open && setSelectedApplication(null)}
+      >
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Leave Application Details</DialogTitle>
+            <DialogDescription>
+              {selectedApplication &&
+                `${selectedApplication.firstName} ${selectedApplication.lastName} · ${selectedApplication.absenceType} · ${formatDate(selectedApplication.fromDate)} to ${formatDate(selectedApplication.toDate)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedApplication && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                {getStatusBadge(selectedApplication.status)}
+                <span className="text-sm font-medium">
+                  {selectedApplication.totalDays ??
+                    selectedLeaveDays?.totalDays}{" "}
+                  day(s)
+                </span>
+              </div>
+
+              {selectedPolicy && <LeavePolicyIssues evaluation={selectedPolicy} />}
+
+              {/* Day Breakdown */}
+              {selectedLeaveDays && (
+                <div className="space-y-2">
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <Calendar className="h-4 w-4 mr-2" />
+                    Day Breakdown
+                  </div>
+                  <LeaveDayBreakdown calculation={selectedLeaveDays} />
+                </div>
+              )}
+
+              {selectedApplication.reason && (
+                <p className="text-sm bg-muted p-3 rounded-md">
+                  {selectedApplication.reason}
+                </p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Approval confirmation */}
+      <AlertDialog
+        open={pendingApproval !== null}
+        onOpenChange={(open) => !open && setPendingApproval(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Approve Leave Request</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingApproval &&
+                `${pendingApproval.application.firstName} ${pendingApproval.application.lastName} · ${formatDate(pendingApproval.application.fromDate)} to ${formatDate(pendingApproval.application.toDate)}`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {approvalPolicy && <LeavePolicyIssues evaluation={approvalPolicy} />}
+          {pendingApproval?.impact && (
+            <CoverageImpactAlert
+              impact={pendingApproval.impact}
+              threshold={coverageSettings.threshold}
+            />
+          )}
+          {approvalLeaveDays && (
+            <LeaveDayBreakdown calculation={approvalLeaveDays} />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmApproval}
+              className="bg-green-600 hover:bg-green-700"
+            >
+              {pendingApproval?.impact && pendingApproval.impact.lowDays.length > 0
+                ? "Approve Anyway"
+                : "Approve"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
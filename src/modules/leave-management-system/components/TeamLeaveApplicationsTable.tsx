@@ -24,7 +24,15 @@ import {
 } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { LeaveApplication } from '../types/leave.types';
+import { AbsenceApplication } from '../types/leave.types';
+import { LMSConfiguration } from '../types/leaveConfiguration.types';
+import { useLeaveDayCalculator } from '../hooks/useLeaveDayCalculator';
+import { useApprovalCoverage } from '../hooks/useApprovalCoverage';
+import { LeaveDayBreakdown } from './LeaveDayBreakdown';
+import { LeavePolicyBadge, LeavePolicyIssues } from './LeavePolicyIssues';
+import { CoverageImpactAlert } from './CoverageImpactAlert';
+import { ApprovalSlaBadge } from './ApprovalSlaBadge';
+import { evaluateApplicationPolicy } from '../utils/leavePolicyValidator';
 import { format } from 'date-fns';
 import { 
   Eye, 
@@ -39,17 +47,21 @@ import {
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 
 interface TeamLeaveApplicationsTableProps {
-  applications: LeaveApplication[];
+  applications: AbsenceApplication[];
+  configurations?: Record<string, LMSConfiguration>; // Key: absence type code
   onApprove: (id: string, comments?: string) => void;
   onReject: (id: string, reason: string) => void;
 }
 
 export function TeamLeaveApplicationsTable({ 
   applications, 
+  configurations = {},
   onApprove,
   onReject 
 }: TeamLeaveApplicationsTableProps) {
-  const [selectedApplication, setSelectedApplication] = useState<LeaveApplication | null>(null);
+  const { calculate } = useLeaveDayCalculator('team');
+  const { settings: coverageSettings, evaluate: evaluateCoverage } = useApprovalCoverage();
+  const [selectedApplication, setSelectedApplication] = useState<AbsenceApplication | null>(null);
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [actionType, setActionType] = useState<'approve' | 'reject' | null>(null);
   const [actionComments, setActionComments] = useState('');
@@ -61,31 +73,32 @@ export function TeamLeaveApplicationsTable({
       rejected: { variant: 'destructive' as const, className: '', icon: XCircle },
     };
 
-    const config = variants[status as keyof typeof variants] || variants.pending;
+    const normalizedStatus = status.toLowerCase();
+    const config = variants[normalizedStatus as keyof typeof variants] || variants.pending;
     const Icon = config.icon;
 
     return (
       <Badge variant={config.variant} className={config.className}>
         <Icon className="h-3 w-3 mr-1" />
-        {status.charAt(0).toUpperCase() + status.slice(1)}
+        {normalizedStatus.charAt(0).toUpperCase() + normalizedStatus.slice(1)}
       </Badge>
     );
   };
 
-  const handleViewDetails = (application: LeaveApplication) => {
+  const handleViewDetails = (application: AbsenceApplication) => {
     setSelectedApplication(application);
     setDetailsOpen(true);
     setActionType(null);
     setActionComments('');
   };
 
-  const handleApproveClick = (application: LeaveApplication) => {
+  const handleApproveClick = (application: AbsenceApplication) => {
     setSelectedApplication(application);
     setActionType('approve');
     setActionComments('');
   };
 
-  const handleRejectClick = (application: LeaveApplication) => {
+  const handleRejectClick = (application: AbsenceApplication) => {
     setSelectedApplication(application);
     setActionType('reject');
     setActionComments('');
@@ -112,6 +125,47 @@ export function TeamLeaveApplicationsTable({
     return format(new Date(dateString), 'MMM dd, yyyy');
   };
 
+  const getEmployeeName = (application: AbsenceApplication) =>
+    `${application.firstName} ${application.lastName}`.trim();
+
+  const isPending = (application: AbsenceApplication) =>
+    application.status.toLowerCase() === 'pending';
+
+  // Recompute the per-day breakdown; the balance portion is taken from the stored LOP split
+  const getLeaveDays = (application: AbsenceApplication) => {
+    const config = configurations[application.absenceType];
+    const hasLopSplit = application.totalDays != null && application.lopDays != null;
+    return calculate({
+      fromDate: application.fromDate,
+      toDate: application.toDate,
+      absenceCategory: application.absenceCategory,
+      includeHolidaysWeekends: config?.restrictions?.includeHolidaysWeekends,
+      numberOfDaysPerOneLeave: config?.lmsProperties?.numberOfDaysPerOneLeave,
+      availableBalance: hasLopSplit ? application.totalDays! - application.lopDays! : undefined,
+    });
+  };
+
+  const getTotalDays = (application: AbsenceApplication) =>
+    application.totalDays ?? getLeaveDays(application).totalDays;
+
+  const getPolicyEvaluation = (application: AbsenceApplication) => {
+    const config = configurations[application.absenceType];
+    return config ? evaluateApplicationPolicy(application, config, applications) : null;
+  };
+
+  const renderPolicyBadge = (application: AbsenceApplication) => {
+    const policy = getPolicyEvaluation(application);
+    return policy ? <LeavePolicyBadge evaluation={policy} /> : '-';
+  };
+
+  const selectedLeaveDays = selectedApplication ? getLeaveDays(selectedApplication) : null;
+  const selectedPolicy = selectedApplication ? getPolicyEvaluation(selectedApplication) : null;
+  // Team availability on the requested days if this application is approved
+  const selectedCoverage =
+    selectedApplication && actionType === 'approve'
+      ? evaluateCoverage(selectedApplication, applications)
+      : null;
+
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -132,6 +186,8 @@ export function TeamLeaveApplicationsTable({
               <TableHead>Duration</TableHead>
               <TableHead>Days</TableHead>
               <TableHead>Applied On</TableHead>
+              <TableHead>Policy</TableHead>
+              <TableHead>Approval SLA</TableHead>
               <TableHead>Status</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -139,7 +195,7 @@ export function TeamLeaveApplicationsTable({
           <TableBody>
             {applications.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
                   No leave applications found
                 </TableCell>
               </TableRow>
@@ -150,37 +206,46 @@ export function TeamLeaveApplicationsTable({
                     <div className="flex items-center gap-3">
                       <Avatar className="h-8 w-8">
                         <AvatarFallback className="text-xs">
-                          {getInitials(application.employeeName)}
+                          {getInitials(getEmployeeName(application))}
                         </AvatarFallback>
                       </Avatar>
                       <div>
-                        <div className="font-medium">{application.employeeName}</div>
+                        <div className="font-medium">{getEmployeeName(application)}</div>
                         <div className="text-xs text-muted-foreground">{application.id}</div>
                       </div>
                     </div>
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center">
-                      <span className="font-medium">{application.leaveTypeName}</span>
+                      <span className="font-medium">
+                        {configurations[application.absenceType]?.name || application.absenceType}
+                      </span>
                       <Badge variant="outline" className="ml-2">
-                        {application.leaveTypeCode}
+                        {application.absenceType}
                       </Badge>
                     </div>
                   </TableCell>
                   <TableCell>
                     <div className="text-sm">
-                      <div>{formatDate(application.startDate)}</div>
-                      <div className="text-muted-foreground">to {formatDate(application.endDate)}</div>
+                      <div>{formatDate(application.fromDate)}</div>
+                      <div className="text-muted-foreground">to {formatDate(application.toDate)}</div>
                     </div>
                   </TableCell>
                   <TableCell>
-                    <span className="font-semibold">{application.numberOfDays}</span> day{application.numberOfDays !== 1 ? 's' : ''}
+                    <span className="font-semibold">{getTotalDays(application)}</span> day{getTotalDays(application) !== 1 ? 's' : ''}
                   </TableCell>
                   <TableCell>
                     <div className="text-sm">
-                      {format(new Date(application.appliedOn), 'MMM dd, yyyy')}
+                      {format(new Date(application.createdAt), 'MMM dd, yyyy')}
                     </div>
                   </TableCell>
+                  <TableCell>{renderPolicyBadge(application)}</TableCell>
+                  <TableCell>
+                    <ApprovalSlaBadge
+                      application={application}
+                      configuration={configurations[application.absenceType]}
+                    />
+                  </TableCell>
                   <TableCell>{getStatusBadge(application.status)}</TableCell>
                   <TableCell>
                     <div className="flex items-center justify-end gap-2">
@@ -191,7 +256,7 @@ export function TeamLeaveApplicationsTable({
                       >
                         <Eye className="h-4 w-4" />
                       </Button>
-                      {application.status === 'pending' && (
+                      {isPending(application) && (
                         <>
                           <Button 
                             variant="ghost" 
@@ -237,11 +302,11 @@ export function TeamLeaveApplicationsTable({
                 <div className="flex items-center gap-3">
                   <Avatar className="h-10 w-10">
                     <AvatarFallback>
-                      {getInitials(selectedApplication.employeeName)}
+                      {getInitials(getEmployeeName(selectedApplication))}
                     </AvatarFallback>
                   </Avatar>
                   <div>
-                    <h3 className="font-semibold">{selectedApplication.employeeName}</h3>
+                    <h3 className="font-semibold">{getEmployeeName(selectedApplication)}</h3>
                     <p className="text-sm text-muted-foreground">{selectedApplication.id}</p>
                   </div>
                 </div>
@@ -256,7 +321,7 @@ export function TeamLeaveApplicationsTable({
                     Leave Type
                   </div>
                   <p className="font-medium">
-                    {selectedApplication.leaveTypeName} ({selectedApplication.leaveTypeCode})
+                    {configurations[selectedApplication.absenceType]?.name || selectedApplication.absenceType} ({selectedApplication.absenceType})
                   </p>
                 </div>
 
@@ -265,7 +330,7 @@ export function TeamLeaveApplicationsTable({
                     <FileText className="h-4 w-4 mr-2" />
                     Duration
                   </div>
-                  <p className="font-medium">{selectedApplication.numberOfDays} day{selectedApplication.numberOfDays !== 1 ? 's' : ''}</p>
+                  <p className="font-medium">{getTotalDays(selectedApplication)} day{getTotalDays(selectedApplication) !== 1 ? 's' : ''}</p>
                 </div>
 
                 <div className="space-y-2">
@@ -273,7 +338,7 @@ export function TeamLeaveApplicationsTable({
                     <Calendar className="h-4 w-4 mr-2" />
                     Start Date
                   </div>
-                  <p className="font-medium">{formatDate(selectedApplication.startDate)}</p>
+                  <p className="font-medium">{formatDate(selectedApplication.fromDate)}</p>
                 </div>
 
                 <div className="space-y-2">
@@ -281,7 +346,7 @@ export function TeamLeaveApplicationsTable({
                     <Calendar className="h-4 w-4 mr-2" />
                     End Date
                   </div>
-                  <p className="font-medium">{formatDate(selectedApplication.endDate)}</p>
+                  <p className="font-medium">{formatDate(selectedApplication.toDate)}</p>
                 </div>
 
                 <div className="space-y-2 col-span-2">
@@ -290,11 +355,24 @@ export function TeamLeaveApplicationsTable({
                     Applied On
                   </div>
                   <p className="font-medium">
-                    {format(new Date(selectedApplication.appliedOn), 'MMM dd, yyyy HH:mm')}
+                    {format(new Date(selectedApplication.createdAt), 'MMM dd, yyyy HH:mm')}
                   </p>
                 </div>
               </div>
 
+              {selectedPolicy && <LeavePolicyIssues evaluation={selectedPolicy} />}
+
+              {/* Day Breakdown */}
+              {selectedLeaveDays && (
+                <div className="space-y-2">
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <Calendar className="h-4 w-4 mr-2" />
+                    Day Breakdown
+                  </div>
+                  <LeaveDayBreakdown calculation={selectedLeaveDays} />
+                </div>
+              )}
+
               {/* Reason */}
               <div className="space-y-2">
                 <div className="flex items-center text-sm text-muted-foreground">
@@ -307,7 +385,7 @@ export function TeamLeaveApplicationsTable({
               </div>
 
               {/* Action Buttons for Pending Applications */}
-              {selectedApplication.status === 'pending' && (
+              {isPending(selectedApplication) && (
                 <div className="flex gap-3 pt-4 border-t">
                   <Button 
                     variant="outline" 
@@ -357,24 +435,34 @@ export function TeamLeaveApplicationsTable({
               <div className="bg-muted p-4 rounded-md space-y-2">
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Employee:</span>
-                  <span className="text-sm">{selectedApplication.employeeName}</span>
+                  <span className="text-sm">{getEmployeeName(selectedApplication)}</span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Leave Type:</span>
-                  <span className="text-sm">{selectedApplication.leaveTypeName}</span>
+                  <span className="text-sm">
+                    {configurations[selectedApplication.absenceType]?.name || selectedApplication.absenceType}
+                  </span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Duration:</span>
                   <span className="text-sm">
-                    {formatDate(selectedApplication.startDate)} - {formatDate(selectedApplication.endDate)}
+                    {formatDate(selectedApplication.fromDate)} - {formatDate(selectedApplication.toDate)}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium">Days:</span>
-                  <span className="text-sm font-bold">{selectedApplication.numberOfDays} day(s)</span>
+                  <span className="text-sm font-bold">{getTotalDays(selectedApplication)} day(s)</span>
                 </div>
               </div>
 
+              {selectedPolicy && <LeavePolicyIssues evaluation={selectedPolicy} />}
+
+              {selectedCoverage && (
+                <CoverageImpactAlert impact={selectedCoverage} threshold={coverageSettings.threshold} />
+              )}
+
+              {selectedLeaveDays && <LeaveDayBreakdown calculation={selectedLeaveDays} />}
+
               {/* Comments/Reason Input */}
               <div className="space-y-2">
                 <Label htmlFor="comments">
@@ -0,0 +1,368 @@
+/**
+ * Team Leave Calendar Component
+ * Month/week view of who on the team is out, colored by leave type,
+ * with a coverage heatmap of the share of the team available each day
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  addMonths,
+  addWeeks,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLeaveManagement } from "@/contexts/LeaveManagementContext";
+import { useShiftSettings } from "@/hooks/useAttendanceData";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { ChevronLeft, ChevronRight, Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import UniversalSearchRequest from "@/types/search";
+import { useCoverageSettings } from "../hooks/useCoverageSettings";
+import { useReporteeCount } from "../hooks/useReporteeCount";
+import { AbsenceApplication } from "../types/leave.types";
+import { LMSConfiguration } from "../types/leaveConfiguration.types";
+import { DEFAULT_WEEKENDS } from "../utils/leaveDayCalculator";
+import {
+  buildTeamAbsenceRangeRequest,
+  buildTeamCoverage,
+  resolveTeamSize,
+} from "../utils/teamCoverage";
+
+interface TeamLeaveCalendarProps {
+  refreshDependency?: number;
+}
+
+type CalendarView = "month" | "week";
+
+// Upper bound of team applications overlapping one month
+const MAX_CALENDAR_APPLICATIONS = 500;
+
+// Assigned to leave types in code order
+const LEAVE_TYPE_COLORS = [
+  "bg-blue-500",
+  "bg-emerald-500",
+  "bg-violet-500",
+  "bg-orange-500",
+  "bg-pink-500",
+  "bg-cyan-500",
+  "bg-lime-500",
+  "bg-rose-500",
+];
+
+const getCoverageClass = (percent: number, threshold: number) => {
+  if (percent < threshold) return "bg-red-100 text-red-700";
+  if (percent < threshold + (100 - threshold) / 2) return "bg-amber-50 text-amber-700";
+  return "bg-green-50 text-green-700";
+};
+
+export function TeamLeaveCalendar({ refreshDependency = 0 }: TeamLeaveCalendarProps) {
+  const { getTeamAbsenceApplications, searchLeaveConfigurations } = useLeaveManagement();
+  const { data: shiftSettings } = useShiftSettings();
+  const { settings, updateSettings } = useCoverageSettings();
+  const { user } = useAuth();
+  const { reporteeCount } = useReporteeCount(user?.email || "");
+
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchorDate, setAnchorDate] = useState(new Date());
+  const [applications, setApplications] = useState<AbsenceApplication[]>([]);
+  const [configurations, setConfigurations] = useState<Record<string, LMSConfiguration>>({});
+  const [isLoading, setIsLoading] = useState(false);
+
+  const weekends = shiftSettings?.weekends?.length ? shiftSettings.weekends : DEFAULT_WEEKENDS;
+  const rangeStart = view === "month" ? startOfMonth(anchorDate) : startOfWeek(anchorDate, { weekStartsOn: 1 });
+  const rangeEnd = view === "month" ? endOfMonth(anchorDate) : endOfWeek(anchorDate, { weekStartsOn: 1 });
+  const rangeKey = `${format(rangeStart, "yyyy-MM-dd")}:${format(rangeEnd, "yyyy-MM-dd")}`;
+
+  // Fetch applications overlapping the visible range
+  const fetchApplications = async () => {
+    setIsLoading(true);
+    try {
+      const result = await getTeamAbsenceApplications(
+        buildTeamAbsenceRangeRequest(rangeStart, rangeEnd),
+        0,
+        MAX_CALENDAR_APPLICATIONS
+      );
+      setApplications(result?.content || []);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchApplications();
+  }, [rangeKey, refreshDependency]);
+
+  // Fetch leave configurations on mount for leave type names
+  const fetchLeaveConfigurations = async () => {
+    const searchRequest: UniversalSearchRequest = {
+      searchText: undefined,
+      searchFields: [],
+    };
+
+    const result = await searchLeaveConfigurations(searchRequest, 0, 100);
+
+    if (result && result.content) {
+      const configMap: Record<string, LMSConfiguration> = {};
+      result.content.forEach((config) => {
+        configMap[config.code] = config;
+      });
+      setConfigurations(configMap);
+    }
+  };
+  useEffect(() => {
+    fetchLeaveConfigurations();
+  }, []);
+
+  // Null until the reportee count has loaded; no availability is shown before then
+  const teamSize = resolveTeamSize(settings.teamSize, reporteeCount);
+
+  // Approved leaves drive availability; pending ones are shown in the grid only
+  const coverage = useMemo(
+    () =>
+      teamSize === null
+        ? []
+        : buildTeamCoverage({ applications, from: rangeStart, to: rangeEnd, teamSize, weekends }),
+    [applications, rangeKey, teamSize, weekends]
+  );
+  const grid = useMemo(
+    () =>
+      buildTeamCoverage({
+        applications,
+        from: rangeStart,
+        to: rangeEnd,
+        teamSize: teamSize ?? 1, // The grid shows who is out, not availability
+        weekends,
+        includePending: true,
+      }),
+    [applications, rangeKey, teamSize, weekends]
+  );
+
+  const employees = useMemo(() => {
+    const byId = new Map<string, string>();
+    applications.forEach((application) =>
+      byId.set(application.employeeId, `${application.firstName || ""} ${application.lastName || ""}`.trim())
+    );
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [applications]);
+
+  const leaveTypeColors = useMemo(() => {
+    const codes = Array.from(new Set(applications.map((application) => application.absenceType))).sort();
+    return Object.fromEntries(
+      codes.map((code, idx) => [code, LEAVE_TYPE_COLORS[idx % LEAVE_TYPE_COLORS.length]])
+    ) as Record<string, string>;
+  }, [applications]);
+
+  const getLeaveTypeName = (code: string) => configurations[code]?.name || code;
+
+  const handleNavigate = (direction: -1 | 1) => {
+    setAnchorDate((date) => (view === "month" ? addMonths(date, direction) : addWeeks(date, direction)));
+  };
+
+  const title =
+    view === "month"
+      ? format(anchorDate, "MMMM yyyy")
+      : `${format(rangeStart, "MMM dd")} - ${format(rangeEnd, "MMM dd, yyyy")}`;
+
+  return (
+    <Card className="p-4 space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => handleNavigate(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchorDate(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => handleNavigate(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h3 className="text-lg font-semibold ml-2">{title}</h3>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="coverage-threshold" className="text-xs">Min. Coverage (%)</Label>
+            <Input
+              id="coverage-threshold"
+              type="number"
+              min="0"
+              max="100"
+              className="h-9 w-24"
+              value={settings.threshold}
+              onChange={(e) =>
+                updateSettings({ threshold: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="coverage-team-size" className="text-xs">Team Size</Label>
+            <Input
+              id="coverage-team-size"
+              type="number"
+              min="0"
+              className="h-9 w-24"
+              placeholder={teamSize?.toString() || ""}
+              value={settings.teamSize || ""}
+              onChange={(e) => updateSettings({ teamSize: Math.max(0, parseInt(e.target.value) || 0) })}
+            />
+          </div>
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <TooltipProvider>
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full border-collapse text-xs">
+              <thead>
+                <tr className="border-b bg-muted/50">
+                  <th className="sticky left-0 z-10 bg-muted/50 px-3 py-2 text-left font-medium min-w-40">
+                    Employee
+                  </th>
+                  {grid.map((day) => (
+                    <th
+                      key={day.date}
+                      className={cn(
+                        "px-1 py-2 text-center font-medium",
+                        view === "month" ? "min-w-8" : "min-w-24",
+                        day.isWeekend && "text-muted-foreground"
+                      )}
+                    >
+                      <div>{format(parseISO(day.date), view === "month" ? "EEEEE" : "EEE")}</div>
+                      <div>{format(parseISO(day.date), view === "month" ? "d" : "MMM d")}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {employees.length === 0 && (
+                  <tr>
+                    <td colSpan={grid.length + 1} className="px-3 py-8 text-center text-muted-foreground">
+                      No one on the team is out in this period
+                    </td>
+                  </tr>
+                )}
+                {employees.map((employee) => (
+                  <tr key={employee.id} className="border-b">
+                    <td className="sticky left-0 z-10 bg-background px-3 py-2 font-medium truncate">
+                      {employee.name}
+                    </td>
+                    {grid.map((day) => {
+                      const absence = day.absences.find((application) => application.employeeId === employee.id);
+                      return (
+                        <td key={day.date} className={cn("p-0.5", day.isWeekend && "bg-muted/40")}>
+                          {absence && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <div
+                                  className={cn(
+                                    "h-6 rounded-sm text-white flex items-center justify-center truncate px-1",
+                                    leaveTypeColors[absence.absenceType],
+                                    absence.status?.toLowerCase() === "pending" && "opacity-50 border border-dashed border-foreground",
+                                    absence.absenceCategory !== "fullDay" && "w-1/2"
+                                  )}
+                                >
+                                  {view === "week" && absence.absenceType}
+                                </div>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p className="font-medium">{employee.name}</p>
+                                <p>
+                                  {getLeaveTypeName(absence.absenceType)} ·{" "}
+                                  {absence.absenceCategory === "fullDay" ? "Full day" : "Half day"} ·{" "}
+                                  <span className="capitalize">{absence.status?.toLowerCase()}</span>
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+
+                {/* Coverage heatmap */}
+                {teamSize !== null && (
+                  <tr className="bg-muted/30">
+                    <td className="sticky left-0 z-10 bg-muted/30 px-3 py-2 font-medium">
+                      <div className="flex items-center gap-1">
+                        <Users className="h-3 w-3" />
+                        Available
+                      </div>
+                    </td>
+                    {coverage.map((day) => (
+                      <td key={day.date} className="p-0.5">
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <div
+                              className={cn(
+                                "h-6 rounded-sm flex items-center justify-center font-medium",
+                                day.isWeekend
+                                  ? "text-muted-foreground"
+                                  : getCoverageClass(day.availablePercent, settings.threshold)
+                              )}
+                            >
+                              {day.isWeekend ? "-" : view === "month" ? day.availablePercent : `${day.availablePercent}%`}
+                            </div>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p className="font-medium">{format(parseISO(day.date), "EEE, MMM dd")}</p>
+                            <p>
+                              {day.availablePercent}% available · {day.absentUnits} of {teamSize} out
+                            </p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </td>
+                    ))}
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </TooltipProvider>
+      )}
+
+      {/* Legend */}
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {Object.entries(leaveTypeColors).map(([code, color]) => (
+          <div key={code} className="flex items-center gap-1">
+            <span className={cn("h-3 w-3 rounded-sm", color)} />
+            {getLeaveTypeName(code)}
+          </div>
+        ))}
+        <div className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm border border-dashed border-foreground opacity-50" />
+          Pending
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="h-3 w-3 rounded-sm bg-red-100" />
+          Below {settings.threshold}% available
+        </div>
+      </div>
+    </Card>
+  );
+}
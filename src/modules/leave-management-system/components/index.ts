@@ -12,3 +12,13 @@ export { LeaveHistoryTable } from './LeaveHistoryTable';
 export { MyLeaveCredits } from './MyLeaveCredits';
 export { TeamLeaveCredits } from './TeamLeaveCredits';
 export { AddRequestModal } from './AddRequestModal';
+export { MyHolidays } from './MyHolidays';
+export { LeaveDayBreakdown } from './LeaveDayBreakdown';
+export { LeavePolicyIssues, LeavePolicyBadge } from './LeavePolicyIssues';
+export { AccrualSimulationPanel } from './AccrualSimulationPanel';
+export { TeamLeaveCalendar } from './TeamLeaveCalendar';
+export { CoverageImpactAlert } from './CoverageImpactAlert';
+export { EncashmentLedger } from './EncashmentLedger';
+export { TeamEncashmentRequests } from './TeamEncashmentRequests';
+export { LeaveBalanceLedger } from './LeaveBalanceLedger';
+export { ApprovalSlaBadge } from './ApprovalSlaBadge';
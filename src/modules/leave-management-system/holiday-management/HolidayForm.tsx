@@ -20,11 +20,21 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { FormActionBar } from "@/components/common/FormActionBar";
 import { ArrowLeft } from "lucide-react";
 import { useHoliday } from "@/contexts/HolidayContext";
 import { useCompany } from "@/contexts/CompanyContext";
-import { Holiday, HolidayCarrier } from "./types";
+import { useUserManagement } from "@/contexts/UserManagementContext";
+import { WorkLocation } from "@/modules/user-management/types/settings.types";
+import { Holiday, HolidayCarrier, HolidayTypes } from "./types";
+import { holidayTypeLabels } from "./constants";
 
 const holidayFormSchema = z.object({
   name: z.string().min(2, "Holiday name must be at least 2 characters"),
@@ -34,7 +44,11 @@ const holidayFormSchema = z.object({
     .url("Please enter a valid URL")
     .optional()
     .or(z.literal("")),
+  date: z.string().min(1, "Holiday date is required"),
+  type: z.enum(["public", "optional", "restricted"]),
+  recurrence: z.enum(["fixed", "yearly"]),
   companyIds: z.array(z.string()).optional(),
+  workLocationIds: z.array(z.string()).optional(),
 });
 
 type HolidayFormDataType = z.infer<typeof holidayFormSchema>;
@@ -46,6 +60,8 @@ export function HolidayForm() {
   const holidayId = searchParams.get("id");
 
   const { companies } = useCompany();
+  const { refreshWorkLocations } = useUserManagement();
+  const [workLocations, setWorkLocations] = useState<WorkLocation[]>([]);
   const { createHoliday, updateHoliday, getHolidayById } = useHoliday();
   const [holiday, setHoliday] = useState<Holiday | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -57,7 +73,11 @@ export function HolidayForm() {
       name: "",
       description: "",
       imageUrl: "",
+      date: "",
+      type: "public",
+      recurrence: "fixed",
       companyIds: [],
+      workLocationIds: [],
     },
   });
 
@@ -71,7 +91,11 @@ export function HolidayForm() {
           name: foundHoliday.name,
           description: foundHoliday.description || "",
           imageUrl: foundHoliday.imageUrl || "",
+          date: foundHoliday.date || "",
+          type: foundHoliday.type || "public",
+          recurrence: foundHoliday.recurrence || "fixed",
           companyIds: foundHoliday.companyIds || [],
+          workLocationIds: foundHoliday.workLocationIds || [],
         });
       }
       setLoadingHoliday(false);
@@ -81,6 +105,17 @@ export function HolidayForm() {
     loadHoliday();
   }, [mode, holidayId, form]);
 
+  // Load work locations for location scoping
+  const loadWorkLocations = async () => {
+    const result = await refreshWorkLocations({}, 0, 100);
+    if (result?.content) {
+      setWorkLocations(result.content);
+    }
+  };
+  useEffect(() => {
+    loadWorkLocations();
+  }, []);
+
   const handleSubmit = async (data: HolidayFormDataType) => {
     setIsSubmitting(true);
 
@@ -91,7 +126,11 @@ export function HolidayForm() {
           name: data.name,
           description: data.description,
           imageUrl: data.imageUrl,
+          date: data.date,
+          type: data.type,
+          recurrence: data.recurrence,
           companyIds: data.companyIds || [],
+          workLocationIds: data.workLocationIds || [],
           createdAt: new Date().toISOString(),
         };
 
@@ -106,7 +145,11 @@ export function HolidayForm() {
           name: data.name,
           description: data.description,
           imageUrl: data.imageUrl,
+          date: data.date,
+          type: data.type,
+          recurrence: data.recurrence,
           companyIds: data.companyIds || [],
+          workLocationIds: data.workLocationIds || [],
         };
 
         const updated = await updateHoliday(holidayId!, updates);
@@ -186,6 +229,75 @@ export function HolidayForm() {
                   )}
                 />
 
+                {/* Date, Type & Recurrence */}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <FormField
+                    control={form.control}
+                    name="date"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Date *</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Type *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {HolidayTypes.map((type) => (
+                              <SelectItem key={type} value={type}>
+                                {holidayTypeLabels[type]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="recurrence"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeats *</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select recurrence" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="fixed">Only on this date</SelectItem>
+                            <SelectItem value="yearly">Every year</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {form.watch("type") === "optional" && (
+                  <p className="text-xs text-muted-foreground -mt-2 mb-4">
+                    Optional holidays are picked by employees within their company's yearly quota
+                  </p>
+                )}
+
                 {/* Description */}
                 <FormField
                   control={form.control}
@@ -285,6 +397,63 @@ export function HolidayForm() {
                     </FormItem>
                   )}
                 />
+
+                {/* Work Locations */}
+                <FormField
+                  control={form.control}
+                  name="workLocationIds"
+                  render={({ field }) => (
+                    <FormItem className="mt-4">
+                      <FormLabel>Work Locations</FormLabel>
+                      <FormControl>
+                        <div className="space-y-2">
+                          {workLocations.length > 0 ? (
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-60 overflow-y-auto p-2 border rounded-md">
+                              {workLocations.map((workLocation) => (
+                                <label
+                                  key={workLocation.id}
+                                  className="flex items-center gap-2 cursor-pointer hover:bg-accent p-2 rounded"
+                                >
+                                  <input
+                                    type="checkbox"
+                                    checked={(field.value || []).includes(workLocation.id)}
+                                    onChange={(e) => {
+                                      const currentValues = field.value || [];
+                                      if (e.target.checked) {
+                                        field.onChange([
+                                          ...currentValues,
+                                          workLocation.id,
+                                        ]);
+                                      } else {
+                                        field.onChange(
+                                          currentValues.filter(
+                                            (id) => id !== workLocation.id,
+                                          ),
+                                        );
+                                      }
+                                    }}
+                                    className="w-4 h-4"
+                                  />
+                                  <span className="text-sm">
+                                    {workLocation.location}
+                                  </span>
+                                </label>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-muted-foreground">
+                              No work locations available
+                            </p>
+                          )}
+                        </div>
+                      </FormControl>
+                      <FormDescription>
+                        Leave empty to apply the holiday to all locations of the selected companies
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </Card>
 
               {/* Form Action Bar */}
@@ -1,6 +1,7 @@
 /**
  * Holiday Management Main Page
  * Displays list of holidays with filtering, search, and pagination
+ * Supports a year-calendar view and iCalendar (.ics) import/export
  */
 
 import { useState, useEffect, useRef, ReactNode } from 'react';
@@ -9,9 +10,15 @@ import { PageLayout } from '@/components/PageLayout';
 import { GenericToolbar } from '@/components/GenericToolbar/GenericToolbar';
 import { ConfirmationDialog } from '@/components/common/ConfirmationDialog';
 import { HolidayCards } from './components/HolidayCards';
-import { Holiday } from './types';
-import { Calendar, Plus } from 'lucide-react';
+import { HolidayYearCalendar } from './components/HolidayYearCalendar';
+import { HolidayImportDialog } from './components/HolidayImportDialog';
+import { OptionalHolidayQuotaDialog } from './components/OptionalHolidayQuotaDialog';
+import { Holiday, HolidayCarrier } from './types';
+import { buildHolidayCalendar } from './utils/icalendar';
+import { Calendar, CalendarDays, LayoutGrid, ListChecks, Plus, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { downloadTextFile } from '@/lib/download';
 import { useHoliday } from '@/contexts/HolidayContext';
 import { useCompany } from '@/contexts/CompanyContext';
 import { ActiveFilter, FilterOption } from '@/components/GenericToolbar/types';
@@ -19,7 +26,7 @@ import { buildUniversalSearchRequest } from '@/components/GenericToolbar/searchB
 
 export function HolidayManagement() {
   const navigate = useNavigate();
-  const { refreshHolidays, deleteHolidayById, isLoading } = useHoliday();
+  const { refreshHolidays, deleteHolidayById, bulkCreateHolidays, isLoading } = useHoliday();
 
   // State
   const [holidays, setHolidays] = useState<Holiday[]>([]);
@@ -36,6 +43,15 @@ export function HolidayManagement() {
   const [pageIndex, setPageIndex] = useState(0);
   const [pageSize, setPageSize] = useState(12);
 
+  // View state - cards list or year calendar
+  const [view, setView] = useState<'cards' | 'calendar'>('cards');
+  const [calendarYear, setCalendarYear] = useState(new Date().getFullYear());
+  const [calendarHolidays, setCalendarHolidays] = useState<Holiday[]>([]);
+
+  // Dialog state
+  const [importOpen, setImportOpen] = useState(false);
+  const [quotaOpen, setQuotaOpen] = useState(false);
+
   // Ref to track previous dependency values to detect actual changes
   const prevDepsRef = useRef<{
     activeFilters: ActiveFilter[];
@@ -43,16 +59,31 @@ export function HolidayManagement() {
     pageIndex: number;
     pageSize: number;
     refreshTrigger: number;
+    view: 'cards' | 'calendar';
   } | null>(null);
 
+  // Upper bound used when every matching holiday is needed (calendar view, export)
+  const ALL_HOLIDAYS_PAGE_SIZE = 1000;
+
+  const buildSearchRequest = () =>
+    buildUniversalSearchRequest(
+      activeFilters,
+      searchQuery,
+      ['name', 'description'],
+    );
+
   const loadHolidays = async () => {
     try {
       // Build universal search request from filters and search query
-      const searchRequest = buildUniversalSearchRequest(
-        activeFilters,
-        searchQuery,
-        ['name', 'description'],
-      );
+      const searchRequest = buildSearchRequest();
+
+      if (view === 'calendar') {
+        const result = await refreshHolidays(searchRequest, 0, ALL_HOLIDAYS_PAGE_SIZE);
+        if (result) {
+          setCalendarHolidays(result.content || []);
+        }
+        return;
+      }
 
       const result = await refreshHolidays(searchRequest, pageIndex, pageSize);
       if (result) {
@@ -74,7 +105,8 @@ export function HolidayManagement() {
       prevDepsRef.current.searchQuery !== searchQuery ||
       prevDepsRef.current.pageIndex !== pageIndex ||
       prevDepsRef.current.pageSize !== pageSize ||
-      prevDepsRef.current.refreshTrigger !== refreshTrigger;
+      prevDepsRef.current.refreshTrigger !== refreshTrigger ||
+      prevDepsRef.current.view !== view;
 
     if (!depsChanged) return;
 
@@ -85,6 +117,7 @@ export function HolidayManagement() {
       pageIndex,
       pageSize,
       refreshTrigger,
+      view,
     };
 
     loadHolidays();
@@ -94,6 +127,7 @@ export function HolidayManagement() {
     pageIndex,
     pageSize,
     refreshTrigger,
+    view,
   ]);
 
   // Confirmation dialog state
@@ -233,37 +267,25 @@ export function HolidayManagement() {
     });
   };
 
-  // Export handler for holidays
-  const handleExport = async (sendEmail: boolean, email?: string) => {
-    try {
-      // TODO: Replace with actual API call to export holidays
-      // const response = await apiExportHolidays({
-      //   filters: activeFilters,
-      //   searchQuery: searchQuery,
-      //   sendEmail,
-      //   email,
-      // });
-
-      // Placeholder: Show alert with current filters and search
-      console.log('Export triggered with:', {
-        activeFilters,
-        searchQuery,
-        sendEmail,
-        email,
-        holidays: holidays.map(h => ({
-          id: h.id,
-          name: h.name,
-          description: h.description,
-          companyIds: h.companyIds,
-        })),
-      });
-
-      // Placeholder for successful export
-      alert('Export functionality coming soon! Check console for data.');
-    } catch (error) {
-      console.error('Export error:', error);
-      alert('Failed to export holidays');
-    }
+  // Export handler for holidays - downloads an iCalendar (.ics) file
+  // "Export results" applies current filters; "Export all" ignores them
+  const exportHolidays = async (applyFilters: boolean) => {
+    const searchRequest = applyFilters ? buildSearchRequest() : {};
+    const result = await refreshHolidays(searchRequest, 0, ALL_HOLIDAYS_PAGE_SIZE);
+    if (!result) return;
+
+    const content = buildHolidayCalendar(result.content || [], 'Company Holidays');
+    downloadTextFile(content, `holidays-${new Date().toISOString().slice(0, 10)}.ics`, 'text/calendar');
+  };
+
+  // Import handler - creates holidays parsed from an .ics file
+  const handleImport = async (carriers: HolidayCarrier[]): Promise<boolean> => {
+    const created = await bulkCreateHolidays(carriers);
+    if (!created) return false;
+
+    setPageIndex(0);
+    setRefreshTrigger(prev => prev + 1);
+    return true;
   };
 
   // Filter configuration for GenericToolbar
@@ -280,6 +302,25 @@ export function HolidayManagement() {
       type: 'text' as const,
       placeholder: 'Search by description...',
     },
+    {
+      id: 'type',
+      label: 'Type',
+      type: 'select' as const,
+      options: [
+        { value: 'public', label: 'Public' },
+        { value: 'optional', label: 'Optional' },
+        { value: 'restricted', label: 'Restricted' },
+      ],
+    },
+    {
+      id: 'recurrence',
+      label: 'Repeats',
+      type: 'select' as const,
+      options: [
+        { value: 'fixed', label: 'Only on date' },
+        { value: 'yearly', label: 'Every year' },
+      ],
+    },
     {
       id: 'companyIds',
       label: 'Company',
@@ -309,13 +350,37 @@ export function HolidayManagement() {
               </p>
             </div>
             {isAdmin && (
-              <Button onClick={handleAddHoliday} className="gap-2">
-                <Plus className="h-4 w-4" />
-                Add Holiday
-              </Button>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" onClick={() => setQuotaOpen(true)} className="gap-2">
+                  <ListChecks className="h-4 w-4" />
+                  Optional Quota
+                </Button>
+                <Button variant="outline" onClick={() => setImportOpen(true)} className="gap-2">
+                  <Upload className="h-4 w-4" />
+                  Import .ics
+                </Button>
+                <Button onClick={handleAddHoliday} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Holiday
+                </Button>
+              </div>
             )}
           </div>
 
+          {/* View Switch */}
+          <Tabs value={view} onValueChange={(value) => setView(value as 'cards' | 'calendar')}>
+            <TabsList>
+              <TabsTrigger value="cards" className="gap-2">
+                <LayoutGrid className="h-4 w-4" />
+                Cards
+              </TabsTrigger>
+              <TabsTrigger value="calendar" className="gap-2">
+                <CalendarDays className="h-4 w-4" />
+                Year Calendar
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
           {/* Toolbar */}
           <GenericToolbar
             showSearch
@@ -327,8 +392,8 @@ export function HolidayManagement() {
             activeFilters={activeFilters}
             onFiltersChange={setActiveFilters}
             showExport={true}
-            onExportAll={handleExport}
-            onExportResults={handleExport}
+            onExportAll={() => exportHolidays(false)}
+            onExportResults={() => exportHolidays(true)}
             showConfigureView={false}
             showBulkActions={true}
             selectedCount={selectedIds.length}
@@ -351,46 +416,76 @@ export function HolidayManagement() {
             }}
           />
 
+          {/* Year Calendar View */}
+          {view === 'calendar' && (
+            <HolidayYearCalendar
+              holidays={calendarHolidays}
+              year={calendarYear}
+              onYearChange={setCalendarYear}
+              loading={isLoading}
+              onHolidayClick={isAdmin ? handleEdit : undefined}
+            />
+          )}
+
           {/* Holiday Cards using HolidayCards wrapper */}
-          <HolidayCards
-            holidays={holidays}
-            loading={isLoading}
-            pagination={{
-              pageIndex,
-              pageSize,
-              totalPages,
-              canNextPage,
-              totalItems,
-              pageSizeOptions: [12, 24, 36, 48],
-              onPageChange: setPageIndex,
-              onPageSizeChange: (size) => {
-                setPageSize(size);
-                setPageIndex(0);
-              },
-            }}
-            onEdit={isAdmin ? handleEdit : undefined}
-            onDelete={isAdmin ? handleDelete : undefined}
-            isAdmin={isAdmin}
-            searchQuery={searchQuery}
-            activeFiltersCount={activeFilters.length}
-            emptyStateTitle="No holidays found"
-            emptyStateDescription={
-              isAdmin
-                ? 'Get started by adding your first holiday'
-                : 'No holidays are currently available'
-            }
-            selection={{
-              enabled: selectionMode,
-              selectedIds,
-              onSelectionChange: setSelectedIds,
-            }}
-          />
+          {view === 'cards' && (
+            <HolidayCards
+              holidays={holidays}
+              loading={isLoading}
+              pagination={{
+                pageIndex,
+                pageSize,
+                totalPages,
+                canNextPage,
+                totalItems,
+                pageSizeOptions: [12, 24, 36, 48],
+                onPageChange: setPageIndex,
+                onPageSizeChange: (size) => {
+                  setPageSize(size);
+                  setPageIndex(0);
+                },
+              }}
+              onEdit={isAdmin ? handleEdit : undefined}
+              onDelete={isAdmin ? handleDelete : undefined}
+              isAdmin={isAdmin}
+              searchQuery={searchQuery}
+              activeFiltersCount={activeFilters.length}
+              emptyStateTitle="No holidays found"
+              emptyStateDescription={
+                isAdmin
+                  ? 'Get started by adding your first holiday'
+                  : 'No holidays are currently available'
+              }
+              selection={{
+                enabled: selectionMode,
+                selectedIds,
+                onSelectionChange: setSelectedIds,
+              }}
+            />
+          )}
         </div>
 
         {/* Add padding at bottom to prevent content from being hidden behind fixed pagination */}
         <div className="h-20" />
       </PageLayout>
 
+      {/* Import Dialog */}
+      <HolidayImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        companies={companies}
+        onImport={handleImport}
+        isSubmitting={isLoading}
+      />
+
+      {/* Optional Holiday Quota Dialog */}
+      <OptionalHolidayQuotaDialog
+        open={quotaOpen}
+        onOpenChange={setQuotaOpen}
+        companies={companies}
+        year={calendarYear}
+      />
+
       {/* Confirmation Dialog */}
       <ConfirmationDialog
         open={confirmDialog.open}
@@ -1,11 +1,16 @@
 /**
  * Holiday Card Content Component
- * Displays holiday content only (image, name, description)
+ * Displays holiday content only (image, name, date, type, description)
  * Actions are handled by parent DataCards component
  */
 
 import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarDays, Repeat } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
 import { Holiday } from '../types';
+import { holidayTypeStyles } from '../constants';
 
 interface HolidayCardProps {
   holiday: Holiday;
@@ -35,6 +40,27 @@ export const HolidayCard: React.FC<HolidayCardProps> = ({ holiday }) => {
       {/* Holiday Name */}
       <h3 className="font-semibold text-base line-clamp-2">{holiday.name}</h3>
 
+      {/* Date & Type */}
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        {holiday.date && (
+          <span className="flex items-center gap-1">
+            <CalendarDays className="h-3 w-3" />
+            {format(parseISO(holiday.date), holiday.recurrence === 'yearly' ? 'MMM dd' : 'MMM dd, yyyy')}
+          </span>
+        )}
+        {holiday.recurrence === 'yearly' && (
+          <span className="flex items-center gap-1">
+            <Repeat className="h-3 w-3" />
+            Every year
+          </span>
+        )}
+        {holiday.type && (
+          <Badge variant="outline" className={cn('capitalize', holidayTypeStyles[holiday.type])}>
+            {holiday.type}
+          </Badge>
+        )}
+      </div>
+
       {/* Description */}
       {holiday.description && (
         <p className="text-sm text-muted-foreground line-clamp-3 flex-grow">
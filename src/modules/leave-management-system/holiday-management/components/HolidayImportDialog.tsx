@@ -0,0 +1,225 @@
+/**
+ * Holiday Import Dialog
+ * Imports holidays from an iCalendar (.ics) file
+ * Parsed events are previewed and assigned to companies before import
+ */
+
+import React, { useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertCircle, FileUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CompanyModel } from '@/types/company';
+import { HolidayCarrier } from '../types';
+import { holidayTypeStyles } from '../constants';
+import { parseHolidayCalendar, ParsedCalendarHoliday } from '../utils/icalendar';
+
+interface HolidayImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companies: CompanyModel[];
+  onImport: (carriers: HolidayCarrier[]) => Promise<boolean>;
+  isSubmitting?: boolean;
+}
+
+export const HolidayImportDialog: React.FC<HolidayImportDialogProps> = ({
+  open,
+  onOpenChange,
+  companies,
+  onImport,
+  isSubmitting = false,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedCalendarHoliday[]>([]);
+  const [excluded, setExcluded] = useState<number[]>([]);
+  const [companyIds, setCompanyIds] = useState<string[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const activeCompanies = companies.filter((c) => c.isActive !== false);
+  const selectedHolidays = parsed.filter((_, idx) => !excluded.includes(idx));
+
+  const reset = () => {
+    setFileName(null);
+    setParsed([]);
+    setExcluded([]);
+    setCompanyIds([]);
+    setFileError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileSelect = async (file: File) => {
+    setFileError(null);
+    if (!file.name.toLowerCase().endsWith('.ics')) {
+      setFileError('Only iCalendar (.ics) files are supported.');
+      return;
+    }
+
+    const holidays = parseHolidayCalendar(await file.text());
+    if (holidays.length === 0) {
+      setFileError('No dated events were found in this file.');
+      return;
+    }
+
+    setFileName(file.name);
+    setParsed(holidays);
+    setExcluded([]);
+  };
+
+  const toggleHoliday = (idx: number) => {
+    setExcluded((prev) => (prev.includes(idx) ? prev.filter((i) => i !== idx) : [...prev, idx]));
+  };
+
+  const toggleCompany = (companyId: string) => {
+    setCompanyIds((prev) =>
+      prev.includes(companyId) ? prev.filter((id) => id !== companyId) : [...prev, companyId]
+    );
+  };
+
+  const handleImport = async () => {
+    const createdAt = new Date().toISOString();
+    const carriers: HolidayCarrier[] = selectedHolidays.map((holiday) => ({
+      ...holiday,
+      companyIds,
+      workLocationIds: [],
+      createdAt,
+    }));
+
+    const success = await onImport(carriers);
+    if (success) handleClose(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Holidays</DialogTitle>
+          <DialogDescription>
+            Upload an iCalendar (.ics) file exported from Google Calendar, Outlook or another HR system
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* File Picker */}
+          <div
+            className="border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:bg-accent/50 transition-colors"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileUp className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
+            <p className="text-sm font-medium">{fileName || 'Click to choose an .ics file'}</p>
+            {fileName && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {parsed.length} event{parsed.length !== 1 ? 's' : ''} found
+              </p>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFileSelect(file);
+              }}
+            />
+          </div>
+
+          {fileError && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              {fileError}
+            </div>
+          )}
+
+          {parsed.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {/* Parsed Holidays */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Holidays</p>
+                <ScrollArea className="h-[260px] border rounded-md p-2">
+                  <div className="space-y-1">
+                    {parsed.map((holiday, idx) => (
+                      <label
+                        key={`${holiday.date}-${idx}`}
+                        className="flex items-start gap-2 p-2 rounded hover:bg-accent cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={!excluded.includes(idx)}
+                          onCheckedChange={() => toggleHoliday(idx)}
+                          className="mt-0.5"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm font-medium truncate">{holiday.name}</div>
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                            {format(parseISO(holiday.date), 'MMM dd, yyyy')}
+                            {holiday.recurrence === 'yearly' && <span>· Every year</span>}
+                            <Badge variant="outline" className={cn('capitalize px-1.5 py-0', holidayTypeStyles[holiday.type])}>
+                              {holiday.type}
+                            </Badge>
+                          </div>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+
+              {/* Companies */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Applicable Companies</p>
+                <ScrollArea className="h-[260px] border rounded-md p-2">
+                  {activeCompanies.length === 0 ? (
+                    <p className="text-sm text-muted-foreground p-2">No companies available</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {activeCompanies.map((company) => (
+                        <label
+                          key={company.id}
+                          className="flex items-center gap-2 p-2 rounded hover:bg-accent cursor-pointer"
+                        >
+                          <Checkbox
+                            checked={companyIds.includes(company.id)}
+                            onCheckedChange={() => toggleCompany(company.id)}
+                          />
+                          <span className="text-sm truncate">{company.name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => handleClose(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isSubmitting || selectedHolidays.length === 0 || companyIds.length === 0}
+          >
+            {isSubmitting ? 'Importing...' : `Import ${selectedHolidays.length} Holiday${selectedHolidays.length !== 1 ? 's' : ''}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,141 @@
+/**
+ * Holiday Year Calendar Component
+ * Twelve-month grid highlighting holiday occurrences for a year
+ */
+
+import React, { useMemo } from 'react';
+import { format, getDaysInMonth, parseISO } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { Holiday, HolidayOccurrence, HolidayTypes } from '../types';
+import { holidayTypeDayStyles, holidayTypeLabels } from '../constants';
+import { getHolidayOccurrences, groupOccurrencesByMonth, HolidayScope } from '../utils/holidayCalendar';
+
+interface HolidayYearCalendarProps {
+  holidays: Holiday[];
+  year: number;
+  onYearChange: (year: number) => void;
+  scope?: HolidayScope;
+  loading?: boolean;
+  onHolidayClick?: (holiday: Holiday) => void;
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+export const HolidayYearCalendar: React.FC<HolidayYearCalendarProps> = ({
+  holidays,
+  year,
+  onYearChange,
+  scope,
+  loading = false,
+  onHolidayClick,
+}) => {
+  const occurrences = useMemo(
+    () => getHolidayOccurrences(holidays, year, scope),
+    [holidays, year, scope]
+  );
+  const occurrencesByMonth = useMemo(() => groupOccurrencesByMonth(occurrences), [occurrences]);
+
+  const renderMonth = (month: number) => {
+    const firstDay = new Date(year, month, 1);
+    const leadingBlanks = firstDay.getDay();
+    const monthOccurrences = occurrencesByMonth[month] || [];
+    const byDay = monthOccurrences.reduce<Record<number, HolidayOccurrence[]>>((days, occurrence) => {
+      const day = parseISO(occurrence.date).getDate();
+      (days[day] = days[day] || []).push(occurrence);
+      return days;
+    }, {});
+
+    return (
+      <Card key={month} className="p-3 flex flex-col gap-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold">{format(firstDay, 'MMMM')}</h4>
+          {monthOccurrences.length > 0 && (
+            <span className="text-xs text-muted-foreground">
+              {monthOccurrences.length} holiday{monthOccurrences.length !== 1 ? 's' : ''}
+            </span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-7 gap-0.5 text-center text-[10px]">
+          {WEEKDAY_LABELS.map((label, idx) => (
+            <div key={idx} className="text-muted-foreground font-medium">
+              {label}
+            </div>
+          ))}
+          {Array.from({ length: leadingBlanks }).map((_, idx) => (
+            <div key={`blank-${idx}`} />
+          ))}
+          {Array.from({ length: getDaysInMonth(firstDay) }).map((_, idx) => {
+            const day = idx + 1;
+            const dayOccurrences = byDay[day];
+            const weekday = (leadingBlanks + idx) % 7;
+            return (
+              <button
+                key={day}
+                type="button"
+                disabled={!dayOccurrences}
+                title={dayOccurrences?.map((o) => o.holiday.name).join(', ')}
+                onClick={() => dayOccurrences && onHolidayClick?.(dayOccurrences[0].holiday)}
+                className={cn(
+                  'h-6 rounded text-xs',
+                  dayOccurrences
+                    ? cn(holidayTypeDayStyles[dayOccurrences[0].holiday.type], 'font-semibold cursor-pointer')
+                    : weekday === 0 || weekday === 6
+                      ? 'text-muted-foreground'
+                      : ''
+                )}
+              >
+                {day}
+              </button>
+            );
+          })}
+        </div>
+
+        {monthOccurrences.length > 0 && (
+          <ul className="space-y-1 text-xs border-t pt-2">
+            {monthOccurrences.map((occurrence) => (
+              <li key={occurrence.holiday.id} className="flex items-center gap-2">
+                <span className="w-10 text-muted-foreground">{format(parseISO(occurrence.date), 'dd EEE')}</span>
+                <span className="truncate">{occurrence.holiday.name}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => onYearChange(year - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-lg font-semibold w-16 text-center">{year}</span>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => onYearChange(year + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground ml-2">
+            {loading ? 'Loading...' : `${occurrences.length} holiday${occurrences.length !== 1 ? 's' : ''}`}
+          </span>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          {HolidayTypes.map((type) => (
+            <span key={type} className="flex items-center gap-1">
+              <span className={cn('h-3 w-3 rounded', holidayTypeDayStyles[type])} />
+              {holidayTypeLabels[type]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+        {Array.from({ length: 12 }).map((_, month) => renderMonth(month))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+/**
+ * Optional Holiday Quota Dialog
+ * Sets how many optional holidays employees of a company may pick in a year
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useHoliday } from '@/contexts/HolidayContext';
+import { CompanyModel } from '@/types/company';
+
+interface OptionalHolidayQuotaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  companies: CompanyModel[];
+  year: number;
+}
+
+export const OptionalHolidayQuotaDialog: React.FC<OptionalHolidayQuotaDialogProps> = ({
+  open,
+  onOpenChange,
+  companies,
+  year,
+}) => {
+  const { getOptionalHolidayQuota, saveOptionalHolidayQuota, isLoading } = useHoliday();
+  const [companyId, setCompanyId] = useState('');
+  const [maxSelections, setMaxSelections] = useState(0);
+
+  const activeCompanies = companies.filter((c) => c.isActive !== false);
+
+  // Load the existing quota whenever the company changes
+  useEffect(() => {
+    if (!open || !companyId) return;
+    const loadQuota = async () => {
+      const quota = await getOptionalHolidayQuota(companyId, year);
+      setMaxSelections(quota?.maxSelections ?? 0);
+    };
+    loadQuota();
+  }, [open, companyId, year]);
+
+  const handleSave = async () => {
+    const saved = await saveOptionalHolidayQuota({
+      companyId,
+      year,
+      maxSelections,
+      createdAt: new Date().toISOString(),
+    });
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Optional Holiday Quota · {year}</DialogTitle>
+          <DialogDescription>
+            Number of optional holidays each employee of the company can pick this year
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Company</Label>
+            <Select value={companyId} onValueChange={setCompanyId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select company" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeCompanies.map((company) => (
+                  <SelectItem key={company.id} value={company.id}>
+                    {company.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Optional holidays per employee</Label>
+            <Input
+              type="number"
+              min={0}
+              value={maxSelections}
+              disabled={!companyId}
+              onChange={(e) => setMaxSelections(Math.max(0, Number(e.target.value) || 0))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!companyId || isLoading}>
+            Save Quota
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,29 @@
+/**
+ * Holiday Management Constants
+ */
+
+import { HolidayType } from './types';
+
+/**
+ * Badge styles per holiday type
+ */
+export const holidayTypeStyles: Record<HolidayType, string> = {
+  public: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-950 dark:text-green-300',
+  optional: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-950 dark:text-blue-300',
+  restricted: 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-950 dark:text-amber-300',
+};
+
+/**
+ * Day-cell styles per holiday type for calendar views
+ */
+export const holidayTypeDayStyles: Record<HolidayType, string> = {
+  public: 'bg-green-500 text-white',
+  optional: 'bg-blue-500 text-white',
+  restricted: 'bg-amber-500 text-white',
+};
+
+export const holidayTypeLabels: Record<HolidayType, string> = {
+  public: 'Public',
+  optional: 'Optional',
+  restricted: 'Restricted',
+};
@@ -1,4 +1,15 @@
 export { HolidayManagement } from './HolidayManagement';
 export { HolidayForm } from './HolidayForm';
 export { HolidayCard } from './components/HolidayCard';
-export type { Holiday, HolidayCarrier, HolidayUpdateCarrier, HolidayFormData } from './types';
+export { HolidayYearCalendar } from './components/HolidayYearCalendar';
+export type {
+  Holiday,
+  HolidayCarrier,
+  HolidayUpdateCarrier,
+  HolidayFormData,
+  HolidayType,
+  HolidayRecurrence,
+  HolidayOccurrence,
+  OptionalHolidayQuota,
+  OptionalHolidaySelection,
+} from './types';
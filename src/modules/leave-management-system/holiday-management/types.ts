@@ -3,6 +3,23 @@
  * Defines the structure for holidays applicable to companies
  */
 
+/**
+ * HolidayType - Kind of holiday
+ * - public: observed by everyone in scope
+ * - optional: employees pick a limited number (see OptionalHolidayQuota)
+ * - restricted: observed only by a specific group (region, community, etc.)
+ */
+export type HolidayType = 'public' | 'optional' | 'restricted';
+
+export const HolidayTypes: HolidayType[] = ['public', 'optional', 'restricted'];
+
+/**
+ * HolidayRecurrence - How the holiday date repeats
+ * - fixed: only on the given date
+ * - yearly: same day and month every year starting from the given date
+ */
+export type HolidayRecurrence = 'fixed' | 'yearly';
+
 /**
  * Holiday - Core entity for company holidays
  */
@@ -11,7 +28,11 @@ export interface Holiday {
   name: string;
   description: string | null;
   imageUrl: string | null;
+  date: string; // yyyy-MM-dd (first occurrence for yearly holidays)
+  type: HolidayType;
+  recurrence: HolidayRecurrence;
   companyIds: string[]; // IDs of companies for which this holiday is applicable
+  workLocationIds: string[]; // IDs of work locations; empty means all locations
   createdAt: string;
   updatedAt: string;
 }
@@ -23,7 +44,11 @@ export interface HolidayCarrier {
   name: string;
   description?: string;
   imageUrl?: string;
+  date: string;
+  type: HolidayType;
+  recurrence: HolidayRecurrence;
   companyIds: string[];
+  workLocationIds: string[];
   createdAt: string;
 }
 
@@ -34,7 +59,11 @@ export interface HolidayUpdateCarrier {
   name?: string;
   description?: string;
   imageUrl?: string;
+  date?: string;
+  type?: HolidayType;
+  recurrence?: HolidayRecurrence;
   companyIds?: string[];
+  workLocationIds?: string[];
 }
 
 /**
@@ -44,5 +73,65 @@ export type HolidayFormData = {
   name: string;
   description?: string;
   imageUrl?: string;
+  date: string;
+  type: HolidayType;
+  recurrence: HolidayRecurrence;
   companyIds: string[];
+  workLocationIds: string[];
 };
+
+/**
+ * HolidayOccurrence - A holiday resolved to a concrete date within a year
+ */
+export interface HolidayOccurrence {
+  holiday: Holiday;
+  date: string; // yyyy-MM-dd
+}
+
+/**
+ * OptionalHolidayQuota - Number of optional holidays an employee may pick
+ * Scoped per company and calendar year
+ */
+export interface OptionalHolidayQuota {
+  id: string;
+  companyId: string;
+  year: number;
+  maxSelections: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * OptionalHolidayQuotaCarrier - Used for creating/replacing a quota
+ */
+export interface OptionalHolidayQuotaCarrier {
+  companyId: string;
+  year: number;
+  maxSelections: number;
+  createdAt: string;
+}
+
+/**
+ * OptionalHolidaySelection - An optional holiday picked by an employee
+ */
+export interface OptionalHolidaySelection {
+  id: string;
+  employeeId: string;
+  holidayId: string;
+  companyId: string;
+  year: number;
+  date: string; // yyyy-MM-dd, resolved occurrence date
+  createdAt: string;
+}
+
+/**
+ * OptionalHolidaySelectionCarrier - Payload for picking an optional holiday
+ * Employee is resolved from the access token
+ */
+export interface OptionalHolidaySelectionCarrier {
+  holidayId: string;
+  companyId: string;
+  year: number;
+  date: string;
+  createdAt: string;
+}
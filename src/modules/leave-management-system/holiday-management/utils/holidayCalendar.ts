@@ -0,0 +1,98 @@
+/**
+ * Holiday Calendar Utilities
+ * Resolve holidays to concrete dates and scope them to companies/work locations
+ */
+
+import { format, isLeapYear, parseISO } from 'date-fns';
+import { HolidayInfo } from '../../types/leave.types';
+import { Holiday, HolidayOccurrence } from '../types';
+
+/**
+ * Scope used to decide which holidays apply to an employee
+ * Omitted fields are not used for filtering
+ */
+export interface HolidayScope {
+  companyId?: string;
+  workLocationId?: string;
+}
+
+/**
+ * Resolve the date a holiday falls on in the given year
+ * Returns null when the holiday does not occur in that year
+ *
+ * Yearly holidays start from the year of their first date; a 29 Feb holiday
+ * is observed on 28 Feb in non-leap years.
+ */
+export function resolveHolidayDate(holiday: Holiday, year: number): string | null {
+  if (!holiday.date) return null;
+  const [firstYear, month, day] = holiday.date.split('-').map(Number);
+
+  if (holiday.recurrence !== 'yearly') {
+    return firstYear === year ? holiday.date : null;
+  }
+
+  if (year < firstYear) return null;
+
+  const observedDay = month === 2 && day === 29 && !isLeapYear(new Date(year, 0, 1)) ? 28 : day;
+  return format(new Date(year, month - 1, observedDay), 'yyyy-MM-dd');
+}
+
+/**
+ * Check whether a holiday applies to the given company / work location
+ * A holiday without work locations applies to every location of its companies
+ */
+export function isHolidayApplicable(holiday: Holiday, scope: HolidayScope = {}): boolean {
+  if (scope.companyId && !(holiday.companyIds || []).includes(scope.companyId)) {
+    return false;
+  }
+
+  const workLocationIds = holiday.workLocationIds || [];
+  if (scope.workLocationId && workLocationIds.length > 0) {
+    return workLocationIds.includes(scope.workLocationId);
+  }
+
+  return true;
+}
+
+/**
+ * Get all holiday occurrences for a year, sorted by date
+ */
+export function getHolidayOccurrences(
+  holidays: Holiday[],
+  year: number,
+  scope: HolidayScope = {}
+): HolidayOccurrence[] {
+  return holidays
+    .filter((holiday) => isHolidayApplicable(holiday, scope))
+    .map((holiday) => ({ holiday, date: resolveHolidayDate(holiday, year) }))
+    .filter((occurrence): occurrence is HolidayOccurrence => occurrence.date !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Group occurrences by month index (0-11)
+ */
+export function groupOccurrencesByMonth(
+  occurrences: HolidayOccurrence[]
+): Record<number, HolidayOccurrence[]> {
+  return occurrences.reduce<Record<number, HolidayOccurrence[]>>((groups, occurrence) => {
+    const month = parseISO(occurrence.date).getMonth();
+    (groups[month] = groups[month] || []).push(occurrence);
+    return groups;
+  }, {});
+}
+
+/**
+ * Map an occurrence to the lightweight HolidayInfo used by leave screens
+ */
+export function toHolidayInfo(occurrence: HolidayOccurrence): HolidayInfo {
+  const { holiday, date } = occurrence;
+  return {
+    id: holiday.id,
+    name: holiday.name,
+    date,
+    type: holiday.type,
+    description: holiday.description || undefined,
+    imageUrl: holiday.imageUrl || undefined,
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * iCalendar (RFC 5545) Utilities
+ * Export holidays to .ics and parse .ics files for import
+ *
+ * Holidays are written as all-day VEVENTs. Yearly holidays carry
+ * RRULE:FREQ=YEARLY and the holiday type is stored in CATEGORIES.
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { Holiday, HolidayRecurrence, HolidayType, HolidayTypes } from '../types';
+
+/**
+ * Holiday fields that can be read back from an .ics file
+ * Company and work location assignment is chosen by the importer
+ */
+export interface ParsedCalendarHoliday {
+  name: string;
+  description?: string;
+  date: string; // yyyy-MM-dd
+  type: HolidayType;
+  recurrence: HolidayRecurrence;
+}
+
+const PRODUCT_ID = '-//Techsophy//EMP360 Holidays//EN';
+const MAX_LINE_LENGTH = 75;
+
+/**
+ * Escape TEXT values (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+/**
+ * Fold content lines longer than 75 characters
+ */
+function foldLine(line: string): string {
+  if (line.length <= MAX_LINE_LENGTH) return line;
+
+  const parts = [line.slice(0, MAX_LINE_LENGTH)];
+  for (let i = MAX_LINE_LENGTH; i < line.length; i += MAX_LINE_LENGTH - 1) {
+    parts.push(' ' + line.slice(i, i + MAX_LINE_LENGTH - 1));
+  }
+  return parts.join('\r\n');
+}
+
+function toIcsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+function fromIcsDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Build an iCalendar document from holidays
+ */
+export function buildHolidayCalendar(holidays: Holiday[], calendarName: string): string {
+  const stamp = format(new Date(), "yyyyMMdd'T'HHmmss");
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  holidays
+    .filter((holiday) => holiday.date)
+    .forEach((holiday) => {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${holiday.id}@emp360`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${toIcsDate(holiday.date)}`,
+        `DTEND;VALUE=DATE:${format(addDays(parseISO(holiday.date), 1), 'yyyyMMdd')}`,
+        `SUMMARY:${escapeText(holiday.name)}`
+      );
+      if (holiday.description) {
+        lines.push(`DESCRIPTION:${escapeText(holiday.description)}`);
+      }
+      lines.push(`CATEGORIES:${holiday.type.toUpperCase()}`);
+      if (holiday.recurrence === 'yearly') {
+        lines.push('RRULE:FREQ=YEARLY');
+      }
+      lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+    });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse an iCalendar document into holidays
+ * Events without a start date are skipped
+ */
+export function parseHolidayCalendar(content: string): ParsedCalendarHoliday[] {
+  // Unfold continuation lines before splitting
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const holidays: ParsedCalendarHoliday[] = [];
+  let current: Record<string, string> | null = null;
+
+  lines.forEach((line) => {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      return;
+    }
+    if (line === 'END:VEVENT') {
+      const event: Record<string, string> = current || {};
+      const date = event.DTSTART ? fromIcsDate(event.DTSTART) : null;
+      if (date && event.SUMMARY) {
+        const category = (event.CATEGORIES || '').split(',')[0].trim().toLowerCase();
+        holidays.push({
+          name: unescapeText(event.SUMMARY),
+          description: event.DESCRIPTION ? unescapeText(event.DESCRIPTION) : undefined,
+          date,
+          type: HolidayTypes.includes(category as HolidayType)
+            ? (category as HolidayType)
+            : 'public',
+          recurrence: /FREQ=YEARLY/i.test(event.RRULE || '') ? 'yearly' : 'fixed',
+        });
+      }
+      current = null;
+      return;
+    }
+    if (!current) return;
+
+    const separator = line.indexOf(':');
+    if (separator < 0) return;
+    // Drop parameters such as ;VALUE=DATE or ;LANGUAGE=en
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    current[name] = line.slice(separator + 1);
+  });
+
+  return holidays;
+}
@@ -1,2 +1,8 @@
 // Export all leave management hooks
 export { useLeavePermissions } from './useLeavePermissions';
+export { useCompanyHolidays } from './useCompanyHolidays';
+export { useLeaveDayCalculator } from './useLeaveDayCalculator';
+export { useCoverageSettings } from './useCoverageSettings';
+export { useApprovalCoverage } from './useApprovalCoverage';
+export { useApprovalSlaMonitor } from './useApprovalSlaMonitor';
+export { useReporteeCount } from './useReporteeCount';
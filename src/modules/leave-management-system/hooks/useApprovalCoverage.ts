@@ -0,0 +1,72 @@
+/**
+ * useApprovalCoverage Hook
+ * Binds the team coverage evaluation to the shift weekends, the approver's coverage
+ * settings and the headcount of the team whose queue is worked on
+ */
+
+import { useAuth } from "@/contexts/AuthContext";
+import { useLeaveManagement } from "@/contexts/LeaveManagementContext";
+import { useShiftSettings } from "@/hooks/useAttendanceData";
+import { useCoverageSettings } from "./useCoverageSettings";
+import { useReporteeCount } from "./useReporteeCount";
+import { AbsenceApplication } from "../types/leave.types";
+import { DEFAULT_WEEKENDS } from "../utils/leaveDayCalculator";
+import {
+  ApprovalCoverageImpact,
+  buildTeamAbsenceRangeRequest,
+  evaluateApprovalCoverage,
+  resolveTeamSize,
+} from "../utils/teamCoverage";
+
+// Upper bound of team applications overlapping a single request
+const MAX_OVERLAPPING_APPLICATIONS = 200;
+
+/**
+ * Impacts are null until the team size is known
+ *
+ * @param actingFor - Optional email of the delegating manager, whose team the requests belong to
+ *
+ * @example
+ * const { settings, checkCoverage } = useApprovalCoverage(actingFor?.delegatorEmail);
+ * const impact = await checkCoverage(application);
+ * if (impact && impact.lowDays.length > 0) { ... }
+ */
+export function useApprovalCoverage(actingFor?: string) {
+  const { user } = useAuth();
+  const { getTeamAbsenceApplications } = useLeaveManagement();
+  const { data: shiftSettings } = useShiftSettings();
+  const { settings } = useCoverageSettings();
+  const { reporteeCount } = useReporteeCount(actingFor || user?.email || "");
+
+  const weekends = shiftSettings?.weekends?.length ? shiftSettings.weekends : DEFAULT_WEEKENDS;
+  const teamSize = resolveTeamSize(settings.teamSize, reporteeCount);
+
+  // Evaluate against applications that are already loaded
+  const evaluate = (
+    application: AbsenceApplication,
+    applications: AbsenceApplication[]
+  ): ApprovalCoverageImpact | null =>
+    teamSize === null
+      ? null
+      : evaluateApprovalCoverage({
+          application,
+          applications,
+          teamSize,
+          threshold: settings.threshold,
+          weekends,
+        });
+
+  // Load the team applications overlapping the request, then evaluate
+  const checkCoverage = async (application: AbsenceApplication): Promise<ApprovalCoverageImpact | null> => {
+    if (teamSize === null) return null;
+    const result = await getTeamAbsenceApplications(
+      buildTeamAbsenceRangeRequest(new Date(application.fromDate), new Date(application.toDate)),
+      0,
+      MAX_OVERLAPPING_APPLICATIONS,
+      actingFor
+    );
+    return evaluate(application, [...(result?.content || []), application]);
+  };
+
+  return { settings, teamSize, evaluate, checkCoverage };
+}
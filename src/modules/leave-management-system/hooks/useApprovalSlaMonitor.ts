@@ -0,0 +1,124 @@
+/**
+ * useApprovalSlaMonitor Hook
+ * Records due reminders and escalations for the loaded pending applications
+ * and raises the matching notifications
+ *
+ * Auto-approval itself is carried out by the server at autoApproveAt.
+ *
+ * Limitation: reminders and escalations are only picked up while someone has
+ * the team table open; an application nobody looks at is not escalated until
+ * then. A reminder or escalation notification is only raised when none exists
+ * yet for the application, and without a success toast.
+ */
+
+import { useEffect, useRef } from "react";
+import { useLeaveManagement } from "@/contexts/LeaveManagementContext";
+import { useNotification } from "@/contexts/NotificationContext";
+import { NotificationCarrier } from "@/services/notificationApiService";
+import { LeaveApprovalSlaMetadata } from "@/modules/notifications/notificationTypes";
+import { AbsenceApplication } from "../types/leave.types";
+import { LMSConfiguration } from "../types/leaveConfiguration.types";
+import { getApprovalSlaStatus } from "../utils/approvalSla";
+
+// Due deadlines are picked up within this interval while the table is open
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const getNotificationType = (action: "remind" | "escalate") =>
+  action === "escalate" ? "leave_approval_escalation" : "leave_approval_reminder";
+
+const buildSlaNotification = (
+  application: AbsenceApplication,
+  action: "remind" | "escalate",
+  leaveTypeName: string,
+): NotificationCarrier<LeaveApprovalSlaMetadata> => {
+  const employeeName = `${application.firstName || ""} ${application.lastName || ""}`.trim() || application.employeeId;
+  const now = new Date().toISOString();
+
+  return {
+    id: `NOTIF-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type: getNotificationType(action),
+    subject: action === "escalate" ? "Leave Approval Escalated" : "Leave Approval Pending",
+    message:
+      action === "escalate"
+        ? `${employeeName}'s ${leaveTypeName} request was not actioned in time and has been escalated to ${application.escalatedTo || "the next-level manager"}`
+        : `${employeeName}'s ${leaveTypeName} request is waiting for approval from ${application.reportingTo}`,
+    status: "unread",
+    metadata: {
+      applicationId: application.id,
+      employeeId: application.employeeId,
+      employeeName,
+      absenceType: application.absenceType,
+      fromDate: application.fromDate,
+      toDate: application.toDate,
+      approver: application.reportingTo,
+      // Reminders go to the approver only; escalations also reach the skip-level manager
+      escalatedTo: action === "escalate" ? application.escalatedTo : undefined,
+      autoApproveAt: application.autoApproveAt,
+    },
+    createdAt: now,
+  };
+};
+
+/**
+ * @param applications - Applications currently loaded in the team table
+ * @param configurations - Leave configurations keyed by code
+ * @param onApplicationUpdated - Receives applications updated by a recorded action
+ *
+ * @example
+ * useApprovalSlaMonitor(applications, configurations, (updated) =>
+ *   setApplications((prev) => prev.map((app) => (app.id === updated.id ? updated : app)))
+ * );
+ */
+export function useApprovalSlaMonitor(
+  applications: AbsenceApplication[],
+  configurations: Record<string, LMSConfiguration>,
+  onApplicationUpdated: (application: AbsenceApplication) => void,
+) {
+  const { recordApprovalSlaAction } = useLeaveManagement();
+  const { raiseNotification, refreshNotifications } = useNotification();
+
+  // Actions already attempted in this session, keyed by `${action}:${applicationId}`
+  const attemptedRef = useRef<Set<string>>(new Set());
+
+  const recordAction = async (application: AbsenceApplication, action: "remind" | "escalate") => {
+    const key = `${action}:${application.id}`;
+    if (attemptedRef.current.has(key)) return;
+    attemptedRef.current.add(key);
+
+    const updated = await recordApprovalSlaAction(application.id, action);
+    if (!updated) return;
+
+    onApplicationUpdated(updated);
+
+    // The server ignores actions already recorded, e.g. from another open tab,
+    // so only notify when no one has for this application yet
+    const existing = await refreshNotifications(
+      { filters: { and: { type: getNotificationType(action), "metadata.applicationId": application.id } } },
+      0,
+      1
+    );
+    if (!existing || existing.content.length > 0) return;
+
+    const leaveTypeName = configurations[updated.absenceType]?.name || updated.absenceType;
+    await raiseNotification(buildSlaNotification(updated, action, leaveTypeName));
+  };
+
+  const checkDeadlines = async () => {
+    for (const application of applications) {
+      const sla = getApprovalSlaStatus(application, configurations[application.absenceType]);
+      if (sla.isEscalationDue) {
+        await recordAction(application, "escalate");
+      } else if (sla.isReminderDue) {
+        await recordAction(application, "remind");
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (applications.length === 0 || Object.keys(configurations).length === 0) return;
+
+    checkDeadlines();
+    const interval = setInterval(checkDeadlines, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [applications, configurations]);
+}
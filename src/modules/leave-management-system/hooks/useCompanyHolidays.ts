@@ -0,0 +1,74 @@
+/**
+ * useCompanyHolidays Hook
+ * Loads the holidays applicable to the active company and resolves them for a year
+ *
+ * Optional holidays are only treated as days off once the employee has picked them.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useCompany } from "@/contexts/CompanyContext";
+import { useHoliday } from "@/contexts/HolidayContext";
+import { Holiday, HolidayOccurrence, OptionalHolidaySelection } from "../holiday-management/types";
+import { getHolidayOccurrences } from "../holiday-management/utils/holidayCalendar";
+import { HolidayInfo } from "../types/leave.types";
+import { getObservedHolidays } from "../utils/leaveDayCalculator";
+
+// Upper bound of holidays a single company is expected to define
+const MAX_COMPANY_HOLIDAYS = 1000;
+
+interface CompanyHolidays {
+  holidays: Holiday[];
+  occurrences: HolidayOccurrence[]; // all occurrences in the year, including unpicked optional ones
+  observed: HolidayInfo[]; // days off: public/restricted plus picked optional holidays
+  selections: OptionalHolidaySelection[];
+  isLoading: boolean;
+  reload: () => Promise<void>;
+}
+
+/**
+ * @param year - Calendar year to resolve holidays for
+ * @param workLocationId - Optional work location to scope holidays to
+ *
+ * @example
+ * const { observed, occurrences, selections, reload } = useCompanyHolidays(2026);
+ */
+export function useCompanyHolidays(year: number, workLocationId?: string): CompanyHolidays {
+  const { activeCompany } = useCompany();
+  const { refreshHolidays, getMyOptionalHolidaySelections } = useHoliday();
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [selections, setSelections] = useState<OptionalHolidaySelection[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const companyId = activeCompany?.id;
+
+  const reload = async () => {
+    if (!companyId) return;
+    setIsLoading(true);
+    try {
+      const [holidayPage, mySelections] = await Promise.all([
+        refreshHolidays({ filters: { and: { companyIds: companyId } } }, 0, MAX_COMPANY_HOLIDAYS),
+        getMyOptionalHolidaySelections(year),
+      ]);
+      setHolidays(holidayPage?.content || []);
+      setSelections(mySelections || []);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [companyId, year]);
+
+  const occurrences = useMemo(
+    () => getHolidayOccurrences(holidays, year, { companyId, workLocationId }),
+    [holidays, year, companyId, workLocationId]
+  );
+
+  const observed = useMemo(
+    () => getObservedHolidays(occurrences, selections.map((s) => s.holidayId)),
+    [occurrences, selections]
+  );
+
+  return { holidays, occurrences, observed, selections, isLoading, reload };
+}
@@ -0,0 +1,31 @@
+/**
+ * useCoverageSettings Hook
+ * Approver's team coverage threshold and team size, persisted in local storage
+ */
+
+import { useState } from "react";
+import StorageKeys from "@/constants/storageConstants";
+import { getStorageItem, setStorageItem } from "@/store/localStorage";
+import { CoverageSettings, DEFAULT_COVERAGE_SETTINGS } from "../utils/teamCoverage";
+
+/**
+ * @example
+ * const { settings, updateSettings } = useCoverageSettings();
+ * updateSettings({ threshold: 60 });
+ */
+export function useCoverageSettings() {
+  const [settings, setSettings] = useState<CoverageSettings>(() => ({
+    ...DEFAULT_COVERAGE_SETTINGS,
+    ...getStorageItem<Partial<CoverageSettings>>(StorageKeys.LEAVE_COVERAGE_SETTINGS),
+  }));
+
+  const updateSettings = (changes: Partial<CoverageSettings>) => {
+    setSettings((current) => {
+      const next = { ...current, ...changes };
+      setStorageItem(StorageKeys.LEAVE_COVERAGE_SETTINGS, next);
+      return next;
+    });
+  };
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,64 @@
+/**
+ * useLeaveDayCalculator Hook
+ * Binds the pure leave day calculator to the shift weekends and company holidays
+ *
+ * In 'team' scope (approvers) optional holidays are ignored, since the picks
+ * loaded belong to the signed-in user rather than the applicant.
+ */
+
+import { useCallback } from "react";
+import { useCompany } from "@/contexts/CompanyContext";
+import { useShiftSettings } from "@/hooks/useAttendanceData";
+import { useCompanyHolidays } from "./useCompanyHolidays";
+import { getHolidayOccurrences } from "../holiday-management/utils/holidayCalendar";
+import { HolidayInfo } from "../types/leave.types";
+import {
+  calculateLeaveDays,
+  DEFAULT_WEEKENDS,
+  getObservedHolidays,
+  LeaveDayCalculation,
+  LeaveDayCalculationInput,
+} from "../utils/leaveDayCalculator";
+
+type LeaveDayRequest = Omit<LeaveDayCalculationInput, "weekends" | "holidays">;
+
+/**
+ * @param scope - 'self' for the applicant's own leaves, 'team' for approvers
+ *
+ * @example
+ * const { calculate } = useLeaveDayCalculator();
+ * const { totalDays, lopDays } = calculate({ fromDate, toDate, absenceCategory: 'fullDay' });
+ */
+export function useLeaveDayCalculator(scope: "self" | "team" = "self") {
+  const { activeCompany } = useCompany();
+  const { data: shiftSettings, loading: shiftLoading } = useShiftSettings();
+  const currentYear = new Date().getFullYear();
+  const { holidays, observed, isLoading: holidaysLoading } = useCompanyHolidays(currentYear);
+
+  const companyId = activeCompany?.id;
+  const weekends = shiftSettings?.weekends?.length ? shiftSettings.weekends : DEFAULT_WEEKENDS;
+
+  // Holidays observed in a year; picked optional holidays are only known for the current year
+  const getYearHolidays = useCallback(
+    (year: number): HolidayInfo[] => {
+      if (scope === "self" && year === currentYear) return observed;
+      return getObservedHolidays(getHolidayOccurrences(holidays, year, { companyId }));
+    },
+    [scope, currentYear, observed, holidays, companyId]
+  );
+
+  const calculate = useCallback(
+    (request: LeaveDayRequest): LeaveDayCalculation => {
+      const fromYear = new Date(request.fromDate).getFullYear();
+      const toYear = Math.max(fromYear, new Date(request.toDate).getFullYear());
+      const rangeHolidays: HolidayInfo[] = [];
+      for (let year = fromYear; year <= toYear; year++) {
+        rangeHolidays.push(...getYearHolidays(year));
+      }
+      return calculateLeaveDays({ ...request, weekends, holidays: rangeHolidays });
+    },
+    [getYearHolidays, weekends]
+  );
+
+  return { calculate, isLoading: shiftLoading || holidaysLoading };
+}
@@ -22,6 +22,7 @@ interface LeavePermissions {
   // Personal credits access
   canViewMyCredits: boolean;
   canRequestCredits: boolean;
+  canRequestEncashment: boolean;
   
   // Team leave access (if user is a lead/manager)
   canViewTeamApplications: boolean;
@@ -32,6 +33,10 @@ interface LeavePermissions {
   canViewTeamCredits: boolean;
   canApproveCredits: boolean;
   canRejectCredits: boolean;
+
+  // Team encashment access (if user is a lead/manager)
+  canViewTeamEncashments: boolean;
+  canApproveEncashments: boolean;
   
   // Settings access
   canAccessSettings: boolean;
@@ -70,6 +75,7 @@ export function useLeavePermissions(): LeavePermissions {
     // Personal credits access
     canViewMyCredits: isViewer || isApprover || hasLmsRole,
     canRequestCredits: isSubmitter || hasLmsRole,
+    canRequestEncashment: isSubmitter || hasLmsRole,
     
     // Team leave access (requires lead role in employee-360)
     canViewTeamApplications: isLead && (isViewer || isApprover || hasLmsRole),
@@ -80,6 +86,10 @@ export function useLeavePermissions(): LeavePermissions {
     canViewTeamCredits: isLead && (isViewer || isApprover || hasLmsRole),
     canApproveCredits: isLead && isApprover,
     canRejectCredits: isLead && isApprover,
+
+    // Team encashment access (requires lead role in employee-360)
+    canViewTeamEncashments: isLead && (isViewer || isApprover || hasLmsRole),
+    canApproveEncashments: isLead && isApprover,
     
     // Settings access (only for submitter/admin)
     canAccessSettings: isSubmitter || isApprover,
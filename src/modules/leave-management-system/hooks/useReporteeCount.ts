@@ -0,0 +1,37 @@
+/**
+ * useReporteeCount Hook
+ * Counts a manager's active direct reports, the headcount team coverage is computed against
+ */
+
+import { useEffect, useState } from "react";
+import { useUserManagement } from "@/contexts/UserManagementContext";
+import { UserStatus } from "@/modules/user-management/types/onboarding.types";
+
+/**
+ * @param managerEmail - Reporting manager whose reportees are counted; empty to skip
+ * @returns reporteeCount - null until the count has loaded, or when it could not be loaded
+ *
+ * @example
+ * const { reporteeCount } = useReporteeCount(user?.email || "");
+ */
+export function useReporteeCount(managerEmail: string) {
+  const { refreshUserDetailsSnapshots } = useUserManagement();
+  const [reporteeCount, setReporteeCount] = useState<number | null>(null);
+
+  const fetchReporteeCount = async () => {
+    setReporteeCount(null);
+    if (!managerEmail) return;
+    // Only the total is needed
+    const result = await refreshUserDetailsSnapshots(
+      { filters: { and: { reportingTo: managerEmail, status: UserStatus.ACTIVE } } },
+      0,
+      1
+    );
+    setReporteeCount(result ? result.totalElements : null);
+  };
+  useEffect(() => {
+    fetchReporteeCount();
+  }, [managerEmail]);
+
+  return { reporteeCount };
+}
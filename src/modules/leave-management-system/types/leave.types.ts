@@ -45,6 +45,7 @@ export interface AbsenceApplication {
   toDate: string; // ISO instant
   absenceType: string; // Code of the absence type (e.g., GL, PL, maternity, WFH)
   absenceCategory: string; // fullDay / partialDay
+  partialDaySelection?: string; // firstHalf / secondHalf for partial day leaves
   reason: string;
   fromTime?: string; // ISO instant
   toTime?: string; // ISO instant
@@ -61,6 +62,9 @@ export interface AbsenceApplication {
   // Approvals
   approvedOn?: string; // ISO instant
   autoApproveAt?: string; // ISO instant
+  remindedAt?: string; // ISO instant the approver was last reminded
+  escalatedAt?: string; // ISO instant
+  escalatedTo?: string; // Email of the skip-level manager
   
   // Status
   status: string; // pending, approved, rejected, etc.
@@ -162,9 +166,100 @@ export interface CreditCarrier {
   createdAt: string; // ISO instant
 }
 
+/**
+ * Encashment workflow statuses
+ * PENDING -> MANAGER_APPROVED -> APPROVED (HR) -> PAID; REJECTED / CANCELLED end the request
+ */
+export type EncashmentStatus =
+  | 'PENDING'
+  | 'MANAGER_APPROVED'
+  | 'APPROVED'
+  | 'PAID'
+  | 'REJECTED'
+  | 'CANCELLED';
+
+/**
+ * Encashment - Request to convert leave balance into a payout
+ * Approved by the reporting manager, then processed and paid out by HR
+ */
+export interface Encashment {
+  // Core Identifiers
+  id: string;
+
+  // Employee Information
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  reportingTo: string; // Email of reporting manager
+
+  // Encashment Details
+  absenceType: string; // Code of the leave type being encashed
+  days: number; // Leave days to encash
+  reason: string;
+  balanceBefore?: number; // Available balance when requested
+  balanceAfter?: number; // Available balance once deducted (set on HR approval)
+
+  // Approval and Payout
+  status: EncashmentStatus;
+  managerActionOn?: string; // ISO instant
+  hrActionOn?: string; // ISO instant
+  paidOn?: string; // ISO instant
+  payoutReference?: string; // Payroll run or payment reference
+
+  // Metadata
+  companyId: string;
+  createdAt: string; // ISO instant
+  updatedAt?: string; // ISO instant
+}
+
+/**
+ * EncashmentCarrier - DTO for raising an encashment request
+ */
+export interface EncashmentCarrier {
+  absenceType: string; // Leave type code
+  days: number;
+  reason: string;
+  informTo?: string[]; // List of emails to inform
+  createdAt: string; // ISO instant
+}
+
+/**
+ * Leave transaction types recorded in the leave balance ledger
+ * ACCRUAL, CARRY_FORWARD, CANCELLATION and CREDIT add to the balance;
+ * APPLICATION, DEDUCTION, LAPSE and ENCASHMENT reduce it
+ */
+export type LeaveTransactionType =
+  | 'ACCRUAL'
+  | 'CARRY_FORWARD'
+  | 'APPLICATION'
+  | 'CANCELLATION'
+  | 'CREDIT'
+  | 'DEDUCTION'
+  | 'LAPSE'
+  | 'ENCASHMENT';
+
+/**
+ * LeaveTransaction - One balance movement for an employee and leave type
+ */
+export interface LeaveTransaction {
+  id: string;
+  employeeId: string;
+  absenceType: string; // Leave type code
+  type: LeaveTransactionType;
+  days: number; // Always positive; direction comes from the type
+  referenceId?: string; // Absence application, credit or encashment ID
+  remarks?: string;
+  actorEmail?: string; // Who made the change; empty for scheduled jobs
+  actorName?: string;
+  effectiveOn: string; // ISO instant the movement applies to the balance
+  createdAt: string;
+}
+
 /**
  * HolidayInfo - Simple holiday information for display
  * Note: For full Holiday CRUD operations, use Holiday from holiday-management/types
+ * Built from a resolved HolidayOccurrence via toHolidayInfo (holiday-management/utils/holidayCalendar)
  */
 export interface HolidayInfo {
   id: string;
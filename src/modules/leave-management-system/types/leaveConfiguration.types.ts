@@ -10,6 +10,15 @@ export interface ProbationRestrictions {
   allowed: boolean; // whether leave is applicable to employees in probation
 }
 
+/**
+ * ApprovalSlaPolicy - Timers for pending applications, in hours from submission (0 = off)
+ */
+export interface ApprovalSlaPolicy {
+  remindAfterHours: number; // remind the approver
+  escalateAfterHours: number; // escalate to the approver's reporting manager
+  autoApproveAfterHours: number; // approve automatically
+}
+
 /**
  * Restrictions - Defines various restrictions for a leave configuration
  */
@@ -20,6 +29,7 @@ export interface Restrictions {
   maxRequestsPerYear: number; // how many requests can be raised per year
   includeHolidaysWeekends: boolean; // include holidays and weekends in calculation
   probationRestrictions: ProbationRestrictions; // restrictions for probation period
+  approvalSla?: ApprovalSlaPolicy; // timers for pending applications, when approval is required
 }
 
 /**
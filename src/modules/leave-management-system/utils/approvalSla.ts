@@ -0,0 +1,126 @@
+/**
+ * Approval SLA
+ * Pure evaluation of the reminder, escalation and auto-approval deadlines of
+ * a pending absence application under its configuration's approvalSla
+ *
+ * - Deadlines are counted in hours from submission (createdAt)
+ * - An autoApproveAt set by the server takes precedence over the configured hours
+ * - Reminders and escalations already recorded on the application are not due again
+ */
+
+import { addHours, differenceInMinutes } from 'date-fns';
+import { AbsenceApplication } from '../types/leave.types';
+import { LMSConfiguration } from '../types/leaveConfiguration.types';
+
+export type ApprovalSlaDeadlineKind = 'remind' | 'escalate' | 'autoApprove';
+
+export interface ApprovalSlaDeadline {
+  kind: ApprovalSlaDeadlineKind;
+  at: Date;
+}
+
+export interface ApprovalSlaStatus {
+  isTracked: boolean; // pending application with at least one timer
+  remindAt: Date | null;
+  escalateAt: Date | null;
+  autoApproveAt: Date | null;
+  isReminderDue: boolean; // reminder deadline passed and not yet recorded
+  isEscalationDue: boolean; // escalation deadline passed and not yet recorded
+  isEscalated: boolean;
+  isAutoApprovalOverdue: boolean; // waiting on the server to auto-approve
+  nextDeadline: ApprovalSlaDeadline | null; // earliest deadline still ahead
+}
+
+export const APPROVAL_SLA_LABELS: Record<ApprovalSlaDeadlineKind, string> = {
+  remind: 'Reminder',
+  escalate: 'Escalation',
+  autoApprove: 'Auto-approval',
+};
+
+const UNTRACKED: ApprovalSlaStatus = {
+  isTracked: false,
+  remindAt: null,
+  escalateAt: null,
+  autoApproveAt: null,
+  isReminderDue: false,
+  isEscalationDue: false,
+  isEscalated: false,
+  isAutoApprovalOverdue: false,
+  nextDeadline: null,
+};
+
+const deadlineAfter = (submittedAt: Date, hours: number | undefined) =>
+  hours && hours > 0 ? addHours(submittedAt, hours) : null;
+
+/**
+ * Evaluate the approval SLA of an application
+ *
+ * @param application - Absence application (only PENDING applications are tracked)
+ * @param configuration - Configuration of the application's absence type
+ * @param now - Evaluation time (defaults to now)
+ *
+ * @example
+ * const sla = getApprovalSlaStatus(application, configurations[application.absenceType]);
+ * if (sla.isEscalationDue) await recordApprovalSlaAction(application.id, 'escalate');
+ */
+export function getApprovalSlaStatus(
+  application: AbsenceApplication,
+  configuration: LMSConfiguration | undefined,
+  now: Date = new Date()
+): ApprovalSlaStatus {
+  if (application.status?.toUpperCase() !== 'PENDING') return UNTRACKED;
+
+  const restrictions = configuration?.allowRestrictions ? configuration.restrictions : null;
+  const policy = restrictions?.approvalRequired !== false ? restrictions?.approvalSla : undefined;
+  const submittedAt = new Date(application.createdAt);
+
+  const remindAt = deadlineAfter(submittedAt, policy?.remindAfterHours);
+  const escalateAt = deadlineAfter(submittedAt, policy?.escalateAfterHours);
+  const autoApproveAt = application.autoApproveAt
+    ? new Date(application.autoApproveAt)
+    : deadlineAfter(submittedAt, policy?.autoApproveAfterHours);
+
+  if (!remindAt && !escalateAt && !autoApproveAt) return UNTRACKED;
+
+  const isEscalated = !!application.escalatedAt;
+  const isReminded =
+    !!application.remindedAt && !!remindAt && new Date(application.remindedAt) >= remindAt;
+
+  const pending: ApprovalSlaDeadline[] = [];
+  if (remindAt && !isReminded) pending.push({ kind: 'remind', at: remindAt });
+  if (escalateAt && !isEscalated) pending.push({ kind: 'escalate', at: escalateAt });
+  if (autoApproveAt) pending.push({ kind: 'autoApprove', at: autoApproveAt });
+
+  const due = (kind: ApprovalSlaDeadlineKind) =>
+    pending.some((deadline) => deadline.kind === kind && deadline.at <= now);
+  const upcoming = pending
+    .filter((deadline) => deadline.at > now)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  return {
+    isTracked: true,
+    remindAt,
+    escalateAt,
+    autoApproveAt,
+    // Once escalated, reminding the original approver no longer helps
+    isReminderDue: due('remind') && !isEscalated && !due('escalate'),
+    isEscalationDue: due('escalate'),
+    isEscalated,
+    isAutoApprovalOverdue: due('autoApprove'),
+    nextDeadline: upcoming[0] || null,
+  };
+}
+
+/**
+ * Compact countdown to a deadline, e.g. "45m", "3h 20m", "2d 4h"
+ */
+export function formatSlaCountdown(deadline: Date, now: Date = new Date()): string {
+  const minutes = Math.max(0, differenceInMinutes(deadline, now));
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const remainingMinutes = minutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+  return `${remainingMinutes}m`;
+}
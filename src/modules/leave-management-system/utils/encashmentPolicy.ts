@@ -0,0 +1,113 @@
+/**
+ * Encashment Policy
+ * Pure evaluation of how many leave days an employee may encash under the
+ * configuration's MonetizationPolicy
+ *
+ * - encashableCount: encashment requests allowed per leave year (0 = no limit)
+ * - encashableLimit: leave days that can be encashed per leave year (0 = no limit)
+ * - Open requests (pending manager or HR approval) are held against the balance
+ */
+
+import { isBefore } from 'date-fns';
+import { Encashment } from '../types/leave.types';
+import { LeaveBalanceModel, LMSConfiguration } from '../types/leaveConfiguration.types';
+import { getLeaveYearStart } from './leaveAccrualEngine';
+
+export interface EncashmentAllowance {
+  isEnabled: boolean; // monetization allowed for the leave type
+  balance: number; // balance left to encash after open requests
+  requestLimit: number;
+  requestsUsed: number; // this leave year
+  dayLimit: number;
+  daysUsed: number; // this leave year
+  maxDays: number; // most days that can be requested now
+}
+
+// Requests in these statuses count towards the yearly limits
+const ACTIVE_STATUSES = ['PENDING', 'MANAGER_APPROVED', 'APPROVED', 'PAID'];
+
+// Requests in these statuses have not been deducted from the balance yet
+const OPEN_STATUSES = ['PENDING', 'MANAGER_APPROVED'];
+
+const roundDays = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether employees can encash the leave type
+ */
+export const isEncashable = (configuration: LMSConfiguration) =>
+  configuration.category?.toLowerCase() === 'monetization' ||
+  (configuration.allowMonetization && !!configuration.monetizationPolicy);
+
+/**
+ * Encashment allowance for one leave type
+ *
+ * @param configuration - Leave configuration being encashed
+ * @param balance - Employee's balance for the leave type
+ * @param encashments - Employee's encashment requests (any leave type)
+ * @param asOf - Date the leave year is resolved for (defaults to today)
+ *
+ * @example
+ * const allowance = getEncashmentAllowance(config, balances[config.code], myEncashments);
+ * const error = validateEncashmentDays(5, allowance);
+ */
+export function getEncashmentAllowance(
+  configuration: LMSConfiguration,
+  balance: LeaveBalanceModel | undefined,
+  encashments: Encashment[],
+  asOf: Date = new Date()
+): EncashmentAllowance {
+  const yearStart = getLeaveYearStart(asOf, configuration.calendarConfiguration);
+  const sameType = encashments.filter(
+    (encashment) =>
+      encashment.absenceType === configuration.code &&
+      ACTIVE_STATUSES.includes(encashment.status?.toUpperCase())
+  );
+  const thisYear = sameType.filter((encashment) => !isBefore(new Date(encashment.createdAt), yearStart));
+
+  const openDays = sameType
+    .filter((encashment) => OPEN_STATUSES.includes(encashment.status?.toUpperCase()))
+    .reduce((sum, encashment) => sum + encashment.days, 0);
+  const available = balance?.encashable ?? balance?.available ?? 0;
+
+  const requestLimit = configuration.monetizationPolicy?.encashableCount ?? 0;
+  const dayLimit = configuration.monetizationPolicy?.encashableLimit ?? 0;
+  const requestsUsed = thisYear.length;
+  const daysUsed = roundDays(thisYear.reduce((sum, encashment) => sum + encashment.days, 0));
+  const remainingBalance = roundDays(Math.max(0, available - openDays));
+
+  const isEnabled = isEncashable(configuration);
+  const canRequest = isEnabled && (requestLimit === 0 || requestsUsed < requestLimit);
+  const maxDays = canRequest
+    ? roundDays(Math.max(0, Math.min(remainingBalance, dayLimit > 0 ? dayLimit - daysUsed : Infinity)))
+    : 0;
+
+  return {
+    isEnabled,
+    balance: remainingBalance,
+    requestLimit,
+    requestsUsed,
+    dayLimit,
+    daysUsed,
+    maxDays,
+  };
+}
+
+/**
+ * Validate the days requested for encashment
+ * @returns Error message, or null when the request is within the allowance
+ */
+export function validateEncashmentDays(days: number, allowance: EncashmentAllowance): string | null {
+  if (!allowance.isEnabled) return 'This leave type cannot be encashed';
+  if (!(days > 0)) return 'Enter the number of days to encash';
+  if (days % 0.5 !== 0) return 'Days must be in steps of half a day';
+  if (allowance.requestLimit > 0 && allowance.requestsUsed >= allowance.requestLimit) {
+    return `The limit of ${allowance.requestLimit} encashment request(s) for this leave year has been reached`;
+  }
+  if (days > allowance.balance) {
+    return `Only ${allowance.balance} day(s) are available to encash`;
+  }
+  if (allowance.dayLimit > 0 && days > allowance.dayLimit - allowance.daysUsed) {
+    return `At most ${allowance.dayLimit} day(s) can be encashed per leave year; ${allowance.daysUsed} already requested`;
+  }
+  return null;
+}
@@ -0,0 +1,274 @@
+/**
+ * Leave Accrual Engine
+ * Pure month-by-month projection of a leave balance under an LMS configuration
+ *
+ * Combines the credit policy (frequency, value, max limit, custom dates), the
+ * expire policy (carry forward, expire frequency, expiry after credit, custom
+ * dates) and the calendar configuration (leave year start month, month start day).
+ */
+
+import { addDays, addMonths, format, isAfter, isBefore, subDays } from 'date-fns';
+import {
+  CalendarConfiguration,
+  CreditPolicy,
+  ExpirePolicy,
+  LMSConfiguration,
+} from '../types/leaveConfiguration.types';
+
+export interface AccrualSimulationInput {
+  creditPolicy: CreditPolicy | null;
+  expirePolicy: ExpirePolicy | null;
+  calendarConfiguration: CalendarConfiguration | null;
+  startDate: Date; // events dated before this are ignored
+  months: number; // number of periods to project
+  openingBalance?: number;
+  monthlyConsumption?: number; // sample usage taken at the start of each period
+}
+
+/**
+ * One leave month (starts on CalendarConfiguration.startDay)
+ */
+export interface AccrualPeriod {
+  periodStart: string; // yyyy-MM-dd
+  periodEnd: string; // yyyy-MM-dd
+  label: string; // e.g. "Apr 2026"
+  opening: number;
+  credited: number;
+  consumed: number;
+  lapsed: number;
+  closing: number;
+  isYearEnd: boolean; // last period of the leave year
+  carriedForward: number; // balance moved into the next leave year (year-end periods only)
+}
+
+export interface AccrualProjection {
+  periods: AccrualPeriod[];
+  totalCredited: number;
+  totalConsumed: number;
+  totalLapsed: number;
+  closingBalance: number;
+}
+
+interface CreditLot {
+  amount: number;
+  expiresOn: Date | null; // only set for expiry after credit
+}
+
+const roundDays = (value: number) => Math.round(value * 100) / 100;
+
+const getStartDay = (calendar: CalendarConfiguration | null) =>
+  calendar?.monthType === 'custom' ? Math.min(Math.max(calendar.startDay || 1, 1), 28) : 1;
+
+const getStartMonthIndex = (calendar: CalendarConfiguration | null) =>
+  calendar?.yearType === 'custom' ? Math.min(Math.max(calendar.startMonth || 1, 1), 12) - 1 : 0;
+
+/**
+ * Start of the leave month containing the given date
+ */
+export function getPeriodStart(date: Date, calendar: CalendarConfiguration | null): Date {
+  const startDay = getStartDay(calendar);
+  const periodStart = new Date(date.getFullYear(), date.getMonth(), startDay);
+  return date.getDate() >= startDay ? periodStart : addMonths(periodStart, -1);
+}
+
+/**
+ * Start of the leave year containing the given date
+ */
+export function getLeaveYearStart(date: Date, calendar: CalendarConfiguration | null): Date {
+  const periodStart = getPeriodStart(date, calendar);
+  const startMonth = getStartMonthIndex(calendar);
+  const monthsIntoYear = (periodStart.getMonth() - startMonth + 12) % 12;
+  return addMonths(periodStart, -monthsIntoYear);
+}
+
+// Occurrences of yyyy-MM-dd dates, by month and day, inside [from, to]
+// Custom dates repeat every year
+const customDatesBetween = (customDates: string[], from: Date, to: Date): Date[] =>
+  customDates.flatMap((value) => {
+    const [, month, day] = value.split('-').map(Number);
+    if (!month || !day) return [];
+    return [from.getFullYear(), to.getFullYear()]
+      .filter((year, idx, years) => years.indexOf(year) === idx)
+      .map((year) => new Date(year, month - 1, day))
+      .filter((date) => !isBefore(date, from) && !isAfter(date, to));
+  });
+
+/**
+ * Project a leave balance month by month
+ *
+ * Within a period: scheduled credits, then consumption, then dated credits and
+ * lapses in date order, then period-end lapses (monthly / yearly expiry).
+ * Balances never go negative; consumption beyond the balance is not projected.
+ *
+ * @example
+ * const projection = simulateAccrual({
+ *   creditPolicy: { onDemandCredit: false, value: 1.5, frequency: 'monthly', customDates: [], maxLimit: 30 },
+ *   expirePolicy: { carryForward: false, expireFrequency: 'yearly', afterCreditExpiryDays: 0, customDates: [] },
+ *   calendarConfiguration: { monthType: 'standard', startDay: 1, yearType: 'custom', startMonth: 4 },
+ *   startDate: new Date(2026, 3, 1),
+ *   months: 12,
+ *   monthlyConsumption: 1,
+ * });
+ */
+export function simulateAccrual(input: AccrualSimulationInput): AccrualProjection {
+  const { creditPolicy, expirePolicy, calendarConfiguration: calendar, startDate } = input;
+  const monthlyConsumption = Math.max(0, input.monthlyConsumption ?? 0);
+  const startMonth = getStartMonthIndex(calendar);
+  const expires = !!expirePolicy && !expirePolicy.carryForward;
+  const autoCredit = !!creditPolicy && !creditPolicy.onDemandCredit && creditPolicy.value > 0;
+
+  let lots: CreditLot[] = [];
+  const balance = () => lots.reduce((sum, lot) => sum + lot.amount, 0);
+
+  const expiryFor = (creditedOn: Date) =>
+    expires && expirePolicy!.expireFrequency === 'afterCredit'
+      ? addDays(creditedOn, expirePolicy!.afterCreditExpiryDays || 0)
+      : null;
+
+  const credit = (creditedOn: Date) => {
+    const maxLimit = creditPolicy!.maxLimit;
+    const amount = maxLimit > 0
+      ? Math.min(creditPolicy!.value, Math.max(0, maxLimit - balance()))
+      : creditPolicy!.value;
+    if (amount > 0) lots.push({ amount, expiresOn: expiryFor(creditedOn) });
+    return amount;
+  };
+
+  // Consume from the lots that expire first
+  const consume = (days: number) => {
+    let remaining = days;
+    lots.sort((a, b) => (a.expiresOn?.getTime() ?? Infinity) - (b.expiresOn?.getTime() ?? Infinity));
+    for (const lot of lots) {
+      const used = Math.min(lot.amount, remaining);
+      lot.amount -= used;
+      remaining -= used;
+    }
+    lots = lots.filter((lot) => lot.amount > 0);
+    return days - remaining;
+  };
+
+  const lapseAll = () => {
+    const lapsed = balance();
+    lots = [];
+    return lapsed;
+  };
+
+  if (input.openingBalance && input.openingBalance > 0) {
+    lots.push({ amount: input.openingBalance, expiresOn: expiryFor(startDate) });
+  }
+
+  const periods: AccrualPeriod[] = [];
+  let periodStart = getPeriodStart(startDate, calendar);
+
+  for (let i = 0; i < input.months; i++) {
+    const nextPeriodStart = addMonths(periodStart, 1);
+    const periodEnd = subDays(nextPeriodStart, 1);
+    const monthsIntoYear = (periodStart.getMonth() - startMonth + 12) % 12;
+    const isYearEnd = monthsIntoYear === 11;
+    const opening = balance();
+    let credited = 0;
+    let lapsed = 0;
+
+    // Scheduled credits at the start of the period
+    if (autoCredit && !isBefore(periodStart, startDate)) {
+      const frequency = creditPolicy!.frequency;
+      if (
+        frequency === 'monthly' ||
+        (frequency === 'quarterly' && monthsIntoYear % 3 === 0) ||
+        (frequency === 'yearly' && monthsIntoYear === 0)
+      ) {
+        credited += credit(periodStart);
+      }
+    }
+
+    const consumed = consume(monthlyConsumption);
+
+    // Dated events within the period; lapses before credits on the same day
+    const eventsFrom = isBefore(periodStart, startDate) ? startDate : periodStart;
+    const events: { date: Date; apply: () => void }[] = [];
+    if (expires && expirePolicy!.expireFrequency === 'custom') {
+      customDatesBetween(expirePolicy!.customDates || [], eventsFrom, periodEnd).forEach((date) =>
+        events.push({ date, apply: () => (lapsed += lapseAll()) })
+      );
+    }
+    if (expires && expirePolicy!.expireFrequency === 'afterCredit') {
+      events.push({
+        date: periodEnd,
+        apply: () => {
+          const expired = lots.filter((lot) => lot.expiresOn && !isAfter(lot.expiresOn, periodEnd));
+          lapsed += expired.reduce((sum, lot) => sum + lot.amount, 0);
+          lots = lots.filter((lot) => !expired.includes(lot));
+        },
+      });
+    }
+    if (autoCredit && creditPolicy!.frequency === 'custom') {
+      customDatesBetween(creditPolicy!.customDates || [], eventsFrom, periodEnd).forEach((date) =>
+        events.push({ date, apply: () => (credited += credit(date)) })
+      );
+    }
+    events
+      .map((event, order) => ({ ...event, order }))
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || a.order - b.order)
+      .forEach((event) => event.apply());
+
+    // Period-end lapses
+    if (expires && (expirePolicy!.expireFrequency === 'monthly' || (expirePolicy!.expireFrequency === 'yearly' && isYearEnd))) {
+      lapsed += lapseAll();
+    }
+
+    const closing = balance();
+    periods.push({
+      periodStart: format(periodStart, 'yyyy-MM-dd'),
+      periodEnd: format(periodEnd, 'yyyy-MM-dd'),
+      label: format(periodStart, 'MMM yyyy'),
+      opening: roundDays(opening),
+      credited: roundDays(credited),
+      consumed: roundDays(consumed),
+      lapsed: roundDays(lapsed),
+      closing: roundDays(closing),
+      isYearEnd,
+      carriedForward: isYearEnd ? roundDays(closing) : 0,
+    });
+
+    periodStart = nextPeriodStart;
+  }
+
+  return {
+    periods,
+    totalCredited: roundDays(periods.reduce((sum, p) => sum + p.credited, 0)),
+    totalConsumed: roundDays(periods.reduce((sum, p) => sum + p.consumed, 0)),
+    totalLapsed: roundDays(periods.reduce((sum, p) => sum + p.lapsed, 0)),
+    closingBalance: periods.length > 0 ? periods[periods.length - 1].closing : roundDays(balance()),
+  };
+}
+
+/**
+ * Project the balance at the end of the current leave year
+ * Credits already received this period are assumed to be in the available balance.
+ *
+ * @param config - Leave configuration
+ * @param available - Current available balance
+ * @param asOf - Projection start (defaults to today)
+ * @returns Year-end period with the closing balance and any year-end lapse
+ */
+export function projectYearEndBalance(
+  config: LMSConfiguration,
+  available: number,
+  asOf: Date = new Date()
+): AccrualPeriod | null {
+  const calendar = config.calendarConfiguration;
+  // Start just after today so credits already received aren't counted twice
+  const startDate = addDays(asOf, 1);
+  const yearStart = getLeaveYearStart(startDate, calendar);
+  const monthsLeft = 12 - ((getPeriodStart(startDate, calendar).getMonth() - yearStart.getMonth() + 12) % 12);
+
+  const { periods } = simulateAccrual({
+    creditPolicy: config.allowCreditPolicy ? config.creditPolicy : null,
+    expirePolicy: config.allowExpirePolicy ? config.expirePolicy : null,
+    calendarConfiguration: calendar,
+    startDate,
+    months: monthsLeft,
+    openingBalance: available,
+  });
+  return periods[periods.length - 1] ?? null;
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { HolidayInfo } from '../types/leave.types';
+import { Holiday } from '../holiday-management/types';
+import { calculateLeaveDays, getObservedHolidays, LeaveDayCalculationInput } from './leaveDayCalculator';
+
+// Monday 2 March to Sunday 8 March 2026
+const MONDAY = new Date(2026, 2, 2);
+const FRIDAY = new Date(2026, 2, 6);
+const SUNDAY = new Date(2026, 2, 8);
+
+const WEEKENDS = ['SATURDAY', 'SUNDAY'];
+
+const holiday = (date: string, type: HolidayInfo['type'] = 'public'): HolidayInfo => ({
+  id: date,
+  name: `Holiday ${date}`,
+  date,
+  type,
+});
+
+const calculate = (overrides: Partial<LeaveDayCalculationInput> = {}) =>
+  calculateLeaveDays({
+    fromDate: MONDAY,
+    toDate: SUNDAY,
+    absenceCategory: 'fullDay',
+    weekends: WEEKENDS,
+    holidays: [],
+    ...overrides,
+  });
+
+describe('calculateLeaveDays', () => {
+  it('counts working days and skips weekends', () => {
+    const result = calculate();
+
+    expect(result.totalDays).toBe(5);
+    expect(result.workingDays).toBe(5);
+    expect(result.weekendDays).toBe(2);
+    expect(result.days.filter((day) => day.kind === 'weekend').map((day) => day.date)).toEqual([
+      '2026-03-07',
+      '2026-03-08',
+    ]);
+    expect(result.days.find((day) => day.date === '2026-03-07')?.units).toBe(0);
+  });
+
+  it('uses the shift weekends rather than Saturday and Sunday', () => {
+    const result = calculate({ weekends: ['FRIDAY'] });
+
+    expect(result.totalDays).toBe(6);
+    expect(result.days.find((day) => day.date === '2026-03-06')?.kind).toBe('weekend');
+  });
+
+  it('skips public holidays and reports them by name', () => {
+    const result = calculate({ toDate: FRIDAY, holidays: [holiday('2026-03-04')] });
+
+    expect(result.totalDays).toBe(4);
+    expect(result.holidayDays).toBe(1);
+    expect(result.days[2]).toMatchObject({ kind: 'holiday', holidayName: 'Holiday 2026-03-04', units: 0 });
+  });
+
+  it('reports a holiday on a weekend as the holiday', () => {
+    const result = calculate({ holidays: [holiday('2026-03-07')] });
+
+    expect(result.holidayDays).toBe(1);
+    expect(result.weekendDays).toBe(1);
+    expect(result.totalDays).toBe(5);
+  });
+
+  it('counts weekends and holidays when includeHolidaysWeekends is set', () => {
+    const result = calculate({ holidays: [holiday('2026-03-04')], includeHolidaysWeekends: true });
+
+    expect(result.totalDays).toBe(7);
+  });
+
+  it('counts a half day as 0.5 on the start date only', () => {
+    const result = calculate({ absenceCategory: 'partialDay', toDate: FRIDAY });
+
+    expect(result.days).toHaveLength(1);
+    expect(result.days[0]).toMatchObject({ date: '2026-03-02', units: 0.5 });
+    expect(result.totalDays).toBe(0.5);
+  });
+
+  it('does not charge a half day on a holiday', () => {
+    const result = calculate({ absenceCategory: 'partialDay', holidays: [holiday('2026-03-02')] });
+
+    expect(result.totalDays).toBe(0);
+  });
+
+  it('divides counted days by numberOfDaysPerOneLeave', () => {
+    expect(calculate({ numberOfDaysPerOneLeave: 2 }).totalDays).toBe(2.5);
+    expect(calculate({ numberOfDaysPerOneLeave: 3 }).totalDays).toBe(1.67);
+    expect(calculate({ absenceCategory: 'partialDay', numberOfDaysPerOneLeave: 2 }).totalDays).toBe(0.25);
+  });
+
+  it('ignores a missing or non-positive numberOfDaysPerOneLeave', () => {
+    expect(calculate({ numberOfDaysPerOneLeave: 0 }).totalDays).toBe(5);
+    expect(calculate({ numberOfDaysPerOneLeave: -1 }).totalDays).toBe(5);
+  });
+
+  it('has no Loss of Pay without an available balance', () => {
+    expect(calculate().lopDays).toBe(0);
+  });
+
+  it('splits days beyond the available balance into Loss of Pay in date order', () => {
+    const result = calculate({ availableBalance: 3 });
+
+    expect(result.totalDays).toBe(5);
+    expect(result.lopDays).toBe(2);
+    expect(result.days.map((day) => day.lopUnits)).toEqual([0, 0, 0, 1, 1, 0, 0]);
+  });
+
+  it('splits a day that is only partly covered by the balance', () => {
+    const result = calculate({ toDate: FRIDAY, availableBalance: 2.5 });
+
+    expect(result.lopDays).toBe(2.5);
+    expect(result.days[2]).toMatchObject({ units: 1, lopUnits: 0.5 });
+  });
+
+  it('charges everything as Loss of Pay when no balance is left', () => {
+    expect(calculate({ availableBalance: 0 }).lopDays).toBe(5);
+    expect(calculate({ availableBalance: -2 }).lopDays).toBe(5);
+  });
+
+  it('returns an empty calculation for a reversed or invalid range', () => {
+    expect(calculate({ fromDate: FRIDAY, toDate: MONDAY }).days).toEqual([]);
+    expect(calculate({ fromDate: 'not a date' }).totalDays).toBe(0);
+  });
+});
+
+describe('getObservedHolidays', () => {
+  const occurrence = (id: string, date: string, type: Holiday['type']) => ({
+    date,
+    holiday: {
+      id,
+      name: id,
+      description: null,
+      imageUrl: null,
+      date,
+      type,
+      recurrence: 'fixed',
+      companyIds: [],
+      workLocationIds: [],
+      createdAt: '',
+      updatedAt: '',
+    } as Holiday,
+  });
+
+  const occurrences = [
+    occurrence('founders-day', '2026-03-03', 'public'),
+    occurrence('festival', '2026-03-04', 'optional'),
+    occurrence('harvest', '2026-03-05', 'optional'),
+  ];
+
+  it('excludes optional holidays that were not picked', () => {
+    const holidays = getObservedHolidays(occurrences);
+
+    expect(holidays.map((h) => h.id)).toEqual(['founders-day']);
+    expect(calculate({ toDate: FRIDAY, holidays }).totalDays).toBe(4);
+  });
+
+  it('keeps picked optional holidays as days off', () => {
+    const holidays = getObservedHolidays(occurrences, ['harvest']);
+
+    expect(holidays.map((h) => h.id)).toEqual(['founders-day', 'harvest']);
+    expect(calculate({ toDate: FRIDAY, holidays }).totalDays).toBe(3);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Leave Day Calculator
+ * Pure calculation of how many leave days an absence consumes
+ *
+ * Shared by the apply page (preview before submit) and the approver views so
+ * both sides see the same per-day breakdown.
+ */
+
+import { eachDayOfInterval, format, isAfter, startOfDay } from 'date-fns';
+import { HolidayInfo } from '../types/leave.types';
+import { HolidayOccurrence } from '../holiday-management/types';
+import { toHolidayInfo } from '../holiday-management/utils/holidayCalendar';
+
+export type LeaveDayKind = 'working' | 'weekend' | 'holiday';
+
+/**
+ * Weekend days used when no shift settings are available
+ */
+export const DEFAULT_WEEKENDS = ['SATURDAY', 'SUNDAY'];
+
+// Index matches Date.getDay(); names match ShiftSettings.weekends
+export const WEEKDAY_NAMES = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
+
+/**
+ * A single calendar day within the requested range
+ */
+export interface LeaveDay {
+  date: string; // yyyy-MM-dd
+  kind: LeaveDayKind;
+  holidayName?: string;
+  units: number; // leave units consumed by this day (0 when not counted)
+  lopUnits: number; // portion of units that exceeds the available balance
+}
+
+export interface LeaveDayCalculationInput {
+  fromDate: Date | string; // Date or ISO instant
+  toDate: Date | string; // Date or ISO instant
+  absenceCategory: string; // fullDay / partialDay / partialTiming
+  weekends: string[]; // e.g., ['SATURDAY', 'SUNDAY']
+  holidays: HolidayInfo[];
+  includeHolidaysWeekends?: boolean; // Restrictions.includeHolidaysWeekends
+  numberOfDaysPerOneLeave?: number; // LMSProperties.numberOfDaysPerOneLeave
+  availableBalance?: number; // omit for leaves without a balance (no LOP)
+}
+
+export interface LeaveDayCalculation {
+  days: LeaveDay[];
+  totalDays: number;
+  lopDays: number;
+  workingDays: number;
+  weekendDays: number;
+  holidayDays: number;
+}
+
+// Leave units are tracked to two decimals (half days, custom day ratios)
+const roundUnits = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Holidays that are days off: public/restricted ones plus the picked optional ones
+ */
+export function getObservedHolidays(
+  occurrences: HolidayOccurrence[],
+  pickedHolidayIds: string[] = []
+): HolidayInfo[] {
+  const picked = new Set(pickedHolidayIds);
+  return occurrences
+    .filter((occurrence) => occurrence.holiday.type !== 'optional' || picked.has(occurrence.holiday.id))
+    .map(toHolidayInfo);
+}
+
+const toDay = (value: Date | string) => startOfDay(typeof value === 'string' ? new Date(value) : value);
+
+/**
+ * Calculate the leave days consumed by an absence
+ *
+ * - Partial day absences cover only the start date and count as half a day
+ * - Weekends and holidays are skipped unless includeHolidaysWeekends is set
+ * - Counted days are divided by numberOfDaysPerOneLeave (defaults to 1)
+ * - Units beyond availableBalance are Loss of Pay, consumed in date order
+ *
+ * @example
+ * const { totalDays, lopDays, days } = calculateLeaveDays({
+ *   fromDate: '2026-03-02T00:00:00.000Z',
+ *   toDate: '2026-03-06T00:00:00.000Z',
+ *   absenceCategory: 'fullDay',
+ *   weekends: ['SATURDAY', 'SUNDAY'],
+ *   holidays,
+ *   availableBalance: 3,
+ * });
+ */
+export function calculateLeaveDays(input: LeaveDayCalculationInput): LeaveDayCalculation {
+  const isPartial = input.absenceCategory !== 'fullDay';
+  const from = toDay(input.fromDate);
+  const to = isPartial ? from : toDay(input.toDate);
+
+  const emptyResult: LeaveDayCalculation = {
+    days: [],
+    totalDays: 0,
+    lopDays: 0,
+    workingDays: 0,
+    weekendDays: 0,
+    holidayDays: 0,
+  };
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || isAfter(from, to)) {
+    return emptyResult;
+  }
+
+  const weekends = new Set(input.weekends.map((day) => day.toUpperCase()));
+  const holidaysByDate = new Map(input.holidays.map((holiday) => [holiday.date, holiday]));
+  const ratio = input.numberOfDaysPerOneLeave && input.numberOfDaysPerOneLeave > 0
+    ? input.numberOfDaysPerOneLeave
+    : 1;
+  const unitsPerDay = (isPartial ? 0.5 : 1) / ratio;
+
+  let remainingBalance = input.availableBalance ?? Infinity;
+  let totalUnits = 0;
+  let totalLopUnits = 0;
+
+  const days = eachDayOfInterval({ start: from, end: to }).map((day): LeaveDay => {
+    const date = format(day, 'yyyy-MM-dd');
+    const holiday = holidaysByDate.get(date);
+    // A holiday on a weekend is reported as the holiday
+    const kind: LeaveDayKind = holiday
+      ? 'holiday'
+      : weekends.has(WEEKDAY_NAMES[day.getDay()])
+        ? 'weekend'
+        : 'working';
+
+    const units = kind === 'working' || input.includeHolidaysWeekends ? unitsPerDay : 0;
+    const paidUnits = Math.min(units, Math.max(0, remainingBalance));
+    remainingBalance -= units;
+    totalUnits += units;
+    totalLopUnits += units - paidUnits;
+
+    return {
+      date,
+      kind,
+      holidayName: holiday?.name,
+      units: roundUnits(units),
+      lopUnits: roundUnits(units - paidUnits),
+    };
+  });
+
+  return {
+    days,
+    totalDays: roundUnits(totalUnits),
+    lopDays: roundUnits(totalLopUnits),
+    workingDays: days.filter((day) => day.kind === 'working').length,
+    weekendDays: days.filter((day) => day.kind === 'weekend').length,
+    holidayDays: days.filter((day) => day.kind === 'holiday').length,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Leave Ledger
+ * Pure helpers that turn leave balance transactions into a running-balance
+ * ledger, reconcile it against the aggregate balance and export it to CSV
+ *
+ * - Transactions carry positive days; the transaction type gives the direction
+ * - Running balances are kept per leave type, in effective date order
+ * - Consumption is applications less cancellations
+ */
+
+import { format } from 'date-fns';
+import { toCsv } from '@/lib/csv';
+import { LeaveTransaction, LeaveTransactionType } from '../types/leave.types';
+import { LeaveBalanceModel } from '../types/leaveConfiguration.types';
+
+export interface LeaveLedgerEntry extends LeaveTransaction {
+  change: number; // Signed days applied to the balance
+  runningBalance: number; // Balance of the leave type after this entry
+}
+
+export interface LeaveLedgerReconciliation {
+  absenceType: string;
+  ledgerBalance: number;
+  reportedBalance: number | null; // null when the leave type has no available balance (FLEXIBLE)
+  ledgerConsumed: number;
+  reportedConsumed: number | null;
+  isReconciled: boolean;
+}
+
+export const LEAVE_TRANSACTION_LABELS: Record<LeaveTransactionType, string> = {
+  ACCRUAL: 'Accrual',
+  CARRY_FORWARD: 'Carry Forward',
+  APPLICATION: 'Leave Applied',
+  CANCELLATION: 'Leave Cancelled',
+  CREDIT: 'Manual Credit',
+  DEDUCTION: 'Manual Deduction',
+  LAPSE: 'Lapse',
+  ENCASHMENT: 'Encashment',
+};
+
+const TRANSACTION_DIRECTION: Record<LeaveTransactionType, 1 | -1> = {
+  ACCRUAL: 1,
+  CARRY_FORWARD: 1,
+  APPLICATION: -1,
+  CANCELLATION: 1,
+  CREDIT: 1,
+  DEDUCTION: -1,
+  LAPSE: -1,
+  ENCASHMENT: -1,
+};
+
+// Differences below this are rounding noise from half-day arithmetic
+const RECONCILIATION_TOLERANCE = 0.01;
+
+const roundDays = (value: number) => Math.round(value * 100) / 100;
+
+const byEffectiveDate = (a: LeaveTransaction, b: LeaveTransaction) =>
+  new Date(a.effectiveOn).getTime() - new Date(b.effectiveOn).getTime() ||
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+/**
+ * Build ledger entries with signed changes and per leave type running balances
+ * @returns Entries in effective date order (oldest first)
+ *
+ * @example
+ * const entries = buildLeaveLedger(transactions);
+ * const latest = entries.filter((entry) => entry.absenceType === 'PL').pop()?.runningBalance;
+ */
+export function buildLeaveLedger(transactions: LeaveTransaction[]): LeaveLedgerEntry[] {
+  const balances: Record<string, number> = {};
+
+  return [...transactions].sort(byEffectiveDate).map((transaction) => {
+    const change = roundDays((TRANSACTION_DIRECTION[transaction.type] ?? 1) * Math.abs(transaction.days));
+    const runningBalance = roundDays((balances[transaction.absenceType] ?? 0) + change);
+    balances[transaction.absenceType] = runningBalance;
+    return { ...transaction, change, runningBalance };
+  });
+}
+
+/**
+ * Compare the ledger against the aggregate balances of each leave type
+ * Leave types present on either side are included
+ * Expects the full transaction history; a partial one reports false mismatches
+ *
+ * @param entries - Ledger entries from buildLeaveLedger
+ * @param balances - Aggregate balances keyed by leave type code
+ */
+export function reconcileLeaveLedger(
+  entries: LeaveLedgerEntry[],
+  balances: Record<string, LeaveBalanceModel>
+): LeaveLedgerReconciliation[] {
+  const absenceTypes = new Set([...Object.keys(balances), ...entries.map((entry) => entry.absenceType)]);
+
+  return Array.from(absenceTypes).map((absenceType) => {
+    const typeEntries = entries.filter((entry) => entry.absenceType === absenceType);
+    const ledgerBalance = typeEntries.length > 0 ? typeEntries[typeEntries.length - 1].runningBalance : 0;
+    const ledgerConsumed = roundDays(
+      typeEntries.reduce((sum, entry) => {
+        if (entry.type === 'APPLICATION') return sum + Math.abs(entry.days);
+        if (entry.type === 'CANCELLATION') return sum - Math.abs(entry.days);
+        return sum;
+      }, 0)
+    );
+
+    const reportedBalance = balances[absenceType]?.available ?? null;
+    const reportedConsumed = balances[absenceType]?.consumed ?? null;
+    const matches = (reported: number | null, ledger: number) =>
+      reported === null || Math.abs(reported - ledger) < RECONCILIATION_TOLERANCE;
+
+    return {
+      absenceType,
+      ledgerBalance,
+      reportedBalance,
+      ledgerConsumed,
+      reportedConsumed,
+      isReconciled: matches(reportedBalance, ledgerBalance) && matches(reportedConsumed, ledgerConsumed),
+    };
+  });
+}
+
+/**
+ * Export ledger entries to CSV (RFC 4180)
+ *
+ * @param entries - Ledger entries from buildLeaveLedger
+ * @param leaveTypeNames - Leave type names keyed by code
+ */
+export function leaveLedgerToCsv(
+  entries: LeaveLedgerEntry[],
+  leaveTypeNames: Record<string, string> = {}
+): string {
+  const header = ['Date', 'Leave Type', 'Transaction', 'Days', 'Running Balance', 'Actor', 'Reference', 'Remarks'];
+  const rows = entries.map((entry) => [
+    format(new Date(entry.effectiveOn), 'yyyy-MM-dd'),
+    leaveTypeNames[entry.absenceType] || entry.absenceType,
+    LEAVE_TRANSACTION_LABELS[entry.type] || entry.type,
+    entry.change > 0 ? `+${entry.change}` : entry.change,
+    entry.runningBalance,
+    entry.actorName || entry.actorEmail || 'System',
+    entry.referenceId,
+    entry.remarks,
+  ]);
+
+  return toCsv([header, ...rows]);
+}
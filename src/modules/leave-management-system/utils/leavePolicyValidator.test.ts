@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { AbsenceApplication, AbsenceCarrier } from '../types/leave.types';
+import { LMSConfiguration } from '../types/leaveConfiguration.types';
+import { evaluateLeavePolicy } from './leavePolicyValidator';
+
+const configuration = {
+  name: 'Casual Leave',
+  code: 'CL',
+  lmsProperties: { allowedTypes: [] },
+  allowRestrictions: false,
+  restrictions: null,
+} as unknown as LMSConfiguration;
+
+const DAY = '2026-03-02T00:00:00.000';
+
+const draft = (overrides: Partial<AbsenceCarrier> = {}): AbsenceCarrier => ({
+  fromDate: DAY,
+  toDate: DAY,
+  absenceType: 'CL',
+  absenceCategory: 'partialDay',
+  reason: 'Appointment',
+  createdAt: DAY,
+  ...overrides,
+});
+
+const application = (overrides: Partial<AbsenceApplication> = {}) =>
+  ({
+    id: 'ABS-1',
+    employeeId: 'EMP-1',
+    status: 'APPROVED',
+    ...draft(),
+    ...overrides,
+  }) as AbsenceApplication;
+
+const overlapIssues = (request: AbsenceCarrier, existing: AbsenceApplication) =>
+  evaluateLeavePolicy({ draft: request, configuration, existingApplications: [existing] }).violations.filter(
+    (issue) => issue.rule === 'overlap'
+  );
+
+describe('evaluateLeavePolicy overlap rule', () => {
+  it('flags a request overlapping a full day leave', () => {
+    const existing = application({ absenceCategory: 'fullDay', toDate: '2026-03-04T00:00:00.000' });
+
+    expect(overlapIssues(draft({ partialDaySelection: 'secondHalf' }), existing)).toHaveLength(1);
+  });
+
+  it('allows the other half of a half day already taken', () => {
+    const existing = application({ partialDaySelection: 'firstHalf' });
+
+    expect(overlapIssues(draft({ partialDaySelection: 'secondHalf' }), existing)).toHaveLength(0);
+    expect(overlapIssues(draft({ partialDaySelection: 'firstHalf' }), existing)).toHaveLength(1);
+  });
+
+  it('compares partial timings on the same date', () => {
+    const existing = application({ fromTime: '2026-03-02T09:00:00.000', toTime: '2026-03-02T11:00:00.000' });
+
+    expect(
+      overlapIssues(draft({ fromTime: '2026-03-02T11:00:00.000', toTime: '2026-03-02T13:00:00.000' }), existing)
+    ).toHaveLength(0);
+    expect(
+      overlapIssues(draft({ fromTime: '2026-03-02T10:00:00.000', toTime: '2026-03-02T12:00:00.000' }), existing)
+    ).toHaveLength(1);
+  });
+
+  it('compares "HH:mm" timings from the time picker with submitted ones', () => {
+    const existing = application({ fromTime: '2026-03-02T09:00:00.000', toTime: '2026-03-02T11:00:00.000' });
+
+    expect(overlapIssues(draft({ fromTime: '10:30', toTime: '12:00' }), existing)).toHaveLength(1);
+    expect(overlapIssues(draft({ fromTime: '11:00', toTime: '12:00' }), existing)).toHaveLength(0);
+    expect(
+      overlapIssues(draft({ fromTime: '14:00', toTime: '15:30' }), application({ fromTime: '15:00', toTime: '16:00' }))
+    ).toHaveLength(1);
+  });
+
+  it('treats partial days without halves or timings as clashing', () => {
+    expect(overlapIssues(draft(), application())).toHaveLength(1);
+  });
+
+  it('ignores partial days on other dates and inactive applications', () => {
+    expect(overlapIssues(draft({ fromDate: '2026-03-03T00:00:00.000', toDate: '2026-03-03T00:00:00.000' }), application())).toHaveLength(0);
+    expect(overlapIssues(draft(), application({ status: 'CANCELLED' }))).toHaveLength(0);
+  });
+});
+
+describe('evaluateLeavePolicy maxRequestsPerYear rule', () => {
+  // One request per leave year running April to March
+  const fiscalConfiguration = {
+    ...configuration,
+    allowRestrictions: true,
+    restrictions: { maxConsecutiveDays: 0, minGapBetweenLeaves: 0, maxRequestsPerYear: 1 },
+    calendarConfiguration: { monthType: 'standard', startDay: 1, yearType: 'custom', startMonth: 4 },
+  } as unknown as LMSConfiguration;
+
+  const limitIssues = (request: AbsenceCarrier, existing: AbsenceApplication) =>
+    evaluateLeavePolicy({
+      draft: request,
+      configuration: fiscalConfiguration,
+      existingApplications: [existing],
+    }).violations.filter((issue) => issue.rule === 'maxRequestsPerYear');
+
+  const fullDay = (date: string) => ({ fromDate: date, toDate: date, absenceCategory: 'fullDay' });
+
+  it('counts requests within the leave year across the calendar year boundary', () => {
+    const january = application({ id: 'ABS-2', ...fullDay('2027-01-11T00:00:00.000') });
+
+    expect(limitIssues(draft(fullDay('2026-05-04T00:00:00.000')), january)).toHaveLength(1);
+  });
+
+  it('starts a new count when the leave year starts', () => {
+    const march = application({ id: 'ABS-2', ...fullDay('2026-03-09T00:00:00.000') });
+
+    expect(limitIssues(draft(fullDay('2026-04-06T00:00:00.000')), march)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Leave Policy Validator
+ * Pure evaluation of an absence request against its LMSConfiguration
+ *
+ * Mirrors the restrictions and applicability rules enforced by the backend so
+ * employees see violations before submitting and approvers see the same result.
+ */
+
+import { addMonths, differenceInCalendarDays, format, isBefore, startOfDay } from 'date-fns';
+import { AbsenceApplication, AbsenceCarrier } from '../types/leave.types';
+import { LMSConfiguration } from '../types/leaveConfiguration.types';
+import { getLeaveYearStart } from './leaveAccrualEngine';
+
+export type PolicySeverity = 'violation' | 'warning';
+
+export type PolicyRule =
+  | 'absenceCategory'
+  | 'gender'
+  | 'maritalStatus'
+  | 'employeeType'
+  | 'probation'
+  | 'overlap'
+  | 'maxConsecutiveDays'
+  | 'minGapBetweenLeaves'
+  | 'maxRequestsPerYear';
+
+export interface PolicyIssue {
+  rule: PolicyRule;
+  severity: PolicySeverity;
+  message: string;
+}
+
+/**
+ * Employee attributes used by the applicability and probation rules
+ * Unknown attributes are reported as warnings instead of violations
+ */
+export interface LeavePolicyProfile {
+  gender?: string; // MALE / FEMALE / OTHER
+  maritalStatus?: string; // SINGLE / MARRIED / DIVORCED / WIDOWED
+  employeeType?: string; // employee type id
+  joiningDate?: string; // ISO instant
+  probationPeriod?: number; // months
+}
+
+export interface LeavePolicyInput {
+  draft: AbsenceCarrier;
+  configuration: LMSConfiguration;
+  existingApplications: AbsenceApplication[]; // the employee's other applications
+  profile?: LeavePolicyProfile; // omit to skip applicability and probation rules
+  excludeApplicationId?: string; // set when evaluating an already submitted application
+}
+
+export interface LeavePolicyEvaluation {
+  violations: PolicyIssue[];
+  warnings: PolicyIssue[];
+  isAllowed: boolean;
+}
+
+// Applications in these statuses no longer hold leave days
+const INACTIVE_STATUSES = ['rejected', 'cancelled', 'canceled'];
+
+const toDay = (value: string) => startOfDay(new Date(value));
+
+const formatDay = (value: string) => format(toDay(value), 'MMM dd, yyyy');
+
+// Number of calendar days strictly between two ranges (0 when adjacent, negative when overlapping)
+const daysBetween = (
+  a: { fromDate: string; toDate: string },
+  b: { fromDate: string; toDate: string }
+) => {
+  const [first, second] = isBefore(toDay(a.fromDate), toDay(b.fromDate)) ? [a, b] : [b, a];
+  return differenceInCalendarDays(toDay(second.fromDate), toDay(first.toDate)) - 1;
+};
+
+type AbsenceSpan = Pick<
+  AbsenceCarrier,
+  'fromDate' | 'toDate' | 'absenceCategory' | 'partialDaySelection' | 'fromTime' | 'toTime'
+>;
+
+// Timings are "HH:mm" from the time picker, or ISO instants read in local time
+const minutesOfDay = (time: string) => {
+  const clock = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const instant = new Date(time);
+  return instant.getHours() * 60 + instant.getMinutes();
+};
+
+// Partial day absences on the same date clash only when their timings or halves do
+const overlaps = (a: AbsenceSpan, b: AbsenceSpan) => {
+  if (daysBetween(a, b) >= 0) return false;
+  if (a.absenceCategory === 'fullDay' || b.absenceCategory === 'fullDay') return true;
+
+  if (a.fromTime && a.toTime && b.fromTime && b.toTime) {
+    return minutesOfDay(a.fromTime) < minutesOfDay(b.toTime) && minutesOfDay(b.fromTime) < minutesOfDay(a.toTime);
+  }
+  if (a.partialDaySelection && b.partialDaySelection) {
+    return a.partialDaySelection === b.partialDaySelection;
+  }
+  // Without timings or halves on both sides the clash cannot be ruled out
+  return true;
+};
+
+// Draft absence categories map onto LMSProperties.allowedTypes
+const toAllowedType = (draft: AbsenceCarrier) => {
+  if (draft.absenceCategory === 'fullDay') return 'fullDay';
+  return draft.fromTime && draft.toTime ? 'partialTimings' : 'partialDay';
+};
+
+const allowedTypeLabels: Record<string, string> = {
+  fullDay: 'full day',
+  partialDay: 'half day',
+  partialTimings: 'partial timing',
+};
+
+const matchesCategory = (configured: string | undefined, actual: string) =>
+  !configured || configured.toLowerCase() === 'all' || configured.toLowerCase() === actual.toLowerCase();
+
+function evaluateApplicability(
+  configuration: LMSConfiguration,
+  profile: LeavePolicyProfile,
+  draft: AbsenceCarrier,
+  addIssue: (rule: PolicyRule, severity: PolicySeverity, message: string) => void
+) {
+  const categories = configuration.applicableCategories;
+
+  if (categories?.gender && categories.gender.toLowerCase() !== 'all') {
+    if (!profile.gender) {
+      addIssue('gender', 'warning', `Gender could not be verified; ${configuration.name} applies to ${categories.gender} employees only`);
+    } else if (!matchesCategory(categories.gender, profile.gender)) {
+      addIssue('gender', 'violation', `${configuration.name} applies to ${categories.gender} employees only`);
+    }
+  }
+
+  if (categories?.marriedStatus && categories.marriedStatus.toLowerCase() !== 'all') {
+    if (!profile.maritalStatus) {
+      addIssue('maritalStatus', 'warning', `Marital status could not be verified; ${configuration.name} applies to ${categories.marriedStatus} employees only`);
+    } else {
+      // Anyone not currently married counts as single for leave eligibility
+      const status = profile.maritalStatus.toLowerCase() === 'married' ? 'married' : 'single';
+      if (!matchesCategory(categories.marriedStatus, status)) {
+        addIssue('maritalStatus', 'violation', `${configuration.name} applies to ${categories.marriedStatus} employees only`);
+      }
+    }
+  }
+
+  const employeeTypeIds = categories?.employeeTypeIds || [];
+  if (employeeTypeIds.length > 0 && !employeeTypeIds.some((id) => id.toLowerCase() === 'all')) {
+    if (!profile.employeeType) {
+      addIssue('employeeType', 'warning', `Employee type could not be verified for ${configuration.name}`);
+    } else if (!employeeTypeIds.some((id) => id.toLowerCase() === profile.employeeType!.toLowerCase())) {
+      addIssue('employeeType', 'violation', `${configuration.name} is not available for your employee type`);
+    }
+  }
+
+  if (configuration.allowRestrictions && configuration.restrictions?.probationRestrictions?.allowed === false) {
+    if (!profile.joiningDate) {
+      addIssue('probation', 'warning', 'Probation status could not be verified');
+    } else {
+      const probationEnd = addMonths(toDay(profile.joiningDate), profile.probationPeriod ?? 0);
+      if (isBefore(toDay(draft.fromDate), probationEnd)) {
+        addIssue('probation', 'violation', `${configuration.name} cannot be taken during probation (ends ${format(probationEnd, 'MMM dd, yyyy')})`);
+      }
+    }
+  }
+}
+
+/**
+ * Evaluate an absence request against its leave configuration
+ *
+ * Violations block submission; warnings are informational.
+ *
+ * @example
+ * const { isAllowed, violations, warnings } = evaluateLeavePolicy({
+ *   draft,
+ *   configuration,
+ *   existingApplications: myApplications,
+ *   profile: { gender: 'FEMALE', joiningDate: '2026-01-05T00:00:00Z', probationPeriod: 3 },
+ * });
+ */
+export function evaluateLeavePolicy(input: LeavePolicyInput): LeavePolicyEvaluation {
+  const { draft, configuration, profile, excludeApplicationId } = input;
+  const issues: PolicyIssue[] = [];
+  const addIssue = (rule: PolicyRule, severity: PolicySeverity, message: string) =>
+    issues.push({ rule, severity, message });
+
+  const activeApplications = input.existingApplications.filter(
+    (application) =>
+      application.id !== excludeApplicationId &&
+      !INACTIVE_STATUSES.includes(application.status?.toLowerCase())
+  );
+  const sameTypeApplications = activeApplications.filter(
+    (application) => application.absenceType === draft.absenceType
+  );
+
+  // Absence category
+  const allowedTypes = configuration.lmsProperties?.allowedTypes || [];
+  const allowedType = toAllowedType(draft);
+  if (allowedTypes.length > 0 && !allowedTypes.includes(allowedType)) {
+    addIssue('absenceCategory', 'violation', `${configuration.name} does not allow ${allowedTypeLabels[allowedType]} absences`);
+  }
+
+  if (profile) {
+    evaluateApplicability(configuration, profile, draft, addIssue);
+  }
+
+  // Overlap with any other active application
+  const overlapping = activeApplications.find((application) => overlaps(application, draft));
+  if (overlapping) {
+    addIssue('overlap', 'violation', `Overlaps with an existing ${overlapping.absenceType} application (${formatDay(overlapping.fromDate)} - ${formatDay(overlapping.toDate)})`);
+  }
+
+  const restrictions = configuration.allowRestrictions ? configuration.restrictions : null;
+  if (restrictions) {
+    const requestedSpan = differenceInCalendarDays(toDay(draft.toDate), toDay(draft.fromDate)) + 1;
+
+    if (restrictions.maxConsecutiveDays > 0) {
+      if (requestedSpan > restrictions.maxConsecutiveDays) {
+        addIssue('maxConsecutiveDays', 'violation', `At most ${restrictions.maxConsecutiveDays} consecutive day(s) can be applied; this request spans ${requestedSpan}`);
+      } else {
+        // Back-to-back applications of the same type may be treated as one continuous leave
+        const adjacentSpan = sameTypeApplications
+          .filter((application) => daysBetween(application, draft) === 0)
+          .reduce(
+            (span, application) =>
+              span + differenceInCalendarDays(toDay(application.toDate), toDay(application.fromDate)) + 1,
+            requestedSpan
+          );
+        if (adjacentSpan > restrictions.maxConsecutiveDays) {
+          addIssue('maxConsecutiveDays', 'warning', `Together with adjacent ${configuration.name} applications this makes ${adjacentSpan} consecutive days (limit ${restrictions.maxConsecutiveDays})`);
+        }
+      }
+    }
+
+    if (restrictions.minGapBetweenLeaves > 0) {
+      const tooClose = sameTypeApplications.find((application) => {
+        const gap = daysBetween(application, draft);
+        return gap >= 0 && gap < restrictions.minGapBetweenLeaves;
+      });
+      if (tooClose) {
+        addIssue('minGapBetweenLeaves', 'violation', `${configuration.name} requires a gap of ${restrictions.minGapBetweenLeaves} day(s) between leaves; the nearest one is ${formatDay(tooClose.fromDate)} - ${formatDay(tooClose.toDate)}`);
+      }
+    }
+
+    if (restrictions.maxRequestsPerYear > 0) {
+      // Counted per leave year of the configuration, e.g. April to March
+      const yearStart = getLeaveYearStart(toDay(draft.fromDate), configuration.calendarConfiguration);
+      const nextYearStart = addMonths(yearStart, 12);
+      const requestsThisYear = sameTypeApplications.filter((application) => {
+        const from = toDay(application.fromDate);
+        return !isBefore(from, yearStart) && isBefore(from, nextYearStart);
+      }).length;
+      const year = `the leave year starting ${format(yearStart, 'MMM dd, yyyy')}`;
+      if (requestsThisYear >= restrictions.maxRequestsPerYear) {
+        addIssue('maxRequestsPerYear', 'violation', `The limit of ${restrictions.maxRequestsPerYear} ${configuration.name} request(s) for ${year} has been reached`);
+      } else if (requestsThisYear === restrictions.maxRequestsPerYear - 1) {
+        addIssue('maxRequestsPerYear', 'warning', `This is the last ${configuration.name} request allowed for ${year}`);
+      }
+    }
+  }
+
+  const violations = issues.filter((issue) => issue.severity === 'violation');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+  return { violations, warnings, isAllowed: violations.length === 0 };
+}
+
+/**
+ * Evaluate a submitted application for approvers
+ * Only the same employee's other applications are considered; profile rules are skipped
+ *
+ * @param application - Application under review
+ * @param configuration - Configuration of the application's absence type
+ * @param applications - Applications loaded alongside it (any employee)
+ */
+export function evaluateApplicationPolicy(
+  application: AbsenceApplication,
+  configuration: LMSConfiguration,
+  applications: AbsenceApplication[]
+): LeavePolicyEvaluation {
+  return evaluateLeavePolicy({
+    draft: application,
+    configuration,
+    existingApplications: applications.filter((other) => other.employeeId === application.employeeId),
+    excludeApplicationId: application.id,
+  });
+}
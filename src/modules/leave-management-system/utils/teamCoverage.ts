@@ -0,0 +1,174 @@
+/**
+ * Team Coverage
+ * Pure per-day availability of a team built from its absence applications
+ *
+ * Feeds the team leave calendar heatmap and the coverage warning shown to
+ * approvers before a request is approved.
+ */
+
+import { eachDayOfInterval, format, isAfter, isBefore, startOfDay } from 'date-fns';
+import UniversalSearchRequest from '@/types/search';
+import { AbsenceApplication } from '../types/leave.types';
+import { WEEKDAY_NAMES } from './leaveDayCalculator';
+
+/**
+ * Approver preferences for coverage warnings
+ */
+export interface CoverageSettings {
+  threshold: number; // minimum % of the team that should be available
+  teamSize: number; // 0 = the manager's active reportees
+}
+
+export const DEFAULT_COVERAGE_SETTINGS: CoverageSettings = {
+  threshold: 70,
+  teamSize: 0,
+};
+
+/**
+ * Availability of the team on a single day
+ */
+export interface TeamCoverageDay {
+  date: string; // yyyy-MM-dd
+  absences: AbsenceApplication[]; // applications covering this day
+  absentUnits: number; // employees out; half days count as 0.5
+  availablePercent: number;
+  isWeekend: boolean;
+}
+
+export interface TeamCoverageInput {
+  applications: AbsenceApplication[];
+  from: Date;
+  to: Date;
+  teamSize: number;
+  weekends: string[];
+  includePending?: boolean; // count pending applications as absent
+}
+
+export interface ApprovalCoverageInput {
+  application: AbsenceApplication; // application about to be approved
+  applications: AbsenceApplication[]; // other team applications around the same dates
+  teamSize: number;
+  threshold: number;
+  weekends: string[];
+}
+
+export interface ApprovalCoverageImpact {
+  employeeId: string; // applicant
+  days: TeamCoverageDay[]; // working days of the application, with it counted as approved
+  lowDays: TeamCoverageDay[]; // days that would fall below the threshold
+  lowestPercent: number;
+}
+
+const toDay = (value: string) => startOfDay(new Date(value));
+
+const isApproved = (application: AbsenceApplication) =>
+  application.status?.toLowerCase() === 'approved';
+
+const isPending = (application: AbsenceApplication) =>
+  application.status?.toLowerCase() === 'pending';
+
+// Partial day absences only cover the start date
+const getAbsenceEnd = (application: AbsenceApplication) =>
+  application.absenceCategory === 'fullDay' ? toDay(application.toDate) : toDay(application.fromDate);
+
+/**
+ * Search request for team applications overlapping a date range
+ * Rejected and cancelled applications are left out
+ */
+export function buildTeamAbsenceRangeRequest(from: Date, to: Date): UniversalSearchRequest {
+  return {
+    searchText: undefined,
+    searchFields: [],
+    filters: {
+      and: {
+        fromDate: { op: 'lte', value: format(to, "yyyy-MM-dd'T'23:59:59'Z'") },
+        toDate: { op: 'gte', value: format(from, "yyyy-MM-dd'T'00:00:00'Z'") },
+        status: { op: 'nin', values: ['REJECTED', 'CANCELLED'] },
+      },
+    },
+    sort: { fromDate: 1 },
+  };
+}
+
+/**
+ * Team size to compute availability against
+ * Falls back to the manager's reportee count when not configured; null while that is unknown
+ */
+export function resolveTeamSize(configuredSize: number, reporteeCount: number | null): number | null {
+  if (configuredSize > 0) return configuredSize;
+  return reporteeCount !== null && reporteeCount > 0 ? reporteeCount : null;
+}
+
+/**
+ * Per-day team availability between two dates (inclusive)
+ *
+ * @example
+ * const days = buildTeamCoverage({
+ *   applications,
+ *   from: startOfMonth(today),
+ *   to: endOfMonth(today),
+ *   teamSize: 8,
+ *   weekends: ['SATURDAY', 'SUNDAY'],
+ * });
+ */
+export function buildTeamCoverage(input: TeamCoverageInput): TeamCoverageDay[] {
+  const from = startOfDay(input.from);
+  const to = startOfDay(input.to);
+  if (isAfter(from, to)) return [];
+
+  const weekends = new Set(input.weekends.map((day) => day.toUpperCase()));
+  const counted = input.applications.filter(
+    (application) => isApproved(application) || (input.includePending && isPending(application))
+  );
+  const teamSize = Math.max(input.teamSize, 1);
+
+  return eachDayOfInterval({ start: from, end: to }).map((day) => {
+    const absences = counted.filter(
+      (application) =>
+        !isAfter(toDay(application.fromDate), day) && !isBefore(getAbsenceEnd(application), day)
+    );
+
+    // One employee can hold several applications on the same day; count them once
+    const unitsByEmployee = new Map<string, number>();
+    absences.forEach((application) => {
+      const units = application.absenceCategory === 'fullDay' ? 1 : 0.5;
+      unitsByEmployee.set(
+        application.employeeId,
+        Math.min((unitsByEmployee.get(application.employeeId) ?? 0) + units, 1)
+      );
+    });
+    const absentUnits = Array.from(unitsByEmployee.values()).reduce((sum, units) => sum + units, 0);
+
+    return {
+      date: format(day, 'yyyy-MM-dd'),
+      absences,
+      absentUnits,
+      availablePercent: Math.max(0, Math.round(((teamSize - absentUnits) / teamSize) * 100)),
+      isWeekend: weekends.has(WEEKDAY_NAMES[day.getDay()]),
+    };
+  });
+}
+
+/**
+ * Team availability on the days of an application if it were approved
+ * Weekends are ignored; only approved applications of others are counted.
+ */
+export function evaluateApprovalCoverage(input: ApprovalCoverageInput): ApprovalCoverageImpact {
+  const { application, threshold } = input;
+  const others = input.applications.filter((other) => other.id !== application.id);
+
+  const days = buildTeamCoverage({
+    applications: [...others, { ...application, status: 'APPROVED' }],
+    from: toDay(application.fromDate),
+    to: getAbsenceEnd(application),
+    teamSize: input.teamSize,
+    weekends: input.weekends,
+  }).filter((day) => !day.isWeekend);
+
+  return {
+    employeeId: application.employeeId,
+    days,
+    lowDays: days.filter((day) => day.availablePercent < threshold),
+    lowestPercent: days.length > 0 ? Math.min(...days.map((day) => day.availablePercent)) : 100,
+  };
+}
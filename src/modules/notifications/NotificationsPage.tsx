@@ -1,11 +1,17 @@
 /**
  * Notifications Page Component
  * Displays and manages space connection requests and other notifications
+ * Leave approval reminders/escalations link to the team applications tab
+ * Weekly attendance digests link to the manager's attendance anomalies
+ * Visitor arrivals tell the host their visitor has checked in at reception
+ *
+ * Notifications addressed to one person carry the recipient in their metadata
+ * and are only loaded for the signed-in user.
  */
 
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Bell, Check, X, Building2, Clock } from 'lucide-react';
+import { ArrowLeft, Bell, Check, X, Building2, Clock, CalendarClock, UserCheck, UserX } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -13,11 +19,24 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { PageLayout } from '@/components/PageLayout';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
-import { Notification, SpaceConnectionRequestMetadata } from './notificationTypes';
+import {
+  AttendanceAnomalyDigestMetadata,
+  LeaveApprovalSlaMetadata,
+  Notification,
+  NotificationType,
+  SpaceConnectionRequestMetadata,
+  VisitorCheckInMetadata,
+} from './notificationTypes';
 import { useNotification } from '@/contexts/NotificationContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { FiltersMap } from '@/types/search';
+import { NotificationCard } from './components/NotificationCard';
 
 // Type alias for space connection notifications
 type SpaceConnectionNotification = Notification<SpaceConnectionRequestMetadata>;
+type LeaveApprovalNotification = Notification<LeaveApprovalSlaMetadata>;
+type AttendanceDigestNotification = Notification<AttendanceAnomalyDigestMetadata>;
+type VisitorArrivalNotification = Notification<VisitorCheckInMetadata>;
 
 // Track processed requests with their status
 type ProcessedRequest = {
@@ -29,8 +48,12 @@ type ProcessedRequest = {
 export function NotificationsPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user } = useAuth();
   const { refreshNotifications, updateNotification } = useNotification();
   const [notifications, setNotifications] = useState<SpaceConnectionNotification[]>([]);
+  const [leaveNotifications, setLeaveNotifications] = useState<LeaveApprovalNotification[]>([]);
+  const [digestNotifications, setDigestNotifications] = useState<AttendanceDigestNotification[]>([]);
+  const [arrivalNotifications, setArrivalNotifications] = useState<VisitorArrivalNotification[]>([]);
   const [processedRequests, setProcessedRequests] = useState<ProcessedRequest[]>([]);
   const [loading, setLoading] = useState(false);
 
@@ -62,14 +85,45 @@ export function NotificationsPage() {
     return request?.decision || null;
   };
 
+  // Unarchived notifications of the given types whose metadata names the current user
+  const loadAddressedNotifications = async <T,>(types: NotificationType[], recipientFields: string[]) => {
+    const currentEmail = user?.email;
+    if (!currentEmail) return [];
+
+    const recipients: FiltersMap = {};
+    recipientFields.forEach((field) => {
+      recipients[field] = currentEmail;
+    });
+    const response = await refreshNotifications<T>(
+      {
+        filters: { and: { type: types, status: ['unread', 'read'] }, or: recipients },
+        sort: { createdAt: -1 },
+      },
+      0,
+      100
+    );
+    return response?.content || [];
+  };
+
   const loadNotifications = async () => {
     try {
       // Use context to load notifications
-      const response = await refreshNotifications<SpaceConnectionRequestMetadata>(
-        {}, // Empty search criteria to get all
-        0,  // page
-        100 // pageSize
-      );
+      const [response, leaveApprovals, digests, arrivals] = await Promise.all([
+        refreshNotifications(
+          {}, // Empty search criteria to get all
+          0,  // page
+          100 // pageSize
+        ),
+        loadAddressedNotifications<LeaveApprovalSlaMetadata>(
+          ['leave_approval_reminder', 'leave_approval_escalation'],
+          ['metadata.approver', 'metadata.escalatedTo']
+        ),
+        loadAddressedNotifications<AttendanceAnomalyDigestMetadata>(['attendance_anomaly_digest'], ['metadata.manager']),
+        loadAddressedNotifications<VisitorCheckInMetadata>(['visitor_checked_in'], ['metadata.host']),
+      ]);
+      setLeaveNotifications(leaveApprovals);
+      setDigestNotifications(digests);
+      setArrivalNotifications(arrivals);
       
       if (response) {
         // Filter for space connection request type
@@ -160,6 +214,30 @@ export function NotificationsPage() {
     }
   };
 
+  // Mark the reminder/escalation as read and open the team applications for approval
+  const handleReviewLeave = async (notification: LeaveApprovalNotification) => {
+    if (notification.status === 'unread') {
+      await updateNotification(notification.id, { status: 'read' });
+    }
+    navigate('/leave-holiday?mainTab=applications&applicationsTab=team-applications');
+  };
+
+  // Mark the digest as read and open the team's attendance anomalies
+  const handleReviewDigest = async (notification: AttendanceDigestNotification) => {
+    if (notification.status === 'unread') {
+      await updateNotification(notification.id, { status: 'read' });
+    }
+    navigate('/attendance-management');
+  };
+
+  // Mark the arrival as read and open the visitor list
+  const handleViewArrival = async (notification: VisitorArrivalNotification) => {
+    if (notification.status === 'unread') {
+      await updateNotification(notification.id, { status: 'read' });
+    }
+    navigate('/visitor-management');
+  };
+
   const pendingNotifications = notifications.filter(n => n.status === 'unread');
   const processedNotifications = notifications.filter(n => n.status === 'read');
 
@@ -254,6 +332,117 @@ export function NotificationsPage() {
           </div>
         )}
 
+        {/* Leave Approvals */}
+        {leaveNotifications.length > 0 && (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold">Leave Approvals</h2>
+              <p className="text-sm text-muted-foreground">Leave requests waiting past their approval deadline</p>
+            </div>
+
+            {leaveNotifications.map((notification) => {
+              const isEscalation = notification.type === 'leave_approval_escalation';
+              return (
+                <NotificationCard
+                  key={notification.id}
+                  notification={notification}
+                  className={notification.status === 'unread' && isEscalation ? 'border-red-200 dark:border-red-900' : undefined}
+                  icon={
+                    <div className={`h-8 w-8 rounded-full flex items-center justify-center shrink-0 ${
+                      isEscalation ? 'bg-red-500/10' : 'bg-amber-500/10'
+                    }`}>
+                      <CalendarClock className={`h-4 w-4 ${isEscalation ? 'text-red-500' : 'text-amber-500'}`} />
+                    </div>
+                  }
+                  actionLabel="Review"
+                  onAction={() => handleReviewLeave(notification)}
+                >
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(notification.metadata.fromDate), 'MMM dd')} - {format(new Date(notification.metadata.toDate), 'MMM dd, yyyy')}
+                    {' · '}
+                    {format(new Date(notification.createdAt), 'MMM dd, yyyy hh:mm a')}
+                  </p>
+                </NotificationCard>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Attendance Digests */}
+        {digestNotifications.length > 0 && (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold">Attendance Digests</h2>
+              <p className="text-sm text-muted-foreground">Weekly summary of attendance anomalies in your team</p>
+            </div>
+
+            {digestNotifications.map((notification) => (
+              <NotificationCard
+                key={notification.id}
+                notification={notification}
+                icon={
+                  <div className="h-8 w-8 rounded-full bg-amber-500/10 flex items-center justify-center shrink-0">
+                    <UserX className="h-4 w-4 text-amber-500" />
+                  </div>
+                }
+                actionLabel="Review"
+                onAction={() => handleReviewDigest(notification)}
+              >
+                {notification.metadata.topEmployees.map((employee) => (
+                  <p key={employee.officialEmail} className="text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{employee.employeeName}</span>
+                    {' · '}
+                    {employee.anomalyTypes.join(', ')}
+                  </p>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(notification.metadata.fromDate), 'MMM dd')} - {format(new Date(notification.metadata.toDate), 'MMM dd, yyyy')}
+                  {' · '}
+                  {format(new Date(notification.createdAt), 'MMM dd, yyyy hh:mm a')}
+                </p>
+              </NotificationCard>
+            ))}
+          </div>
+        )}
+
+        {/* Visitor Arrivals */}
+        {arrivalNotifications.length > 0 && (
+          <div className="space-y-4">
+            <div>
+              <h2 className="text-xl font-semibold">Visitor Arrivals</h2>
+              <p className="text-sm text-muted-foreground">Your visitors who have checked in at reception</p>
+            </div>
+
+            {arrivalNotifications.map((notification) => (
+              <NotificationCard
+                key={notification.id}
+                notification={notification}
+                icon={
+                  notification.metadata.visitorPhotoUrl ? (
+                    <img
+                      src={notification.metadata.visitorPhotoUrl}
+                      alt={notification.metadata.visitorName}
+                      className="h-8 w-8 rounded-full object-cover shrink-0"
+                    />
+                  ) : (
+                    <div className="h-8 w-8 rounded-full bg-green-500/10 flex items-center justify-center shrink-0">
+                      <UserCheck className="h-4 w-4 text-green-600" />
+                    </div>
+                  )
+                }
+                actionLabel="View"
+                onAction={() => handleViewArrival(notification)}
+              >
+                <p className="text-xs text-muted-foreground">
+                  {notification.metadata.purpose}
+                  {' · '}
+                  {format(new Date(notification.metadata.checkInTime), 'MMM dd, yyyy hh:mm a')}
+                </p>
+              </NotificationCard>
+            ))}
+          </div>
+        )}
+
         {/* Previous Notifications */}
         {processedNotifications.length > 0 && (
           <div className="space-y-4">
@@ -308,7 +497,8 @@ export function NotificationsPage() {
         )}
 
         {/* Empty State */}
-        {notifications.length === 0 && (
+        {notifications.length === 0 && leaveNotifications.length === 0 && digestNotifications.length === 0 &&
+          arrivalNotifications.length === 0 && (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12">
               <div className="h-12 w-12 rounded-full bg-muted flex items-center justify-center mb-4">
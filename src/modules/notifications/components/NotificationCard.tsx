@@ -0,0 +1,52 @@
+/**
+ * Notification Card Component
+ * One notification with its icon, subject, message and a single action that
+ * opens the screen to follow it up on
+ */
+
+import { ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Notification } from '../notificationTypes';
+
+interface NotificationCardProps {
+  notification: Notification;
+  icon: ReactNode;
+  actionLabel: string;
+  onAction: () => void;
+  className?: string;
+  children?: ReactNode; // Type-specific details shown below the message
+}
+
+export function NotificationCard({
+  notification,
+  icon,
+  actionLabel,
+  onAction,
+  className,
+  children,
+}: NotificationCardProps) {
+  return (
+    <Card className={className}>
+      <CardContent className="pt-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3 flex-1 min-w-0">
+            {icon}
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="text-sm font-medium">{notification.subject}</p>
+              <p className="text-sm text-muted-foreground">{notification.message}</p>
+              {children}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {notification.status === 'unread' && <Badge variant="secondary">New</Badge>}
+            <Button size="sm" variant="outline" onClick={onAction}>
+              {actionLabel}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,5 +8,8 @@ export type {
   Notification, 
   NotificationType, 
   NotificationStatus,
-  SpaceConnectionRequestMetadata 
+  SpaceConnectionRequestMetadata,
+  LeaveApprovalSlaMetadata,
+  AttendanceAnomalyDigestMetadata,
+  VisitorCheckInMetadata
 } from './notificationTypes';
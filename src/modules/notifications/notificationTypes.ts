@@ -10,7 +10,12 @@
 /**
  * All supported notification types across the application
  */
-export type NotificationType = "space_connection_request";
+export type NotificationType =
+  | "space_connection_request"
+  | "leave_approval_reminder"
+  | "leave_approval_escalation"
+  | "attendance_anomaly_digest"
+  | "visitor_checked_in";
 
 /**
  * Status of a notification
@@ -63,3 +68,51 @@ export interface SpaceConnectionRequestMetadata {
   requestingTenantId: string;
   requestingCompanyId: string;
 }
+
+/**
+ * Metadata for leave approval reminder and escalation notifications
+ * Raised when a pending absence application passes its approval SLA
+ */
+export interface LeaveApprovalSlaMetadata {
+  applicationId: string;
+  employeeId: string;
+  employeeName: string;
+  absenceType: string;
+  fromDate: string;
+  toDate: string;
+  approver: string; // Email of the reporting manager, who receives reminders and escalations
+  escalatedTo?: string; // Email of the skip-level manager, who also receives escalations
+  autoApproveAt?: string; // ISO instant, when auto-approval is configured
+}
+
+/**
+ * Metadata for the weekly attendance anomaly digest of a reporting manager
+ * Raised once per manager per week while their team has anomalies
+ */
+export interface AttendanceAnomalyDigestMetadata {
+  manager: string; // Email of the reporting manager, the only recipient
+  weekStart: string; // yyyy-MM-dd, Monday of the digest week
+  fromDate: string; // yyyy-MM-dd, start of the scanned attendance
+  toDate: string; // yyyy-MM-dd
+  employeeCount: number; // Team members with at least one anomaly
+  countsByType: Record<string, number>; // Employees flagged per anomaly type
+  topEmployees: Array<{
+    employeeName: string;
+    officialEmail: string;
+    anomalyTypes: string[];
+  }>;
+}
+
+/**
+ * Metadata for visitor arrival notifications
+ * Raised to the host employee when their visitor checks in at reception
+ */
+export interface VisitorCheckInMetadata {
+  visitorId: string;
+  visitorName: string;
+  visitorPhotoUrl: string | null;
+  purpose: string;
+  host: string; // Email of the host employee, the only recipient
+  hostEmployeeId: string;
+  checkInTime: string; // ISO instant
+}
@@ -1,11 +1,134 @@
-import { DummyPage } from '@/components/common/DummyPage';
+/**
+ * Payroll Run Page
+ * Monthly payroll runs per company: compute gross-to-net, review, lock,
+ * export the bank transfer file and mark as paid
+ */
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DollarSign, Plus } from 'lucide-react';
+import { PageLayout } from '@/components/PageLayout';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCompany } from '@/contexts/CompanyContext';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { PayrollRun as PayrollRunModel } from './types/payroll.types';
+import { PayrollRunsTable } from './components/PayrollRunsTable';
+import { PayrollRunDetail } from './components/PayrollRunDetail';
+import { NewPayrollRunDialog } from './components/NewPayrollRunDialog';
+
+// Two years of monthly runs per company
+const MAX_ROWS = 24;
+
+const ALL_COMPANIES = 'all';
 
 export function PayrollRun() {
+  const { companies } = useCompany();
+  const { searchPayrollRuns, getPayrollRun, isLoading } = usePayroll();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const runId = searchParams.get('runId');
+
+  const [companyFilter, setCompanyFilter] = useState(ALL_COMPANIES);
+  const [runs, setRuns] = useState<PayrollRunModel[]>([]);
+  const [selectedRun, setSelectedRun] = useState<PayrollRunModel | null>(null);
+  const [newRunOpen, setNewRunOpen] = useState(false);
+
+  const fetchRuns = async () => {
+    const result = await searchPayrollRuns(
+      {
+        ...(companyFilter !== ALL_COMPANIES && { filters: { and: { companyId: companyFilter } } }),
+        sort: { period: -1 },
+      },
+      0,
+      MAX_ROWS * Math.max(companyFilter === ALL_COMPANIES ? companies.length : 1, 1)
+    );
+    setRuns(result?.content || []);
+  };
+  useEffect(() => {
+    fetchRuns();
+  }, [companyFilter, companies.length]);
+
+  // The open run lives in the URL so it survives a refresh and can be shared
+  const fetchSelectedRun = async () => {
+    if (!runId) {
+      setSelectedRun(null);
+      return;
+    }
+    if (selectedRun?.id === runId) return;
+    setSelectedRun(await getPayrollRun(runId));
+  };
+  useEffect(() => {
+    fetchSelectedRun();
+  }, [runId]);
+
+  const openRun = (run: PayrollRunModel) => {
+    setSelectedRun(run);
+    setSearchParams({ runId: run.id });
+  };
+
+  const closeRun = () => {
+    setSearchParams({});
+    fetchRuns();
+  };
+
+  const handleRunChange = (run: PayrollRunModel) => {
+    setSelectedRun(run);
+    setRuns((prev) => prev.map((item) => (item.id === run.id ? run : item)));
+  };
+
   return (
-    <DummyPage
-      title="Payroll Run & Payslips"
-      description="Process monthly payroll, generate payslips, and manage salary disbursements with detailed breakdowns."
-      category="Payroll & Compensation"
-    />
+    <>
+      <PageLayout>
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <DollarSign className="h-8 w-8" />
+                Payroll Run
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Compute monthly salaries with LOP and reimbursements, lock the run and pay it out
+              </p>
+            </div>
+            {!runId && (
+              <Button onClick={() => setNewRunOpen(true)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Payroll Run
+              </Button>
+            )}
+          </div>
+
+          {runId ? (
+            selectedRun && <PayrollRunDetail run={selectedRun} onBack={closeRun} onRunChange={handleRunChange} />
+          ) : (
+            <>
+              <div className="flex justify-end">
+                <Select value={companyFilter} onValueChange={setCompanyFilter}>
+                  <SelectTrigger className="w-[240px]">
+                    <SelectValue placeholder="Company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_COMPANIES}>All companies</SelectItem>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <PayrollRunsTable runs={runs} isLoading={isLoading && runs.length === 0} onOpen={openRun} />
+            </>
+          )}
+        </div>
+      </PageLayout>
+
+      <NewPayrollRunDialog
+        open={newRunOpen}
+        onOpenChange={setNewRunOpen}
+        existingRuns={runs}
+        onCreated={openRun}
+      />
+    </>
   );
 }
@@ -1,11 +1,169 @@
-import { DummyPage } from '@/components/common/DummyPage';
+/**
+ * Salary Structure Page
+ * Salary structure templates per designation / employee type, and the
+ * effective-dated salary revisions of each employee
+ */
+
+import { useEffect, useState } from 'react';
+import { Layers, Plus, TrendingUp } from 'lucide-react';
+import { PageLayout } from '@/components/PageLayout';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { UsersSelector } from '@/components/context-aware/UsersSelector';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { useUserManagement } from '@/contexts/UserManagementContext';
+import { Designation, EmployeeType } from '@/modules/user-management/types/settings.types';
+import {
+  EmployeeSalaryRevision,
+  SalaryStructure as SalaryStructureModel,
+} from './types/salaryStructure.types';
+import { sortSalaryRevisions } from './utils/salaryStructure';
+import { SalaryStructuresTable } from './components/SalaryStructuresTable';
+import { SalaryStructureDesigner } from './components/SalaryStructureDesigner';
+import { EmployeeSalaryHistory } from './components/EmployeeSalaryHistory';
+import { SalaryRevisionDialog } from './components/SalaryRevisionDialog';
+
+// Master data and structures are short lists; one page is enough
+const MAX_ROWS = 100;
 
 export function SalaryStructure() {
+  const { searchSalaryStructures, searchEmployeeSalaryRevisions, isLoading } = usePayroll();
+  const { refreshDesignations, refreshEmployeeTypes } = useUserManagement();
+
+  const [activeTab, setActiveTab] = useState('structures');
+  const [structures, setStructures] = useState<SalaryStructureModel[]>([]);
+  const [designations, setDesignations] = useState<Designation[]>([]);
+  const [employeeTypes, setEmployeeTypes] = useState<EmployeeType[]>([]);
+  const [designerOpen, setDesignerOpen] = useState(false);
+  const [editing, setEditing] = useState<SalaryStructureModel | null>(null);
+
+  const [employeeId, setEmployeeId] = useState('');
+  const [revisions, setRevisions] = useState<EmployeeSalaryRevision[]>([]);
+  const [revisionOpen, setRevisionOpen] = useState(false);
+
+  const fetchStructures = async () => {
+    const result = await searchSalaryStructures({ sort: { name: 1 } }, 0, MAX_ROWS);
+    setStructures(result?.content || []);
+  };
+
+  const fetchMasterData = async () => {
+    const [designationResult, employeeTypeResult] = await Promise.all([
+      refreshDesignations({}, 0, MAX_ROWS),
+      refreshEmployeeTypes({}, 0, MAX_ROWS),
+    ]);
+    setDesignations(designationResult?.content || []);
+    setEmployeeTypes(employeeTypeResult?.content || []);
+  };
+
+  useEffect(() => {
+    fetchStructures();
+    fetchMasterData();
+  }, []);
+
+  const fetchRevisions = async () => {
+    if (!employeeId) {
+      setRevisions([]);
+      return;
+    }
+    const result = await searchEmployeeSalaryRevisions(
+      { filters: { and: { employeeId } }, sort: { effectiveFrom: -1 } },
+      0,
+      MAX_ROWS
+    );
+    setRevisions(result?.content || []);
+  };
+  useEffect(() => {
+    fetchRevisions();
+  }, [employeeId]);
+
+  const designationNames = Object.fromEntries(designations.map((item) => [item.id, item.designation]));
+  const employeeTypeNames = Object.fromEntries(employeeTypes.map((item) => [item.id, item.employeeType]));
+  const latestRevision = sortSalaryRevisions(revisions)[0] || null;
+
+  const openDesigner = (structure: SalaryStructureModel | null) => {
+    setEditing(structure);
+    setDesignerOpen(true);
+  };
+
   return (
-    <DummyPage
-      title="Salary Structure Setup"
-      description="Define salary components, earnings, deductions, and compensation structures for different employee grades."
-      category="Payroll & Compensation"
-    />
+    <>
+      <PageLayout>
+        <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <Layers className="h-8 w-8" />
+                Salary Structure
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Design salary components per designation and employee type, and keep each employee's salary history
+              </p>
+            </div>
+            {activeTab === 'structures' && (
+              <Button onClick={() => openDesigner(null)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Structure
+              </Button>
+            )}
+          </div>
+
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList>
+              <TabsTrigger value="structures">Structures</TabsTrigger>
+              <TabsTrigger value="employees">Employee Salaries</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="structures" className="mt-4">
+              <SalaryStructuresTable
+                structures={structures}
+                designationNames={designationNames}
+                employeeTypeNames={employeeTypeNames}
+                isLoading={isLoading && structures.length === 0}
+                onEdit={openDesigner}
+              />
+            </TabsContent>
+
+            <TabsContent value="employees" className="mt-4 space-y-4">
+              <div className="flex items-end justify-between gap-4">
+                <div className="space-y-2 w-80">
+                  <Label>Employee</Label>
+                  <UsersSelector
+                    value={employeeId}
+                    onChange={(value) => setEmployeeId(Array.isArray(value) ? value[0] || '' : value)}
+                    placeholder="Select employee"
+                  />
+                </div>
+                <Button onClick={() => setRevisionOpen(true)} disabled={!employeeId} className="gap-2">
+                  <TrendingUp className="h-4 w-4" />
+                  Revise Salary
+                </Button>
+              </div>
+              {employeeId && (
+                <EmployeeSalaryHistory revisions={revisions} isLoading={isLoading && revisions.length === 0} />
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </PageLayout>
+
+      <SalaryStructureDesigner
+        open={designerOpen}
+        onOpenChange={setDesignerOpen}
+        structure={editing}
+        designations={designations}
+        employeeTypes={employeeTypes}
+        onSaved={() => fetchStructures()}
+      />
+
+      <SalaryRevisionDialog
+        open={revisionOpen}
+        onOpenChange={setRevisionOpen}
+        employeeId={employeeId}
+        structures={structures}
+        currentRevision={latestRevision}
+        onSaved={() => fetchRevisions()}
+      />
+    </>
   );
 }
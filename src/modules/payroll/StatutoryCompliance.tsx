@@ -1,11 +1,266 @@
-import { DummyPage } from '@/components/common/DummyPage';
+/**
+ * Statutory Compliance Page
+ * PF, ESI, professional tax and TDS of payroll runs with the monthly challan /
+ * ECR files, TDS projections from employee declarations, statutory data flags
+ * and the statutory settings
+ */
+
+import { useEffect, useState } from 'react';
+import { format, parse } from 'date-fns';
+import { ShieldCheck } from 'lucide-react';
+import { PageLayout } from '@/components/PageLayout';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useCompany } from '@/contexts/CompanyContext';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { useUserManagement } from '@/contexts/UserManagementContext';
+import { WorkLocation } from '@/modules/user-management/types/settings.types';
+import { PayrollRun, PayrollRunEntry } from './types/payroll.types';
+import {
+  StatutoryEmployeeDetails,
+  StatutoryFlagCode,
+  StatutorySettings,
+  TaxDeclaration,
+} from './types/statutory.types';
+import { DEFAULT_STATUTORY_SETTINGS, payrollRunStatusLabels, statutoryFlagLabels } from './constants';
+import { getFinancialYear } from './utils/payslipSummary';
+import { countFlagsByCode, getStatutoryFlags } from './utils/statutoryValidation';
+import { StatutoryRunReport } from './components/StatutoryRunReport';
+import { TdsProjectionTable } from './components/TdsProjectionTable';
+import { TaxDeclarationDialog } from './components/TaxDeclarationDialog';
+import { StatutoryFlagsTable } from './components/StatutoryFlagsTable';
+import { StatutoryIdentifiersDialog } from './components/StatutoryIdentifiersDialog';
+import { StatutorySettingsForm } from './components/StatutorySettingsForm';
+
+// Two years of monthly runs
+const MAX_RUNS = 24;
+
+// Declarations and work locations of a tenant fit in one page
+const MAX_ROWS = 1000;
+
+const monthLabel = (period: string) => format(parse(period, 'yyyy-MM', new Date()), 'MMMM yyyy');
 
 export function StatutoryCompliance() {
+  const { companies, activeCompany } = useCompany();
+  const {
+    searchPayrollRuns,
+    getStatutorySettings,
+    saveStatutorySettings,
+    getStatutoryEmployeeDetails,
+    searchTaxDeclarations,
+    isLoading,
+  } = usePayroll();
+  const { refreshWorkLocations } = useUserManagement();
+
+  const [activeTab, setActiveTab] = useState('contributions');
+  const [companyId, setCompanyId] = useState('');
+  const [runs, setRuns] = useState<PayrollRun[]>([]);
+  const [runId, setRunId] = useState('');
+  const [settings, setSettings] = useState<StatutorySettings>(DEFAULT_STATUTORY_SETTINGS);
+  const [details, setDetails] = useState<StatutoryEmployeeDetails[]>([]);
+  const [declarations, setDeclarations] = useState<Record<string, TaxDeclaration>>({});
+  const [workLocations, setWorkLocations] = useState<WorkLocation[]>([]);
+  const [declarationEntry, setDeclarationEntry] = useState<PayrollRunEntry | null>(null);
+  const [editingEmployeeId, setEditingEmployeeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!companyId) setCompanyId(activeCompany?.id || companies[0]?.id || '');
+  }, [activeCompany, companies.length]);
+
+  const fetchSettings = async () => {
+    const [savedSettings, locations] = await Promise.all([getStatutorySettings(), refreshWorkLocations({}, 0, MAX_ROWS)]);
+    if (savedSettings) setSettings(savedSettings);
+    setWorkLocations(locations?.content || []);
+  };
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchCompanyData = async () => {
+    if (!companyId) return;
+    const [runResult, detailsResult] = await Promise.all([
+      searchPayrollRuns({ filters: { and: { companyId } }, sort: { period: -1 } }, 0, MAX_RUNS),
+      getStatutoryEmployeeDetails(companyId),
+    ]);
+    const companyRuns = runResult?.content || [];
+    setRuns(companyRuns);
+    setRunId(companyRuns[0]?.id || '');
+    setDetails(detailsResult || []);
+  };
+  useEffect(() => {
+    fetchCompanyData();
+  }, [companyId]);
+
+  const run = runs.find((item) => item.id === runId) || null;
+  const financialYear = run ? getFinancialYear(run.period) : null;
+
+  const fetchDeclarations = async () => {
+    if (!financialYear) return;
+    const result = await searchTaxDeclarations(
+      { filters: { and: { financialYear: financialYear.startYear } } },
+      0,
+      MAX_ROWS
+    );
+    setDeclarations(Object.fromEntries((result?.content || []).map((item) => [item.employeeId, item])));
+  };
+  useEffect(() => {
+    fetchDeclarations();
+  }, [financialYear?.startYear]);
+
+  const flags = details.flatMap((item) =>
+    getStatutoryFlags(item, settings, run?.entries.find((entry) => entry.employeeId === item.employeeId))
+  );
+  const flagCounts = countFlagsByCode(flags);
+
+  const handleSaveSettings = async (draft: StatutorySettings) => {
+    const saved = await saveStatutorySettings(draft);
+    if (saved) setSettings(saved);
+  };
+
+  const handleDetailsSaved = (saved: StatutoryEmployeeDetails) =>
+    setDetails((prev) => prev.map((item) => (item.employeeId === saved.employeeId ? { ...item, ...saved } : item)));
+
+  const declarationTds = declarationEntry?.statutory?.tds;
+
   return (
-    <DummyPage
-      title="Statutory / Tax & Compliance"
-      description="Manage tax calculations, PF, ESI, PT, and other statutory compliance requirements."
-      category="Payroll & Compensation"
-    />
+    <>
+      <PageLayout>
+        <div className="space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <ShieldCheck className="h-8 w-8" />
+                Statutory Compliance
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                PF, ESI, professional tax and TDS per payroll run, with challan files and data checks
+              </p>
+            </div>
+            {activeTab !== 'settings' && (
+              <div className="flex flex-wrap gap-2">
+                <Select value={companyId} onValueChange={setCompanyId}>
+                  <SelectTrigger className="w-[220px]">
+                    <SelectValue placeholder="Company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={runId} onValueChange={setRunId} disabled={runs.length === 0}>
+                  <SelectTrigger className="w-[220px]">
+                    <SelectValue placeholder="Payroll run" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {runs.map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {monthLabel(item.period)} · {payrollRunStatusLabels[item.status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList>
+              <TabsTrigger value="contributions">Contributions &amp; Challans</TabsTrigger>
+              <TabsTrigger value="tds">TDS Projections</TabsTrigger>
+              <TabsTrigger value="flags" className="gap-2">
+                Data Flags
+                {flags.length > 0 && <Badge variant="secondary">{flags.length}</Badge>}
+              </TabsTrigger>
+              <TabsTrigger value="settings">Settings</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="contributions" className="mt-4">
+              {run ? (
+                <StatutoryRunReport run={run} details={details} settings={settings} />
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    {isLoading ? 'Loading payroll runs...' : 'No payroll runs for this company yet'}
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="tds" className="mt-4">
+              <Card>
+                <CardContent className="pt-6">
+                  <TdsProjectionTable
+                    entries={run?.entries || []}
+                    declarations={declarations}
+                    onEditDeclaration={setDeclarationEntry}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="flags" className="mt-4 space-y-4">
+              {flags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(flagCounts).map(([code, count]) => (
+                    <Badge key={code} variant="outline">
+                      {statutoryFlagLabels[code as StatutoryFlagCode]}: {count}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <Card>
+                <CardContent className="pt-6">
+                  <StatutoryFlagsTable flags={flags} onEdit={setEditingEmployeeId} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="settings" className="mt-4">
+              <StatutorySettingsForm
+                settings={settings}
+                workLocations={workLocations}
+                isSaving={isLoading}
+                onSave={handleSaveSettings}
+              />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </PageLayout>
+
+      {financialYear && (
+        <TaxDeclarationDialog
+          open={!!declarationEntry}
+          onOpenChange={(open) => !open && setDeclarationEntry(null)}
+          employeeId={declarationEntry?.employeeId || ''}
+          employeeName={declarationEntry?.employeeName || ''}
+          financialYear={financialYear.startYear}
+          financialYearLabel={financialYear.label}
+          declaration={declarationEntry ? declarations[declarationEntry.employeeId] || null : null}
+          defaultRegime={settings.tds.defaultRegime}
+          projectedSalary={
+            declarationTds
+              ? {
+                  grossSalary: declarationTds.projectedGross,
+                  professionalTax: declarationTds.projectedProfessionalTax,
+                  employeePf: declarationTds.projectedEmployeePf,
+                }
+              : null
+          }
+          onSaved={(saved) => setDeclarations((prev) => ({ ...prev, [saved.employeeId]: saved }))}
+        />
+      )}
+
+      <StatutoryIdentifiersDialog
+        open={!!editingEmployeeId}
+        onOpenChange={(open) => !open && setEditingEmployeeId(null)}
+        details={details.find((item) => item.employeeId === editingEmployeeId) || null}
+        onSaved={handleDetailsSaved}
+      />
+    </>
   );
 }
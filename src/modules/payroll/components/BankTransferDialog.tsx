@@ -0,0 +1,102 @@
+/**
+ * Bank Transfer Dialog
+ * Downloads the NEFT bulk upload file of a locked payroll run
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { downloadTextFile } from '@/lib/download';
+import { PayrollRun } from '../types/payroll.types';
+import { buildBankTransferFile } from '../utils/bankTransferFile';
+import { formatPayrollAmount } from '../utils/payrollEngine';
+
+interface BankTransferDialogProps {
+  run: PayrollRun;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const BankTransferDialog: React.FC<BankTransferDialogProps> = ({ run, open, onOpenChange }) => {
+  const [debitAccount, setDebitAccount] = useState('');
+  const [paymentDate, setPaymentDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+
+  useEffect(() => {
+    if (open) setPaymentDate(format(new Date(), 'yyyy-MM-dd'));
+  }, [open]);
+
+  const canDownload = /^\d{9,18}$/.test(debitAccount.trim()) && !!paymentDate;
+  const preview = canDownload ? buildBankTransferFile(run, { debitAccount: debitAccount.trim(), paymentDate }) : null;
+  const transferTotal = preview?.included.reduce((sum, entry) => sum + entry.netPay, 0) || 0;
+
+  const handleDownload = () => {
+    if (!preview) return;
+    downloadTextFile(preview.csv, preview.filename, 'text/csv');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Bank Transfer File</DialogTitle>
+          <DialogDescription>NEFT bulk upload of the net pay of every employee in the run</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Debit Account Number</Label>
+            <Input
+              value={debitAccount}
+              onChange={(e) => setDebitAccount(e.target.value)}
+              placeholder="Company salary account"
+              inputMode="numeric"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Payment Date</Label>
+            <Input type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+          </div>
+
+          {preview && (
+            <p className="text-sm text-muted-foreground">
+              {preview.included.length} transfers totalling {formatPayrollAmount(transferTotal)}
+            </p>
+          )}
+
+          {preview && preview.skipped.length > 0 && (
+            <Alert>
+              <AlertDescription>
+                {preview.skipped.length} employee(s) left out for missing bank details or nothing to pay:{' '}
+                {preview.skipped.map((entry) => entry.employeeName).join(', ')}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={!preview || preview.included.length === 0} className="gap-2">
+            <Download className="h-4 w-4" />
+            Download CSV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,93 @@
+/**
+ * CTC Breakup Preview Component
+ * Monthly and annual amounts of every component for a CTC, with the balance check
+ */
+
+import React from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { SalaryBreakup } from '../types/salaryStructure.types';
+import { formatPayrollAmount } from '../utils/payrollEngine';
+import { isBreakupBalanced } from '../utils/salaryStructure';
+
+interface CtcBreakupPreviewProps {
+  breakup: SalaryBreakup;
+}
+
+export const CtcBreakupPreview: React.FC<CtcBreakupPreviewProps> = ({ breakup }) => {
+  const balanced = isBreakupBalanced(breakup);
+  const earnings = breakup.lines.filter((line) => line.type === 'EARNING');
+  const deductions = breakup.lines.filter((line) => line.type === 'DEDUCTION');
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Component</TableHead>
+              <TableHead className="text-right">Monthly</TableHead>
+              <TableHead className="text-right">Annual</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {earnings.map((line) => (
+              <TableRow key={line.code}>
+                <TableCell>{line.name}</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(line.monthlyAmount)}</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(line.annualAmount)}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow className="font-medium">
+              <TableCell>Gross Earnings</TableCell>
+              <TableCell className="text-right">{formatPayrollAmount(breakup.monthlyEarnings)}</TableCell>
+              <TableCell className="text-right">{formatPayrollAmount(breakup.monthlyEarnings * 12)}</TableCell>
+            </TableRow>
+            {deductions.map((line) => (
+              <TableRow key={line.code}>
+                <TableCell className="text-muted-foreground">Less: {line.name}</TableCell>
+                <TableCell className="text-right text-muted-foreground">{formatPayrollAmount(line.monthlyAmount)}</TableCell>
+                <TableCell className="text-right text-muted-foreground">{formatPayrollAmount(line.annualAmount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Net Take-home</TableCell>
+              <TableCell className="text-right">{formatPayrollAmount(breakup.monthlyNet)}</TableCell>
+              <TableCell className="text-right">{formatPayrollAmount(breakup.monthlyNet * 12)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+
+      {balanced ? (
+        <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+          <CheckCircle2 className="h-4 w-4" />
+          Earnings add up to the CTC of {formatPayrollAmount(breakup.annualCtc)}
+        </p>
+      ) : (
+        <div className="space-y-1 text-sm text-destructive">
+          {Math.abs(breakup.difference) >= 1 && (
+            <p className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4" />
+              Earnings are {formatPayrollAmount(Math.abs(breakup.difference))} a month{' '}
+              {breakup.difference > 0 ? 'short of' : 'over'} the CTC
+            </p>
+          )}
+          {breakup.errors.map((error) => (
+            <p key={error}>{error}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+/**
+ * Employee Salary History Component
+ * Effective-dated salary revisions of one employee, newest first, with the revision in force
+ */
+
+import React, { Fragment, useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { EmployeeSalaryRevision } from '../types/salaryStructure.types';
+import { formatPayrollAmount } from '../utils/payrollEngine';
+import { getSalaryRevisionInForce, sortSalaryRevisions } from '../utils/salaryStructure';
+
+interface EmployeeSalaryHistoryProps {
+  revisions: EmployeeSalaryRevision[];
+  isLoading?: boolean;
+}
+
+const formatDay = (value: string) => format(parseISO(value), 'MMM dd, yyyy');
+
+export const EmployeeSalaryHistory: React.FC<EmployeeSalaryHistoryProps> = ({ revisions, isLoading = false }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  const sorted = sortSalaryRevisions(revisions);
+  const inForce = getSalaryRevisionInForce(revisions, format(new Date(), 'yyyy-MM-dd'));
+
+  // A revision runs until the day before the next later-dated one takes over
+  const effectiveTo = (index: number) => {
+    const later = sorted.slice(0, index).reverse().find((revision) => revision.effectiveFrom > sorted[index].effectiveFrom);
+    return later ? format(addDays(parseISO(later.effectiveFrom), -1), 'MMM dd, yyyy') : 'Present';
+  };
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10" />
+            <TableHead>Revision</TableHead>
+            <TableHead>Effective</TableHead>
+            <TableHead>Structure</TableHead>
+            <TableHead className="text-right">Annual CTC</TableHead>
+            <TableHead className="text-right">Monthly Gross</TableHead>
+            <TableHead>Remarks</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {sorted.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                No salary assigned yet
+              </TableCell>
+            </TableRow>
+          )}
+          {sorted.map((revision, index) => {
+            const expanded = expandedId === revision.id;
+            const gross = revision.components
+              .filter((component) => component.type === 'EARNING')
+              .reduce((sum, component) => sum + component.monthlyAmount, 0);
+            const superseded = sorted
+              .slice(0, index)
+              .some((other) => other.effectiveFrom === revision.effectiveFrom);
+            return (
+              <Fragment key={revision.id}>
+                <TableRow className={superseded ? 'text-muted-foreground' : ''}>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setExpandedId(expanded ? null : revision.id)}
+                    >
+                      {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      #{revision.revision}
+                      {inForce?.id === revision.id && <Badge>In force</Badge>}
+                      {superseded && <Badge variant="outline">Corrected</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {formatDay(revision.effectiveFrom)} to {superseded ? '-' : effectiveTo(index)}
+                  </TableCell>
+                  <TableCell>{revision.structureName || revision.structureId || '-'}</TableCell>
+                  <TableCell className="text-right">{formatPayrollAmount(revision.annualCtc)}</TableCell>
+                  <TableCell className="text-right">{formatPayrollAmount(gross)}</TableCell>
+                  <TableCell className="max-w-xs truncate">{revision.remarks || '-'}</TableCell>
+                </TableRow>
+                {expanded && (
+                  <TableRow>
+                    <TableCell />
+                    <TableCell colSpan={6}>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1 text-sm">
+                        {revision.components.map((component) => (
+                          <div key={component.code} className="flex justify-between">
+                            <span className={component.type === 'DEDUCTION' ? 'text-muted-foreground' : ''}>
+                              {component.name}
+                            </span>
+                            <span>
+                              {component.type === 'DEDUCTION' && '- '}
+                              {formatPayrollAmount(component.monthlyAmount)}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        Added by {revision.createdBy} on {format(new Date(revision.createdAt), 'MMM dd, yyyy')}
+                      </p>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
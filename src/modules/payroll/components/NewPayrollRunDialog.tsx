@@ -0,0 +1,122 @@
+/**
+ * New Payroll Run Dialog
+ * Picks a company and period, computes the entries and saves the run as a draft
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format, subMonths } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCompany } from '@/contexts/CompanyContext';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { PayrollRun } from '../types/payroll.types';
+import { usePayrollRunBuilder } from '../hooks/usePayrollRunBuilder';
+
+interface NewPayrollRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existingRuns: PayrollRun[]; // Checked for a run of the same company and period
+  onCreated: (run: PayrollRun) => void;
+}
+
+// Payroll is usually run for the month that just ended
+const defaultPeriod = () => format(subMonths(new Date(), 1), 'yyyy-MM');
+
+export const NewPayrollRunDialog: React.FC<NewPayrollRunDialogProps> = ({
+  open,
+  onOpenChange,
+  existingRuns,
+  onCreated,
+}) => {
+  const { companies, activeCompany } = useCompany();
+  const { createPayrollRun, isLoading } = usePayroll();
+  const { buildRun, isBuilding } = usePayrollRunBuilder();
+  const [companyId, setCompanyId] = useState('');
+  const [period, setPeriod] = useState(defaultPeriod);
+
+  useEffect(() => {
+    if (!open) return;
+    setCompanyId(activeCompany?.id || companies[0]?.id || '');
+    setPeriod(defaultPeriod());
+  }, [open]);
+
+  const existing = existingRuns.find((run) => run.companyId === companyId && run.period === period);
+
+  let validationError: string | null = null;
+  if (period > format(new Date(), 'yyyy-MM')) {
+    validationError = 'Payroll cannot be run for a future month';
+  } else if (existing) {
+    validationError = 'A payroll run already exists for this company and period';
+  }
+
+  const canSubmit = !!companyId && !!period && !validationError;
+
+  const handleCreate = async () => {
+    const carrier = await buildRun(companyId, period);
+    if (!carrier) return;
+    const created = await createPayrollRun(carrier);
+    if (created) {
+      onCreated(created);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Payroll Run</DialogTitle>
+          <DialogDescription>
+            Salaries, LOP days and approved reimbursements of the period are pulled in and computed as a draft
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Company</Label>
+            <Select value={companyId} onValueChange={setCompanyId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select company" />
+              </SelectTrigger>
+              <SelectContent>
+                {companies.map((company) => (
+                  <SelectItem key={company.id} value={company.id}>
+                    {company.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Period</Label>
+            <Input type="month" value={period} onChange={(e) => setPeriod(e.target.value)} />
+          </div>
+
+          {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!canSubmit || isBuilding || isLoading}>
+            {isBuilding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Compute Payroll
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,103 @@
+/**
+ * Payroll Entry Breakdown Dialog
+ * Gross-to-net lines of one employee in a payroll run
+ */
+
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Separator } from '@/components/ui/separator';
+import { PayrollRunEntry, PayslipLine, PayslipLineType } from '../types/payroll.types';
+import { formatPayrollAmount } from '../utils/payrollEngine';
+
+interface PayrollEntryBreakdownDialogProps {
+  entry: PayrollRunEntry | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const sections: { type: PayslipLineType; title: string }[] = [
+  { type: 'EARNING', title: 'Earnings' },
+  { type: 'DEDUCTION', title: 'Deductions' },
+  { type: 'REIMBURSEMENT', title: 'Reimbursements' },
+];
+
+const LineRow = ({ label, amount, strong = false }: { label: string; amount: number; strong?: boolean }) => (
+  <div className={`flex justify-between text-sm ${strong ? 'font-semibold' : ''}`}>
+    <span>{label}</span>
+    <span>{formatPayrollAmount(amount)}</span>
+  </div>
+);
+
+export const PayrollEntryBreakdownDialog: React.FC<PayrollEntryBreakdownDialogProps> = ({ entry, onOpenChange }) => {
+  const linesOf = (type: PayslipLineType): PayslipLine[] => entry?.lines.filter((line) => line.type === type) || [];
+
+  return (
+    <Dialog open={entry !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        {entry && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{entry.employeeName}</DialogTitle>
+              <DialogDescription>
+                {entry.designation ? `${entry.designation} · ` : ''}
+                {entry.paidDays} of {entry.periodDays} days paid
+                {entry.lopDays > 0 && ` · ${entry.lopDays} LOP`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              {sections.map(({ type, title }) => {
+                const lines = linesOf(type);
+                if (lines.length === 0) return null;
+                return (
+                  <div key={type} className="space-y-1">
+                    <p className="text-xs font-medium uppercase text-muted-foreground">{title}</p>
+                    {lines.map((line) => (
+                      <LineRow key={`${type}-${line.code}`} label={line.name} amount={line.amount} />
+                    ))}
+                  </div>
+                );
+              })}
+
+              {entry.lopDeduction > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Earnings above are after {formatPayrollAmount(entry.lopDeduction)} of loss of pay
+                </p>
+              )}
+
+              <Separator />
+
+              <div className="space-y-1">
+                <LineRow label="Gross Earnings" amount={entry.grossEarnings} />
+                <LineRow label="Total Deductions" amount={entry.totalDeductions} />
+                {entry.totalReimbursements > 0 && (
+                  <LineRow label="Reimbursements" amount={entry.totalReimbursements} />
+                )}
+                <LineRow label="Net Pay" amount={entry.netPay} strong />
+              </div>
+
+              {entry.bankAccount && (
+                <p className="text-xs text-muted-foreground">
+                  Paid to {entry.bankAccount.bankName} A/c ending {entry.bankAccount.accountNumber.slice(-4)}
+                </p>
+              )}
+
+              {entry.warnings.length > 0 && (
+                <ul className="list-disc pl-5 text-sm text-amber-700 dark:text-amber-400">
+                  {entry.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
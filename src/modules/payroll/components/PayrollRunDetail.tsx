@@ -0,0 +1,289 @@
+/**
+ * Payroll Run Detail Component
+ * Status stepper, totals, warnings and per-employee entries of one run,
+ * with the actions available in its current status
+ */
+
+import React, { useState } from 'react';
+import { format, parse } from 'date-fns';
+import { AlertTriangle, ArrowLeft, Check, Download, RefreshCw } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { PayrollRun, PayrollRunAction, PayrollRunEntry } from '../types/payroll.types';
+import {
+  PAYROLL_RUN_STEPS,
+  payrollRunActionLabels,
+  payrollRunStatusLabels,
+  payrollRunStatusStyles,
+} from '../constants';
+import { formatPayrollAmount, getAvailableRunActions } from '../utils/payrollEngine';
+import { usePayrollRunBuilder } from '../hooks/usePayrollRunBuilder';
+import { PayrollEntryBreakdownDialog } from './PayrollEntryBreakdownDialog';
+import { BankTransferDialog } from './BankTransferDialog';
+
+interface PayrollRunDetailProps {
+  run: PayrollRun;
+  onBack: () => void;
+  onRunChange: (run: PayrollRun) => void;
+}
+
+const actionDescriptions: Record<PayrollRunAction, string> = {
+  review: 'The run can no longer be recalculated while it is in review.',
+  draft: 'The run goes back to draft so it can be recalculated.',
+  lock: 'Locked runs cannot be changed. Payslips are produced from the locked entries.',
+  paid: 'Records the salary payment and marks the reimbursed expense claims as paid.',
+};
+
+export const PayrollRunDetail: React.FC<PayrollRunDetailProps> = ({ run, onBack, onRunChange }) => {
+  const { updatePayrollRunEntries, updatePayrollRunStatus, isLoading } = usePayroll();
+  const { buildRun, isBuilding } = usePayrollRunBuilder();
+
+  const [selectedEntry, setSelectedEntry] = useState<PayrollRunEntry | null>(null);
+  const [pendingAction, setPendingAction] = useState<PayrollRunAction | null>(null);
+  const [paymentReference, setPaymentReference] = useState('');
+  const [transferOpen, setTransferOpen] = useState(false);
+
+  const periodLabel = format(parse(run.period, 'yyyy-MM', new Date()), 'MMMM yyyy');
+  const currentStep = PAYROLL_RUN_STEPS.indexOf(run.status);
+  const entriesWithWarnings = run.entries.filter((entry) => entry.warnings.length > 0);
+  const actions = getAvailableRunActions(run.status);
+
+  const handleRecalculate = async () => {
+    const carrier = await buildRun(run.companyId, run.period);
+    if (!carrier) return;
+    const updated = await updatePayrollRunEntries(run.id, carrier);
+    if (updated) onRunChange(updated);
+  };
+
+  const openAction = (action: PayrollRunAction) => {
+    setPaymentReference('');
+    setPendingAction(action);
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const updated = await updatePayrollRunStatus(run.id, {
+      action: pendingAction,
+      ...(pendingAction === 'paid' && { paymentReference: paymentReference.trim() }),
+    });
+    setPendingAction(null);
+    if (updated) onRunChange(updated);
+  };
+
+  const totals = [
+    { label: 'Employees', value: String(run.totals.employees) },
+    { label: 'Gross Earnings', value: formatPayrollAmount(run.totals.grossEarnings) },
+    { label: 'Deductions', value: formatPayrollAmount(run.totals.totalDeductions) },
+    { label: 'Reimbursements', value: formatPayrollAmount(run.totals.totalReimbursements) },
+    { label: 'Net Pay', value: formatPayrollAmount(run.totals.netPay) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h2 className="text-2xl font-semibold flex items-center gap-2">
+              {periodLabel}
+              <Badge variant="outline" className={payrollRunStatusStyles[run.status]}>
+                {payrollRunStatusLabels[run.status]}
+              </Badge>
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {run.companyName || run.companyId} · {run.periodStart} to {run.periodEnd}
+              {run.paymentReference && ` · Ref ${run.paymentReference}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {run.status === 'DRAFT' && (
+            <Button variant="outline" onClick={handleRecalculate} disabled={isBuilding || isLoading} className="gap-2">
+              <RefreshCw className={`h-4 w-4 ${isBuilding ? 'animate-spin' : ''}`} />
+              Recalculate
+            </Button>
+          )}
+          {(run.status === 'LOCKED' || run.status === 'PAID') && (
+            <Button variant="outline" onClick={() => setTransferOpen(true)} className="gap-2">
+              <Download className="h-4 w-4" />
+              Bank Transfer File
+            </Button>
+          )}
+          {actions.map((action) => (
+            <Button
+              key={action}
+              variant={action === 'draft' ? 'outline' : 'default'}
+              onClick={() => openAction(action)}
+              disabled={isLoading || isBuilding}
+            >
+              {payrollRunActionLabels[action]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {PAYROLL_RUN_STEPS.map((step, index) => (
+          <React.Fragment key={step}>
+            {index > 0 && <div className={`h-px flex-1 ${index <= currentStep ? 'bg-primary' : 'bg-border'}`} />}
+            <div className="flex items-center gap-2">
+              <div
+                className={`flex h-7 w-7 items-center justify-center rounded-full border text-xs font-medium ${
+                  index < currentStep
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : index === currentStep
+                      ? 'border-primary text-primary'
+                      : 'text-muted-foreground'
+                }`}
+              >
+                {index < currentStep ? <Check className="h-4 w-4" /> : index + 1}
+              </div>
+              <span className={`text-sm ${index === currentStep ? 'font-medium' : 'text-muted-foreground'}`}>
+                {payrollRunStatusLabels[step]}
+              </span>
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+        {totals.map((total) => (
+          <Card key={total.label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{total.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-xl font-bold">{total.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {entriesWithWarnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{entriesWithWarnings.length} employee(s) need attention</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-1 space-y-0.5 text-sm">
+              {entriesWithWarnings.map((entry) => (
+                <li key={entry.employeeId}>
+                  <span className="font-medium">{entry.employeeName}</span>: {entry.warnings.join('; ')}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee</TableHead>
+              <TableHead className="text-right">Paid Days</TableHead>
+              <TableHead className="text-right">Gross</TableHead>
+              <TableHead className="text-right">Deductions</TableHead>
+              <TableHead className="text-right">Reimbursements</TableHead>
+              <TableHead className="text-right">Net Pay</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {run.entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                  No employees in this run
+                </TableCell>
+              </TableRow>
+            )}
+            {run.entries.map((entry) => (
+              <TableRow key={entry.employeeId} className="cursor-pointer" onClick={() => setSelectedEntry(entry)}>
+                <TableCell>
+                  <div className="font-medium flex items-center gap-1">
+                    {entry.employeeName}
+                    {entry.warnings.length > 0 && <AlertTriangle className="h-3.5 w-3.5 text-amber-500" />}
+                  </div>
+                  {entry.designation && <div className="text-xs text-muted-foreground">{entry.designation}</div>}
+                </TableCell>
+                <TableCell className="text-right">
+                  {entry.paidDays}/{entry.periodDays}
+                  {entry.lopDays > 0 && <div className="text-xs text-muted-foreground">{entry.lopDays} LOP</div>}
+                </TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(entry.grossEarnings)}</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(entry.totalDeductions)}</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(entry.totalReimbursements)}</TableCell>
+                <TableCell className="text-right font-medium">{formatPayrollAmount(entry.netPay)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <PayrollEntryBreakdownDialog entry={selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)} />
+
+      <BankTransferDialog run={run} open={transferOpen} onOpenChange={setTransferOpen} />
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent className="max-w-md">
+          {pendingAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{payrollRunActionLabels[pendingAction]}</DialogTitle>
+                <DialogDescription>{actionDescriptions[pendingAction]}</DialogDescription>
+              </DialogHeader>
+              {pendingAction === 'paid' && (
+                <div className="space-y-2">
+                  <Label>Payment Reference</Label>
+                  <Input
+                    value={paymentReference}
+                    onChange={(e) => setPaymentReference(e.target.value)}
+                    placeholder="Bank batch or UTR reference"
+                  />
+                </div>
+              )}
+              {pendingAction === 'lock' && entriesWithWarnings.length > 0 && (
+                <p className="text-sm text-amber-700 dark:text-amber-400">
+                  {entriesWithWarnings.length} employee(s) still have warnings.
+                </p>
+              )}
+              <DialogFooter className="gap-2">
+                <Button variant="outline" onClick={() => setPendingAction(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleConfirmAction}
+                  disabled={isLoading || (pendingAction === 'paid' && !paymentReference.trim())}
+                >
+                  {payrollRunActionLabels[pendingAction]}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+/**
+ * Payroll Runs Table Component
+ * Payroll runs of a company with their period, totals and status
+ */
+
+import { format, parse } from "date-fns";
+import { ChevronRight } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PayrollRun } from "../types/payroll.types";
+import { payrollRunStatusLabels, payrollRunStatusStyles } from "../constants";
+import { formatPayrollAmount } from "../utils/payrollEngine";
+
+interface PayrollRunsTableProps {
+  runs: PayrollRun[];
+  isLoading?: boolean;
+  onOpen: (run: PayrollRun) => void;
+}
+
+const formatPeriod = (period: string) => format(parse(period, "yyyy-MM", new Date()), "MMMM yyyy");
+
+export function PayrollRunsTable({ runs, isLoading = false, onOpen }: PayrollRunsTableProps) {
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Period</TableHead>
+            <TableHead>Company</TableHead>
+            <TableHead className="text-right">Employees</TableHead>
+            <TableHead className="text-right">Gross</TableHead>
+            <TableHead className="text-right">Net Pay</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground py-6">
+                No payroll runs yet
+              </TableCell>
+            </TableRow>
+          )}
+          {runs.map((run) => (
+            <TableRow key={run.id} className="cursor-pointer" onClick={() => onOpen(run)}>
+              <TableCell className="font-medium">{formatPeriod(run.period)}</TableCell>
+              <TableCell>{run.companyName || run.companyId}</TableCell>
+              <TableCell className="text-right">{run.totals.employees}</TableCell>
+              <TableCell className="text-right">{formatPayrollAmount(run.totals.grossEarnings)}</TableCell>
+              <TableCell className="text-right font-medium">{formatPayrollAmount(run.totals.netPay)}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className={payrollRunStatusStyles[run.status]}>
+                  {payrollRunStatusLabels[run.status]}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right">
+                <Button variant="ghost" size="sm" onClick={() => onOpen(run)}>
+                  Open
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * Salary Revision Dialog
+ * Adds a salary revision for an employee: structure, annual CTC and effective date,
+ * with the resolved monthly breakup saved on the revision
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { useUserManagement } from '@/contexts/UserManagementContext';
+import { EmployeeSalaryRevision, SalaryStructure } from '../types/salaryStructure.types';
+import {
+  computeSalaryBreakup,
+  findMatchingStructures,
+  isBreakupBalanced,
+  toSalaryComponentLines,
+} from '../utils/salaryStructure';
+import { CtcBreakupPreview } from './CtcBreakupPreview';
+
+interface SalaryRevisionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string;
+  structures: SalaryStructure[];
+  currentRevision: EmployeeSalaryRevision | null; // Prefills structure and CTC
+  onSaved: (revision: EmployeeSalaryRevision) => void;
+}
+
+export const SalaryRevisionDialog: React.FC<SalaryRevisionDialogProps> = ({
+  open,
+  onOpenChange,
+  employeeId,
+  structures,
+  currentRevision,
+  onSaved,
+}) => {
+  const { createEmployeeSalaryRevision, isLoading } = usePayroll();
+  const { getJobDetailsById } = useUserManagement();
+  const [matchingIds, setMatchingIds] = useState<string[]>([]);
+  const [structureId, setStructureId] = useState('');
+  const [annualCtc, setAnnualCtc] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [remarks, setRemarks] = useState('');
+
+  // Structures matching the employee's designation and type are offered first
+  const loadMatchingStructures = async () => {
+    const jobDetails = await getJobDetailsById(employeeId);
+    const matching = findMatchingStructures(structures, jobDetails?.designationId, jobDetails?.employeeTypeId);
+    setMatchingIds(matching.map((structure) => structure.id));
+    setStructureId(currentRevision?.structureId || matching[0]?.id || '');
+  };
+
+  useEffect(() => {
+    if (!open || !employeeId) return;
+    setAnnualCtc(currentRevision ? String(currentRevision.annualCtc) : '');
+    setEffectiveFrom(format(new Date(), 'yyyy-MM-dd'));
+    setRemarks('');
+    loadMatchingStructures();
+  }, [open, employeeId]);
+
+  const activeStructures = structures.filter((structure) => structure.active);
+  const orderedStructures = [
+    ...activeStructures.filter((structure) => matchingIds.includes(structure.id)),
+    ...activeStructures.filter((structure) => !matchingIds.includes(structure.id)),
+  ];
+  const structure = structures.find((item) => item.id === structureId) || null;
+
+  const breakup = useMemo(
+    () => (structure && Number(annualCtc) > 0 ? computeSalaryBreakup(structure.components, Number(annualCtc)) : null),
+    [structure, annualCtc]
+  );
+
+  let validationError: string | null = null;
+  if (currentRevision && effectiveFrom && effectiveFrom < currentRevision.effectiveFrom) {
+    validationError = `Must be effective on or after the current revision (${currentRevision.effectiveFrom})`;
+  } else if (breakup && !isBreakupBalanced(breakup)) {
+    validationError = 'The components of this structure do not add up to the CTC';
+  }
+
+  const canSave = !!structure && !!breakup && !!effectiveFrom && !validationError;
+
+  const handleSave = async () => {
+    if (!structure || !breakup) return;
+    const saved = await createEmployeeSalaryRevision({
+      employeeId,
+      structureId: structure.id,
+      annualCtc: Number(annualCtc),
+      effectiveFrom,
+      components: toSalaryComponentLines(breakup),
+      remarks: remarks.trim() || undefined,
+    });
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Revise Salary</DialogTitle>
+          <DialogDescription>
+            A new revision takes over from its effective date; earlier payroll runs keep the salary they were computed with
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Salary Structure</Label>
+            <Select value={structureId} onValueChange={setStructureId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select structure" />
+              </SelectTrigger>
+              <SelectContent>
+                {orderedStructures.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                    {matchingIds.includes(item.id) && ' (matches designation)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Annual CTC</Label>
+              <Input type="number" min={0} value={annualCtc} onChange={(e) => setAnnualCtc(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Effective From</Label>
+              <Input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Remarks</Label>
+            <Textarea
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+              placeholder="e.g. Annual appraisal 2026"
+              rows={2}
+              className="resize-none"
+            />
+          </div>
+
+          {breakup && <CtcBreakupPreview breakup={breakup} />}
+
+          {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isLoading}>
+            Save Revision
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,367 @@
+/**
+ * Salary Structure Designer
+ * Creates or edits a salary structure: components as fixed amounts, percentages
+ * or formulas, the designations / employee types it applies to, and a CTC breakup preview
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { Designation, EmployeeType } from '@/modules/user-management/types/settings.types';
+import { SalaryComponentType } from '../types/payroll.types';
+import {
+  SalaryComponentCalculation,
+  SalaryComponentDefinition,
+  SalaryStructure,
+} from '../types/salaryStructure.types';
+import {
+  DEFAULT_SALARY_COMPONENTS,
+  salaryComponentCalculationLabels,
+  salaryComponentTypeLabels,
+  STATUTORY_COMPONENT_CODES,
+} from '../constants';
+import { computeSalaryBreakup, CTC_REFERENCE, validateSalaryComponents } from '../utils/salaryStructure';
+import { CtcBreakupPreview } from './CtcBreakupPreview';
+
+interface SalaryStructureDesignerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  structure: SalaryStructure | null; // null = new structure
+  designations: Designation[];
+  employeeTypes: EmployeeType[];
+  onSaved: (structure: SalaryStructure) => void;
+}
+
+const PREVIEW_CTC = 1200000;
+
+const toggleId = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter((item) => item !== id);
+
+const parseAmount = (value: string) => (value === '' ? undefined : Number(value));
+
+export const SalaryStructureDesigner: React.FC<SalaryStructureDesignerProps> = ({
+  open,
+  onOpenChange,
+  structure,
+  designations,
+  employeeTypes,
+  onSaved,
+}) => {
+  const { createSalaryStructure, updateSalaryStructure, isLoading } = usePayroll();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [designationIds, setDesignationIds] = useState<string[]>([]);
+  const [employeeTypeIds, setEmployeeTypeIds] = useState<string[]>([]);
+  const [components, setComponents] = useState<SalaryComponentDefinition[]>([]);
+  const [active, setActive] = useState(true);
+  const [previewCtc, setPreviewCtc] = useState(String(PREVIEW_CTC));
+
+  useEffect(() => {
+    if (!open) return;
+    setName(structure?.name || '');
+    setDescription(structure?.description || '');
+    setDesignationIds(structure?.designationIds || []);
+    setEmployeeTypeIds(structure?.employeeTypeIds || []);
+    setComponents(structure?.components || DEFAULT_SALARY_COMPONENTS);
+    setActive(structure?.active ?? true);
+    setPreviewCtc(String(PREVIEW_CTC));
+  }, [open, structure]);
+
+  const updateComponent = (index: number, changes: Partial<SalaryComponentDefinition>) => {
+    setComponents((prev) => prev.map((component, i) => (i === index ? { ...component, ...changes } : component)));
+  };
+
+  const addComponent = (type: SalaryComponentType) => {
+    setComponents((prev) => [...prev, { code: '', name: '', type, calculation: 'FIXED', amount: 0 }]);
+  };
+
+  const removeComponent = (index: number) => {
+    setComponents((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const validationErrors = useMemo(() => validateSalaryComponents(components), [components]);
+  const breakup = useMemo(
+    () => computeSalaryBreakup(components, Number(previewCtc) || 0),
+    [components, previewCtc]
+  );
+
+  const canSave = !!name.trim() && validationErrors.length === 0 && breakup.errors.length === 0;
+
+  const handleSave = async () => {
+    const carrier = {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      designationIds,
+      employeeTypeIds,
+      components,
+      active,
+    };
+    const saved = structure
+      ? await updateSalaryStructure(structure.id, carrier)
+      : await createSalaryStructure(carrier);
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  const renderValueField = (component: SalaryComponentDefinition, index: number) => {
+    if (component.calculation === 'FIXED') {
+      return (
+        <Input
+          type="number"
+          min={0}
+          value={component.amount ?? ''}
+          onChange={(e) => updateComponent(index, { amount: parseAmount(e.target.value) })}
+          placeholder="Monthly amount"
+        />
+      );
+    }
+    if (component.calculation === 'PERCENTAGE') {
+      const bases = components.filter((other, i) => i !== index && other.code);
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            className="w-20"
+            value={component.percentage ?? ''}
+            onChange={(e) => updateComponent(index, { percentage: parseAmount(e.target.value) })}
+          />
+          <span className="text-sm text-muted-foreground">% of</span>
+          <Select
+            value={component.percentageOf || CTC_REFERENCE}
+            onValueChange={(value) => updateComponent(index, { percentageOf: value })}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CTC_REFERENCE}>CTC</SelectItem>
+              {bases.map((other) => (
+                <SelectItem key={other.code} value={other.code}>
+                  {other.code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    }
+    return (
+      <Input
+        value={component.formula || ''}
+        onChange={(e) => updateComponent(index, { formula: e.target.value })}
+        placeholder="e.g. CTC - BASIC - HRA"
+        className="font-mono text-sm"
+      />
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{structure ? 'Edit Salary Structure' : 'New Salary Structure'}</DialogTitle>
+          <DialogDescription>
+            Amounts are monthly. Percentages and formulas can use CTC (monthly) and the codes of other components.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Engineering - Standard" />
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Switch checked={active} onCheckedChange={setActive} id="structure-active" />
+              <Label htmlFor="structure-active">Active</Label>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Description</Label>
+              <Textarea
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                className="resize-none"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Designations</Label>
+              <div className="max-h-36 overflow-y-auto rounded-md border p-2 space-y-1">
+                {designations.map((designation) => (
+                  <label key={designation.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={designationIds.includes(designation.id)}
+                      onCheckedChange={(checked) =>
+                        setDesignationIds((prev) => toggleId(prev, designation.id, checked === true))
+                      }
+                    />
+                    {designation.designation}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">None selected = every designation</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Employee Types</Label>
+              <div className="max-h-36 overflow-y-auto rounded-md border p-2 space-y-1">
+                {employeeTypes.map((employeeType) => (
+                  <label key={employeeType.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={employeeTypeIds.includes(employeeType.id)}
+                      onCheckedChange={(checked) =>
+                        setEmployeeTypeIds((prev) => toggleId(prev, employeeType.id, checked === true))
+                      }
+                    />
+                    {employeeType.employeeType}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">None selected = every employee type</p>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-base">Components</Label>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => addComponent('EARNING')} className="gap-1">
+                  <Plus className="h-4 w-4" />
+                  Earning
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => addComponent('DEDUCTION')} className="gap-1">
+                  <Plus className="h-4 w-4" />
+                  Deduction
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[7rem_1fr_7rem_9rem_2fr_4rem_2.5rem] gap-2 text-xs font-medium text-muted-foreground">
+              <span>Code</span>
+              <span>Name</span>
+              <span>Type</span>
+              <span>Calculation</span>
+              <span>Value</span>
+              <span>LOP</span>
+              <span />
+            </div>
+            {components.map((component, index) => (
+              <div key={index} className="grid grid-cols-[7rem_1fr_7rem_9rem_2fr_4rem_2.5rem] items-center gap-2">
+                <Input
+                  value={component.code}
+                  onChange={(e) => updateComponent(index, { code: e.target.value.toUpperCase() })}
+                  className="font-mono text-sm"
+                />
+                <Input value={component.name} onChange={(e) => updateComponent(index, { name: e.target.value })} />
+                <Select
+                  value={component.type}
+                  onValueChange={(value) => updateComponent(index, { type: value as SalaryComponentType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(salaryComponentTypeLabels) as SalaryComponentType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {salaryComponentTypeLabels[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={component.calculation}
+                  onValueChange={(value) =>
+                    updateComponent(index, { calculation: value as SalaryComponentCalculation })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(salaryComponentCalculationLabels) as SalaryComponentCalculation[]).map(
+                      (calculation) => (
+                        <SelectItem key={calculation} value={calculation}>
+                          {salaryComponentCalculationLabels[calculation]}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+                {renderValueField(component, index)}
+                <div className="flex justify-center">
+                  {!(Object.values(STATUTORY_COMPONENT_CODES) as string[]).includes(component.code) && (
+                    <Checkbox
+                      checked={component.lopApplicable !== false}
+                      onCheckedChange={(checked) => updateComponent(index, { lopApplicable: checked === true })}
+                      title="Reduced for loss-of-pay days"
+                    />
+                  )}
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => removeComponent(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            {validationErrors.length > 0 && (
+              <ul className="list-disc pl-5 text-sm text-destructive">
+                {validationErrors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <Label className="text-base">Preview for annual CTC</Label>
+              <Input
+                type="number"
+                min={0}
+                className="w-48"
+                value={previewCtc}
+                onChange={(e) => setPreviewCtc(e.target.value)}
+              />
+            </div>
+            {validationErrors.length === 0 && <CtcBreakupPreview breakup={breakup} />}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isLoading}>
+            Save Structure
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
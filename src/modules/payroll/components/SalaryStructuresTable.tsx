@@ -0,0 +1,107 @@
+/**
+ * Salary Structures Table Component
+ * Salary structure templates with the designations and employee types they apply to
+ */
+
+import { Pencil } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SalaryStructure } from "../types/salaryStructure.types";
+
+interface SalaryStructuresTableProps {
+  structures: SalaryStructure[];
+  designationNames: Record<string, string>;
+  employeeTypeNames: Record<string, string>;
+  isLoading?: boolean;
+  onEdit: (structure: SalaryStructure) => void;
+}
+
+const describeIds = (ids: string[], names: Record<string, string>, allLabel: string) =>
+  ids.length === 0 ? allLabel : ids.map((id) => names[id] || id).join(", ");
+
+export function SalaryStructuresTable({
+  structures,
+  designationNames,
+  employeeTypeNames,
+  isLoading = false,
+  onEdit,
+}: SalaryStructuresTableProps) {
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Structure</TableHead>
+            <TableHead>Designations</TableHead>
+            <TableHead>Employee Types</TableHead>
+            <TableHead>Components</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {structures.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                No salary structures yet
+              </TableCell>
+            </TableRow>
+          )}
+          {structures.map((structure) => (
+            <TableRow key={structure.id}>
+              <TableCell>
+                <div className="font-medium">{structure.name}</div>
+                {structure.description && (
+                  <div className="text-xs text-muted-foreground max-w-xs truncate">{structure.description}</div>
+                )}
+              </TableCell>
+              <TableCell className="max-w-xs">
+                {describeIds(structure.designationIds, designationNames, "All designations")}
+              </TableCell>
+              <TableCell className="max-w-xs">
+                {describeIds(structure.employeeTypeIds, employeeTypeNames, "All employee types")}
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {structure.components.map((component) => (
+                    <Badge
+                      key={component.code}
+                      variant="outline"
+                      className={component.type === "DEDUCTION" ? "text-muted-foreground" : ""}
+                    >
+                      {component.code}
+                    </Badge>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell>
+                <Badge variant={structure.active ? "default" : "secondary"}>
+                  {structure.active ? "Active" : "Inactive"}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right">
+                <Button variant="outline" size="sm" onClick={() => onEdit(structure)}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Statutory Flags Table Component
+ * Employees with missing or mismatched statutory data, grouped per employee
+ */
+
+import React from 'react';
+import { Pencil } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StatutoryFlag } from '../types/statutory.types';
+import { statutoryFlagLabels } from '../constants';
+
+interface StatutoryFlagsTableProps {
+  flags: StatutoryFlag[];
+  onEdit: (employeeId: string) => void;
+}
+
+export const StatutoryFlagsTable: React.FC<StatutoryFlagsTableProps> = ({ flags, onEdit }) => {
+  const byEmployee = new Map<string, StatutoryFlag[]>();
+  flags.forEach((flag) => byEmployee.set(flag.employeeId, [...(byEmployee.get(flag.employeeId) || []), flag]));
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Employee</TableHead>
+          <TableHead>Issues</TableHead>
+          <TableHead className="w-10" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {byEmployee.size === 0 ? (
+          <TableRow>
+            <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+              No statutory data issues
+            </TableCell>
+          </TableRow>
+        ) : (
+          Array.from(byEmployee.entries()).map(([employeeId, employeeFlags]) => (
+            <TableRow key={employeeId}>
+              <TableCell className="align-top">
+                <div className="font-medium">{employeeFlags[0].employeeName}</div>
+                <div className="text-xs text-muted-foreground">{employeeId}</div>
+              </TableCell>
+              <TableCell>
+                <ul className="space-y-1">
+                  {employeeFlags.map((flag) => (
+                    <li key={`${flag.code}-${flag.message}`} className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge variant={flag.severity === 'error' ? 'destructive' : 'secondary'}>
+                        {statutoryFlagLabels[flag.code]}
+                      </Badge>
+                      <span className="text-muted-foreground">{flag.message}</span>
+                    </li>
+                  ))}
+                </ul>
+              </TableCell>
+              <TableCell className="align-top">
+                <Button variant="ghost" size="icon" title="Edit UAN / ESI IP number" onClick={() => onEdit(employeeId)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+};
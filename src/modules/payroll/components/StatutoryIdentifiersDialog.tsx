@@ -0,0 +1,96 @@
+/**
+ * Statutory Identifiers Dialog
+ * Records an employee's UAN and ESI IP number; PAN, Aadhaar and bank details
+ * come from onboarding and are shown for reference
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { StatutoryEmployeeDetails } from '../types/statutory.types';
+import { isValidUan } from '../utils/statutoryValidation';
+
+interface StatutoryIdentifiersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  details: StatutoryEmployeeDetails | null;
+  onSaved: (details: StatutoryEmployeeDetails) => void;
+}
+
+export const StatutoryIdentifiersDialog: React.FC<StatutoryIdentifiersDialogProps> = ({
+  open,
+  onOpenChange,
+  details,
+  onSaved,
+}) => {
+  const { updateStatutoryIdentifiers, isLoading } = usePayroll();
+  const [uan, setUan] = useState('');
+  const [esiIpNumber, setEsiIpNumber] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setUan(details?.uan || '');
+    setEsiIpNumber(details?.esiIpNumber || '');
+  }, [open, details]);
+
+  const uanError = uan.trim() && !isValidUan(uan) ? 'UAN is 12 digits' : '';
+
+  const handleSave = async () => {
+    if (!details) return;
+    const saved = await updateStatutoryIdentifiers(details.employeeId, {
+      uan: uan.trim() || undefined,
+      esiIpNumber: esiIpNumber.trim() || undefined,
+    });
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Statutory Details</DialogTitle>
+          <DialogDescription>
+            {details ? `${details.firstName} ${details.lastName}`.trim() : ''} · PAN {details?.panNumber || 'not on file'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>UAN</Label>
+            <Input value={uan} onChange={(e) => setUan(e.target.value)} inputMode="numeric" placeholder="12-digit UAN" />
+            {uanError && <p className="text-sm text-destructive">{uanError}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label>ESI IP Number</Label>
+            <Input value={esiIpNumber} onChange={(e) => setEsiIpNumber(e.target.value)} inputMode="numeric" />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            PAN, Aadhaar and bank details are corrected in the employee's onboarding profile.
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || !!uanError}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,181 @@
+/**
+ * Statutory Run Report Component
+ * PF, ESI, professional tax and TDS of every employee in a payroll run,
+ * with the monthly ECR, ESI, PT challan and TDS files
+ */
+
+import React from 'react';
+import { Download } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { downloadTextFile } from '@/lib/download';
+import { PayrollRun } from '../types/payroll.types';
+import { StatutoryEmployeeDetails, StatutorySettings } from '../types/statutory.types';
+import { formatPayrollAmount } from '../utils/payrollEngine';
+import {
+  buildEcrFile,
+  buildEsiFile,
+  buildProfessionalTaxChallan,
+  buildTdsChallan,
+  StatutoryFile,
+} from '../utils/statutoryFiles';
+
+interface StatutoryRunReportProps {
+  run: PayrollRun;
+  details: StatutoryEmployeeDetails[];
+  settings: StatutorySettings;
+}
+
+const amountOrDash = (value?: number) => (value ? formatPayrollAmount(value) : '-');
+
+export const StatutoryRunReport: React.FC<StatutoryRunReportProps> = ({ run, details, settings }) => {
+  const entries = run.entries.filter((entry) => entry.statutory);
+
+  const total = (pick: (entry: (typeof entries)[number]) => number | undefined) =>
+    entries.reduce((sum, entry) => sum + (pick(entry) || 0), 0);
+
+  const totals = {
+    pfEmployee: total((entry) => entry.statutory!.pf?.employeeShare),
+    pfEmployer: total((entry) => (entry.statutory!.pf ? entry.statutory!.pf.employerEps + entry.statutory!.pf.employerEpf : 0)),
+    esiEmployee: total((entry) => entry.statutory!.esi?.employeeShare),
+    esiEmployer: total((entry) => entry.statutory!.esi?.employerShare),
+    professionalTax: total((entry) => entry.statutory!.professionalTax?.amount),
+    tds: total((entry) => entry.statutory!.tds?.amount),
+  };
+
+  const files: { label: string; file: StatutoryFile; skippedReason: string }[] = [
+    { label: 'PF ECR', file: buildEcrFile(run, details), skippedReason: 'without a UAN' },
+    { label: 'ESI Contributions', file: buildEsiFile(run, details), skippedReason: 'without an ESI IP number' },
+    { label: 'PT Challan', file: buildProfessionalTaxChallan(run, settings), skippedReason: '' },
+    { label: 'TDS Challan', file: buildTdsChallan(run, details), skippedReason: '' },
+  ];
+
+  const summary = [
+    { label: 'PF (Employee / Employer)', value: `${formatPayrollAmount(totals.pfEmployee)} / ${formatPayrollAmount(totals.pfEmployer)}` },
+    { label: 'ESI (Employee / Employer)', value: `${formatPayrollAmount(totals.esiEmployee)} / ${formatPayrollAmount(totals.esiEmployer)}` },
+    { label: 'Professional Tax', value: formatPayrollAmount(totals.professionalTax) },
+    { label: 'TDS', value: formatPayrollAmount(totals.tds) },
+  ];
+
+  if (entries.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          This run was computed without statutory deductions. Recalculate it while in draft to include them.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+        {summary.map((item) => (
+          <Card key={item.label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{item.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-lg font-bold">{item.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {files.map(({ label, file }) => (
+          <Button
+            key={label}
+            variant="outline"
+            className="gap-2"
+            disabled={file.included.length === 0}
+            onClick={() => downloadTextFile(file.content, file.filename, file.mimeType)}
+          >
+            <Download className="h-4 w-4" />
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {files
+        .filter(({ file, skippedReason }) => skippedReason && file.skipped.length > 0)
+        .map(({ label, file, skippedReason }) => (
+          <Alert key={label}>
+            <AlertDescription>
+              {label}: {file.skipped.length} employee(s) {skippedReason} are left out:{' '}
+              {file.skipped.map((entry) => entry.employeeName).join(', ')}
+            </AlertDescription>
+          </Alert>
+        ))}
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead className="text-right">Gross</TableHead>
+                <TableHead className="text-right">PF Wages</TableHead>
+                <TableHead className="text-right">PF (EE)</TableHead>
+                <TableHead className="text-right">EPS / EPF (ER)</TableHead>
+                <TableHead className="text-right">ESI (EE / ER)</TableHead>
+                <TableHead className="text-right">PT</TableHead>
+                <TableHead className="text-right">TDS</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const { pf, esi, professionalTax, tds } = entry.statutory!;
+                return (
+                  <TableRow key={entry.employeeId}>
+                    <TableCell>
+                      <div className="font-medium">{entry.employeeName}</div>
+                      <div className="text-xs text-muted-foreground">{entry.employeeId}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatPayrollAmount(entry.grossEarnings)}</TableCell>
+                    <TableCell className="text-right">{pf ? formatPayrollAmount(pf.epfWages) : '-'}</TableCell>
+                    <TableCell className="text-right">{amountOrDash(pf?.employeeShare)}</TableCell>
+                    <TableCell className="text-right">
+                      {pf ? `${formatPayrollAmount(pf.employerEps)} / ${formatPayrollAmount(pf.employerEpf)}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {esi ? `${formatPayrollAmount(esi.employeeShare)} / ${formatPayrollAmount(esi.employerShare)}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {professionalTax ? `${formatPayrollAmount(professionalTax.amount)} (${professionalTax.stateCode})` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">{amountOrDash(tds?.amount)}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total ({entries.length})</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(total((entry) => entry.grossEarnings))}</TableCell>
+                <TableCell />
+                <TableCell className="text-right">{formatPayrollAmount(totals.pfEmployee)}</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(totals.pfEmployer)}</TableCell>
+                <TableCell className="text-right">
+                  {formatPayrollAmount(totals.esiEmployee)} / {formatPayrollAmount(totals.esiEmployer)}
+                </TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(totals.professionalTax)}</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(totals.tds)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
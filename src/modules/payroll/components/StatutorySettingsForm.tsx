@@ -0,0 +1,360 @@
+/**
+ * Statutory Settings Form Component
+ * PF and ESI ceilings and rates, professional tax slabs per state with the
+ * work location -> state mapping, and the default TDS regime
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { WorkLocation } from '@/modules/user-management/types/settings.types';
+import {
+  EsiSettings,
+  PfSettings,
+  ProfessionalTaxSlab,
+  StatutorySettings,
+  TaxRegime,
+} from '../types/statutory.types';
+import { taxRegimeLabels } from '../constants';
+
+interface StatutorySettingsFormProps {
+  settings: StatutorySettings;
+  workLocations: WorkLocation[];
+  isSaving: boolean;
+  onSave: (settings: StatutorySettings) => void;
+}
+
+const NO_STATE = 'none';
+
+const toNumber = (value: string) => (value === '' ? 0 : Number(value));
+
+const NumberField = ({
+  label,
+  value,
+  onChange,
+  suffix,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  suffix?: string;
+}) => (
+  <div className="space-y-2">
+    <Label>
+      {label}
+      {suffix && <span className="text-muted-foreground"> ({suffix})</span>}
+    </Label>
+    <Input type="number" min={0} step="any" value={value} onChange={(e) => onChange(toNumber(e.target.value))} />
+  </div>
+);
+
+export const StatutorySettingsForm: React.FC<StatutorySettingsFormProps> = ({
+  settings,
+  workLocations,
+  isSaving,
+  onSave,
+}) => {
+  const [draft, setDraft] = useState<StatutorySettings>(settings);
+  const [stateCode, setStateCode] = useState(settings.professionalTax.states[0]?.stateCode || '');
+
+  useEffect(() => {
+    setDraft(settings);
+    setStateCode(settings.professionalTax.states[0]?.stateCode || '');
+  }, [settings]);
+
+  const updatePf = (changes: Partial<PfSettings>) => setDraft((prev) => ({ ...prev, pf: { ...prev.pf, ...changes } }));
+
+  const updateEsi = (changes: Partial<EsiSettings>) =>
+    setDraft((prev) => ({ ...prev, esi: { ...prev.esi, ...changes } }));
+
+  const updateSlabs = (update: (slabs: ProfessionalTaxSlab[]) => ProfessionalTaxSlab[]) =>
+    setDraft((prev) => ({
+      ...prev,
+      professionalTax: {
+        ...prev.professionalTax,
+        states: prev.professionalTax.states.map((state) =>
+          state.stateCode === stateCode ? { ...state, slabs: update(state.slabs) } : state
+        ),
+      },
+    }));
+
+  const updateSlab = (index: number, changes: Partial<ProfessionalTaxSlab>) =>
+    updateSlabs((slabs) => slabs.map((slab, position) => (position === index ? { ...slab, ...changes } : slab)));
+
+  const mapWorkLocation = (workLocationId: string, code: string) =>
+    setDraft((prev) => {
+      const workLocationStates = { ...prev.professionalTax.workLocationStates };
+      if (code === NO_STATE) delete workLocationStates[workLocationId];
+      else workLocationStates[workLocationId] = code;
+      return { ...prev, professionalTax: { ...prev.professionalTax, workLocationStates } };
+    });
+
+  const selectedState = draft.professionalTax.states.find((state) => state.stateCode === stateCode);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="text-base">Provident Fund</CardTitle>
+              <CardDescription>EPF and EPS on the PF wage components</CardDescription>
+            </div>
+            <Switch checked={draft.pf.enabled} onCheckedChange={(enabled) => updatePf({ enabled })} />
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2 sm:col-span-2">
+              <Label>PF Wage Components</Label>
+              <Input
+                value={draft.pf.wageComponents.join(', ')}
+                onChange={(e) =>
+                  updatePf({
+                    wageComponents: e.target.value
+                      .split(',')
+                      .map((code) => code.trim().toUpperCase())
+                      .filter(Boolean),
+                  })
+                }
+                placeholder="BASIC, DA"
+              />
+            </div>
+            <NumberField label="Wage Ceiling" suffix="₹ / month" value={draft.pf.wageCeiling} onChange={(wageCeiling) => updatePf({ wageCeiling })} />
+            <div className="flex items-center gap-2 pt-7">
+              <Switch
+                checked={draft.pf.restrictToWageCeiling}
+                onCheckedChange={(restrictToWageCeiling) => updatePf({ restrictToWageCeiling })}
+              />
+              <Label>Contribute on the ceiling only</Label>
+            </div>
+            <NumberField label="Employee Rate" suffix="%" value={draft.pf.employeeRate} onChange={(employeeRate) => updatePf({ employeeRate })} />
+            <NumberField label="Employer Rate" suffix="%" value={draft.pf.employerRate} onChange={(employerRate) => updatePf({ employerRate })} />
+            <NumberField label="EPS Rate" suffix="% of employer share" value={draft.pf.pensionRate} onChange={(pensionRate) => updatePf({ pensionRate })} />
+            <NumberField
+              label="EPS Wage Ceiling"
+              suffix="₹ / month"
+              value={draft.pf.pensionWageCeiling}
+              onChange={(pensionWageCeiling) => updatePf({ pensionWageCeiling })}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="text-base">Employee State Insurance</CardTitle>
+              <CardDescription>Applies to employees whose monthly gross is within the ceiling</CardDescription>
+            </div>
+            <Switch checked={draft.esi.enabled} onCheckedChange={(enabled) => updateEsi({ enabled })} />
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <NumberField label="Wage Ceiling" suffix="₹ / month" value={draft.esi.wageCeiling} onChange={(wageCeiling) => updateEsi({ wageCeiling })} />
+            <div />
+            <NumberField label="Employee Rate" suffix="%" value={draft.esi.employeeRate} onChange={(employeeRate) => updateEsi({ employeeRate })} />
+            <NumberField label="Employer Rate" suffix="%" value={draft.esi.employerRate} onChange={(employerRate) => updateEsi({ employerRate })} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="text-base">Professional Tax</CardTitle>
+            <CardDescription>Monthly slabs per state; employees pay the slabs of their work location's state</CardDescription>
+          </div>
+          <Switch
+            checked={draft.professionalTax.enabled}
+            onCheckedChange={(enabled) =>
+              setDraft((prev) => ({ ...prev, professionalTax: { ...prev.professionalTax, enabled } }))
+            }
+          />
+        </CardHeader>
+        <CardContent className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Work Locations</Label>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="w-[200px]">State</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {workLocations.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={2} className="text-center text-muted-foreground">
+                      No work locations configured
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  workLocations.map((location) => (
+                    <TableRow key={location.id}>
+                      <TableCell>{location.location}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={draft.professionalTax.workLocationStates[location.id] || NO_STATE}
+                          onValueChange={(value) => mapWorkLocation(location.id, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_STATE}>No professional tax</SelectItem>
+                            {draft.professionalTax.states.map((state) => (
+                              <SelectItem key={state.stateCode} value={state.stateCode}>
+                                {state.stateName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label>Slabs</Label>
+              <Select value={stateCode} onValueChange={setStateCode}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="State" />
+                </SelectTrigger>
+                <SelectContent>
+                  {draft.professionalTax.states.map((state) => (
+                    <SelectItem key={state.stateCode} value={state.stateCode}>
+                      {state.stateName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedState && (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Gross From</TableHead>
+                      <TableHead>Gross To</TableHead>
+                      <TableHead>Tax</TableHead>
+                      <TableHead>February</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedState.slabs.map((slab, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Input type="number" min={0} value={slab.minWage} onChange={(e) => updateSlab(index, { minWage: toNumber(e.target.value) })} />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={slab.maxWage ?? ''}
+                            placeholder="No limit"
+                            onChange={(e) => updateSlab(index, { maxWage: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input type="number" min={0} value={slab.monthlyTax} onChange={(e) => updateSlab(index, { monthlyTax: toNumber(e.target.value) })} />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={slab.februaryTax ?? ''}
+                            placeholder="Same"
+                            onChange={(e) =>
+                              updateSlab(index, { februaryTax: e.target.value === '' ? undefined : Number(e.target.value) })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => updateSlabs((slabs) => slabs.filter((_, position) => position !== index))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() =>
+                    updateSlabs((slabs) => {
+                      const last = slabs[slabs.length - 1];
+                      return [...slabs, { minWage: last?.maxWage !== undefined ? last.maxWage + 1 : 0, monthlyTax: 0 }];
+                    })
+                  }
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Slab
+                </Button>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="text-base">Income Tax (TDS)</CardTitle>
+            <CardDescription>Regime for employees who have not declared one for the year</CardDescription>
+          </div>
+          <Switch
+            checked={draft.tds.enabled}
+            onCheckedChange={(enabled) => setDraft((prev) => ({ ...prev, tds: { ...prev.tds, enabled } }))}
+          />
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={draft.tds.defaultRegime}
+            onValueChange={(value) =>
+              setDraft((prev) => ({ ...prev, tds: { ...prev.tds, defaultRegime: value as TaxRegime } }))
+            }
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(taxRegimeLabels) as TaxRegime[]).map((regime) => (
+                <SelectItem key={regime} value={regime}>
+                  {taxRegimeLabels[regime]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={() => onSave(draft)} disabled={isSaving} className="gap-2">
+          <Save className="h-4 w-4" />
+          Save Settings
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+/**
+ * Tax Declaration Dialog
+ * Records an employee's tax regime and investment declarations for a
+ * financial year, with the projected tax under both regimes
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { TaxDeclaration, TaxDeclarationCarrier, TaxRegime } from '../types/statutory.types';
+import { taxRegimeLabels } from '../constants';
+import { formatPayrollAmount } from '../utils/payrollEngine';
+import { computeIncomeTax, computeTaxableIncome, TaxableSalary } from '../utils/statutoryEngine';
+
+interface TaxDeclarationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId: string;
+  employeeName: string;
+  financialYear: number;
+  financialYearLabel: string;
+  declaration: TaxDeclaration | null;
+  defaultRegime: TaxRegime;
+  projectedSalary: TaxableSalary | null; // From the latest run, for the regime comparison
+  onSaved: (declaration: TaxDeclaration) => void;
+}
+
+type AmountField = 'section80C' | 'section80D' | 'hraExemption' | 'homeLoanInterest' | 'otherDeductions';
+
+const AMOUNT_FIELDS: { field: AmountField; label: string; hint: string }[] = [
+  { field: 'section80C', label: 'Section 80C', hint: 'Excluding employee PF, which payroll adds' },
+  { field: 'section80D', label: 'Section 80D', hint: 'Health insurance premiums' },
+  { field: 'hraExemption', label: 'HRA Exemption', hint: 'Exempt portion of HRA, section 10(13A)' },
+  { field: 'homeLoanInterest', label: 'Home Loan Interest', hint: 'Section 24(b), up to ₹2,00,000' },
+  { field: 'otherDeductions', label: 'Other Deductions', hint: 'e.g. 80E, 80G, 80CCD(1B)' },
+];
+
+const emptyAmounts = (): Record<AmountField, string> => ({
+  section80C: '',
+  section80D: '',
+  hraExemption: '',
+  homeLoanInterest: '',
+  otherDeductions: '',
+});
+
+export const TaxDeclarationDialog: React.FC<TaxDeclarationDialogProps> = ({
+  open,
+  onOpenChange,
+  employeeId,
+  employeeName,
+  financialYear,
+  financialYearLabel,
+  declaration,
+  defaultRegime,
+  projectedSalary,
+  onSaved,
+}) => {
+  const { saveTaxDeclaration, isLoading } = usePayroll();
+  const [regime, setRegime] = useState<TaxRegime>(defaultRegime);
+  const [amounts, setAmounts] = useState(emptyAmounts);
+
+  useEffect(() => {
+    if (!open) return;
+    setRegime(declaration?.regime || defaultRegime);
+    setAmounts(
+      declaration
+        ? (Object.fromEntries(AMOUNT_FIELDS.map(({ field }) => [field, String(declaration[field] || '')])) as Record<AmountField, string>)
+        : emptyAmounts()
+    );
+  }, [open, declaration]);
+
+  const carrier: TaxDeclarationCarrier = {
+    employeeId,
+    financialYear,
+    regime,
+    section80C: Number(amounts.section80C) || 0,
+    section80D: Number(amounts.section80D) || 0,
+    hraExemption: Number(amounts.hraExemption) || 0,
+    homeLoanInterest: Number(amounts.homeLoanInterest) || 0,
+    otherDeductions: Number(amounts.otherDeductions) || 0,
+  };
+
+  const comparison = projectedSalary
+    ? (Object.keys(taxRegimeLabels) as TaxRegime[]).map((item) => ({
+        regime: item,
+        tax: computeIncomeTax(computeTaxableIncome(item, projectedSalary, { ...carrier, regime: item }), item),
+      }))
+    : [];
+
+  const handleSave = async () => {
+    const saved = await saveTaxDeclaration(carrier);
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Tax Declaration</DialogTitle>
+          <DialogDescription>
+            {employeeName} · FY {financialYearLabel} · annual amounts
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Tax Regime</Label>
+            <Select value={regime} onValueChange={(value) => setRegime(value as TaxRegime)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(taxRegimeLabels) as TaxRegime[]).map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {taxRegimeLabels[item]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            {AMOUNT_FIELDS.map(({ field, label, hint }) => (
+              <div key={field} className="space-y-1">
+                <Label>{label}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={amounts[field]}
+                  onChange={(e) => setAmounts((prev) => ({ ...prev, [field]: e.target.value }))}
+                  disabled={regime === 'NEW'}
+                />
+                <p className="text-xs text-muted-foreground">{hint}</p>
+              </div>
+            ))}
+          </div>
+          {regime === 'NEW' && (
+            <p className="text-sm text-muted-foreground">
+              The new regime only allows the standard deduction; declared investments are kept but not used.
+            </p>
+          )}
+
+          {comparison.length > 0 && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div className="font-medium">Projected annual tax</div>
+              {comparison.map((item) => (
+                <div key={item.regime} className="flex justify-between">
+                  <span>{taxRegimeLabels[item.regime]}</span>
+                  <span>{formatPayrollAmount(item.tax)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading}>
+            Save Declaration
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,109 @@
+/**
+ * TDS Projection Table Component
+ * Projected annual tax behind each employee's TDS in a run, under the regime
+ * used and the alternative one
+ */
+
+import React from 'react';
+import { FileEdit } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { PayrollRunEntry } from '../types/payroll.types';
+import { TaxDeclaration, TaxRegime } from '../types/statutory.types';
+import { taxRegimeLabels } from '../constants';
+import { formatPayrollAmount } from '../utils/payrollEngine';
+import { computeIncomeTax, computeTaxableIncome } from '../utils/statutoryEngine';
+
+interface TdsProjectionTableProps {
+  entries: PayrollRunEntry[];
+  declarations: Record<string, TaxDeclaration>; // By employee ID
+  onEditDeclaration: (entry: PayrollRunEntry) => void;
+}
+
+const otherRegime = (regime: TaxRegime): TaxRegime => (regime === 'NEW' ? 'OLD' : 'NEW');
+
+export const TdsProjectionTable: React.FC<TdsProjectionTableProps> = ({ entries, declarations, onEditDeclaration }) => {
+  const rows = entries.filter((entry) => entry.statutory?.tds);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Employee</TableHead>
+          <TableHead>Regime</TableHead>
+          <TableHead className="text-right">Projected Gross</TableHead>
+          <TableHead className="text-right">Taxable Income</TableHead>
+          <TableHead className="text-right">Annual Tax</TableHead>
+          <TableHead className="text-right">Other Regime</TableHead>
+          <TableHead className="text-right">Deducted Before</TableHead>
+          <TableHead className="text-right">TDS This Month</TableHead>
+          <TableHead className="w-10" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={9} className="text-center text-muted-foreground py-8">
+              No TDS computed in this run
+            </TableCell>
+          </TableRow>
+        ) : (
+          rows.map((entry) => {
+            const tds = entry.statutory!.tds!;
+            const declaration = declarations[entry.employeeId];
+            const alternative = otherRegime(tds.regime);
+            const alternativeTax = computeIncomeTax(
+              computeTaxableIncome(
+                alternative,
+                {
+                  grossSalary: tds.projectedGross,
+                  professionalTax: tds.projectedProfessionalTax,
+                  employeePf: tds.projectedEmployeePf,
+                },
+                declaration
+              ),
+              alternative
+            );
+            return (
+              <TableRow key={entry.employeeId}>
+                <TableCell>
+                  <div className="font-medium">{entry.employeeName}</div>
+                  <div className="text-xs text-muted-foreground">{entry.employeeId}</div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant="outline">{taxRegimeLabels[tds.regime]}</Badge>
+                    {!declaration && <Badge variant="secondary">No declaration</Badge>}
+                    {tds.panMissing && <Badge variant="destructive">No PAN</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(tds.projectedGross)}</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(tds.taxableIncome)}</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(tds.annualTax)}</TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {formatPayrollAmount(alternativeTax)}
+                  <div className="text-xs">{taxRegimeLabels[alternative]}</div>
+                </TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(tds.deductedBefore)}</TableCell>
+                <TableCell className="text-right font-medium">{formatPayrollAmount(tds.amount)}</TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="icon" title="Edit declaration" onClick={() => onEditDeclaration(entry)}>
+                    <FileEdit className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            );
+          })
+        )}
+      </TableBody>
+    </Table>
+  );
+};
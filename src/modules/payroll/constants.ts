@@ -0,0 +1,226 @@
+/**
+ * Payroll Constants
+ */
+
+import { PayrollRunAction, PayrollRunStatus, SalaryComponentType } from './types/payroll.types';
+import { SalaryComponentCalculation, SalaryComponentDefinition } from './types/salaryStructure.types';
+import { StatutoryFlagCode, StatutorySettings, TaxRegime } from './types/statutory.types';
+
+export const payrollRunStatusLabels: Record<PayrollRunStatus, string> = {
+  DRAFT: 'Draft',
+  REVIEW: 'In Review',
+  LOCKED: 'Locked',
+  PAID: 'Paid',
+};
+
+/**
+ * Badge styles per payroll run status
+ */
+export const payrollRunStatusStyles: Record<PayrollRunStatus, string> = {
+  DRAFT: 'bg-muted text-muted-foreground',
+  REVIEW: 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-950 dark:text-amber-300',
+  LOCKED: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-950 dark:text-blue-300',
+  PAID: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-950 dark:text-green-300',
+};
+
+export const PAYROLL_RUN_STEPS: PayrollRunStatus[] = ['DRAFT', 'REVIEW', 'LOCKED', 'PAID'];
+
+/**
+ * Allowed status changes: action -> [from, to]
+ */
+export const PAYROLL_RUN_TRANSITIONS: Record<PayrollRunAction, [PayrollRunStatus, PayrollRunStatus]> = {
+  review: ['DRAFT', 'REVIEW'],
+  draft: ['REVIEW', 'DRAFT'],
+  lock: ['REVIEW', 'LOCKED'],
+  paid: ['LOCKED', 'PAID'],
+};
+
+export const payrollRunActionLabels: Record<PayrollRunAction, string> = {
+  review: 'Submit for Review',
+  draft: 'Send Back to Draft',
+  lock: 'Lock Payroll',
+  paid: 'Mark as Paid',
+};
+
+export const salaryComponentTypeLabels: Record<SalaryComponentType, string> = {
+  EARNING: 'Earning',
+  DEDUCTION: 'Deduction',
+};
+
+export const salaryComponentCalculationLabels: Record<SalaryComponentCalculation, string> = {
+  FIXED: 'Fixed amount',
+  PERCENTAGE: 'Percentage',
+  FORMULA: 'Formula',
+};
+
+/**
+ * Starting components of a new salary structure
+ * Special allowance balances the earnings to the CTC; PF is capped at a ₹15,000 wage ceiling
+ */
+export const DEFAULT_SALARY_COMPONENTS: SalaryComponentDefinition[] = [
+  { code: 'BASIC', name: 'Basic', type: 'EARNING', calculation: 'PERCENTAGE', percentage: 50, percentageOf: 'CTC' },
+  { code: 'HRA', name: 'House Rent Allowance', type: 'EARNING', calculation: 'PERCENTAGE', percentage: 40, percentageOf: 'BASIC' },
+  { code: 'SPECIAL', name: 'Special Allowance', type: 'EARNING', calculation: 'FORMULA', formula: 'CTC - BASIC - HRA' },
+  { code: 'PF', name: 'Provident Fund', type: 'DEDUCTION', calculation: 'FORMULA', formula: 'min(BASIC, 15000) * 0.12' },
+  { code: 'PT', name: 'Professional Tax', type: 'DEDUCTION', calculation: 'FIXED', amount: 200 },
+];
+
+/**
+ * Component codes with a statutory meaning in payslip summaries
+ */
+export const STATUTORY_COMPONENT_CODES = {
+  PF: 'PF',
+  ESI: 'ESI',
+  PROFESSIONAL_TAX: 'PT',
+  TDS: 'TDS',
+} as const;
+
+// Standard deduction on salary income, section 16(ia) (new tax regime)
+export const STANDARD_DEDUCTION = 75000;
+
+// Financial year starts in April
+export const FINANCIAL_YEAR_START_MONTH = 4;
+
+// ==================== Statutory ====================
+
+export const taxRegimeLabels: Record<TaxRegime, string> = {
+  OLD: 'Old regime',
+  NEW: 'New regime',
+};
+
+/**
+ * Income tax slabs per regime: income above `from` is taxed at `rate`%
+ */
+export const INCOME_TAX_SLABS: Record<TaxRegime, { from: number; rate: number }[]> = {
+  NEW: [
+    { from: 0, rate: 0 },
+    { from: 400000, rate: 5 },
+    { from: 800000, rate: 10 },
+    { from: 1200000, rate: 15 },
+    { from: 1600000, rate: 20 },
+    { from: 2000000, rate: 25 },
+    { from: 2400000, rate: 30 },
+  ],
+  OLD: [
+    { from: 0, rate: 0 },
+    { from: 250000, rate: 5 },
+    { from: 500000, rate: 20 },
+    { from: 1000000, rate: 30 },
+  ],
+};
+
+/**
+ * Regime-specific standard deduction and section 87A rebate
+ * Marginal relief caps the tax just above the rebate limit at the income above it
+ */
+export const TAX_REGIME_RULES: Record<
+  TaxRegime,
+  { standardDeduction: number; rebateLimit: number; maxRebate: number; marginalRelief: boolean }
+> = {
+  NEW: { standardDeduction: STANDARD_DEDUCTION, rebateLimit: 1200000, maxRebate: 60000, marginalRelief: true },
+  OLD: { standardDeduction: 50000, rebateLimit: 500000, maxRebate: 12500, marginalRelief: false },
+};
+
+export const SECTION_80C_LIMIT = 150000;
+
+export const HOME_LOAN_INTEREST_LIMIT = 200000;
+
+// Health and education cess, % of tax
+export const HEALTH_EDUCATION_CESS_RATE = 4;
+
+// Section 206AA: TDS without a valid PAN is at least 20% of income
+export const NO_PAN_TDS_RATE = 20;
+
+// Surcharge is not computed; projections above this income are flagged on the entry
+export const SURCHARGE_THRESHOLD = 5000000;
+
+/**
+ * Statutory settings of a tenant that has not saved its own yet
+ * Professional tax slabs are the monthly rates of the states listed
+ */
+export const DEFAULT_STATUTORY_SETTINGS: StatutorySettings = {
+  pf: {
+    enabled: true,
+    wageComponents: ['BASIC', 'DA'],
+    wageCeiling: 15000,
+    restrictToWageCeiling: true,
+    employeeRate: 12,
+    employerRate: 12,
+    pensionRate: 8.33,
+    pensionWageCeiling: 15000,
+  },
+  esi: {
+    enabled: true,
+    wageCeiling: 21000,
+    employeeRate: 0.75,
+    employerRate: 3.25,
+  },
+  professionalTax: {
+    enabled: true,
+    states: [
+      {
+        stateCode: 'MH',
+        stateName: 'Maharashtra',
+        slabs: [
+          { minWage: 0, maxWage: 7500, monthlyTax: 0 },
+          { minWage: 7501, maxWage: 10000, monthlyTax: 175 },
+          { minWage: 10001, monthlyTax: 200, februaryTax: 300 },
+        ],
+      },
+      {
+        stateCode: 'KA',
+        stateName: 'Karnataka',
+        slabs: [
+          { minWage: 0, maxWage: 24999, monthlyTax: 0 },
+          { minWage: 25000, monthlyTax: 200 },
+        ],
+      },
+      {
+        stateCode: 'WB',
+        stateName: 'West Bengal',
+        slabs: [
+          { minWage: 0, maxWage: 10000, monthlyTax: 0 },
+          { minWage: 10001, maxWage: 15000, monthlyTax: 110 },
+          { minWage: 15001, maxWage: 25000, monthlyTax: 130 },
+          { minWage: 25001, maxWage: 40000, monthlyTax: 150 },
+          { minWage: 40001, monthlyTax: 200 },
+        ],
+      },
+      {
+        stateCode: 'TS',
+        stateName: 'Telangana',
+        slabs: [
+          { minWage: 0, maxWage: 15000, monthlyTax: 0 },
+          { minWage: 15001, maxWage: 20000, monthlyTax: 150 },
+          { minWage: 20001, monthlyTax: 200 },
+        ],
+      },
+      {
+        stateCode: 'GJ',
+        stateName: 'Gujarat',
+        slabs: [
+          { minWage: 0, maxWage: 11999, monthlyTax: 0 },
+          { minWage: 12000, monthlyTax: 200 },
+        ],
+      },
+    ],
+    workLocationStates: {},
+  },
+  tds: {
+    enabled: true,
+    defaultRegime: 'NEW',
+  },
+};
+
+export const statutoryFlagLabels: Record<StatutoryFlagCode, string> = {
+  PAN_MISSING: 'PAN missing',
+  PAN_INVALID: 'Invalid PAN',
+  PAN_NAME_MISMATCH: 'PAN / name mismatch',
+  AADHAR_INVALID: 'Invalid Aadhaar',
+  UAN_MISSING: 'UAN missing',
+  UAN_INVALID: 'Invalid UAN',
+  ESI_IP_MISSING: 'ESI IP number missing',
+  IFSC_INVALID: 'Invalid IFSC',
+  BANK_NAME_MISMATCH: 'Bank account name mismatch',
+  PT_STATE_UNMAPPED: 'No PT state for work location',
+};
@@ -0,0 +1,175 @@
+/**
+ * usePayrollRunBuilder Hook
+ * Gathers the inputs of a payroll run (salary and LOP days, approved
+ * reimbursements, bank accounts, statutory settings, details and declarations,
+ * earlier runs of the financial year) and computes the gross-to-net entries
+ */
+
+import { useState } from "react";
+import { usePayroll } from "@/contexts/PayrollContext";
+import { useExpenseManagement } from "@/contexts/ExpenseManagementContext";
+import { useUserManagement } from "@/contexts/UserManagementContext";
+import { ExpenseSnapshot } from "@/modules/expenses-assets/types/expense.types";
+import { BankingDetails } from "@/modules/user-management/types/onboarding.types";
+import {
+  PayrollBankAccount,
+  PayrollReimbursement,
+  PayrollRunCarrier,
+  PayrollRunEntry,
+} from "../types/payroll.types";
+import { DEFAULT_STATUTORY_SETTINGS } from "../constants";
+import {
+  computePayrollEntry,
+  getPayrollPeriod,
+  summarizePayrollRun,
+} from "../utils/payrollEngine";
+import { getFinancialYear } from "../utils/payslipSummary";
+import {
+  applyStatutoryDeductions,
+  sumStatutoryYearToDate,
+} from "../utils/statutoryEngine";
+
+// Upper bound of approved claims / bank accounts / declarations / earlier runs fetched for one run
+const MAX_RECORDS = 1000;
+
+/**
+ * @example
+ * const { buildRun, isBuilding } = usePayrollRunBuilder();
+ * const carrier = await buildRun("CMP-001", "2026-03");
+ * if (carrier) await createPayrollRun(carrier);
+ */
+export function usePayrollRunBuilder() {
+  const {
+    getPayrollInputs,
+    searchPayrollRuns,
+    getStatutorySettings,
+    getStatutoryEmployeeDetails,
+    searchTaxDeclarations,
+  } = usePayroll();
+  const { searchExpenseSnapshotsMain } = useExpenseManagement();
+  const { refreshBankingDetails } = useUserManagement();
+  const [isBuilding, setIsBuilding] = useState(false);
+
+  /**
+   * Compute the entries of a run; null when the payroll inputs could not be loaded
+   */
+  const buildRun = async (
+    companyId: string,
+    period: string
+  ): Promise<PayrollRunCarrier | null> => {
+    setIsBuilding(true);
+    try {
+      const inputs = await getPayrollInputs(companyId, period);
+      if (!inputs) return null;
+
+      const employeeIds = inputs.map((input) => input.employeeId);
+      const financialYear = getFinancialYear(period);
+      const [expenses, banking, settings, statutoryDetails, declarations, submittedRuns] = await Promise.all([
+        searchExpenseSnapshotsMain(
+          { filters: { and: { companyId, status: "approved", type: "expense" } } },
+          0,
+          MAX_RECORDS
+        ),
+        employeeIds.length > 0
+          ? refreshBankingDetails({ idsList: employeeIds }, 0, MAX_RECORDS)
+          : Promise.resolve(null),
+        getStatutorySettings(),
+        getStatutoryEmployeeDetails(companyId),
+        searchTaxDeclarations(
+          { filters: { and: { financialYear: financialYear.startYear } } },
+          0,
+          MAX_RECORDS
+        ),
+        searchPayrollRuns(
+          { filters: { and: { companyId, status: ["REVIEW", "LOCKED", "PAID"] } }, sort: { period: -1 } },
+          0,
+          MAX_RECORDS
+        ),
+      ]);
+      const runs = submittedRuns?.content || [];
+
+      // Claims already taken into a run under review, locked or paid are left out
+      // so they are not reimbursed twice
+      const claimedExpenseIds = new Set(
+        runs.flatMap((run) =>
+          run.entries.flatMap((entry) =>
+            entry.lines.filter((line) => line.type === "REIMBURSEMENT").map((line) => line.code)
+          )
+        )
+      );
+
+      const reimbursementsByEmployee = new Map<string, PayrollReimbursement[]>();
+      ((expenses?.content || []) as ExpenseSnapshot[]).forEach((expense) => {
+        if (!expense.totalRequestedAmount || claimedExpenseIds.has(expense.id)) return;
+        const list = reimbursementsByEmployee.get(expense.employeeId) || [];
+        list.push({
+          expenseId: expense.id,
+          description: expense.description,
+          amount: expense.totalRequestedAmount,
+        });
+        reimbursementsByEmployee.set(expense.employeeId, list);
+      });
+
+      const accountsByEmployee = new Map<string, PayrollBankAccount>();
+      (banking?.content || []).forEach((details: BankingDetails) => {
+        if (!details.accountNumber || !details.ifscCode) return;
+        accountsByEmployee.set(details.employeeId, {
+          accountHolderName: `${details.firstName || ""} ${details.lastName || ""}`.trim(),
+          accountNumber: details.accountNumber,
+          ifscCode: details.ifscCode,
+          bankName: details.bankName,
+        });
+      });
+
+      // Entries of the employee in locked / paid runs earlier in the financial year
+      const earlierEntries = new Map<string, PayrollRunEntry[]>();
+      runs
+        .filter(
+          (run) =>
+            (run.status === "LOCKED" || run.status === "PAID") &&
+            run.period >= financialYear.firstPeriod &&
+            run.period < period
+        )
+        .forEach((run) =>
+          run.entries.forEach((entry) => {
+            earlierEntries.set(entry.employeeId, [...(earlierEntries.get(entry.employeeId) || []), entry]);
+          })
+        );
+
+      const detailsByEmployee = new Map((statutoryDetails || []).map((details) => [details.employeeId, details]));
+      const declarationsByEmployee = new Map(
+        (declarations?.content || []).map((declaration) => [declaration.employeeId, declaration])
+      );
+
+      const payrollPeriod = getPayrollPeriod(period);
+      const entries = inputs.map((input) =>
+        applyStatutoryDeductions(
+          computePayrollEntry(
+            input,
+            payrollPeriod,
+            reimbursementsByEmployee.get(input.employeeId),
+            accountsByEmployee.get(input.employeeId)
+          ),
+          {
+            settings: settings || DEFAULT_STATUTORY_SETTINGS,
+            period,
+            details: detailsByEmployee.get(input.employeeId),
+            declaration: declarationsByEmployee.get(input.employeeId),
+            yearToDate: sumStatutoryYearToDate(earlierEntries.get(input.employeeId) || []),
+          }
+        )
+      );
+
+      return {
+        companyId,
+        period,
+        entries,
+        totals: summarizePayrollRun(entries),
+      };
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return { buildRun, isBuilding };
+}
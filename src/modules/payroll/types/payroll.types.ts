@@ -0,0 +1,192 @@
+/**
+ * Payroll Types
+ * Type definitions for payroll runs and their per-employee gross-to-net entries
+ */
+
+import { StatutoryContributions } from "./statutory.types";
+
+// ==================== Enums ====================
+
+// DRAFT -> REVIEW -> LOCKED -> PAID; REVIEW can be sent back to DRAFT
+export type PayrollRunStatus = "DRAFT" | "REVIEW" | "LOCKED" | "PAID";
+
+export type PayrollRunAction = "review" | "draft" | "lock" | "paid";
+
+export type SalaryComponentType = "EARNING" | "DEDUCTION";
+
+export type PayslipLineType = "EARNING" | "DEDUCTION" | "REIMBURSEMENT";
+
+// ==================== Salary ====================
+
+/**
+ * Monthly amount of one salary component, resolved from the employee's salary structure
+ */
+export interface SalaryComponentLine {
+  code: string; // e.g. "BASIC", "HRA", "PF"
+  name: string;
+  type: SalaryComponentType;
+  monthlyAmount: number;
+  lopApplicable?: boolean; // Reduced for LOP days unless false or a statutory deduction
+}
+
+/**
+ * Salary in force for an employee on a given date
+ */
+export interface EmployeeSalary {
+  employeeId: string;
+  structureId?: string;
+  annualCtc: number;
+  effectiveFrom: string; // yyyy-MM-dd
+  components: SalaryComponentLine[];
+}
+
+// ==================== Run Inputs ====================
+
+/**
+ * Per-employee inputs the server assembles for a company and period
+ */
+export interface PayrollEmployeeInput {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  email?: string;
+  designation?: string;
+  salary: EmployeeSalary | null; // null when no structure is assigned
+  lopDays: number; // LOP days of approved absences falling in the period
+  lopApplicationIds?: string[];
+}
+
+export interface PayrollReimbursement {
+  expenseId: string;
+  description: string;
+  amount: number;
+}
+
+export interface PayrollBankAccount {
+  accountHolderName: string;
+  accountNumber: string;
+  ifscCode: string;
+  bankName: string;
+}
+
+// ==================== Run ====================
+
+export interface PayslipLine {
+  code: string; // Component code, or the expense ID for reimbursements
+  name: string;
+  type: PayslipLineType;
+  amount: number; // Positive; the type gives the direction
+}
+
+export interface PayrollRunEntry {
+  employeeId: string;
+  employeeName: string;
+  designation?: string;
+  periodDays: number;
+  lopDays: number;
+  paidDays: number;
+  lines: PayslipLine[];
+  grossEarnings: number; // After LOP
+  lopDeduction: number; // Earnings lost to LOP
+  totalDeductions: number;
+  totalReimbursements: number;
+  netPay: number;
+  bankAccount?: PayrollBankAccount;
+  statutory?: StatutoryContributions; // Present when statutory deductions were applied
+  warnings: string[];
+}
+
+export interface PayrollRunTotals {
+  employees: number;
+  grossEarnings: number;
+  totalDeductions: number;
+  totalReimbursements: number;
+  netPay: number;
+}
+
+export interface PayrollRun {
+  id: string;
+  companyId: string;
+  companyName?: string;
+  period: string; // yyyy-MM
+  periodStart: string; // yyyy-MM-dd
+  periodEnd: string; // yyyy-MM-dd
+  status: PayrollRunStatus;
+  entries: PayrollRunEntry[];
+  totals: PayrollRunTotals;
+  createdBy: string;
+  createdAt: string;
+  updatedAt?: string;
+  reviewedBy?: string;
+  lockedBy?: string;
+  lockedAt?: string;
+  paidAt?: string;
+  paymentReference?: string;
+}
+
+// ==================== Payslips ====================
+
+/**
+ * An employee's entry in a locked or paid payroll run
+ */
+export interface Payslip extends PayrollRunEntry {
+  id: string;
+  runId: string;
+  companyId: string;
+  period: string; // yyyy-MM
+  periodStart: string; // yyyy-MM-dd
+  periodEnd: string; // yyyy-MM-dd
+  runStatus: Extract<PayrollRunStatus, "LOCKED" | "PAID">;
+  employeeEmail?: string;
+  panNumber?: string;
+  paidAt?: string;
+}
+
+/**
+ * Totals of the payslips of a financial year up to and including a month
+ */
+export interface PayslipYearToDate {
+  financialYear: string; // e.g. "2026-27"
+  months: number;
+  grossEarnings: number;
+  totalDeductions: number;
+  totalReimbursements: number;
+  netPay: number;
+  lopDays: number;
+  components: PayslipLine[]; // Earnings and deductions summed per code
+}
+
+/**
+ * Form-16 style salary summary of a financial year, aggregated from payslips
+ */
+export interface AnnualTaxSummary {
+  financialYear: string;
+  assessmentYear: string;
+  employeeId: string;
+  employeeName: string;
+  panNumber?: string;
+  months: { period: string; grossEarnings: number; taxDeducted: number }[];
+  salaryComponents: PayslipLine[]; // Earnings per code
+  grossSalary: number;
+  professionalTax: number; // Reported only; not deductible under the new regime
+  standardDeduction: number;
+  incomeChargeable: number; // Income chargeable under the head "Salaries"
+  providentFund: number; // Employee PF, eligible under section 80C
+  taxDeducted: number;
+  reimbursements: number; // Paid through payroll, not part of salary income
+}
+
+// ==================== Carrier Types for API ====================
+
+export interface PayrollRunCarrier {
+  companyId: string;
+  period: string; // yyyy-MM
+  entries: PayrollRunEntry[];
+  totals: PayrollRunTotals;
+}
+
+export interface PayrollRunStatusCarrier {
+  action: PayrollRunAction;
+  paymentReference?: string; // Required for "paid"
+  remarks?: string;
+}
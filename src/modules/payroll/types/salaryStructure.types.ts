@@ -0,0 +1,105 @@
+/**
+ * Salary Structure Types
+ * Type definitions for salary structure templates and employee salary revisions
+ */
+
+import { EmployeeSalary, SalaryComponentType } from "./payroll.types";
+
+// ==================== Enums ====================
+
+// FIXED: monthly amount
+// PERCENTAGE: percent of the monthly CTC or of another component
+// FORMULA: expression over CTC and other component codes, e.g. "min(BASIC, 15000) * 0.12"
+export type SalaryComponentCalculation = "FIXED" | "PERCENTAGE" | "FORMULA";
+
+// ==================== Structure ====================
+
+/**
+ * One component of a salary structure template
+ * Amounts resolve to monthly values; `CTC` in percentages and formulas is the monthly CTC
+ */
+export interface SalaryComponentDefinition {
+  code: string; // Upper case, referenced by formulas, e.g. "BASIC"
+  name: string;
+  type: SalaryComponentType;
+  calculation: SalaryComponentCalculation;
+  amount?: number; // FIXED
+  percentage?: number; // PERCENTAGE, 0-100
+  percentageOf?: string; // PERCENTAGE base: "CTC" or a component code
+  formula?: string; // FORMULA
+  lopApplicable?: boolean; // Defaults to true; ignored for statutory codes (PF / ESI / PT / TDS)
+}
+
+/**
+ * Salary structure template, applied to the designations and employee types it lists
+ * An empty list matches every designation / employee type
+ */
+export interface SalaryStructure {
+  id: string;
+  name: string;
+  description?: string;
+  designationIds: string[];
+  employeeTypeIds: string[];
+  components: SalaryComponentDefinition[];
+  active: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// ==================== Employee Salary ====================
+
+/**
+ * One revision of an employee's salary; the latest revision effective on a date is in force
+ * Components are the monthly amounts resolved from the structure when the revision was made
+ */
+export interface EmployeeSalaryRevision extends EmployeeSalary {
+  id: string;
+  structureName?: string;
+  revision: number; // 1-based, per employee
+  remarks?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * CTC-to-monthly breakup of a structure
+ */
+export interface SalaryBreakupLine {
+  code: string;
+  name: string;
+  type: SalaryComponentType;
+  monthlyAmount: number;
+  annualAmount: number;
+  lopApplicable?: boolean;
+}
+
+export interface SalaryBreakup {
+  annualCtc: number;
+  monthlyCtc: number;
+  lines: SalaryBreakupLine[];
+  monthlyEarnings: number; // Sums to the monthly CTC when the structure is balanced
+  monthlyDeductions: number;
+  monthlyNet: number;
+  difference: number; // Monthly CTC - earnings; 0 when balanced
+  errors: string[]; // Formula / reference errors; amounts of failing components are 0
+}
+
+// ==================== Carrier Types for API ====================
+
+export interface SalaryStructureCarrier {
+  name: string;
+  description?: string;
+  designationIds: string[];
+  employeeTypeIds: string[];
+  components: SalaryComponentDefinition[];
+  active: boolean;
+}
+
+export interface EmployeeSalaryRevisionCarrier {
+  employeeId: string;
+  structureId: string;
+  annualCtc: number;
+  effectiveFrom: string; // yyyy-MM-dd
+  components: EmployeeSalary["components"];
+  remarks?: string;
+}
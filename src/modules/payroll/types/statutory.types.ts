@@ -0,0 +1,180 @@
+/**
+ * Statutory Types
+ * Type definitions for PF, ESI, professional tax and TDS: settings, employee
+ * declarations, the contributions computed per payroll entry and data flags
+ */
+
+import { PayrollBankAccount } from "./payroll.types";
+
+// ==================== Enums ====================
+
+export type TaxRegime = "OLD" | "NEW";
+
+export type StatutoryFlagSeverity = "error" | "warning";
+
+export type StatutoryFlagCode =
+  | "PAN_MISSING"
+  | "PAN_INVALID"
+  | "PAN_NAME_MISMATCH"
+  | "AADHAR_INVALID"
+  | "UAN_MISSING"
+  | "UAN_INVALID"
+  | "ESI_IP_MISSING"
+  | "IFSC_INVALID"
+  | "BANK_NAME_MISMATCH"
+  | "PT_STATE_UNMAPPED";
+
+// ==================== Settings ====================
+
+export interface PfSettings {
+  enabled: boolean;
+  wageComponents: string[]; // Earning codes making up PF wages, e.g. ["BASIC", "DA"]
+  wageCeiling: number; // Monthly, ₹15,000
+  restrictToWageCeiling: boolean; // Contribute on the ceiling rather than full PF wages
+  employeeRate: number; // %, 12
+  employerRate: number; // %, 12 (EPF + EPS)
+  pensionRate: number; // %, 8.33 of EPS wages, part of the employer share
+  pensionWageCeiling: number; // EPS wages are always capped, ₹15,000
+}
+
+export interface EsiSettings {
+  enabled: boolean;
+  wageCeiling: number; // Monthly gross up to which ESI applies, ₹21,000
+  employeeRate: number; // %, 0.75
+  employerRate: number; // %, 3.25
+}
+
+/**
+ * One professional tax slab; monthly gross from minWage up to maxWage (inclusive)
+ */
+export interface ProfessionalTaxSlab {
+  minWage: number;
+  maxWage?: number; // Open-ended when absent
+  monthlyTax: number;
+  februaryTax?: number; // States that collect the balance of the year in February
+}
+
+export interface ProfessionalTaxStateRule {
+  stateCode: string; // e.g. "MH"
+  stateName: string;
+  slabs: ProfessionalTaxSlab[];
+}
+
+export interface ProfessionalTaxSettings {
+  enabled: boolean;
+  states: ProfessionalTaxStateRule[];
+  workLocationStates: Record<string, string>; // workLocationId -> stateCode
+}
+
+export interface TdsSettings {
+  enabled: boolean;
+  defaultRegime: TaxRegime; // For employees without a declaration
+}
+
+export interface StatutorySettings {
+  pf: PfSettings;
+  esi: EsiSettings;
+  professionalTax: ProfessionalTaxSettings;
+  tds: TdsSettings;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+// ==================== Employees ====================
+
+/**
+ * Statutory identifiers and the data they are checked against, per employee
+ */
+export interface StatutoryEmployeeDetails {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  workLocationId?: string;
+  panNumber?: string;
+  aadharNumber?: string;
+  uan?: string; // EPFO Universal Account Number
+  esiIpNumber?: string; // ESIC insurance number
+  bankAccount?: PayrollBankAccount;
+}
+
+/**
+ * Investment declaration of an employee for a financial year; annual amounts
+ */
+export interface TaxDeclaration {
+  id?: string;
+  employeeId: string;
+  financialYear: number; // Start year, e.g. 2026 for 2026-27
+  regime: TaxRegime;
+  section80C: number; // Excluding employee PF, which payroll adds
+  section80D: number;
+  hraExemption: number;
+  homeLoanInterest: number; // Section 24(b)
+  otherDeductions: number;
+  updatedAt?: string;
+}
+
+export interface StatutoryFlag {
+  employeeId: string;
+  employeeName: string;
+  code: StatutoryFlagCode;
+  severity: StatutoryFlagSeverity;
+  message: string;
+}
+
+// ==================== Contributions ====================
+
+export interface PfContribution {
+  pfWages: number; // Full PF wages of the month
+  epfWages: number; // Wages contributed on
+  epsWages: number;
+  edliWages: number;
+  employeeShare: number;
+  employerEps: number;
+  employerEpf: number; // Employer share less EPS
+}
+
+export interface EsiContribution {
+  esiWages: number;
+  employeeShare: number;
+  employerShare: number;
+}
+
+export interface ProfessionalTaxDeduction {
+  stateCode: string;
+  amount: number;
+}
+
+/**
+ * Income tax projection for the financial year behind a month's TDS
+ */
+export interface TdsProjection {
+  regime: TaxRegime;
+  projectedGross: number; // Earlier months of the year + this month x remaining months
+  projectedProfessionalTax: number;
+  projectedEmployeePf: number;
+  taxableIncome: number;
+  annualTax: number; // Including cess
+  deductedBefore: number; // TDS of earlier months of the year
+  remainingMonths: number; // Including this month
+  amount: number; // TDS of this month
+  panMissing: boolean; // Taxed at 20% under section 206AA
+}
+
+/**
+ * Statutory deductions and employer contributions of one payroll entry
+ */
+export interface StatutoryContributions {
+  pf: PfContribution | null;
+  esi: EsiContribution | null;
+  professionalTax: ProfessionalTaxDeduction | null;
+  tds: TdsProjection | null;
+}
+
+// ==================== Carrier Types for API ====================
+
+export interface StatutoryIdentifiersCarrier {
+  uan?: string;
+  esiIpNumber?: string;
+}
+
+export type TaxDeclarationCarrier = Omit<TaxDeclaration, "id" | "updatedAt">;
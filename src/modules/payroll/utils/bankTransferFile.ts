@@ -0,0 +1,67 @@
+/**
+ * Bank Transfer File
+ * NEFT bulk upload CSV for the net pay of a payroll run
+ */
+
+import { format, parse } from 'date-fns';
+import { toCsv } from '@/lib/csv';
+import { PayrollRun, PayrollRunEntry } from '../types/payroll.types';
+
+export interface BankTransferOptions {
+  debitAccount: string; // Company account the salaries are paid from
+  paymentDate: string; // yyyy-MM-dd
+}
+
+export interface BankTransferFile {
+  csv: string;
+  filename: string;
+  included: PayrollRunEntry[];
+  skipped: PayrollRunEntry[]; // No bank account or nothing to pay
+}
+
+const BANK_TRANSFER_HEADER = [
+  'Transaction Type',
+  'Beneficiary Account Number',
+  'IFSC Code',
+  'Beneficiary Name',
+  'Amount',
+  'Payment Date',
+  'Debit Account Number',
+  'Narration',
+  'Reference',
+];
+
+/**
+ * Build the bank transfer CSV of a run; one NEFT row per employee with a positive net pay
+ *
+ * @example
+ * const { csv, filename, skipped } = buildBankTransferFile(run, { debitAccount: '50200012345678', paymentDate: '2026-03-31' });
+ * downloadTextFile(csv, filename, 'text/csv');
+ */
+export function buildBankTransferFile(run: PayrollRun, options: BankTransferOptions): BankTransferFile {
+  const month = parse(run.period, 'yyyy-MM', new Date());
+  const narration = `SALARY ${format(month, 'MMM yyyy').toUpperCase()}`;
+  const paymentDate = format(parse(options.paymentDate, 'yyyy-MM-dd', new Date()), 'dd/MM/yyyy');
+
+  const included = run.entries.filter((entry) => entry.bankAccount && entry.netPay > 0);
+  const skipped = run.entries.filter((entry) => !included.includes(entry));
+
+  const rows = included.map((entry) => [
+    'NEFT',
+    entry.bankAccount!.accountNumber,
+    entry.bankAccount!.ifscCode.toUpperCase(),
+    entry.bankAccount!.accountHolderName || entry.employeeName,
+    entry.netPay.toFixed(2),
+    paymentDate,
+    options.debitAccount,
+    narration,
+    entry.employeeId,
+  ]);
+
+  return {
+    csv: toCsv([BANK_TRANSFER_HEADER, ...rows]),
+    filename: `salary-transfer-${run.period}.csv`,
+    included,
+    skipped,
+  };
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { PayrollBankAccount, PayrollEmployeeInput, SalaryComponentLine } from '../types/payroll.types';
+import { computePayrollEntry, getPayrollPeriod } from './payrollEngine';
+
+// April 2026: 30 days
+const APRIL = getPayrollPeriod('2026-04');
+
+const bankAccount: PayrollBankAccount = {
+  accountHolderName: 'Asha Kumar',
+  accountNumber: '001234567890',
+  ifscCode: 'HDFC0001234',
+  bankName: 'HDFC Bank',
+};
+
+const input = (components: SalaryComponentLine[], lopDays = 0): PayrollEmployeeInput => ({
+  employeeId: 'EMP-1',
+  firstName: 'Asha',
+  lastName: 'Kumar',
+  salary: { employeeId: 'EMP-1', annualCtc: 600000, effectiveFrom: '2026-04-01', components },
+  lopDays,
+});
+
+const COMPONENTS: SalaryComponentLine[] = [
+  { code: 'BASIC', name: 'Basic', type: 'EARNING', monthlyAmount: 30000 },
+  { code: 'HRA', name: 'House Rent Allowance', type: 'EARNING', monthlyAmount: 15000 },
+  { code: 'MEAL', name: 'Meal Allowance', type: 'EARNING', monthlyAmount: 3000, lopApplicable: false },
+  { code: 'PF', name: 'Provident Fund', type: 'DEDUCTION', monthlyAmount: 1800 },
+  { code: 'LOAN', name: 'Loan Recovery', type: 'DEDUCTION', monthlyAmount: 2000, lopApplicable: false },
+  { code: 'CANTEEN', name: 'Canteen', type: 'DEDUCTION', monthlyAmount: 600 },
+];
+
+const amountOf = (lines: { code: string; amount: number }[], code: string) =>
+  lines.find((line) => line.code === code)?.amount;
+
+describe('getPayrollPeriod', () => {
+  it('gives the calendar boundaries of the month', () => {
+    expect(getPayrollPeriod('2026-02')).toEqual({
+      period: '2026-02',
+      start: '2026-02-01',
+      end: '2026-02-28',
+      days: 28,
+      label: 'February 2026',
+    });
+  });
+});
+
+describe('computePayrollEntry', () => {
+  it('pays the full structure without LOP', () => {
+    const entry = computePayrollEntry(input(COMPONENTS), APRIL, [], bankAccount);
+
+    expect(entry.paidDays).toBe(30);
+    expect(entry.grossEarnings).toBe(48000);
+    expect(entry.lopDeduction).toBe(0);
+    expect(entry.totalDeductions).toBe(4400);
+    expect(entry.netPay).toBe(43600);
+    expect(entry.warnings).toEqual([]);
+  });
+
+  it('prorates LOP on calendar days', () => {
+    const entry = computePayrollEntry(input(COMPONENTS, 3), APRIL, [], bankAccount);
+
+    expect(entry.lopDays).toBe(3);
+    expect(entry.paidDays).toBe(27);
+    expect(amountOf(entry.lines, 'BASIC')).toBe(27000);
+    expect(amountOf(entry.lines, 'HRA')).toBe(13500);
+    expect(entry.grossEarnings).toBe(43500);
+    expect(entry.lopDeduction).toBe(4500);
+  });
+
+  it('leaves components with lopApplicable false and statutory deductions unprorated', () => {
+    const entry = computePayrollEntry(input(COMPONENTS, 3), APRIL, [], bankAccount);
+
+    expect(amountOf(entry.lines, 'MEAL')).toBe(3000);
+    expect(amountOf(entry.lines, 'LOAN')).toBe(2000);
+    expect(amountOf(entry.lines, 'PF')).toBe(1800);
+    expect(amountOf(entry.lines, 'CANTEEN')).toBe(540);
+    expect(entry.totalDeductions).toBe(4340);
+  });
+
+  it('pays reimbursements on top of net pay without prorating them', () => {
+    const entry = computePayrollEntry(
+      input(COMPONENTS, 3),
+      APRIL,
+      [{ expenseId: 'EXP-1', description: 'Client travel', amount: 1200 }],
+      bankAccount
+    );
+
+    expect(entry.totalReimbursements).toBe(1200);
+    expect(entry.netPay).toBe(43500 - 4340 + 1200);
+  });
+
+  it('caps LOP at the days of the period and flags it', () => {
+    const entry = computePayrollEntry(input(COMPONENTS, 35), APRIL, [], bankAccount);
+
+    expect(entry.lopDays).toBe(30);
+    expect(entry.paidDays).toBe(0);
+    expect(entry.grossEarnings).toBe(3000);
+    expect(entry.warnings).toContain('LOP days (35) exceed the 30 days of the period');
+    expect(entry.warnings).toContain('Deductions exceed earnings');
+  });
+
+  it('flags a missing salary structure and bank account', () => {
+    const entry = computePayrollEntry({ ...input([]), salary: null }, APRIL);
+
+    expect(entry.lines).toEqual([]);
+    expect(entry.netPay).toBe(0);
+    expect(entry.warnings).toEqual(['No salary structure assigned', 'No bank account on file']);
+  });
+});
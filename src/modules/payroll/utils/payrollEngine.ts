@@ -0,0 +1,186 @@
+/**
+ * Payroll Engine
+ * Pure gross-to-net computation of payroll run entries
+ *
+ * - Pay is prorated on calendar days: paid days = days in period - LOP days
+ * - Earnings are reduced for LOP unless the component opts out (lopApplicable: false)
+ * - Deductions are reduced for LOP the same way, except statutory ones
+ *   (PF / ESI / PT / TDS), which the statutory engine computes on the prorated
+ *   earnings or takes at their fixed monthly amount
+ * - Approved reimbursements are paid on top of net salary and never prorated
+ * - Amounts are rounded to 2 decimals per line; totals are sums of rounded lines
+ */
+
+import { endOfMonth, format, getDaysInMonth, parse, startOfMonth } from 'date-fns';
+import {
+  PayrollBankAccount,
+  PayrollEmployeeInput,
+  PayrollReimbursement,
+  PayrollRunAction,
+  PayrollRunEntry,
+  PayrollRunStatus,
+  PayrollRunTotals,
+  PayslipLine,
+} from '../types/payroll.types';
+import { PAYROLL_RUN_TRANSITIONS, STATUTORY_COMPONENT_CODES } from '../constants';
+
+export interface PayrollPeriod {
+  period: string; // yyyy-MM
+  start: string; // yyyy-MM-dd
+  end: string; // yyyy-MM-dd
+  days: number;
+  label: string; // e.g. "March 2026"
+}
+
+const NEGATIVE_NET_PAY_WARNING = 'Deductions exceed earnings';
+
+const STATUTORY_CODES: string[] = Object.values(STATUTORY_COMPONENT_CODES);
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const sumLines = (lines: PayslipLine[], type: PayslipLine['type']) =>
+  roundAmount(lines.filter((line) => line.type === type).reduce((sum, line) => sum + line.amount, 0));
+
+/**
+ * Calendar boundaries of a payroll period
+ *
+ * @example
+ * getPayrollPeriod('2026-02'); // { start: '2026-02-01', end: '2026-02-28', days: 28, ... }
+ */
+export function getPayrollPeriod(period: string): PayrollPeriod {
+  const month = parse(period, 'yyyy-MM', new Date());
+  return {
+    period,
+    start: format(startOfMonth(month), 'yyyy-MM-dd'),
+    end: format(endOfMonth(month), 'yyyy-MM-dd'),
+    days: getDaysInMonth(month),
+    label: format(month, 'MMMM yyyy'),
+  };
+}
+
+/**
+ * Compute one employee's entry for the period
+ *
+ * @param input - Salary and LOP days of the employee
+ * @param period - Period from getPayrollPeriod
+ * @param reimbursements - Approved, unpaid expense claims of the employee
+ * @param bankAccount - Salary account; entries without one are flagged
+ */
+export function computePayrollEntry(
+  input: PayrollEmployeeInput,
+  period: PayrollPeriod,
+  reimbursements: PayrollReimbursement[] = [],
+  bankAccount?: PayrollBankAccount
+): PayrollRunEntry {
+  const warnings: string[] = [];
+  const lopDays = Math.min(Math.max(input.lopDays || 0, 0), period.days);
+  if ((input.lopDays || 0) > period.days) {
+    warnings.push(`LOP days (${input.lopDays}) exceed the ${period.days} days of the period`);
+  }
+  const paidDays = period.days - lopDays;
+
+  const lines: PayslipLine[] = [];
+  let fullEarnings = 0;
+
+  if (!input.salary) {
+    warnings.push('No salary structure assigned');
+  } else {
+    input.salary.components.forEach((component) => {
+      const isProrated = component.lopApplicable !== false && !STATUTORY_CODES.includes(component.code);
+      const amount = isProrated ? (component.monthlyAmount * paidDays) / period.days : component.monthlyAmount;
+      if (component.type === 'EARNING') {
+        fullEarnings += component.monthlyAmount;
+        lines.push({ code: component.code, name: component.name, type: 'EARNING', amount: roundAmount(amount) });
+      } else {
+        lines.push({ code: component.code, name: component.name, type: 'DEDUCTION', amount: roundAmount(amount) });
+      }
+    });
+  }
+
+  reimbursements.forEach((reimbursement) => {
+    lines.push({
+      code: reimbursement.expenseId,
+      name: reimbursement.description || 'Expense reimbursement',
+      type: 'REIMBURSEMENT',
+      amount: roundAmount(reimbursement.amount),
+    });
+  });
+
+  if (!bankAccount) warnings.push('No bank account on file');
+
+  const grossEarnings = sumLines(lines, 'EARNING');
+  return withEntryLines(
+    {
+      employeeId: input.employeeId,
+      employeeName: `${input.firstName || ''} ${input.lastName || ''}`.trim() || input.employeeId,
+      designation: input.designation,
+      periodDays: period.days,
+      lopDays,
+      paidDays,
+      lines,
+      grossEarnings,
+      lopDeduction: roundAmount(fullEarnings - grossEarnings),
+      totalDeductions: 0,
+      totalReimbursements: 0,
+      netPay: 0,
+      bankAccount,
+      warnings,
+    },
+    lines
+  );
+}
+
+/**
+ * Replace the lines of an entry and recompute its totals
+ * Earnings are expected to be unchanged, so the LOP deduction is kept
+ */
+export function withEntryLines(entry: PayrollRunEntry, lines: PayslipLine[]): PayrollRunEntry {
+  const grossEarnings = sumLines(lines, 'EARNING');
+  const totalDeductions = sumLines(lines, 'DEDUCTION');
+  const totalReimbursements = sumLines(lines, 'REIMBURSEMENT');
+  const netPay = roundAmount(grossEarnings - totalDeductions + totalReimbursements);
+
+  const warnings = entry.warnings.filter((warning) => warning !== NEGATIVE_NET_PAY_WARNING);
+  if (netPay < 0) warnings.push(NEGATIVE_NET_PAY_WARNING);
+
+  return {
+    ...entry,
+    lines,
+    grossEarnings,
+    totalDeductions,
+    totalReimbursements,
+    netPay,
+    warnings,
+  };
+}
+
+/**
+ * Totals across the entries of a run
+ */
+export function summarizePayrollRun(entries: PayrollRunEntry[]): PayrollRunTotals {
+  const total = (pick: (entry: PayrollRunEntry) => number) =>
+    roundAmount(entries.reduce((sum, entry) => sum + pick(entry), 0));
+
+  return {
+    employees: entries.length,
+    grossEarnings: total((entry) => entry.grossEarnings),
+    totalDeductions: total((entry) => entry.totalDeductions),
+    totalReimbursements: total((entry) => entry.totalReimbursements),
+    netPay: total((entry) => entry.netPay),
+  };
+}
+
+/**
+ * Actions available on a run in the given status
+ */
+export function getAvailableRunActions(status: PayrollRunStatus): PayrollRunAction[] {
+  return (Object.keys(PAYROLL_RUN_TRANSITIONS) as PayrollRunAction[])
+    .filter((action) => PAYROLL_RUN_TRANSITIONS[action][0] === status);
+}
+
+/**
+ * Format an amount in Indian Rupees, e.g. "₹1,25,000.00"
+ */
+export function formatPayrollAmount(amount: number): string {
+  return amount.toLocaleString('en-IN', { style: 'currency', currency: 'INR' });
+}
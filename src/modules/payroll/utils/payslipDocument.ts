@@ -0,0 +1,186 @@
+/**
+ * Payslip Documents
+ * Standalone printable HTML for a payslip and the annual tax summary,
+ * printed with printHtmlDocument (the print dialog saves them as PDF)
+ */
+
+import { format, parse } from 'date-fns';
+import { escapeHtml } from '@/lib/print';
+import { CompanyModel } from '@/types/company';
+import { AnnualTaxSummary, Payslip, PayslipLine, PayslipYearToDate } from '../types/payroll.types';
+import { formatPayrollAmount } from './payrollEngine';
+
+const DOCUMENT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 32px; font-size: 12px; }
+  header { display: flex; align-items: center; gap: 16px; border-bottom: 2px solid #111; padding-bottom: 12px; }
+  header img { max-height: 56px; max-width: 160px; object-fit: contain; }
+  header h1 { margin: 0; font-size: 18px; }
+  header p { margin: 2px 0 0; color: #555; }
+  h2 { font-size: 14px; text-align: center; margin: 16px 0; }
+  h3 { font-size: 12px; margin: 16px 0 6px; text-transform: uppercase; color: #555; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  td.amount, th.amount { text-align: right; white-space: nowrap; }
+  tr.total td { font-weight: bold; background: #f9fafb; }
+  .details td { border: none; padding: 2px 8px 2px 0; }
+  .details td:nth-child(odd) { color: #555; width: 18%; }
+  .net { margin-top: 16px; padding: 10px; border: 2px solid #111; font-size: 14px; font-weight: bold; display: flex; justify-content: space-between; }
+  footer { margin-top: 24px; color: #777; font-size: 10px; text-align: center; }
+  @page { margin: 12mm; }
+`;
+
+const periodLabel = (period: string) => format(parse(period, 'yyyy-MM', new Date()), 'MMMM yyyy');
+
+const amount = (value: number) => escapeHtml(formatPayrollAmount(value));
+
+const companyHeader = (company?: CompanyModel) => {
+  const address = [company?.address, company?.city, company?.state, company?.zipCode].filter(Boolean).join(', ');
+  return `
+    <header>
+      ${company?.logoUrl ? `<img src="${escapeHtml(company.logoUrl)}" alt="" />` : ''}
+      <div>
+        <h1>${escapeHtml(company?.name || '')}</h1>
+        ${address ? `<p>${escapeHtml(address)}</p>` : ''}
+      </div>
+    </header>`;
+};
+
+const wrapDocument = (title: string, body: string) => `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    <style>${DOCUMENT_STYLES}</style>
+  </head>
+  <body>${body}
+    <footer>This is a system-generated document and does not require a signature.</footer>
+  </body>
+</html>`;
+
+const lineRows = (lines: PayslipLine[], ytdLines: PayslipLine[] = []) =>
+  lines
+    .map((line) => {
+      const ytd = ytdLines.find((item) => item.type === line.type && item.code === line.code);
+      return `<tr><td>${escapeHtml(line.name)}</td><td class="amount">${amount(line.amount)}</td>${
+        ytdLines.length > 0 ? `<td class="amount">${ytd ? amount(ytd.amount) : '-'}</td>` : ''
+      }</tr>`;
+    })
+    .join('');
+
+/**
+ * Printable payslip with year-to-date columns
+ */
+export function buildPayslipHtml(payslip: Payslip, company: CompanyModel | undefined, ytd: PayslipYearToDate): string {
+  const earnings = payslip.lines.filter((line) => line.type === 'EARNING');
+  const deductions = payslip.lines.filter((line) => line.type === 'DEDUCTION');
+  const reimbursements = payslip.lines.filter((line) => line.type === 'REIMBURSEMENT');
+  const title = `Payslip ${periodLabel(payslip.period)}`;
+
+  const body = `
+    ${companyHeader(company)}
+    <h2>Payslip for ${escapeHtml(periodLabel(payslip.period))}</h2>
+    <table class="details">
+      <tr>
+        <td>Employee</td><td>${escapeHtml(payslip.employeeName)}</td>
+        <td>Employee ID</td><td>${escapeHtml(payslip.employeeId)}</td>
+      </tr>
+      <tr>
+        <td>Designation</td><td>${escapeHtml(payslip.designation || '-')}</td>
+        <td>PAN</td><td>${escapeHtml(payslip.panNumber || '-')}</td>
+      </tr>
+      <tr>
+        <td>Paid Days</td><td>${payslip.paidDays} of ${payslip.periodDays}</td>
+        <td>LOP Days</td><td>${payslip.lopDays}</td>
+      </tr>
+      <tr>
+        <td>Bank</td><td>${
+          payslip.bankAccount
+            ? `${escapeHtml(payslip.bankAccount.bankName)} A/c ending ${escapeHtml(payslip.bankAccount.accountNumber.slice(-4))}`
+            : '-'
+        }</td>
+        <td>Financial Year</td><td>${escapeHtml(ytd.financialYear)}</td>
+      </tr>
+    </table>
+
+    <h3>Earnings</h3>
+    <table>
+      <tr><th>Component</th><th class="amount">This Month</th><th class="amount">Year to Date</th></tr>
+      ${lineRows(earnings, ytd.components)}
+      <tr class="total"><td>Gross Earnings</td><td class="amount">${amount(payslip.grossEarnings)}</td><td class="amount">${amount(ytd.grossEarnings)}</td></tr>
+    </table>
+    ${
+      payslip.lopDeduction > 0
+        ? `<p>Earnings are after a loss-of-pay deduction of ${amount(payslip.lopDeduction)} for ${payslip.lopDays} day(s).</p>`
+        : ''
+    }
+
+    <h3>Deductions</h3>
+    <table>
+      <tr><th>Component</th><th class="amount">This Month</th><th class="amount">Year to Date</th></tr>
+      ${lineRows(deductions, ytd.components)}
+      <tr class="total"><td>Total Deductions</td><td class="amount">${amount(payslip.totalDeductions)}</td><td class="amount">${amount(ytd.totalDeductions)}</td></tr>
+    </table>
+
+    ${
+      reimbursements.length > 0
+        ? `<h3>Reimbursements</h3>
+    <table>
+      <tr><th>Claim</th><th class="amount">Amount</th></tr>
+      ${lineRows(reimbursements)}
+    </table>`
+        : ''
+    }
+
+    <div class="net"><span>Net Pay</span><span>${amount(payslip.netPay)}</span></div>`;
+
+  return wrapDocument(title, body);
+}
+
+/**
+ * Printable Form-16 style annual salary summary
+ */
+export function buildAnnualTaxSummaryHtml(summary: AnnualTaxSummary, company: CompanyModel | undefined): string {
+  const title = `Annual Tax Summary ${summary.financialYear}`;
+  const body = `
+    ${companyHeader(company)}
+    <h2>Annual Salary &amp; Tax Summary (Form 16 Part B format)</h2>
+    <table class="details">
+      <tr>
+        <td>Employee</td><td>${escapeHtml(summary.employeeName)}</td>
+        <td>Employee ID</td><td>${escapeHtml(summary.employeeId)}</td>
+      </tr>
+      <tr>
+        <td>PAN</td><td>${escapeHtml(summary.panNumber || 'Not available')}</td>
+        <td>Financial Year</td><td>${escapeHtml(summary.financialYear)} (AY ${escapeHtml(summary.assessmentYear)})</td>
+      </tr>
+    </table>
+
+    <h3>Details of Salary Paid</h3>
+    <table>
+      <tr><th>Particulars</th><th class="amount">Amount</th></tr>
+      ${lineRows(summary.salaryComponents)}
+      <tr class="total"><td>1. Gross Salary</td><td class="amount">${amount(summary.grossSalary)}</td></tr>
+      <tr><td>2. Less: Standard deduction u/s 16(ia)</td><td class="amount">${amount(summary.standardDeduction)}</td></tr>
+      <tr class="total"><td>3. Income chargeable under the head "Salaries" (1 - 2)</td><td class="amount">${amount(summary.incomeChargeable)}</td></tr>
+      <tr><td>Professional tax paid u/s 16(iii) (not deductible under the new regime)</td><td class="amount">${amount(summary.professionalTax)}</td></tr>
+      <tr><td>Employee provident fund contribution (section 80C, old regime only)</td><td class="amount">${amount(summary.providentFund)}</td></tr>
+      <tr class="total"><td>Tax deducted at source</td><td class="amount">${amount(summary.taxDeducted)}</td></tr>
+    </table>
+    <p>Reimbursements of ${amount(summary.reimbursements)} paid through payroll are not part of salary income.</p>
+
+    <h3>Month-wise Salary and Tax Deducted</h3>
+    <table>
+      <tr><th>Month</th><th class="amount">Gross Salary</th><th class="amount">Tax Deducted</th></tr>
+      ${summary.months
+        .map(
+          (month) =>
+            `<tr><td>${escapeHtml(periodLabel(month.period))}</td><td class="amount">${amount(month.grossEarnings)}</td><td class="amount">${amount(month.taxDeducted)}</td></tr>`
+        )
+        .join('')}
+    </table>
+    <p>Aggregated from the payslips of the year. This summary is for reference and does not replace the Form 16 issued by the employer.</p>`;
+
+  return wrapDocument(title, body);
+}
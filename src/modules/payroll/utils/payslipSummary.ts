@@ -0,0 +1,137 @@
+/**
+ * Payslip Summary
+ * Financial years, year-to-date totals and the Form-16 style annual summary of payslips
+ *
+ * - The financial year runs April to March and is labelled "2026-27"
+ * - Year-to-date covers the payslips of the financial year up to and including the month
+ * - The annual summary only aggregates what payslips contain; exemptions and
+ *   declarations are not known to payroll and are left out
+ * - Income chargeable follows the new tax regime: gross salary less the standard
+ *   deduction (professional tax is reported but not deducted)
+ */
+
+import {
+  AnnualTaxSummary,
+  Payslip,
+  PayslipLine,
+  PayslipYearToDate,
+} from '../types/payroll.types';
+import {
+  FINANCIAL_YEAR_START_MONTH,
+  STANDARD_DEDUCTION,
+  STATUTORY_COMPONENT_CODES,
+} from '../constants';
+
+export interface FinancialYear {
+  label: string; // "2026-27"
+  startYear: number;
+  firstPeriod: string; // yyyy-MM, April
+  lastPeriod: string; // yyyy-MM, March
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const pad = (month: number) => String(month).padStart(2, '0');
+
+/**
+ * Financial year a period (yyyy-MM) falls in
+ *
+ * @example
+ * getFinancialYear('2027-02'); // { label: '2026-27', startYear: 2026, firstPeriod: '2026-04', lastPeriod: '2027-03' }
+ */
+export function getFinancialYear(period: string): FinancialYear {
+  const [year, month] = period.split('-').map(Number);
+  const startYear = month >= FINANCIAL_YEAR_START_MONTH ? year : year - 1;
+  return {
+    label: `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`,
+    startYear,
+    firstPeriod: `${startYear}-${pad(FINANCIAL_YEAR_START_MONTH)}`,
+    lastPeriod: `${startYear + 1}-${pad(FINANCIAL_YEAR_START_MONTH - 1)}`,
+  };
+}
+
+/**
+ * Sum earning / deduction lines per component code, in first-seen order
+ */
+export function sumPayslipLines(payslips: Payslip[], types: PayslipLine['type'][]): PayslipLine[] {
+  const totals = new Map<string, PayslipLine>();
+  payslips.forEach((payslip) => {
+    payslip.lines
+      .filter((line) => types.includes(line.type))
+      .forEach((line) => {
+        const key = `${line.type}:${line.code}`;
+        const current = totals.get(key);
+        totals.set(key, current ? { ...current, amount: roundAmount(current.amount + line.amount) } : { ...line });
+      });
+  });
+  return Array.from(totals.values());
+}
+
+const sumBy = (payslips: Payslip[], pick: (payslip: Payslip) => number) =>
+  roundAmount(payslips.reduce((total, payslip) => total + pick(payslip), 0));
+
+const deductionOf = (lines: PayslipLine[], code: string) =>
+  lines.find((line) => line.type === 'DEDUCTION' && line.code === code)?.amount || 0;
+
+/**
+ * Year-to-date totals for the financial year of `period`, up to and including it
+ */
+export function computeYearToDate(payslips: Payslip[], period: string): PayslipYearToDate {
+  const financialYear = getFinancialYear(period);
+  const included = payslips.filter(
+    (payslip) => payslip.period >= financialYear.firstPeriod && payslip.period <= period
+  );
+
+  return {
+    financialYear: financialYear.label,
+    months: included.length,
+    grossEarnings: sumBy(included, (payslip) => payslip.grossEarnings),
+    totalDeductions: sumBy(included, (payslip) => payslip.totalDeductions),
+    totalReimbursements: sumBy(included, (payslip) => payslip.totalReimbursements),
+    netPay: sumBy(included, (payslip) => payslip.netPay),
+    lopDays: included.reduce((total, payslip) => total + payslip.lopDays, 0),
+    components: sumPayslipLines(included, ['EARNING', 'DEDUCTION']),
+  };
+}
+
+/**
+ * Form-16 style summary of the payslips of one financial year
+ *
+ * @param payslips - Payslips of the employee; only those in the financial year are used
+ * @param financialYearStart - Start year of the financial year, e.g. 2026 for 2026-27
+ */
+export function buildAnnualTaxSummary(payslips: Payslip[], financialYearStart: number): AnnualTaxSummary | null {
+  const financialYear = getFinancialYear(`${financialYearStart}-${pad(FINANCIAL_YEAR_START_MONTH)}`);
+  const included = payslips
+    .filter((payslip) => payslip.period >= financialYear.firstPeriod && payslip.period <= financialYear.lastPeriod)
+    .sort((a, b) => a.period.localeCompare(b.period));
+  if (included.length === 0) return null;
+
+  const latest = included[included.length - 1];
+  const salaryComponents = sumPayslipLines(included, ['EARNING']);
+  const deductions = sumPayslipLines(included, ['DEDUCTION']);
+
+  const grossSalary = sumBy(included, (payslip) => payslip.grossEarnings);
+  const standardDeduction = Math.min(STANDARD_DEDUCTION, grossSalary);
+
+  return {
+    financialYear: financialYear.label,
+    assessmentYear: getFinancialYear(`${financialYearStart + 1}-${pad(FINANCIAL_YEAR_START_MONTH)}`).label,
+    employeeId: latest.employeeId,
+    employeeName: latest.employeeName,
+    panNumber: included.map((payslip) => payslip.panNumber).filter(Boolean).pop(),
+    months: included.map((payslip) => ({
+      period: payslip.period,
+      grossEarnings: payslip.grossEarnings,
+      taxDeducted: deductionOf(payslip.lines, STATUTORY_COMPONENT_CODES.TDS),
+    })),
+    salaryComponents,
+    grossSalary,
+    professionalTax: deductionOf(deductions, STATUTORY_COMPONENT_CODES.PROFESSIONAL_TAX),
+    standardDeduction,
+    incomeChargeable: roundAmount(grossSalary - standardDeduction),
+    providentFund: deductionOf(deductions, STATUTORY_COMPONENT_CODES.PF),
+    taxDeducted: deductionOf(deductions, STATUTORY_COMPONENT_CODES.TDS),
+    reimbursements: sumBy(included, (payslip) => payslip.totalReimbursements),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Salary Formula
+ * Safe evaluator for salary component formulas (no eval)
+ *
+ * Grammar:
+ *   expression := term (("+" | "-") term)*
+ *   term       := factor (("*" | "/") factor)*
+ *   factor     := ("+" | "-") factor | number | NAME | fn "(" expression ("," expression)* ")" | "(" expression ")"
+ *
+ * NAME is "CTC" or a component code; fn is one of min, max, round, floor, ceil.
+ */
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string };
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  min: (...args) => Math.min(...args),
+  max: (...args) => Math.max(...args),
+  round: (value, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits,
+  floor: (value) => Math.floor(value),
+  ceil: (value) => Math.ceil(value),
+};
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < formula.length) {
+    const char = formula[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(index).match(/^\d*\.?\d+/);
+      if (!match) throw new Error(`Invalid number at position ${index + 1}`);
+      tokens.push({ kind: 'number', value: Number(match[0]) });
+      index += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = formula.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ kind: 'name', value: match[0] });
+      index += match[0].length;
+    } else if ('+-*/(),'.includes(char)) {
+      tokens.push({ kind: 'op', value: char });
+      index++;
+    } else {
+      throw new Error(`Unexpected "${char}" at position ${index + 1}`);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Names a formula refers to (CTC and component codes), upper cased
+ *
+ * @example
+ * getFormulaReferences('min(basic, 15000) * 0.12'); // ['BASIC']
+ */
+export function getFormulaReferences(formula: string): string[] {
+  const tokens = tokenize(formula);
+  const names = tokens
+    .filter((token, index) => {
+      const next = tokens[index + 1];
+      return token.kind === 'name' && !(next?.kind === 'op' && next.value === '(');
+    })
+    .map((token) => String(token.value).toUpperCase());
+  return Array.from(new Set(names));
+}
+
+/**
+ * Evaluate a formula; names are resolved through `resolve` (upper cased)
+ * Throws an Error describing the first syntax or reference problem
+ *
+ * @example
+ * evaluateFormula('CTC - BASIC - HRA', (name) => ({ CTC: 100000, BASIC: 40000, HRA: 20000 })[name]); // 40000
+ */
+export function evaluateFormula(formula: string, resolve: (name: string) => number | undefined): number {
+  const tokens = tokenize(formula);
+  if (tokens.length === 0) throw new Error('Formula is empty');
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.kind === 'op' && peek().value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}"`);
+    position++;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value;
+      const right = parseTerm();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseFactor();
+    while (isOp('*') || isOp('/')) {
+      const op = tokens[position++].value;
+      const right = parseFactor();
+      if (op === '/' && right === 0) throw new Error('Division by zero');
+      value = op === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  const parseFactor = (): number => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of formula');
+
+    if (token.kind === 'op') {
+      if (token.value === '-' || token.value === '+') {
+        position++;
+        const value = parseFactor();
+        return token.value === '-' ? -value : value;
+      }
+      if (token.value === '(') {
+        position++;
+        const value = parseExpression();
+        expectOp(')');
+        return value;
+      }
+      throw new Error(`Unexpected "${token.value}"`);
+    }
+
+    position++;
+    if (token.kind === 'number') return token.value;
+
+    const name = String(token.value);
+    if (isOp('(')) {
+      const fn = FUNCTIONS[name.toLowerCase()];
+      if (!fn) throw new Error(`Unknown function "${name}"`);
+      position++;
+      const args = [parseExpression()];
+      while (isOp(',')) {
+        position++;
+        args.push(parseExpression());
+      }
+      expectOp(')');
+      return fn(...args);
+    }
+
+    const value = resolve(name.toUpperCase());
+    if (value === undefined) throw new Error(`Unknown component "${name.toUpperCase()}"`);
+    return value;
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position].value}"`);
+  return result;
+}
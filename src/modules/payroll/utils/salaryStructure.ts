@@ -0,0 +1,221 @@
+/**
+ * Salary Structure Utilities
+ * Validation, CTC-to-monthly breakup, structure matching and revision history
+ *
+ * - Earnings make up the CTC; deductions (PF, professional tax) are taken out of gross
+ * - Every amount resolves to a monthly value; annual = monthly x 12
+ * - A structure is balanced when monthly earnings equal the monthly CTC (within ₹1 of rounding)
+ */
+
+import {
+  EmployeeSalaryRevision,
+  SalaryBreakup,
+  SalaryBreakupLine,
+  SalaryComponentDefinition,
+  SalaryStructure,
+} from '../types/salaryStructure.types';
+import { SalaryComponentLine } from '../types/payroll.types';
+import { evaluateFormula, getFormulaReferences } from './salaryFormula';
+
+export const CTC_REFERENCE = 'CTC';
+
+const BALANCE_TOLERANCE = 1;
+
+const COMPONENT_CODE_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Problems in the component definitions; empty when the structure can be saved
+ */
+export function validateSalaryComponents(components: SalaryComponentDefinition[]): string[] {
+  const errors: string[] = [];
+  const codes = new Set<string>();
+
+  if (!components.some((component) => component.type === 'EARNING')) {
+    errors.push('Add at least one earning component');
+  }
+
+  components.forEach((component, index) => {
+    const label = component.code || `Component ${index + 1}`;
+    if (!component.name.trim()) errors.push(`${label}: name is required`);
+    if (!COMPONENT_CODE_PATTERN.test(component.code)) {
+      errors.push(`${label}: code must be upper case letters, digits or "_"`);
+    } else if (component.code === CTC_REFERENCE) {
+      errors.push(`${label}: "${CTC_REFERENCE}" is reserved`);
+    } else if (codes.has(component.code)) {
+      errors.push(`${label}: code is used more than once`);
+    }
+    codes.add(component.code);
+  });
+
+  components.forEach((component) => {
+    const label = component.code || component.name;
+    if (component.calculation === 'FIXED' && !(component.amount !== undefined && component.amount >= 0)) {
+      errors.push(`${label}: enter a monthly amount`);
+    }
+    if (component.calculation === 'PERCENTAGE') {
+      if (component.percentage === undefined || component.percentage < 0 || component.percentage > 100) {
+        errors.push(`${label}: percentage must be between 0 and 100`);
+      }
+      const base = component.percentageOf || CTC_REFERENCE;
+      if (base !== CTC_REFERENCE && !codes.has(base)) {
+        errors.push(`${label}: percentage base "${base}" is not a component`);
+      }
+      if (base === component.code) errors.push(`${label}: cannot be a percentage of itself`);
+    }
+    if (component.calculation === 'FORMULA') {
+      if (!component.formula?.trim()) {
+        errors.push(`${label}: enter a formula`);
+        return;
+      }
+      try {
+        getFormulaReferences(component.formula)
+          .filter((name) => name !== CTC_REFERENCE && !codes.has(name))
+          .forEach((name) => errors.push(`${label}: unknown component "${name}" in formula`));
+      } catch (error) {
+        errors.push(`${label}: ${error instanceof Error ? error.message : 'invalid formula'}`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Resolve every component for an annual CTC
+ * Components may refer to each other in any order; circular references are reported in `errors`
+ *
+ * @example
+ * computeSalaryBreakup([
+ *   { code: 'BASIC', name: 'Basic', type: 'EARNING', calculation: 'PERCENTAGE', percentage: 50, percentageOf: 'CTC' },
+ *   { code: 'HRA', name: 'HRA', type: 'EARNING', calculation: 'PERCENTAGE', percentage: 40, percentageOf: 'BASIC' },
+ *   { code: 'SPECIAL', name: 'Special Allowance', type: 'EARNING', calculation: 'FORMULA', formula: 'CTC - BASIC - HRA' },
+ * ], 1200000); // BASIC 50,000 / HRA 20,000 / SPECIAL 30,000 a month
+ */
+export function computeSalaryBreakup(components: SalaryComponentDefinition[], annualCtc: number): SalaryBreakup {
+  const monthlyCtc = roundAmount(annualCtc / 12);
+  const byCode = new Map(components.map((component) => [component.code, component]));
+  const resolved = new Map<string, number>();
+  const resolving = new Set<string>();
+  const errors: string[] = [];
+
+  const resolve = (code: string): number | undefined => {
+    if (code === CTC_REFERENCE) return monthlyCtc;
+    if (resolved.has(code)) return resolved.get(code);
+    const component = byCode.get(code);
+    if (!component) return undefined;
+    if (resolving.has(code)) throw new Error(`Circular reference through ${code}`);
+
+    resolving.add(code);
+    try {
+      let amount = 0;
+      if (component.calculation === 'FIXED') {
+        amount = component.amount || 0;
+      } else if (component.calculation === 'PERCENTAGE') {
+        const base = resolve(component.percentageOf || CTC_REFERENCE);
+        if (base === undefined) throw new Error(`Unknown component "${component.percentageOf}"`);
+        amount = (base * (component.percentage || 0)) / 100;
+      } else {
+        amount = evaluateFormula(component.formula || '', resolve);
+      }
+      resolved.set(code, roundAmount(amount));
+      return resolved.get(code);
+    } finally {
+      resolving.delete(code);
+    }
+  };
+
+  const lines: SalaryBreakupLine[] = components.map((component) => {
+    let monthlyAmount = 0;
+    try {
+      monthlyAmount = resolve(component.code) || 0;
+    } catch (error) {
+      errors.push(`${component.code}: ${error instanceof Error ? error.message : 'could not be calculated'}`);
+      resolved.set(component.code, 0);
+    }
+    if (monthlyAmount < 0) errors.push(`${component.code}: resolves to a negative amount`);
+    return {
+      code: component.code,
+      name: component.name,
+      type: component.type,
+      monthlyAmount,
+      annualAmount: roundAmount(monthlyAmount * 12),
+      lopApplicable: component.lopApplicable !== false,
+    };
+  });
+
+  const sum = (type: SalaryBreakupLine['type']) =>
+    roundAmount(lines.filter((line) => line.type === type).reduce((total, line) => total + line.monthlyAmount, 0));
+  const monthlyEarnings = sum('EARNING');
+  const monthlyDeductions = sum('DEDUCTION');
+
+  return {
+    annualCtc,
+    monthlyCtc,
+    lines,
+    monthlyEarnings,
+    monthlyDeductions,
+    monthlyNet: roundAmount(monthlyEarnings - monthlyDeductions),
+    difference: roundAmount(monthlyCtc - monthlyEarnings),
+    errors,
+  };
+}
+
+/**
+ * Whether the earnings add up to the CTC and every component resolved
+ */
+export function isBreakupBalanced(breakup: SalaryBreakup): boolean {
+  return breakup.errors.length === 0 && Math.abs(breakup.difference) < BALANCE_TOLERANCE;
+}
+
+/**
+ * Monthly component lines stored on a salary revision and used by the payroll run
+ */
+export function toSalaryComponentLines(breakup: SalaryBreakup): SalaryComponentLine[] {
+  return breakup.lines.map(({ code, name, type, monthlyAmount, lopApplicable }) => ({
+    code,
+    name,
+    type,
+    monthlyAmount,
+    ...(lopApplicable !== undefined && { lopApplicable }),
+  }));
+}
+
+/**
+ * Active structures applicable to a designation and employee type, most specific first
+ * A structure that lists designations / employee types must include the employee's
+ */
+export function findMatchingStructures(
+  structures: SalaryStructure[],
+  designationId?: string,
+  employeeTypeId?: string
+): SalaryStructure[] {
+  const matches = (ids: string[], id?: string) => ids.length === 0 || (!!id && ids.includes(id));
+  const specificity = (structure: SalaryStructure) =>
+    (structure.designationIds.length > 0 ? 2 : 0) + (structure.employeeTypeIds.length > 0 ? 1 : 0);
+
+  return structures
+    .filter((structure) => structure.active)
+    .filter((structure) => matches(structure.designationIds, designationId) && matches(structure.employeeTypeIds, employeeTypeId))
+    .sort((a, b) => specificity(b) - specificity(a));
+}
+
+/**
+ * Revisions newest first (by effective date, then revision number)
+ */
+export function sortSalaryRevisions(revisions: EmployeeSalaryRevision[]): EmployeeSalaryRevision[] {
+  return [...revisions].sort(
+    (a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.revision - a.revision
+  );
+}
+
+/**
+ * Revision in force on a date (yyyy-MM-dd); null before the first revision
+ */
+export function getSalaryRevisionInForce(
+  revisions: EmployeeSalaryRevision[],
+  date: string
+): EmployeeSalaryRevision | null {
+  return sortSalaryRevisions(revisions).find((revision) => revision.effectiveFrom <= date) || null;
+}
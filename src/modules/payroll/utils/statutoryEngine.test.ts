@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_STATUTORY_SETTINGS } from '../constants';
+import { PayrollEmployeeInput } from '../types/payroll.types';
+import { StatutoryEmployeeDetails, StatutorySettings, TaxDeclaration } from '../types/statutory.types';
+import { computePayrollEntry, getPayrollPeriod } from './payrollEngine';
+import {
+  applyStatutoryDeductions,
+  computeIncomeTax,
+  computeProfessionalTax,
+  EMPTY_YEAR_TO_DATE,
+  getRemainingMonths,
+  projectTds,
+} from './statutoryEngine';
+
+const MAHARASHTRA = DEFAULT_STATUTORY_SETTINGS.professionalTax.states.find((state) => state.stateCode === 'MH')!;
+
+const settings: StatutorySettings = {
+  ...DEFAULT_STATUTORY_SETTINGS,
+  professionalTax: { ...DEFAULT_STATUTORY_SETTINGS.professionalTax, workLocationStates: { 'LOC-PUNE': 'MH' } },
+};
+
+const details: StatutoryEmployeeDetails = {
+  employeeId: 'EMP-1',
+  firstName: 'Asha',
+  lastName: 'Kumar',
+  workLocationId: 'LOC-PUNE',
+  panNumber: 'ABCPK1234L',
+};
+
+// ₹1,50,000 a month; the structure's PF and PT lines are replaced by computed ones
+const input: PayrollEmployeeInput = {
+  employeeId: 'EMP-1',
+  firstName: 'Asha',
+  lastName: 'Kumar',
+  salary: {
+    employeeId: 'EMP-1',
+    annualCtc: 1800000,
+    effectiveFrom: '2026-04-01',
+    components: [
+      { code: 'BASIC', name: 'Basic', type: 'EARNING', monthlyAmount: 100000 },
+      { code: 'HRA', name: 'House Rent Allowance', type: 'EARNING', monthlyAmount: 50000 },
+      { code: 'PF', name: 'Provident Fund', type: 'DEDUCTION', monthlyAmount: 12000 },
+      { code: 'PT', name: 'Professional Tax', type: 'DEDUCTION', monthlyAmount: 250 },
+    ],
+  },
+  lopDays: 0,
+};
+
+const declaration = (overrides: Partial<TaxDeclaration> = {}): TaxDeclaration => ({
+  employeeId: 'EMP-1',
+  financialYear: 2026,
+  regime: 'OLD',
+  section80C: 0,
+  section80D: 0,
+  hraExemption: 0,
+  homeLoanInterest: 0,
+  otherDeductions: 0,
+  ...overrides,
+});
+
+describe('getRemainingMonths', () => {
+  it('counts the months left in the financial year, this one included', () => {
+    expect(getRemainingMonths('2026-04')).toBe(12);
+    expect(getRemainingMonths('2026-10')).toBe(6);
+    expect(getRemainingMonths('2027-03')).toBe(1);
+  });
+});
+
+describe('computeProfessionalTax', () => {
+  it('takes the February amount where the state has one', () => {
+    expect(computeProfessionalTax(45000, MAHARASHTRA, '2027-01')).toBe(200);
+    expect(computeProfessionalTax(45000, MAHARASHTRA, '2027-02')).toBe(300);
+    expect(computeProfessionalTax(7500, MAHARASHTRA, '2027-02')).toBe(0);
+  });
+});
+
+describe('computeIncomeTax', () => {
+  it('rebates income up to the new regime limit in full', () => {
+    expect(computeIncomeTax(1200000, 'NEW')).toBe(0);
+  });
+
+  it('limits tax just above the rebate limit to the excess income', () => {
+    // Slab tax 61,500; marginal relief caps it at 10,000, plus 4% cess
+    expect(computeIncomeTax(1210000, 'NEW')).toBe(10400);
+  });
+
+  it('applies the slabs and cess without marginal relief under the old regime', () => {
+    expect(computeIncomeTax(500000, 'OLD')).toBe(0);
+    // 12,500 + 1,00,000 + 300, plus 4% cess
+    expect(computeIncomeTax(1001000, 'OLD')).toBe(117312);
+  });
+});
+
+describe('projectTds', () => {
+  const monthly = { grossEarnings: 150000, employeePf: 1800, professionalTax: 200 };
+
+  it('spreads the projected tax of the year over the remaining months', () => {
+    const tds = projectTds('2026-04', 'NEW', monthly, EMPTY_YEAR_TO_DATE, true);
+
+    expect(tds.projectedGross).toBe(1800000);
+    expect(tds.taxableIncome).toBe(1725000);
+    expect(tds.annualTax).toBe(150800);
+    expect(tds.remainingMonths).toBe(12);
+    expect(tds.amount).toBe(12567);
+  });
+
+  it('deducts tax already withheld earlier in the year', () => {
+    const yearToDate = { grossEarnings: 900000, employeePf: 10800, professionalTax: 1200, taxDeducted: 60000 };
+    const tds = projectTds('2026-10', 'NEW', monthly, yearToDate, true);
+
+    expect(tds.annualTax).toBe(150800);
+    expect(tds.deductedBefore).toBe(60000);
+    expect(tds.amount).toBe(15133);
+  });
+
+  it('takes old regime deductions from the declaration, with employee PF under 80C', () => {
+    const tds = projectTds(
+      '2026-04',
+      'OLD',
+      { grossEarnings: 100000, employeePf: 1800, professionalTax: 200 },
+      EMPTY_YEAR_TO_DATE,
+      true,
+      declaration({ section80C: 100000, section80D: 25000 })
+    );
+
+    // 12,00,000 - 50,000 standard - 2,400 PT - 1,21,600 80C - 25,000 80D
+    expect(tds.taxableIncome).toBe(1001000);
+    expect(tds.annualTax).toBe(117312);
+    expect(tds.amount).toBe(9776);
+  });
+
+  it('taxes at least 20% of taxable income without a valid PAN', () => {
+    const tds = projectTds('2026-04', 'NEW', monthly, EMPTY_YEAR_TO_DATE, false);
+
+    expect(tds.panMissing).toBe(true);
+    expect(tds.annualTax).toBe(345000);
+  });
+});
+
+describe('applyStatutoryDeductions', () => {
+  const entry = computePayrollEntry(input, getPayrollPeriod('2026-04'));
+
+  it('replaces the structure lines with computed PF, PT and TDS', () => {
+    const result = applyStatutoryDeductions(entry, { settings, period: '2026-04', details });
+    const deductions = result.lines.filter((line) => line.type === 'DEDUCTION');
+
+    expect(deductions.map((line) => [line.code, line.amount])).toEqual([
+      ['PF', 1800],
+      ['PT', 200],
+      ['TDS', 12567],
+    ]);
+    expect(result.totalDeductions).toBe(14567);
+    expect(result.netPay).toBe(135433);
+  });
+
+  it('records the employer PF split and skips ESI above its ceiling', () => {
+    const { statutory } = applyStatutoryDeductions(entry, { settings, period: '2026-04', details });
+
+    expect(statutory?.pf).toMatchObject({ epfWages: 15000, employeeShare: 1800, employerEps: 1250, employerEpf: 550 });
+    expect(statutory?.esi).toBeNull();
+  });
+
+  it('flags a work location without a professional tax state', () => {
+    const result = applyStatutoryDeductions(entry, {
+      settings,
+      period: '2026-04',
+      details: { ...details, workLocationId: 'LOC-UNKNOWN' },
+    });
+
+    expect(result.lines.some((line) => line.code === 'PT')).toBe(false);
+    expect(result.warnings).toContain('No professional tax state for the work location');
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Statutory Engine
+ * Pure computation of PF, ESI, professional tax and TDS on a payroll entry
+ *
+ * - PF is on the earnings listed as PF wages, capped at the wage ceiling when
+ *   configured; the employer share is split into EPS (capped) and EPF
+ * - ESI applies when the month's gross is within the ceiling; shares are
+ *   rounded up to the next rupee
+ * - Professional tax follows the slabs of the state mapped to the employee's
+ *   work location, with the February amount where a state has one
+ * - TDS spreads the projected tax of the financial year, less tax already
+ *   deducted, evenly over the remaining months
+ * - Structure lines with the codes PF / ESI / PT / TDS are replaced by the
+ *   computed ones for every statutory item that is enabled
+ */
+
+import { PayrollRunEntry, PayslipLine } from '../types/payroll.types';
+import {
+  EsiContribution,
+  EsiSettings,
+  PfContribution,
+  PfSettings,
+  ProfessionalTaxStateRule,
+  StatutoryContributions,
+  StatutoryEmployeeDetails,
+  StatutorySettings,
+  TaxDeclaration,
+  TaxRegime,
+  TdsProjection,
+} from '../types/statutory.types';
+import {
+  FINANCIAL_YEAR_START_MONTH,
+  HEALTH_EDUCATION_CESS_RATE,
+  HOME_LOAN_INTEREST_LIMIT,
+  INCOME_TAX_SLABS,
+  NO_PAN_TDS_RATE,
+  SECTION_80C_LIMIT,
+  STATUTORY_COMPONENT_CODES,
+  SURCHARGE_THRESHOLD,
+  TAX_REGIME_RULES,
+} from '../constants';
+import { withEntryLines } from './payrollEngine';
+import { isValidPan } from './statutoryValidation';
+
+/**
+ * Statutory amounts of the earlier months of the financial year
+ */
+export interface StatutoryYearToDate {
+  grossEarnings: number;
+  employeePf: number;
+  professionalTax: number;
+  taxDeducted: number;
+}
+
+export interface StatutoryContext {
+  settings: StatutorySettings;
+  period: string; // yyyy-MM
+  details?: StatutoryEmployeeDetails;
+  declaration?: TaxDeclaration; // Declaration of the financial year of the period
+  yearToDate?: StatutoryYearToDate;
+}
+
+/**
+ * Annual amounts a tax projection starts from
+ */
+export interface TaxableSalary {
+  grossSalary: number;
+  professionalTax: number;
+  employeePf: number;
+}
+
+export const EMPTY_YEAR_TO_DATE: StatutoryYearToDate = {
+  grossEarnings: 0,
+  employeePf: 0,
+  professionalTax: 0,
+  taxDeducted: 0,
+};
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const percentOf = (amount: number, rate: number) => (amount * rate) / 100;
+
+const deductionOf = (lines: PayslipLine[], code: string) =>
+  lines.filter((line) => line.type === 'DEDUCTION' && line.code === code).reduce((sum, line) => sum + line.amount, 0);
+
+/**
+ * Months from `period` to the end of its financial year, both included
+ *
+ * @example
+ * getRemainingMonths('2026-04'); // 12
+ * getRemainingMonths('2027-03'); // 1
+ */
+export function getRemainingMonths(period: string): number {
+  const month = Number(period.split('-')[1]);
+  return ((FINANCIAL_YEAR_START_MONTH - 1 - month + 12) % 12) + 1;
+}
+
+/**
+ * PF on the PF wages of an entry; null when PF is disabled or there are no PF wages
+ */
+export function computePfContribution(entry: PayrollRunEntry, settings: PfSettings): PfContribution | null {
+  if (!settings.enabled) return null;
+  const pfWages = roundAmount(
+    entry.lines
+      .filter((line) => line.type === 'EARNING' && settings.wageComponents.includes(line.code))
+      .reduce((sum, line) => sum + line.amount, 0)
+  );
+  if (pfWages <= 0) return null;
+
+  const epfWages = Math.round(settings.restrictToWageCeiling ? Math.min(pfWages, settings.wageCeiling) : pfWages);
+  const epsWages = Math.round(Math.min(pfWages, settings.pensionWageCeiling));
+  const employerShare = Math.round(percentOf(epfWages, settings.employerRate));
+  const employerEps = Math.min(Math.round(percentOf(epsWages, settings.pensionRate)), employerShare);
+
+  return {
+    pfWages,
+    epfWages,
+    epsWages,
+    edliWages: epsWages,
+    employeeShare: Math.round(percentOf(epfWages, settings.employeeRate)),
+    employerEps,
+    employerEpf: employerShare - employerEps,
+  };
+}
+
+/**
+ * ESI on the gross of an entry; null when ESI is disabled or the gross is above the ceiling
+ */
+export function computeEsiContribution(entry: PayrollRunEntry, settings: EsiSettings): EsiContribution | null {
+  if (!settings.enabled || entry.grossEarnings <= 0 || entry.grossEarnings > settings.wageCeiling) return null;
+  return {
+    esiWages: entry.grossEarnings,
+    employeeShare: Math.ceil(percentOf(entry.grossEarnings, settings.employeeRate)),
+    employerShare: Math.ceil(percentOf(entry.grossEarnings, settings.employerRate)),
+  };
+}
+
+/**
+ * Professional tax of a month's gross under a state's slabs
+ *
+ * @example
+ * computeProfessionalTax(45000, maharashtra, '2027-02'); // 300
+ */
+export function computeProfessionalTax(monthlyGross: number, rule: ProfessionalTaxStateRule, period: string): number {
+  const slab = rule.slabs.find(
+    (item) => monthlyGross >= item.minWage && (item.maxWage === undefined || monthlyGross <= item.maxWage)
+  );
+  if (!slab) return 0;
+  return period.endsWith('-02') && slab.februaryTax !== undefined ? slab.februaryTax : slab.monthlyTax;
+}
+
+/**
+ * Taxable income of a year under a regime
+ * The old regime allows professional tax, HRA exemption, 80C (with employee PF),
+ * 80D, home loan interest and other declared deductions; the new regime only
+ * the standard deduction
+ */
+export function computeTaxableIncome(regime: TaxRegime, salary: TaxableSalary, declaration?: TaxDeclaration): number {
+  let deductions = Math.min(TAX_REGIME_RULES[regime].standardDeduction, salary.grossSalary);
+  if (regime === 'OLD') {
+    deductions += salary.professionalTax;
+    if (declaration) {
+      deductions += declaration.hraExemption;
+      deductions += Math.min(declaration.section80C + salary.employeePf, SECTION_80C_LIMIT);
+      deductions += declaration.section80D;
+      deductions += Math.min(declaration.homeLoanInterest, HOME_LOAN_INTEREST_LIMIT);
+      deductions += declaration.otherDeductions;
+    } else {
+      deductions += Math.min(salary.employeePf, SECTION_80C_LIMIT);
+    }
+  }
+  return Math.max(Math.round(salary.grossSalary - deductions), 0);
+}
+
+/**
+ * Income tax with the section 87A rebate and cess; surcharge is not computed
+ *
+ * @example
+ * computeIncomeTax(1200000, 'NEW'); // 0, fully rebated
+ * computeIncomeTax(1210000, 'NEW'); // 10400, marginal relief: 10,000 + 4% cess
+ */
+export function computeIncomeTax(taxableIncome: number, regime: TaxRegime): number {
+  const slabs = INCOME_TAX_SLABS[regime];
+  const slabTax = slabs.reduce((tax, slab, index) => {
+    const upTo = slabs[index + 1]?.from ?? Infinity;
+    const taxed = Math.min(taxableIncome, upTo) - slab.from;
+    return taxed > 0 ? tax + percentOf(taxed, slab.rate) : tax;
+  }, 0);
+
+  const rules = TAX_REGIME_RULES[regime];
+  let tax = slabTax;
+  if (taxableIncome <= rules.rebateLimit) {
+    tax = Math.max(slabTax - rules.maxRebate, 0);
+  } else if (rules.marginalRelief) {
+    tax = Math.min(slabTax, taxableIncome - rules.rebateLimit);
+  }
+  return Math.round(tax + percentOf(tax, HEALTH_EDUCATION_CESS_RATE));
+}
+
+/**
+ * TDS of a month from the projected tax of the financial year
+ *
+ * @param monthly - Gross, employee PF and professional tax of the month
+ * @param yearToDate - Amounts of the earlier months of the financial year
+ * @param panValid - Without a valid PAN tax is at least 20% of taxable income (section 206AA)
+ */
+export function projectTds(
+  period: string,
+  regime: TaxRegime,
+  monthly: { grossEarnings: number; employeePf: number; professionalTax: number },
+  yearToDate: StatutoryYearToDate,
+  panValid: boolean,
+  declaration?: TaxDeclaration
+): TdsProjection {
+  const remainingMonths = getRemainingMonths(period);
+  const salary: TaxableSalary = {
+    grossSalary: roundAmount(yearToDate.grossEarnings + monthly.grossEarnings * remainingMonths),
+    professionalTax: roundAmount(yearToDate.professionalTax + monthly.professionalTax * remainingMonths),
+    employeePf: roundAmount(yearToDate.employeePf + monthly.employeePf * remainingMonths),
+  };
+  const taxableIncome = computeTaxableIncome(regime, salary, declaration);
+  let annualTax = computeIncomeTax(taxableIncome, regime);
+  if (!panValid && annualTax > 0) {
+    annualTax = Math.max(annualTax, Math.round(percentOf(taxableIncome, NO_PAN_TDS_RATE)));
+  }
+
+  return {
+    regime,
+    projectedGross: salary.grossSalary,
+    projectedProfessionalTax: salary.professionalTax,
+    projectedEmployeePf: salary.employeePf,
+    taxableIncome,
+    annualTax,
+    deductedBefore: yearToDate.taxDeducted,
+    remainingMonths,
+    amount: Math.max(Math.round((annualTax - yearToDate.taxDeducted) / remainingMonths), 0),
+    panMissing: !panValid,
+  };
+}
+
+/**
+ * Statutory amounts of an employee's entries in earlier runs of the financial year
+ */
+export function sumStatutoryYearToDate(entries: PayrollRunEntry[]): StatutoryYearToDate {
+  return entries.reduce<StatutoryYearToDate>(
+    (total, entry) => ({
+      grossEarnings: roundAmount(total.grossEarnings + entry.grossEarnings),
+      employeePf: roundAmount(total.employeePf + deductionOf(entry.lines, STATUTORY_COMPONENT_CODES.PF)),
+      professionalTax: roundAmount(
+        total.professionalTax + deductionOf(entry.lines, STATUTORY_COMPONENT_CODES.PROFESSIONAL_TAX)
+      ),
+      taxDeducted: roundAmount(total.taxDeducted + deductionOf(entry.lines, STATUTORY_COMPONENT_CODES.TDS)),
+    }),
+    EMPTY_YEAR_TO_DATE
+  );
+}
+
+/**
+ * Compute PF, ESI, PT and TDS for an entry and replace its statutory deduction lines
+ *
+ * @example
+ * const entry = applyStatutoryDeductions(computePayrollEntry(input, period), {
+ *   settings, period: '2026-03', details, declaration, yearToDate,
+ * });
+ */
+export function applyStatutoryDeductions(entry: PayrollRunEntry, context: StatutoryContext): PayrollRunEntry {
+  const { settings, period, details, declaration } = context;
+  const yearToDate = context.yearToDate || EMPTY_YEAR_TO_DATE;
+  const warnings = [...entry.warnings];
+
+  const pf = computePfContribution(entry, settings.pf);
+  const esi = computeEsiContribution(entry, settings.esi);
+
+  let professionalTax: StatutoryContributions['professionalTax'] = null;
+  if (settings.professionalTax.enabled) {
+    const stateCode = details?.workLocationId
+      ? settings.professionalTax.workLocationStates[details.workLocationId]
+      : undefined;
+    const rule = settings.professionalTax.states.find((state) => state.stateCode === stateCode);
+    if (rule) {
+      professionalTax = { stateCode: rule.stateCode, amount: computeProfessionalTax(entry.grossEarnings, rule, period) };
+    } else {
+      warnings.push('No professional tax state for the work location');
+    }
+  }
+
+  let tds: TdsProjection | null = null;
+  if (settings.tds.enabled) {
+    tds = projectTds(
+      period,
+      declaration?.regime || settings.tds.defaultRegime,
+      {
+        grossEarnings: entry.grossEarnings,
+        employeePf: pf?.employeeShare || 0,
+        professionalTax: professionalTax?.amount || 0,
+      },
+      yearToDate,
+      isValidPan(details?.panNumber),
+      declaration
+    );
+    if (tds.taxableIncome > SURCHARGE_THRESHOLD) {
+      warnings.push('Projected income is above ₹50 lakh; surcharge is not included in TDS');
+    }
+  }
+
+  // Enabled items replace the structure's line of the same code, disabled ones leave it alone
+  const computed: { code: string; name: string; amount: number; enabled: boolean }[] = [
+    { code: STATUTORY_COMPONENT_CODES.PF, name: 'Provident Fund', amount: pf?.employeeShare || 0, enabled: settings.pf.enabled },
+    { code: STATUTORY_COMPONENT_CODES.ESI, name: 'Employee State Insurance', amount: esi?.employeeShare || 0, enabled: settings.esi.enabled },
+    {
+      code: STATUTORY_COMPONENT_CODES.PROFESSIONAL_TAX,
+      name: 'Professional Tax',
+      amount: professionalTax?.amount || 0,
+      enabled: settings.professionalTax.enabled,
+    },
+    { code: STATUTORY_COMPONENT_CODES.TDS, name: 'Income Tax (TDS)', amount: tds?.amount || 0, enabled: settings.tds.enabled },
+  ];
+  const replaced = computed.filter((item) => item.enabled).map((item) => item.code);
+
+  const lines: PayslipLine[] = [
+    ...entry.lines.filter((line) => line.type !== 'DEDUCTION' || !replaced.includes(line.code)),
+    ...computed
+      .filter((item) => item.enabled && item.amount > 0)
+      .map((item) => ({ code: item.code, name: item.name, type: 'DEDUCTION' as const, amount: item.amount })),
+  ];
+
+  return withEntryLines(
+    { ...entry, warnings, statutory: { pf, esi, professionalTax, tds } },
+    lines
+  );
+}
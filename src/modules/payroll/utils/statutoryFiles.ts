@@ -0,0 +1,166 @@
+/**
+ * Statutory Files
+ * Monthly return / challan files of a payroll run: EPFO ECR, ESIC contribution
+ * upload, professional tax challan per state and the TDS (section 192) summary
+ *
+ * Entries are read from `entry.statutory`, so only runs computed with statutory
+ * deductions produce rows. Employees missing the identifier a file is keyed on
+ * (UAN, ESI IP number) are left out and returned as skipped.
+ */
+
+import { toCsv } from '@/lib/csv';
+import { PayrollRun, PayrollRunEntry } from '../types/payroll.types';
+import { StatutoryEmployeeDetails, StatutorySettings } from '../types/statutory.types';
+
+export interface StatutoryFile {
+  content: string;
+  filename: string;
+  mimeType: string;
+  included: PayrollRunEntry[];
+  skipped: PayrollRunEntry[];
+}
+
+// EPFO ECR 2.0 text file: one member per line, fields separated by #~#
+const ECR_SEPARATOR = '#~#';
+
+const ESI_HEADER = ['IP Number', 'IP Name', 'No of Days for which wages paid', 'Total Monthly Wages', 'Reason Code', 'Last Working Day'];
+
+const PT_HEADER = ['State', 'Slab', 'Employees', 'Tax per Employee', 'Total Wages', 'Tax Amount'];
+
+const TDS_HEADER = ['Employee ID', 'Employee Name', 'PAN', 'Regime', 'Gross Salary', 'Taxable Income (projected)', 'Annual Tax (projected)', 'TDS Deducted'];
+
+// ESIC reason code for members with no working days in the month
+const ESI_REASON_ON_LEAVE = '1';
+
+const byEmployee = (details: StatutoryEmployeeDetails[]) =>
+  new Map(details.map((item) => [item.employeeId, item]));
+
+/**
+ * ECR file of the PF contributions of a run
+ * Columns: UAN, name, gross wages, EPF / EPS / EDLI wages, EE share, EPS, ER share less EPS, NCP days, refunds
+ */
+export function buildEcrFile(run: PayrollRun, details: StatutoryEmployeeDetails[]): StatutoryFile {
+  const detailsMap = byEmployee(details);
+  const members = run.entries.filter((entry) => entry.statutory?.pf);
+  const included = members.filter((entry) => detailsMap.get(entry.employeeId)?.uan);
+
+  const lines = included.map((entry) => {
+    const pf = entry.statutory!.pf!;
+    return [
+      detailsMap.get(entry.employeeId)!.uan,
+      entry.employeeName.toUpperCase(),
+      Math.round(entry.grossEarnings),
+      pf.epfWages,
+      pf.epsWages,
+      pf.edliWages,
+      pf.employeeShare,
+      pf.employerEps,
+      pf.employerEpf,
+      entry.lopDays,
+      0,
+    ].join(ECR_SEPARATOR);
+  });
+
+  return {
+    content: lines.join('\n'),
+    filename: `ecr-${run.period}.txt`,
+    mimeType: 'text/plain',
+    included,
+    skipped: members.filter((entry) => !included.includes(entry)),
+  };
+}
+
+/**
+ * ESIC monthly contribution upload of a run
+ */
+export function buildEsiFile(run: PayrollRun, details: StatutoryEmployeeDetails[]): StatutoryFile {
+  const detailsMap = byEmployee(details);
+  const members = run.entries.filter((entry) => entry.statutory?.esi);
+  const included = members.filter((entry) => detailsMap.get(entry.employeeId)?.esiIpNumber);
+
+  const rows = included.map((entry) => [
+    detailsMap.get(entry.employeeId)!.esiIpNumber!,
+    entry.employeeName,
+    entry.paidDays,
+    Math.round(entry.statutory!.esi!.esiWages),
+    entry.paidDays === 0 ? ESI_REASON_ON_LEAVE : '',
+    '',
+  ]);
+
+  return {
+    content: toCsv([ESI_HEADER, ...rows]),
+    filename: `esi-contribution-${run.period}.csv`,
+    mimeType: 'text/csv',
+    included,
+    skipped: members.filter((entry) => !included.includes(entry)),
+  };
+}
+
+/**
+ * Professional tax challan of a run: employees and tax per state and slab
+ */
+export function buildProfessionalTaxChallan(run: PayrollRun, settings: StatutorySettings): StatutoryFile {
+  const included = run.entries.filter((entry) => entry.statutory?.professionalTax);
+  const groups = new Map<string, { state: string; slab: string; tax: number; employees: number; wages: number; amount: number }>();
+
+  included.forEach((entry) => {
+    const { stateCode, amount } = entry.statutory!.professionalTax!;
+    const rule = settings.professionalTax.states.find((state) => state.stateCode === stateCode);
+    const slab = rule?.slabs.find(
+      (item) => entry.grossEarnings >= item.minWage && (item.maxWage === undefined || entry.grossEarnings <= item.maxWage)
+    );
+    const slabLabel = slab ? (slab.maxWage === undefined ? `${slab.minWage}+` : `${slab.minWage}-${slab.maxWage}`) : '-';
+    const key = `${stateCode}:${slabLabel}:${amount}`;
+    const group = groups.get(key) || { state: rule?.stateName || stateCode, slab: slabLabel, tax: amount, employees: 0, wages: 0, amount: 0 };
+    group.employees += 1;
+    group.wages += entry.grossEarnings;
+    group.amount += amount;
+    groups.set(key, group);
+  });
+
+  const rows = Array.from(groups.values())
+    .sort((a, b) => a.state.localeCompare(b.state) || a.tax - b.tax)
+    .map((group) => [group.state, group.slab, group.employees, group.tax, group.wages.toFixed(2), group.amount.toFixed(2)]);
+
+  return {
+    content: toCsv([PT_HEADER, ...rows]),
+    filename: `professional-tax-${run.period}.csv`,
+    mimeType: 'text/csv',
+    included,
+    skipped: run.entries.filter((entry) => !included.includes(entry)),
+  };
+}
+
+/**
+ * TDS summary of a run for the section 192 challan and the quarterly 24Q return
+ * PAN is "PANNOTAVBL" for employees without a valid one, as the return expects
+ */
+export function buildTdsChallan(run: PayrollRun, details: StatutoryEmployeeDetails[]): StatutoryFile {
+  const detailsMap = byEmployee(details);
+  const included = run.entries.filter((entry) => entry.statutory?.tds);
+
+  const rows = included.map((entry) => {
+    const tds = entry.statutory!.tds!;
+    const pan = detailsMap.get(entry.employeeId)?.panNumber;
+    return [
+      entry.employeeId,
+      entry.employeeName,
+      tds.panMissing || !pan ? 'PANNOTAVBL' : pan.toUpperCase(),
+      tds.regime,
+      entry.grossEarnings.toFixed(2),
+      tds.taxableIncome.toFixed(2),
+      tds.annualTax.toFixed(2),
+      tds.amount.toFixed(2),
+    ];
+  });
+  const totalTds = included.reduce((sum, entry) => sum + entry.statutory!.tds!.amount, 0);
+  const totalGross = included.reduce((sum, entry) => sum + entry.grossEarnings, 0);
+
+  return {
+    content: toCsv([TDS_HEADER, ...rows, ['', 'Total', '', '', totalGross.toFixed(2), '', '', totalTds.toFixed(2)]]),
+    filename: `tds-192-${run.period}.csv`,
+    mimeType: 'text/csv',
+    included,
+    skipped: run.entries.filter((entry) => !included.includes(entry)),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Statutory Validation
+ * Format checks of statutory identifiers and the data flags raised per employee
+ *
+ * - PAN: 5 letters, 4 digits, 1 letter; the 4th letter is "P" for individuals
+ *   and the 5th is the first letter of the surname
+ * - Aadhaar and UAN: 12 digits
+ * - IFSC: 4 letters, "0", 6 letters or digits
+ * - The bank account holder must match the employee's name (case, spacing and
+ *   initials aside)
+ */
+
+import { PayrollRunEntry } from '../types/payroll.types';
+import {
+  StatutoryEmployeeDetails,
+  StatutoryFlag,
+  StatutoryFlagCode,
+  StatutoryFlagSeverity,
+  StatutorySettings,
+} from '../types/statutory.types';
+
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+const AADHAR_PATTERN = /^[0-9]{12}$/;
+const UAN_PATTERN = /^[0-9]{12}$/;
+const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+const normalize = (value?: string) => (value || '').replace(/\s+/g, '').toUpperCase();
+
+// Name words longer than an initial, lower-cased, for comparing names in any order
+const nameWords = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 1);
+
+export const isValidPan = (pan?: string) => PAN_PATTERN.test(normalize(pan));
+
+export const isValidAadhar = (aadhar?: string) => AADHAR_PATTERN.test(normalize(aadhar));
+
+export const isValidUan = (uan?: string) => UAN_PATTERN.test(normalize(uan));
+
+export const isValidIfsc = (ifsc?: string) => IFSC_PATTERN.test(normalize(ifsc));
+
+/**
+ * True when every word of the shorter name appears in the longer one
+ *
+ * @example
+ * namesMatch('Priya Sharma', 'SHARMA PRIYA'); // true
+ * namesMatch('Priya Sharma', 'Priya S'); // true, initials are ignored
+ * namesMatch('Priya Sharma', 'Rahul Verma'); // false
+ */
+export function namesMatch(a: string, b: string): boolean {
+  const [shorter, longer] = [nameWords(a), nameWords(b)].sort((x, y) => x.length - y.length);
+  if (shorter.length === 0) return true;
+  return shorter.every((word) => longer.includes(word));
+}
+
+/**
+ * Data flags of one employee
+ *
+ * @param details - Statutory identifiers of the employee
+ * @param settings - Statutory settings; UAN and ESI IP are only required when PF / ESI apply
+ * @param entry - Payroll entry of the month, used to tell whether PF / ESI apply
+ */
+export function getStatutoryFlags(
+  details: StatutoryEmployeeDetails,
+  settings: StatutorySettings,
+  entry?: PayrollRunEntry
+): StatutoryFlag[] {
+  const employeeName = `${details.firstName || ''} ${details.lastName || ''}`.trim() || details.employeeId;
+  const flags: StatutoryFlag[] = [];
+  const flag = (code: StatutoryFlagCode, severity: StatutoryFlagSeverity, message: string) =>
+    flags.push({ employeeId: details.employeeId, employeeName, code, severity, message });
+
+  const pan = normalize(details.panNumber);
+  if (!pan) {
+    flag('PAN_MISSING', 'error', 'No PAN on file; TDS is deducted at a minimum of 20%');
+  } else if (!isValidPan(pan)) {
+    flag('PAN_INVALID', 'error', `"${details.panNumber}" is not a valid PAN`);
+  } else if (pan[3] !== 'P') {
+    flag('PAN_INVALID', 'error', `PAN ${pan} does not belong to an individual`);
+  } else if (details.lastName && !details.lastName.toUpperCase().startsWith(pan[4])) {
+    flag('PAN_NAME_MISMATCH', 'warning', `PAN ${pan} does not match the surname "${details.lastName}"`);
+  }
+
+  if (details.aadharNumber && !isValidAadhar(details.aadharNumber)) {
+    flag('AADHAR_INVALID', 'warning', 'Aadhaar number is not 12 digits');
+  }
+
+  const pfApplies = entry ? !!entry.statutory?.pf : settings.pf.enabled;
+  if (pfApplies) {
+    if (!details.uan) {
+      flag('UAN_MISSING', 'error', 'No UAN; the employee is left out of the ECR file');
+    } else if (!isValidUan(details.uan)) {
+      flag('UAN_INVALID', 'error', 'UAN is not 12 digits');
+    }
+  }
+
+  if (entry?.statutory?.esi && !details.esiIpNumber) {
+    flag('ESI_IP_MISSING', 'error', 'ESI applies but there is no IP number; the employee is left out of the ESI file');
+  }
+
+  if (details.bankAccount) {
+    if (!isValidIfsc(details.bankAccount.ifscCode)) {
+      flag('IFSC_INVALID', 'error', `"${details.bankAccount.ifscCode}" is not a valid IFSC`);
+    }
+    if (details.bankAccount.accountHolderName && !namesMatch(employeeName, details.bankAccount.accountHolderName)) {
+      flag(
+        'BANK_NAME_MISMATCH',
+        'warning',
+        `Account holder "${details.bankAccount.accountHolderName}" does not match the employee name`
+      );
+    }
+  }
+
+  if (
+    settings.professionalTax.enabled &&
+    details.workLocationId &&
+    !settings.professionalTax.workLocationStates[details.workLocationId]
+  ) {
+    flag('PT_STATE_UNMAPPED', 'warning', 'The work location has no professional tax state; no PT is deducted');
+  }
+
+  return flags;
+}
+
+/**
+ * Count of flags per code, for the summary badges
+ */
+export function countFlagsByCode(flags: StatutoryFlag[]): Partial<Record<StatutoryFlagCode, number>> {
+  return flags.reduce<Partial<Record<StatutoryFlagCode, number>>>((counts, item) => {
+    counts[item.code] = (counts[item.code] || 0) + 1;
+    return counts;
+  }, {});
+}
@@ -1,11 +1,159 @@
-import { DummyPage } from '@/components/common/DummyPage';
+/**
+ * My Payslips Page
+ * Employees browse their payslips by month, with year-to-date totals,
+ * print / save them as PDF and view the Form-16 style annual summary
+ */
+
+import { useEffect, useState } from 'react';
+import { format, parse } from 'date-fns';
+import { FileText, Printer, Receipt } from 'lucide-react';
+import { PageLayout } from '@/components/PageLayout';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useCompany } from '@/contexts/CompanyContext';
+import { usePayroll } from '@/contexts/PayrollContext';
+import { printHtmlDocument } from '@/lib/print';
+import { Payslip } from '@/modules/payroll/types/payroll.types';
+import { payrollRunStatusLabels } from '@/modules/payroll/constants';
+import { buildAnnualTaxSummary, computeYearToDate, getFinancialYear } from '@/modules/payroll/utils/payslipSummary';
+import { buildAnnualTaxSummaryHtml, buildPayslipHtml } from '@/modules/payroll/utils/payslipDocument';
+import { PayslipView } from './my-payslips/components/PayslipView';
+import { AnnualTaxSummaryView } from './my-payslips/components/AnnualTaxSummaryView';
+
+// Current and the previous financial years are offered
+const FINANCIAL_YEARS_SHOWN = 4;
+
+const monthLabel = (period: string) => format(parse(period, 'yyyy-MM', new Date()), 'MMMM yyyy');
 
 export function MyPayslips() {
+  const { getMyPayslips, isLoading } = usePayroll();
+  const { companyMap } = useCompany();
+
+  const currentYear = getFinancialYear(format(new Date(), 'yyyy-MM')).startYear;
+  const [financialYear, setFinancialYear] = useState(currentYear);
+  const [payslips, setPayslips] = useState<Payslip[]>([]);
+  const [period, setPeriod] = useState('');
+  const [activeTab, setActiveTab] = useState('payslip');
+
+  const fetchPayslips = async () => {
+    const result = await getMyPayslips(financialYear);
+    const sorted = [...(result || [])].sort((a, b) => b.period.localeCompare(a.period));
+    setPayslips(sorted);
+    setPeriod(sorted[0]?.period || '');
+  };
+  useEffect(() => {
+    fetchPayslips();
+  }, [financialYear]);
+
+  const payslip = payslips.find((item) => item.period === period) || null;
+  const ytd = payslip ? computeYearToDate(payslips, payslip.period) : null;
+  const taxSummary = buildAnnualTaxSummary(payslips, financialYear);
+
+  const handlePrintPayslip = () => {
+    if (!payslip || !ytd) return;
+    printHtmlDocument(buildPayslipHtml(payslip, companyMap[payslip.companyId], ytd));
+  };
+
+  const handlePrintTaxSummary = () => {
+    if (!taxSummary || payslips.length === 0) return;
+    printHtmlDocument(buildAnnualTaxSummaryHtml(taxSummary, companyMap[payslips[0].companyId]));
+  };
+
+  const financialYears = Array.from({ length: FINANCIAL_YEARS_SHOWN }, (_, index) => currentYear - index);
+
   return (
-    <DummyPage
-      title="My Payslips & Tax Proofs"
-      description="Download payslips, view salary details, and access tax computation documents."
-      category="Employee & Manager Self Service"
-    />
+    <PageLayout>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+              <Receipt className="h-8 w-8" />
+              My Payslips
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Monthly payslips with year-to-date totals and your annual salary and tax summary
+            </p>
+          </div>
+          <Select value={String(financialYear)} onValueChange={(value) => setFinancialYear(Number(value))}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {financialYears.map((year) => (
+                <SelectItem key={year} value={String(year)}>
+                  FY {getFinancialYear(`${year}-04`).label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading && payslips.length === 0 ? (
+          <Skeleton className="h-64 w-full" />
+        ) : payslips.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <FileText className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              No payslips for FY {getFinancialYear(`${financialYear}-04`).label} yet
+            </CardContent>
+          </Card>
+        ) : (
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <TabsList>
+                <TabsTrigger value="payslip">Payslip</TabsTrigger>
+                <TabsTrigger value="tax">Annual Tax Summary</TabsTrigger>
+              </TabsList>
+              {activeTab === 'payslip' ? (
+                <div className="flex items-center gap-2">
+                  <Select value={period} onValueChange={setPeriod}>
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue placeholder="Select month" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {payslips.map((item) => (
+                        <SelectItem key={item.period} value={item.period}>
+                          {monthLabel(item.period)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={handlePrintPayslip} disabled={!payslip} className="gap-2">
+                    <Printer className="h-4 w-4" />
+                    Print / PDF
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" onClick={handlePrintTaxSummary} disabled={!taxSummary} className="gap-2">
+                  <Printer className="h-4 w-4" />
+                  Print / PDF
+                </Button>
+              )}
+            </div>
+
+            <TabsContent value="payslip" className="mt-4 space-y-4">
+              {payslip && ytd && (
+                <>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    {monthLabel(payslip.period)} · {companyMap[payslip.companyId]?.name || payslip.companyId}
+                    <Badge variant="outline">{payrollRunStatusLabels[payslip.runStatus]}</Badge>
+                    {payslip.paidAt && <span>· paid {format(new Date(payslip.paidAt), 'MMM dd, yyyy')}</span>}
+                  </div>
+                  <PayslipView payslip={payslip} ytd={ytd} />
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="tax" className="mt-4">
+              {taxSummary && <AnnualTaxSummaryView summary={taxSummary} />}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+    </PageLayout>
   );
 }
@@ -0,0 +1,90 @@
+/**
+ * Annual Tax Summary View Component
+ * Form-16 style salary summary of a financial year, aggregated from payslips
+ */
+
+import React from 'react';
+import { format, parse } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AnnualTaxSummary } from '@/modules/payroll/types/payroll.types';
+import { formatPayrollAmount } from '@/modules/payroll/utils/payrollEngine';
+
+interface AnnualTaxSummaryViewProps {
+  summary: AnnualTaxSummary;
+}
+
+const AmountRow = ({ label, amount, strong = false }: { label: string; amount: number; strong?: boolean }) => (
+  <TableRow className={strong ? 'font-medium' : ''}>
+    <TableCell>{label}</TableCell>
+    <TableCell className="text-right">{formatPayrollAmount(amount)}</TableCell>
+  </TableRow>
+);
+
+export const AnnualTaxSummaryView: React.FC<AnnualTaxSummaryViewProps> = ({ summary }) => {
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Salary and Tax, FY {summary.financialYear}</CardTitle>
+          <CardDescription>
+            AY {summary.assessmentYear} · PAN {summary.panNumber || 'not available'} · new tax regime
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableBody>
+              {summary.salaryComponents.map((line) => (
+                <AmountRow key={line.code} label={line.name} amount={line.amount} />
+              ))}
+              <AmountRow label="Gross Salary" amount={summary.grossSalary} strong />
+              <AmountRow label="Less: Standard deduction u/s 16(ia)" amount={summary.standardDeduction} />
+              <AmountRow label='Income chargeable under "Salaries"' amount={summary.incomeChargeable} strong />
+              <AmountRow label="Professional tax paid" amount={summary.professionalTax} />
+              <AmountRow label="Employee PF contribution" amount={summary.providentFund} />
+              <AmountRow label="Tax deducted at source" amount={summary.taxDeducted} strong />
+            </TableBody>
+          </Table>
+          <p className="mt-3 text-xs text-muted-foreground">
+            Reimbursements of {formatPayrollAmount(summary.reimbursements)} are not part of salary income. Figures are
+            aggregated from your payslips and do not replace the Form 16 issued by the employer.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Month-wise</CardTitle>
+          <CardDescription>{summary.months.length} payslip(s) in the year</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Month</TableHead>
+                <TableHead className="text-right">Gross</TableHead>
+                <TableHead className="text-right">Tax Deducted</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.months.map((month) => (
+                <TableRow key={month.period}>
+                  <TableCell>{format(parse(month.period, 'yyyy-MM', new Date()), 'MMM yyyy')}</TableCell>
+                  <TableCell className="text-right">{formatPayrollAmount(month.grossEarnings)}</TableCell>
+                  <TableCell className="text-right">{formatPayrollAmount(month.taxDeducted)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+/**
+ * Payslip View Component
+ * Earnings, deductions, LOP and reimbursements of one payslip with year-to-date amounts
+ */
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Payslip, PayslipLine, PayslipYearToDate } from '@/modules/payroll/types/payroll.types';
+import { formatPayrollAmount } from '@/modules/payroll/utils/payrollEngine';
+
+interface PayslipViewProps {
+  payslip: Payslip;
+  ytd: PayslipYearToDate;
+}
+
+export const PayslipView: React.FC<PayslipViewProps> = ({ payslip, ytd }) => {
+  const ytdAmount = (line: PayslipLine) =>
+    ytd.components.find((item) => item.type === line.type && item.code === line.code)?.amount;
+
+  const summary = [
+    { label: 'Gross Earnings', value: formatPayrollAmount(payslip.grossEarnings), ytd: formatPayrollAmount(ytd.grossEarnings) },
+    { label: 'Deductions', value: formatPayrollAmount(payslip.totalDeductions), ytd: formatPayrollAmount(ytd.totalDeductions) },
+    { label: 'Net Pay', value: formatPayrollAmount(payslip.netPay), ytd: formatPayrollAmount(ytd.netPay) },
+    { label: 'Paid Days', value: `${payslip.paidDays} / ${payslip.periodDays}`, ytd: `${ytd.lopDays} LOP days` },
+  ];
+
+  const renderSection = (title: string, type: PayslipLine['type'], total: number, ytdTotal?: number) => {
+    const lines = payslip.lines.filter((line) => line.type === type);
+    if (lines.length === 0) return null;
+    return (
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Component</TableHead>
+                <TableHead className="text-right">This Month</TableHead>
+                {ytdTotal !== undefined && <TableHead className="text-right">Year to Date</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => {
+                const lineYtd = ytdAmount(line);
+                return (
+                  <TableRow key={line.code}>
+                    <TableCell>{line.name}</TableCell>
+                    <TableCell className="text-right">{formatPayrollAmount(line.amount)}</TableCell>
+                    {ytdTotal !== undefined && (
+                      <TableCell className="text-right text-muted-foreground">
+                        {lineYtd !== undefined ? formatPayrollAmount(lineYtd) : '-'}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+              <TableRow className="font-medium">
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{formatPayrollAmount(total)}</TableCell>
+                {ytdTotal !== undefined && (
+                  <TableCell className="text-right">{formatPayrollAmount(ytdTotal)}</TableCell>
+                )}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        {summary.map((item) => (
+          <Card key={item.label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">{item.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-xl font-bold">{item.value}</div>
+              <p className="text-xs text-muted-foreground">YTD {item.ytd}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {payslip.lopDeduction > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {payslip.lopDays} loss-of-pay day(s) reduced this month's earnings by {formatPayrollAmount(payslip.lopDeduction)}.
+        </p>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {renderSection('Earnings', 'EARNING', payslip.grossEarnings, ytd.grossEarnings)}
+        {renderSection('Deductions', 'DEDUCTION', payslip.totalDeductions, ytd.totalDeductions)}
+      </div>
+
+      {renderSection('Reimbursements', 'REIMBURSEMENT', payslip.totalReimbursements)}
+    </div>
+  );
+};
@@ -1,18 +1,21 @@
 /**
  * Space Setup Component
- * Handles space creation and connection for visitor management
+ * Handles space creation and connection for visitor management, and the
+ * floor plans that meeting rooms are positioned on
  */
 
 import { useState } from 'react';
-import { Building2, Plus, Link2, Clock, AlertCircle } from 'lucide-react';
+import { Building2, Plus, Link2, Clock, AlertCircle, Map as MapIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { SpaceCreationForm } from './components/SpaceCreationForm';
 import { SpaceConnectionForm } from './components/SpaceConnectionForm';
+import { FloorPlanEditor } from './components/FloorPlanEditor';
+import { RoomBookingProvider } from '@/contexts/RoomBookingContext';
 import { PageLayout } from '@/components/PageLayout';
 
-type SetupMode = 'select' | 'create' | 'connect';
+type SetupMode = 'select' | 'create' | 'connect' | 'floor-plans';
 
 interface SpaceSetupProps {
   onComplete: () => void;
@@ -66,6 +69,14 @@ export function SpaceSetup({ onComplete, isPending = false }: SpaceSetupProps) {
     return <SpaceConnectionForm onSuccess={onComplete} onBack={() => setMode('select')} />;
   }
 
+  if (mode === 'floor-plans') {
+    return (
+      <RoomBookingProvider>
+        <FloorPlanEditor onBack={() => setMode('select')} />
+      </RoomBookingProvider>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-muted/30 p-4">
       <div className="max-w-4xl w-full space-y-6">
@@ -154,6 +165,27 @@ export function SpaceSetup({ onComplete, isPending = false }: SpaceSetupProps) {
           </Card>
         </div>
 
+        {/* Floor Plans */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="h-10 w-10 rounded-lg bg-green-500/10 flex items-center justify-center flex-shrink-0">
+                <MapIcon className="h-5 w-5 text-green-600" />
+              </div>
+              <div className="flex-1 space-y-1">
+                <h3 className="font-medium">Floor Plans</h3>
+                <p className="text-sm text-muted-foreground">
+                  Already have a space? Upload a plan for each floor and position meeting rooms on it
+                  so employees can find and book them from the map.
+                </p>
+              </div>
+              <Button variant="outline" onClick={() => setMode('floor-plans')}>
+                Edit Floor Plans
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Info Section */}
         <Card className="bg-muted/50">
           <CardContent className="pt-6">
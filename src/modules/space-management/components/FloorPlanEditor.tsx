@@ -0,0 +1,346 @@
+/**
+ * Floor Plan Editor Component
+ * Upload a floor plan image per space and floor, then position the floor's
+ * meeting rooms on it as pins or outlined polygons
+ */
+
+import { ChangeEvent, useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, CheckCircle2, Loader2, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PageLayout } from '@/components/PageLayout';
+import { useToast } from '@/hooks/use-toast';
+import { useSpace } from '@/contexts/SpaceContext';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { FloorPlanCanvas } from '@/modules/visitor-room/components/FloorPlanCanvas';
+import { sortFloors } from '@/modules/visitor-room/utils/floorPlan';
+import { FloorPlan, FloorPlanPoint, RoomPlacement, RoomPlacementShape, Space } from '../spaceTypes';
+
+// Rooms already on the plan, and the room being placed
+const PLACED_FILL = '#2563eb';
+const SELECTED_FILL = '#f97316';
+
+// Natural size of the selected image, read locally before it is uploaded
+const readImageSize = (file: File): Promise<{ width: number; height: number }> =>
+  new Promise((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('Could not read the image'));
+    };
+    image.src = objectUrl;
+  });
+
+interface FloorPlanEditorProps {
+  onBack: () => void;
+}
+
+export function FloorPlanEditor({ onBack }: FloorPlanEditorProps) {
+  const { toast } = useToast();
+  const { refreshSpaces, uploadFloorPlanImage, saveFloorPlan, deleteFloorPlan } = useSpace();
+  const { rooms, refreshRooms } = useRoomBooking();
+
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [spaceId, setSpaceId] = useState('');
+  const [floor, setFloor] = useState('');
+  const [plan, setPlan] = useState<FloorPlan | null>(null);
+  const [roomId, setRoomId] = useState('');
+  const [shape, setShape] = useState<RoomPlacementShape>('pin');
+  const [draftPoints, setDraftPoints] = useState<FloorPlanPoint[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    refreshSpaces({ sort: { spaceName: 1 } }, 0, 100).then((result) => {
+      const content = result?.content || [];
+      setSpaces(content);
+      if (content.length > 0) setSpaceId(content[0].id);
+    });
+    refreshRooms({ sort: { name: 1 } }, 0, 200);
+  }, []);
+
+  const space = spaces.find((s) => s.id === spaceId);
+
+  // Floors with rooms or with a plan already uploaded
+  const floors = useMemo(
+    () => sortFloors([...rooms.map((room) => room.floor), ...(space?.floorPlans || []).map((p) => p.floor)]),
+    [rooms, space]
+  );
+  const floorRooms = rooms.filter((room) => room.floor === floor);
+
+  // Start from the saved plan whenever the space or floor changes
+  useEffect(() => {
+    setPlan(space?.floorPlans?.find((p) => p.floor === floor) || null);
+    setRoomId('');
+    setDraftPoints([]);
+  }, [space, floor]);
+
+  const isPlaced = (id: string) => !!plan?.placements.some((placement) => placement.roomId === id);
+
+  const setPlacement = (placement: RoomPlacement) => {
+    if (!plan) return;
+    setPlan({
+      ...plan,
+      placements: [...plan.placements.filter((p) => p.roomId !== placement.roomId), placement],
+    });
+  };
+
+  const handleImageUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !space) return;
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Invalid file', description: 'Please select an image file', variant: 'destructive' });
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast({ title: 'File too large', description: 'File size must be less than 5MB', variant: 'destructive' });
+      return;
+    }
+
+    let size: { width: number; height: number };
+    try {
+      size = await readImageSize(file);
+    } catch {
+      toast({ title: 'Upload failed', description: 'Could not read the image', variant: 'destructive' });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const uploaded = await uploadFloorPlanImage(space, file);
+      if (!uploaded) return;
+      // A replaced image keeps the rooms where they were placed
+      setPlan({
+        floor,
+        placements: plan?.placements || [],
+        updatedAt: new Date().toISOString(),
+        imageUrl: uploaded.imageUrl,
+        ...size,
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handlePlanClick = (point: FloorPlanPoint) => {
+    if (!roomId) return;
+    if (shape === 'pin') {
+      setPlacement({ roomId, shape: 'pin', points: [point] });
+    } else {
+      setDraftPoints((prev) => [...prev, point]);
+    }
+  };
+
+  const handleFinishOutline = () => {
+    setPlacement({ roomId, shape: 'polygon', points: draftPoints });
+    setDraftPoints([]);
+  };
+
+  const handleRemovePlacement = () => {
+    if (!plan) return;
+    setPlan({ ...plan, placements: plan.placements.filter((p) => p.roomId !== roomId) });
+    setDraftPoints([]);
+  };
+
+  const handleSave = async () => {
+    if (!space || !plan) return;
+    setIsSaving(true);
+    try {
+      const updated = await saveFloorPlan(space, plan);
+      if (updated) setSpaces((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!space) return;
+    const updated = await deleteFloorPlan(space, floor);
+    if (updated) setSpaces((prev) => prev.map((s) => (s.id === updated.id ? updated : s)));
+  };
+
+  return (
+    <PageLayout>
+      <div className="container max-w-6xl mx-auto p-4">
+        <div className="space-y-6 pb-32">
+          {/* Header */}
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={onBack}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Floor Plans</h1>
+              <p className="text-muted-foreground mt-1">Upload a plan for each floor and position its meeting rooms</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Space</Label>
+              <Select value={spaceId} onValueChange={setSpaceId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a space" />
+                </SelectTrigger>
+                <SelectContent>
+                  {spaces.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.spaceName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Floor</Label>
+              <Select value={floor} onValueChange={setFloor} disabled={!space}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a floor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {floors.map((f) => (
+                    <SelectItem key={f} value={f}>
+                      Floor {f}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="floor-plan-image">Plan Image</Label>
+              <Input
+                id="floor-plan-image"
+                type="file"
+                accept="image/*"
+                disabled={!space || !floor || isUploading}
+                onChange={handleImageUpload}
+              />
+            </div>
+          </div>
+
+          {plan ? (
+            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+              {/* Room Placement */}
+              <Card className="lg:col-span-1">
+                <CardHeader>
+                  <CardTitle className="text-base">Rooms on Floor {floor}</CardTitle>
+                  <CardDescription>Pick a room, then click the plan to place it</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-1">
+                    {floorRooms.map((room) => (
+                      <button
+                        key={room.id}
+                        type="button"
+                        onClick={() => {
+                          setRoomId(room.id);
+                          setDraftPoints([]);
+                        }}
+                        className={`w-full flex items-center justify-between rounded-md px-2 py-1.5 text-sm text-left hover:bg-muted ${
+                          room.id === roomId ? 'bg-muted font-medium' : ''
+                        }`}
+                      >
+                        {room.name}
+                        {isPlaced(room.id) && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                      </button>
+                    ))}
+                    {floorRooms.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No rooms are on this floor</p>
+                    )}
+                  </div>
+
+                  {roomId && (
+                    <div className="space-y-3 border-t pt-4">
+                      <div className="space-y-2">
+                        <Label>Draw As</Label>
+                        <Select
+                          value={shape}
+                          onValueChange={(value) => {
+                            setShape(value as RoomPlacementShape);
+                            setDraftPoints([]);
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="pin">Pin</SelectItem>
+                            <SelectItem value="polygon">Outline</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {shape === 'polygon' && (
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={handleFinishOutline} disabled={draftPoints.length < 3}>
+                            Finish Outline
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setDraftPoints([])}>
+                            Clear
+                          </Button>
+                        </div>
+                      )}
+                      {isPlaced(roomId) && (
+                        <Button size="sm" variant="outline" className="w-full" onClick={handleRemovePlacement}>
+                          Remove from Plan
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Plan */}
+              <div className="lg:col-span-3 space-y-4">
+                <FloorPlanCanvas
+                  plan={plan}
+                  rooms={rooms}
+                  getFill={(room) => (room.id === roomId ? SELECTED_FILL : PLACED_FILL)}
+                  selectedRoomId={roomId}
+                  draft={shape === 'polygon' ? { roomId, shape, points: draftPoints } : null}
+                  onRoomClick={(room) => {
+                    setRoomId(room.id);
+                    setDraftPoints([]);
+                  }}
+                  onPlanClick={handlePlanClick}
+                />
+                <div className="flex justify-end gap-2">
+                  {space?.floorPlans?.some((p) => p.floor === floor) && (
+                    <Button variant="outline" onClick={handleDelete} disabled={isSaving}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete Plan
+                    </Button>
+                  )}
+                  <Button onClick={handleSave} disabled={isSaving || isUploading}>
+                    {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Save Floor Plan
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="text-center py-12 rounded-md border border-dashed">
+              <Upload className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                {space && floor ? `Upload a plan image for floor ${floor}` : 'Select a space and a floor to get started'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </PageLayout>
+  );
+}
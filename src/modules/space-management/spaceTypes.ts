@@ -17,10 +17,50 @@ export interface Space {
   description?: string; // Optional description
   ownerId: string; // ID of the company that owns this space
   ownerCompany: string; // Name of the owner company
+  floorPlans?: FloorPlan[]; // At most one per floor
   createdAt: string; // ISO timestamp
   updatedAt: string; // ISO timestamp
 }
 
+// ============================================================================
+// Floor Plans
+// ============================================================================
+
+/**
+ * Point on a floor plan, as a fraction (0-1) of the image width and height
+ * so placements survive the image being shown at any size
+ */
+export interface FloorPlanPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * How a room is drawn on the plan: a pin at one point or an outline
+ */
+export type RoomPlacementShape = "pin" | "polygon";
+
+/**
+ * Position of a meeting room on a floor plan
+ */
+export interface RoomPlacement {
+  roomId: string;
+  shape: RoomPlacementShape;
+  points: FloorPlanPoint[]; // One point for a pin, three or more for a polygon
+}
+
+/**
+ * Uploaded floor plan image of one floor of a space, with the rooms on it
+ */
+export interface FloorPlan {
+  floor: string; // Matches Room.floor
+  imageUrl: string; // URL returned by the floor plan image upload
+  width: number; // Natural image size in px, for the aspect ratio
+  height: number;
+  placements: RoomPlacement[];
+  updatedAt: string; // ISO timestamp
+}
+
 // ============================================================================
 // Member Reference
 // ============================================================================
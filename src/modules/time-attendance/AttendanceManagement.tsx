@@ -1,24 +1,35 @@
 /**
  * Attendance Management Screen
  * Main component orchestrating all attendance features
- * Includes attendance records, regularisation requests, and analytics
+ * Includes web check-in, attendance records, regularisation requests, punch
+ * exceptions, team attendance anomalies, geofences and analytics
  */
 
 import { useState, useEffect } from 'react';
 import { subDays, format } from 'date-fns';
-import { Card } from '@/components/ui/card';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsList, TabsContent } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
+import { useAttendancePunch } from '@/contexts/AttendancePunchContext';
+import { useUserManagement } from '@/contexts/UserManagementContext';
+import { WorkLocation } from '@/modules/user-management/types/settings.types';
 
 // Types
-import { AttendanceRole, RegularisationStatus } from '@/types/attendance';
+import { AttendanceRole, RegularisationStatus, ShiftSettings } from '@/types/attendance';
 import { MOCK_USERS } from '@/services/attendanceService';
+import { AttendancePunch, WorkLocationGeofence } from './types/punch.types';
+import { DEFAULT_ANOMALY_THRESHOLDS } from './constants';
 
 // Components
 import { ProfileToggle } from './components/ProfileToggle';
 import { AttendanceRecordsTable } from './components/AttendanceRecordsTable';
 import { RegularisationRequests } from './components/RegularisationRequests';
 import { AttendanceChart } from './components/AttendanceChart';
+import { PunchWidget } from './components/PunchWidget';
+import { PunchExceptionsTable } from './components/PunchExceptionsTable';
+import { GeofenceSettingsTable } from './components/GeofenceSettingsTable';
+import { AttendanceAnomaliesTable } from './components/AttendanceAnomaliesTable';
+import { AnomalyThresholdsForm } from './components/AnomalyThresholdsForm';
 
 // Hooks
 import {
@@ -29,7 +40,19 @@ import {
   useUpdateExtraHourRequest,
   useCancelExtraHourRequest,
   useAttendanceAnalytics,
+  useUpdateShiftSettings,
 } from '@/hooks/useAttendanceData';
+import { ActingForBanner, useActingDelegations } from '@/modules/delegation';
+import { useRosteredShifts } from './hooks/useRosteredShifts';
+import { useAttendancePunches } from './hooks/useAttendancePunches';
+import { useTeamAnomalies } from './hooks/useTeamAnomalies';
+import { useAnomalyDigest } from './hooks/useAnomalyDigest';
+
+// Work locations of a tenant fit in one page
+const MAX_WORK_LOCATIONS = 100;
+
+// Most recent punch exceptions shown to the approver
+const MAX_PUNCH_EXCEPTIONS = 50;
 
 export function AttendanceManagement() {
   // ============================================================================
@@ -58,8 +81,17 @@ export function AttendanceManagement() {
   const [regularisationStatusFilter, setRegularisationStatusFilter] =
     useState<RegularisationStatus | 'all'>('all');
 
+  // Work locations and their geofences, for punch labels and geofence settings
+  const [workLocations, setWorkLocations] = useState<WorkLocation[]>([]);
+  const [geofences, setGeofences] = useState<WorkLocationGeofence[]>([]);
+
+  // Outside-geofence punches awaiting the reporting manager
+  const [punchExceptions, setPunchExceptions] = useState<AttendancePunch[]>([]);
+
   // Toast notifications
   const { toast } = useToast();
+  const { getGeofences, searchPunches, approveRejectPunch, isLoading: punchLoading } = useAttendancePunch();
+  const { refreshWorkLocations } = useUserManagement();
 
   // ============================================================================
   // DATA FETCHING HOOKS
@@ -73,6 +105,12 @@ export function AttendanceManagement() {
     endDate
   );
 
+  // Shifts the employee is rostered on, to judge lateness and expected hours
+  const rosteredShifts = useRosteredShifts(currentUser.employeeId, startDate, endDate);
+
+  // Web punches shown next to the door-device records
+  const webPunches = useAttendancePunches(currentUser.email, startDate, endDate);
+
   // Fetch extra hours requests (My Requests for current user)
   const myRequestsData = useExtraHoursRequests(
     currentUser.email,
@@ -89,9 +127,79 @@ export function AttendanceManagement() {
     5
   );
 
+  // Managers who delegated their attendance approvals to the current user
+  const {
+    delegations: attendanceDelegations,
+    actingFor,
+    actingForId,
+    setActingForId,
+    recordAction,
+  } = useActingDelegations('attendance');
+
+  // Fetch the selected delegating manager's team requests
+  const delegatedRequestsData = useExtraHoursRequests(
+    '',
+    actingFor?.delegatorEmail || '',
+    0,
+    5
+  );
+
   // Fetch shift settings
   const shiftSettings = useShiftSettings('regular');
 
+  // Attendance anomalies of the manager's team (or the delegating manager's)
+  const teamManagerEmail =
+    currentRole === 'REPORTING_MANAGER' ? actingFor?.delegatorEmail || currentUser.email : '';
+  const teamAnomalies = useTeamAnomalies(
+    teamManagerEmail,
+    shiftSettings.data?.anomalyThresholds || DEFAULT_ANOMALY_THRESHOLDS,
+    actingFor?.delegatorEmail
+  );
+
+  // Weekly digest for the manager's own team, while monitoring is enabled
+  useAnomalyDigest(
+    teamManagerEmail,
+    teamAnomalies.ranked,
+    teamAnomalies.fromDate,
+    teamAnomalies.toDate,
+    !actingFor && !!shiftSettings.data?.enableMonitoring && !teamAnomalies.loading
+  );
+
+  const fetchGeofenceSetup = async () => {
+    const [locationResult, geofenceResult] = await Promise.all([
+      refreshWorkLocations({}, 0, MAX_WORK_LOCATIONS),
+      getGeofences(),
+    ]);
+    setWorkLocations(locationResult?.content || []);
+    setGeofences(geofenceResult || []);
+  };
+  useEffect(() => {
+    fetchGeofenceSetup();
+  }, []);
+
+  const fetchPunchExceptions = async () => {
+    if (currentRole !== 'REPORTING_MANAGER') return;
+    const result = await searchPunches(
+      {
+        filters: {
+          and: {
+            reportingTo: actingFor?.delegatorEmail || currentUser.email,
+            status: ['pending', 'approved', 'rejected'],
+          },
+        },
+        sort: { punchedAt: -1 },
+      },
+      0,
+      MAX_PUNCH_EXCEPTIONS
+    );
+    setPunchExceptions(result?.content || []);
+  };
+  useEffect(() => {
+    fetchPunchExceptions();
+  }, [currentRole, currentUser.email, actingForId]);
+
+  const locationNames = Object.fromEntries(workLocations.map((location) => [location.id, location.location]));
+
   // Calculate analytics
   const analytics = useAttendanceAnalytics(
     attendanceData.data?.attendanceDetails || null,
@@ -107,6 +215,7 @@ export function AttendanceManagement() {
     useCreateExtraHourRequest();
   const { update: updateRequest } = useUpdateExtraHourRequest();
   const { cancel: cancelRequest } = useCancelExtraHourRequest();
+  const { update: updateSettings, loading: updateSettingsLoading } = useUpdateShiftSettings();
 
   // ============================================================================
   // EVENT HANDLERS
@@ -192,6 +301,47 @@ export function AttendanceManagement() {
     }
   };
 
+  // Handle approving/rejecting a request on a delegated queue
+  const handleDelegatedAction = async (id: string, action: 'approve' | 'reject') => {
+    const updated = await updateRequest(id, action === 'approve' ? 'approved' : 'rejected');
+    if (updated) {
+      await recordAction('regularisation', id, action);
+      toast({
+        title: action === 'approve' ? 'Request Approved' : 'Request Rejected',
+        description: `The extra hours request has been ${action === 'approve' ? 'approved' : 'rejected'} on behalf of ${actingFor?.delegatorName || actingFor?.delegatorEmail}`,
+        variant: action === 'approve' ? 'default' : 'destructive',
+      });
+      delegatedRequestsData.refetch();
+    }
+  };
+
+  // Handle approving/rejecting an outside-geofence punch (own or delegated queue)
+  const handleDecidePunch = async (punch: AttendancePunch, action: 'approve' | 'reject') => {
+    const updated = await approveRejectPunch(punch.id, action, actingFor?.delegatorEmail);
+    if (updated) {
+      await recordAction('punch', punch.id, action);
+      fetchPunchExceptions();
+    }
+  };
+
+  // Handle saving the anomaly thresholds with the shift settings
+  const handleSaveThresholds = async (changes: Pick<ShiftSettings, 'anomalyThresholds' | 'enableMonitoring'>) => {
+    const saved = await updateSettings(changes);
+    if (saved) {
+      toast({
+        title: 'Thresholds Saved',
+        description: saved.enableMonitoring
+          ? 'Managers receive a weekly digest of their team\'s anomalies'
+          : 'Anomalies are listed here without a weekly digest',
+      });
+      shiftSettings.refetch();
+    }
+  };
+
+  // Handle a saved geofence
+  const handleGeofenceSaved = (saved: WorkLocationGeofence) =>
+    setGeofences((prev) => [...prev.filter((item) => item.workLocationId !== saved.workLocationId), saved]);
+
   // ============================================================================
   // RENDER
   // ============================================================================
@@ -221,6 +371,13 @@ export function AttendanceManagement() {
 
           {/* Content Tab */}
           <div className="space-y-6">
+            {/* Web Check-in */}
+            <PunchWidget
+              officialEmail={currentUser.email}
+              onPunched={() => webPunches.refetch()}
+              className="max-w-md"
+            />
+
             {/* Records Section */}
             <div>
               <AttendanceRecordsTable
@@ -229,6 +386,9 @@ export function AttendanceManagement() {
                 onDateRangeChange={handleDateRangeChange}
                 startDate={startDate}
                 endDate={endDate}
+                rosteredShifts={rosteredShifts.shiftsByDate}
+                punches={webPunches.punches}
+                locationNames={locationNames}
               />
             </div>
 
@@ -270,9 +430,84 @@ export function AttendanceManagement() {
                 onApproveRequest={handleApproveRequest}
                 onRejectRequest={handleRejectRequest}
                 addRequestLoading={createRequestLoading}
+                delegations={attendanceDelegations}
+                actingForId={actingForId}
+                onActingForChange={setActingForId}
+                delegatedData={delegatedRequestsData.data}
+                onDelegatedAction={handleDelegatedAction}
               />
             </div>
 
+            {/* Punch Exceptions, Anomalies & Geofences (Reporting Manager only) */}
+            {currentRole === 'REPORTING_MANAGER' && (
+              <div className="space-y-4">
+                <div>
+                  <h2 className="text-xl font-bold">Punch Exceptions</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Web check-ins and check-outs made outside every work location geofence
+                  </p>
+                </div>
+                <ActingForBanner
+                  delegations={attendanceDelegations}
+                  actingForId={actingForId}
+                  onActingForChange={setActingForId}
+                  ownQueueLabel="My team's punches"
+                />
+                <Card>
+                  <CardContent className="pt-6">
+                    <PunchExceptionsTable
+                      punches={punchExceptions}
+                      locationNames={locationNames}
+                      loading={punchLoading}
+                      onDecide={handleDecidePunch}
+                    />
+                  </CardContent>
+                </Card>
+
+                <div>
+                  <h2 className="text-xl font-bold">Attendance Anomalies</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Chronic late check-ins, missing check-outs, short-hour streaks and punches on approved leave
+                    between {teamAnomalies.fromDate} and {teamAnomalies.toDate}
+                  </p>
+                </div>
+                <Card>
+                  <CardContent className="pt-6">
+                    <AttendanceAnomaliesTable ranked={teamAnomalies.ranked} loading={teamAnomalies.loading} />
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Anomaly Thresholds</CardTitle>
+                    <CardDescription>Saved with the attendance shift settings and applied to every team</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <AnomalyThresholdsForm
+                      settings={shiftSettings.data}
+                      isSaving={updateSettingsLoading}
+                      onSave={handleSaveThresholds}
+                    />
+                  </CardContent>
+                </Card>
+
+                <div>
+                  <h2 className="text-xl font-bold">Geofences</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Web punches within the radius of an enabled work location are accepted without approval
+                  </p>
+                </div>
+                <Card>
+                  <CardContent className="pt-6">
+                    <GeofenceSettingsTable
+                      workLocations={workLocations}
+                      geofences={geofences}
+                      onSaved={handleGeofenceSaved}
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
             {/* Analytics Section */}
             <div>
               <div className="mb-4">
@@ -0,0 +1,257 @@
+/**
+ * Muster Roll Screen
+ * Month-end attendance reconciliation for HR: one row per employee of a
+ * company or department, one status code per day, paid and LOP day totals,
+ * conflicts between attendance and leave highlighted, and a CSV export for
+ * payroll
+ */
+
+import { useEffect, useState } from 'react';
+import { endOfMonth, format, parse } from 'date-fns';
+import { AlertTriangle, ClipboardList, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { downloadTextFile } from '@/lib/download';
+import { useCompany } from '@/contexts/CompanyContext';
+import { useHoliday } from '@/contexts/HolidayContext';
+import { useLeaveManagement } from '@/contexts/LeaveManagementContext';
+import { useAttendancePunch } from '@/contexts/AttendancePunchContext';
+import { useUserManagement } from '@/contexts/UserManagementContext';
+import { useShift } from '@/contexts/ShiftContext';
+import { useMusterAttendance } from '@/hooks/useAttendanceData';
+import { buildTeamAbsenceRangeRequest } from '@/modules/leave-management-system/utils/teamCoverage';
+import { AbsenceApplication } from '@/modules/leave-management-system/types/leave.types';
+import { Holiday } from '@/modules/leave-management-system/holiday-management/types';
+import { AttendancePunch } from './types/punch.types';
+import { RosterAssignment } from './types/shift.types';
+import { buildMusterRoll, buildMusterRollCsv } from './utils/musterRoll';
+import { MusterRollGrid } from './components/MusterRollGrid';
+
+// Departments, holidays, leave applications and web punches of a month fit in one page
+const MAX_ROWS = 1000;
+
+// A few web punches per employee per day
+const MAX_PUNCHES = 5000;
+
+// Select items cannot have an empty value
+const ALL = 'ALL';
+
+const currentPeriod = () => format(new Date(), 'yyyy-MM');
+
+export function MusterRoll() {
+  const { companies, activeCompany } = useCompany();
+  const { refreshHolidays } = useHoliday();
+  const { searchAbsenceApplications } = useLeaveManagement();
+  const { searchPunches } = useAttendancePunch();
+  const { refreshDepartments } = useUserManagement();
+  const { searchRoster } = useShift();
+
+  const [companyId, setCompanyId] = useState('');
+  const [department, setDepartment] = useState(ALL);
+  const [period, setPeriod] = useState(currentPeriod);
+  const [departments, setDepartments] = useState<string[]>([]);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [absences, setAbsences] = useState<AbsenceApplication[]>([]);
+  const [punches, setPunches] = useState<AttendancePunch[]>([]);
+  const [roster, setRoster] = useState<RosterAssignment[]>([]);
+  const [conflictsOnly, setConflictsOnly] = useState(false);
+
+  const monthStart = parse(period, 'yyyy-MM', new Date());
+  const startDate = format(monthStart, 'yyyy-MM-dd');
+  const endDate = format(endOfMonth(monthStart), 'yyyy-MM-dd');
+
+  const { data: records, loading } = useMusterAttendance(
+    companyId,
+    department === ALL ? undefined : department,
+    startDate,
+    endDate
+  );
+
+  useEffect(() => {
+    if (!companyId) setCompanyId(activeCompany?.id || companies[0]?.id || '');
+  }, [activeCompany, companies.length]);
+
+  const fetchDepartments = async () => {
+    const result = await refreshDepartments({ sort: { department: 1 } }, 0, MAX_ROWS);
+    setDepartments((result?.content || []).map((item) => item.department));
+  };
+  useEffect(() => {
+    fetchDepartments();
+  }, []);
+
+  const fetchHolidays = async () => {
+    if (!companyId) return;
+    const result = await refreshHolidays({ filters: { and: { companyIds: companyId } } }, 0, MAX_ROWS);
+    setHolidays(result?.content || []);
+  };
+  useEffect(() => {
+    fetchHolidays();
+  }, [companyId]);
+
+  const emails = records.map((record) => record.officialEmail);
+  const emailKey = emails.join(',');
+  const employeeIds = records.map((record) => record.employeeId);
+
+  const fetchLeavesAndPunches = async () => {
+    if (emails.length === 0) {
+      setAbsences([]);
+      setPunches([]);
+      setRoster([]);
+      return;
+    }
+    const leaveRequest = buildTeamAbsenceRangeRequest(monthStart, endOfMonth(monthStart));
+    const [absenceResult, punchResult, rosterResult] = await Promise.all([
+      searchAbsenceApplications(
+        { ...leaveRequest, filters: { and: { ...leaveRequest.filters?.and, email: emails } } },
+        0,
+        MAX_ROWS
+      ),
+      searchPunches(
+        {
+          filters: { and: { officialEmail: emails } },
+          dateFilter: { type: 'between', field: 'date', startDate, endDate },
+        },
+        0,
+        MAX_PUNCHES
+      ),
+      searchRoster(
+        {
+          filters: { and: { employeeId: employeeIds } },
+          dateFilter: { type: 'between', field: 'date', startDate, endDate },
+        },
+        0,
+        employeeIds.length * endOfMonth(monthStart).getDate()
+      ),
+    ]);
+    setAbsences(absenceResult?.content || []);
+    setPunches(punchResult?.content || []);
+    setRoster(rosterResult?.content || []);
+  };
+  useEffect(() => {
+    fetchLeavesAndPunches();
+  }, [emailKey, startDate, endDate]);
+
+  const rows = buildMusterRoll({
+    period,
+    records,
+    absences,
+    punches,
+    roster,
+    holidays,
+    companyId,
+    today: format(new Date(), 'yyyy-MM-dd'),
+  });
+  const totalLopDays = rows.reduce((sum, row) => sum + row.lopDays, 0);
+  const totalConflicts = rows.reduce((sum, row) => sum + row.conflictCount, 0);
+
+  const handleDownload = () => {
+    const scope = department === ALL ? '' : `-${department.toLowerCase().replace(/\s+/g, '-')}`;
+    downloadTextFile(buildMusterRollCsv(rows, period), `muster-roll-${period}${scope}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ClipboardList className="h-8 w-8" />
+            Muster Roll
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Reconcile a month of attendance with leaves and holidays before it goes to payroll
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <Select value={companyId} onValueChange={setCompanyId}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Company" />
+            </SelectTrigger>
+            <SelectContent>
+              {companies.map((company) => (
+                <SelectItem key={company.id} value={company.id}>
+                  {company.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={department} onValueChange={setDepartment}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All departments</SelectItem>
+              {departments.map((item) => (
+                <SelectItem key={item} value={item}>
+                  {item}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="month"
+            className="w-[160px]"
+            value={period}
+            max={currentPeriod()}
+            onChange={(e) => e.target.value && setPeriod(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Employees</CardDescription>
+            <CardTitle className="text-2xl">{rows.length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>LOP days</CardDescription>
+            <CardTitle className="text-2xl">{Math.round(totalLopDays * 100) / 100}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              Days with conflicts
+            </CardDescription>
+            <CardTitle className={totalConflicts > 0 ? 'text-2xl text-destructive' : 'text-2xl'}>
+              {totalConflicts}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <CardTitle>{format(monthStart, 'MMMM yyyy')}</CardTitle>
+              <CardDescription>
+                Paid days are the days of the month less LOP days. Resolve conflicts before exporting.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch id="conflicts-only" checked={conflictsOnly} onCheckedChange={setConflictsOnly} />
+                <Label htmlFor="conflicts-only">Conflicts only</Label>
+              </div>
+              <Button variant="outline" className="gap-2" onClick={handleDownload} disabled={rows.length === 0}>
+                <Download className="h-4 w-4" />
+                Download CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <MusterRollGrid rows={rows} loading={loading} conflictsOnly={conflictsOnly} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,11 +1,387 @@
-import { DummyPage } from '@/components/common/DummyPage';
+/**
+ * Overtime Management Screen
+ * Overtime detected from attendance under the tenant's overtime policy,
+ * claims approved by the reporting manager and the per-period export of
+ * approved overtime to payroll
+ */
+
+import { useEffect, useState } from 'react';
+import { endOfMonth, format, parse, startOfMonth, subMonths } from 'date-fns';
+import { Send, Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { useOvertime } from '@/contexts/OvertimeContext';
+import { usePersonalAttendance } from '@/hooks/useAttendanceData';
+import { AttendanceRole } from '@/types/attendance';
+import { MOCK_USERS } from '@/services/attendanceService';
+import { ActingForBanner, useActingDelegations } from '@/modules/delegation';
+import { useCompanyHolidays } from '@/modules/leave-management-system/hooks/useCompanyHolidays';
+import { OvertimeClaim, OvertimePolicy } from './types/overtime.types';
+import { DEFAULT_OVERTIME_POLICY } from './constants';
+import {
+  detectOvertime,
+  getApprovedHoursInPeriod,
+  getRemainingCapHours,
+  getUnclaimedCandidates,
+  overtimeClaimKey,
+  toOvertimeDays,
+} from './utils/overtimeRules';
+import { useRosteredShifts } from './hooks/useRosteredShifts';
+import { ProfileToggle } from './components/ProfileToggle';
+import { OvertimeCandidatesTable } from './components/OvertimeCandidatesTable';
+import { OvertimeClaimsTable } from './components/OvertimeClaimsTable';
+import { OvertimeApprovalDialog } from './components/OvertimeApprovalDialog';
+import { OvertimePolicyForm } from './components/OvertimePolicyForm';
+import { OvertimePayrollExport } from './components/OvertimePayrollExport';
+
+// Most recent claims shown per queue
+const MAX_CLAIMS = 50;
+
+// Approved claims of a pay period fit in one page
+const MAX_PERIOD_CLAIMS = 1000;
+
+const currentPeriod = () => format(new Date(), 'yyyy-MM');
 
 export function OvertimeManagement() {
+  const {
+    getOvertimePolicy,
+    saveOvertimePolicy,
+    createOvertimeClaims,
+    searchOvertimeClaims,
+    decideOvertimeClaim,
+    cancelOvertimeClaim,
+    markOvertimeExported,
+    isLoading,
+  } = useOvertime();
+
+  const [currentRole, setCurrentRole] = useState<AttendanceRole>('EMPLOYEE');
+  const currentUser = currentRole === 'EMPLOYEE' ? MOCK_USERS.employee : MOCK_USERS.reportingManager;
+  const isManager = currentRole === 'REPORTING_MANAGER';
+
+  const [activeTab, setActiveTab] = useState('detected');
+  const [policy, setPolicy] = useState<OvertimePolicy>(DEFAULT_OVERTIME_POLICY);
+  const [period, setPeriod] = useState(currentPeriod);
+  const [exportPeriod, setExportPeriod] = useState(() => format(subMonths(new Date(), 1), 'yyyy-MM'));
+  const [claims, setClaims] = useState<OvertimeClaim[]>([]);
+  const [periodClaims, setPeriodClaims] = useState<OvertimeClaim[]>([]);
+  const [exportClaims, setExportClaims] = useState<OvertimeClaim[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [reason, setReason] = useState('');
+  const [approvingClaim, setApprovingClaim] = useState<OvertimeClaim | null>(null);
+  const [remainingCapHours, setRemainingCapHours] = useState(Infinity);
+
+  // Managers who delegated their attendance approvals to the current user
+  const { delegations, actingFor, actingForId, setActingForId, recordAction } = useActingDelegations('attendance');
+
+  // Detection runs on the selected month up to today
+  const month = parse(period, 'yyyy-MM', new Date());
+  const startDate = format(startOfMonth(month), 'yyyy-MM-dd');
+  const monthEnd = format(endOfMonth(month), 'yyyy-MM-dd');
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const endDate = monthEnd < today ? monthEnd : today;
+
+  const { data: attendance, loading: attendanceLoading } = usePersonalAttendance(
+    currentUser.employeeId,
+    'regular',
+    startDate,
+    endDate
+  );
+  const { shiftsByDate, loading: rosterLoading } = useRosteredShifts(currentUser.employeeId, startDate, endDate);
+  const { observed } = useCompanyHolidays(month.getFullYear());
+
+  const fetchPolicy = async () => {
+    const saved = await getOvertimePolicy();
+    if (saved) setPolicy(saved);
+  };
+  useEffect(() => {
+    fetchPolicy();
+  }, []);
+
+  const fetchClaims = async () => {
+    const filter: Record<string, string> = isManager
+      ? { reportingTo: actingFor?.delegatorEmail || currentUser.email }
+      : { officialEmail: currentUser.email };
+    const result = await searchOvertimeClaims({ filters: { and: filter }, sort: { createdAt: -1 } }, 0, MAX_CLAIMS);
+    setClaims(result?.content || []);
+  };
+  useEffect(() => {
+    fetchClaims();
+  }, [currentRole, actingForId]);
+
+  // Every claim of the employee in the detection period, so claimed days are not offered again
+  const fetchPeriodClaims = async () => {
+    if (isManager) return;
+    const result = await searchOvertimeClaims(
+      { filters: { and: { officialEmail: currentUser.email, period } } },
+      0,
+      MAX_PERIOD_CLAIMS
+    );
+    setPeriodClaims(result?.content || []);
+    setSelectedKeys(new Set());
+  };
+  useEffect(() => {
+    fetchPeriodClaims();
+  }, [currentRole, period]);
+
+  const fetchExportClaims = async () => {
+    if (!isManager) return;
+    const result = await searchOvertimeClaims(
+      { filters: { and: { status: 'approved', period: exportPeriod } }, sort: { employeeName: 1 } },
+      0,
+      MAX_PERIOD_CLAIMS
+    );
+    setExportClaims(result?.content || []);
+  };
+  useEffect(() => {
+    fetchExportClaims();
+  }, [currentRole, exportPeriod]);
+
+  const holidayDates = new Set(observed.map((holiday) => holiday.date));
+  const candidates = getUnclaimedCandidates(
+    detectOvertime(toOvertimeDays(attendance?.attendanceDetails || [], shiftsByDate, holidayDates), policy),
+    periodClaims
+  );
+  const selectedCandidates = candidates.filter((candidate) =>
+    selectedKeys.has(overtimeClaimKey(candidate.date, candidate.basis))
+  );
+
+  const handleRoleChange = (role: AttendanceRole) => {
+    setCurrentRole(role);
+    setActiveTab(role === 'EMPLOYEE' ? 'detected' : 'review');
+    setActingForId('');
+  };
+
+  const handleSubmitClaims = async () => {
+    const created = await createOvertimeClaims(
+      selectedCandidates.map((candidate) => ({
+        ...candidate,
+        employeeId: currentUser.employeeId,
+        employeeName: `${currentUser.firstName} ${currentUser.lastName}`,
+        officialEmail: currentUser.email,
+        reportingTo: MOCK_USERS.reportingManager.email,
+        reason: reason.trim(),
+      }))
+    );
+    if (created) {
+      setReason('');
+      fetchPeriodClaims();
+      fetchClaims();
+    }
+  };
+
+  const handleCancelClaim = async (claim: OvertimeClaim) => {
+    const cancelled = await cancelOvertimeClaim(claim.id);
+    if (cancelled) {
+      fetchClaims();
+      fetchPeriodClaims();
+    }
+  };
+
+  const handleDecideClaim = async (claim: OvertimeClaim, action: 'approve' | 'reject') => {
+    if (action === 'reject') {
+      const updated = await decideOvertimeClaim(claim.id, { status: 'rejected' }, actingFor?.delegatorEmail);
+      if (updated) {
+        await recordAction('overtime', claim.id, action);
+        fetchClaims();
+      }
+      return;
+    }
+
+    // Approval is capped by what the employee already has approved in the month
+    const approved = await searchOvertimeClaims(
+      { filters: { and: { employeeId: claim.employeeId, period: claim.period, status: 'approved' } } },
+      0,
+      MAX_PERIOD_CLAIMS
+    );
+    if (!approved) return;
+    setRemainingCapHours(
+      getRemainingCapHours(policy, getApprovedHoursInPeriod(approved.content, claim.employeeId, claim.period, claim.id))
+    );
+    setApprovingClaim(claim);
+  };
+
+  const handleConfirmApproval = async (claim: OvertimeClaim, approvedHours: number) => {
+    const updated = await decideOvertimeClaim(
+      claim.id,
+      { status: 'approved', approvedHours },
+      actingFor?.delegatorEmail
+    );
+    if (updated) {
+      await recordAction('overtime', claim.id, 'approve');
+      setApprovingClaim(null);
+      fetchClaims();
+      if (claim.period === exportPeriod) fetchExportClaims();
+    }
+  };
+
+  const handleSavePolicy = async (draft: OvertimePolicy) => {
+    const saved = await saveOvertimePolicy(draft);
+    if (saved) setPolicy(saved);
+  };
+
+  const handleMarkExported = async (claimIds: string[]) => {
+    const exported = await markOvertimeExported(exportPeriod, claimIds);
+    if (exported) fetchExportClaims();
+  };
+
+  const pendingClaims = claims.filter((claim) => claim.status === 'pending').length;
+  const selectedHours = selectedCandidates.reduce((sum, candidate) => sum + candidate.hours, 0);
+
   return (
-    <DummyPage
-      title="Overtime Management"
-      description="Track and approve overtime hours, calculate compensation, and manage overtime policies."
-      category="Time, Leave & Attendance"
-    />
+    <>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Timer className="h-8 w-8" />
+              Overtime Management
+            </h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Claim overtime found in attendance, approve it against the policy and export it to payroll
+            </p>
+          </div>
+          {/* Dev-only Profile Toggle */}
+          <ProfileToggle currentRole={currentRole} onRoleChange={handleRoleChange} />
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList>
+            {!isManager && <TabsTrigger value="detected">Detected Overtime</TabsTrigger>}
+            <TabsTrigger value={isManager ? 'review' : 'claims'} className="gap-2">
+              {isManager ? 'Review Queue' : 'My Claims'}
+              {pendingClaims > 0 && <Badge variant="secondary">{pendingClaims}</Badge>}
+            </TabsTrigger>
+            {isManager && <TabsTrigger value="policy">Policy</TabsTrigger>}
+            {isManager && <TabsTrigger value="export">Payroll Export</TabsTrigger>}
+          </TabsList>
+
+          {!isManager && (
+            <TabsContent value="detected" className="mt-4 space-y-4">
+              <Card>
+                <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-3 space-y-0">
+                  <div>
+                    <CardTitle className="text-base">Unclaimed Overtime</CardTitle>
+                    <CardDescription>
+                      Hours beyond your rostered or expected hours, plus time worked on weekends and holidays
+                    </CardDescription>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Month</Label>
+                    <Input
+                      type="month"
+                      className="w-[180px]"
+                      value={period}
+                      max={currentPeriod()}
+                      onChange={(e) => e.target.value && setPeriod(e.target.value)}
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <OvertimeCandidatesTable
+                    candidates={candidates}
+                    selectedKeys={selectedKeys}
+                    onSelectionChange={setSelectedKeys}
+                    loading={attendanceLoading || rosterLoading}
+                  />
+                  {candidates.length > 0 && (
+                    <div className="flex flex-wrap items-end gap-3">
+                      <div className="flex-1 min-w-[240px] space-y-2">
+                        <Label>Reason</Label>
+                        <Textarea
+                          value={reason}
+                          onChange={(e) => setReason(e.target.value)}
+                          rows={2}
+                          placeholder="What the extra hours were spent on"
+                        />
+                      </div>
+                      <Button
+                        className="gap-2"
+                        onClick={handleSubmitClaims}
+                        disabled={isLoading || selectedCandidates.length === 0 || !reason.trim()}
+                      >
+                        <Send className="h-4 w-4" />
+                        Submit {selectedCandidates.length > 0 ? `${selectedHours.toFixed(2)} h` : ''} for Approval
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          <TabsContent value={isManager ? 'review' : 'claims'} className="mt-4 space-y-4">
+            {isManager && (
+              <ActingForBanner
+                delegations={delegations}
+                actingForId={actingForId}
+                onActingForChange={setActingForId}
+                ownQueueLabel="My team's overtime"
+              />
+            )}
+            <Card>
+              <CardContent className="pt-6">
+                <OvertimeClaimsTable
+                  claims={claims}
+                  loading={isLoading}
+                  showEmployee={isManager}
+                  onCancel={isManager ? undefined : handleCancelClaim}
+                  onDecide={isManager ? handleDecideClaim : undefined}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {isManager && (
+            <TabsContent value="policy" className="mt-4">
+              <OvertimePolicyForm policy={policy} isSaving={isLoading} onSave={handleSavePolicy} />
+            </TabsContent>
+          )}
+
+          {isManager && (
+            <TabsContent value="export" className="mt-4">
+              <Card>
+                <CardHeader className="flex flex-row flex-wrap items-end justify-between gap-3 space-y-0">
+                  <div>
+                    <CardTitle className="text-base">Approved Overtime by Pay Period</CardTitle>
+                    <CardDescription>Payable hours weigh each claim by its multiplier</CardDescription>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Pay Period</Label>
+                    <Input
+                      type="month"
+                      className="w-[180px]"
+                      value={exportPeriod}
+                      max={currentPeriod()}
+                      onChange={(e) => e.target.value && setExportPeriod(e.target.value)}
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <OvertimePayrollExport
+                    period={exportPeriod}
+                    claims={exportClaims}
+                    loading={isLoading}
+                    onMarkExported={handleMarkExported}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+
+      <OvertimeApprovalDialog
+        claim={approvingClaim}
+        remainingCapHours={remainingCapHours}
+        isSaving={isLoading}
+        onOpenChange={(open) => !open && setApprovingClaim(null)}
+        onConfirm={handleConfirmApproval}
+      />
+    </>
   );
 }
@@ -1,11 +1,438 @@
-import { DummyPage } from '@/components/common/DummyPage';
+/**
+ * Shift & Schedule Management Screen
+ * Named shifts, rotation patterns and the weekly roster planner, plus shift
+ * swap requests approved by the reporting manager
+ */
+
+import { useEffect, useState } from 'react';
+import { addWeeks, format, parseISO, startOfWeek } from 'date-fns';
+import { CalendarClock, ChevronLeft, ChevronRight, Plus, Save } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useShift } from '@/contexts/ShiftContext';
+import { useUserManagement } from '@/contexts/UserManagementContext';
+import { AttendanceRole } from '@/types/attendance';
+import { MOCK_USERS } from '@/services/attendanceService';
+import { ActingForBanner, useActingDelegations } from '@/modules/delegation';
+import { UserStatus } from '@/modules/user-management/types/onboarding.types';
+import {
+  RosterAssignment,
+  RosterEmployee,
+  RotationPattern,
+  ShiftDefinition,
+  ShiftSwapRequest,
+} from './types/shift.types';
+import { getWeekDates, indexRoster, rosterKey } from './utils/shiftRoster';
+import { ProfileToggle } from './components/ProfileToggle';
+import { RosterGrid } from './components/RosterGrid';
+import { ShiftDefinitionsTable } from './components/ShiftDefinitionsTable';
+import { ShiftDefinitionDialog } from './components/ShiftDefinitionDialog';
+import { RotationPatternsTable } from './components/RotationPatternsTable';
+import { RotationPatternDialog } from './components/RotationPatternDialog';
+import { ApplyRotationDialog } from './components/ApplyRotationDialog';
+import { ShiftSwapRequestsTable } from './components/ShiftSwapRequestsTable';
+import { ShiftSwapDialog } from './components/ShiftSwapDialog';
+
+// Shifts, rotations and employees of a tenant fit in one page
+const MAX_ROWS = 1000;
+
+// Most recent swap requests shown per queue
+const MAX_SWAPS = 50;
+
+// Select items cannot have an empty value
+const ALL = 'ALL';
+
+const currentWeekStart = () => startOfWeek(new Date(), { weekStartsOn: 1 });
 
 export function ShiftSchedule() {
+  const {
+    searchShifts,
+    searchRotations,
+    searchRoster,
+    saveRosterAssignments,
+    searchShiftSwaps,
+    approveRejectShiftSwap,
+    cancelShiftSwap,
+    isLoading,
+  } = useShift();
+  const { refreshUserDetailsSnapshots } = useUserManagement();
+
+  const [currentRole, setCurrentRole] = useState<AttendanceRole>('REPORTING_MANAGER');
+  const currentUser = currentRole === 'EMPLOYEE' ? MOCK_USERS.employee : MOCK_USERS.reportingManager;
+
+  const [activeTab, setActiveTab] = useState('roster');
+  const [shifts, setShifts] = useState<ShiftDefinition[]>([]);
+  const [rotations, setRotations] = useState<RotationPattern[]>([]);
+  const [employees, setEmployees] = useState<RosterEmployee[]>([]);
+  const [department, setDepartment] = useState(ALL);
+  const [workLocation, setWorkLocation] = useState(ALL);
+  const [weekStart, setWeekStart] = useState(currentWeekStart);
+  const [assignments, setAssignments] = useState<RosterAssignment[]>([]);
+  const [draft, setDraft] = useState<Map<string, string | null>>(new Map());
+  const [swaps, setSwaps] = useState<ShiftSwapRequest[]>([]);
+
+  const [shiftDialogOpen, setShiftDialogOpen] = useState(false);
+  const [editingShift, setEditingShift] = useState<ShiftDefinition | null>(null);
+  const [rotationDialogOpen, setRotationDialogOpen] = useState(false);
+  const [editingRotation, setEditingRotation] = useState<RotationPattern | null>(null);
+  const [applyingRotation, setApplyingRotation] = useState<RotationPattern | null>(null);
+  const [swapDialogOpen, setSwapDialogOpen] = useState(false);
+
+  // Managers who delegated their attendance approvals to the current user
+  const { delegations, actingFor, actingForId, setActingForId, recordAction } = useActingDelegations('attendance');
+
+  const isManager = currentRole === 'REPORTING_MANAGER';
+  const dates = getWeekDates(weekStart);
+
+  const fetchSetup = async () => {
+    const [shiftResult, rotationResult, employeeResult] = await Promise.all([
+      searchShifts({ sort: { startTime: 1 } }, 0, MAX_ROWS),
+      searchRotations({ sort: { name: 1 } }, 0, MAX_ROWS),
+      refreshUserDetailsSnapshots({ filters: { and: { status: UserStatus.ACTIVE } }, sort: { firstName: 1 } }, 0, MAX_ROWS),
+    ]);
+    setShifts(shiftResult?.content || []);
+    setRotations(rotationResult?.content || []);
+    setEmployees(
+      (employeeResult?.content || []).map((employee) => ({
+        id: employee.id,
+        name: `${employee.firstName} ${employee.lastName}`.trim(),
+        email: employee.email,
+        department: employee.department,
+        workLocation: employee.workLocation,
+        reportingTo: employee.reportingTo,
+      }))
+    );
+  };
+  useEffect(() => {
+    fetchSetup();
+  }, []);
+
+  // The current user's own row; the mock users are not in the employee directory
+  const self: RosterEmployee = employees.find((employee) => employee.id === currentUser.employeeId) || {
+    id: currentUser.employeeId,
+    name: `${currentUser.firstName} ${currentUser.lastName}`,
+    email: currentUser.email,
+    department: '',
+    workLocation: '',
+    reportingTo: isManager ? undefined : MOCK_USERS.reportingManager.email,
+  };
+
+  const filteredEmployees = employees.filter(
+    (employee) =>
+      (department === ALL || employee.department === department) &&
+      (workLocation === ALL || employee.workLocation === workLocation)
+  );
+  const rosterEmployees = isManager ? filteredEmployees : [self];
+
+  const fetchRoster = async () => {
+    const employeeIds = rosterEmployees.map((employee) => employee.id);
+    if (employeeIds.length === 0) {
+      setAssignments([]);
+      return;
+    }
+    const result = await searchRoster(
+      {
+        filters: { and: { employeeId: employeeIds } },
+        dateFilter: { type: 'between', field: 'date', startDate: dates[0], endDate: dates[6] },
+      },
+      0,
+      employeeIds.length * dates.length
+    );
+    setAssignments(result?.content || []);
+  };
+  useEffect(() => {
+    fetchRoster();
+  }, [weekStart, department, workLocation, employees.length, currentRole]);
+
+  const fetchSwaps = async () => {
+    const filter: Record<string, string> = isManager
+      ? { reportingTo: actingFor?.delegatorEmail || currentUser.email }
+      : { requesterEmail: currentUser.email };
+    const result = await searchShiftSwaps({ filters: { and: filter }, sort: { createdAt: -1 } }, 0, MAX_SWAPS);
+    setSwaps(result?.content || []);
+  };
+  useEffect(() => {
+    fetchSwaps();
+  }, [currentRole, actingForId]);
+
+  const handleRoleChange = (role: AttendanceRole) => {
+    setCurrentRole(role);
+    setActiveTab('roster');
+    setActingForId('');
+  };
+
+  // Saved roster with unsaved changes on top
+  const cells = new Map<string, string | null>();
+  indexRoster(assignments).forEach((assignment, key) => cells.set(key, assignment.shiftId));
+  draft.forEach((shiftId, key) => cells.set(key, shiftId));
+
+  const handleAssign = (employeeIds: string[], targetDates: string[], shiftId: string | null) =>
+    setDraft((prev) => {
+      const next = new Map(prev);
+      employeeIds.forEach((employeeId) =>
+        targetDates.forEach((date) => next.set(rosterKey(employeeId, date), shiftId))
+      );
+      return next;
+    });
+
+  const handleSaveRoster = async () => {
+    const carriers = Array.from(draft.entries()).map(([key, shiftId]) => {
+      const [employeeId, date] = key.split('|');
+      return { employeeId, date, shiftId, source: 'MANUAL' as const };
+    });
+    const saved = await saveRosterAssignments(carriers);
+    if (saved) {
+      setDraft(new Map());
+      fetchRoster();
+    }
+  };
+
+  const handleShiftSaved = (saved: ShiftDefinition) =>
+    setShifts((prev) =>
+      prev.some((shift) => shift.id === saved.id)
+        ? prev.map((shift) => (shift.id === saved.id ? saved : shift))
+        : [...prev, saved]
+    );
+
+  const handleRotationSaved = (saved: RotationPattern) =>
+    setRotations((prev) =>
+      prev.some((rotation) => rotation.id === saved.id)
+        ? prev.map((rotation) => (rotation.id === saved.id ? saved : rotation))
+        : [...prev, saved]
+    );
+
+  const handleDecideSwap = async (request: ShiftSwapRequest, action: 'approve' | 'reject') => {
+    const updated = await approveRejectShiftSwap(request.id, action, actingFor?.delegatorEmail);
+    if (updated) {
+      await recordAction('shift-swap', request.id, action);
+      fetchSwaps();
+      if (action === 'approve') fetchRoster();
+    }
+  };
+
+  const handleCancelSwap = async (request: ShiftSwapRequest) => {
+    const cancelled = await cancelShiftSwap(request.id);
+    if (cancelled) fetchSwaps();
+  };
+
+  const departments = Array.from(new Set(employees.map((employee) => employee.department).filter(Boolean))).sort();
+  const workLocations = Array.from(new Set(employees.map((employee) => employee.workLocation).filter(Boolean))).sort();
+  const pendingSwaps = swaps.filter((request) => request.status === 'pending').length;
+
   return (
-    <DummyPage
-      title="Shift & Schedule Management"
-      description="Create and manage work shifts, rosters, and employee schedules with flexible shift patterns."
-      category="Time, Leave & Attendance"
-    />
+    <>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <CalendarClock className="h-8 w-8" />
+              Shift & Schedule Management
+            </h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Define shifts and rotations, plan the weekly roster and handle shift swaps
+            </p>
+          </div>
+          {/* Dev-only Profile Toggle */}
+          <ProfileToggle currentRole={currentRole} onRoleChange={handleRoleChange} />
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList>
+            <TabsTrigger value="roster">{isManager ? 'Roster' : 'My Roster'}</TabsTrigger>
+            {isManager && <TabsTrigger value="shifts">Shifts</TabsTrigger>}
+            {isManager && <TabsTrigger value="rotations">Rotations</TabsTrigger>}
+            <TabsTrigger value="swaps" className="gap-2">
+              Swap Requests
+              {pendingSwaps > 0 && <Badge variant="secondary">{pendingSwaps}</Badge>}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="roster" className="mt-4 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => setWeekStart((prev) => addWeeks(prev, -1))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" onClick={() => setWeekStart(currentWeekStart())}>
+                  {format(parseISO(dates[0]), 'dd MMM')} – {format(parseISO(dates[6]), 'dd MMM yyyy')}
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => setWeekStart((prev) => addWeeks(prev, 1))}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+              {isManager && (
+                <div className="flex flex-wrap gap-2">
+                  <Select value={department} onValueChange={setDepartment}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All departments</SelectItem>
+                      {departments.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {item}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={workLocation} onValueChange={setWorkLocation}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All locations</SelectItem>
+                      {workLocations.map((item) => (
+                        <SelectItem key={item} value={item}>
+                          {item}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {draft.size > 0 && (
+                    <Button variant="outline" onClick={() => setDraft(new Map())}>
+                      Discard
+                    </Button>
+                  )}
+                  <Button className="gap-2" onClick={handleSaveRoster} disabled={isLoading || draft.size === 0}>
+                    <Save className="h-4 w-4" />
+                    Save Roster{draft.size > 0 ? ` (${draft.size})` : ''}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <RosterGrid
+              employees={rosterEmployees}
+              dates={dates}
+              shifts={shifts}
+              cells={cells}
+              changedKeys={new Set(draft.keys())}
+              onAssign={isManager ? handleAssign : undefined}
+            />
+          </TabsContent>
+
+          {isManager && (
+            <TabsContent value="shifts" className="mt-4">
+              <Card>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex justify-end">
+                    <Button
+                      className="gap-2"
+                      onClick={() => {
+                        setEditingShift(null);
+                        setShiftDialogOpen(true);
+                      }}
+                    >
+                      <Plus className="h-4 w-4" />
+                      New Shift
+                    </Button>
+                  </div>
+                  <ShiftDefinitionsTable
+                    shifts={shifts}
+                    onEdit={(shift) => {
+                      setEditingShift(shift);
+                      setShiftDialogOpen(true);
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          {isManager && (
+            <TabsContent value="rotations" className="mt-4">
+              <Card>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex justify-end">
+                    <Button
+                      className="gap-2"
+                      disabled={shifts.length === 0}
+                      onClick={() => {
+                        setEditingRotation(null);
+                        setRotationDialogOpen(true);
+                      }}
+                    >
+                      <Plus className="h-4 w-4" />
+                      New Rotation
+                    </Button>
+                  </div>
+                  <RotationPatternsTable
+                    rotations={rotations}
+                    shifts={shifts}
+                    onEdit={(rotation) => {
+                      setEditingRotation(rotation);
+                      setRotationDialogOpen(true);
+                    }}
+                    onApply={setApplyingRotation}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
+          <TabsContent value="swaps" className="mt-4 space-y-4">
+            {isManager ? (
+              <ActingForBanner
+                delegations={delegations}
+                actingForId={actingForId}
+                onActingForChange={setActingForId}
+                ownQueueLabel="My team's swaps"
+              />
+            ) : (
+              <div className="flex justify-end">
+                <Button className="gap-2" onClick={() => setSwapDialogOpen(true)}>
+                  <Plus className="h-4 w-4" />
+                  Request Swap
+                </Button>
+              </div>
+            )}
+            <Card>
+              <CardContent className="pt-6">
+                <ShiftSwapRequestsTable
+                  requests={swaps}
+                  shifts={shifts}
+                  loading={isLoading}
+                  onCancel={isManager ? undefined : handleCancelSwap}
+                  onDecide={isManager ? handleDecideSwap : undefined}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <ShiftDefinitionDialog
+        open={shiftDialogOpen}
+        onOpenChange={setShiftDialogOpen}
+        shift={editingShift}
+        onSaved={handleShiftSaved}
+      />
+      <RotationPatternDialog
+        open={rotationDialogOpen}
+        onOpenChange={setRotationDialogOpen}
+        rotation={editingRotation}
+        shifts={shifts}
+        onSaved={handleRotationSaved}
+      />
+      <ApplyRotationDialog
+        open={!!applyingRotation}
+        onOpenChange={(open) => !open && setApplyingRotation(null)}
+        rotation={applyingRotation}
+        employees={filteredEmployees}
+        defaultStartDate={dates[0]}
+        onApplied={fetchRoster}
+      />
+      <ShiftSwapDialog
+        open={swapDialogOpen}
+        onOpenChange={setSwapDialogOpen}
+        requester={self}
+        colleagues={employees}
+        shifts={shifts}
+        onCreated={(created) => setSwaps((prev) => [created, ...prev])}
+      />
+    </>
   );
 }
@@ -0,0 +1,98 @@
+/**
+ * Anomaly Thresholds Form Component
+ * When team attendance is flagged as an anomaly, and whether the weekly digest
+ * is sent; saved with the shift settings
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { AttendanceAnomalyThresholds, ShiftSettings } from '@/types/attendance';
+import { DEFAULT_ANOMALY_THRESHOLDS } from '../constants';
+
+interface AnomalyThresholdsFormProps {
+  settings: ShiftSettings | null;
+  isSaving: boolean;
+  onSave: (changes: Pick<ShiftSettings, 'anomalyThresholds' | 'enableMonitoring'>) => void;
+}
+
+const toNumber = (value: string) => (value === '' ? 0 : Math.max(Math.floor(Number(value)), 0));
+
+const NumberField = ({
+  label,
+  value,
+  onChange,
+  hint,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  hint?: string;
+}) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    <Input type="number" min={0} value={value} onChange={(e) => onChange(toNumber(e.target.value))} />
+    {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+  </div>
+);
+
+export const AnomalyThresholdsForm: React.FC<AnomalyThresholdsFormProps> = ({ settings, isSaving, onSave }) => {
+  const [draft, setDraft] = useState<AttendanceAnomalyThresholds>(DEFAULT_ANOMALY_THRESHOLDS);
+  const [digestEnabled, setDigestEnabled] = useState(false);
+
+  useEffect(() => {
+    setDraft(settings?.anomalyThresholds || DEFAULT_ANOMALY_THRESHOLDS);
+    setDigestEnabled(!!settings?.enableMonitoring);
+  }, [settings]);
+
+  const update = (changes: Partial<AttendanceAnomalyThresholds>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <NumberField
+          label="Lookback (days)"
+          value={draft.lookbackDays}
+          onChange={(lookbackDays) => update({ lookbackDays })}
+          hint="Days of attendance scanned, ending today"
+        />
+        <NumberField
+          label="Late Check-ins"
+          value={draft.lateCheckInCount}
+          onChange={(lateCheckInCount) => update({ lateCheckInCount })}
+          hint="In the lookback before lateness is chronic; 0 = off"
+        />
+        <NumberField
+          label="Missing Check-outs"
+          value={draft.missingCheckoutCount}
+          onChange={(missingCheckoutCount) => update({ missingCheckoutCount })}
+          hint="Days with a check-in but no check-out; 0 = off"
+        />
+        <NumberField
+          label="Short-hour Streak (days)"
+          value={draft.shortHoursStreakDays}
+          onChange={(shortHoursStreakDays) => update({ shortHoursStreakDays })}
+          hint={`Consecutive worked days under ${settings?.warningHours ?? '—'} h warning / ${settings?.criticalHours ?? '—'} h critical; 0 = off`}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Switch id="anomaly-digest" checked={digestEnabled} onCheckedChange={setDigestEnabled} />
+          <Label htmlFor="anomaly-digest">Send managers a weekly in-app digest</Label>
+        </div>
+        <Button
+          className="gap-2"
+          onClick={() => onSave({ anomalyThresholds: draft, enableMonitoring: digestEnabled })}
+          disabled={isSaving || !settings || draft.lookbackDays < 1}
+        >
+          <Save className="h-4 w-4" />
+          Save Thresholds
+        </Button>
+      </div>
+    </div>
+  );
+};
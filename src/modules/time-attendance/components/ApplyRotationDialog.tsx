@@ -0,0 +1,159 @@
+/**
+ * Apply Rotation Dialog
+ * Rosters the selected employees on a rotation from a start date for a number
+ * of weeks, optionally staggering each employee's start in the cycle
+ */
+
+import React, { useEffect, useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useShift } from '@/contexts/ShiftContext';
+import { RosterEmployee, RotationPattern } from '../types/shift.types';
+import { MAX_ROTATION_APPLY_WEEKS } from '../constants';
+import { expandRotation } from '../utils/shiftRoster';
+
+interface ApplyRotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rotation: RotationPattern | null;
+  employees: RosterEmployee[]; // Employees matching the roster filters
+  defaultStartDate: string;
+  onApplied: () => void;
+}
+
+export const ApplyRotationDialog: React.FC<ApplyRotationDialogProps> = ({
+  open,
+  onOpenChange,
+  rotation,
+  employees,
+  defaultStartDate,
+  onApplied,
+}) => {
+  const { saveRosterAssignments, isLoading } = useShift();
+  const [startDate, setStartDate] = useState(defaultStartDate);
+  const [weeks, setWeeks] = useState(4);
+  const [staggerDays, setStaggerDays] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    setStartDate(defaultStartDate);
+    setWeeks(4);
+    setStaggerDays(0);
+    setSelectedIds(new Set(employees.map((employee) => employee.id)));
+  }, [open, rotation]);
+
+  const endDate = startDate ? format(addDays(parseISO(startDate), weeks * 7 - 1), 'yyyy-MM-dd') : '';
+  const allSelected = employees.length > 0 && selectedIds.size === employees.length;
+
+  const toggleEmployee = (id: string, checked: boolean) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const handleApply = async () => {
+    if (!rotation || !startDate) return;
+    // Keep the selection in the grid's order so staggering is predictable
+    const employeeIds = employees.filter((employee) => selectedIds.has(employee.id)).map((employee) => employee.id);
+    const saved = await saveRosterAssignments(expandRotation(rotation, employeeIds, startDate, endDate, staggerDays));
+    if (saved) {
+      onApplied();
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Apply Rotation</DialogTitle>
+          <DialogDescription>
+            {rotation?.name} · replaces existing roster entries of the selected employees in the range
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Start Date</Label>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Weeks</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_ROTATION_APPLY_WEEKS}
+                value={weeks}
+                onChange={(e) => setWeeks(Math.min(MAX_ROTATION_APPLY_WEEKS, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Stagger (days)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={staggerDays}
+                onChange={(e) => setStaggerDays(Math.max(0, Number(e.target.value) || 0))}
+              />
+            </div>
+          </div>
+          {endDate && (
+            <p className="text-xs text-muted-foreground">
+              Until {format(parseISO(endDate), 'dd MMM yyyy')}. With a stagger, each employee starts that many days
+              further into the cycle than the one before.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="apply-rotation-all"
+                checked={allSelected}
+                onCheckedChange={(checked) =>
+                  setSelectedIds(checked ? new Set(employees.map((employee) => employee.id)) : new Set())
+                }
+              />
+              <Label htmlFor="apply-rotation-all">Employees ({selectedIds.size} of {employees.length})</Label>
+            </div>
+            <div className="max-h-[240px] overflow-y-auto rounded-md border p-2 space-y-1">
+              {employees.map((employee) => (
+                <label key={employee.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedIds.has(employee.id)}
+                    onCheckedChange={(checked) => toggleEmployee(employee.id, checked === true)}
+                  />
+                  <span>{employee.name}</span>
+                  <span className="text-xs text-muted-foreground">{employee.department}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={isLoading || !startDate || selectedIds.size === 0}>
+            Apply Rotation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
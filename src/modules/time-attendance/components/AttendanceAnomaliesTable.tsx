@@ -0,0 +1,74 @@
+/**
+ * Attendance Anomalies Table Component
+ * The reporting manager's team ranked by attendance anomalies, most urgent
+ * first, with the days behind each anomaly
+ */
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { EmployeeAnomalies } from '../types/anomaly.types';
+import { anomalySeverityLabels, anomalyTypeLabels } from '../constants';
+
+interface AttendanceAnomaliesTableProps {
+  ranked: EmployeeAnomalies[];
+  loading?: boolean;
+}
+
+const formatDates = (dates: string[]) => dates.map((date) => format(parseISO(date), 'dd MMM')).join(', ');
+
+export const AttendanceAnomaliesTable: React.FC<AttendanceAnomaliesTableProps> = ({ ranked, loading = false }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead className="w-[60px]">Rank</TableHead>
+        <TableHead>Employee</TableHead>
+        <TableHead>Anomalies</TableHead>
+        <TableHead className="text-right">Score</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {ranked.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+            {loading ? 'Scanning team attendance...' : 'No attendance anomalies in your team'}
+          </TableCell>
+        </TableRow>
+      ) : (
+        ranked.map((employee, index) => (
+          <TableRow key={employee.employeeId}>
+            <TableCell className="font-medium">{index + 1}</TableCell>
+            <TableCell>
+              <div className="font-medium">{employee.employeeName}</div>
+              <div className="text-xs text-muted-foreground">{employee.officialEmail}</div>
+            </TableCell>
+            <TableCell>
+              <div className="space-y-1">
+                {employee.anomalies.map((anomaly) => (
+                  <div key={anomaly.type} className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge
+                      variant={anomaly.severity === 'critical' ? 'destructive' : 'outline'}
+                      title={anomalySeverityLabels[anomaly.severity]}
+                    >
+                      {anomalyTypeLabels[anomaly.type]} · {anomaly.dates.length}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">{formatDates(anomaly.dates)}</span>
+                  </div>
+                ))}
+              </div>
+            </TableCell>
+            <TableCell className="text-right font-medium">{employee.score}</TableCell>
+          </TableRow>
+        ))
+      )}
+    </TableBody>
+  </Table>
+);
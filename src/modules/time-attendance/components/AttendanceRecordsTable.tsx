@@ -1,6 +1,9 @@
 /**
  * Attendance Records Table Component
  * Displays employee attendance records with filtering and date range selection
+ * Days with a roster entry are judged against the rostered shift; other days
+ * keep the lateness and expected hours computed from the global shift settings
+ * Check-in/out combine door-device records with web punches and show their source
  */
 
 import { useMemo } from 'react';
@@ -20,6 +23,12 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Calendar, AlertTriangle, AlertCircle } from 'lucide-react';
 import { PersonalAttendanceResponse, AttendanceDetail } from '@/types/attendance';
 import { cn } from '@/lib/utils';
+import { ShiftAttendanceEvaluation, ShiftDefinition } from '../types/shift.types';
+import { AttendancePunch } from '../types/punch.types';
+import { evaluateShiftAttendance } from '../utils/shiftRoster';
+import { DayPunch, getDayPunches } from '../utils/punches';
+import { punchSourceLabels, punchStatusLabels } from '../constants';
+import { ShiftChip } from './ShiftChip';
 
 interface AttendanceRecordsTableProps {
   data: PersonalAttendanceResponse | null;
@@ -27,14 +36,26 @@ interface AttendanceRecordsTableProps {
   onDateRangeChange: (startDate: string, endDate: string) => void;
   startDate: string;
   endDate: string;
+  rosteredShifts?: Record<string, ShiftDefinition | null>; // By date; null = week off
+  punches?: AttendancePunch[]; // Web punches of the range
+  locationNames?: Record<string, string>; // Work location name by ID, to label web punches
 }
 
+const NO_ROSTER: Record<string, ShiftDefinition | null> = {};
+
+const NO_PUNCHES: AttendancePunch[] = [];
+
+const NO_LOCATIONS: Record<string, string> = {};
+
 export const AttendanceRecordsTable: React.FC<AttendanceRecordsTableProps> = ({
   data,
   loading,
   onDateRangeChange,
   startDate,
   endDate,
+  rosteredShifts = NO_ROSTER,
+  punches = NO_PUNCHES,
+  locationNames = NO_LOCATIONS,
 }) => {
   // Get status badge color
   const getStatusBadge = (status: string) => {
@@ -83,6 +104,54 @@ export const AttendanceRecordsTable: React.FC<AttendanceRecordsTableProps> = ({
     return status;
   }, [data?.attendanceDetails]);
 
+  const dayPunches = useMemo(() => {
+    const result: Record<string, { checkIn: DayPunch | null; checkOut: DayPunch | null }> = {};
+    data?.attendanceDetails.forEach((detail) => {
+      result[detail.date] = getDayPunches(detail, punches, locationNames);
+    });
+    return result;
+  }, [data?.attendanceDetails, punches, locationNames]);
+
+  const evaluations = useMemo(() => {
+    const result: Record<string, ShiftAttendanceEvaluation> = {};
+    data?.attendanceDetails.forEach((detail) => {
+      if (detail.date in rosteredShifts) {
+        result[detail.date] = evaluateShiftAttendance(
+          rosteredShifts[detail.date],
+          dayPunches[detail.date]?.checkIn?.time ?? null
+        );
+      }
+    });
+    return result;
+  }, [data?.attendanceDetails, rosteredShifts, dayPunches]);
+
+  const renderSource = (dayPunch: DayPunch) => (
+    <p className="text-xs text-muted-foreground">
+      {punchSourceLabels[dayPunch.source]}
+      {dayPunch.label && ` · ${dayPunch.label}`}
+      {dayPunch.punch && dayPunch.punch.status === 'pending' && (
+        <span className="text-orange-600 dark:text-orange-400"> · {punchStatusLabels.pending}</span>
+      )}
+    </p>
+  );
+
+  const isLateOn = (detail: AttendanceDetail) => evaluations[detail.date]?.isLate ?? detail.lateCheckIn === true;
+
+  const getExpectedHours = (detail: AttendanceDetail) => {
+    const evaluation = evaluations[detail.date];
+    if (evaluation) return evaluation.expectedHours;
+    return detail.attendanceStatus === 'Weekend' ? 0 : detail.expectedHours;
+  };
+
+  const isRostered = Object.keys(evaluations).length > 0;
+  const rosteredShiftNames = Array.from(
+    new Set(
+      Object.values(evaluations)
+        .map((evaluation) => evaluation.shift?.name)
+        .filter(Boolean)
+    )
+  ).join(', ');
+
   if (loading) {
     return (
       <Card className="p-6">
@@ -114,7 +183,7 @@ export const AttendanceRecordsTable: React.FC<AttendanceRecordsTableProps> = ({
           <div>
             <h3 className="font-semibold text-sm">Attendance Records</h3>
             <p className="text-xs text-muted-foreground mt-1">
-              {data.firstName} {data.lastName} • Shift: {data.shift}
+              {data.firstName} {data.lastName} • Shift: {isRostered ? rosteredShiftNames || 'Week off' : data.shift}
             </p>
           </div>
           <div className="flex items-center gap-2">
@@ -185,16 +254,15 @@ export const AttendanceRecordsTable: React.FC<AttendanceRecordsTableProps> = ({
         <div className="text-center">
           <p className="text-xs text-muted-foreground">Late Check-ins</p>
           <p className="font-semibold text-sm text-orange-600 dark:text-orange-400">
-            {data.attendanceSummary.numberOfLateCheckins}
+            {isRostered
+              ? data.attendanceDetails.filter(isLateOn).length
+              : data.attendanceSummary.numberOfLateCheckins}
           </p>
         </div>
         <div className="text-center">
           <p className="text-xs text-muted-foreground">Expected Hours</p>
           <p className="font-semibold text-sm">
-            {data.attendanceDetails
-              .filter((d) => d.attendanceStatus !== 'Weekend')
-              .reduce((sum, d) => sum + d.expectedHours, 0)
-              .toFixed(1)}{' '}
+            {data.attendanceDetails.reduce((sum, d) => sum + getExpectedHours(d), 0).toFixed(1)}{' '}
             hrs
           </p>
         </div>
@@ -218,7 +286,9 @@ export const AttendanceRecordsTable: React.FC<AttendanceRecordsTableProps> = ({
             {data.attendanceDetails.map((detail) => {
               const statusInfo = hoursStatus[detail.date];
               const StatusIcon = statusInfo?.icon;
-              const isLate = detail.lateCheckIn === true;
+              const evaluation = evaluations[detail.date];
+              const isLate = isLateOn(detail);
+              const { checkIn, checkOut } = dayPunches[detail.date] || { checkIn: null, checkOut: null };
 
               return (
                 <TableRow
@@ -239,29 +309,31 @@ export const AttendanceRecordsTable: React.FC<AttendanceRecordsTableProps> = ({
                             ? 'Yesterday'
                             : format(parseISO(detail.date), 'EEE')}
                       </p>
+                      {evaluation && <ShiftChip shift={evaluation.shift} className="mt-1" />}
                     </div>
                   </TableCell>
                   <TableCell className="text-sm">
-                    {detail.checkinTime ? (
+                    {checkIn ? (
                       <div>
                         <p className={isLate ? 'text-orange-600 dark:text-orange-400 font-medium' : ''}>
-                          {format(parseISO(`2000-01-01T${detail.checkinTime}`), 'HH:mm')}
+                          {checkIn.time}
                         </p>
-                        {detail.checkInDoor && (
-                          <p className="text-xs text-muted-foreground">{detail.checkInDoor}</p>
+                        {evaluation?.isLate && (
+                          <p className="text-xs text-orange-600 dark:text-orange-400">
+                            {evaluation.lateByMinutes} min late
+                          </p>
                         )}
+                        {renderSource(checkIn)}
                       </div>
                     ) : (
                       <span className="text-muted-foreground">—</span>
                     )}
                   </TableCell>
                   <TableCell className="text-sm">
-                    {detail.checkoutTime ? (
+                    {checkOut ? (
                       <div>
-                        <p>{format(parseISO(`2000-01-01T${detail.checkoutTime}`), 'HH:mm')}</p>
-                        {detail.checkOutDoor && (
-                          <p className="text-xs text-muted-foreground">{detail.checkOutDoor}</p>
-                        )}
+                        <p>{checkOut.time}</p>
+                        {renderSource(checkOut)}
                       </div>
                     ) : (
                       <span className="text-muted-foreground">—</span>
@@ -280,7 +352,7 @@ export const AttendanceRecordsTable: React.FC<AttendanceRecordsTableProps> = ({
                     )}
                   </TableCell>
                   <TableCell className="text-right text-sm text-muted-foreground">
-                    {detail.expectedHours.toFixed(2)}
+                    {(evaluation ? evaluation.expectedHours : detail.expectedHours).toFixed(2)}
                   </TableCell>
                   <TableCell>
                     <div className="flex items-center gap-2">
@@ -0,0 +1,182 @@
+/**
+ * Geofence Settings Table Component
+ * Center and radius of the geofence around each work location. Web punches
+ * inside an enabled geofence are accepted; others need manager approval.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Crosshair, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAttendancePunch } from '@/contexts/AttendancePunchContext';
+import { WorkLocation } from '@/modules/user-management/types/settings.types';
+import { WorkLocationGeofence, WorkLocationGeofenceCarrier } from '../types/punch.types';
+import { DEFAULT_GEOFENCE_RADIUS_METERS, GEOLOCATION_TIMEOUT_MS } from '../constants';
+
+interface GeofenceSettingsTableProps {
+  workLocations: WorkLocation[];
+  geofences: WorkLocationGeofence[];
+  onSaved: (geofence: WorkLocationGeofence) => void;
+}
+
+// Inputs hold text so a half-typed coordinate ("12.") is not rewritten
+interface GeofenceDraft {
+  latitude: string;
+  longitude: string;
+  radiusMeters: string;
+  enabled: boolean;
+}
+
+const toDraft = (geofence?: WorkLocationGeofence): GeofenceDraft => ({
+  latitude: geofence ? String(geofence.latitude) : '',
+  longitude: geofence ? String(geofence.longitude) : '',
+  radiusMeters: String(geofence?.radiusMeters ?? DEFAULT_GEOFENCE_RADIUS_METERS),
+  enabled: geofence?.enabled ?? true,
+});
+
+const toCarrier = (draft: GeofenceDraft): WorkLocationGeofenceCarrier | null => {
+  const latitude = Number(draft.latitude);
+  const longitude = Number(draft.longitude);
+  const radiusMeters = Number(draft.radiusMeters);
+  const valid =
+    draft.latitude !== '' &&
+    draft.longitude !== '' &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180 &&
+    radiusMeters > 0;
+  return valid ? { latitude, longitude, radiusMeters, enabled: draft.enabled } : null;
+};
+
+export const GeofenceSettingsTable: React.FC<GeofenceSettingsTableProps> = ({ workLocations, geofences, onSaved }) => {
+  const { saveGeofence, isLoading } = useAttendancePunch();
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, GeofenceDraft>>({});
+
+  useEffect(() => {
+    const byLocation = new Map(geofences.map((geofence) => [geofence.workLocationId, geofence]));
+    setDrafts(Object.fromEntries(workLocations.map((location) => [location.id, toDraft(byLocation.get(location.id))])));
+  }, [workLocations, geofences]);
+
+  const update = (workLocationId: string, changes: Partial<GeofenceDraft>) =>
+    setDrafts((prev) => ({ ...prev, [workLocationId]: { ...prev[workLocationId], ...changes } }));
+
+  const fillCurrentLocation = (workLocationId: string) =>
+    navigator.geolocation?.getCurrentPosition(
+      ({ coords }) =>
+        update(workLocationId, {
+          latitude: coords.latitude.toFixed(6),
+          longitude: coords.longitude.toFixed(6),
+        }),
+      () =>
+        toast({
+          variant: 'destructive',
+          title: 'Location Unavailable',
+          description: 'Allow location access in the browser, or enter the coordinates manually.',
+        }),
+      { enableHighAccuracy: true, timeout: GEOLOCATION_TIMEOUT_MS }
+    );
+
+  const handleSave = async (workLocationId: string) => {
+    const carrier = toCarrier(drafts[workLocationId]);
+    if (!carrier) return;
+    const saved = await saveGeofence(workLocationId, carrier);
+    if (saved) onSaved(saved);
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Work Location</TableHead>
+          <TableHead>Latitude</TableHead>
+          <TableHead>Longitude</TableHead>
+          <TableHead className="w-[130px]">Radius (m)</TableHead>
+          <TableHead>Enabled</TableHead>
+          <TableHead className="w-[200px]" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {workLocations.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+              No work locations. Add them under User Management settings.
+            </TableCell>
+          </TableRow>
+        ) : (
+          workLocations.map((location) => {
+            const draft = drafts[location.id];
+            if (!draft) return null;
+            return (
+              <TableRow key={location.id}>
+                <TableCell>
+                  <div className="font-medium">{location.location}</div>
+                  <div className="text-xs text-muted-foreground">{location.description}</div>
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={draft.latitude}
+                    onChange={(e) => update(location.id, { latitude: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={draft.longitude}
+                    onChange={(e) => update(location.id, { longitude: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={draft.radiusMeters}
+                    onChange={(e) => update(location.id, { radiusMeters: e.target.value })}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Switch checked={draft.enabled} onCheckedChange={(enabled) => update(location.id, { enabled })} />
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="gap-1"
+                      title="Use my current location as the center"
+                      onClick={() => fillCurrentLocation(location.id)}
+                    >
+                      <Crosshair className="h-3 w-3" />
+                      Here
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="gap-1"
+                      disabled={isLoading || !toCarrier(draft)}
+                      onClick={() => handleSave(location.id)}
+                    >
+                      <Save className="h-3 w-3" />
+                      Save
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })
+        )}
+      </TableBody>
+    </Table>
+  );
+};
@@ -0,0 +1,135 @@
+/**
+ * Muster Roll Grid Component
+ * One row per employee and one column per day of the month, with the status
+ * code of each day, the paid / LOP totals and conflicts highlighted for HR to
+ * resolve before payroll
+ */
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { MusterCode, MusterDay, MusterRow } from '../types/muster.types';
+import { musterCodeLabels, musterConflictLabels } from '../constants';
+import { MUSTER_CODES } from '../utils/musterRoll';
+
+interface MusterRollGridProps {
+  rows: MusterRow[];
+  loading?: boolean;
+  conflictsOnly?: boolean; // Only employees with at least one conflict
+}
+
+const codeClasses: Record<MusterCode, string> = {
+  P: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  A: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  L: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  WFH: 'bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-300',
+  H: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300',
+  WO: 'bg-muted text-muted-foreground',
+};
+
+const dayTitle = (day: MusterDay): string =>
+  [
+    format(parseISO(day.date), 'EEE, dd MMM'),
+    day.code ? musterCodeLabels[day.code] : 'Upcoming',
+    day.absenceType,
+    day.lopDays > 0 ? `LOP ${day.lopDays}` : null,
+    ...day.conflicts.map((conflict) => musterConflictLabels[conflict]),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const MusterRollGrid: React.FC<MusterRollGridProps> = ({ rows, loading = false, conflictsOnly = false }) => {
+  const visibleRows = conflictsOnly ? rows.filter((row) => row.conflictCount > 0) : rows;
+  const dates = rows[0]?.days.map((day) => day.date) || [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        {MUSTER_CODES.map((code) => (
+          <span key={code} className="flex items-center gap-1">
+            <span className={cn('rounded px-1 font-medium', codeClasses[code])}>{code}</span>
+            {musterCodeLabels[code]}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="rounded px-1 ring-2 ring-destructive">&nbsp;&nbsp;</span>
+          Conflict
+        </span>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="sticky left-0 z-10 min-w-[200px] bg-background">Employee</TableHead>
+              {dates.map((date) => (
+                <TableHead key={date} className="px-1 text-center">
+                  <div className="text-xs font-medium">{format(parseISO(date), 'd')}</div>
+                  <div className="text-[10px] text-muted-foreground">{format(parseISO(date), 'EEEEE')}</div>
+                </TableHead>
+              ))}
+              <TableHead className="text-right">P</TableHead>
+              <TableHead className="text-right">WFH</TableHead>
+              <TableHead className="text-right">L</TableHead>
+              <TableHead className="text-right">A</TableHead>
+              <TableHead className="text-right">Paid</TableHead>
+              <TableHead className="text-right">LOP</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={dates.length + 7} className="text-center text-muted-foreground py-8">
+                  {loading ? 'Loading muster roll...' : conflictsOnly ? 'No conflicts this month' : 'No employees found'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              visibleRows.map((row) => (
+                <TableRow key={row.employeeId}>
+                  <TableCell className="sticky left-0 z-10 bg-background">
+                    <div className="font-medium">{row.employeeName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {row.employeeId} · {row.department}
+                    </div>
+                  </TableCell>
+                  {row.days.map((day) => (
+                    <TableCell key={day.date} className="px-1 py-1 text-center">
+                      {day.code && (
+                        <span
+                          title={dayTitle(day)}
+                          className={cn(
+                            'inline-block min-w-[28px] rounded px-1 text-xs font-medium',
+                            codeClasses[day.code],
+                            day.conflicts.length > 0 && 'ring-2 ring-destructive'
+                          )}
+                        >
+                          {day.code}
+                        </span>
+                      )}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right">{row.counts.P}</TableCell>
+                  <TableCell className="text-right">{row.counts.WFH}</TableCell>
+                  <TableCell className="text-right">{row.counts.L}</TableCell>
+                  <TableCell className="text-right">{row.counts.A}</TableCell>
+                  <TableCell className="text-right font-medium">{row.paidDays}</TableCell>
+                  <TableCell className={cn('text-right font-medium', row.lopDays > 0 && 'text-destructive')}>
+                    {row.lopDays}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+/**
+ * Overtime Approval Dialog
+ * The approver confirms the hours to pay for a claim, up to the claimed hours
+ * and what is left of the employee's monthly cap
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { OvertimeClaim } from '../types/overtime.types';
+import { overtimeDayTypeLabels } from '../constants';
+
+interface OvertimeApprovalDialogProps {
+  claim: OvertimeClaim | null;
+  remainingCapHours: number; // Infinity when the policy has no monthly cap
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (claim: OvertimeClaim, approvedHours: number) => void;
+}
+
+export const OvertimeApprovalDialog: React.FC<OvertimeApprovalDialogProps> = ({
+  claim,
+  remainingCapHours,
+  isSaving,
+  onOpenChange,
+  onConfirm,
+}) => {
+  const maxHours = claim ? Math.min(claim.hours, remainingCapHours) : 0;
+  const [hours, setHours] = useState(0);
+
+  useEffect(() => {
+    setHours(maxHours);
+  }, [claim?.id, maxHours]);
+
+  const capped = !!claim && remainingCapHours < claim.hours;
+  const invalid = hours <= 0 || hours > maxHours;
+
+  return (
+    <Dialog open={!!claim} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Approve Overtime</DialogTitle>
+          <DialogDescription>
+            {claim &&
+              `${claim.employeeName} · ${format(parseISO(claim.date), 'EEE, dd MMM yyyy')} · ${
+                overtimeDayTypeLabels[claim.dayType]
+              } ×${claim.multiplier}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {claim && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Claimed</div>
+                <div className="font-medium">{claim.hours.toFixed(2)} h</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Left Under Monthly Cap</div>
+                <div className="font-medium">
+                  {Number.isFinite(remainingCapHours) ? `${remainingCapHours.toFixed(2)} h` : 'No cap'}
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Hours to Approve</Label>
+              <Input
+                type="number"
+                min={0}
+                max={maxHours}
+                step="0.25"
+                value={hours}
+                onChange={(e) => setHours(e.target.value === '' ? 0 : Number(e.target.value))}
+              />
+              {capped && (
+                <p className="text-xs text-muted-foreground">
+                  Limited to {maxHours.toFixed(2)} h by the monthly cap.
+                </p>
+              )}
+              {maxHours <= 0 && (
+                <p className="text-sm text-destructive">The employee has reached the monthly cap; reject the claim instead.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => claim && onConfirm(claim, hours)} disabled={isSaving || invalid}>
+            Approve
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,103 @@
+/**
+ * Overtime Candidates Table Component
+ * Overtime detected in the employee's attendance that has not been claimed
+ * yet, with selection for submitting claims
+ */
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { OvertimeCandidate } from '../types/overtime.types';
+import { overtimeBasisLabels, overtimeDayTypeLabels } from '../constants';
+import { overtimeClaimKey } from '../utils/overtimeRules';
+
+interface OvertimeCandidatesTableProps {
+  candidates: OvertimeCandidate[];
+  selectedKeys: Set<string>; // overtimeClaimKey of the selected candidates
+  onSelectionChange: (keys: Set<string>) => void;
+  loading?: boolean;
+}
+
+export const OvertimeCandidatesTable: React.FC<OvertimeCandidatesTableProps> = ({
+  candidates,
+  selectedKeys,
+  onSelectionChange,
+  loading = false,
+}) => {
+  const keys = candidates.map((candidate) => overtimeClaimKey(candidate.date, candidate.basis));
+  const allSelected = keys.length > 0 && keys.every((key) => selectedKeys.has(key));
+
+  const toggle = (key: string, checked: boolean) => {
+    const next = new Set(selectedKeys);
+    if (checked) next.add(key);
+    else next.delete(key);
+    onSelectionChange(next);
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-[40px]">
+            <Checkbox
+              checked={allSelected}
+              disabled={keys.length === 0}
+              onCheckedChange={(checked) => onSelectionChange(checked ? new Set(keys) : new Set())}
+            />
+          </TableHead>
+          <TableHead>Date</TableHead>
+          <TableHead>Day</TableHead>
+          <TableHead>Rule</TableHead>
+          <TableHead className="text-right">Worked</TableHead>
+          <TableHead className="text-right">Expected</TableHead>
+          <TableHead className="text-right">Overtime</TableHead>
+          <TableHead className="text-right">Multiplier</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {candidates.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={8} className="text-center text-muted-foreground py-8">
+              {loading ? 'Checking attendance...' : 'No unclaimed overtime in this period'}
+            </TableCell>
+          </TableRow>
+        ) : (
+          candidates.map((candidate, index) => (
+            <TableRow key={keys[index]}>
+              <TableCell>
+                <Checkbox
+                  checked={selectedKeys.has(keys[index])}
+                  onCheckedChange={(checked) => toggle(keys[index], checked === true)}
+                />
+              </TableCell>
+              <TableCell className="whitespace-nowrap font-medium">
+                {format(parseISO(candidate.date), 'EEE, dd MMM yyyy')}
+              </TableCell>
+              <TableCell>
+                <Badge variant={candidate.dayType === 'WEEKDAY' ? 'outline' : 'secondary'}>
+                  {overtimeDayTypeLabels[candidate.dayType]}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-sm text-muted-foreground">
+                {overtimeBasisLabels[candidate.basis]}
+              </TableCell>
+              <TableCell className="text-right">{candidate.workedHours.toFixed(2)} h</TableCell>
+              <TableCell className="text-right">{candidate.expectedHours.toFixed(2)} h</TableCell>
+              <TableCell className="text-right font-medium">{candidate.hours.toFixed(2)} h</TableCell>
+              <TableCell className="text-right">×{candidate.multiplier}</TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+};
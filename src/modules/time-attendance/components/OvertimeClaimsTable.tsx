@@ -0,0 +1,144 @@
+/**
+ * Overtime Claims Table Component
+ * Submitted overtime claims. Employees can cancel their pending claims; the
+ * reporting manager (or their delegate) approves or rejects them.
+ */
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle2, Trash2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { OvertimeClaim, OvertimeClaimStatus } from '../types/overtime.types';
+import { overtimeDayTypeLabels, overtimeStatusLabels } from '../constants';
+
+interface OvertimeClaimsTableProps {
+  claims: OvertimeClaim[];
+  loading?: boolean;
+  showEmployee?: boolean;
+  onCancel?: (claim: OvertimeClaim) => void; // Employee's own claims
+  onDecide?: (claim: OvertimeClaim, action: 'approve' | 'reject') => void; // Approver's queue
+}
+
+const statusVariants: Record<OvertimeClaimStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  approved: 'default',
+  rejected: 'destructive',
+  cancelled: 'secondary',
+};
+
+export const OvertimeClaimsTable: React.FC<OvertimeClaimsTableProps> = ({
+  claims,
+  loading = false,
+  showEmployee = false,
+  onCancel,
+  onDecide,
+}) => {
+  const columns = showEmployee ? 7 : 6;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {showEmployee && <TableHead>Employee</TableHead>}
+          <TableHead>Date</TableHead>
+          <TableHead>Day</TableHead>
+          <TableHead className="text-right">Hours</TableHead>
+          <TableHead>Reason</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="w-[200px]" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {claims.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={columns} className="text-center text-muted-foreground py-8">
+              {loading ? 'Loading overtime claims...' : 'No overtime claims'}
+            </TableCell>
+          </TableRow>
+        ) : (
+          claims.map((claim) => (
+            <TableRow key={claim.id}>
+              {showEmployee && (
+                <TableCell>
+                  <div className="font-medium">{claim.employeeName}</div>
+                  <div className="text-xs text-muted-foreground">{claim.officialEmail}</div>
+                </TableCell>
+              )}
+              <TableCell className="whitespace-nowrap">
+                <div className="font-medium">{format(parseISO(claim.date), 'EEE, dd MMM yyyy')}</div>
+                <div className="text-xs text-muted-foreground">
+                  {claim.basis === 'WEEKLY' ? 'Week' : 'Worked'} {claim.workedHours.toFixed(2)} h of{' '}
+                  {claim.expectedHours.toFixed(2)} h
+                </div>
+              </TableCell>
+              <TableCell>
+                <Badge variant={claim.dayType === 'WEEKDAY' ? 'outline' : 'secondary'}>
+                  {overtimeDayTypeLabels[claim.dayType]} ×{claim.multiplier}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                {claim.approvedHours !== undefined && claim.approvedHours !== claim.hours ? (
+                  <>
+                    <span className="font-medium">{claim.approvedHours.toFixed(2)} h</span>
+                    <div className="text-xs text-muted-foreground line-through">{claim.hours.toFixed(2)} h</div>
+                  </>
+                ) : (
+                  <span className="font-medium">{claim.hours.toFixed(2)} h</span>
+                )}
+              </TableCell>
+              <TableCell className="max-w-[240px] text-sm text-muted-foreground">{claim.reason}</TableCell>
+              <TableCell>
+                <Badge variant={statusVariants[claim.status]}>{overtimeStatusLabels[claim.status]}</Badge>
+                {claim.decidedBy && <div className="text-xs text-muted-foreground mt-1">by {claim.decidedBy}</div>}
+                {claim.exportedAt && (
+                  <div className="text-xs text-muted-foreground">
+                    Exported {format(parseISO(claim.exportedAt), 'dd MMM')}
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>
+                {claim.status === 'pending' && (
+                  <div className="flex justify-end gap-2">
+                    {onCancel && (
+                      <Button size="sm" variant="outline" className="gap-1" disabled={loading} onClick={() => onCancel(claim)}>
+                        <Trash2 className="h-3 w-3" />
+                        Cancel
+                      </Button>
+                    )}
+                    {onDecide && (
+                      <>
+                        <Button size="sm" className="gap-1" disabled={loading} onClick={() => onDecide(claim, 'approve')}>
+                          <CheckCircle2 className="h-3 w-3" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1"
+                          disabled={loading}
+                          onClick={() => onDecide(claim, 'reject')}
+                        >
+                          <XCircle className="h-3 w-3" />
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+};
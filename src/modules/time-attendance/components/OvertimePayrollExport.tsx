@@ -0,0 +1,139 @@
+/**
+ * Overtime Payroll Export Component
+ * Approved overtime of a pay period per employee, downloadable as CSV for
+ * payroll. Marking the period exported stamps the claims so they are not paid
+ * twice.
+ */
+
+import React from 'react';
+import { format, parse } from 'date-fns';
+import { CheckCircle2, Download } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { downloadTextFile } from '@/lib/download';
+import { OvertimeClaim } from '../types/overtime.types';
+import { buildOvertimePayrollCsv, buildOvertimePayrollLines, getPayrollLineHours } from '../utils/overtimeRules';
+
+interface OvertimePayrollExportProps {
+  period: string; // yyyy-MM
+  claims: OvertimeClaim[]; // Approved claims of the period
+  loading?: boolean;
+  onMarkExported: (claimIds: string[]) => void;
+}
+
+export const OvertimePayrollExport: React.FC<OvertimePayrollExportProps> = ({
+  period,
+  claims,
+  loading = false,
+  onMarkExported,
+}) => {
+  const lines = buildOvertimePayrollLines(claims);
+  const exportedIds = new Set(claims.filter((claim) => claim.exportedAt).map((claim) => claim.id));
+  const pendingIds = claims.filter((claim) => !claim.exportedAt).map((claim) => claim.id);
+
+  const totals = lines.reduce(
+    (sum, line) => ({
+      weekday: sum.weekday + line.hoursByDayType.WEEKDAY,
+      weekend: sum.weekend + line.hoursByDayType.WEEKEND,
+      holiday: sum.holiday + line.hoursByDayType.HOLIDAY,
+      total: sum.total + getPayrollLineHours(line),
+      payable: sum.payable + line.payableHours,
+    }),
+    { weekday: 0, weekend: 0, holiday: 0, total: 0, payable: 0 }
+  );
+
+  const handleDownload = () =>
+    downloadTextFile(buildOvertimePayrollCsv(lines), `overtime-${period}.csv`, 'text/csv');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {format(parse(period, 'yyyy-MM', new Date()), 'MMMM yyyy')} · {claims.length} approved claims
+          {pendingIds.length > 0 && ` · ${pendingIds.length} not yet exported`}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" className="gap-2" onClick={handleDownload} disabled={lines.length === 0}>
+            <Download className="h-4 w-4" />
+            Download CSV
+          </Button>
+          <Button className="gap-2" onClick={() => onMarkExported(pendingIds)} disabled={loading || pendingIds.length === 0}>
+            <CheckCircle2 className="h-4 w-4" />
+            Mark Exported
+          </Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Employee</TableHead>
+            <TableHead className="text-right">Weekday</TableHead>
+            <TableHead className="text-right">Weekend</TableHead>
+            <TableHead className="text-right">Holiday</TableHead>
+            <TableHead className="text-right">Total Hours</TableHead>
+            <TableHead className="text-right">Payable Hours</TableHead>
+            <TableHead>Payroll</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {lines.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+                {loading ? 'Loading approved overtime...' : 'No approved overtime in this period'}
+              </TableCell>
+            </TableRow>
+          ) : (
+            lines.map((line) => {
+              const exported = line.claimIds.filter((id) => exportedIds.has(id)).length;
+              return (
+                <TableRow key={line.employeeId}>
+                  <TableCell>
+                    <div className="font-medium">{line.employeeName}</div>
+                    <div className="text-xs text-muted-foreground">{line.claimIds.length} claims</div>
+                  </TableCell>
+                  <TableCell className="text-right">{line.hoursByDayType.WEEKDAY.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{line.hoursByDayType.WEEKEND.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{line.hoursByDayType.HOLIDAY.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{getPayrollLineHours(line).toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-medium">{line.payableHours.toFixed(2)}</TableCell>
+                  <TableCell>
+                    {exported === line.claimIds.length ? (
+                      <Badge variant="secondary">Exported</Badge>
+                    ) : (
+                      <Badge variant="outline">
+                        {exported > 0 ? `${line.claimIds.length - exported} new` : 'Not exported'}
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+        {lines.length > 0 && (
+          <TableFooter>
+            <TableRow>
+              <TableCell className="font-medium">Total</TableCell>
+              <TableCell className="text-right">{totals.weekday.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{totals.weekend.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{totals.holiday.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{totals.total.toFixed(2)}</TableCell>
+              <TableCell className="text-right font-medium">{totals.payable.toFixed(2)}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableFooter>
+        )}
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+/**
+ * Overtime Policy Form Component
+ * Daily and weekly thresholds, rounding, pay multipliers per day type and the
+ * monthly cap on approved overtime
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { OvertimeDayType, OvertimePolicy } from '../types/overtime.types';
+import { overtimeDayTypeLabels } from '../constants';
+
+interface OvertimePolicyFormProps {
+  policy: OvertimePolicy;
+  isSaving: boolean;
+  onSave: (policy: OvertimePolicy) => void;
+}
+
+const toNumber = (value: string) => (value === '' ? 0 : Number(value));
+
+const NumberField = ({
+  label,
+  value,
+  onChange,
+  hint,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  hint?: string;
+}) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    <Input type="number" min={0} step="any" value={value} onChange={(e) => onChange(toNumber(e.target.value))} />
+    {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+  </div>
+);
+
+export const OvertimePolicyForm: React.FC<OvertimePolicyFormProps> = ({ policy, isSaving, onSave }) => {
+  const [draft, setDraft] = useState<OvertimePolicy>(policy);
+
+  useEffect(() => {
+    setDraft(policy);
+  }, [policy]);
+
+  const update = (changes: Partial<OvertimePolicy>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const updateMultiplier = (dayType: OvertimeDayType, multiplier: number) =>
+    setDraft((prev) => ({ ...prev, multipliers: { ...prev.multipliers, [dayType]: multiplier } }));
+
+  const invalidMultiplier = Object.values(draft.multipliers).some((multiplier) => multiplier < 1);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Detection</CardTitle>
+            <CardDescription>When worked hours count as overtime</CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <NumberField
+              label="Daily Threshold (minutes)"
+              value={draft.dailyThresholdMinutes}
+              onChange={(dailyThresholdMinutes) => update({ dailyThresholdMinutes })}
+              hint="Minimum excess over the day's expected hours"
+            />
+            <NumberField
+              label="Weekly Threshold (hours)"
+              value={draft.weeklyThresholdHours}
+              onChange={(weeklyThresholdHours) => update({ weeklyThresholdHours })}
+              hint="Weekday hours per week beyond this; 0 turns the weekly rule off"
+            />
+            <NumberField
+              label="Rounding (minutes)"
+              value={draft.roundingMinutes}
+              onChange={(roundingMinutes) => update({ roundingMinutes })}
+              hint="Overtime is rounded down to blocks of this size"
+            />
+            <NumberField
+              label="Monthly Cap (hours)"
+              value={draft.monthlyCapHours}
+              onChange={(monthlyCapHours) => update({ monthlyCapHours })}
+              hint="Approved overtime per employee per month; 0 = no cap"
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Pay Multipliers</CardTitle>
+            <CardDescription>
+              Weekend covers weekly and rostered week offs; holidays are the company's observed holidays
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-3">
+            {(Object.keys(overtimeDayTypeLabels) as OvertimeDayType[]).map((dayType) => (
+              <NumberField
+                key={dayType}
+                label={`${overtimeDayTypeLabels[dayType]} (×)`}
+                value={draft.multipliers[dayType]}
+                onChange={(multiplier) => updateMultiplier(dayType, multiplier)}
+              />
+            ))}
+            {invalidMultiplier && (
+              <p className="text-sm text-destructive sm:col-span-3">Multipliers must be at least 1.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex justify-end">
+        <Button className="gap-2" onClick={() => onSave(draft)} disabled={isSaving || invalidMultiplier}>
+          <Save className="h-4 w-4" />
+          Save Policy
+        </Button>
+      </div>
+    </div>
+  );
+};
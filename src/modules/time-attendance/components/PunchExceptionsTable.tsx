@@ -0,0 +1,126 @@
+/**
+ * Punch Exceptions Table Component
+ * Web punches made outside every geofence (or without a location) for the
+ * reporting manager, or their delegate, to approve or reject
+ */
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle2, ExternalLink, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AttendancePunch, PunchStatus } from '../types/punch.types';
+import { punchStatusLabels, punchTypeLabels } from '../constants';
+
+interface PunchExceptionsTableProps {
+  punches: AttendancePunch[];
+  locationNames: Record<string, string>;
+  loading?: boolean;
+  onDecide: (punch: AttendancePunch, action: 'approve' | 'reject') => void;
+}
+
+const statusVariants: Record<PunchStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  accepted: 'secondary',
+  pending: 'outline',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+export const PunchExceptionsTable: React.FC<PunchExceptionsTableProps> = ({
+  punches,
+  locationNames,
+  loading = false,
+  onDecide,
+}) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Employee</TableHead>
+        <TableHead>Punch</TableHead>
+        <TableHead>Location</TableHead>
+        <TableHead>Reason</TableHead>
+        <TableHead>Status</TableHead>
+        <TableHead className="w-[200px]" />
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {punches.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+            {loading ? 'Loading punch exceptions...' : 'No punch exceptions'}
+          </TableCell>
+        </TableRow>
+      ) : (
+        punches.map((punch) => (
+          <TableRow key={punch.id}>
+            <TableCell>
+              <div className="font-medium">{punch.employeeName}</div>
+              <div className="text-xs text-muted-foreground">{punch.officialEmail}</div>
+            </TableCell>
+            <TableCell className="whitespace-nowrap">
+              <div className="font-medium">
+                {punchTypeLabels[punch.type]} {format(parseISO(punch.punchedAt), 'HH:mm')}
+              </div>
+              <div className="text-xs text-muted-foreground">{format(parseISO(punch.date), 'EEE, dd MMM yyyy')}</div>
+            </TableCell>
+            <TableCell className="text-sm">
+              {punch.position ? (
+                <div className="space-y-0.5">
+                  {punch.workLocationId && punch.distanceMeters !== undefined && (
+                    <div>
+                      {punch.distanceMeters} m from {locationNames[punch.workLocationId] || punch.workLocationId}
+                    </div>
+                  )}
+                  <a
+                    href={`https://www.google.com/maps?q=${punch.position.latitude},${punch.position.longitude}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    View on map (±{punch.position.accuracyMeters} m)
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                </div>
+              ) : (
+                <span className="text-muted-foreground">Location unavailable</span>
+              )}
+            </TableCell>
+            <TableCell className="max-w-[240px] text-sm text-muted-foreground">{punch.reason}</TableCell>
+            <TableCell>
+              <Badge variant={statusVariants[punch.status]}>{punchStatusLabels[punch.status]}</Badge>
+              {punch.decidedBy && <div className="text-xs text-muted-foreground mt-1">by {punch.decidedBy}</div>}
+            </TableCell>
+            <TableCell>
+              {punch.status === 'pending' && (
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" className="gap-1" disabled={loading} onClick={() => onDecide(punch, 'approve')}>
+                    <CheckCircle2 className="h-3 w-3" />
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    disabled={loading}
+                    onClick={() => onDecide(punch, 'reject')}
+                  >
+                    <XCircle className="h-3 w-3" />
+                    Reject
+                  </Button>
+                </div>
+              )}
+            </TableCell>
+          </TableRow>
+        ))
+      )}
+    </TableBody>
+  </Table>
+);
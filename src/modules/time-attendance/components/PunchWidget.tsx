@@ -0,0 +1,223 @@
+/**
+ * Punch Widget Component
+ * Web check-in/check-out for remote and field staff. The browser's location
+ * is checked against the work location geofences; a punch outside all of
+ * them (or without a location) needs a reason and the reporting manager's
+ * approval.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Fingerprint, Loader2, LogIn, LogOut, MapPin } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { useAttendancePunch } from '@/contexts/AttendancePunchContext';
+import { useUserManagement } from '@/contexts/UserManagementContext';
+import { AttendancePunch, GeofenceMatch, GeoPosition, WorkLocationGeofence } from '../types/punch.types';
+import { GEOLOCATION_MAX_AGE_MS, GEOLOCATION_TIMEOUT_MS, punchStatusLabels, punchTypeLabels } from '../constants';
+import { getNextPunchType, matchGeofence } from '../utils/punches';
+
+interface PunchWidgetProps {
+  officialEmail: string; // Punches are recorded for the signed-in user; used to list today's punches
+  onPunched?: (punch: AttendancePunch) => void;
+  className?: string;
+}
+
+// Work locations of a tenant fit in one page
+const MAX_WORK_LOCATIONS = 100;
+
+interface PendingException {
+  position: GeoPosition | null;
+  match: GeofenceMatch;
+  locationError?: string;
+}
+
+const getBrowserPosition = (): Promise<GeoPosition> =>
+  new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('This browser does not share its location'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) =>
+        resolve({
+          latitude: coords.latitude,
+          longitude: coords.longitude,
+          accuracyMeters: Math.round(coords.accuracy),
+        }),
+      (error) =>
+        reject(
+          new Error(
+            error.code === error.PERMISSION_DENIED ? 'Location permission was denied' : 'Your location could not be determined'
+          )
+        ),
+      { enableHighAccuracy: true, timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: GEOLOCATION_MAX_AGE_MS }
+    );
+  });
+
+export const PunchWidget: React.FC<PunchWidgetProps> = ({ officialEmail, onPunched, className }) => {
+  const { getGeofences, createPunch, searchPunches, isLoading } = useAttendancePunch();
+  const { refreshWorkLocations } = useUserManagement();
+  const [geofences, setGeofences] = useState<WorkLocationGeofence[]>([]);
+  const [locationNames, setLocationNames] = useState<Record<string, string>>({});
+  const [punchesToday, setPunchesToday] = useState<AttendancePunch[]>([]);
+  const [locating, setLocating] = useState(false);
+  const [exception, setException] = useState<PendingException | null>(null);
+  const [reason, setReason] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const fetchSetup = async () => {
+    const [geofenceResult, locationResult] = await Promise.all([
+      getGeofences(),
+      refreshWorkLocations({}, 0, MAX_WORK_LOCATIONS),
+    ]);
+    setGeofences(geofenceResult || []);
+    setLocationNames(
+      Object.fromEntries((locationResult?.content || []).map((location) => [location.id, location.location]))
+    );
+  };
+  useEffect(() => {
+    fetchSetup();
+  }, []);
+
+  const fetchPunchesToday = async () => {
+    if (!officialEmail) return;
+    const result = await searchPunches(
+      { filters: { and: { officialEmail, date: today } }, sort: { punchedAt: 1 } },
+      0,
+      50
+    );
+    setPunchesToday(result?.content || []);
+  };
+  useEffect(() => {
+    fetchPunchesToday();
+  }, [officialEmail, today]);
+
+  const nextType = getNextPunchType(punchesToday);
+  const locationName = (match: GeofenceMatch) =>
+    match.geofence ? locationNames[match.geofence.workLocationId] || match.geofence.workLocationId : '';
+
+  const submit = async (position: GeoPosition | null, match: GeofenceMatch, exceptionReason?: string) => {
+    const punch = await createPunch({
+      type: nextType,
+      date: today,
+      position,
+      workLocationId: match.geofence?.workLocationId,
+      distanceMeters: match.distanceMeters ?? undefined,
+      withinGeofence: match.withinGeofence,
+      reason: exceptionReason,
+    });
+    if (punch) {
+      setException(null);
+      setReason('');
+      fetchPunchesToday();
+      onPunched?.(punch);
+    }
+  };
+
+  const handlePunch = async () => {
+    setLocating(true);
+    let position: GeoPosition | null = null;
+    let locationError: string | undefined;
+    try {
+      position = await getBrowserPosition();
+    } catch (error) {
+      locationError = error instanceof Error ? error.message : 'Your location could not be determined';
+    } finally {
+      setLocating(false);
+    }
+
+    const match = matchGeofence(position, geofences);
+    if (match.withinGeofence) await submit(position, match);
+    else setException({ position, match, locationError });
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Fingerprint className="h-4 w-4" />
+          Web Check-in
+        </CardTitle>
+        <CardDescription>{format(new Date(), 'EEEE, dd MMM yyyy')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {punchesToday.length > 0 && (
+          <div className="space-y-1">
+            {punchesToday.map((punch) => (
+              <div key={punch.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className={cn(punch.status === 'rejected' && 'line-through text-muted-foreground')}>
+                  {punchTypeLabels[punch.type]} {format(parseISO(punch.punchedAt), 'HH:mm')}
+                  {punch.workLocationId && (
+                    <span className="text-muted-foreground">
+                      {' '}
+                      · {locationNames[punch.workLocationId] || punch.workLocationId}
+                    </span>
+                  )}
+                </span>
+                {punch.status !== 'accepted' && (
+                  <Badge variant={punch.status === 'rejected' ? 'destructive' : 'outline'} className="text-xs">
+                    {punchStatusLabels[punch.status]}
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {exception ? (
+          <div className="space-y-3">
+            <Alert variant="destructive">
+              <MapPin className="h-4 w-4" />
+              <AlertDescription>
+                {exception.locationError
+                  ? `${exception.locationError}.`
+                  : exception.match.geofence
+                    ? `You are ${exception.match.distanceMeters} m from ${locationName(exception.match)}, outside its ${exception.match.geofence.radiusMeters} m geofence.`
+                    : 'No work location has a geofence set up yet.'}{' '}
+                This {punchTypeLabels[nextType].toLowerCase()} needs your manager's approval.
+              </AlertDescription>
+            </Alert>
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                placeholder="e.g. Client visit, working from site"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setException(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => submit(exception.position, exception.match, reason.trim())}
+                disabled={isLoading || !reason.trim()}
+              >
+                Submit for Approval
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button className="w-full gap-2" onClick={handlePunch} disabled={locating || isLoading || !officialEmail}>
+            {locating ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : nextType === 'CHECK_IN' ? (
+              <LogIn className="h-4 w-4" />
+            ) : (
+              <LogOut className="h-4 w-4" />
+            )}
+            {locating ? 'Getting your location...' : nextType === 'CHECK_IN' ? 'Check In' : 'Check Out'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
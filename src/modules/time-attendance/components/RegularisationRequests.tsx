@@ -2,6 +2,7 @@
  * Regularisation Requests Component
  * Displays extra hours requests with tabs and filtering
  * Different views for EMPLOYEE and REPORTING_MANAGER roles
+ * Delegates also get a tab with the team requests of managers who delegated to them
  */
 
 import React, { useState } from 'react';
@@ -21,7 +22,9 @@ import {
   Loader2,
   MessageCircle,
   Trash2,
+  UserCheck,
 } from 'lucide-react';
+import { ActingForBanner, Delegation } from '@/modules/delegation';
 import {
   ExtraHoursRequest,
   AttendanceRole,
@@ -44,6 +47,12 @@ interface RegularisationRequestsProps {
   onApproveRequest: (id: string) => Promise<void>;
   onRejectRequest: (id: string) => Promise<void>;
   addRequestLoading?: boolean;
+  // Delegated queue - requests reporting to the selected delegating manager
+  delegations?: Delegation[];
+  actingForId?: string;
+  onActingForChange?: (delegationId: string) => void;
+  delegatedData?: PaginatedResponse<ExtraHoursRequest> | null;
+  onDelegatedAction?: (id: string, action: 'approve' | 'reject') => Promise<void>;
 }
 
 export const RegularisationRequests: React.FC<RegularisationRequestsProps> = ({
@@ -60,9 +69,14 @@ export const RegularisationRequests: React.FC<RegularisationRequestsProps> = ({
   onApproveRequest,
   onRejectRequest,
   addRequestLoading,
+  delegations = [],
+  actingForId = '',
+  onActingForChange,
+  delegatedData,
+  onDelegatedAction,
 }) => {
   const [addRequestOpen, setAddRequestOpen] = useState(false);
-  const [currentTab, setCurrentTab] = useState<'my-requests' | 'team-requests'>('my-requests');
+  const [currentTab, setCurrentTab] = useState<'my-requests' | 'team-requests' | 'delegated-requests'>('my-requests');
   const [actionLoading, setActionLoading] = useState<Record<string, boolean>>({});
 
   // Removed unused filterOptions - they are not needed for this component
@@ -93,10 +107,15 @@ export const RegularisationRequests: React.FC<RegularisationRequestsProps> = ({
 
   const handleActionClick = async (
     id: string,
-    action: 'cancel' | 'approve' | 'reject'
+    action: 'cancel' | 'approve' | 'reject',
+    delegated: boolean = false
   ) => {
     setActionLoading({ ...actionLoading, [id]: true });
     try {
+      if (delegated && action !== 'cancel') {
+        await onDelegatedAction?.(id, action);
+        return;
+      }
       if (action === 'cancel') {
         await onCancelRequest(id);
       } else if (action === 'approve') {
@@ -110,119 +129,126 @@ export const RegularisationRequests: React.FC<RegularisationRequestsProps> = ({
     }
   };
 
-  const renderRequestRow = (request: ExtraHoursRequest, canCancel: boolean = false) => (
-    <Card key={request.id} className="p-4 hover:bg-muted/50 transition-colors">
-      <div className="space-y-3">
-        {/* Header */}
-        <div className="flex items-start justify-between gap-3">
-          <div className="flex-1">
-            <div className="flex items-center gap-2 mb-1">
-              <p className="font-semibold text-sm">
-                {format(parseISO(request.date), 'MMM dd, yyyy')}
-              </p>
-              <Badge className={`text-xs gap-1 ${getStatusBadge(request.status)}`}>
-                {getStatusIcon(request.status)}
-                <span className="capitalize">{request.status}</span>
-              </Badge>
-            </div>
+  const renderRequestRow = (
+    request: ExtraHoursRequest,
+    canCancel: boolean = false,
+    delegated: boolean = false
+  ) => {
+    const canReview = delegated || role === 'REPORTING_MANAGER';
+    return (
+      <Card key={request.id} className="p-4 hover:bg-muted/50 transition-colors">
+        <div className="space-y-3">
+          {/* Header */}
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex-1">
+              <div className="flex items-center gap-2 mb-1">
+                <p className="font-semibold text-sm">
+                  {format(parseISO(request.date), 'MMM dd, yyyy')}
+                </p>
+                <Badge className={`text-xs gap-1 ${getStatusBadge(request.status)}`}>
+                  {getStatusIcon(request.status)}
+                  <span className="capitalize">{request.status}</span>
+                </Badge>
+              </div>
 
-            {/* Employee email for team requests */}
-            {role === 'REPORTING_MANAGER' && request.officialEmail !== currentEmail && (
-              <p className="text-xs text-muted-foreground">{request.officialEmail}</p>
-            )}
-          </div>
-          <div className="text-right">
-            <p className="font-semibold text-sm">{request.extraHours} hours</p>
-            <p className="text-xs text-muted-foreground">requested</p>
+              {/* Employee email for team requests */}
+              {canReview && request.officialEmail !== currentEmail && (
+                <p className="text-xs text-muted-foreground">{request.officialEmail}</p>
+              )}
+            </div>
+            <div className="text-right">
+              <p className="font-semibold text-sm">{request.extraHours} hours</p>
+              <p className="text-xs text-muted-foreground">requested</p>
+            </div>
           </div>
-        </div>
 
-        <Separator className="my-2" />
+          <Separator className="my-2" />
 
-        {/* Details */}
-        <div className="grid grid-cols-2 gap-2 text-xs">
-          <div>
-            <p className="text-muted-foreground">Reason</p>
-            <p className="font-medium line-clamp-2">{request.reason}</p>
-          </div>
-          <div className="text-right">
-            <p className="text-muted-foreground">Submitted</p>
-            <p className="font-medium">
-              {request.createdAt ? format(parseISO(request.createdAt), 'MMM dd') : '—'}
-            </p>
+          {/* Details */}
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div>
+              <p className="text-muted-foreground">Reason</p>
+              <p className="font-medium line-clamp-2">{request.reason}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-muted-foreground">Submitted</p>
+              <p className="font-medium">
+                {request.createdAt ? format(parseISO(request.createdAt), 'MMM dd') : '—'}
+              </p>
+            </div>
           </div>
-        </div>
 
-        {/* Updated At */}
-        {request.updatedAt && (
-          <p className="text-xs text-muted-foreground">
-            Updated: {format(parseISO(request.updatedAt), 'MMM dd, HH:mm')}
-          </p>
-        )}
-
-        {/* Actions */}
-        <div className="flex items-center gap-2 pt-2">
-          {/* For Employee: Cancel pending requests */}
-          {canCancel && request.status === 'pending' && (
-            <Button
-              size="sm"
-              variant="destructive"
-              onClick={() => handleActionClick(request.id, 'cancel')}
-              disabled={actionLoading[request.id] || loading}
-              className="gap-2 text-xs"
-            >
-              {actionLoading[request.id] ? (
-                <Loader2 className="h-3 w-3 animate-spin" />
-              ) : (
-                <Trash2 className="h-3 w-3" />
-              )}
-              Cancel Request
-            </Button>
+          {/* Updated At */}
+          {request.updatedAt && (
+            <p className="text-xs text-muted-foreground">
+              Updated: {format(parseISO(request.updatedAt), 'MMM dd, HH:mm')}
+            </p>
           )}
 
-          {/* For Reporting Manager: Approve/Reject pending requests */}
-          {role === 'REPORTING_MANAGER' && request.status === 'pending' && (
-            <>
+          {/* Actions */}
+          <div className="flex items-center gap-2 pt-2">
+            {/* For Employee: Cancel pending requests */}
+            {canCancel && request.status === 'pending' && (
               <Button
                 size="sm"
-                className="gap-2 text-xs"
-                onClick={() => handleActionClick(request.id, 'approve')}
+                variant="destructive"
+                onClick={() => handleActionClick(request.id, 'cancel')}
                 disabled={actionLoading[request.id] || loading}
-              >
-                {actionLoading[request.id] ? (
-                  <Loader2 className="h-3 w-3 animate-spin" />
-                ) : (
-                  <CheckCircle2 className="h-3 w-3" />
-                )}
-                Approve
-              </Button>
-              <Button
-                size="sm"
-                variant="outline"
                 className="gap-2 text-xs"
-                onClick={() => handleActionClick(request.id, 'reject')}
-                disabled={actionLoading[request.id] || loading}
               >
                 {actionLoading[request.id] ? (
                   <Loader2 className="h-3 w-3 animate-spin" />
                 ) : (
-                  <XCircle className="h-3 w-3" />
+                  <Trash2 className="h-3 w-3" />
                 )}
-                Reject
+                Cancel Request
               </Button>
-            </>
-          )}
+            )}
 
-          {/* Status badge when no actions available */}
-          {!canCancel && request.status !== 'pending' && (
-            <div className="flex-1">
-              <p className="text-xs text-muted-foreground">No actions available</p>
-            </div>
-          )}
+            {/* For Reporting Manager or delegate: Approve/Reject pending requests */}
+            {canReview && request.status === 'pending' && (
+              <>
+                <Button
+                  size="sm"
+                  className="gap-2 text-xs"
+                  onClick={() => handleActionClick(request.id, 'approve', delegated)}
+                  disabled={actionLoading[request.id] || loading}
+                >
+                  {actionLoading[request.id] ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="h-3 w-3" />
+                  )}
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2 text-xs"
+                  onClick={() => handleActionClick(request.id, 'reject', delegated)}
+                  disabled={actionLoading[request.id] || loading}
+                >
+                  {actionLoading[request.id] ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <XCircle className="h-3 w-3" />
+                  )}
+                  Reject
+                </Button>
+              </>
+            )}
+
+            {/* Status badge when no actions available */}
+            {!canCancel && request.status !== 'pending' && (
+              <div className="flex-1">
+                <p className="text-xs text-muted-foreground">No actions available</p>
+              </div>
+            )}
+          </div>
         </div>
-      </div>
-    </Card>
-  );
+      </Card>
+    );
+  };
 
   // Loading state
   if (loading && !data) {
@@ -256,6 +282,7 @@ export const RegularisationRequests: React.FC<RegularisationRequestsProps> = ({
   const requests = data?.content || [];
   const myRequests = requests.filter((r) => r.officialEmail === currentEmail);
   const teamRequests = requests.filter((r) => r.officialEmail !== currentEmail);
+  const delegatedRequests = actingForId ? delegatedData?.content || [] : [];
 
   return (
     <>
@@ -280,6 +307,12 @@ export const RegularisationRequests: React.FC<RegularisationRequestsProps> = ({
                 )}
               </TabsTrigger>
             )}
+            {delegations.length > 0 && (
+              <TabsTrigger value="delegated-requests" className="gap-2">
+                <UserCheck className="h-4 w-4" />
+                <p>Delegated</p>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           {currentTab === 'my-requests' && (
@@ -416,6 +449,36 @@ export const RegularisationRequests: React.FC<RegularisationRequestsProps> = ({
             )}
           </TabsContent>
         )}
+
+        {/* Delegated Requests Tab (delegates only) */}
+        {delegations.length > 0 && (
+          <TabsContent value="delegated-requests" className="space-y-4">
+            <ActingForBanner
+              delegations={delegations}
+              actingForId={actingForId}
+              onActingForChange={(id) => onActingForChange?.(id)}
+              ownQueueLabel="Select a manager"
+            />
+
+            {!actingForId ? (
+              <Card className="p-8 text-center">
+                <UserCheck className="h-8 w-8 text-muted-foreground mx-auto mb-2 opacity-50" />
+                <p className="text-sm text-muted-foreground">
+                  Select the manager whose team requests you want to review
+                </p>
+              </Card>
+            ) : delegatedRequests.length === 0 ? (
+              <Card className="p-8 text-center">
+                <MessageCircle className="h-8 w-8 text-muted-foreground mx-auto mb-2 opacity-50" />
+                <p className="text-sm text-muted-foreground">No delegated requests</p>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {delegatedRequests.map((request) => renderRequestRow(request, false, true))}
+              </div>
+            )}
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Add Request Modal */}
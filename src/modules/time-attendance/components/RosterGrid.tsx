@@ -0,0 +1,186 @@
+/**
+ * Roster Grid Component
+ * Weekly employees × days grid of rostered shifts. Shifts are dragged from the
+ * palette (or from another cell) onto a day cell, or onto an employee's name to
+ * fill the whole week. Unsaved cells are outlined.
+ */
+
+import React, { useState } from 'react';
+import { format, isToday, parseISO } from 'date-fns';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { RosterEmployee, ShiftDefinition } from '../types/shift.types';
+import { rosterKey } from '../utils/shiftRoster';
+import { ShiftChip } from './ShiftChip';
+
+interface RosterGridProps {
+  employees: RosterEmployee[];
+  dates: string[]; // yyyy-MM-dd, one column each
+  shifts: ShiftDefinition[];
+  cells: Map<string, string | null>; // rosterKey -> shift ID (null = week off); missing = not rostered
+  changedKeys?: Set<string>;
+  onAssign?: (employeeIds: string[], dates: string[], shiftId: string | null) => void; // Omit for read-only
+}
+
+const DRAG_TYPE = 'application/x-roster-shift';
+
+// Off is carried as an empty string since dataTransfer only holds strings
+const readDraggedShiftId = (event: React.DragEvent): string | null | undefined => {
+  if (!event.dataTransfer.types.includes(DRAG_TYPE)) return undefined;
+  return event.dataTransfer.getData(DRAG_TYPE) || null;
+};
+
+export const RosterGrid: React.FC<RosterGridProps> = ({ employees, dates, shifts, cells, changedKeys, onAssign }) => {
+  const [dropTarget, setDropTarget] = useState('');
+  const shiftMap = new Map(shifts.map((shift) => [shift.id, shift]));
+  const editable = !!onAssign;
+
+  const dragProps = (shiftId: string | null) =>
+    editable
+      ? {
+          draggable: true,
+          onDragStart: (event: React.DragEvent) => {
+            event.dataTransfer.setData(DRAG_TYPE, shiftId || '');
+            event.dataTransfer.effectAllowed = 'copy';
+          },
+          className: 'cursor-grab active:cursor-grabbing',
+        }
+      : {};
+
+  const dropProps = (target: string, employeeIds: string[], targetDates: string[]) =>
+    editable
+      ? {
+          onDragOver: (event: React.DragEvent) => {
+            if (!event.dataTransfer.types.includes(DRAG_TYPE)) return;
+            event.preventDefault();
+            event.dataTransfer.dropEffect = 'copy';
+            if (dropTarget !== target) setDropTarget(target);
+          },
+          onDragLeave: () => setDropTarget((current) => (current === target ? '' : current)),
+          onDrop: (event: React.DragEvent) => {
+            event.preventDefault();
+            setDropTarget('');
+            const shiftId = readDraggedShiftId(event);
+            if (shiftId !== undefined) onAssign?.(employeeIds, targetDates, shiftId);
+          },
+        }
+      : {};
+
+  const coverage = dates.map((date) => {
+    const counts = new Map<string | null, number>();
+    employees.forEach((employee) => {
+      const key = rosterKey(employee.id, date);
+      if (!cells.has(key)) return;
+      const shiftId = cells.get(key) ?? null;
+      counts.set(shiftId, (counts.get(shiftId) || 0) + 1);
+    });
+    return counts;
+  });
+
+  return (
+    <div className="space-y-3">
+      {editable && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Drag onto the roster:</span>
+          {shifts
+            .filter((shift) => shift.active)
+            .map((shift) => (
+              <ShiftChip key={shift.id} shift={shift} {...dragProps(shift.id)} />
+            ))}
+          <ShiftChip shift={null} {...dragProps(null)} />
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[200px]">Employee</TableHead>
+              {dates.map((date) => (
+                <TableHead
+                  key={date}
+                  className={cn('text-center min-w-[72px]', isToday(parseISO(date)) && 'text-primary')}
+                >
+                  <div>{format(parseISO(date), 'EEE')}</div>
+                  <div className="text-xs font-normal">{format(parseISO(date), 'dd MMM')}</div>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {employees.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={dates.length + 1} className="text-center text-muted-foreground py-8">
+                  No employees match the filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              employees.map((employee) => {
+                const rowTarget = `row:${employee.id}`;
+                return (
+                  <TableRow key={employee.id}>
+                    <TableCell
+                      {...dropProps(rowTarget, [employee.id], dates)}
+                      className={cn(dropTarget === rowTarget && 'bg-primary/10')}
+                    >
+                      <div className="font-medium">{employee.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[employee.department, employee.workLocation].filter(Boolean).join(' · ')}
+                      </div>
+                    </TableCell>
+                    {dates.map((date) => {
+                      const key = rosterKey(employee.id, date);
+                      const rostered = cells.has(key);
+                      const shiftId = cells.get(key) ?? null;
+                      return (
+                        <TableCell
+                          key={date}
+                          {...dropProps(key, [employee.id], [date])}
+                          className={cn(
+                            'text-center p-1',
+                            dropTarget === key && 'bg-primary/10',
+                            changedKeys?.has(key) && 'ring-1 ring-inset ring-primary'
+                          )}
+                        >
+                          {rostered ? (
+                            <ShiftChip shift={shiftId ? shiftMap.get(shiftId) || null : null} {...dragProps(shiftId)} />
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+          {employees.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell className="text-xs text-muted-foreground">Coverage</TableCell>
+                {coverage.map((counts, index) => (
+                  <TableCell key={dates[index]} className="text-center text-xs align-top">
+                    {Array.from(counts.entries()).map(([shiftId, count]) => (
+                      <div key={shiftId || 'off'}>
+                        {shiftId ? shiftMap.get(shiftId)?.code || '?' : 'OFF'}: {count}
+                      </div>
+                    ))}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </div>
+    </div>
+  );
+};
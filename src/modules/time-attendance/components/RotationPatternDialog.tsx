@@ -0,0 +1,139 @@
+/**
+ * Rotation Pattern Dialog
+ * Creates or edits a rotation: a cycle of days, each with a shift or a week off
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useShift } from '@/contexts/ShiftContext';
+import { RotationPattern, ShiftDefinition } from '../types/shift.types';
+import { MAX_ROTATION_DAYS } from '../constants';
+
+interface RotationPatternDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rotation: RotationPattern | null; // null = new rotation
+  shifts: ShiftDefinition[];
+  onSaved: (rotation: RotationPattern) => void;
+}
+
+// Select items cannot have an empty value
+const OFF = 'OFF';
+
+export const RotationPatternDialog: React.FC<RotationPatternDialogProps> = ({
+  open,
+  onOpenChange,
+  rotation,
+  shifts,
+  onSaved,
+}) => {
+  const { createRotation, updateRotation, isLoading } = useShift();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [days, setDays] = useState<(string | null)[]>([]);
+
+  const activeShifts = shifts.filter((shift) => shift.active);
+  // Inactive shifts stay selectable on days that already use them
+  const selectableShifts = shifts.filter((shift) => shift.active || days.includes(shift.id));
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rotation?.name || '');
+    setDescription(rotation?.description || '');
+    setDays(rotation?.days || Array.from({ length: 7 }, (_, index) => (index < 5 ? activeShifts[0]?.id || null : null)));
+  }, [open, rotation]);
+
+  const handleLengthChange = (value: string) => {
+    const length = Math.min(MAX_ROTATION_DAYS, Math.max(1, Number(value) || 1));
+    setDays((prev) => Array.from({ length }, (_, index) => prev[index] ?? null));
+  };
+
+  const handleSave = async () => {
+    const carrier = { name: name.trim(), description: description.trim() || undefined, days };
+    const saved = rotation ? await updateRotation(rotation.id, carrier) : await createRotation(carrier);
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{rotation ? 'Edit Rotation' : 'New Rotation'}</DialogTitle>
+          <DialogDescription>The cycle repeats from the date it is applied on</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_140px]">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Weekly 3-shift" />
+            </div>
+            <div className="space-y-2">
+              <Label>Cycle Length (days)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_ROTATION_DAYS}
+                value={days.length}
+                onChange={(e) => handleLengthChange(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+
+          <div className="grid gap-2 grid-cols-2 sm:grid-cols-4 md:grid-cols-7 max-h-[320px] overflow-y-auto">
+            {days.map((shiftId, index) => (
+              <div key={index} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Day {index + 1}</Label>
+                <Select
+                  value={shiftId || OFF}
+                  onValueChange={(value) =>
+                    setDays((prev) => prev.map((item, position) => (position === index ? (value === OFF ? null : value) : item)))
+                  }
+                >
+                  <SelectTrigger className="h-8 px-2 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={OFF}>Off</SelectItem>
+                    {selectableShifts.map((shift) => (
+                      <SelectItem key={shift.id} value={shift.id}>
+                        {shift.code} · {shift.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || !name.trim() || days.every((day) => !day)}>
+            Save Rotation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,78 @@
+/**
+ * Rotation Patterns Table Component
+ * Rotation cycles as a row of shift chips, with edit and apply actions
+ */
+
+import React from 'react';
+import { CalendarRange, Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RotationPattern, ShiftDefinition } from '../types/shift.types';
+import { ShiftChip } from './ShiftChip';
+
+interface RotationPatternsTableProps {
+  rotations: RotationPattern[];
+  shifts: ShiftDefinition[];
+  onEdit: (rotation: RotationPattern) => void;
+  onApply: (rotation: RotationPattern) => void;
+}
+
+export const RotationPatternsTable: React.FC<RotationPatternsTableProps> = ({ rotations, shifts, onEdit, onApply }) => {
+  const shiftMap = new Map(shifts.map((shift) => [shift.id, shift]));
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Rotation</TableHead>
+          <TableHead>Cycle</TableHead>
+          <TableHead className="w-24" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rotations.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+              No rotation patterns yet
+            </TableCell>
+          </TableRow>
+        ) : (
+          rotations.map((rotation) => (
+            <TableRow key={rotation.id}>
+              <TableCell className="align-top">
+                <div className="font-medium">{rotation.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {rotation.days.length} day cycle{rotation.description ? ` · ${rotation.description}` : ''}
+                </div>
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {rotation.days.map((shiftId, index) => (
+                    <ShiftChip key={index} shift={shiftId ? shiftMap.get(shiftId) || null : null} />
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell className="align-top">
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" title="Apply to employees" onClick={() => onApply(rotation)}>
+                    <CalendarRange className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" title="Edit rotation" onClick={() => onEdit(rotation)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+};
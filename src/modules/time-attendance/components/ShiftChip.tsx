@@ -0,0 +1,29 @@
+/**
+ * Shift Chip Component
+ * Colored shift code used in the roster grid and shift lists; null renders a
+ * week off
+ */
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { ShiftDefinition } from '../types/shift.types';
+import { formatShiftTimings } from '../utils/shiftRoster';
+
+interface ShiftChipProps extends React.HTMLAttributes<HTMLSpanElement> {
+  shift: ShiftDefinition | null;
+}
+
+export const ShiftChip: React.FC<ShiftChipProps> = ({ shift, className, ...props }) => (
+  <span
+    title={shift ? `${shift.name} · ${formatShiftTimings(shift)}` : 'Week off'}
+    className={cn(
+      'inline-flex min-w-[2.5rem] items-center justify-center rounded px-1.5 py-0.5 text-xs font-semibold',
+      shift ? 'text-white' : 'border border-dashed text-muted-foreground',
+      className
+    )}
+    style={shift ? { backgroundColor: shift.color } : undefined}
+    {...props}
+  >
+    {shift ? shift.code : 'OFF'}
+  </span>
+);
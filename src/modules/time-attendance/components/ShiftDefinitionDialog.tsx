@@ -0,0 +1,190 @@
+/**
+ * Shift Definition Dialog
+ * Creates or edits a named shift: timings, grace period, unpaid break and the
+ * roster chip color. An end time at or before the start time makes it a night
+ * shift ending on the next day.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Moon } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useShift } from '@/contexts/ShiftContext';
+import { cn } from '@/lib/utils';
+import { ShiftDefinition, ShiftDefinitionCarrier } from '../types/shift.types';
+import { DEFAULT_BREAK_MINUTES, DEFAULT_GRACE_MINUTES, SHIFT_COLORS } from '../constants';
+import { crossesMidnight, getShiftExpectedHours } from '../utils/shiftRoster';
+
+interface ShiftDefinitionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: ShiftDefinition | null; // null = new shift
+  onSaved: (shift: ShiftDefinition) => void;
+}
+
+const emptyCarrier = (): ShiftDefinitionCarrier => ({
+  name: '',
+  code: '',
+  startTime: '09:00',
+  endTime: '18:00',
+  graceMinutes: DEFAULT_GRACE_MINUTES,
+  breakMinutes: DEFAULT_BREAK_MINUTES,
+  color: SHIFT_COLORS[0],
+  active: true,
+});
+
+export const ShiftDefinitionDialog: React.FC<ShiftDefinitionDialogProps> = ({ open, onOpenChange, shift, onSaved }) => {
+  const { createShift, updateShift, isLoading } = useShift();
+  const [draft, setDraft] = useState<ShiftDefinitionCarrier>(emptyCarrier);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      shift
+        ? {
+            name: shift.name,
+            code: shift.code,
+            startTime: shift.startTime,
+            endTime: shift.endTime,
+            graceMinutes: shift.graceMinutes,
+            breakMinutes: shift.breakMinutes,
+            color: shift.color,
+            active: shift.active,
+          }
+        : emptyCarrier()
+    );
+  }, [open, shift]);
+
+  const update = <K extends keyof ShiftDefinitionCarrier>(field: K, value: ShiftDefinitionCarrier[K]) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const hasTimings = !!draft.startTime && !!draft.endTime;
+  const isNightShift = hasTimings && crossesMidnight(draft);
+  const expectedHours = hasTimings ? getShiftExpectedHours(draft) : 0;
+  const isValid = draft.name.trim() && draft.code.trim() && hasTimings && expectedHours > 0;
+
+  const handleSave = async () => {
+    const carrier = { ...draft, name: draft.name.trim(), code: draft.code.trim().toUpperCase() };
+    const saved = shift ? await updateShift(shift.id, carrier) : await createShift(carrier);
+    if (saved) {
+      onSaved(saved);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{shift ? 'Edit Shift' : 'New Shift'}</DialogTitle>
+          <DialogDescription>Timings are used to judge late check-ins and expected hours</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-[1fr_120px]">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={draft.name} onChange={(e) => update('name', e.target.value)} placeholder="e.g. Morning" />
+            </div>
+            <div className="space-y-2">
+              <Label>Code</Label>
+              <Input
+                value={draft.code}
+                onChange={(e) => update('code', e.target.value)}
+                maxLength={4}
+                placeholder="e.g. M"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Start Time</Label>
+              <Input type="time" value={draft.startTime} onChange={(e) => update('startTime', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>End Time</Label>
+              <Input type="time" value={draft.endTime} onChange={(e) => update('endTime', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Grace Period (minutes)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={draft.graceMinutes}
+                onChange={(e) => update('graceMinutes', Math.max(0, Number(e.target.value) || 0))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Break (minutes)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={draft.breakMinutes}
+                onChange={(e) => update('breakMinutes', Math.max(0, Number(e.target.value) || 0))}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-md border p-3 text-sm flex flex-wrap items-center justify-between gap-2">
+            <span>
+              Expected hours: <span className="font-medium">{expectedHours.toFixed(2)}</span>
+            </span>
+            {isNightShift && (
+              <span className="flex items-center gap-1 text-indigo-600 dark:text-indigo-400">
+                <Moon className="h-4 w-4" />
+                Night shift, ends the next day
+              </span>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Color</Label>
+            <div className="flex flex-wrap gap-2">
+              {SHIFT_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={color}
+                  onClick={() => update('color', color)}
+                  className={cn(
+                    'h-7 w-7 rounded-full border-2',
+                    draft.color === color ? 'border-foreground' : 'border-transparent'
+                  )}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label>Active</Label>
+              <p className="text-xs text-muted-foreground">Inactive shifts cannot be rostered</p>
+            </div>
+            <Switch checked={draft.active} onCheckedChange={(checked) => update('active', checked)} />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || !isValid}>
+            Save Shift
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,78 @@
+/**
+ * Shift Definitions Table Component
+ * Named shifts with their timings, grace period, break and expected hours
+ */
+
+import React from 'react';
+import { Moon, Pencil } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ShiftDefinition } from '../types/shift.types';
+import { crossesMidnight, formatShiftTimings, getShiftExpectedHours } from '../utils/shiftRoster';
+import { ShiftChip } from './ShiftChip';
+
+interface ShiftDefinitionsTableProps {
+  shifts: ShiftDefinition[];
+  onEdit: (shift: ShiftDefinition) => void;
+}
+
+export const ShiftDefinitionsTable: React.FC<ShiftDefinitionsTableProps> = ({ shifts, onEdit }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Shift</TableHead>
+        <TableHead>Timings</TableHead>
+        <TableHead className="text-right">Grace</TableHead>
+        <TableHead className="text-right">Break</TableHead>
+        <TableHead className="text-right">Expected Hours</TableHead>
+        <TableHead>Status</TableHead>
+        <TableHead className="w-10" />
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {shifts.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={7} className="text-center text-muted-foreground py-8">
+            No shifts defined yet
+          </TableCell>
+        </TableRow>
+      ) : (
+        shifts.map((shift) => (
+          <TableRow key={shift.id}>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <ShiftChip shift={shift} />
+                <span className="font-medium">{shift.name}</span>
+              </div>
+            </TableCell>
+            <TableCell>
+              <span className="flex items-center gap-1">
+                {formatShiftTimings(shift)}
+                {crossesMidnight(shift) && <Moon className="h-3 w-3 text-indigo-500" />}
+              </span>
+            </TableCell>
+            <TableCell className="text-right">{shift.graceMinutes} min</TableCell>
+            <TableCell className="text-right">{shift.breakMinutes} min</TableCell>
+            <TableCell className="text-right">{getShiftExpectedHours(shift).toFixed(2)}</TableCell>
+            <TableCell>
+              <Badge variant={shift.active ? 'outline' : 'secondary'}>{shift.active ? 'Active' : 'Inactive'}</Badge>
+            </TableCell>
+            <TableCell>
+              <Button variant="ghost" size="icon" title="Edit shift" onClick={() => onEdit(shift)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))
+      )}
+    </TableBody>
+  </Table>
+);
@@ -0,0 +1,181 @@
+/**
+ * Shift Swap Dialog
+ * An employee asks to exchange their shift on a date with a colleague's; the
+ * request goes to the employee's reporting manager
+ */
+
+import React, { useEffect, useState } from 'react';
+import { ArrowLeftRight } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useShift } from '@/contexts/ShiftContext';
+import { RosterAssignment, RosterEmployee, ShiftDefinition, ShiftSwapRequest } from '../types/shift.types';
+import { indexRoster, rosterKey } from '../utils/shiftRoster';
+import { ShiftChip } from './ShiftChip';
+
+interface ShiftSwapDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  requester: RosterEmployee;
+  colleagues: RosterEmployee[];
+  shifts: ShiftDefinition[];
+  onCreated: (request: ShiftSwapRequest) => void;
+}
+
+export const ShiftSwapDialog: React.FC<ShiftSwapDialogProps> = ({
+  open,
+  onOpenChange,
+  requester,
+  colleagues,
+  shifts,
+  onCreated,
+}) => {
+  const { searchRoster, createShiftSwap, isLoading } = useShift();
+  const [date, setDate] = useState('');
+  const [counterpartId, setCounterpartId] = useState('');
+  const [reason, setReason] = useState('');
+  const [roster, setRoster] = useState<Map<string, RosterAssignment>>(new Map());
+
+  useEffect(() => {
+    if (!open) return;
+    setDate('');
+    setCounterpartId('');
+    setReason('');
+    setRoster(new Map());
+  }, [open]);
+
+  const fetchRoster = async () => {
+    if (!date || !counterpartId) return;
+    const result = await searchRoster(
+      {
+        filters: { and: { employeeId: [requester.id, counterpartId] } },
+        dateFilter: { type: 'on', field: 'date', onDate: date },
+      },
+      0,
+      2
+    );
+    setRoster(indexRoster(result?.content || []));
+  };
+  useEffect(() => {
+    fetchRoster();
+  }, [date, counterpartId]);
+
+  const shiftMap = new Map(shifts.map((shift) => [shift.id, shift]));
+  const counterpart = colleagues.find((colleague) => colleague.id === counterpartId);
+  const ownAssignment = roster.get(rosterKey(requester.id, date));
+  const theirAssignment = roster.get(rosterKey(counterpartId, date));
+  const bothRostered = !!ownAssignment && !!theirAssignment;
+  const sameShift = bothRostered && ownAssignment.shiftId === theirAssignment.shiftId;
+
+  const chip = (assignment?: RosterAssignment) =>
+    assignment ? (
+      <ShiftChip shift={assignment.shiftId ? shiftMap.get(assignment.shiftId) || null : null} />
+    ) : (
+      <span className="text-xs text-muted-foreground">Not rostered</span>
+    );
+
+  const handleSubmit = async () => {
+    if (!counterpart) return;
+    const created = await createShiftSwap({
+      date,
+      requesterId: requester.id,
+      requesterEmail: requester.email,
+      requesterName: requester.name,
+      counterpartId: counterpart.id,
+      counterpartEmail: counterpart.email,
+      counterpartName: counterpart.name,
+      reason: reason.trim(),
+      reportingTo: requester.reportingTo || '',
+    });
+    if (created) {
+      onCreated(created);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request Shift Swap</DialogTitle>
+          <DialogDescription>Your reporting manager approves the swap before the roster changes</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Date</Label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Swap With</Label>
+              <Select value={counterpartId} onValueChange={setCounterpartId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select colleague" />
+                </SelectTrigger>
+                <SelectContent>
+                  {colleagues
+                    .filter((colleague) => colleague.id !== requester.id)
+                    .map((colleague) => (
+                      <SelectItem key={colleague.id} value={colleague.id}>
+                        {colleague.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {date && counterpart && (
+            <div className="rounded-md border p-3 flex items-center justify-around text-sm">
+              <div className="text-center space-y-1">
+                <div className="text-muted-foreground">You</div>
+                {chip(ownAssignment)}
+              </div>
+              <ArrowLeftRight className="h-4 w-4 text-muted-foreground" />
+              <div className="text-center space-y-1">
+                <div className="text-muted-foreground">{counterpart.name}</div>
+                {chip(theirAssignment)}
+              </div>
+            </div>
+          )}
+          {date && counterpart && !bothRostered && (
+            <p className="text-sm text-destructive">Both of you need a rostered shift or week off on this date.</p>
+          )}
+          {sameShift && <p className="text-sm text-destructive">You are already on the same shift.</p>}
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+          </div>
+          {!requester.reportingTo && (
+            <p className="text-sm text-destructive">No reporting manager on file to approve the swap.</p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isLoading || !bothRostered || sameShift || !reason.trim() || !requester.reportingTo}
+          >
+            Submit Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
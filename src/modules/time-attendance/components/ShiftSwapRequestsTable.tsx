@@ -0,0 +1,131 @@
+/**
+ * Shift Swap Requests Table Component
+ * Swap requests with the shifts being exchanged. Requesters can cancel their
+ * pending requests; the reporting manager (or their delegate) approves or
+ * rejects them.
+ */
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { ArrowLeftRight, CheckCircle2, Trash2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ShiftDefinition, ShiftSwapRequest, ShiftSwapStatus } from '../types/shift.types';
+import { shiftSwapStatusLabels } from '../constants';
+import { ShiftChip } from './ShiftChip';
+
+interface ShiftSwapRequestsTableProps {
+  requests: ShiftSwapRequest[];
+  shifts: ShiftDefinition[];
+  loading?: boolean;
+  onCancel?: (request: ShiftSwapRequest) => void; // Requester's own queue
+  onDecide?: (request: ShiftSwapRequest, action: 'approve' | 'reject') => void; // Approver's queue
+}
+
+const statusVariants: Record<ShiftSwapStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  approved: 'default',
+  rejected: 'destructive',
+  cancelled: 'secondary',
+};
+
+export const ShiftSwapRequestsTable: React.FC<ShiftSwapRequestsTableProps> = ({
+  requests,
+  shifts,
+  loading = false,
+  onCancel,
+  onDecide,
+}) => {
+  const shiftMap = new Map(shifts.map((shift) => [shift.id, shift]));
+  const chip = (shiftId: string | null) => <ShiftChip shift={shiftId ? shiftMap.get(shiftId) || null : null} />;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Swap</TableHead>
+          <TableHead>Reason</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="w-[200px]" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {requests.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+              {loading ? 'Loading swap requests...' : 'No swap requests'}
+            </TableCell>
+          </TableRow>
+        ) : (
+          requests.map((request) => (
+            <TableRow key={request.id}>
+              <TableCell className="whitespace-nowrap">
+                <div className="font-medium">{format(parseISO(request.date), 'EEE, dd MMM yyyy')}</div>
+                <div className="text-xs text-muted-foreground">
+                  Requested {format(parseISO(request.createdAt), 'dd MMM')}
+                </div>
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center gap-3 text-sm">
+                  <div className="space-y-1">
+                    <div>{request.requesterName}</div>
+                    {chip(request.requesterShiftId)}
+                  </div>
+                  <ArrowLeftRight className="h-4 w-4 text-muted-foreground" />
+                  <div className="space-y-1">
+                    <div>{request.counterpartName}</div>
+                    {chip(request.counterpartShiftId)}
+                  </div>
+                </div>
+              </TableCell>
+              <TableCell className="max-w-[240px] text-sm text-muted-foreground">{request.reason}</TableCell>
+              <TableCell>
+                <Badge variant={statusVariants[request.status]}>{shiftSwapStatusLabels[request.status]}</Badge>
+                {request.decidedBy && <div className="text-xs text-muted-foreground mt-1">by {request.decidedBy}</div>}
+              </TableCell>
+              <TableCell>
+                {request.status === 'pending' && (
+                  <div className="flex justify-end gap-2">
+                    {onCancel && (
+                      <Button size="sm" variant="outline" className="gap-1" disabled={loading} onClick={() => onCancel(request)}>
+                        <Trash2 className="h-3 w-3" />
+                        Cancel
+                      </Button>
+                    )}
+                    {onDecide && (
+                      <>
+                        <Button size="sm" className="gap-1" disabled={loading} onClick={() => onDecide(request, 'approve')}>
+                          <CheckCircle2 className="h-3 w-3" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="gap-1"
+                          disabled={loading}
+                          onClick={() => onDecide(request, 'reject')}
+                        >
+                          <XCircle className="h-3 w-3" />
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </TableCell>
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+};
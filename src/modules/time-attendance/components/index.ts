@@ -7,3 +7,23 @@ export { ProfileToggle } from './ProfileToggle';
 export { AttendanceRecordsTable } from './AttendanceRecordsTable';
 export { RegularisationRequests } from './RegularisationRequests';
 export { AttendanceChart } from './AttendanceChart';
+export { ShiftChip } from './ShiftChip';
+export { ShiftDefinitionsTable } from './ShiftDefinitionsTable';
+export { ShiftDefinitionDialog } from './ShiftDefinitionDialog';
+export { RotationPatternsTable } from './RotationPatternsTable';
+export { RotationPatternDialog } from './RotationPatternDialog';
+export { ApplyRotationDialog } from './ApplyRotationDialog';
+export { RosterGrid } from './RosterGrid';
+export { ShiftSwapRequestsTable } from './ShiftSwapRequestsTable';
+export { ShiftSwapDialog } from './ShiftSwapDialog';
+export { OvertimeCandidatesTable } from './OvertimeCandidatesTable';
+export { OvertimeClaimsTable } from './OvertimeClaimsTable';
+export { OvertimeApprovalDialog } from './OvertimeApprovalDialog';
+export { OvertimePolicyForm } from './OvertimePolicyForm';
+export { OvertimePayrollExport } from './OvertimePayrollExport';
+export { PunchWidget } from './PunchWidget';
+export { PunchExceptionsTable } from './PunchExceptionsTable';
+export { GeofenceSettingsTable } from './GeofenceSettingsTable';
+export { MusterRollGrid } from './MusterRollGrid';
+export { AttendanceAnomaliesTable } from './AttendanceAnomaliesTable';
+export { AnomalyThresholdsForm } from './AnomalyThresholdsForm';
@@ -0,0 +1,131 @@
+/**
+ * Time & Attendance Constants
+ */
+
+import { AttendanceAnomalyThresholds } from '@/types/attendance';
+import { RosterAssignmentSource, ShiftSwapStatus } from './types/shift.types';
+import { OvertimeBasis, OvertimeClaimStatus, OvertimeDayType, OvertimePolicy } from './types/overtime.types';
+import { PunchSource, PunchStatus, PunchType } from './types/punch.types';
+import { MusterCode, MusterConflictCode } from './types/muster.types';
+import { AttendanceAnomalySeverity, AttendanceAnomalyType } from './types/anomaly.types';
+
+// Chip colors offered when defining a shift
+export const SHIFT_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6', '#14b8a6', '#ec4899', '#64748b'];
+
+export const DEFAULT_GRACE_MINUTES = 15;
+
+export const DEFAULT_BREAK_MINUTES = 60;
+
+// Longest rotation cycle the editor allows (four weeks)
+export const MAX_ROTATION_DAYS = 28;
+
+// Longest range a rotation can be applied for in one go
+export const MAX_ROTATION_APPLY_WEEKS = 12;
+
+export const rosterSourceLabels: Record<RosterAssignmentSource, string> = {
+  MANUAL: 'Manual',
+  ROTATION: 'Rotation',
+  SWAP: 'Swap',
+};
+
+export const shiftSwapStatusLabels: Record<ShiftSwapStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+// Used until an administrator saves the tenant's own overtime policy
+export const DEFAULT_OVERTIME_POLICY: OvertimePolicy = {
+  dailyThresholdMinutes: 30,
+  weeklyThresholdHours: 48,
+  roundingMinutes: 15,
+  multipliers: { WEEKDAY: 1.5, WEEKEND: 2, HOLIDAY: 2 },
+  monthlyCapHours: 50,
+};
+
+export const overtimeDayTypeLabels: Record<OvertimeDayType, string> = {
+  WEEKDAY: 'Weekday',
+  WEEKEND: 'Weekend',
+  HOLIDAY: 'Holiday',
+};
+
+export const overtimeBasisLabels: Record<OvertimeBasis, string> = {
+  DAILY: 'Daily excess',
+  WEEKLY: 'Weekly threshold',
+};
+
+export const overtimeStatusLabels: Record<OvertimeClaimStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+};
+
+// Radius offered when a geofence is first set up for a work location
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 200;
+
+// Browser location fixes older than this are not reused for a punch
+export const GEOLOCATION_MAX_AGE_MS = 60 * 1000;
+
+export const GEOLOCATION_TIMEOUT_MS = 15 * 1000;
+
+export const punchTypeLabels: Record<PunchType, string> = {
+  CHECK_IN: 'Check-in',
+  CHECK_OUT: 'Check-out',
+};
+
+export const punchSourceLabels: Record<PunchSource, string> = {
+  DOOR: 'Door',
+  WEB: 'Web',
+};
+
+export const punchStatusLabels: Record<PunchStatus, string> = {
+  accepted: 'Within geofence',
+  pending: 'Pending approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const musterCodeLabels: Record<MusterCode, string> = {
+  P: 'Present',
+  A: 'Absent',
+  L: 'Leave',
+  WFH: 'Work from home',
+  H: 'Holiday',
+  WO: 'Weekly off',
+};
+
+export const musterConflictLabels: Record<MusterConflictCode, string> = {
+  ABSENT_WITHOUT_LEAVE: 'Absent without leave',
+  LEAVE_WITH_PUNCH: 'Leave on a day with a punch',
+  LEAVE_PENDING: 'Leave not approved yet',
+};
+
+// Used until thresholds are saved with the shift settings
+export const DEFAULT_ANOMALY_THRESHOLDS: AttendanceAnomalyThresholds = {
+  lookbackDays: 14,
+  lateCheckInCount: 3,
+  missingCheckoutCount: 2,
+  shortHoursStreakDays: 3,
+};
+
+export const anomalyTypeLabels: Record<AttendanceAnomalyType, string> = {
+  CHRONIC_LATE: 'Chronic late check-ins',
+  MISSING_CHECKOUT: 'Missing check-outs',
+  SHORT_HOURS_STREAK: 'Short-hour streak',
+  PUNCH_ON_LEAVE: 'Punch on leave day',
+};
+
+// Ranking weight per occurrence day; critical anomalies count double
+export const ANOMALY_WEIGHTS: Record<AttendanceAnomalyType, number> = {
+  CHRONIC_LATE: 1,
+  MISSING_CHECKOUT: 2,
+  SHORT_HOURS_STREAK: 2,
+  PUNCH_ON_LEAVE: 3,
+};
+
+export const anomalySeverityLabels: Record<AttendanceAnomalySeverity, string> = {
+  warning: 'Warning',
+  critical: 'Critical',
+};
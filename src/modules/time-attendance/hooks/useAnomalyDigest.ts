@@ -0,0 +1,107 @@
+/**
+ * useAnomalyDigest Hook
+ * Raises the weekly in-app digest of a manager's team attendance anomalies
+ *
+ * The digest is sent once per manager per Monday–Sunday week, the first time
+ * the ranked anomalies are loaded that week while monitoring is enabled in the
+ * shift settings. Weeks without anomalies send nothing.
+ *
+ * Limitation: the digest is raised from the browser, so a manager only gets it
+ * once they open attendance management in that week, and it does not follow
+ * the reportsFrequency of the shift settings. Sending it on a schedule needs
+ * the backend's scheduled reports; until then it is raised quietly, without a
+ * success toast.
+ */
+
+import { useEffect, useRef } from 'react';
+import { format, startOfWeek } from 'date-fns';
+import { useNotification } from '@/contexts/NotificationContext';
+import { NotificationCarrier } from '@/services/notificationApiService';
+import { AttendanceAnomalyDigestMetadata } from '@/modules/notifications/notificationTypes';
+import { EmployeeAnomalies } from '../types/anomaly.types';
+import { anomalyTypeLabels } from '../constants';
+import { countAnomaliesByType } from '../utils/attendanceAnomalies';
+
+const DIGEST_TYPE = 'attendance_anomaly_digest';
+
+// Employees listed by name in the digest
+const DIGEST_TOP_EMPLOYEES = 5;
+
+const buildDigestNotification = (
+  manager: string,
+  weekStart: string,
+  ranked: EmployeeAnomalies[],
+  fromDate: string,
+  toDate: string
+): NotificationCarrier<AttendanceAnomalyDigestMetadata> => {
+  const top = ranked.slice(0, DIGEST_TOP_EMPLOYEES);
+  const names = top.map((employee) => employee.employeeName).join(', ');
+  const more = ranked.length > top.length ? ` and ${ranked.length - top.length} more` : '';
+
+  return {
+    id: `NOTIF-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type: DIGEST_TYPE,
+    subject: 'Weekly Attendance Digest',
+    message: `${ranked.length} team member(s) need follow-up: ${names}${more}`,
+    status: 'unread',
+    metadata: {
+      manager,
+      weekStart,
+      fromDate,
+      toDate,
+      employeeCount: ranked.length,
+      countsByType: countAnomaliesByType(ranked),
+      topEmployees: top.map((employee) => ({
+        employeeName: employee.employeeName,
+        officialEmail: employee.officialEmail,
+        anomalyTypes: employee.anomalies.map((anomaly) => anomalyTypeLabels[anomaly.type]),
+      })),
+    },
+    createdAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * @param manager - Email of the reporting manager the digest is for
+ * @param ranked - The team's ranked anomalies
+ * @param fromDate - Start of the scanned attendance (yyyy-MM-dd)
+ * @param toDate - End of the scanned attendance (yyyy-MM-dd)
+ * @param enabled - Monitoring is on and the anomalies have finished loading
+ *
+ * @example
+ * useAnomalyDigest(email, ranked, fromDate, toDate, !!settings?.enableMonitoring && !loading);
+ */
+export function useAnomalyDigest(
+  manager: string,
+  ranked: EmployeeAnomalies[],
+  fromDate: string,
+  toDate: string,
+  enabled: boolean
+) {
+  const { raiseNotification, refreshNotifications } = useNotification();
+
+  // Digests already attempted in this session, keyed by `${manager}:${weekStart}`
+  const attemptedRef = useRef<Set<string>>(new Set());
+
+  const weekStart = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+  const sendDigest = async () => {
+    const key = `${manager}:${weekStart}`;
+    if (attemptedRef.current.has(key)) return;
+    attemptedRef.current.add(key);
+
+    const existing = await refreshNotifications(
+      { filters: { and: { type: DIGEST_TYPE, 'metadata.manager': manager, 'metadata.weekStart': weekStart } } },
+      0,
+      1
+    );
+    if (!existing || existing.content.length > 0) return;
+
+    await raiseNotification(buildDigestNotification(manager, weekStart, ranked, fromDate, toDate));
+  };
+
+  useEffect(() => {
+    if (!enabled || !manager || ranked.length === 0) return;
+    sendDigest();
+  }, [enabled, manager, weekStart, ranked.length]);
+}
@@ -0,0 +1,47 @@
+/**
+ * useAttendancePunches Hook
+ * Loads an employee's web punches for a date range, to show alongside the
+ * door-device attendance records
+ */
+
+import { useEffect, useState } from 'react';
+import { useAttendancePunch } from '@/contexts/AttendancePunchContext';
+import { AttendancePunch } from '../types/punch.types';
+
+// A few punches a day over the longest range the records table offers
+const MAX_PUNCHES = 500;
+
+/**
+ * @param officialEmail - Employee whose punches are loaded
+ * @param startDate - yyyy-MM-dd, inclusive
+ * @param endDate - yyyy-MM-dd, inclusive
+ *
+ * @example
+ * const { punches, refetch } = useAttendancePunches(email, '2026-10-01', '2026-10-19');
+ */
+export function useAttendancePunches(officialEmail: string, startDate: string, endDate: string) {
+  const { searchPunches } = useAttendancePunch();
+  const [punches, setPunches] = useState<AttendancePunch[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchPunches = async () => {
+    if (!officialEmail || !startDate || !endDate) return;
+    setLoading(true);
+    const result = await searchPunches(
+      {
+        filters: { and: { officialEmail } },
+        dateFilter: { type: 'between', field: 'date', startDate, endDate },
+        sort: { punchedAt: 1 },
+      },
+      0,
+      MAX_PUNCHES
+    );
+    setPunches(result?.content || []);
+    setLoading(false);
+  };
+  useEffect(() => {
+    fetchPunches();
+  }, [officialEmail, startDate, endDate]);
+
+  return { punches, loading, refetch: fetchPunches };
+}
@@ -0,0 +1,59 @@
+/**
+ * useRosteredShifts Hook
+ * Loads the shift an employee is rostered on for each date of a range, so
+ * attendance can be judged against it instead of the global shift settings
+ */
+
+import { useEffect, useState } from 'react';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { useShift } from '@/contexts/ShiftContext';
+import { ShiftDefinition } from '../types/shift.types';
+
+// Shift definitions of a tenant fit in one page
+const MAX_SHIFTS = 200;
+
+/**
+ * @param employeeId - Employee whose roster is loaded
+ * @param startDate - yyyy-MM-dd, inclusive
+ * @param endDate - yyyy-MM-dd, inclusive
+ * @returns shiftsByDate - Rostered shift per date (null = week off); dates without a roster entry are absent
+ *
+ * @example
+ * const { shiftsByDate } = useRosteredShifts(employeeId, '2026-10-01', '2026-10-19');
+ */
+export function useRosteredShifts(employeeId: string, startDate: string, endDate: string) {
+  const { searchShifts, searchRoster } = useShift();
+  const [shiftsByDate, setShiftsByDate] = useState<Record<string, ShiftDefinition | null>>({});
+  const [loading, setLoading] = useState(false);
+
+  const fetchRosteredShifts = async () => {
+    if (!employeeId || !startDate || !endDate) return;
+    setLoading(true);
+    const [shiftResult, rosterResult] = await Promise.all([
+      searchShifts({}, 0, MAX_SHIFTS),
+      searchRoster(
+        {
+          filters: { and: { employeeId } },
+          dateFilter: { type: 'between', field: 'date', startDate, endDate },
+        },
+        0,
+        differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1
+      ),
+    ]);
+    const shifts = new Map((shiftResult?.content || []).map((shift) => [shift.id, shift]));
+    setShiftsByDate(
+      Object.fromEntries(
+        (rosterResult?.content || [])
+          // An assignment to an unknown shift falls back to the global settings
+          .filter((assignment) => !assignment.shiftId || shifts.has(assignment.shiftId))
+          .map((assignment) => [assignment.date, assignment.shiftId ? shifts.get(assignment.shiftId)! : null])
+      )
+    );
+    setLoading(false);
+  };
+  useEffect(() => {
+    fetchRosteredShifts();
+  }, [employeeId, startDate, endDate]);
+
+  return { shiftsByDate, loading, refetch: fetchRosteredShifts };
+}
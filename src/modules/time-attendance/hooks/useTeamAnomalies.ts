@@ -0,0 +1,130 @@
+/**
+ * useTeamAnomalies Hook
+ * Loads a manager's team attendance, approved leave, web punches and rostered
+ * shifts over the anomaly lookback and ranks the team's attendance anomalies
+ */
+
+import { useEffect, useState } from 'react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { useAttendancePunch } from '@/contexts/AttendancePunchContext';
+import { useLeaveManagement } from '@/contexts/LeaveManagementContext';
+import { useShift } from '@/contexts/ShiftContext';
+import { useTeamAttendance } from '@/hooks/useAttendanceData';
+import { AttendanceAnomalyThresholds } from '@/types/attendance';
+import { AbsenceApplication } from '@/modules/leave-management-system/types/leave.types';
+import { buildTeamAbsenceRangeRequest } from '@/modules/leave-management-system/utils/teamCoverage';
+import { AttendancePunch } from '../types/punch.types';
+import { ShiftDefinition } from '../types/shift.types';
+import { getLookbackStart, rankTeamAnomalies } from '../utils/attendanceAnomalies';
+import { rosterKey } from '../utils/shiftRoster';
+
+// Leave applications and web punches of a team over the lookback fit in one page
+const MAX_ROWS = 1000;
+
+// Shift definitions of a tenant fit in one page
+const MAX_SHIFTS = 200;
+
+/**
+ * @param managerEmail - Reporting manager whose direct reports are scanned; empty to skip
+ * @param thresholds - Anomaly thresholds of the shift settings
+ * @param actingFor - Optional email of the delegating manager, for their team's leave
+ *
+ * @example
+ * const { ranked, fromDate, toDate, loading } = useTeamAnomalies(email, thresholds);
+ */
+export function useTeamAnomalies(managerEmail: string, thresholds: AttendanceAnomalyThresholds, actingFor?: string) {
+  const { getTeamAbsenceApplications } = useLeaveManagement();
+  const { searchPunches } = useAttendancePunch();
+  const { searchShifts, searchRoster } = useShift();
+  const [absences, setAbsences] = useState<AbsenceApplication[]>([]);
+  const [punches, setPunches] = useState<AttendancePunch[]>([]);
+  const [rosteredShifts, setRosteredShifts] = useState<Map<string, ShiftDefinition | null>>(new Map());
+  const [loadingExtras, setLoadingExtras] = useState(false);
+
+  const toDate = format(new Date(), 'yyyy-MM-dd');
+  const fromDate = getLookbackStart(toDate, thresholds);
+
+  const attendance = useTeamAttendance(managerEmail, fromDate, toDate);
+
+  const fetchExtras = async () => {
+    if (!managerEmail) {
+      setAbsences([]);
+      setPunches([]);
+      return;
+    }
+    setLoadingExtras(true);
+    const [absenceResult, punchResult] = await Promise.all([
+      getTeamAbsenceApplications(
+        buildTeamAbsenceRangeRequest(parseISO(fromDate), parseISO(toDate)),
+        0,
+        MAX_ROWS,
+        actingFor
+      ),
+      searchPunches(
+        {
+          filters: { and: { reportingTo: managerEmail } },
+          dateFilter: { type: 'between', field: 'date', startDate: fromDate, endDate: toDate },
+        },
+        0,
+        MAX_ROWS
+      ),
+    ]);
+    setAbsences(absenceResult?.content || []);
+    setPunches(punchResult?.content || []);
+    setLoadingExtras(false);
+  };
+  useEffect(() => {
+    fetchExtras();
+  }, [managerEmail, actingFor, fromDate, toDate]);
+
+  const employeeIds = attendance.data.map((record) => record.employeeId);
+  const employeeIdKey = employeeIds.join(',');
+
+  const fetchRoster = async () => {
+    if (employeeIds.length === 0) {
+      setRosteredShifts(new Map());
+      return;
+    }
+    const [shiftResult, rosterResult] = await Promise.all([
+      searchShifts({}, 0, MAX_SHIFTS),
+      searchRoster(
+        {
+          filters: { and: { employeeId: employeeIds } },
+          dateFilter: { type: 'between', field: 'date', startDate: fromDate, endDate: toDate },
+        },
+        0,
+        employeeIds.length * (differenceInCalendarDays(parseISO(toDate), parseISO(fromDate)) + 1)
+      ),
+    ]);
+    const shifts = new Map((shiftResult?.content || []).map((shift) => [shift.id, shift]));
+    setRosteredShifts(
+      new Map(
+        (rosterResult?.content || [])
+          // An assignment to an unknown shift falls back to the global settings
+          .filter((assignment) => !assignment.shiftId || shifts.has(assignment.shiftId))
+          .map((assignment) => [
+            rosterKey(assignment.employeeId, assignment.date),
+            assignment.shiftId ? shifts.get(assignment.shiftId)! : null,
+          ])
+      )
+    );
+  };
+  useEffect(() => {
+    fetchRoster();
+  }, [employeeIdKey, fromDate, toDate]);
+
+  const ranked = rankTeamAnomalies({
+    records: attendance.data,
+    absences,
+    punches,
+    rosteredShifts,
+    thresholds,
+    today: toDate,
+  });
+
+  const refetch = async () => {
+    await Promise.all([attendance.refetch(), fetchExtras(), fetchRoster()]);
+  };
+
+  return { ranked, fromDate, toDate, loading: attendance.loading || loadingExtras, refetch };
+}
@@ -0,0 +1,33 @@
+/**
+ * Attendance Anomaly Types
+ * Patterns in a team's recent attendance flagged to the reporting manager,
+ * ranked per employee and summarised in a weekly digest
+ */
+
+// ==================== Enums ====================
+
+export type AttendanceAnomalyType = 'CHRONIC_LATE' | 'MISSING_CHECKOUT' | 'SHORT_HOURS_STREAK' | 'PUNCH_ON_LEAVE';
+
+export type AttendanceAnomalySeverity = 'warning' | 'critical';
+
+// ==================== Core Interfaces ====================
+
+/**
+ * One pattern found in an employee's attendance
+ */
+export interface AttendanceAnomaly {
+  type: AttendanceAnomalyType;
+  severity: AttendanceAnomalySeverity;
+  dates: string[]; // yyyy-MM-dd, the days that make up the pattern
+}
+
+/**
+ * An employee's anomalies, ranked by score within the team
+ */
+export interface EmployeeAnomalies {
+  employeeId: string;
+  employeeName: string;
+  officialEmail: string;
+  anomalies: AttendanceAnomaly[];
+  score: number; // Higher is more urgent
+}
@@ -0,0 +1,43 @@
+/**
+ * Muster Roll Types
+ * Monthly per-employee, per-day attendance codes reconciled against leave
+ * applications, web punches and holidays, with the paid / LOP day totals
+ * payroll takes over
+ */
+
+// ==================== Enums ====================
+
+// P = present, A = absent, L = leave, WFH = work from home, H = holiday, WO = weekly off
+export type MusterCode = 'P' | 'A' | 'L' | 'WFH' | 'H' | 'WO';
+
+// ABSENT_WITHOUT_LEAVE = no punch and no leave; LEAVE_WITH_PUNCH = full-day leave on a day with a punch;
+// LEAVE_PENDING = no punch and the leave covering the day is not approved yet
+export type MusterConflictCode = 'ABSENT_WITHOUT_LEAVE' | 'LEAVE_WITH_PUNCH' | 'LEAVE_PENDING';
+
+// ==================== Core Interfaces ====================
+
+/**
+ * One employee's day in the muster roll
+ */
+export interface MusterDay {
+  date: string; // yyyy-MM-dd
+  code: MusterCode | null; // null for days that have not happened yet
+  lopDays: number; // 0–1; unpaid share of the day
+  absenceType?: string; // Code of the leave covering the day
+  conflicts: MusterConflictCode[];
+}
+
+/**
+ * One employee's row in the muster roll
+ */
+export interface MusterRow {
+  employeeId: string;
+  employeeName: string;
+  officialEmail: string;
+  department: string;
+  days: MusterDay[];
+  counts: Record<MusterCode, number>;
+  paidDays: number; // Days of the month minus LOP days, as payroll counts them
+  lopDays: number;
+  conflictCount: number;
+}
@@ -0,0 +1,105 @@
+/**
+ * Overtime Types
+ * Overtime policy, candidates detected from attendance, claims reviewed by the
+ * reporting manager and the per-period payroll export
+ */
+
+// ==================== Enums ====================
+
+export type OvertimeDayType = 'WEEKDAY' | 'WEEKEND' | 'HOLIDAY';
+
+// DAILY = hours beyond the day's expected hours; WEEKLY = weekday hours beyond the weekly threshold
+export type OvertimeBasis = 'DAILY' | 'WEEKLY';
+
+export type OvertimeClaimStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+// ==================== Core Interfaces ====================
+
+export interface OvertimePolicy {
+  dailyThresholdMinutes: number; // Minimum excess over the expected hours before a day counts
+  weeklyThresholdHours: number; // Weekday hours in a week beyond this are overtime; 0 = no weekly rule
+  roundingMinutes: number; // Overtime is rounded down to blocks of this size; 0 = no rounding
+  multipliers: Record<OvertimeDayType, number>; // Pay multiplier per day type
+  monthlyCapHours: number; // Approved overtime per employee per month; 0 = no cap
+  updatedAt?: string;
+}
+
+/**
+ * One day of attendance, as used by overtime detection
+ */
+export interface OvertimeDay {
+  date: string; // yyyy-MM-dd
+  dayType: OvertimeDayType;
+  workedHours: number; // Logged plus approved regularised hours
+  expectedHours: number; // 0 on weekends, week offs and holidays
+}
+
+/**
+ * Overtime found in attendance that has not been claimed yet
+ */
+export interface OvertimeCandidate {
+  date: string;
+  dayType: OvertimeDayType;
+  basis: OvertimeBasis;
+  workedHours: number;
+  expectedHours: number;
+  hours: number;
+  multiplier: number;
+}
+
+export interface OvertimeClaim {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  officialEmail: string;
+  reportingTo: string; // Approving manager
+  date: string;
+  period: string; // yyyy-MM pay period of the date
+  dayType: OvertimeDayType;
+  basis: OvertimeBasis;
+  workedHours: number;
+  expectedHours: number;
+  hours: number; // Claimed
+  approvedHours?: number; // Set on approval; may be lower because of the monthly cap
+  multiplier: number;
+  reason?: string;
+  status: OvertimeClaimStatus;
+  decidedBy?: string;
+  decidedAt?: string;
+  exportedAt?: string; // Set once the claim was exported to payroll; no longer editable
+  createdAt: string;
+}
+
+/**
+ * Approved overtime of one employee in a pay period
+ */
+export interface OvertimePayrollLine {
+  employeeId: string;
+  employeeName: string;
+  period: string;
+  hoursByDayType: Record<OvertimeDayType, number>;
+  payableHours: number; // Approved hours weighted by their multipliers
+  claimIds: string[];
+}
+
+// ==================== Carrier Types for API ====================
+
+export interface OvertimeClaimCarrier {
+  employeeId: string;
+  employeeName: string;
+  officialEmail: string;
+  reportingTo: string;
+  date: string;
+  dayType: OvertimeDayType;
+  basis: OvertimeBasis;
+  workedHours: number;
+  expectedHours: number;
+  hours: number;
+  multiplier: number;
+  reason?: string;
+}
+
+export interface OvertimeDecisionCarrier {
+  status: 'approved' | 'rejected';
+  approvedHours?: number; // Required when approving
+}
@@ -0,0 +1,83 @@
+/**
+ * Punch Types
+ * Web check-in/check-out with the browser's geolocation, validated against a
+ * geofence around each work location
+ */
+
+// ==================== Enums ====================
+
+export type PunchType = 'CHECK_IN' | 'CHECK_OUT';
+
+// DOOR = door device (AttendanceDetail.checkInDoor / checkOutDoor); WEB = punch widget
+export type PunchSource = 'DOOR' | 'WEB';
+
+// accepted = inside a geofence; outside punches are exceptions until the reporting manager decides
+export type PunchStatus = 'accepted' | 'pending' | 'approved' | 'rejected';
+
+// ==================== Core Interfaces ====================
+
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+  accuracyMeters: number;
+}
+
+/**
+ * Circle around a work location within which web punches are accepted
+ */
+export interface WorkLocationGeofence {
+  workLocationId: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  enabled: boolean;
+  updatedAt?: string;
+}
+
+export interface AttendancePunch {
+  id: string;
+  employeeId: string;
+  employeeName: string;
+  officialEmail: string;
+  reportingTo: string;
+  type: PunchType;
+  source: PunchSource;
+  date: string; // yyyy-MM-dd attendance date
+  punchedAt: string; // ISO, server time
+  position: GeoPosition | null; // null when the browser could not provide a location
+  workLocationId?: string; // Nearest geofenced work location
+  distanceMeters?: number; // From the nearest geofence's center
+  withinGeofence: boolean;
+  status: PunchStatus;
+  reason?: string; // Required for exceptions
+  decidedBy?: string;
+  decidedAt?: string;
+  createdAt: string;
+}
+
+/**
+ * Geofence check of a position against the configured work locations
+ */
+export interface GeofenceMatch {
+  geofence: WorkLocationGeofence | null; // Nearest enabled geofence
+  distanceMeters: number | null;
+  withinGeofence: boolean;
+}
+
+// ==================== Carrier Types for API ====================
+
+/**
+ * The employee and their reporting manager are taken from the JWT token;
+ * punchedAt is stamped by the server
+ */
+export interface AttendancePunchCarrier {
+  type: PunchType;
+  date: string;
+  position: GeoPosition | null;
+  workLocationId?: string;
+  distanceMeters?: number;
+  withinGeofence: boolean; // Re-checked by the server
+  reason?: string;
+}
+
+export type WorkLocationGeofenceCarrier = Omit<WorkLocationGeofence, 'workLocationId' | 'updatedAt'>;
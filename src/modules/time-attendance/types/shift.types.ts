@@ -0,0 +1,142 @@
+/**
+ * Shift Roster Types
+ * Named shift definitions, rotation patterns, the per-employee daily roster and
+ * shift swap requests approved by the reporting manager
+ */
+
+// ==================== Enums ====================
+
+export type RosterAssignmentSource = 'MANUAL' | 'ROTATION' | 'SWAP';
+
+export type ShiftSwapStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+// ==================== Core Interfaces ====================
+
+export interface ShiftDefinition {
+  id: string;
+  name: string;
+  code: string; // Short label shown in roster cells, e.g. "GEN", "N"
+  startTime: string; // HH:mm, 24-hour
+  endTime: string; // HH:mm; at or before startTime when the shift crosses midnight
+  graceMinutes: number; // Check-ins up to startTime + grace are on time
+  breakMinutes: number; // Unpaid break, excluded from expected hours
+  color: string; // Hex color of roster chips
+  active: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * Repeating sequence of shifts, one entry per day of the cycle
+ * (e.g. 5 mornings, 2 offs, 5 evenings, 2 offs)
+ */
+export interface RotationPattern {
+  id: string;
+  name: string;
+  description?: string;
+  days: (string | null)[]; // Shift ID per cycle day; null = week off
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/**
+ * Shift of one employee on one date. Night shifts belong to the date they start.
+ */
+export interface RosterAssignment {
+  id: string;
+  employeeId: string;
+  date: string; // yyyy-MM-dd
+  shiftId: string | null; // null = week off
+  source: RosterAssignmentSource;
+  rotationId?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Request to exchange shifts with a colleague on one date. Approval swaps both
+ * roster assignments on the server.
+ */
+export interface ShiftSwapRequest {
+  id: string;
+  date: string; // yyyy-MM-dd
+  requesterId: string;
+  requesterEmail: string;
+  requesterName: string;
+  requesterShiftId: string | null;
+  counterpartId: string;
+  counterpartEmail: string;
+  counterpartName: string;
+  counterpartShiftId: string | null;
+  reason: string;
+  reportingTo: string; // Requester's reporting manager, who approves
+  status: ShiftSwapStatus;
+  decidedBy?: string;
+  decidedAt?: string;
+  createdAt: string;
+}
+
+// ==================== Carrier Types for API ====================
+
+export interface ShiftDefinitionCarrier {
+  name: string;
+  code: string;
+  startTime: string;
+  endTime: string;
+  graceMinutes: number;
+  breakMinutes: number;
+  color: string;
+  active: boolean;
+}
+
+export interface RotationPatternCarrier {
+  name: string;
+  description?: string;
+  days: (string | null)[];
+}
+
+/**
+ * Upserts the assignment of an employee on a date
+ */
+export interface RosterAssignmentCarrier {
+  employeeId: string;
+  date: string;
+  shiftId: string | null;
+  source: RosterAssignmentSource;
+  rotationId?: string;
+}
+
+export interface ShiftSwapCarrier {
+  date: string;
+  requesterId: string;
+  requesterEmail: string;
+  requesterName: string;
+  counterpartId: string;
+  counterpartEmail: string;
+  counterpartName: string;
+  reason: string;
+  reportingTo: string;
+}
+
+// ==================== UI Types ====================
+
+/**
+ * Employee row of the roster grid
+ */
+export interface RosterEmployee {
+  id: string;
+  name: string;
+  email: string;
+  department: string;
+  workLocation: string;
+  reportingTo?: string;
+}
+
+/**
+ * Check-in judged against the shift the employee was rostered on
+ */
+export interface ShiftAttendanceEvaluation {
+  shift: ShiftDefinition | null; // null = week off
+  expectedHours: number;
+  lateByMinutes: number; // 0 when on time or not checked in
+  isLate: boolean;
+}
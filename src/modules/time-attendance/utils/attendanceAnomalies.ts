@@ -0,0 +1,180 @@
+/**
+ * Attendance Anomalies
+ * Scans a team's recent attendance for patterns the reporting manager should
+ * follow up, under the anomaly thresholds of the shift settings, and ranks the
+ * team by how urgent their anomalies are
+ *
+ * Check-ins and check-outs merge door-device records with effective web
+ * punches. Lateness is judged from the merged check-in against the rostered
+ * shift; days without a roster entry use the API's flag against the global
+ * shift settings. A day is short when the attendance API flags it below the warning
+ * or critical hours; streaks count consecutive worked days, so weekly offs and
+ * leave do not break them. Today's missing check-out is not flagged while the
+ * day is still running.
+ */
+
+import { format, parseISO, subDays } from 'date-fns';
+import { AttendanceAnomalyThresholds, AttendanceDetail, MusterAttendanceRecord } from '@/types/attendance';
+import { AbsenceApplication } from '@/modules/leave-management-system/types/leave.types';
+import { AttendancePunch } from '../types/punch.types';
+import { ShiftDefinition } from '../types/shift.types';
+import { AttendanceAnomaly, AttendanceAnomalyType, EmployeeAnomalies } from '../types/anomaly.types';
+import { ANOMALY_WEIGHTS } from '../constants';
+import { getDayPunches } from './punches';
+import { absenceCoversDate } from './musterRoll';
+import { evaluateShiftAttendance, rosterKey } from './shiftRoster';
+
+export interface AnomalyScanInput {
+  records: MusterAttendanceRecord[]; // Attendance of the team covering the lookback
+  absences: AbsenceApplication[]; // Leave applications of the team; only approved full-day leave counts
+  punches: AttendancePunch[]; // Web punches of the team
+  rosteredShifts: Map<string, ShiftDefinition | null>; // Keyed by rosterKey(employeeId, date); null = week off
+  thresholds: AttendanceAnomalyThresholds;
+  today: string; // yyyy-MM-dd
+}
+
+/**
+ * First day of the lookback window ending today
+ */
+export const getLookbackStart = (today: string, thresholds: AttendanceAnomalyThresholds): string =>
+  format(subDays(parseISO(today), Math.max(thresholds.lookbackDays, 1) - 1), 'yyyy-MM-dd');
+
+const isShortDay = (detail: AttendanceDetail) => detail.warningHours > 0 || detail.criticalHours > 0;
+
+// Flagged from the threshold; twice the threshold or more is critical
+const byCount = (type: AttendanceAnomalyType, dates: string[], threshold: number): AttendanceAnomaly[] =>
+  threshold > 0 && dates.length >= threshold
+    ? [{ type, severity: dates.length >= threshold * 2 ? 'critical' : 'warning', dates }]
+    : [];
+
+/**
+ * Anomalies in one employee's attendance within the lookback window
+ */
+export const detectEmployeeAnomalies = (
+  record: MusterAttendanceRecord,
+  absences: AbsenceApplication[],
+  punches: AttendancePunch[],
+  rosteredShifts: Map<string, ShiftDefinition | null>,
+  thresholds: AttendanceAnomalyThresholds,
+  today: string
+): AttendanceAnomaly[] => {
+  const start = getLookbackStart(today, thresholds);
+  const details = record.attendanceDetails
+    .filter((detail) => detail.date >= start && detail.date <= today)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const approvedLeave = absences.filter(
+    (application) => application.status?.toLowerCase() === 'approved' && application.absenceCategory === 'fullDay'
+  );
+
+  const lateDates: string[] = [];
+  const missingCheckoutDates: string[] = [];
+  const punchOnLeaveDates: string[] = [];
+  const shortStreaks: AttendanceDetail[][] = [];
+  let streak: AttendanceDetail[] = [];
+
+  details.forEach((detail) => {
+    const { checkIn, checkOut } = getDayPunches(detail, punches);
+    if (!checkIn && !checkOut) return;
+
+    const key = rosterKey(record.employeeId, detail.date);
+    const isLate = rosteredShifts.has(key)
+      ? evaluateShiftAttendance(rosteredShifts.get(key) ?? null, checkIn?.time ?? null).isLate
+      : detail.lateCheckIn === true;
+    if (isLate) lateDates.push(detail.date);
+    if (checkIn && !checkOut && detail.date < today) missingCheckoutDates.push(detail.date);
+    if (approvedLeave.some((application) => absenceCoversDate(application, detail.date))) {
+      punchOnLeaveDates.push(detail.date);
+    }
+
+    if (isShortDay(detail)) {
+      streak.push(detail);
+    } else {
+      if (streak.length > 0) shortStreaks.push(streak);
+      streak = [];
+    }
+  });
+  if (streak.length > 0) shortStreaks.push(streak);
+
+  const longStreaks = shortStreaks.filter(
+    (days) => thresholds.shortHoursStreakDays > 0 && days.length >= thresholds.shortHoursStreakDays
+  );
+
+  return [
+    ...byCount('CHRONIC_LATE', lateDates, thresholds.lateCheckInCount),
+    ...byCount('MISSING_CHECKOUT', missingCheckoutDates, thresholds.missingCheckoutCount),
+    ...(longStreaks.length > 0
+      ? [
+          {
+            type: 'SHORT_HOURS_STREAK' as const,
+            severity: longStreaks.some((days) => days.some((detail) => detail.criticalHours > 0))
+              ? ('critical' as const)
+              : ('warning' as const),
+            dates: longStreaks.flat().map((detail) => detail.date),
+          },
+        ]
+      : []),
+    ...(punchOnLeaveDates.length > 0
+      ? [{ type: 'PUNCH_ON_LEAVE' as const, severity: 'critical' as const, dates: punchOnLeaveDates }]
+      : []),
+  ];
+};
+
+/**
+ * Urgency of an employee's anomalies: weight per day, doubled when critical
+ */
+export const getAnomalyScore = (anomalies: AttendanceAnomaly[]): number =>
+  anomalies.reduce(
+    (total, anomaly) =>
+      total + ANOMALY_WEIGHTS[anomaly.type] * anomaly.dates.length * (anomaly.severity === 'critical' ? 2 : 1),
+    0
+  );
+
+/**
+ * Team members with at least one anomaly, most urgent first
+ *
+ * @example
+ * const ranked = rankTeamAnomalies({
+ *   records,
+ *   absences,
+ *   punches,
+ *   rosteredShifts,
+ *   thresholds: settings.anomalyThresholds || DEFAULT_ANOMALY_THRESHOLDS,
+ *   today: '2026-10-19',
+ * });
+ */
+export const rankTeamAnomalies = (input: AnomalyScanInput): EmployeeAnomalies[] =>
+  input.records
+    .map((record) => {
+      const email = record.officialEmail.toLowerCase();
+      const anomalies = detectEmployeeAnomalies(
+        record,
+        input.absences.filter((application) => application.email?.toLowerCase() === email),
+        input.punches.filter((punch) => punch.officialEmail.toLowerCase() === email),
+        input.rosteredShifts,
+        input.thresholds,
+        input.today
+      );
+      return {
+        employeeId: record.employeeId,
+        employeeName: `${record.firstName} ${record.lastName}`.trim(),
+        officialEmail: record.officialEmail,
+        anomalies,
+        score: getAnomalyScore(anomalies),
+      };
+    })
+    .filter((employee) => employee.anomalies.length > 0)
+    .sort((a, b) => b.score - a.score || a.employeeName.localeCompare(b.employeeName));
+
+/**
+ * Number of employees flagged per anomaly type
+ */
+export const countAnomaliesByType = (ranked: EmployeeAnomalies[]): Record<AttendanceAnomalyType, number> => {
+  const counts: Record<AttendanceAnomalyType, number> = {
+    CHRONIC_LATE: 0,
+    MISSING_CHECKOUT: 0,
+    SHORT_HOURS_STREAK: 0,
+    PUNCH_ON_LEAVE: 0,
+  };
+  ranked.forEach((employee) => employee.anomalies.forEach((anomaly) => (counts[anomaly.type] += 1)));
+  return counts;
+};
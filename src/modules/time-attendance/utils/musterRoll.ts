@@ -0,0 +1,246 @@
+/**
+ * Muster Roll
+ * Reconciles a month of attendance with leave applications, web punches and
+ * holidays into one status code per employee per day, and totals the paid and
+ * loss-of-pay (LOP) days payroll takes over
+ *
+ * A punch (door or effective web punch) or approved regularised hours make a
+ * day present, also on holidays and weekly offs. Without one, a day is a
+ * holiday, weekly off, work from home or approved leave, in that order, and
+ * otherwise absent. Absent days are LOP. Leave days carry the LOP share of
+ * their application (lopDays / totalDays), so partly unpaid leave spreads
+ * evenly over the days it covers. Half-day leave counts half a day.
+ *
+ * Weekly offs follow the employee's roster: a date rostered without a shift is
+ * a weekly off and a rostered shift is a working day. Dates without a roster
+ * entry fall back to the global weekend of the attendance record.
+ */
+
+import { eachDayOfInterval, endOfMonth, format, parse } from 'date-fns';
+import { toCsv } from '@/lib/csv';
+import { AttendanceDetail, MusterAttendanceRecord } from '@/types/attendance';
+import { AbsenceApplication } from '@/modules/leave-management-system/types/leave.types';
+import { Holiday } from '@/modules/leave-management-system/holiday-management/types';
+import { getHolidayOccurrences } from '@/modules/leave-management-system/holiday-management/utils/holidayCalendar';
+import { AttendancePunch } from '../types/punch.types';
+import { RosterAssignment } from '../types/shift.types';
+import { MusterCode, MusterConflictCode, MusterDay, MusterRow } from '../types/muster.types';
+import { isEffectivePunch } from './punches';
+
+export const MUSTER_CODES: MusterCode[] = ['P', 'WFH', 'L', 'H', 'WO', 'A'];
+
+// Absence type code of work-from-home applications
+const WFH_ABSENCE_TYPE = 'WFH';
+
+const PAYROLL_EXPORT_HEADER = [
+  'Employee ID',
+  'Employee Name',
+  'Department',
+  'Period',
+  'Present',
+  'Work From Home',
+  'Leave',
+  'Holidays',
+  'Weekly Offs',
+  'Absent',
+  'Paid Days',
+  'LOP Days',
+  'Conflicts',
+];
+
+export interface MusterRollInput {
+  period: string; // yyyy-MM
+  records: MusterAttendanceRecord[];
+  absences: AbsenceApplication[]; // Applications overlapping the month; rejected / cancelled ones are ignored
+  punches: AttendancePunch[]; // Web punches of the month
+  roster: RosterAssignment[]; // Roster assignments of the month
+  holidays: Holiday[]; // Holidays of the company; optional ones are not days off for everyone
+  companyId: string;
+  today: string; // yyyy-MM-dd; later days get no code
+}
+
+const roundDays = (days: number): number => Math.round(days * 100) / 100;
+
+const toDate = (value: string): string => format(new Date(value), 'yyyy-MM-dd');
+
+const isApproved = (application: AbsenceApplication) => application.status?.toLowerCase() === 'approved';
+
+const isOpen = (application: AbsenceApplication) =>
+  !['rejected', 'cancelled'].includes(application.status?.toLowerCase());
+
+/**
+ * Whether an absence application covers a date; partial day absences only cover the start date
+ */
+export const absenceCoversDate = (application: AbsenceApplication, date: string): boolean => {
+  const from = toDate(application.fromDate);
+  const to = application.absenceCategory === 'fullDay' ? toDate(application.toDate) : from;
+  return from <= date && date <= to;
+};
+
+const getLopShare = (application: AbsenceApplication): number => {
+  if (application.totalDays) return Math.min(Math.max((application.lopDays || 0) / application.totalDays, 0), 1);
+  return application.lop ? 1 : 0;
+};
+
+const emptyCounts = (): Record<MusterCode, number> => ({ P: 0, A: 0, L: 0, WFH: 0, H: 0, WO: 0 });
+
+/**
+ * Code, LOP share and conflicts of one day
+ */
+export const getMusterDay = (
+  date: string,
+  detail: AttendanceDetail | undefined,
+  absences: AbsenceApplication[],
+  punches: AttendancePunch[],
+  isHoliday: boolean,
+  isWeekOff: boolean
+): MusterDay => {
+  const leave = absences.find((application) => isOpen(application) && absenceCoversDate(application, date));
+  const approvedLeave = leave && isApproved(leave) ? leave : undefined;
+  const punched =
+    !!detail?.checkinTime ||
+    (detail?.regularizedHours || 0) > 0 ||
+    punches.some((punch) => punch.date === date && isEffectivePunch(punch));
+  const absenceType = leave?.absenceType;
+
+  if (approvedLeave?.absenceType.toUpperCase() === WFH_ABSENCE_TYPE || detail?.attendanceStatus === 'Work From Home') {
+    return { date, code: 'WFH', lopDays: 0, absenceType, conflicts: [] };
+  }
+
+  if (punched) {
+    const fullDayLeave = approvedLeave?.absenceCategory === 'fullDay';
+    const halfDayLop = approvedLeave && !fullDayLeave ? 0.5 * getLopShare(approvedLeave) : 0;
+    return {
+      date,
+      code: 'P',
+      lopDays: halfDayLop,
+      absenceType,
+      conflicts: fullDayLeave && !isHoliday && !isWeekOff ? ['LEAVE_WITH_PUNCH'] : [],
+    };
+  }
+
+  if (isHoliday) return { date, code: 'H', lopDays: 0, conflicts: [] };
+  if (isWeekOff) return { date, code: 'WO', lopDays: 0, conflicts: [] };
+
+  if (approvedLeave) {
+    const units = approvedLeave.absenceCategory === 'fullDay' ? 1 : 0.5;
+    // The other half of a half-day leave without a punch is unpaid
+    const lopDays = units * getLopShare(approvedLeave) + (1 - units);
+    const conflicts: MusterConflictCode[] = units < 1 ? ['ABSENT_WITHOUT_LEAVE'] : [];
+    return { date, code: 'L', lopDays, absenceType, conflicts };
+  }
+
+  return {
+    date,
+    code: 'A',
+    lopDays: 1,
+    absenceType,
+    conflicts: [leave ? 'LEAVE_PENDING' : 'ABSENT_WITHOUT_LEAVE'],
+  };
+};
+
+/**
+ * One row per employee with a code for every day of the period
+ *
+ * @example
+ * const rows = buildMusterRoll({
+ *   period: '2026-10',
+ *   records,
+ *   absences,
+ *   punches,
+ *   roster,
+ *   holidays,
+ *   companyId: 'CMP-001',
+ *   today: '2026-10-19',
+ * });
+ */
+export const buildMusterRoll = (input: MusterRollInput): MusterRow[] => {
+  const monthStart = parse(input.period, 'yyyy-MM', new Date());
+  const dates = eachDayOfInterval({ start: monthStart, end: endOfMonth(monthStart) }).map((day) =>
+    format(day, 'yyyy-MM-dd')
+  );
+
+  const holidayDatesByLocation = new Map<string, Set<string>>();
+  const getHolidayDates = (workLocationId?: string): Set<string> => {
+    const key = workLocationId || '';
+    if (!holidayDatesByLocation.has(key)) {
+      const occurrences = getHolidayOccurrences(input.holidays, monthStart.getFullYear(), {
+        companyId: input.companyId,
+        workLocationId,
+      });
+      holidayDatesByLocation.set(
+        key,
+        new Set(occurrences.filter((o) => o.holiday.type !== 'optional').map((o) => o.date))
+      );
+    }
+    return holidayDatesByLocation.get(key)!;
+  };
+
+  return input.records
+    .map((record) => {
+      const email = record.officialEmail.toLowerCase();
+      const absences = input.absences.filter((application) => application.email?.toLowerCase() === email);
+      const punches = input.punches.filter((punch) => punch.officialEmail.toLowerCase() === email);
+      const detailsByDate = new Map(record.attendanceDetails.map((detail) => [detail.date, detail]));
+      const shiftIdsByDate = new Map(
+        input.roster
+          .filter((assignment) => assignment.employeeId === record.employeeId)
+          .map((assignment) => [assignment.date, assignment.shiftId])
+      );
+      const holidayDates = getHolidayDates(record.workLocationId);
+
+      const days = dates.map((date): MusterDay => {
+        if (date > input.today) return { date, code: null, lopDays: 0, conflicts: [] };
+        const detail = detailsByDate.get(date);
+        const isWeekOff = shiftIdsByDate.has(date)
+          ? shiftIdsByDate.get(date) === null
+          : detail?.attendanceStatus === 'Weekend';
+        return getMusterDay(date, detail, absences, punches, holidayDates.has(date), isWeekOff);
+      });
+
+      const counts = emptyCounts();
+      days.forEach((day) => {
+        if (day.code) counts[day.code] += 1;
+      });
+      const lopDays = roundDays(days.reduce((total, day) => total + day.lopDays, 0));
+
+      return {
+        employeeId: record.employeeId,
+        employeeName: `${record.firstName} ${record.lastName}`.trim(),
+        officialEmail: record.officialEmail,
+        department: record.department,
+        days,
+        counts,
+        paidDays: roundDays(dates.length - lopDays),
+        lopDays,
+        conflictCount: days.filter((day) => day.conflicts.length > 0).length,
+      };
+    })
+    .sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+};
+
+/**
+ * CSV of the muster roll: totals for payroll followed by the code of every day
+ */
+export const buildMusterRollCsv = (rows: MusterRow[], period: string): string => {
+  const dates = rows[0]?.days.map((day) => day.date) || [];
+  return toCsv([
+    [...PAYROLL_EXPORT_HEADER, ...dates],
+    ...rows.map((row) => [
+      row.employeeId,
+      row.employeeName,
+      row.department,
+      period,
+      row.counts.P,
+      row.counts.WFH,
+      row.counts.L,
+      row.counts.H,
+      row.counts.WO,
+      row.counts.A,
+      row.paidDays,
+      row.lopDays,
+      row.conflictCount,
+      ...row.days.map((day) => day.code || ''),
+    ]),
+  ]);
+};
@@ -0,0 +1,230 @@
+/**
+ * Overtime Rules
+ * Detects overtime in attendance under the tenant's overtime policy, applies
+ * the monthly cap on approval and aggregates approved claims per pay period
+ *
+ * Weekdays count the hours worked beyond the day's expected hours once the
+ * excess reaches the daily threshold. Every hour worked on a weekend, week off
+ * or holiday is overtime. Weekday hours in a Monday–Sunday week beyond the
+ * weekly threshold that the daily rule has not already counted are added as a
+ * WEEKLY candidate on the last weekday worked that week.
+ */
+
+import { format, parseISO, startOfWeek } from 'date-fns';
+import { toCsv } from '@/lib/csv';
+import { AttendanceDetail } from '@/types/attendance';
+import { ShiftDefinition } from '../types/shift.types';
+import {
+  OvertimeBasis,
+  OvertimeCandidate,
+  OvertimeClaim,
+  OvertimeDay,
+  OvertimeDayType,
+  OvertimePayrollLine,
+  OvertimePolicy,
+} from '../types/overtime.types';
+import { getShiftExpectedHours } from './shiftRoster';
+
+const PAYROLL_EXPORT_HEADER = [
+  'Employee ID',
+  'Employee Name',
+  'Period',
+  'Weekday Hours',
+  'Weekend Hours',
+  'Holiday Hours',
+  'Total Hours',
+  'Payable Hours',
+];
+
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+/**
+ * Round overtime down to whole blocks of roundingMinutes (0 = no rounding)
+ */
+export const roundOvertime = (hours: number, roundingMinutes: number): number => {
+  if (hours <= 0) return 0;
+  if (roundingMinutes <= 0) return roundHours(hours);
+  // Round to the minute first so 0.5 h stored as 0.49999 does not lose a block
+  const minutes = Math.round(hours * 60);
+  return roundHours((Math.floor(minutes / roundingMinutes) * roundingMinutes) / 60);
+};
+
+/**
+ * Attendance days in the shape overtime detection works on. A rostered shift
+ * sets the expected hours (a rostered week off counts as a weekend); days
+ * without a roster entry use the expected hours of the attendance record.
+ *
+ * @param details - Attendance records
+ * @param shiftsByDate - Rostered shift per date (null = week off), as from useRosteredShifts
+ * @param holidayDates - yyyy-MM-dd dates of observed company holidays
+ */
+export const toOvertimeDays = (
+  details: AttendanceDetail[],
+  shiftsByDate: Record<string, ShiftDefinition | null>,
+  holidayDates: Set<string>
+): OvertimeDay[] =>
+  details.map((detail) => {
+    const workedHours = roundHours(detail.loggedHours + detail.regularizedHours);
+    const rostered = detail.date in shiftsByDate;
+    const shift = shiftsByDate[detail.date];
+
+    let dayType: OvertimeDayType = 'WEEKDAY';
+    if (holidayDates.has(detail.date)) dayType = 'HOLIDAY';
+    else if (rostered ? shift === null : detail.attendanceStatus === 'Weekend') dayType = 'WEEKEND';
+
+    const expectedHours =
+      dayType !== 'WEEKDAY' ? 0 : shift ? getShiftExpectedHours(shift) : detail.expectedHours;
+    return { date: detail.date, dayType, workedHours, expectedHours };
+  });
+
+/**
+ * Overtime candidates in a set of attendance days, sorted by date
+ */
+export const detectOvertime = (days: OvertimeDay[], policy: OvertimePolicy): OvertimeCandidate[] => {
+  const candidates: OvertimeCandidate[] = [];
+  const weeks = new Map<string, { weekdayHours: number; dailyOvertime: number; lastWorkedDay?: OvertimeDay }>();
+
+  [...days]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((day) => {
+      if (day.dayType !== 'WEEKDAY') {
+        const hours = roundOvertime(day.workedHours, policy.roundingMinutes);
+        if (hours > 0) {
+          candidates.push({ ...day, basis: 'DAILY', hours, multiplier: policy.multipliers[day.dayType] });
+        }
+        return;
+      }
+
+      const weekKey = format(startOfWeek(parseISO(day.date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+      const week = weeks.get(weekKey) || { weekdayHours: 0, dailyOvertime: 0 };
+      week.weekdayHours += day.workedHours;
+      if (day.workedHours > 0) week.lastWorkedDay = day;
+      weeks.set(weekKey, week);
+
+      const excess = day.workedHours - day.expectedHours;
+      if (excess * 60 < Math.max(1, policy.dailyThresholdMinutes)) return;
+      const hours = roundOvertime(excess, policy.roundingMinutes);
+      if (hours <= 0) return;
+      week.dailyOvertime += hours;
+      candidates.push({ ...day, basis: 'DAILY', hours, multiplier: policy.multipliers.WEEKDAY });
+    });
+
+  if (policy.weeklyThresholdHours > 0) {
+    weeks.forEach((week) => {
+      if (!week.lastWorkedDay) return;
+      const hours = roundOvertime(
+        week.weekdayHours - policy.weeklyThresholdHours - week.dailyOvertime,
+        policy.roundingMinutes
+      );
+      if (hours <= 0) return;
+      candidates.push({
+        date: week.lastWorkedDay.date,
+        dayType: 'WEEKDAY',
+        basis: 'WEEKLY',
+        workedHours: roundHours(week.weekdayHours),
+        expectedHours: policy.weeklyThresholdHours,
+        hours,
+        multiplier: policy.multipliers.WEEKDAY,
+      });
+    });
+  }
+
+  return candidates.sort((a, b) => a.date.localeCompare(b.date) || a.basis.localeCompare(b.basis));
+};
+
+export const overtimeClaimKey = (date: string, basis: OvertimeBasis): string => `${date}|${basis}`;
+
+/**
+ * Candidates without a pending or approved claim; rejected and cancelled
+ * claims can be claimed again
+ */
+export const getUnclaimedCandidates = (candidates: OvertimeCandidate[], claims: OvertimeClaim[]): OvertimeCandidate[] => {
+  const claimed = new Set(
+    claims
+      .filter((claim) => claim.status === 'pending' || claim.status === 'approved')
+      .map((claim) => overtimeClaimKey(claim.date, claim.basis))
+  );
+  return candidates.filter((candidate) => !claimed.has(overtimeClaimKey(candidate.date, candidate.basis)));
+};
+
+/**
+ * Hours that can still be approved for an employee in a month under the cap
+ *
+ * @param approvedInMonth - Hours already approved for the employee in the claim's month
+ */
+export const getRemainingCapHours = (policy: OvertimePolicy, approvedInMonth: number): number =>
+  policy.monthlyCapHours > 0 ? roundHours(Math.max(0, policy.monthlyCapHours - approvedInMonth)) : Infinity;
+
+/**
+ * Hours approved for one employee in a pay period, leaving out one claim
+ * (the one being decided)
+ */
+export const getApprovedHoursInPeriod = (
+  claims: OvertimeClaim[],
+  employeeId: string,
+  period: string,
+  excludeClaimId?: string
+): number =>
+  roundHours(
+    claims
+      .filter(
+        (claim) =>
+          claim.status === 'approved' &&
+          claim.employeeId === employeeId &&
+          claim.period === period &&
+          claim.id !== excludeClaimId
+      )
+      .reduce((sum, claim) => sum + (claim.approvedHours ?? claim.hours), 0)
+  );
+
+/**
+ * Approved claims aggregated per employee; payable hours weigh each claim by
+ * its multiplier
+ */
+export const buildOvertimePayrollLines = (claims: OvertimeClaim[]): OvertimePayrollLine[] => {
+  const lines = new Map<string, OvertimePayrollLine>();
+
+  claims
+    .filter((claim) => claim.status === 'approved')
+    .forEach((claim) => {
+      const line = lines.get(claim.employeeId) || {
+        employeeId: claim.employeeId,
+        employeeName: claim.employeeName,
+        period: claim.period,
+        hoursByDayType: { WEEKDAY: 0, WEEKEND: 0, HOLIDAY: 0 },
+        payableHours: 0,
+        claimIds: [],
+      };
+      const hours = claim.approvedHours ?? claim.hours;
+      line.hoursByDayType[claim.dayType] = roundHours(line.hoursByDayType[claim.dayType] + hours);
+      line.payableHours = roundHours(line.payableHours + hours * claim.multiplier);
+      line.claimIds.push(claim.id);
+      lines.set(claim.employeeId, line);
+    });
+
+  return [...lines.values()].sort((a, b) => a.employeeName.localeCompare(b.employeeName));
+};
+
+/**
+ * Total approved hours of a payroll line across day types
+ */
+export const getPayrollLineHours = (line: OvertimePayrollLine): number =>
+  roundHours(line.hoursByDayType.WEEKDAY + line.hoursByDayType.WEEKEND + line.hoursByDayType.HOLIDAY);
+
+/**
+ * CSV of the approved overtime of a pay period, one row per employee
+ */
+export const buildOvertimePayrollCsv = (lines: OvertimePayrollLine[]): string =>
+  toCsv([
+    PAYROLL_EXPORT_HEADER,
+    ...lines.map((line) => [
+      line.employeeId,
+      line.employeeName,
+      line.period,
+      line.hoursByDayType.WEEKDAY,
+      line.hoursByDayType.WEEKEND,
+      line.hoursByDayType.HOLIDAY,
+      getPayrollLineHours(line),
+      line.payableHours,
+    ]),
+  ]);
@@ -0,0 +1,105 @@
+/**
+ * Punch Utilities
+ * Geofence matching of web punches, the next punch of the day and how web
+ * punches combine with door-device attendance
+ */
+
+import { format, parseISO } from 'date-fns';
+import { AttendanceDetail } from '@/types/attendance';
+import {
+  AttendancePunch,
+  GeofenceMatch,
+  GeoPosition,
+  PunchSource,
+  PunchType,
+  WorkLocationGeofence,
+} from '../types/punch.types';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+type LatLng = Pick<GeoPosition, 'latitude' | 'longitude'>;
+
+/**
+ * Great-circle (haversine) distance between two points in meters
+ */
+export const getDistanceMeters = (from: LatLng, to: LatLng): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Nearest enabled geofence to a position and whether the position is inside
+ * it. Without a position, or with no geofence configured, the punch is outside.
+ */
+export const matchGeofence = (position: GeoPosition | null, geofences: WorkLocationGeofence[]): GeofenceMatch => {
+  const enabled = geofences.filter((geofence) => geofence.enabled);
+  if (!position || enabled.length === 0) return { geofence: null, distanceMeters: null, withinGeofence: false };
+
+  const [nearest] = enabled
+    .map((geofence) => ({ geofence, distanceMeters: Math.round(getDistanceMeters(position, geofence)) }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+  return { ...nearest, withinGeofence: nearest.distanceMeters <= nearest.geofence.radiusMeters };
+};
+
+/**
+ * Punches that count towards attendance; rejected exceptions do not
+ */
+export const isEffectivePunch = (punch: AttendancePunch): boolean => punch.status !== 'rejected';
+
+/**
+ * Check-in unless the last effective punch of the day was a check-in
+ */
+export const getNextPunchType = (punchesToday: AttendancePunch[]): PunchType => {
+  const last = punchesToday
+    .filter(isEffectivePunch)
+    .sort((a, b) => a.punchedAt.localeCompare(b.punchedAt))
+    .pop();
+  return last?.type === 'CHECK_IN' ? 'CHECK_OUT' : 'CHECK_IN';
+};
+
+export interface DayPunch {
+  time: string; // HH:mm
+  source: PunchSource;
+  label: string | null; // Door name, or the web punch's work location
+  punch?: AttendancePunch; // Web punches only
+}
+
+/**
+ * First check-in and last check-out of a day across door-device attendance
+ * and effective web punches
+ *
+ * @param locationNames - Work location name by ID, to label web punches
+ */
+export const getDayPunches = (
+  detail: AttendanceDetail,
+  punches: AttendancePunch[],
+  locationNames: Record<string, string> = {}
+): { checkIn: DayPunch | null; checkOut: DayPunch | null } => {
+  const web = (type: PunchType): DayPunch[] =>
+    punches
+      .filter((punch) => punch.date === detail.date && punch.type === type && isEffectivePunch(punch))
+      .map((punch) => ({
+        time: format(parseISO(punch.punchedAt), 'HH:mm'),
+        source: 'WEB',
+        label: punch.workLocationId ? locationNames[punch.workLocationId] || punch.workLocationId : null,
+        punch,
+      }));
+
+  const door = (time: string | null, label: string | null): DayPunch[] =>
+    time ? [{ time: time.slice(0, 5), source: 'DOOR', label }] : [];
+
+  const checkIns = [...door(detail.checkinTime, detail.checkInDoor), ...web('CHECK_IN')].sort((a, b) =>
+    a.time.localeCompare(b.time)
+  );
+  const checkOuts = [...door(detail.checkoutTime, detail.checkOutDoor), ...web('CHECK_OUT')].sort((a, b) =>
+    a.time.localeCompare(b.time)
+  );
+
+  return { checkIn: checkIns[0] || null, checkOut: checkOuts[checkOuts.length - 1] || null };
+};
@@ -0,0 +1,135 @@
+/**
+ * Shift Roster Utilities
+ * Shift timings (including night shifts that cross midnight), rotation
+ * expansion, roster lookups and attendance judged against the rostered shift
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  RosterAssignment,
+  RosterAssignmentCarrier,
+  RotationPattern,
+  ShiftAttendanceEvaluation,
+  ShiftDefinition,
+} from '../types/shift.types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+type ShiftTimings = Pick<ShiftDefinition, 'startTime' | 'endTime'>;
+
+/**
+ * Minutes since midnight of an "HH:mm" or "HH:mm:ss" time
+ */
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * A shift ending at or before its start time ends on the next day
+ */
+export const crossesMidnight = (shift: ShiftTimings): boolean => toMinutes(shift.endTime) <= toMinutes(shift.startTime);
+
+/**
+ * Minutes from shift start to shift end, breaks included
+ */
+export const getShiftSpanMinutes = (shift: ShiftTimings): number => {
+  const span = toMinutes(shift.endTime) - toMinutes(shift.startTime);
+  return span <= 0 ? span + MINUTES_PER_DAY : span;
+};
+
+/**
+ * Hours an employee is expected to work on the shift (span minus break)
+ */
+export const getShiftExpectedHours = (shift: ShiftTimings & Pick<ShiftDefinition, 'breakMinutes'>): number =>
+  Math.round((Math.max(0, getShiftSpanMinutes(shift) - shift.breakMinutes) / 60) * 100) / 100;
+
+/**
+ * e.g. "22:00 – 06:00 (+1)"
+ */
+export const formatShiftTimings = (shift: ShiftTimings): string =>
+  `${shift.startTime} – ${shift.endTime}${crossesMidnight(shift) ? ' (+1)' : ''}`;
+
+export const rosterKey = (employeeId: string, date: string): string => `${employeeId}|${date}`;
+
+/**
+ * Assignments keyed by rosterKey(employeeId, date)
+ */
+export const indexRoster = (assignments: RosterAssignment[]): Map<string, RosterAssignment> =>
+  new Map(assignments.map((assignment) => [rosterKey(assignment.employeeId, assignment.date), assignment]));
+
+/**
+ * The seven yyyy-MM-dd dates of the week starting on weekStart
+ */
+export const getWeekDates = (weekStart: Date): string[] =>
+  Array.from({ length: 7 }, (_, index) => format(addDays(weekStart, index), 'yyyy-MM-dd'));
+
+/**
+ * Shift of a rotation on a date, for a cycle that starts on startDate shifted
+ * by offset days. Undefined before startDate or for an empty pattern.
+ */
+export const getRotationShiftId = (
+  pattern: Pick<RotationPattern, 'days'>,
+  startDate: string,
+  date: string,
+  offset: number = 0
+): string | null | undefined => {
+  const length = pattern.days.length;
+  const elapsed = differenceInCalendarDays(parseISO(date), parseISO(startDate));
+  if (length === 0 || elapsed < 0) return undefined;
+  return pattern.days[(((elapsed + offset) % length) + length) % length];
+};
+
+/**
+ * Roster assignments from a rotation for each employee between two dates
+ * (inclusive). Employee n starts n × staggerDays into the cycle, so a team on
+ * one rotation can cover different shifts on the same day.
+ */
+export const expandRotation = (
+  pattern: RotationPattern,
+  employeeIds: string[],
+  startDate: string,
+  endDate: string,
+  staggerDays: number = 0
+): RosterAssignmentCarrier[] => {
+  const totalDays = differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1;
+  if (pattern.days.length === 0 || totalDays <= 0) return [];
+
+  return employeeIds.flatMap((employeeId, index) =>
+    Array.from({ length: totalDays }, (_, day) => {
+      const date = format(addDays(parseISO(startDate), day), 'yyyy-MM-dd');
+      return {
+        employeeId,
+        date,
+        shiftId: getRotationShiftId(pattern, startDate, date, index * staggerDays) ?? null,
+        source: 'ROTATION' as const,
+        rotationId: pattern.id,
+      };
+    })
+  );
+};
+
+/**
+ * Judge a day's check-in against the rostered shift. A week off expects no
+ * hours. Check-ins after midnight on a night shift count from the previous
+ * day's start time.
+ *
+ * @param shift - Rostered shift, or null for a week off
+ * @param checkinTime - "HH:mm:ss" check-in, or null when absent
+ */
+export const evaluateShiftAttendance = (
+  shift: ShiftDefinition | null,
+  checkinTime: string | null
+): ShiftAttendanceEvaluation => {
+  if (!shift) return { shift: null, expectedHours: 0, lateByMinutes: 0, isLate: false };
+
+  const expectedHours = getShiftExpectedHours(shift);
+  if (!checkinTime) return { shift, expectedHours, lateByMinutes: 0, isLate: false };
+
+  let checkIn = toMinutes(checkinTime);
+  if (crossesMidnight(shift) && checkIn < toMinutes(shift.endTime)) checkIn += MINUTES_PER_DAY;
+
+  const minutesAfterStart = checkIn - toMinutes(shift.startTime);
+  const isLate = minutesAfterStart > shift.graceMinutes;
+  return { shift, expectedHours, lateByMinutes: isLate ? minutesAfterStart : 0, isLate };
+};
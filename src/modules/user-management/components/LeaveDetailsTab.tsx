@@ -3,6 +3,8 @@
  * Displays and allows editing of employee leave details in the onboarding form
  * Fetches leave information using the employee ID and renders editable cards
  * Combines LeaveDetails with LMS Configurations to form EmployeeLeavesInformation
+ * Lists the employee's encashment requests for HR processing and payout
+ * Shows the leave balance ledger so every credit and deduction can be traced
  */
 
 import { useEffect, useState } from "react";
@@ -18,9 +20,13 @@ import {
   LeaveDetails,
   LMSConfiguration,
 } from "../../../modules/leave-management-system/types/leaveConfiguration.types";
+import { Encashment, LeaveTransaction } from "../../../modules/leave-management-system/types/leave.types";
+import { EncashmentLedger } from "../../../modules/leave-management-system/components/EncashmentLedger";
+import { LeaveBalanceLedger } from "../../../modules/leave-management-system/components/LeaveBalanceLedger";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
-import { AlertCircle, RotateCcw } from "lucide-react";
+import { AlertCircle, Banknote, CheckCircle, RotateCcw, XCircle } from "lucide-react";
 import UniversalSearchRequest from "@/types/search";
 
 interface LeaveDetailsTabProps {
@@ -32,8 +38,10 @@ export function LeaveDetailsTab({
   employeeId,
   onDataChange,
 }: LeaveDetailsTabProps) {
-  const { getLeaveDetails, bulkAddCredits, creditLeaves, deductLeaves } = useUserManagement();
-  const { searchLeaveConfigurations } = useLeaveManagement();
+  const { getLeaveDetails, bulkAddCredits, creditLeaves, deductLeaves, getLeaveLedger } =
+    useUserManagement();
+  const { searchLeaveConfigurations, searchEncashments, processEncashmentRequest } =
+    useLeaveManagement();
   const { toast } = useToast();
 
   const [leaveData, setLeaveData] = useState<EmployeeLeavesInformation | null>(
@@ -57,6 +65,14 @@ export function LeaveDetailsTab({
   const [addCreditsDialogOpen, setAddCreditsDialogOpen] = useState(false);
   const [isProcessingAddCredits, setIsProcessingAddCredits] = useState(false);
 
+  // Encashment ledger state
+  const [encashments, setEncashments] = useState<Encashment[]>([]);
+  const [processingEncashmentId, setProcessingEncashmentId] = useState<string | null>(null);
+
+  // Leave balance ledger state
+  const [ledgerTransactions, setLedgerTransactions] = useState<LeaveTransaction[]>([]);
+  const [ledgerTotal, setLedgerTotal] = useState<number | undefined>(undefined);
+
   // Fetch leave details on mount or when employeeId changes
   useEffect(() => {
     if (!employeeId) {
@@ -66,6 +82,8 @@ export function LeaveDetailsTab({
     }
 
     fetchLeaveDetails();
+    fetchEncashments();
+    fetchLedger();
   }, [employeeId]);
 
   const fetchLeaveDetails = async () => {
@@ -133,6 +151,59 @@ export function LeaveDetailsTab({
     }
   };
 
+  const fetchEncashments = async () => {
+    if (!employeeId) return;
+
+    const searchRequest: UniversalSearchRequest = {
+      searchText: undefined,
+      searchFields: [],
+      filters: { and: { employeeId } },
+      sort: { createdAt: -1 },
+    };
+
+    const result = await searchEncashments(searchRequest, 0, 100);
+    setEncashments(result?.content || []);
+  };
+
+  const fetchLedger = async () => {
+    if (!employeeId) return;
+
+    const searchRequest: UniversalSearchRequest = {
+      searchText: undefined,
+      searchFields: [],
+      sort: { effectiveOn: 1 },
+    };
+
+    const result = await getLeaveLedger(employeeId, searchRequest, 0, 500);
+    setLedgerTransactions(result?.content || []);
+    setLedgerTotal(result?.totalElements);
+  };
+
+  /**
+   * HR processing of a manager approved encashment request
+   * Approving deducts the days from the balance; paid records the payout
+   */
+  const handleProcessEncashment = async (
+    encashmentId: string,
+    status: "approve" | "reject" | "paid"
+  ) => {
+    setProcessingEncashmentId(encashmentId);
+    try {
+      const result = await processEncashmentRequest(encashmentId, status);
+      if (result) {
+        const verb = status === "paid" ? "marked as paid" : status === "approve" ? "approved" : "rejected";
+        toast({
+          title: "Success",
+          description: `Encashment request ${verb}`,
+        });
+        // Refresh ledger and balances
+        await Promise.all([fetchEncashments(), fetchLeaveDetails(), fetchLedger()]);
+      }
+    } finally {
+      setProcessingEncashmentId(null);
+    }
+  };
+
   const handleUpdateCredits = async (
     leaveTypeId: string,
     action: "credit" | "deduct",
@@ -179,7 +250,7 @@ export function LeaveDetailsTab({
             title: "Success",
             description: `Special leave credits added successfully`,
           });
-          await fetchLeaveDetails();
+          await Promise.all([fetchLeaveDetails(), fetchLedger()]);
           return true;
         } else {
           toast({
@@ -219,7 +290,7 @@ export function LeaveDetailsTab({
           });
 
           // Refresh leave details
-          await fetchLeaveDetails();
+          await Promise.all([fetchLeaveDetails(), fetchLedger()]);
           return true;
         } else {
           toast({
@@ -302,7 +373,7 @@ export function LeaveDetailsTab({
         });
         setAddCreditsDialogOpen(false);
         // Refresh leave details
-        await fetchLeaveDetails();
+        await Promise.all([fetchLeaveDetails(), fetchLedger()]);
       } else {
         toast({
           title: "Error",
@@ -322,6 +393,10 @@ export function LeaveDetailsTab({
     }
   };
 
+  const leaveTypeNames = Object.fromEntries(
+    Object.entries(leaveData?.configurations || {}).map(([code, config]) => [code, config.name])
+  );
+
   if (!employeeId) {
     return (
       <Alert variant="destructive">
@@ -367,6 +442,78 @@ export function LeaveDetailsTab({
         isLoading={isLoading}
       />
 
+      {/* Encashment Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Encashment Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <EncashmentLedger
+            encashments={encashments}
+            leaveTypeNames={leaveTypeNames}
+            renderActions={(encashment) => {
+              const isProcessing = processingEncashmentId === encashment.id;
+              if (encashment.status === "MANAGER_APPROVED") {
+                return (
+                  <>
+                    <Button
+                      size="sm"
+                      className="h-8 bg-green-600 hover:bg-green-700"
+                      disabled={isProcessing}
+                      onClick={() => handleProcessEncashment(encashment.id, "approve")}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      className="h-8"
+                      disabled={isProcessing}
+                      onClick={() => handleProcessEncashment(encashment.id, "reject")}
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </>
+                );
+              }
+              if (encashment.status === "APPROVED") {
+                return (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8"
+                    disabled={isProcessing}
+                    onClick={() => handleProcessEncashment(encashment.id, "paid")}
+                  >
+                    <Banknote className="h-4 w-4 mr-1" />
+                    Mark Paid
+                  </Button>
+                );
+              }
+              return <span className="text-xs text-muted-foreground">-</span>;
+            }}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Leave Balance Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Leave Balance Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <LeaveBalanceLedger
+            transactions={ledgerTransactions}
+            totalTransactions={ledgerTotal}
+            balances={leaveData?.balances}
+            leaveTypeNames={leaveTypeNames}
+            exportFileName={`leave-ledger-${employeeId}`}
+          />
+        </CardContent>
+      </Card>
+
       {!leaveData && !isLoading && !error && (
         <Alert>
           <AlertCircle className="h-4 w-4" />
@@ -0,0 +1,255 @@
+/**
+ * Visitor Invite Registration Page
+ * Public pre-registration page opened from the host's invite link
+ *
+ * The visitor has no session: the invite token authorizes the requests and the
+ * tenant comes from the link. Registering creates a pending visit for the host
+ * to approve, after which the visitor receives their QR gate pass.
+ */
+
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { CalendarClock, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getVisitorInvite, registerVisitorInvite } from '@/services/visitorManagementMain';
+import { resolveAuth } from '@/store/localStorage';
+import { VisitorPhotoCapture } from './components/VisitorPhotoCapture';
+import { VisitorInvite } from './types';
+import { ID_TYPE_OPTIONS, PURPOSE_LABELS } from './constants';
+import { isInviteOpen } from './utils/gatePass';
+
+const selfRegistrationSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  email: z.string().email('Invalid email address'),
+  phone: z.string().min(10, 'Phone number is required'),
+  idType: z.string().min(1, 'ID type is required'),
+  idNumber: z.string().min(3, 'ID number is required'),
+});
+
+type SelfRegistrationValues = z.infer<typeof selfRegistrationSchema>;
+
+export function VisitorInviteRegistration() {
+  const { token = '' } = useParams();
+  const [searchParams] = useSearchParams();
+  const tenant = searchParams.get('tenant') || resolveAuth().tenant || '';
+
+  const [invite, setInvite] = useState<VisitorInvite | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [photoUrl, setPhotoUrl] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+  const [registered, setRegistered] = useState(false);
+
+  const form = useForm<SelfRegistrationValues>({
+    resolver: zodResolver(selfRegistrationSchema),
+    defaultValues: { name: '', email: '', phone: '', idType: '', idNumber: '' },
+  });
+
+  const fetchInvite = async () => {
+    setLoading(true);
+    try {
+      const response = await getVisitorInvite(token, tenant);
+      if (response.success && response.data) {
+        setInvite(response.data);
+        form.reset({
+          ...form.getValues(),
+          name: response.data.visitorName || '',
+          email: response.data.visitorEmail || '',
+        });
+      } else {
+        setLoadError(response.message || 'This invite link is not valid');
+      }
+    } catch (error) {
+      console.error('Error loading invite:', error);
+      setLoadError('This invite link is not valid');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvite();
+  }, [token, tenant]);
+
+  const onSubmit = async (data: SelfRegistrationValues) => {
+    setIsSubmitting(true);
+    setSubmitError('');
+    try {
+      const response = await registerVisitorInvite(token, { ...data, photoUrl: photoUrl || null }, tenant);
+      if (response.success) {
+        setRegistered(true);
+      } else {
+        setSubmitError(response.message || 'Registration failed, please try again');
+      }
+    } catch (error) {
+      console.error('Error registering visitor:', error);
+      setSubmitError('Registration failed, please try again');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderMessage = (icon: React.ReactNode, title: string, description: string) => (
+    <CardContent className="flex flex-col items-center gap-3 py-10 text-center">
+      {icon}
+      <h2 className="text-lg font-semibold">{title}</h2>
+      <p className="text-sm text-muted-foreground max-w-sm">{description}</p>
+    </CardContent>
+  );
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <CardContent className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      );
+    }
+    if (registered) {
+      return renderMessage(
+        <CheckCircle2 className="h-10 w-10 text-green-600" />,
+        'You are registered',
+        'Your host will review your visit. Once approved you will receive a QR gate pass to show at reception.'
+      );
+    }
+    if (!invite || loadError) {
+      return renderMessage(<XCircle className="h-10 w-10 text-destructive" />, 'Invite not found', loadError);
+    }
+    if (!isInviteOpen(invite)) {
+      return renderMessage(
+        <XCircle className="h-10 w-10 text-destructive" />,
+        'Invite no longer open',
+        invite.status === 'registered'
+          ? 'This invite has already been used to register.'
+          : 'This invite link has expired. Please ask your host for a new one.'
+      );
+    }
+
+    return (
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <VisitorPhotoCapture value={photoUrl} onChange={setPhotoUrl} />
+              <div className="flex-1 grid gap-3">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Name *</FormLabel>
+                      <FormControl>
+                        <Input className="h-8 text-sm" {...field} />
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Email *</FormLabel>
+                      <FormControl>
+                        <Input type="email" className="h-8 text-sm" {...field} />
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-xs">Phone *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="+1234567890" className="h-8 text-sm" {...field} />
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="idType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">ID Type *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="h-8 text-sm">
+                          <SelectValue placeholder="Select ID type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ID_TYPE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="idNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs">ID Number *</FormLabel>
+                    <FormControl>
+                      <Input className="h-8 text-sm" {...field} />
+                    </FormControl>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {submitError && <p className="text-sm text-destructive">{submitError}</p>}
+
+            <Button type="submit" className="w-full gap-2" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+              Register
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-xl">
+        <CardHeader>
+          <CardTitle>Visitor Pre-registration</CardTitle>
+          {invite && (
+            <CardDescription className="flex items-center gap-2">
+              <CalendarClock className="h-4 w-4" />
+              {PURPOSE_LABELS[invite.purpose]} with {invite.hostName} on{' '}
+              {format(new Date(invite.expectedArrivalDateTime), 'MMM dd, yyyy hh:mm a')}
+            </CardDescription>
+          )}
+        </CardHeader>
+        {renderBody()}
+      </Card>
+    </div>
+  );
+}
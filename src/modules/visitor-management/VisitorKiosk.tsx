@@ -0,0 +1,176 @@
+/**
+ * Visitor Kiosk Page
+ * Full-screen reception kiosk: today's expected visitors by hour, walk-in
+ * registration and gate pass scanning, with a badge printed at check-in
+ *
+ * Rendered outside the app shell so a reception tablet shows nothing but the
+ * kiosk; the list refreshes itself to pick up visitors registered elsewhere.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { CalendarClock, LogOut, Maximize, Minimize, RefreshCw, ScanLine, UserPlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useVisitorManagement } from '@/contexts/VisitorManagementContext';
+import { printHtmlDocument } from '@/lib/print';
+import { KioskVisitorSchedule } from './components/KioskVisitorSchedule';
+import { KioskWalkInForm } from './components/KioskWalkInForm';
+import { GatePassScanner } from './components/GatePassScanner';
+import { useVisitorCheckIn } from './hooks/useVisitorCheckIn';
+import { VisitorSnapshot } from './types';
+import { GatePassAction } from './utils/gatePass';
+import { buildExpectedVisitorsRequest, buildVisitorBadgeHtml, groupVisitorsByHour } from './utils/kiosk';
+
+// How often the expected visitors list and the clock are refreshed
+const KIOSK_REFRESH_INTERVAL_MS = 60_000;
+// Upper bound on visitors loaded for one day
+const KIOSK_MAX_VISITORS = 200;
+
+type KioskView = 'expected' | 'walk-in' | 'scan';
+
+export function VisitorKiosk() {
+  const navigate = useNavigate();
+  const { refreshVisitors, isLoading } = useVisitorManagement();
+  const { checkIn, checkOut } = useVisitorCheckIn();
+
+  const [view, setView] = useState<KioskView>('expected');
+  const [visitors, setVisitors] = useState<VisitorSnapshot[]>([]);
+  const [busyVisitorId, setBusyVisitorId] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+  const [isFullscreen, setIsFullscreen] = useState(!!document.fullscreenElement);
+
+  const fetchVisitors = async () => {
+    const result = await refreshVisitors(buildExpectedVisitorsRequest(), 0, KIOSK_MAX_VISITORS);
+    if (result) setVisitors(result.content);
+    setNow(new Date());
+  };
+
+  useEffect(() => {
+    fetchVisitors();
+    const interval = setInterval(fetchVisitors, KIOSK_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const groups = useMemo(() => groupVisitorsByHour(visitors), [visitors]);
+
+  const printBadge = (visitor: VisitorSnapshot) => {
+    printHtmlDocument(buildVisitorBadgeHtml(visitor));
+  };
+
+  const handleCheckIn = async (visitor: VisitorSnapshot) => {
+    setBusyVisitorId(visitor.id);
+    try {
+      const updated = await checkIn(visitor);
+      if (updated) printBadge({ ...visitor, ...updated });
+      await fetchVisitors();
+    } finally {
+      setBusyVisitorId(null);
+    }
+  };
+
+  const handleCheckOut = async (visitor: VisitorSnapshot) => {
+    setBusyVisitorId(visitor.id);
+    try {
+      await checkOut(visitor);
+      await fetchVisitors();
+    } finally {
+      setBusyVisitorId(null);
+    }
+  };
+
+  const handleWalkInCheckedIn = (visitor: VisitorSnapshot) => {
+    printBadge(visitor);
+    setView('expected');
+    fetchVisitors();
+  };
+
+  const handleScanned = (action: GatePassAction, visitor: VisitorSnapshot) => {
+    if (action === 'check-in') printBadge(visitor);
+    fetchVisitors();
+  };
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen?.().catch((error) => {
+        console.error('Error entering fullscreen:', error);
+      });
+    }
+  };
+
+  const handleExit = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    navigate('/visitor-management');
+  };
+
+  const viewButtons: Array<{ id: KioskView; label: string; icon: React.ReactNode }> = [
+    { id: 'expected', label: 'Expected Today', icon: <CalendarClock className="h-5 w-5" /> },
+    { id: 'walk-in', label: 'Walk-in', icon: <UserPlus className="h-5 w-5" /> },
+    { id: 'scan', label: 'Scan Pass', icon: <ScanLine className="h-5 w-5" /> },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="border-b px-6 py-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Welcome</h1>
+          <p className="text-muted-foreground">{format(now, 'EEEE, MMMM dd · hh:mm a')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {viewButtons.map((button) => (
+            <Button
+              key={button.id}
+              variant={view === button.id ? 'default' : 'outline'}
+              className="h-12 gap-2 text-base"
+              onClick={() => setView(button.id)}
+            >
+              {button.icon}
+              {button.label}
+            </Button>
+          ))}
+          <Button variant="ghost" size="icon" className="h-12 w-12" onClick={toggleFullscreen} title="Toggle full screen">
+            {isFullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+          </Button>
+          <Button variant="ghost" size="icon" className="h-12 w-12" onClick={handleExit} title="Exit kiosk">
+            <LogOut className="h-5 w-5" />
+          </Button>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 p-6">
+        {view === 'expected' && (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button variant="outline" className="gap-2" onClick={fetchVisitors} disabled={isLoading}>
+                <RefreshCw className={isLoading ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+                Refresh
+              </Button>
+            </div>
+            <KioskVisitorSchedule
+              groups={groups}
+              loading={isLoading}
+              busyVisitorId={busyVisitorId}
+              onCheckIn={handleCheckIn}
+              onCheckOut={handleCheckOut}
+              onPrintBadge={printBadge}
+            />
+          </div>
+        )}
+        {view === 'walk-in' && (
+          <KioskWalkInForm onCheckedIn={handleWalkInCheckedIn} onCancel={() => setView('expected')} />
+        )}
+        {view === 'scan' && <GatePassScanner onScanned={handleScanned} />}
+      </main>
+    </div>
+  );
+}
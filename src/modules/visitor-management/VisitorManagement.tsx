@@ -1,14 +1,18 @@
 /**
  * Visitor Management Main Page
+ * Visitor list, self-registration invites, the gate pass scanner and the
+ * entry to the reception kiosk
  */
 
 import { useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
-import { UserPlus, Users } from 'lucide-react';
+import { ArrowLeft, Link2, MonitorSmartphone, ScanLine, UserPlus, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { PageLayout } from '@/components/PageLayout';
 import { GenericToolbar } from '@/components/GenericToolbar/GenericToolbar';
 import { VisitorRegistrationForm } from './components/VisitorRegistrationForm';
+import { InviteVisitorDialog } from './components/InviteVisitorDialog';
+import { GatePassScanner } from './components/GatePassScanner';
 import { VisitorsTable } from './VisitorsTable';
 import { ActiveFilter, AvailableFilter, CurrentSort, SortableField } from '@/components/GenericToolbar/types';
 import { 
@@ -20,13 +24,14 @@ export function VisitorManagement() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
 
-  // Check if we're in registration mode
-  const mode = searchParams?.get('mode') as 'create' | 'edit' | null;
+  // Check if we're in registration or gate pass scanning mode
+  const mode = searchParams?.get('mode') as 'create' | 'edit' | 'scan' | null;
   const visitorId = searchParams?.get('id');
   const isRegistrationMode = mode === 'create' || mode === 'edit';
 
   // State management
   const [searchQuery, setSearchQuery] = useState('');
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
   const [activeFilters, setActiveFilters] = useState<ActiveFilter[]>([]);
   const [refreshTrigger] = useState(0); // Reserved for future bulk operations
   const [currentSort, setCurrentSort] = useState<CurrentSort | null>({
@@ -273,6 +278,31 @@ export function VisitorManagement() {
     );
   }
 
+  // Reception view: scan gate passes to check visitors in and out
+  if (mode === 'scan') {
+    return (
+      <PageLayout>
+        <div className="space-y-6">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/visitor-management')}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+                <ScanLine className="h-8 w-8" />
+                Gate Pass Scanner
+              </h1>
+              <p className="text-muted-foreground mt-1">
+                Scan a visitor's QR gate pass to check them in or out
+              </p>
+            </div>
+          </div>
+          <GatePassScanner />
+        </div>
+      </PageLayout>
+    );
+  }
+
   // Main visitor management view
   return (
     <PageLayout>
@@ -289,6 +319,18 @@ export function VisitorManagement() {
             </p>
           </div>
           <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate('/visitor-kiosk')} className="gap-2">
+              <MonitorSmartphone className="h-4 w-4" />
+              Kiosk Mode
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/visitor-management?mode=scan')} className="gap-2">
+              <ScanLine className="h-4 w-4" />
+              Scan Gate Pass
+            </Button>
+            <Button variant="outline" onClick={() => setInviteDialogOpen(true)} className="gap-2">
+              <Link2 className="h-4 w-4" />
+              Invite Visitor
+            </Button>
             {/* Register Visitor Button */}
             <Button onClick={handleAddVisitor} className="gap-2">
               <UserPlus className="h-4 w-4" />
@@ -329,6 +371,8 @@ export function VisitorManagement() {
           currentSort={currentSort}
         />
       </div>
+
+      <InviteVisitorDialog open={inviteDialogOpen} onClose={() => setInviteDialogOpen(false)} />
     </PageLayout>
   );
 }
\ No newline at end of file
@@ -9,7 +9,7 @@ import { useNavigate } from 'react-router-dom';
 import { ColumnDef } from '@tanstack/react-table';
 import { 
   Eye, Edit, CheckCircle, XCircle, UserCheck, UserX,
-  MoreHorizontal, Copy, User, Mail, Phone
+  MoreHorizontal, Copy, User, Mail, Phone, QrCode
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -31,6 +31,7 @@ import { DataTable } from '@/components/common/DataTable/DataTable';
 import { DataTableRef } from '@/components/common/DataTable/types';
 import { ConfirmationDialog } from '@/components/common/ConfirmationDialog';
 import { ViewVisitorModal } from './components/ViewVisitorModal';
+import { GatePassDialog } from './components/GatePassDialog';
 import { ActiveFilter, CurrentSort } from '@/components/GenericToolbar/types';
 import { buildUniversalSearchRequest } from '@/components/GenericToolbar/searchBuilder';
 import { SortMap } from '@/types/search';
@@ -43,6 +44,8 @@ import {
   VISITOR_STATUS_COLORS, 
   PURPOSE_LABELS 
 } from './constants';
+import { issueGatePassCode } from './utils/gatePass';
+import { useVisitorCheckIn } from './hooks/useVisitorCheckIn';
 import { format } from 'date-fns';
 import { ReactNode } from 'react';
 
@@ -63,6 +66,7 @@ export function VisitorsTable({
 }: Props) {
   const navigate = useNavigate();
   const { refreshVisitors, updateVisitor, deleteVisitorById, isLoading } = useVisitorManagement();
+  const { checkIn } = useVisitorCheckIn();
   const { selectedCompanyScope } = useLayoutContext();
   const { toast } = useToast();
   const tableRef = useRef<DataTableRef>(null);
@@ -74,6 +78,7 @@ export function VisitorsTable({
   const [pageSize, setPageSize] = useState(10);
   const [selectedVisitor, setSelectedVisitor] = useState<VisitorSnapshot | null>(null);
   const [viewModalOpen, setViewModalOpen] = useState(false);
+  const [gatePassVisitor, setGatePassVisitor] = useState<VisitorSnapshot | null>(null);
 
   // Confirmation dialog state
   const [confirmDialog, setConfirmDialog] = useState<{
@@ -199,13 +204,18 @@ export function VisitorsTable({
     setConfirmDialog({
       open: true,
       title: 'Approve Visitor',
-      description: `Are you sure you want to approve ${visitor.visitorName}? They will be allowed to check-in.`,
+      description: `Are you sure you want to approve ${visitor.visitorName}? They will be allowed to check-in with a QR gate pass.`,
       confirmText: 'Approve',
       variant: 'default',
       action: async () => {
         try {
           // Update status - all values sent to API are strings/primitives
-          await updateVisitor(visitor.id, { visitorStatus: 'approved' });
+          const approved = await updateVisitor(visitor.id, {
+            visitorStatus: 'approved',
+            gatePassCode: issueGatePassCode('approved', visitor.gatePassCode),
+          });
+          // Show the new gate pass so it can be printed or shared
+          if (approved) setGatePassVisitor(approved);
           // Always refresh data after update attempt
           await fetchData();
         } catch (error) {
@@ -254,11 +264,8 @@ export function VisitorsTable({
       variant: 'default',
       action: async () => {
         try {
-          // Send ISO timestamp string to API (e.g., "2024-01-15T10:30:00.000Z")
-          await updateVisitor(visitor.id, {
-            visitorStatus: 'checked-in',
-            checkInTime: new Date().toISOString(), // ISO string, not Date object
-          });
+          // Also notifies the host that their visitor has arrived
+          await checkIn(visitor);
           // Always refresh data after update attempt
           await fetchData();
         } catch (error) {
@@ -266,7 +273,7 @@ export function VisitorsTable({
         }
       },
     });
-  }, [updateVisitor, fetchData]);
+  }, [checkIn, fetchData]);
 
   const handleCheckOut = useCallback((visitor: VisitorSnapshot) => {
     setConfirmDialog({
@@ -614,6 +621,12 @@ export function VisitorsTable({
                       Edit
                     </DropdownMenuItem>
                   )}
+                  {visitor.gatePassCode && (
+                    <DropdownMenuItem onClick={() => setGatePassVisitor(visitor)}>
+                      <QrCode className="mr-2 h-4 w-4" />
+                      Gate Pass
+                    </DropdownMenuItem>
+                  )}
                   {visitor.visitorStatus === 'pending' && (
                     <>
                       {!hasCheckedIn && <DropdownMenuSeparator />}
@@ -692,6 +705,13 @@ export function VisitorsTable({
         onCheckOut={handleCheckOut}
       />
 
+      {/* Gate Pass Dialog */}
+      <GatePassDialog
+        visitor={gatePassVisitor}
+        open={!!gatePassVisitor}
+        onClose={() => setGatePassVisitor(null)}
+      />
+
       {/* Confirmation Dialog */}
       <ConfirmationDialog
         open={confirmDialog.open}
@@ -0,0 +1,71 @@
+/**
+ * Gate Pass Dialog Component
+ * The visitor's QR gate pass, to show on screen or print for the visitor
+ */
+
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Printer, QrCode } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { printHtmlDocument } from '@/lib/print';
+import { getQrCodeDataUrl } from '@/lib/qrCode';
+import { VisitorSnapshot } from '../types';
+import { PURPOSE_LABELS } from '../constants';
+import { buildGatePassHtml, getGatePassValidity } from '../utils/gatePass';
+
+interface GatePassDialogProps {
+  visitor: VisitorSnapshot | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+export function GatePassDialog({ visitor, open, onClose }: GatePassDialogProps) {
+  const qrCodeUrl = useMemo(
+    () => (visitor?.gatePassCode ? getQrCodeDataUrl(visitor.gatePassCode) : ''),
+    [visitor?.gatePassCode]
+  );
+
+  if (!visitor || !visitor.gatePassCode) return null;
+
+  const { validFrom } = getGatePassValidity(visitor);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QrCode className="h-5 w-5" />
+            Gate Pass
+          </DialogTitle>
+          <DialogDescription>Scanned at reception to check in and out</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center gap-2 text-center">
+          <Avatar className="h-16 w-16">
+            {visitor.photoUrl && <AvatarImage src={visitor.photoUrl} alt={visitor.visitorName} />}
+            <AvatarFallback>{visitor.visitorName.charAt(0).toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div className="text-lg font-semibold">{visitor.visitorName}</div>
+          <div className="text-sm text-muted-foreground">
+            Host: {visitor.firstName} {visitor.lastName} · {PURPOSE_LABELS[visitor.purpose]}
+          </div>
+          <div className="text-sm text-muted-foreground">Valid on {format(validFrom, 'MMM dd, yyyy')}</div>
+          <img src={qrCodeUrl} alt={`Gate pass ${visitor.gatePassCode}`} className="h-48 w-48" />
+          <div className="font-mono text-sm tracking-wider">{visitor.gatePassCode}</div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button className="gap-2" onClick={() => printHtmlDocument(buildGatePassHtml(visitor))}>
+            <Printer className="h-4 w-4" />
+            Print
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
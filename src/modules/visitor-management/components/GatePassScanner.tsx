@@ -0,0 +1,222 @@
+/**
+ * Gate Pass Scanner Component
+ * Reception scans a visitor's QR gate pass to check them in or out
+ *
+ * Handheld and desk scanners type the code into the focused field followed by
+ * Enter; where the browser supports the BarcodeDetector API the device camera
+ * can scan the pass as well.
+ */
+
+import { FormEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Camera, CameraOff, CheckCircle2, ScanLine, XCircle } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useVisitorManagement } from '@/contexts/VisitorManagementContext';
+import { VisitorSnapshot } from '../types';
+import { PURPOSE_LABELS } from '../constants';
+import { useVisitorCheckIn } from '../hooks/useVisitorCheckIn';
+import { GatePassAction, getGatePassAction, parseGatePassCode } from '../utils/gatePass';
+
+// Interval between camera frames checked for a QR code
+const CAMERA_SCAN_INTERVAL_MS = 500;
+
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<Array<{ rawValue: string }>>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+type ScanResult =
+  | { status: 'success'; action: GatePassAction; visitor: VisitorSnapshot; time: string }
+  | { status: 'error'; message: string; visitor?: VisitorSnapshot };
+
+interface GatePassScannerProps {
+  onScanned?: (action: GatePassAction, visitor: VisitorSnapshot) => void;
+}
+
+export function GatePassScanner({ onScanned }: GatePassScannerProps = {}) {
+  const { refreshVisitors } = useVisitorManagement();
+  const { checkIn, checkOut } = useVisitorCheckIn();
+  const [code, setCode] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [cameraActive, setCameraActive] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const processingRef = useRef(false);
+
+  const cameraSupported = !!getBarcodeDetector();
+
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setCameraActive(false);
+  }, []);
+
+  useEffect(() => stopCamera, [stopCamera]);
+
+  const processCode = async (input: string) => {
+    if (processingRef.current) return;
+    const passCode = parseGatePassCode(input);
+    if (!passCode) {
+      setResult({ status: 'error', message: 'Not a valid gate pass code' });
+      return;
+    }
+
+    processingRef.current = true;
+    setIsProcessing(true);
+    try {
+      const found = await refreshVisitors({ filters: { and: { gatePassCode: passCode } } }, 0, 1);
+      const visitor = found?.content?.[0];
+      if (!visitor) {
+        setResult({ status: 'error', message: 'No visitor holds this gate pass' });
+        return;
+      }
+
+      const scan = getGatePassAction(visitor);
+      if ('error' in scan) {
+        setResult({ status: 'error', message: scan.error, visitor });
+        return;
+      }
+
+      const updated = scan.action === 'check-in' ? await checkIn(visitor) : await checkOut(visitor);
+      if (!updated) {
+        setResult({ status: 'error', message: 'Could not update the visitor, please try again', visitor });
+        return;
+      }
+      const time = (scan.action === 'check-in' ? updated.checkInTime : updated.checkOutTime) || new Date().toISOString();
+      setResult({ status: 'success', action: scan.action, visitor, time });
+      onScanned?.(scan.action, updated);
+    } finally {
+      processingRef.current = false;
+      setIsProcessing(false);
+      setCode('');
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) processCode(code);
+  };
+
+  const startCamera = async () => {
+    try {
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      setCameraActive(true);
+    } catch (error) {
+      console.error('Error accessing camera:', error);
+      setResult({ status: 'error', message: 'Unable to access camera. Please check permissions.' });
+    }
+  };
+
+  // Attach the stream and check frames for a QR code until one is read
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!cameraActive || !Detector || !videoRef.current || !streamRef.current) return;
+
+    videoRef.current.srcObject = streamRef.current;
+    const detector = new Detector({ formats: ['qr_code'] });
+    const interval = setInterval(async () => {
+      if (!videoRef.current || videoRef.current.readyState < 2 || processingRef.current) return;
+      const codes = await detector.detect(videoRef.current).catch(() => []);
+      if (codes.length > 0) {
+        stopCamera();
+        processCode(codes[0].rawValue);
+      }
+    }, CAMERA_SCAN_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [cameraActive]);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              ref={inputRef}
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Scan or type the gate pass code"
+              className="h-12 font-mono text-lg"
+              disabled={isProcessing}
+            />
+            <Button type="submit" className="h-12 gap-2" disabled={isProcessing || !code.trim()}>
+              <ScanLine className="h-4 w-4" />
+              Submit
+            </Button>
+          </form>
+
+          {cameraSupported && (
+            <div className="space-y-2">
+              {cameraActive && (
+                <video ref={videoRef} autoPlay playsInline muted className="w-full aspect-video rounded border bg-black object-cover" />
+              )}
+              <Button variant="outline" className="w-full gap-2" onClick={cameraActive ? stopCamera : startCamera}>
+                {cameraActive ? <CameraOff className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+                {cameraActive ? 'Stop Camera' : 'Scan with Camera'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card
+        className={
+          result?.status === 'success'
+            ? 'border-green-500/40 bg-green-500/5'
+            : result?.status === 'error'
+              ? 'border-destructive/40 bg-destructive/5'
+              : undefined
+        }
+      >
+        <CardContent className="pt-6">
+          {!result ? (
+            <div className="flex flex-col items-center justify-center py-10 text-muted-foreground">
+              <ScanLine className="h-10 w-10 mb-2" />
+              <p className="text-sm">Waiting for a gate pass</p>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center gap-3 py-4 text-center">
+              {result.status === 'success' ? (
+                <CheckCircle2 className="h-10 w-10 text-green-600" />
+              ) : (
+                <XCircle className="h-10 w-10 text-destructive" />
+              )}
+              {result.visitor && (
+                <>
+                  <Avatar className="h-20 w-20">
+                    {result.visitor.photoUrl && (
+                      <AvatarImage src={result.visitor.photoUrl} alt={result.visitor.visitorName} />
+                    )}
+                    <AvatarFallback>{result.visitor.visitorName.charAt(0).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <div className="text-xl font-semibold">{result.visitor.visitorName}</div>
+                    <div className="text-sm text-muted-foreground">
+                      Host: {result.visitor.firstName} {result.visitor.lastName} ·{' '}
+                      {PURPOSE_LABELS[result.visitor.purpose]}
+                    </div>
+                  </div>
+                </>
+              )}
+              <p className={result.status === 'success' ? 'font-medium text-green-700 dark:text-green-400' : 'font-medium text-destructive'}>
+                {result.status === 'success'
+                  ? `${result.action === 'check-in' ? 'Checked in' : 'Checked out'} at ${format(new Date(result.time), 'hh:mm a')}`
+                  : result.message}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Invite Visitor Dialog Component
+ * The host creates a time-bound self-registration link for their visitor and
+ * shares it as a link or QR code
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { addHours, format, isBefore, min } from 'date-fns';
+import { Copy, Link2, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DateTimePicker } from '@/components/ui/date-time-picker';
+import { UsersSelector } from '@/components/context-aware';
+import { useVisitorManagement } from '@/contexts/VisitorManagementContext';
+import { useToast } from '@/hooks/use-toast';
+import { resolveAuth } from '@/store/localStorage';
+import { getQrCodeDataUrl } from '@/lib/qrCode';
+import { VisitorInvite, VisitorPurpose } from '../types';
+import { INVITE_VALIDITY_OPTIONS, PURPOSE_OPTIONS } from '../constants';
+import { buildInviteLink } from '../utils/gatePass';
+
+interface InviteVisitorDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function InviteVisitorDialog({ open, onClose }: InviteVisitorDialogProps) {
+  const { createVisitorInvite, isLoading } = useVisitorManagement();
+  const { toast } = useToast();
+
+  const [hostEmployeeId, setHostEmployeeId] = useState('');
+  const [visitorName, setVisitorName] = useState('');
+  const [visitorEmail, setVisitorEmail] = useState('');
+  const [purpose, setPurpose] = useState<VisitorPurpose>('meeting');
+  const [expectedArrivalDateTime, setExpectedArrivalDateTime] = useState('');
+  const [validityHours, setValidityHours] = useState(INVITE_VALIDITY_OPTIONS[0].value);
+  const [invite, setInvite] = useState<VisitorInvite | null>(null);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setHostEmployeeId('');
+    setVisitorName('');
+    setVisitorEmail('');
+    setPurpose('meeting');
+    setExpectedArrivalDateTime('');
+    setValidityHours(INVITE_VALIDITY_OPTIONS[0].value);
+    setInvite(null);
+  }, [open]);
+
+  const inviteLink = useMemo(
+    () => (invite ? buildInviteLink(invite.token, resolveAuth().tenant || '') : ''),
+    [invite]
+  );
+  const inviteQrCodeUrl = useMemo(() => (inviteLink ? getQrCodeDataUrl(inviteLink) : ''), [inviteLink]);
+
+  const arrivalInPast = !!expectedArrivalDateTime && isBefore(new Date(expectedArrivalDateTime), new Date());
+  const canCreate = !!hostEmployeeId && !!expectedArrivalDateTime && !arrivalInPast && !isLoading;
+
+  const handleCreate = async () => {
+    const arrival = new Date(expectedArrivalDateTime);
+    // The link closes at the arrival time at the latest
+    const expiresAt = min([addHours(new Date(), Number(validityHours)), arrival]);
+    const created = await createVisitorInvite({
+      hostEmployeeId,
+      visitorName: visitorName.trim() || null,
+      visitorEmail: visitorEmail.trim() || null,
+      purpose,
+      expectedArrivalDateTime,
+      expiresAt: expiresAt.toISOString(),
+    });
+    if (created) setInvite(created);
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(inviteLink);
+    toast({ description: 'Invite link copied to clipboard', duration: 2000 });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Invite Visitor
+          </DialogTitle>
+          <DialogDescription>
+            The visitor registers their details, photo and ID through the link; you approve the visit to issue their
+            gate pass
+          </DialogDescription>
+        </DialogHeader>
+
+        {invite ? (
+          <div className="space-y-4">
+            <div className="flex flex-col items-center gap-2">
+              <img src={inviteQrCodeUrl} alt="Invite link QR code" className="h-44 w-44" />
+              <p className="text-xs text-muted-foreground">
+                Open until {format(new Date(invite.expiresAt), 'MMM dd, yyyy hh:mm a')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Input value={inviteLink} readOnly className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={onClose}>Done</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Host *</Label>
+              <UsersSelector
+                value={hostEmployeeId}
+                onChange={(value) => setHostEmployeeId(value as string)}
+                placeholder="Search and select host"
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Visitor Name</Label>
+                <Input value={visitorName} onChange={(e) => setVisitorName(e.target.value)} placeholder="Optional" />
+              </div>
+              <div className="space-y-2">
+                <Label>Visitor Email</Label>
+                <Input
+                  type="email"
+                  value={visitorEmail}
+                  onChange={(e) => setVisitorEmail(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Purpose *</Label>
+                <Select value={purpose} onValueChange={(value) => setPurpose(value as VisitorPurpose)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PURPOSE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Link Valid For</Label>
+                <Select value={validityHours} onValueChange={setValidityHours}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITE_VALIDITY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Expected Arrival *</Label>
+              <DateTimePicker
+                value={expectedArrivalDateTime}
+                onChange={setExpectedArrivalDateTime}
+                placeholder="Pick arrival date and time"
+                timePosition="right"
+                mode="accessible"
+              />
+              {arrivalInPast && <p className="text-xs text-destructive">Arrival must be in the future</p>}
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button className="gap-2" onClick={handleCreate} disabled={!canCreate}>
+                {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+                Create Link
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
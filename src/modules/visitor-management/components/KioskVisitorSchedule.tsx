@@ -0,0 +1,117 @@
+/**
+ * Kiosk Visitor Schedule Component
+ * Today's expected visitors grouped by arrival hour, with one-tap check-in,
+ * check-out and badge printing for reception
+ */
+
+import { format } from 'date-fns';
+import { Loader2, Printer, UserCheck, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { VisitorSnapshot } from '../types';
+import { PURPOSE_LABELS, VISITOR_STATUS_COLORS, VISITOR_STATUS_LABELS } from '../constants';
+import { KioskHourGroup } from '../utils/kiosk';
+
+interface KioskVisitorScheduleProps {
+  groups: KioskHourGroup[];
+  loading: boolean;
+  busyVisitorId: string | null;
+  onCheckIn: (visitor: VisitorSnapshot) => void;
+  onCheckOut: (visitor: VisitorSnapshot) => void;
+  onPrintBadge: (visitor: VisitorSnapshot) => void;
+}
+
+export function KioskVisitorSchedule({
+  groups,
+  loading,
+  busyVisitorId,
+  onCheckIn,
+  onCheckOut,
+  onPrintBadge,
+}: KioskVisitorScheduleProps) {
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-muted-foreground">
+        {loading ? <Loader2 className="h-8 w-8 animate-spin" /> : <p className="text-lg">No visitors expected today</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {groups.map((group) => (
+        <div key={group.hour} className="space-y-3">
+          <h2 className="text-lg font-semibold text-muted-foreground">{group.hour}</h2>
+          <div className="grid gap-3 md:grid-cols-2 xl:grid-cols-3">
+            {group.visitors.map((visitor) => {
+              const isBusy = busyVisitorId === visitor.id;
+              const canCheckIn = visitor.visitorStatus === 'approved' || visitor.visitorStatus === 'pending';
+              const canCheckOut = visitor.visitorStatus === 'checked-in';
+
+              return (
+                <Card key={visitor.id}>
+                  <CardContent className="pt-4 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <Avatar className="h-14 w-14">
+                        {visitor.photoUrl && <AvatarImage src={visitor.photoUrl} alt={visitor.visitorName} />}
+                        <AvatarFallback>{visitor.visitorName.charAt(0).toUpperCase()}</AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-lg font-semibold truncate">{visitor.visitorName}</div>
+                        <div className="text-sm text-muted-foreground truncate">
+                          {format(new Date(visitor.expectedArrivalDateTime), 'hh:mm a')} · Host: {visitor.firstName}{' '}
+                          {visitor.lastName}
+                        </div>
+                        <div className="text-xs text-muted-foreground">{PURPOSE_LABELS[visitor.purpose]}</div>
+                      </div>
+                      <Badge className={VISITOR_STATUS_COLORS[visitor.visitorStatus]}>
+                        {VISITOR_STATUS_LABELS[visitor.visitorStatus]}
+                      </Badge>
+                    </div>
+
+                    <div className="flex gap-2">
+                      {canCheckIn && (
+                        <Button className="flex-1 h-12 text-base gap-2" onClick={() => onCheckIn(visitor)} disabled={isBusy}>
+                          {isBusy ? <Loader2 className="h-5 w-5 animate-spin" /> : <UserCheck className="h-5 w-5" />}
+                          Check In
+                        </Button>
+                      )}
+                      {canCheckOut && (
+                        <>
+                          <Button
+                            variant="secondary"
+                            className="flex-1 h-12 text-base gap-2"
+                            onClick={() => onCheckOut(visitor)}
+                            disabled={isBusy}
+                          >
+                            {isBusy ? <Loader2 className="h-5 w-5 animate-spin" /> : <UserX className="h-5 w-5" />}
+                            Check Out
+                          </Button>
+                          <Button
+                            variant="outline"
+                            className="h-12 gap-2"
+                            onClick={() => onPrintBadge(visitor)}
+                            title="Print badge"
+                          >
+                            <Printer className="h-5 w-5" />
+                          </Button>
+                        </>
+                      )}
+                      {visitor.visitorStatus === 'checked-out' && visitor.checkOutTime && (
+                        <p className="text-sm text-muted-foreground">
+                          Left at {format(new Date(visitor.checkOutTime), 'hh:mm a')}
+                        </p>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Kiosk Walk-in Form Component
+ * Registers a visitor who arrives without an appointment and checks them in
+ * on the spot, notifying their host
+ */
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Loader2, UserCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { UsersSelector } from '@/components/context-aware';
+import { useVisitorManagement } from '@/contexts/VisitorManagementContext';
+import { VisitorPurpose, VisitorSnapshot } from '../types';
+import { PURPOSE_OPTIONS } from '../constants';
+import { issueGatePassCode } from '../utils/gatePass';
+import { useVisitorCheckIn } from '../hooks/useVisitorCheckIn';
+import { VisitorPhotoCapture } from './VisitorPhotoCapture';
+
+const walkInSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  email: z.string().email('Invalid email address'),
+  phone: z.string().min(10, 'Phone number is required'),
+  purpose: z.string().min(1, 'Purpose is required') as z.ZodType<VisitorPurpose>,
+  hostEmployeeId: z.string().min(1, 'Host employee is required'),
+});
+
+type WalkInValues = z.infer<typeof walkInSchema>;
+
+interface KioskWalkInFormProps {
+  onCheckedIn: (visitor: VisitorSnapshot) => void;
+  onCancel: () => void;
+}
+
+export function KioskWalkInForm({ onCheckedIn, onCancel }: KioskWalkInFormProps) {
+  const { createVisitor } = useVisitorManagement();
+  const { notifyHost } = useVisitorCheckIn();
+  const [photoUrl, setPhotoUrl] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<WalkInValues>({
+    resolver: zodResolver(walkInSchema),
+    defaultValues: { name: '', email: '', phone: '', purpose: '' as VisitorPurpose, hostEmployeeId: '' },
+  });
+
+  const onSubmit = async (data: WalkInValues) => {
+    setIsSubmitting(true);
+    try {
+      const now = new Date().toISOString();
+      const visitor = await createVisitor({
+        ...data,
+        companyId: null,
+        photoUrl: photoUrl || null,
+        expectedArrivalDateTime: now,
+        notes: null,
+        visitorStatus: 'checked-in',
+        gatePassCode: issueGatePassCode('checked-in'),
+        checkInTime: now,
+        createdAt: now,
+      });
+      if (visitor) {
+        await notifyHost(visitor, now);
+        form.reset();
+        setPhotoUrl('');
+        onCheckedIn(visitor);
+      }
+    } catch (error) {
+      console.error('Error registering walk-in visitor:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-3xl mx-auto">
+      <CardContent className="pt-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <VisitorPhotoCapture value={photoUrl} onChange={setPhotoUrl} />
+              <div className="flex-1 grid gap-3">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name *</FormLabel>
+                      <FormControl>
+                        <Input className="h-11 text-base" {...field} />
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email *</FormLabel>
+                      <FormControl>
+                        <Input type="email" className="h-11 text-base" {...field} />
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="+1234567890" className="h-11 text-base" {...field} />
+                      </FormControl>
+                      <FormMessage className="text-xs" />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="purpose"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Purpose *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="h-11 text-base">
+                          <SelectValue placeholder="Select purpose" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PURPOSE_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage className="text-xs" />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="hostEmployeeId"
+                render={({ field, fieldState }) => (
+                  <FormItem>
+                    <FormLabel>Who are you visiting? *</FormLabel>
+                    <FormControl>
+                      <UsersSelector
+                        value={field.value}
+                        onChange={field.onChange}
+                        placeholder="Search and select host"
+                        disabled={isSubmitting}
+                        error={fieldState.error?.message}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex gap-2 pt-2">
+              <Button type="button" variant="outline" className="h-12 flex-1" onClick={onCancel} disabled={isSubmitting}>
+                Cancel
+              </Button>
+              <Button type="submit" className="h-12 flex-1 gap-2 text-base" disabled={isSubmitting}>
+                {isSubmitting ? <Loader2 className="h-5 w-5 animate-spin" /> : <UserCheck className="h-5 w-5" />}
+                Check In & Print Badge
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
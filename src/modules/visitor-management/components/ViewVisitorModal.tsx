@@ -11,13 +11,14 @@ import { Separator } from '@/components/ui/separator';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { 
   User, Mail, Phone, Building2, Clock, Calendar, 
-  FileText, Edit, X, UserCheck, UserX, Copy, Briefcase
+  FileText, Edit, X, UserCheck, UserX, Copy, Briefcase, IdCard, QrCode
 } from 'lucide-react';
 import { VisitorSnapshot } from '../types';
 import { 
   VISITOR_STATUS_LABELS, 
   VISITOR_STATUS_COLORS, 
-  PURPOSE_LABELS
+  PURPOSE_LABELS,
+  ID_TYPE_OPTIONS
 } from '../constants';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
@@ -187,6 +188,20 @@ export function ViewVisitorModal({
                   label="Expected Arrival" 
                   value={format(new Date(visitor.expectedArrivalDateTime), 'MMM dd, yyyy hh:mm a')}
                 />
+                {visitor.idNumber && (
+                  <InfoRow 
+                    icon={IdCard} 
+                    label={ID_TYPE_OPTIONS.find((option) => option.value === visitor.idType)?.label || 'ID'} 
+                    value={visitor.idNumber} 
+                  />
+                )}
+                {visitor.gatePassCode && (
+                  <InfoRow 
+                    icon={QrCode} 
+                    label="Gate Pass" 
+                    value={<span className="font-mono">{visitor.gatePassCode}</span>} 
+                  />
+                )}
               </div>
             </div>
 
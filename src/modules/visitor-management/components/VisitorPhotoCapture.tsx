@@ -0,0 +1,197 @@
+/**
+ * Visitor Photo Capture Component
+ * Visitor photo from the device camera or an uploaded image, as a data URL
+ */
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Upload, Camera, User, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+
+interface VisitorPhotoCaptureProps {
+  value: string; // Data URL or photo URL; empty when there is no photo
+  onChange: (photoUrl: string) => void;
+}
+
+export function VisitorPhotoCapture({ value, onChange }: VisitorPhotoCaptureProps) {
+  const [cameraState, setCameraState] = useState<
+    "idle" | "starting" | "active"
+  >("idle");
+  const visitorPhotoInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const stopCamera = useCallback(() => {
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    }
+    setCameraState("idle");
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (streamRef.current) {
+        streamRef.current.getTracks().forEach((track) => track.stop());
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (cameraState === "active" && videoRef.current && streamRef.current) {
+      videoRef.current.srcObject = streamRef.current;
+    }
+  }, [cameraState]);
+
+  const startCamera = async () => {
+    setCameraState("starting");
+    try {
+      const mediaStream = await navigator.mediaDevices.getUserMedia({
+        video: {
+          facingMode: "user",
+          width: { ideal: 640 },
+          height: { ideal: 480 },
+        },
+      });
+      streamRef.current = mediaStream;
+      setCameraState("active");
+    } catch (err) {
+      console.error("Error accessing camera:", err);
+      setCameraState("idle");
+      alert("Unable to access camera. Please check permissions.");
+    }
+  };
+
+  const capturePhoto = () => {
+    if (videoRef.current && canvasRef.current) {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+
+      if (video.videoWidth === 0 || video.videoHeight === 0) {
+        alert("Camera not ready. Please wait a moment and try again.");
+        return;
+      }
+
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext("2d");
+      if (ctx) {
+        ctx.drawImage(video, 0, 0);
+        onChange(canvas.toDataURL("image/jpeg", 0.8));
+        stopCamera();
+      }
+    }
+  };
+
+  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      if (file.size > 5 * 1024 * 1024) {
+        alert("File size must be less than 5MB");
+        return;
+      }
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        onChange(reader.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="relative">
+        <Avatar className="w-20 h-20 sm:w-24 sm:h-24 border-2 border-dashed border-muted-foreground/25">
+          <AvatarImage
+            src={value}
+            alt="Visitor"
+            className="object-cover"
+          />
+          <AvatarFallback className="bg-muted">
+            <User className="w-8 h-8 text-muted-foreground" />
+          </AvatarFallback>
+        </Avatar>
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange("")}
+            className="absolute -top-1 -right-1 bg-destructive text-destructive-foreground rounded-full p-0.5 shadow-md"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {cameraState !== "idle" ? (
+        <div className="space-y-1.5 w-full max-w-[200px]">
+          {cameraState === "starting" ? (
+            <div className="w-full aspect-[4/3] rounded border bg-muted flex items-center justify-center">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className="w-full aspect-[4/3] rounded border bg-black object-cover"
+            />
+          )}
+          <div className="flex gap-1.5">
+            <Button
+              type="button"
+              size="sm"
+              onClick={capturePhoto}
+              disabled={cameraState !== "active"}
+              className="flex-1 h-7 text-xs"
+            >
+              <Camera className="mr-1 h-3 w-3" />
+              Capture
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={stopCamera}
+              className="flex-1 h-7 text-xs"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-1.5">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={startCamera}
+            className="h-7 text-xs px-2"
+          >
+            <Camera className="mr-1 h-3 w-3" />
+            Camera
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => visitorPhotoInputRef.current?.click()}
+            className="h-7 text-xs px-2"
+          >
+            <Upload className="mr-1 h-3 w-3" />
+            Upload
+          </Button>
+          <input
+            ref={visitorPhotoInputRef}
+            type="file"
+            accept="image/*"
+            onChange={handlePhotoUpload}
+            className="hidden"
+          />
+        </div>
+      )}
+      <canvas ref={canvasRef} className="hidden" />
+    </div>
+  );
+}
@@ -2,19 +2,12 @@
  * Visitor Registration Form Component
  */
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import {
-  ArrowLeft,
-  Upload,
-  Camera,
-  User,
-  X,
-  Loader2,
-} from "lucide-react";
+import { ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -35,13 +28,15 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
-import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import { FormActionBar } from "@/components/common/FormActionBar/FormActionBar";
 import { DateTimePicker } from "@/components/ui/date-time-picker";
 import { UsersSelector, CompanySelector } from "@/components/context-aware";
 import { useVisitorManagement } from "@/contexts/VisitorManagementContext";
 import { PURPOSE_OPTIONS, VISITOR_STATUS_LABELS } from "../constants";
 import { VisitorPurpose, VisitorStatus } from "../types";
+import { issueGatePassCode } from "../utils/gatePass";
+import { useVisitorCheckIn } from "../hooks/useVisitorCheckIn";
+import { VisitorPhotoCapture } from "./VisitorPhotoCapture";
 
 // Form schema - structure matches VisitorCarrierInput (backend payload)
 // This ensures form data can be directly used for API requests
@@ -88,15 +83,11 @@ export function VisitorRegistrationForm({
 }: VisitorRegistrationFormProps) {
   const navigate = useNavigate();
   const { createVisitor, updateVisitor, getVisitorById, isLoading } = useVisitorManagement();
+  const { notifyHost } = useVisitorCheckIn();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [visitorPhoto, setVisitorPhoto] = useState<string>("");
-  const [cameraState, setCameraState] = useState<
-    "idle" | "starting" | "active"
-  >("idle");
-  const visitorPhotoInputRef = useRef<HTMLInputElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  // Gate pass of the visitor being edited; kept when the status changes
+  const [gatePassCode, setGatePassCode] = useState<string | null>(null);
 
   const form = useForm<VisitorFormValues>({
     resolver: zodResolver(visitorFormSchema),
@@ -137,6 +128,7 @@ export function VisitorRegistrationForm({
           if (foundVisitor.photoUrl) {
             setVisitorPhoto(foundVisitor.photoUrl);
           }
+          setGatePassCode(foundVisitor.gatePassCode || null);
         }
       };
       loadVisitor();
@@ -149,6 +141,7 @@ export function VisitorRegistrationForm({
     try {
       if (mode === "create") {
         // Create payload - expectedArrivalDateTime is already ISO UTC string from DateTimePicker
+        const visitorStatus = data.instantCheckIn ? "checked-in" : data.visitorStatus;
         const visitorCarrier: any = {
           name: data.name,
           email: data.email,
@@ -158,7 +151,8 @@ export function VisitorRegistrationForm({
           purpose: data.purpose,
           hostEmployeeId: data.hostEmployeeId,
           expectedArrivalDateTime: data.expectedArrivalDateTime, // ISO UTC timestamp: "2026-02-09T14:02:00.000Z"
-          visitorStatus: data.instantCheckIn ? "checked-in" : data.visitorStatus,
+          visitorStatus,
+          gatePassCode: issueGatePassCode(visitorStatus),
           notes: data.notes || null,
           createdAt: new Date().toISOString(), // ISO UTC timestamp
         };
@@ -170,6 +164,9 @@ export function VisitorRegistrationForm({
 
         const result = await createVisitor(visitorCarrier);
         if (result) {
+          if (visitorCarrier.checkInTime) {
+            await notifyHost(result, visitorCarrier.checkInTime);
+          }
           navigate("/visitor-management");
         }
       } else {
@@ -184,6 +181,7 @@ export function VisitorRegistrationForm({
           hostEmployeeId: data.hostEmployeeId,
           expectedArrivalDateTime: data.expectedArrivalDateTime, // ISO UTC timestamp: "2026-02-09T14:02:00.000Z"
           visitorStatus: data.visitorStatus,
+          gatePassCode: issueGatePassCode(data.visitorStatus, gatePassCode),
           notes: data.notes || null,
         };
 
@@ -203,84 +201,9 @@ export function VisitorRegistrationForm({
     navigate("/visitor-management");
   };
 
-  const stopCamera = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop());
-      streamRef.current = null;
-    }
-    setCameraState("idle");
-  }, []);
-
-  useEffect(() => {
-    return () => {
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach((track) => track.stop());
-      }
-    };
-  }, []);
-
-  useEffect(() => {
-    if (cameraState === "active" && videoRef.current && streamRef.current) {
-      videoRef.current.srcObject = streamRef.current;
-    }
-  }, [cameraState]);
-
-  const startCamera = async () => {
-    setCameraState("starting");
-    try {
-      const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: "user",
-          width: { ideal: 640 },
-          height: { ideal: 480 },
-        },
-      });
-      streamRef.current = mediaStream;
-      setCameraState("active");
-    } catch (err) {
-      console.error("Error accessing camera:", err);
-      setCameraState("idle");
-      alert("Unable to access camera. Please check permissions.");
-    }
-  };
-
-  const capturePhoto = () => {
-    if (videoRef.current && canvasRef.current) {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-
-      if (video.videoWidth === 0 || video.videoHeight === 0) {
-        alert("Camera not ready. Please wait a moment and try again.");
-        return;
-      }
-
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      const ctx = canvas.getContext("2d");
-      if (ctx) {
-        ctx.drawImage(video, 0, 0);
-        const imageUrl = canvas.toDataURL("image/jpeg", 0.8);
-        setVisitorPhoto(imageUrl);
-        form.setValue("photoUrl", imageUrl);
-        stopCamera();
-      }
-    }
-  };
-
-  const handlePhotoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 5 * 1024 * 1024) {
-        alert("File size must be less than 5MB");
-        return;
-      }
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setVisitorPhoto(reader.result as string);
-        form.setValue("photoUrl", reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
+  const handlePhotoChange = (photoUrl: string) => {
+    setVisitorPhoto(photoUrl);
+    form.setValue("photoUrl", photoUrl);
   };
 
   return (
@@ -314,102 +237,7 @@ export function VisitorRegistrationForm({
           {/* Visitor Photo Section */}
           <div className="flex flex-col sm:flex-row gap-4">
             {/* Visitor Photo */}
-            <div className="flex flex-col items-center gap-2">
-                <div className="relative">
-                  <Avatar className="w-20 h-20 sm:w-24 sm:h-24 border-2 border-dashed border-muted-foreground/25">
-                    <AvatarImage
-                      src={visitorPhoto}
-                      alt="Visitor"
-                      className="object-cover"
-                    />
-                    <AvatarFallback className="bg-muted">
-                      <User className="w-8 h-8 text-muted-foreground" />
-                    </AvatarFallback>
-                  </Avatar>
-                  {visitorPhoto && (
-                    <button
-                      type="button"
-                      onClick={() => {
-                        setVisitorPhoto("");
-                        form.setValue("photoUrl", "");
-                      }}
-                      className="absolute -top-1 -right-1 bg-destructive text-destructive-foreground rounded-full p-0.5 shadow-md"
-                    >
-                      <X className="w-3 h-3" />
-                    </button>
-                  )}
-                </div>
-
-                {cameraState !== "idle" ? (
-                  <div className="space-y-1.5 w-full max-w-[200px]">
-                    {cameraState === "starting" ? (
-                      <div className="w-full aspect-[4/3] rounded border bg-muted flex items-center justify-center">
-                        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
-                      </div>
-                    ) : (
-                      <video
-                        ref={videoRef}
-                        autoPlay
-                        playsInline
-                        muted
-                        className="w-full aspect-[4/3] rounded border bg-black object-cover"
-                      />
-                    )}
-                    <div className="flex gap-1.5">
-                      <Button
-                        type="button"
-                        size="sm"
-                        onClick={capturePhoto}
-                        disabled={cameraState !== "active"}
-                        className="flex-1 h-7 text-xs"
-                      >
-                        <Camera className="mr-1 h-3 w-3" />
-                        Capture
-                      </Button>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={stopCamera}
-                        className="flex-1 h-7 text-xs"
-                      >
-                        Cancel
-                      </Button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="flex gap-1.5">
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={startCamera}
-                      className="h-7 text-xs px-2"
-                    >
-                      <Camera className="mr-1 h-3 w-3" />
-                      Camera
-                    </Button>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => visitorPhotoInputRef.current?.click()}
-                      className="h-7 text-xs px-2"
-                    >
-                      <Upload className="mr-1 h-3 w-3" />
-                      Upload
-                    </Button>
-                    <input
-                      ref={visitorPhotoInputRef}
-                      type="file"
-                      accept="image/*"
-                      onChange={handlePhotoUpload}
-                      className="hidden"
-                    />
-                  </div>
-                )}
-                <canvas ref={canvasRef} className="hidden" />
-              </div>
+            <VisitorPhotoCapture value={visitorPhoto} onChange={handlePhotoChange} />
 
               {/* Form Fields */}
               <div className="flex-1 grid gap-3 sm:grid-cols-2">
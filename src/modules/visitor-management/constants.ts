@@ -2,7 +2,7 @@
  * Visitor Management Constants
  */
 
-import { VisitorPurpose, VisitorStatus } from './types';
+import { VisitorInviteStatus, VisitorPurpose, VisitorStatus } from './types';
 
 export const VISITOR_STATUS_LABELS: Record<VisitorStatus, string> = {
   pending: 'Pending',
@@ -48,3 +48,20 @@ export const REGISTRATION_TYPE_LABELS = {
   'pre-registered': 'Pre-registered',
   'instant': 'Instant Check-in',
 };
+
+export const VISITOR_INVITE_STATUS_LABELS: Record<VisitorInviteStatus, string> = {
+  active: 'Active',
+  registered: 'Registered',
+  expired: 'Expired',
+  revoked: 'Revoked',
+};
+
+// How long an invite link stays open, in hours
+export const INVITE_VALIDITY_OPTIONS = [
+  { value: '24', label: '24 hours' },
+  { value: '72', label: '3 days' },
+  { value: '168', label: '7 days' },
+];
+
+// Statuses that carry a gate pass; walk-ins checked in immediately get one to scan out
+export const GATE_PASS_STATUSES: VisitorStatus[] = ['approved', 'checked-in'];
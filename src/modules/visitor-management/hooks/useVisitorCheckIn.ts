@@ -0,0 +1,66 @@
+/**
+ * useVisitorCheckIn Hook
+ * Checks visitors in and out, and tells the host employee in-app when their
+ * visitor has arrived
+ *
+ * Checking in issues a gate pass when the visitor has none, so a walk-in can
+ * scan out at the kiosk.
+ */
+
+import { format } from 'date-fns';
+import { useVisitorManagement } from '@/contexts/VisitorManagementContext';
+import { useNotification } from '@/contexts/NotificationContext';
+import { VisitorCheckInMetadata } from '@/modules/notifications/notificationTypes';
+import { VisitorSnapshot } from '../types';
+import { PURPOSE_LABELS } from '../constants';
+import { issueGatePassCode } from '../utils/gatePass';
+
+/**
+ * @example
+ * const { checkIn, checkOut } = useVisitorCheckIn();
+ * const updated = await checkIn(visitor);
+ */
+export function useVisitorCheckIn() {
+  const { updateVisitor } = useVisitorManagement();
+  const { createNotification } = useNotification();
+
+  const notifyHost = async (visitor: VisitorSnapshot, checkInTime: string) => {
+    if (!visitor.email) return;
+    await createNotification<VisitorCheckInMetadata>({
+      id: `NOTIF-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: 'visitor_checked_in',
+      subject: 'Your Visitor Has Arrived',
+      message: `${visitor.visitorName} checked in at reception at ${format(new Date(checkInTime), 'hh:mm a')}`,
+      status: 'unread',
+      metadata: {
+        visitorId: visitor.id,
+        visitorName: visitor.visitorName,
+        visitorPhotoUrl: visitor.photoUrl,
+        purpose: PURPOSE_LABELS[visitor.purpose],
+        host: visitor.email,
+        hostEmployeeId: visitor.employeeId,
+        checkInTime,
+      },
+      createdAt: checkInTime,
+    });
+  };
+
+  const checkIn = async (visitor: VisitorSnapshot): Promise<VisitorSnapshot | null> => {
+    const checkInTime = new Date().toISOString();
+    const updated = await updateVisitor(visitor.id, {
+      visitorStatus: 'checked-in',
+      checkInTime,
+      gatePassCode: issueGatePassCode('checked-in', visitor.gatePassCode),
+    });
+    if (updated) await notifyHost(visitor, checkInTime);
+    return updated;
+  };
+
+  const checkOut = async (visitor: VisitorSnapshot): Promise<VisitorSnapshot | null> =>
+    updateVisitor(visitor.id, {
+      visitorStatus: 'checked-out',
+      checkOutTime: new Date().toISOString(),
+    });
+
+  return { checkIn, checkOut, notifyHost };
+}
@@ -4,9 +4,18 @@
  */
 
 export { VisitorManagement } from './VisitorManagement';
+export { VisitorInviteRegistration } from './VisitorInviteRegistration';
+export { VisitorKiosk } from './VisitorKiosk';
 export { VisitorRegistrationForm } from './components/VisitorRegistrationForm';
 export { ViewVisitorModal } from './components/ViewVisitorModal';
 export { TimePicker } from './components/TimePicker';
+export { VisitorPhotoCapture } from './components/VisitorPhotoCapture';
+export { GatePassDialog } from './components/GatePassDialog';
+export { GatePassScanner } from './components/GatePassScanner';
+export { InviteVisitorDialog } from './components/InviteVisitorDialog';
+export { KioskVisitorSchedule } from './components/KioskVisitorSchedule';
+export { KioskWalkInForm } from './components/KioskWalkInForm';
+export { useVisitorCheckIn } from './hooks/useVisitorCheckIn';
 
 export * from './types';
 export * from './constants';
@@ -4,6 +4,7 @@
 
 export type VisitorStatus = 'pending' | 'approved' | 'rejected' | 'checked-in' | 'checked-out' | 'expired';
 export type VisitorPurpose = 'meeting' | 'interview' | 'delivery' | 'maintenance' | 'vendor' | 'personal' | 'other';
+export type VisitorInviteStatus = 'active' | 'registered' | 'expired' | 'revoked';
 
 export interface Visitor {
   id: string;
@@ -25,11 +26,19 @@ export interface Visitor {
   // Form fields - Notes
   notes: string | null;
   
+  // Identity - captured on self-registration
+  idType?: string | null; // ID_TYPE_OPTIONS value
+  idNumber?: string | null;
+  
   // Status & Check-in/out
   visitorStatus: VisitorStatus;
   checkInTime: string | null; // ISO datetime
   checkOutTime: string | null; // ISO datetime
   
+  // Pre-registration & gate pass
+  inviteToken?: string | null; // Invite the visitor self-registered through
+  gatePassCode?: string | null; // Issued on approval, encoded in the QR gate pass
+  
   createdAt: string; // ISO datetime
   updatedAt: string; // ISO datetime
 }
@@ -85,9 +94,58 @@ export interface VisitorCarrier {
   // Notes
   notes: string | null;
   
+  // Identity
+  idType?: string | null;
+  idNumber?: string | null;
+  
   // Status
   visitorStatus: VisitorStatus;
+  gatePassCode?: string | null;
   
   // Timestamps
+  checkInTime?: string | null; // Set when the visitor is checked in on registration
+  createdAt: string; // ISO UTC timestamp
+}
+
+/**
+ * Visitor Invite - time-bound self-registration link sent by the host
+ * The token opens the public pre-registration page until it expires or is used
+ */
+export interface VisitorInvite {
+  token: string; // Generated by the backend
+  hostEmployeeId: string;
+  hostName: string; // Derived from hostEmployeeId
+  visitorName: string | null; // Optional prefill
+  visitorEmail: string | null; // Optional prefill
+  purpose: VisitorPurpose;
+  expectedArrivalDateTime: string; // ISO UTC timestamp
+  expiresAt: string; // ISO UTC timestamp
+  status: VisitorInviteStatus;
+  visitorId: string | null; // Set once the visitor registers
   createdAt: string; // ISO UTC timestamp
 }
+
+/**
+ * Invite Carrier - create payload
+ */
+export type VisitorInviteCarrier = Pick<VisitorInvite,
+  | 'hostEmployeeId'
+  | 'visitorName'
+  | 'visitorEmail'
+  | 'purpose'
+  | 'expectedArrivalDateTime'
+  | 'expiresAt'
+>;
+
+/**
+ * Self-registration submitted from the public invite page
+ * Creates a pending visitor for the host to approve
+ */
+export interface VisitorSelfRegistration {
+  name: string;
+  email: string;
+  phone: string;
+  photoUrl: string | null;
+  idType: string;
+  idNumber: string;
+}
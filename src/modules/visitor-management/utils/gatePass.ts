@@ -0,0 +1,133 @@
+/**
+ * Gate Pass & Invite Utilities
+ * Invite links for visitor self-registration, and the QR gate pass issued on
+ * approval that reception scans to check visitors in and out
+ *
+ * A gate pass is valid on the day of the expected arrival. Checking out is
+ * allowed whenever the visitor is checked in, so an overrunning visit can
+ * still leave through the kiosk.
+ */
+
+import { endOfDay, format, isAfter, isBefore, startOfDay } from 'date-fns';
+import { escapeHtml } from '@/lib/print';
+import { getQrCodeDataUrl } from '@/lib/qrCode';
+import { VisitorInvite, VisitorSnapshot, VisitorStatus } from '../types';
+import { GATE_PASS_STATUSES, PURPOSE_LABELS } from '../constants';
+
+const GATE_PASS_PREFIX = 'VGP-';
+const GATE_PASS_LENGTH = 10;
+// No 0/O or 1/I, so a code read out or typed by hand is not misread
+const GATE_PASS_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const GATE_PASS_PATTERN = new RegExp(`^${GATE_PASS_PREFIX}[${GATE_PASS_ALPHABET}]{${GATE_PASS_LENGTH}}$`);
+
+export type GatePassAction = 'check-in' | 'check-out';
+
+export type GatePassScanResult = { action: GatePassAction } | { error: string };
+
+/**
+ * Random gate pass code, e.g. VGP-7K2M9QXR4T
+ */
+export const generateGatePassCode = (): string => {
+  const values = crypto.getRandomValues(new Uint32Array(GATE_PASS_LENGTH));
+  return GATE_PASS_PREFIX + Array.from(values, (value) => GATE_PASS_ALPHABET[value % GATE_PASS_ALPHABET.length]).join('');
+};
+
+/**
+ * Gate pass code to save with a visitor's status: the existing code is kept,
+ * and a new one is issued once the visitor is approved or checked in
+ */
+export const issueGatePassCode = (status: VisitorStatus, existingCode?: string | null): string | null =>
+  existingCode || (GATE_PASS_STATUSES.includes(status) ? generateGatePassCode() : null);
+
+/**
+ * Normalise scanner or keyboard input to a gate pass code; null when it is not one
+ */
+export const parseGatePassCode = (input: string): string | null => {
+  const code = input.trim().toUpperCase();
+  return GATE_PASS_PATTERN.test(code) ? code : null;
+};
+
+/**
+ * Day the gate pass admits the visitor
+ */
+export const getGatePassValidity = (visitor: Pick<VisitorSnapshot, 'expectedArrivalDateTime'>) => {
+  const arrival = new Date(visitor.expectedArrivalDateTime);
+  return { validFrom: startOfDay(arrival), validUntil: endOfDay(arrival) };
+};
+
+/**
+ * What scanning the visitor's gate pass does now, or why it is refused
+ */
+export const getGatePassAction = (visitor: VisitorSnapshot, now: Date = new Date()): GatePassScanResult => {
+  switch (visitor.visitorStatus) {
+    case 'checked-in':
+      return { action: 'check-out' };
+    case 'approved': {
+      const { validFrom, validUntil } = getGatePassValidity(visitor);
+      if (isBefore(now, validFrom) || isAfter(now, validUntil)) {
+        return { error: `Gate pass is valid on ${format(validFrom, 'MMM dd, yyyy')} only` };
+      }
+      return { action: 'check-in' };
+    }
+    case 'checked-out':
+      return { error: 'Visitor has already checked out with this gate pass' };
+    case 'pending':
+      return { error: 'Visit is still awaiting host approval' };
+    default:
+      return { error: 'Gate pass is no longer valid' };
+  }
+};
+
+/**
+ * Public pre-registration link of an invite
+ * The tenant travels in the link because the visitor has no session
+ */
+export const buildInviteLink = (token: string, tenant: string, origin: string = window.location.origin): string =>
+  `${origin}/visitor-invite/${encodeURIComponent(token)}?tenant=${encodeURIComponent(tenant)}`;
+
+/**
+ * Whether the invite still accepts a registration
+ */
+export const isInviteOpen = (invite: VisitorInvite, now: Date = new Date()): boolean =>
+  invite.status === 'active' && isBefore(now, new Date(invite.expiresAt));
+
+/**
+ * Printable gate pass: QR code, photo, host and validity
+ */
+export const buildGatePassHtml = (visitor: VisitorSnapshot): string => {
+  const code = visitor.gatePassCode || '';
+  const { validFrom } = getGatePassValidity(visitor);
+  const photo = visitor.photoUrl
+    ? `<img class="photo" src="${escapeHtml(visitor.photoUrl)}" alt="" />`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Gate Pass - ${escapeHtml(visitor.visitorName)}</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 24px; color: #111; }
+  .pass { width: 320px; border: 2px solid #111; border-radius: 12px; padding: 16px; text-align: center; }
+  .title { font-size: 12px; letter-spacing: 2px; text-transform: uppercase; color: #555; }
+  .photo { width: 72px; height: 72px; border-radius: 50%; object-fit: cover; margin-top: 12px; }
+  .name { font-size: 20px; font-weight: bold; margin: 8px 0 4px; }
+  .meta { font-size: 13px; color: #333; margin: 2px 0; }
+  .qr { width: 200px; height: 200px; margin: 12px auto 4px; display: block; }
+  .code { font-family: monospace; font-size: 14px; letter-spacing: 1px; }
+</style>
+</head>
+<body>
+  <div class="pass">
+    <div class="title">Visitor Gate Pass</div>
+    ${photo}
+    <div class="name">${escapeHtml(visitor.visitorName)}</div>
+    <div class="meta">Host: ${escapeHtml(`${visitor.firstName} ${visitor.lastName}`.trim())}</div>
+    <div class="meta">Purpose: ${escapeHtml(PURPOSE_LABELS[visitor.purpose])}</div>
+    <div class="meta">Valid on ${escapeHtml(format(validFrom, 'MMM dd, yyyy'))}</div>
+    <img class="qr" src="${getQrCodeDataUrl(code)}" alt="" />
+    <div class="code">${escapeHtml(code)}</div>
+  </div>
+</body>
+</html>`;
+};
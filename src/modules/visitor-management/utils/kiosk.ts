@@ -0,0 +1,97 @@
+/**
+ * Reception Kiosk Utilities
+ * Today's expected visitors grouped by arrival hour, and the printable visitor
+ * badge handed out at check-in
+ *
+ * A badge is valid until the end of the visit day, like the gate pass; its QR
+ * code is the gate pass, so the visitor can scan out at the kiosk.
+ */
+
+import { endOfDay, format, startOfDay } from 'date-fns';
+import { escapeHtml } from '@/lib/print';
+import { getQrCodeDataUrl } from '@/lib/qrCode';
+import UniversalSearchRequest from '@/types/search';
+import { VisitorSnapshot } from '../types';
+import { PURPOSE_LABELS } from '../constants';
+import { getGatePassValidity } from './gatePass';
+
+export interface KioskHourGroup {
+  hour: string; // HH:00
+  visitors: VisitorSnapshot[];
+}
+
+/**
+ * Search for visitors expected on the given day, earliest first
+ */
+export const buildExpectedVisitorsRequest = (day: Date = new Date()): UniversalSearchRequest => ({
+  dateFilter: {
+    type: 'between',
+    field: 'expectedArrivalDateTime',
+    startDate: startOfDay(day).toISOString(),
+    endDate: endOfDay(day).toISOString(),
+  },
+  sort: { expectedArrivalDateTime: 1 },
+});
+
+/**
+ * Visitors grouped by the hour of their expected arrival, in time order
+ * Rejected visits are left out; they will not be let in
+ */
+export const groupVisitorsByHour = (visitors: VisitorSnapshot[]): KioskHourGroup[] => {
+  const groups = new Map<string, VisitorSnapshot[]>();
+  [...visitors]
+    .filter((visitor) => visitor.visitorStatus !== 'rejected')
+    .sort((a, b) => a.expectedArrivalDateTime.localeCompare(b.expectedArrivalDateTime))
+    .forEach((visitor) => {
+      const hour = format(new Date(visitor.expectedArrivalDateTime), 'HH:00');
+      groups.set(hour, [...(groups.get(hour) || []), visitor]);
+    });
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([hour, hourVisitors]) => ({ hour, visitors: hourVisitors }));
+};
+
+/**
+ * Printable visitor badge: photo, host, validity and the gate pass QR code
+ */
+export const buildVisitorBadgeHtml = (visitor: VisitorSnapshot): string => {
+  const { validUntil } = getGatePassValidity(visitor);
+  const checkedInAt = visitor.checkInTime ? new Date(visitor.checkInTime) : new Date();
+  const photo = visitor.photoUrl ? `<img class="photo" src="${escapeHtml(visitor.photoUrl)}" alt="" />` : '';
+  const qrCode = visitor.gatePassCode
+    ? `<img class="qr" src="${getQrCodeDataUrl(visitor.gatePassCode)}" alt="" />`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Visitor Badge - ${escapeHtml(visitor.visitorName)}</title>
+<style>
+  @page { size: 86mm 54mm; margin: 0; }
+  body { font-family: Arial, sans-serif; margin: 0; color: #111; }
+  .badge { width: 86mm; height: 54mm; box-sizing: border-box; padding: 4mm; display: flex; gap: 3mm; }
+  .photo { width: 22mm; height: 28mm; object-fit: cover; border-radius: 2mm; }
+  .details { flex: 1; min-width: 0; }
+  .title { font-size: 9pt; font-weight: bold; letter-spacing: 2px; color: #fff; background: #111; padding: 1mm 2mm; display: inline-block; }
+  .name { font-size: 14pt; font-weight: bold; margin: 2mm 0 1mm; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .meta { font-size: 8pt; margin: 0.5mm 0; }
+  .qr { width: 18mm; height: 18mm; align-self: flex-end; }
+</style>
+</head>
+<body>
+  <div class="badge">
+    ${photo}
+    <div class="details">
+      <div class="title">VISITOR</div>
+      <div class="name">${escapeHtml(visitor.visitorName)}</div>
+      <div class="meta">Host: ${escapeHtml(`${visitor.firstName} ${visitor.lastName}`.trim())}</div>
+      <div class="meta">${escapeHtml(PURPOSE_LABELS[visitor.purpose])}</div>
+      <div class="meta">In: ${escapeHtml(format(checkedInAt, 'MMM dd, hh:mm a'))}</div>
+      <div class="meta">Valid until ${escapeHtml(format(validUntil, 'MMM dd, hh:mm a'))}</div>
+    </div>
+    ${qrCode}
+  </div>
+</body>
+</html>`;
+};
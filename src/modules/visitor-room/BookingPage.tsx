@@ -1,10 +1,14 @@
 /**
  * Room Booking Form Page - Restructured for Better UX
  * Features: Calendar-first layout, multi-slot selection, recurring meetings
+ * Recurring meetings are checked per occurrence; clashing dates are skipped
+ * or rebooked at a free time before the series is created
+ * A slot taken by someone else while booking is shown as a conflict in the form
  * URL pattern: /room-booking-form?roomId=room-001&date=2024-12-25
+ * The room finder also passes startTime, endTime and attendees to preselect its slot
  */
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -34,6 +38,8 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { FormActionBar } from '@/components/common/FormActionBar/FormActionBar';
 import {
   ArrowLeft,
@@ -46,16 +52,31 @@ import {
   AlertCircle,
   Repeat,
 } from 'lucide-react';
-import { Room, RoomBooking, TimeSlot, BookingRecurrence } from './types';
-import { mockRooms, mockBookings } from './mockData';
+import { RecurrenceRule, Room, RoomBookingCarrier, TimeSlot } from './types';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCompany } from '@/contexts/CompanyContext';
 import { BOOKING_PURPOSE_OPTIONS } from './constants';
 import {
   generateTimeSlots,
   getRoomCurrentStatus,
   getBlockedDatesInMonth,
 } from './utils/availability';
-import { format, addDays, addWeeks, addMonths } from 'date-fns';
+import {
+  addMinutesToTime,
+  checkOccurrences,
+  describeRecurrence,
+  describeWeekdayOfMonth,
+  expandRecurrence,
+  getDurationMinutes,
+  MAX_RECURRENCE_OCCURRENCES,
+  OccurrenceResolutions,
+  resolveOccurrenceStart,
+  toBookingDateTime,
+} from './utils/recurrence';
+import { format, getDate, parseISO, startOfDay } from 'date-fns';
 import { ImageCarousel } from './components/ImageCarousel';
+import { RecurrenceConflictReport } from './components/RecurrenceConflictReport';
 
 // Form schema with recurrence and email notifications
 const bookingFormSchema = z.object({
@@ -71,7 +92,16 @@ const bookingFormSchema = z.object({
   
   // Recurrence
   recurrence: z.enum(['none', 'daily', 'weekly', 'monthly']).default('none'),
+  recurrenceInterval: z.number().min(1, 'Must be at least 1').max(99, 'Must be at most 99').default(1),
+  recurrenceWeekdays: z.array(z.number()).default([]),
+  recurrenceMonthlyMode: z.enum(['day-of-month', 'weekday-of-month']).default('day-of-month'),
+  recurrenceEnds: z.enum(['until', 'count']).default('until'),
   recurrenceEndDate: z.date().optional(),
+  recurrenceCount: z
+    .number()
+    .min(1, 'At least 1 occurrence')
+    .max(MAX_RECURRENCE_OCCURRENCES, `At most ${MAX_RECURRENCE_OCCURRENCES} occurrences`)
+    .optional(),
   
   // Special requirements
   specialRequests: z.string().optional(),
@@ -83,27 +113,82 @@ const bookingFormSchema = z.object({
   message: 'End time must be after start time',
   path: ['endTime'],
 }).refine((data) => {
-  if (data.recurrence !== 'none' && !data.recurrenceEndDate) {
+  if (data.recurrence !== 'none' && data.recurrenceEnds === 'until' && !data.recurrenceEndDate) {
     return false;
   }
   return true;
 }, {
   message: 'Please select an end date for recurring meetings',
   path: ['recurrenceEndDate'],
+}).refine((data) => {
+  if (data.recurrence !== 'none' && data.recurrenceEnds === 'count' && !data.recurrenceCount) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'Please enter the number of occurrences',
+  path: ['recurrenceCount'],
 });
 
 type BookingFormValues = z.infer<typeof bookingFormSchema>;
 
+const RECURRENCE_UNITS: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+/**
+ * Recurrence rule from the form, or null for a one-time booking
+ */
+const buildRecurrenceRule = (
+  values: Pick<
+    BookingFormValues,
+    | 'recurrence'
+    | 'recurrenceInterval'
+    | 'recurrenceWeekdays'
+    | 'recurrenceMonthlyMode'
+    | 'recurrenceEnds'
+    | 'recurrenceEndDate'
+    | 'recurrenceCount'
+  >
+): RecurrenceRule | null => {
+  if (values.recurrence === 'none') return null;
+  return {
+    frequency: values.recurrence,
+    interval: values.recurrenceInterval || 1,
+    ...(values.recurrence === 'weekly' && { weekdays: values.recurrenceWeekdays }),
+    ...(values.recurrence === 'monthly' && { monthlyMode: values.recurrenceMonthlyMode }),
+    ...(values.recurrenceEnds === 'until'
+      ? { until: values.recurrenceEndDate && format(values.recurrenceEndDate, 'yyyy-MM-dd') }
+      : { count: values.recurrenceCount }),
+  };
+};
+
 export function BookingPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const roomId = searchParams.get('roomId');
   const initialDate = searchParams.get('date');
+  const initialStartTime = searchParams.get('startTime');
+  const initialEndTime = searchParams.get('endTime');
+  const initialAttendees = Number(searchParams.get('attendees')) || 1;
+
+  const { user } = useAuth();
+  const { companyMap } = useCompany();
+  const {
+    getRoomById,
+    refreshBookings,
+    createBooking,
+    createBookingSeries,
+    bookings,
+    bookingConflict,
+    clearBookingConflict,
+  } = useRoomBooking();
 
   const [room, setRoom] = useState<Room | null>(null);
-  const [bookings] = useState<RoomBooking[]>(mockBookings);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(
-    initialDate ? new Date(initialDate) : new Date()
+    initialDate ? parseISO(initialDate) : new Date()
   );
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
   const [selectedSlots, setSelectedSlots] = useState<TimeSlot[]>([]);
@@ -111,30 +196,55 @@ export function BookingPage() {
   const [step, setStep] = useState<'select' | 'details'>('select');
   const [emailInput, setEmailInput] = useState('');
   const [emailList, setEmailList] = useState<string[]>([]);
+  const [resolutions, setResolutions] = useState<OccurrenceResolutions>({});
+
+  // Upcoming bookings of the room, for time slots and blocked dates
+  const loadRoomBookings = (id: string) =>
+    refreshBookings(
+      {
+        filters: { and: { roomId: id, status: ['confirmed', 'pending'] } },
+        dateFilter: { type: '>=', field: 'startDateTime', startDate: startOfDay(new Date()).toISOString() },
+        sort: { startDateTime: 1 },
+      },
+      0,
+      500
+    );
 
   // Load room
   useEffect(() => {
-    if (roomId) {
-      const foundRoom = mockRooms.find((r) => r.id === roomId);
+    if (!roomId) {
+      navigate('/room-management/browse');
+      return;
+    }
+    getRoomById(roomId).then((foundRoom) => {
       if (foundRoom) {
         setRoom(foundRoom);
+        loadRoomBookings(foundRoom.id);
       } else {
         navigate('/room-management/browse');
       }
-    } else {
-      navigate('/room-management/browse');
-    }
+    });
   }, [roomId, navigate]);
 
-  // Generate time slots when date changes
+  // Generate time slots when the date or the room's bookings change
   useEffect(() => {
     if (room && selectedDate) {
       const slots = generateTimeSlots(room, selectedDate, bookings, 30);
       setTimeSlots(slots);
-      setSelectedSlots([]); // Reset selection when date changes
     }
   }, [room, selectedDate, bookings]);
 
+  // Preselect the time handed over by the room finder, once its slots exist
+  const prefillApplied = useRef(false);
+  useEffect(() => {
+    if (prefillApplied.current || !initialStartTime || !initialEndTime || timeSlots.length === 0) return;
+    prefillApplied.current = true;
+    const range = timeSlots.filter((slot) => slot.start >= initialStartTime && slot.end <= initialEndTime);
+    if (range.length > 0 && range.every((slot) => slot.available)) {
+      setSelectedSlots(range);
+    }
+  }, [timeSlots, initialStartTime, initialEndTime]);
+
   // Get blocked dates for calendar
   const blockedDates = useMemo(() => {
     if (!room || !selectedDate) return [];
@@ -156,8 +266,12 @@ export function BookingPage() {
       date: selectedDate,
       startTime: '',
       endTime: '',
-      numberOfAttendees: 1,
+      numberOfAttendees: initialAttendees,
       recurrence: 'none',
+      recurrenceInterval: 1,
+      recurrenceWeekdays: [],
+      recurrenceMonthlyMode: 'day-of-month',
+      recurrenceEnds: 'until',
       notifyAttendees: false,
       notificationEmails: [],
     },
@@ -165,8 +279,41 @@ export function BookingPage() {
 
   // Watch form values
   const recurrence = form.watch('recurrence');
+  const recurrenceInterval = form.watch('recurrenceInterval');
+  const recurrenceWeekdays = form.watch('recurrenceWeekdays');
+  const recurrenceMonthlyMode = form.watch('recurrenceMonthlyMode');
+  const recurrenceEnds = form.watch('recurrenceEnds');
+  const recurrenceEndDate = form.watch('recurrenceEndDate');
+  const recurrenceCount = form.watch('recurrenceCount');
+  const startTime = form.watch('startTime');
+  const endTime = form.watch('endTime');
   const notifyAttendees = form.watch('notifyAttendees');
 
+  const recurrenceRule = useMemo(
+    () =>
+      buildRecurrenceRule({
+        recurrence,
+        recurrenceInterval,
+        recurrenceWeekdays,
+        recurrenceMonthlyMode,
+        recurrenceEnds,
+        recurrenceEndDate,
+        recurrenceCount,
+      }),
+    [recurrence, recurrenceInterval, recurrenceWeekdays, recurrenceMonthlyMode, recurrenceEnds, recurrenceEndDate, recurrenceCount]
+  );
+
+  // Every occurrence checked against the room's schedule at the selected time
+  const occurrenceChecks = useMemo(() => {
+    if (!room || !selectedDate || !recurrenceRule || !startTime || !endTime) return [];
+    if (recurrenceRule.until === undefined && recurrenceRule.count === undefined) return [];
+    return checkOccurrences(room, expandRecurrence(recurrenceRule, selectedDate), startTime, endTime, bookings);
+  }, [room, selectedDate, recurrenceRule, startTime, endTime, bookings]);
+
+  const handleResolveOccurrence = (date: string, start: string | null) => {
+    setResolutions((prev) => ({ ...prev, [date]: start }));
+  };
+
   // Handle email list
   const handleAddEmail = () => {
     const email = emailInput.trim();
@@ -232,9 +379,17 @@ export function BookingPage() {
     }
 
     setSelectedDate(date);
+    setSelectedSlots([]); // Reset selection when date changes
     form.setValue('date', date);
   };
 
+  // Back to the slot picker, e.g. after a conflict
+  const handleChangeTime = () => {
+    clearBookingConflict();
+    setSelectedSlots([]);
+    setStep('select');
+  };
+
   // Handle next step
   const handleNextStep = () => {
     if (selectedSlots.length === 0) {
@@ -244,38 +399,6 @@ export function BookingPage() {
     setStep('details');
   };
 
-  // Calculate recurring booking instances
-  const getRecurringInstances = (
-    startDate: Date,
-    endDate: Date,
-    recurrenceType: BookingRecurrence
-  ): Date[] => {
-    const instances: Date[] = [startDate];
-    let currentDate = new Date(startDate);
-    
-    while (currentDate < endDate) {
-      switch (recurrenceType) {
-        case 'daily':
-          currentDate = addDays(currentDate, 1);
-          break;
-        case 'weekly':
-          currentDate = addWeeks(currentDate, 1);
-          break;
-        case 'monthly':
-          currentDate = addMonths(currentDate, 1);
-          break;
-        default:
-          return instances;
-      }
-      
-      if (currentDate <= endDate) {
-        instances.push(new Date(currentDate));
-      }
-    }
-    
-    return instances;
-  };
-
   // Handle form submission
   const handleSubmit = async (data: BookingFormValues) => {
     if (!room) return;
@@ -283,29 +406,75 @@ export function BookingPage() {
     setIsSubmitting(true);
     
     try {
-      let bookingInstances = 1;
-      
-      // Calculate recurring instances
-      if (data.recurrence !== 'none' && data.recurrenceEndDate) {
-        const instances = getRecurringInstances(
-          data.date,
-          data.recurrenceEndDate,
-          data.recurrence
-        );
-        bookingInstances = instances.length;
-      }
-      
-      console.log('Booking data:', {
-        ...data,
+      const date = format(data.date, 'yyyy-MM-dd');
+      const companyId = user?.companyId || '';
+
+      const carrier: RoomBookingCarrier = {
         roomId: room.id,
         roomName: room.name,
-        totalInstances: bookingInstances,
-        duration: selectedSlots.length * 30,
-      });
-      
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      
+        title: data.title,
+        description: data.description,
+        purpose: data.purpose,
+        startDateTime: toBookingDateTime(date, data.startTime),
+        endDateTime: toBookingDateTime(date, data.endTime),
+        date,
+        recurrence: data.recurrence,
+        numberOfAttendees: data.numberOfAttendees,
+        bookedBy: user?.id || '',
+        bookedByName: user?.name || '',
+        bookedByEmail: user?.email || '',
+        bookedByCompanyId: companyId,
+        bookedByCompanyName: companyMap[companyId]?.name || '',
+        hasExternalGuests: false,
+        specialRequests: data.specialRequests,
+        status: 'pending',
+        notifyAttendees: data.notifyAttendees,
+      };
+
+      const rule = buildRecurrenceRule(data);
+      if (!rule) {
+        const booking = await createBooking(carrier);
+        if (!booking) {
+          // Refresh the slots so the one taken meanwhile shows as booked
+          await loadRoomBookings(room.id);
+          return;
+        }
+      } else {
+        // Book every occurrence that is free or rebooked; skipped dates are left out
+        const duration = getDurationMinutes(data.startTime, data.endTime);
+        const occurrences = checkOccurrences(
+          room,
+          expandRecurrence(rule, data.date),
+          data.startTime,
+          data.endTime,
+          bookings
+        ).flatMap((check) => {
+          const start = resolveOccurrenceStart(check, resolutions);
+          return start ? [{ date: check.date, start }] : [];
+        });
+
+        if (occurrences.length === 0) {
+          form.setError('recurrence', { message: 'Every occurrence is skipped. Rebook at least one date.' });
+          return;
+        }
+
+        const recurrenceEndDate = occurrences[occurrences.length - 1].date;
+        const series = await createBookingSeries(
+          occurrences.map((occurrence) => ({
+            ...carrier,
+            date: occurrence.date,
+            startDateTime: toBookingDateTime(occurrence.date, occurrence.start),
+            endDateTime: toBookingDateTime(occurrence.date, addMinutesToTime(occurrence.start, duration)),
+            recurrenceRule: rule,
+            recurrenceEndDate,
+          }))
+        );
+        if (series.length === 0) {
+          await loadRoomBookings(room.id);
+          return;
+        }
+      }
+
       navigate('/room-management/browse?bookingSuccess=true');
     } catch (error) {
       console.error('Error creating booking:', error);
@@ -614,7 +783,7 @@ export function BookingPage() {
                       type="button"
                       variant="outline"
                       size="sm"
-                      onClick={() => setStep('select')}
+                      onClick={handleChangeTime}
                     >
                       ← Change Time
                     </Button>
@@ -827,27 +996,179 @@ export function BookingPage() {
                         )}
                       />
 
-                      {recurrence !== 'none' && (
-                        <FormField
-                          control={form.control}
-                          name="recurrenceEndDate"
-                          render={({ field }) => (
-                            <FormItem className="flex flex-col">
-                              <FormLabel>End Date <span className="text-destructive">*</span></FormLabel>
-                              <Calendar
-                                mode="single"
-                                selected={field.value}
-                                onSelect={field.onChange}
-                                disabled={(date) => date < new Date()}
-                                className="rounded-md border w-fit"
-                              />
-                              <FormDescription>
-                                Select when recurring meetings should end
-                              </FormDescription>
-                              <FormMessage />
-                            </FormItem>
+                      {recurrence !== 'none' && selectedDate && (
+                        <div className="space-y-4 rounded-md border p-4">
+                          <FormField
+                            control={form.control}
+                            name="recurrenceInterval"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Repeat Every</FormLabel>
+                                <div className="flex items-center gap-2">
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      max={99}
+                                      className="w-20"
+                                      {...field}
+                                      onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                                    />
+                                  </FormControl>
+                                  <span className="text-sm text-muted-foreground">{RECURRENCE_UNITS[recurrence]}</span>
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          {recurrence === 'weekly' && (
+                            <FormField
+                              control={form.control}
+                              name="recurrenceWeekdays"
+                              render={({ field }) => {
+                                // No days picked means the day of the first meeting
+                                const activeDays = field.value.length > 0 ? field.value : [selectedDate.getDay()];
+                                return (
+                                  <FormItem>
+                                    <FormLabel>On</FormLabel>
+                                    <div className="flex flex-wrap gap-2">
+                                      {dayNames.map((dayName, day) => (
+                                        <Button
+                                          key={dayName}
+                                          type="button"
+                                          size="sm"
+                                          variant={activeDays.includes(day) ? 'default' : 'outline'}
+                                          onClick={() =>
+                                            field.onChange(
+                                              activeDays.includes(day)
+                                                ? activeDays.filter((d) => d !== day)
+                                                : [...activeDays, day]
+                                            )
+                                          }
+                                        >
+                                          {dayName}
+                                        </Button>
+                                      ))}
+                                    </div>
+                                    <FormMessage />
+                                  </FormItem>
+                                );
+                              }}
+                            />
                           )}
-                        />
+
+                          {recurrence === 'monthly' && (
+                            <FormField
+                              control={form.control}
+                              name="recurrenceMonthlyMode"
+                              render={({ field }) => (
+                                <FormItem className="space-y-2">
+                                  <FormLabel>On</FormLabel>
+                                  <FormControl>
+                                    <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                                      <div className="flex items-center space-x-2">
+                                        <RadioGroupItem value="day-of-month" id="monthly-day" />
+                                        <Label htmlFor="monthly-day" className="font-normal">
+                                          Day {getDate(selectedDate)} of the month
+                                        </Label>
+                                      </div>
+                                      <div className="flex items-center space-x-2">
+                                        <RadioGroupItem value="weekday-of-month" id="monthly-weekday" />
+                                        <Label htmlFor="monthly-weekday" className="font-normal">
+                                          The {describeWeekdayOfMonth(selectedDate)} of the month
+                                        </Label>
+                                      </div>
+                                    </RadioGroup>
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          )}
+
+                          <FormField
+                            control={form.control}
+                            name="recurrenceEnds"
+                            render={({ field }) => (
+                              <FormItem className="space-y-2">
+                                <FormLabel>Ends</FormLabel>
+                                <FormControl>
+                                  <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                                    <div className="flex items-center space-x-2">
+                                      <RadioGroupItem value="until" id="ends-until" />
+                                      <Label htmlFor="ends-until" className="font-normal">On a date</Label>
+                                    </div>
+                                    <div className="flex items-center space-x-2">
+                                      <RadioGroupItem value="count" id="ends-count" />
+                                      <Label htmlFor="ends-count" className="font-normal">After a number of meetings</Label>
+                                    </div>
+                                  </RadioGroup>
+                                </FormControl>
+                              </FormItem>
+                            )}
+                          />
+
+                          {recurrenceEnds === 'until' ? (
+                            <FormField
+                              control={form.control}
+                              name="recurrenceEndDate"
+                              render={({ field }) => (
+                                <FormItem className="flex flex-col">
+                                  <FormLabel>End Date <span className="text-destructive">*</span></FormLabel>
+                                  <Calendar
+                                    mode="single"
+                                    selected={field.value}
+                                    onSelect={field.onChange}
+                                    disabled={(date) => date < startOfDay(selectedDate)}
+                                    className="rounded-md border w-fit"
+                                  />
+                                  <FormDescription>
+                                    Select when recurring meetings should end
+                                  </FormDescription>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          ) : (
+                            <FormField
+                              control={form.control}
+                              name="recurrenceCount"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Occurrences <span className="text-destructive">*</span></FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      type="number"
+                                      min={1}
+                                      max={MAX_RECURRENCE_OCCURRENCES}
+                                      className="w-24"
+                                      value={field.value ?? ''}
+                                      onChange={(e) => field.onChange(parseInt(e.target.value) || undefined)}
+                                    />
+                                  </FormControl>
+                                  <FormDescription>
+                                    Up to {MAX_RECURRENCE_OCCURRENCES} meetings
+                                  </FormDescription>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          )}
+
+                          {recurrenceRule && occurrenceChecks.length > 0 && (
+                            <p className="text-sm text-muted-foreground">
+                              {describeRecurrence(recurrenceRule, selectedDate)} · {occurrenceChecks.length} meeting(s)
+                              {occurrenceChecks.length === MAX_RECURRENCE_OCCURRENCES && ' (maximum)'}
+                            </p>
+                          )}
+
+                          <RecurrenceConflictReport
+                            checks={occurrenceChecks}
+                            resolutions={resolutions}
+                            onResolve={handleResolveOccurrence}
+                          />
+                        </div>
                       )}
                     </div>
 
@@ -955,6 +1276,19 @@ export function BookingPage() {
                   </div>
                 </Card>
 
+                {bookingConflict && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Time slot no longer available</AlertTitle>
+                    <AlertDescription className="flex items-center justify-between gap-4">
+                      <span>{bookingConflict}</span>
+                      <Button type="button" variant="outline" size="sm" onClick={handleChangeTime}>
+                        Change Time
+                      </Button>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 <FormActionBar
                   onCancel={() => navigate('/room-management/browse')}
                   isSubmitting={isSubmitting}
@@ -0,0 +1,319 @@
+/**
+ * Find a Room Page
+ * Searches free slots across every room the user's company can book (owned
+ * or shared), matching capacity and amenities and avoiding attendees' approved
+ * leave. Slots are ranked by capacity fit; picking one opens the booking form.
+ */
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { addDays, format, parseISO } from 'date-fns';
+import { ArrowLeft, Loader2, Search, XCircle } from 'lucide-react';
+import { PageLayout } from '@/components/PageLayout';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { useLeaveManagement } from '@/contexts/LeaveManagementContext';
+import { buildTeamAbsenceRangeRequest } from '@/modules/leave-management-system/utils/teamCoverage';
+import { RoomAmenities } from './types';
+import { AMENITY_LABELS } from './constants';
+import { FreeSlot, findFreeSlots, getMatchingRooms, SlotSearchCriteria } from './utils/slotFinder';
+
+const DURATION_OPTIONS = [30, 60, 90, 120, 180, 240];
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+
+export function FindRoom() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { rooms, refreshRooms, searchBookings } = useRoomBooking();
+  const { searchAbsenceApplications } = useLeaveManagement();
+
+  const [fromDate, setFromDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(format(addDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [durationMinutes, setDurationMinutes] = useState(60);
+  const [attendees, setAttendees] = useState(2);
+  const [amenities, setAmenities] = useState<(keyof RoomAmenities)[]>([]);
+  const [emailInput, setEmailInput] = useState('');
+  const [attendeeEmails, setAttendeeEmails] = useState<string[]>([]);
+  const [slots, setSlots] = useState<FreeSlot[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    refreshRooms({ sort: { capacity: 1 } }, 0, 200);
+  }, []);
+
+  const isWindowValid = !!fromDate && !!toDate && toDate >= fromDate;
+
+  const handleAddEmail = () => {
+    const email = emailInput.trim();
+    if (email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) && !attendeeEmails.includes(email)) {
+      setAttendeeEmails([...attendeeEmails, email]);
+      setEmailInput('');
+    }
+  };
+
+  const toggleAmenity = (amenity: keyof RoomAmenities, checked: boolean) => {
+    setAmenities((prev) => (checked ? [...prev, amenity] : prev.filter((a) => a !== amenity)));
+  };
+
+  const handleSearch = async () => {
+    if (!isWindowValid) return;
+
+    const criteria: SlotSearchCriteria = {
+      companyId: user?.companyId || '',
+      fromDate: parseISO(fromDate),
+      toDate: parseISO(toDate),
+      durationMinutes,
+      attendees,
+      amenities,
+      attendeeEmails,
+    };
+    const roomIds = getMatchingRooms(rooms, criteria).map((room) => room.id);
+    if (roomIds.length === 0) {
+      setSlots([]);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const leaveRequest = buildTeamAbsenceRangeRequest(criteria.fromDate, criteria.toDate);
+      const [bookingResult, absenceResult] = await Promise.all([
+        searchBookings(
+          {
+            filters: { and: { roomId: roomIds, status: ['confirmed', 'pending'] } },
+            dateFilter: {
+              type: 'between',
+              field: 'startDateTime',
+              startDate: criteria.fromDate.toISOString(),
+              endDate: addDays(criteria.toDate, 1).toISOString(),
+            },
+            sort: { startDateTime: 1 },
+          },
+          0,
+          2000
+        ),
+        attendeeEmails.length > 0
+          ? searchAbsenceApplications(
+              { ...leaveRequest, filters: { and: { ...leaveRequest.filters?.and, email: attendeeEmails } } },
+              0,
+              500
+            )
+          : Promise.resolve(null),
+      ]);
+      setSlots(findFreeSlots(rooms, bookingResult?.content || [], absenceResult?.content || [], criteria));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleBook = (slot: FreeSlot) => {
+    const params = new URLSearchParams({
+      roomId: slot.room.id,
+      date: slot.date,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      attendees: String(attendees),
+    });
+    navigate(`/room-management/booking-form?${params.toString()}`);
+  };
+
+  return (
+    <PageLayout>
+      <div className="space-y-6">
+        {/* Page Header with Back Button */}
+        <div className="flex items-start gap-4">
+          <Button variant="outline" size="icon" onClick={() => navigate('/room-management')} className="mt-1">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold flex items-center gap-2">
+              <Search className="h-8 w-8" />
+              Find a Room
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Free slots across every room your company can book, best-fitting rooms first
+            </p>
+          </div>
+        </div>
+
+        {/* Search Criteria */}
+        <Card>
+          <CardContent className="pt-6 space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="find-room-from">From</Label>
+                <Input id="find-room-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="find-room-to">To</Label>
+                <Input id="find-room-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {formatDuration(minutes)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="find-room-attendees">Attendees</Label>
+                <Input
+                  id="find-room-attendees"
+                  type="number"
+                  min={1}
+                  value={attendees}
+                  onChange={(e) => setAttendees(Math.max(1, Number(e.target.value) || 1))}
+                />
+              </div>
+            </div>
+            {!isWindowValid && <p className="text-sm text-destructive">End date must not be before start date</p>}
+
+            <div className="space-y-2">
+              <Label>Required Amenities</Label>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {Object.entries(AMENITY_LABELS).map(([key, label]) => (
+                  <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={amenities.includes(key as keyof RoomAmenities)}
+                      onCheckedChange={(checked) => toggleAmenity(key as keyof RoomAmenities, checked === true)}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="find-room-email">Attendees to Check for Leave</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="find-room-email"
+                  type="email"
+                  placeholder="colleague@company.com"
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleAddEmail();
+                    }
+                  }}
+                />
+                <Button type="button" variant="secondary" onClick={handleAddEmail}>
+                  Add
+                </Button>
+              </div>
+              {attendeeEmails.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {attendeeEmails.map((email) => (
+                    <Badge key={email} variant="secondary" className="pl-3 pr-1">
+                      {email}
+                      <button
+                        type="button"
+                        onClick={() => setAttendeeEmails(attendeeEmails.filter((e) => e !== email))}
+                        className="ml-2 hover:bg-muted rounded-full p-0.5"
+                      >
+                        <XCircle className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSearch} disabled={isSearching || !isWindowValid}>
+                {isSearching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+                Find Free Slots
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        {slots && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Free Slots</CardTitle>
+              <CardDescription>
+                {slots.length === 0
+                  ? 'No room is free for this search; try a longer window, fewer amenities or a shorter meeting'
+                  : `${slots.length} slot(s), rooms with the fewest spare seats first`}
+              </CardDescription>
+            </CardHeader>
+            {slots.length > 0 && (
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Room</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead className="text-right">Seats</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {slots.map((slot) => (
+                      <TableRow key={`${slot.room.id}-${slot.date}-${slot.startTime}`}>
+                        <TableCell>
+                          <p className="font-medium">{slot.room.name}</p>
+                          <p className="text-xs text-muted-foreground">{slot.room.location}</p>
+                        </TableCell>
+                        <TableCell>{format(parseISO(slot.date), 'EEE, MMM d')}</TableCell>
+                        <TableCell>
+                          {slot.startTime} - {slot.endTime}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {slot.room.capacity}
+                          {slot.spareSeats > 0 && (
+                            <span className="text-xs text-muted-foreground"> ({slot.spareSeats} spare)</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" onClick={() => handleBook(slot)}>
+                            Book
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            )}
+          </Card>
+        )}
+      </div>
+    </PageLayout>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * Floor Plan Map Page
+ * Shows the rooms of a space's floor on its uploaded floor plan, colored by
+ * live status from today's bookings. Clicking a room opens its details,
+ * from where it can be booked. Plans are set up by admins in space setup.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { endOfDay, startOfDay } from 'date-fns';
+import { ArrowLeft, Map as MapIcon } from 'lucide-react';
+import { PageLayout } from '@/components/PageLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { useSpace } from '@/contexts/SpaceContext';
+import { Space } from '@/modules/space-management/spaceTypes';
+import { Room, RoomStatus } from './types';
+import { ROOM_STATUS_FILLS, ROOM_STATUS_LABELS } from './constants';
+import { getMapStatus } from './utils/floorPlan';
+import { FloorPlanCanvas } from './components/FloorPlanCanvas';
+import { RoomDetailsModal } from './components/RoomDetailsModal';
+
+// How often the map reloads today's bookings to keep statuses live
+const STATUS_REFRESH_MS = 60 * 1000;
+
+export function FloorPlanMap() {
+  const navigate = useNavigate();
+  const { refreshSpaces } = useSpace();
+  const { rooms, bookings, refreshRooms, refreshBookings } = useRoomBooking();
+
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [spaceId, setSpaceId] = useState('');
+  const [floor, setFloor] = useState('');
+  const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
+
+  // Load spaces that have floor plans, and all rooms
+  useEffect(() => {
+    refreshSpaces({ sort: { spaceName: 1 } }, 0, 100).then((result) => {
+      const withPlans = (result?.content || []).filter((space) => (space.floorPlans || []).length > 0);
+      setSpaces(withPlans);
+      if (withPlans.length > 0) {
+        setSpaceId(withPlans[0].id);
+        setFloor(withPlans[0].floorPlans![0].floor);
+      }
+    });
+    refreshRooms({ sort: { name: 1 } }, 0, 200);
+  }, []);
+
+  // Today's bookings, reloaded while the map is open
+  useEffect(() => {
+    const loadTodaysBookings = () =>
+      refreshBookings(
+        {
+          filters: { and: { status: 'confirmed' } },
+          dateFilter: {
+            type: 'between',
+            field: 'startDateTime',
+            startDate: startOfDay(new Date()).toISOString(),
+            endDate: endOfDay(new Date()).toISOString(),
+          },
+        },
+        0,
+        1000
+      );
+
+    loadTodaysBookings();
+    const interval = setInterval(loadTodaysBookings, STATUS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const space = spaces.find((s) => s.id === spaceId);
+  const plan = space?.floorPlans?.find((p) => p.floor === floor);
+
+  const statusCounts = useMemo(() => {
+    const counts: Partial<Record<RoomStatus, number>> = {};
+    (plan?.placements || []).forEach((placement) => {
+      const room = rooms.find((r) => r.id === placement.roomId);
+      if (!room) return;
+      const status = getMapStatus(room, bookings);
+      counts[status] = (counts[status] || 0) + 1;
+    });
+    return counts;
+  }, [plan, rooms, bookings]);
+
+  const handleSpaceChange = (id: string) => {
+    setSpaceId(id);
+    setFloor(spaces.find((s) => s.id === id)?.floorPlans?.[0]?.floor || '');
+  };
+
+  return (
+    <>
+      <PageLayout>
+        <div className="space-y-6">
+          {/* Page Header with Back Button */}
+          <div className="flex items-start gap-4">
+            <Button variant="outline" size="icon" onClick={() => navigate('/room-management')} className="mt-1">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div className="flex-1">
+              <h1 className="text-3xl font-bold flex items-center gap-2">
+                <MapIcon className="h-8 w-8" />
+                Floor Plan
+              </h1>
+              <p className="text-muted-foreground mt-1">See which rooms are free right now and book from the map</p>
+            </div>
+            {spaces.length > 0 && (
+              <div className="flex gap-2">
+                <Select value={spaceId} onValueChange={handleSpaceChange}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Space" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {spaces.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.spaceName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={floor} onValueChange={setFloor}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue placeholder="Floor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(space?.floorPlans || []).map((p) => (
+                      <SelectItem key={p.floor} value={p.floor}>
+                        Floor {p.floor}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {plan ? (
+            <Card>
+              <CardContent className="pt-6 space-y-4">
+                {/* Legend */}
+                <div className="flex flex-wrap gap-4 text-sm">
+                  {(Object.keys(ROOM_STATUS_FILLS) as RoomStatus[]).map((status) => (
+                    <div key={status} className="flex items-center gap-2">
+                      <span className="h-3 w-3 rounded-full" style={{ backgroundColor: ROOM_STATUS_FILLS[status] }} />
+                      {ROOM_STATUS_LABELS[status]} ({statusCounts[status] || 0})
+                    </div>
+                  ))}
+                </div>
+
+                <FloorPlanCanvas
+                  plan={plan}
+                  rooms={rooms}
+                  getFill={(room) => ROOM_STATUS_FILLS[getMapStatus(room, bookings)]}
+                  selectedRoomId={selectedRoom?.id}
+                  onRoomClick={setSelectedRoom}
+                />
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="text-center py-12">
+              <MapIcon className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No floor plans yet</h3>
+              <p className="text-muted-foreground">
+                An administrator can upload floor plans and place rooms on them in space setup
+              </p>
+            </div>
+          )}
+        </div>
+      </PageLayout>
+
+      {/* Room Details Modal */}
+      <RoomDetailsModal
+        room={selectedRoom}
+        bookings={bookings}
+        open={!!selectedRoom}
+        onOpenChange={(open) => !open && setSelectedRoom(null)}
+      />
+    </>
+  );
+}
@@ -1,8 +1,11 @@
 /**
  * My Bookings Page - User Dashboard
  * Shows user's upcoming bookings, recent bookings, and quick actions
+ * Recurring bookings can be edited or cancelled per occurrence or series
+ * Bookings are checked in to around their start and can be ended early
  */
 
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -19,19 +22,34 @@ import {
   TrendingUp,
   History,
   CalendarDays,
+  LogIn,
+  LogOut,
 } from 'lucide-react';
-import { mockRooms, mockBookings } from './mockData';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { RoomBooking, Room } from './types';
+import { RECURRENCE_LABELS } from './constants';
+import { describeRecurrence, isChangeableOccurrence } from './utils/recurrence';
+import { canCheckIn, canCheckOut } from './utils/checkIn';
+import { EditBookingDialog } from './components/EditBookingDialog';
+import { CancelBookingDialog } from './components/CancelBookingDialog';
 import { format, isToday, isTomorrow, isFuture, isPast } from 'date-fns';
 
 export function MyBookings() {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { rooms, bookings, refreshRooms, refreshBookings, checkInBooking, checkOutBooking } = useRoomBooking();
+  const [bookingToEdit, setBookingToEdit] = useState<RoomBooking | null>(null);
+  const [bookingToCancel, setBookingToCancel] = useState<RoomBooking | null>(null);
 
-  // Mock user ID - in real app, get from auth context
-  const currentUserId = 'user-001';
+  useEffect(() => {
+    if (!user?.email) return;
+    refreshBookings({ filters: { and: { bookedByEmail: user.email } }, sort: { startDateTime: -1 } }, 0, 200);
+    refreshRooms({ sort: { totalBookings: -1 } }, 0, 50);
+  }, [user?.email]);
 
-  // Filter bookings for current user
-  const myBookings = mockBookings.filter((b) => b.bookedBy === currentUserId);
+  // Bookings of the current user (the list may still hold an optimistic update)
+  const myBookings = bookings.filter((b) => b.bookedByEmail === user?.email);
   
   const upcomingBookings = myBookings
     .filter((b) => isFuture(new Date(b.startDateTime)) || isToday(new Date(b.startDateTime)))
@@ -41,8 +59,8 @@ export function MyBookings() {
     .filter((b) => isPast(new Date(b.endDateTime)) && !isToday(new Date(b.startDateTime)))
     .sort((a, b) => new Date(b.startDateTime).getTime() - new Date(a.startDateTime).getTime());
 
-  // Get popular rooms (mock - based on total bookings)
-  const popularRooms = [...mockRooms]
+  // Get popular rooms (based on total bookings)
+  const popularRooms = [...rooms]
     .sort((a, b) => (b.totalBookings || 0) - (a.totalBookings || 0))
     .slice(0, 3);
 
@@ -71,6 +89,14 @@ export function MyBookings() {
     }
   };
 
+  // The rule lives on the first booking of the series
+  const getRecurrenceLabel = (booking: RoomBooking) => {
+    const first = bookings.find((b) => b.id === booking.seriesId);
+    return first?.recurrenceRule
+      ? describeRecurrence(first.recurrenceRule, new Date(first.startDateTime))
+      : RECURRENCE_LABELS[booking.recurrence];
+  };
+
   const getDateLabel = (dateStr: string) => {
     const date = new Date(dateStr);
     if (isToday(date)) return 'Today';
@@ -79,7 +105,7 @@ export function MyBookings() {
   };
 
   const BookingCard = ({ booking }: { booking: RoomBooking }) => {
-    const room = mockRooms.find((r) => r.id === booking.roomId);
+    const room = rooms.find((r) => r.id === booking.roomId);
     
     return (
       <Card className="p-4 hover:shadow-md transition-shadow">
@@ -118,11 +144,33 @@ export function MyBookings() {
         {booking.recurrence !== 'none' && (
           <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
             <CalendarDays className="h-3 w-3" />
-            <span>Recurring: {booking.recurrence}</span>
+            <span>Recurring: {getRecurrenceLabel(booking)}</span>
+          </div>
+        )}
+
+        {booking.checkedInAt && (
+          <div className="mt-3 flex items-center gap-2 text-xs text-muted-foreground">
+            <CheckCircle2 className="h-3 w-3 text-green-600" />
+            <span>
+              Checked in at {format(new Date(booking.checkedInAt), 'HH:mm')}
+              {booking.checkedOutAt && `, out at ${format(new Date(booking.checkedOutAt), 'HH:mm')}`}
+            </span>
           </div>
         )}
 
-        <div className="mt-4 flex gap-2">
+        <div className="mt-4 flex flex-wrap gap-2">
+          {canCheckIn(booking) && (
+            <Button size="sm" onClick={() => checkInBooking(booking)}>
+              <LogIn className="h-4 w-4 mr-1" />
+              Check In
+            </Button>
+          )}
+          {canCheckOut(booking) && (
+            <Button variant="secondary" size="sm" onClick={() => checkOutBooking(booking)}>
+              <LogOut className="h-4 w-4 mr-1" />
+              Check Out
+            </Button>
+          )}
           <Button
             variant="outline"
             size="sm"
@@ -130,10 +178,20 @@ export function MyBookings() {
           >
             View Details
           </Button>
-          {booking.status === 'confirmed' && isFuture(new Date(booking.startDateTime)) && (
-            <Button variant="ghost" size="sm" className="text-destructive">
-              Cancel
-            </Button>
+          {isChangeableOccurrence(booking) && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setBookingToEdit(booking)}>
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-destructive"
+                onClick={() => setBookingToCancel(booking)}
+              >
+                Cancel
+              </Button>
+            </>
           )}
         </div>
       </Card>
@@ -202,10 +260,16 @@ export function MyBookings() {
                 Manage your room bookings and discover available spaces
               </p>
             </div>
-            <Button onClick={() => navigate('/room-management/browse')} size="lg">
-              <Plus className="h-5 w-5 mr-2" />
-              Book a Room
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate('/room-management/find')} size="lg">
+                <Search className="h-5 w-5 mr-2" />
+                Find a Room
+              </Button>
+              <Button onClick={() => navigate('/room-management/browse')} size="lg">
+                <Plus className="h-5 w-5 mr-2" />
+                Book a Room
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -348,6 +412,9 @@ export function MyBookings() {
           </div>
         </div>
       </div>
+
+      <EditBookingDialog booking={bookingToEdit} onClose={() => setBookingToEdit(null)} />
+      <CancelBookingDialog booking={bookingToCancel} onClose={() => setBookingToCancel(null)} />
     </div>
   );
 }
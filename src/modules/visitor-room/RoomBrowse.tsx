@@ -12,24 +12,38 @@ import { ConfirmationDialog } from '@/components/common/ConfirmationDialog';
 import { RoomCard } from './components/RoomCard';
 import { RoomDetailsModal } from './components/RoomDetailsModal';
 import { Room } from './types';
-import { mockRooms, mockBookings } from './mockData';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
 import { Building2, ArrowLeft } from 'lucide-react';
 import { ReactNode } from 'react';
 import { useToast } from '@/hooks/use-toast';
+import { startOfDay } from 'date-fns';
 
 export function RoomBrowse() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { toast } = useToast();
 
+  const { rooms, bookings, refreshRooms, refreshBookings, deleteRoom, isLoading: loading } = useRoomBooking();
+
   // State
-  const [rooms] = useState<Room[]>(mockRooms);
-  const [loading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [activeFilters, setActiveFilters] = useState<any[]>([]);
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
   const [detailsModalOpen, setDetailsModalOpen] = useState(false);
 
+  // Load rooms and their upcoming bookings (for live status and blocked dates)
+  useEffect(() => {
+    refreshRooms({ sort: { name: 1 } }, 0, 200);
+    refreshBookings(
+      {
+        filters: { and: { status: ['confirmed', 'pending'] } },
+        dateFilter: { type: '>=', field: 'startDateTime', startDate: startOfDay(new Date()).toISOString() },
+      },
+      0,
+      500
+    );
+  }, []);
+
   // Show success message if redirected from booking
   useEffect(() => {
     if (searchParams.get('bookingSuccess') === 'true') {
@@ -148,8 +162,7 @@ export function RoomBrowse() {
       confirmText: 'Delete',
       variant: 'destructive',
       action: () => {
-        console.log('Delete room:', room.id);
-        // API call here
+        deleteRoom(room.id);
       },
     });
   };
@@ -248,6 +261,20 @@ export function RoomBrowse() {
             showAddButton={isAdmin}
             addButtonLabel="Add Room"
             onAdd={handleAddRoom}
+            customActions={[
+              {
+                id: 'find-room',
+                label: 'Find a Room',
+                onClick: () => navigate('/room-management/find'),
+                variant: 'outline' as const,
+              },
+              {
+                id: 'floor-plan',
+                label: 'Floor Plan',
+                onClick: () => navigate('/room-management/floor-plan'),
+                variant: 'outline' as const,
+              },
+            ]}
           />
 
           {/* Room Cards Grid */}
@@ -279,7 +306,7 @@ export function RoomBrowse() {
                 <RoomCard
                   key={room.id}
                   room={room}
-                  bookings={mockBookings}
+                  bookings={bookings}
                   onBook={handleBook}
                   onView={handleView}
                   onEdit={isAdmin ? handleEditRoom : undefined}
@@ -295,7 +322,7 @@ export function RoomBrowse() {
       {/* Room Details Modal */}
       <RoomDetailsModal
         room={selectedRoom}
-        bookings={mockBookings}
+        bookings={bookings}
         open={detailsModalOpen}
         onOpenChange={setDetailsModalOpen}
       />
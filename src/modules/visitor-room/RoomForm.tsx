@@ -32,8 +32,10 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { FormActionBar } from '@/components/common/FormActionBar/FormActionBar';
 import { ArrowLeft, Upload, Link as LinkIcon } from 'lucide-react';
-import { Room } from './types';
-import { mockRooms } from './mockData';
+import { Room, RoomAmenities } from './types';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLayoutContext } from '@/contexts/LayoutContext';
 import { ROOM_TYPE_LABELS, DAY_LABELS, AMENITY_LABELS, DEFAULT_AVAILABILITY, DEFAULT_AMENITIES } from './constants';
 
 interface RoomFormProps {
@@ -65,11 +67,23 @@ const roomFormSchema = z.object({
 
 type RoomFormValues = z.infer<typeof roomFormSchema>;
 
+// Uploaded images are stored inline as data URLs, like visitor photos
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
 export function RoomForm({ availableAmenities = DEFAULT_AMENITIES }: RoomFormProps = {}) {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const mode = (searchParams.get('mode') as 'create' | 'edit') || 'create';
   const roomId = searchParams.get('id');
+  const { user } = useAuth();
+  const { selectedCompanyScope } = useLayoutContext();
+  const { getRoomById, createRoom, updateRoom } = useRoomBooking();
 
   const [room, setRoom] = useState<Room | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -111,33 +125,34 @@ export function RoomForm({ availableAmenities = DEFAULT_AMENITIES }: RoomFormPro
   // Load room data for edit mode
   useEffect(() => {
     if (mode === 'edit' && roomId) {
-      const foundRoom = mockRooms.find((r) => r.id === roomId);
-      if (foundRoom) {
-        setRoom(foundRoom);
-        
-        // Convert room amenities to form format
-        const amenitiesFormData: Record<string, boolean> = {};
-        availableAmenities.forEach((amenity) => {
-          amenitiesFormData[amenity] = foundRoom.amenities[amenity as keyof typeof foundRoom.amenities] || false;
-        });
-        
-        // Populate form with room data
-        form.reset({
-          name: foundRoom.name,
-          description: foundRoom.description || '',
-          type: foundRoom.type,
-          capacity: foundRoom.capacity,
-          floor: foundRoom.floor,
-          building: foundRoom.building || '',
-          location: foundRoom.location,
-          amenities: amenitiesFormData,
-          availableFrom: foundRoom.availableFrom,
-          availableTo: foundRoom.availableTo,
-          availableDays: foundRoom.availableDays,
-          imageUrl: foundRoom.imageUrl || '',
-          imageUploadType: 'url',
-        });
-      }
+      getRoomById(roomId).then((foundRoom) => {
+        if (foundRoom) {
+          setRoom(foundRoom);
+
+          // Convert room amenities to form format
+          const amenitiesFormData: Record<string, boolean> = {};
+          availableAmenities.forEach((amenity) => {
+            amenitiesFormData[amenity] = foundRoom.amenities[amenity as keyof typeof foundRoom.amenities] || false;
+          });
+
+          // Populate form with room data
+          form.reset({
+            name: foundRoom.name,
+            description: foundRoom.description || '',
+            type: foundRoom.type,
+            capacity: foundRoom.capacity,
+            floor: foundRoom.floor,
+            building: foundRoom.building || '',
+            location: foundRoom.location,
+            amenities: amenitiesFormData,
+            availableFrom: foundRoom.availableFrom,
+            availableTo: foundRoom.availableTo,
+            availableDays: foundRoom.availableDays,
+            imageUrl: foundRoom.imageUrl || '',
+            imageUploadType: 'url',
+          });
+        }
+      });
     }
   }, [mode, roomId, form, availableAmenities]);
 
@@ -146,19 +161,34 @@ export function RoomForm({ availableAmenities = DEFAULT_AMENITIES }: RoomFormPro
     setIsSubmitting(true);
     
     try {
-      console.log('Submitting room:', data);
-      
-      // Handle image upload if file is selected
-      if (selectedFile) {
-        console.log('Uploading file:', selectedFile.name);
-        // TODO: Implement file upload to server
-        // const uploadedUrl = await uploadImage(selectedFile);
-        // data.imageUrl = uploadedUrl;
-      }
-      
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      
+      const imageUrl = selectedFile ? await readFileAsDataUrl(selectedFile) : data.imageUrl || undefined;
+      const details = {
+        name: data.name,
+        description: data.description,
+        type: data.type,
+        capacity: data.capacity,
+        floor: data.floor,
+        building: data.building,
+        location: data.location,
+        amenities: data.amenities as RoomAmenities,
+        availableFrom: data.availableFrom,
+        availableTo: data.availableTo,
+        availableDays: data.availableDays,
+        imageUrl,
+      };
+
+      const saved =
+        mode === 'edit' && room
+          ? await updateRoom(room.id, details)
+          : await createRoom({
+              ...details,
+              status: 'available',
+              ownerCompanyId:
+                selectedCompanyScope && selectedCompanyScope !== 'all' ? selectedCompanyScope : user?.companyId || '',
+              sharedWithCompanies: [],
+            });
+      if (!saved) return;
+
       // Navigate back to room list
       navigate('/room-management/browse');
     } catch (error) {
@@ -2,7 +2,7 @@
  * Room Management Admin Dashboard
  */
 
-import { useState, useMemo, useRef } from 'react';
+import { useState, useMemo, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ColumnDef } from '@tanstack/react-table';
 import { 
@@ -18,10 +18,13 @@ import { DataTable } from '@/components/common/DataTable/DataTable';
 import { DataTableRef } from '@/components/common/DataTable/types';
 import { GenericToolbar } from '@/components/GenericToolbar/GenericToolbar';
 import { ConfirmationDialog } from '@/components/common/ConfirmationDialog';
-import { mockBookings, mockRooms } from './mockData';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { BookingRecurrence, BookingStatus, RoomBooking } from './types';
+import { BOOKING_STATUS_COLORS, RECURRENCE_LABELS } from './constants';
+import { useNoShowRelease } from './hooks/useNoShowRelease';
 import { format, isToday, isFuture, parseISO } from 'date-fns';
 
-// Booking interface
+// Booking row shown in the admin tables
 interface Booking {
   id: string;
   roomId: string;
@@ -33,100 +36,43 @@ interface Booking {
   endTime: string;
   purpose: string;
   attendees: number;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'rejected';
-  recurrence: 'none' | 'daily' | 'weekly' | 'monthly';
+  status: BookingStatus;
+  recurrence: BookingRecurrence;
   createdAt: string;
   updatedAt: string;
 }
 
-// Mock bookings data
-const mockAdminBookings: Booking[] = [
-  {
-    id: 'booking-001',
-    roomId: 'room-001',
-    roomName: 'Innovation Hub',
-    bookedByName: 'John Admin',
-    bookedByEmail: 'john.admin@techcorp.com',
-    date: new Date().toISOString().split('T')[0],
-    startTime: '09:00',
-    endTime: '09:30',
-    purpose: 'Team Meeting',
-    attendees: 8,
-    status: 'confirmed',
-    recurrence: 'none',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'booking-002',
-    roomId: 'room-001',
-    roomName: 'Innovation Hub',
-    bookedByName: 'Sarah Designer',
-    bookedByEmail: 'sarah@designhub.com',
-    date: new Date().toISOString().split('T')[0],
-    startTime: '11:00',
-    endTime: '12:00',
-    purpose: 'Presentation',
-    attendees: 15,
-    status: 'pending',
-    recurrence: 'none',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'booking-003',
-    roomId: 'room-002',
-    roomName: 'Creative Studio',
-    bookedByName: 'Mike Johnson',
-    bookedByEmail: 'mike@techcorp.com',
-    date: new Date(Date.now() + 86400000).toISOString().split('T')[0],
-    startTime: '10:00',
-    endTime: '11:00',
-    purpose: 'Client Meeting',
-    attendees: 6,
-    status: 'confirmed',
-    recurrence: 'none',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-  {
-    id: 'booking-004',
-    roomId: 'room-003',
-    roomName: 'Executive Suite',
-    bookedByName: 'Emily Brown',
-    bookedByEmail: 'emily@techcorp.com',
-    date: new Date(Date.now() + 2 * 86400000).toISOString().split('T')[0],
-    startTime: '14:00',
-    endTime: '16:00',
-    purpose: 'Board Meeting',
-    attendees: 10,
-    status: 'pending',
-    recurrence: 'weekly',
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  },
-];
-
-const STATUS_COLORS = {
-  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400',
-  confirmed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
-  cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400',
-  rejected: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
-};
-
-const RECURRENCE_LABELS = {
-  none: 'One-time',
-  daily: 'Daily',
-  weekly: 'Weekly',
-  monthly: 'Monthly',
-};
+const toBookingRow = (booking: RoomBooking): Booking => ({
+  id: booking.id,
+  roomId: booking.roomId,
+  roomName: booking.roomName,
+  bookedByName: booking.bookedByName,
+  bookedByEmail: booking.bookedByEmail,
+  date: booking.date,
+  startTime: format(new Date(booking.startDateTime), 'HH:mm'),
+  endTime: format(new Date(booking.endDateTime), 'HH:mm'),
+  purpose: booking.purpose,
+  attendees: booking.numberOfAttendees,
+  status: booking.status,
+  recurrence: booking.recurrence,
+  createdAt: booking.createdAt,
+  updatedAt: booking.updatedAt,
+});
 
 export function RoomManagementAdmin() {
   const navigate = useNavigate();
 
+  const { rooms, bookings: roomBookings, refreshRooms, refreshBookings, updateBooking, isLoading: loading } = useRoomBooking();
+
+  useEffect(() => {
+    refreshRooms({ sort: { name: 1 } }, 0, 200);
+    refreshBookings({ sort: { startDateTime: -1 } }, 0, 500);
+  }, []);
+
+  useNoShowRelease();
+
   // State
-  const [bookings] = useState<Booking[]>(mockAdminBookings);
-  const [loading] = useState(false);
+  const bookings = useMemo(() => roomBookings.map(toBookingRow), [roomBookings]);
   const [activeTab, setActiveTab] = useState('pending');
 
   // Separate state for each tab
@@ -173,6 +119,18 @@ export function RoomManagementAdmin() {
       onClick: () => navigate('/room-management/browse'),
       variant: 'default' as const,
     },
+    {
+      id: 'floor-plan',
+      label: 'Floor Plan',
+      onClick: () => navigate('/room-management/floor-plan'),
+      variant: 'outline' as const,
+    },
+    {
+      id: 'room-analytics',
+      label: 'Analytics',
+      onClick: () => navigate('/room-management/analytics'),
+      variant: 'outline' as const,
+    },
   ];
 
   // Confirmation dialog state
@@ -193,8 +151,8 @@ export function RoomManagementAdmin() {
   // Stats calculation
   const stats = useMemo(() => {
     const today = new Date().toISOString().split('T')[0];
-    const totalRooms = mockRooms.length;
-    const availableRooms = mockRooms.filter(r => r.status === 'available').length;
+    const totalRooms = rooms.length;
+    const availableRooms = rooms.filter(r => r.status === 'available').length;
     const todayBookings = bookings.filter(b => b.date === today).length;
     const pendingBookings = bookings.filter(b => b.status === 'pending').length;
     const totalBookings = bookings.length;
@@ -208,7 +166,7 @@ export function RoomManagementAdmin() {
       totalBookings,
       utilization,
     };
-  }, [bookings]);
+  }, [bookings, rooms]);
 
   // Filter bookings by tab
   const pendingBookings = useMemo(() => {
@@ -363,8 +321,7 @@ export function RoomManagementAdmin() {
       confirmText: 'Approve',
       variant: 'default',
       action: () => {
-        console.log('Approve booking:', booking.id);
-        // API call here
+        updateBooking(booking.id, { status: 'confirmed' });
       },
     });
   };
@@ -377,8 +334,7 @@ export function RoomManagementAdmin() {
       confirmText: 'Reject',
       variant: 'destructive',
       action: () => {
-        console.log('Reject booking:', booking.id);
-        // API call here
+        updateBooking(booking.id, { status: 'rejected' });
       },
     });
   };
@@ -391,8 +347,7 @@ export function RoomManagementAdmin() {
       confirmText: 'Cancel Booking',
       variant: 'destructive',
       action: () => {
-        console.log('Cancel booking:', booking.id);
-        // API call here
+        updateBooking(booking.id, { status: 'cancelled', cancelledAt: new Date().toISOString() });
       },
     });
   };
@@ -427,7 +382,7 @@ export function RoomManagementAdmin() {
       id: 'roomId',
       label: 'Room',
       type: 'multiselect',
-      options: mockRooms.map((room) => ({
+      options: rooms.map((room) => ({
         value: room.id,
         label: room.name,
       })),
@@ -550,7 +505,7 @@ export function RoomManagementAdmin() {
       header: () => <div className="text-center">Status</div>,
       cell: ({ row }) => (
         <div className="flex justify-center">
-          <Badge className={STATUS_COLORS[row.original.status]}>
+          <Badge className={BOOKING_STATUS_COLORS[row.original.status]}>
             {row.original.status.charAt(0).toUpperCase() + row.original.status.slice(1)}
           </Badge>
         </div>
@@ -0,0 +1,69 @@
+/**
+ * Cancel Booking Dialog
+ * Confirms cancelling a booking; for a recurring booking the user chooses
+ * this occurrence, this and the following ones, or the whole series
+ */
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { RecurrenceEditScope, RoomBooking } from '../types';
+import { RecurrenceScopeSelector } from './RecurrenceScopeSelector';
+
+interface CancelBookingDialogProps {
+  booking: RoomBooking | null;
+  onClose: () => void;
+}
+
+export function CancelBookingDialog({ booking, onClose }: CancelBookingDialogProps) {
+  const { cancelOccurrences, isLoading } = useRoomBooking();
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+
+  useEffect(() => {
+    setScope('this');
+  }, [booking?.id]);
+
+  const handleConfirm = async () => {
+    if (!booking) return;
+    await cancelOccurrences(booking, scope);
+    onClose();
+  };
+
+  return (
+    <AlertDialog open={!!booking} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Cancel Booking</AlertDialogTitle>
+          <AlertDialogDescription>
+            {booking &&
+              `Cancel "${booking.title}" in ${booking.roomName} on ${format(new Date(booking.startDateTime), 'MMM d, yyyy HH:mm')}?`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {booking?.seriesId && <RecurrenceScopeSelector value={scope} onChange={setScope} disabled={isLoading} />}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Keep Booking</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              handleConfirm();
+            }}
+            disabled={isLoading}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Cancel Booking
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
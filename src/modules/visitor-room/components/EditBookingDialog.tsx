@@ -0,0 +1,186 @@
+/**
+ * Edit Booking Dialog
+ * Change the title and time of a booking; for a recurring booking the change
+ * applies to this occurrence, this and the following ones, or the series.
+ * Occurrences that would clash are skipped or rebooked at a free time.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { BookingUpdatePayload } from '@/services/bookingService';
+import { RecurrenceEditScope, Room, RoomBooking } from '../types';
+import {
+  addMinutesToTime,
+  checkOccurrences,
+  getDurationMinutes,
+  isChangeableOccurrence,
+  OccurrenceResolutions,
+  resolveOccurrenceStart,
+  selectOccurrences,
+  toBookingDateTime,
+} from '../utils/recurrence';
+import { RecurrenceScopeSelector } from './RecurrenceScopeSelector';
+import { RecurrenceConflictReport } from './RecurrenceConflictReport';
+
+interface EditBookingDialogProps {
+  booking: RoomBooking | null;
+  onClose: () => void;
+}
+
+export function EditBookingDialog({ booking, onClose }: EditBookingDialogProps) {
+  const { getRoomById, getBookingSeries, searchBookings, rescheduleOccurrences } = useRoomBooking();
+
+  const [room, setRoom] = useState<Room | null>(null);
+  const [series, setSeries] = useState<RoomBooking[]>([]);
+  const [roomBookings, setRoomBookings] = useState<RoomBooking[]>([]);
+  const [title, setTitle] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+  const [resolutions, setResolutions] = useState<OccurrenceResolutions>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load the room, the series and the room's upcoming schedule for conflict checks
+  useEffect(() => {
+    if (!booking) return;
+
+    setTitle(booking.title);
+    setStartTime(format(new Date(booking.startDateTime), 'HH:mm'));
+    setEndTime(format(new Date(booking.endDateTime), 'HH:mm'));
+    setScope('this');
+    setResolutions({});
+    setRoom(null);
+    setSeries([booking]);
+    setRoomBookings([]);
+
+    getRoomById(booking.roomId).then(setRoom);
+    getBookingSeries(booking).then(setSeries);
+    searchBookings(
+      {
+        filters: { and: { roomId: booking.roomId, status: ['confirmed', 'pending'] } },
+        dateFilter: { type: '>=', field: 'startDateTime', startDate: startOfDay(new Date()).toISOString() },
+        sort: { startDateTime: 1 },
+      },
+      0,
+      500
+    ).then((result) => {
+      if (result) setRoomBookings(result.content);
+    });
+  }, [booking?.id]);
+
+  const isTimeValid = !!startTime && !!endTime && endTime > startTime;
+  const isTitleValid = title.trim().length >= 3;
+
+  const targets = useMemo(
+    () => (booking ? selectOccurrences(booking, series, scope).filter((o) => isChangeableOccurrence(o)) : []),
+    [booking, series, scope]
+  );
+
+  // The occurrences being moved no longer block their own old times
+  const occurrenceChecks = useMemo(() => {
+    if (!room || !isTimeValid) return [];
+    const targetIds = targets.map((occurrence) => occurrence.id);
+    const otherBookings = roomBookings.filter((b) => !targetIds.includes(b.id));
+    return checkOccurrences(
+      room,
+      targets.map((occurrence) => parseISO(occurrence.date)),
+      startTime,
+      endTime,
+      otherBookings
+    );
+  }, [room, targets, roomBookings, startTime, endTime, isTimeValid]);
+
+  const handleSave = async () => {
+    if (!booking || !isTimeValid || !isTitleValid) return;
+
+    const duration = getDurationMinutes(startTime, endTime);
+    const payloads: Record<string, BookingUpdatePayload> = {};
+    targets.forEach((occurrence, index) => {
+      const start = occurrenceChecks[index] ? resolveOccurrenceStart(occurrenceChecks[index], resolutions) : startTime;
+      if (!start) return;
+      payloads[occurrence.id] = {
+        title: title.trim(),
+        startDateTime: toBookingDateTime(occurrence.date, start),
+        endDateTime: toBookingDateTime(occurrence.date, addMinutesToTime(start, duration)),
+      };
+    });
+
+    setIsSaving(true);
+    try {
+      const success = await rescheduleOccurrences(booking, scope, series, payloads);
+      if (success) onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Booking</DialogTitle>
+          <DialogDescription>
+            {booking && `${booking.roomName} · ${format(new Date(booking.startDateTime), 'EEEE, MMM d, yyyy')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-booking-title">Meeting Title</Label>
+            <Input id="edit-booking-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+            {!isTitleValid && <p className="text-sm text-destructive">Title must be at least 3 characters</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-booking-start">Start Time</Label>
+              <Input id="edit-booking-start" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-booking-end">End Time</Label>
+              <Input id="edit-booking-end" type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+            </div>
+          </div>
+          {!isTimeValid && <p className="text-sm text-destructive">End time must be after start time</p>}
+
+          {booking?.seriesId && (
+            <div className="space-y-2">
+              <Label>Apply To</Label>
+              <RecurrenceScopeSelector value={scope} onChange={setScope} disabled={isSaving} />
+              <p className="text-xs text-muted-foreground">{targets.length} upcoming occurrence(s) will change</p>
+            </div>
+          )}
+
+          <RecurrenceConflictReport
+            checks={occurrenceChecks}
+            resolutions={resolutions}
+            onResolve={(date, start) => setResolutions((prev) => ({ ...prev, [date]: start }))}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !room || !isTimeValid || !isTitleValid}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
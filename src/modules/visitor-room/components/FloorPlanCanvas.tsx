@@ -0,0 +1,131 @@
+/**
+ * Floor Plan Canvas
+ * Draws a floor plan image with its rooms as colored pins or outlines.
+ * Rooms are clickable; clicks elsewhere on the plan report the point, which
+ * the editor uses to place rooms.
+ */
+
+import { MouseEvent } from 'react';
+import { FloorPlan, FloorPlanPoint, RoomPlacement } from '@/modules/space-management/spaceTypes';
+import { Room } from '../types';
+import { getPlacementAnchor, isPlacementComplete, toSvgPoints } from '../utils/floorPlan';
+
+interface FloorPlanCanvasProps {
+  plan: FloorPlan;
+  rooms: Room[];
+  placements?: RoomPlacement[]; // Defaults to the plan's own placements
+  getFill: (room: Room) => string;
+  selectedRoomId?: string | null;
+  draft?: RoomPlacement | null; // Outline still being drawn in the editor
+  onRoomClick?: (room: Room) => void;
+  onPlanClick?: (point: FloorPlanPoint) => void;
+}
+
+export function FloorPlanCanvas({
+  plan,
+  rooms,
+  placements = plan.placements,
+  getFill,
+  selectedRoomId,
+  draft,
+  onRoomClick,
+  onPlanClick,
+}: FloorPlanCanvasProps) {
+  // Sizes scale with the image so pins and labels look the same on any plan
+  const unit = Math.max(plan.width, plan.height) / 100;
+
+  const handlePlanClick = (event: MouseEvent<SVGSVGElement>) => {
+    if (!onPlanClick) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    onPlanClick({
+      x: Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1),
+    });
+  };
+
+  const handleRoomClick = (event: MouseEvent, room: Room) => {
+    if (!onRoomClick) return;
+    event.stopPropagation();
+    onRoomClick(room);
+  };
+
+  return (
+    <div className="w-full overflow-auto rounded-md border bg-muted/30">
+      <svg
+        viewBox={`0 0 ${plan.width} ${plan.height}`}
+        className={`w-full h-auto ${onPlanClick ? 'cursor-crosshair' : ''}`}
+        onClick={handlePlanClick}
+      >
+        <image href={plan.imageUrl} width={plan.width} height={plan.height} />
+
+        {placements.filter(isPlacementComplete).map((placement) => {
+          const room = rooms.find((r) => r.id === placement.roomId);
+          if (!room) return null;
+
+          const fill = getFill(room);
+          const anchor = getPlacementAnchor(placement);
+          const isSelected = room.id === selectedRoomId;
+          return (
+            <g
+              key={placement.roomId}
+              className={onRoomClick ? 'cursor-pointer' : undefined}
+              onClick={(event) => handleRoomClick(event, room)}
+            >
+              <title>{room.name}</title>
+              {placement.shape === 'polygon' ? (
+                <polygon
+                  points={toSvgPoints(placement.points, plan)}
+                  fill={fill}
+                  fillOpacity={0.35}
+                  stroke={fill}
+                  strokeWidth={isSelected ? unit * 0.6 : unit * 0.3}
+                />
+              ) : (
+                <circle
+                  cx={anchor.x * plan.width}
+                  cy={anchor.y * plan.height}
+                  r={unit * 1.2}
+                  fill={fill}
+                  stroke="white"
+                  strokeWidth={isSelected ? unit * 0.5 : unit * 0.25}
+                />
+              )}
+              <text
+                x={anchor.x * plan.width}
+                y={anchor.y * plan.height + (placement.shape === 'pin' ? unit * 3 : unit * 0.6)}
+                textAnchor="middle"
+                fontSize={unit * 1.8}
+                fontWeight={600}
+                fill="currentColor"
+                className="pointer-events-none select-none"
+              >
+                {room.name}
+              </text>
+            </g>
+          );
+        })}
+
+        {draft && draft.points.length > 0 && (
+          <g className="pointer-events-none">
+            <polyline
+              points={toSvgPoints(draft.points, plan)}
+              fill="none"
+              stroke="hsl(var(--primary))"
+              strokeWidth={unit * 0.3}
+              strokeDasharray={`${unit} ${unit * 0.5}`}
+            />
+            {draft.points.map((point, index) => (
+              <circle
+                key={index}
+                cx={point.x * plan.width}
+                cy={point.y * plan.height}
+                r={unit * 0.6}
+                fill="hsl(var(--primary))"
+              />
+            ))}
+          </g>
+        )}
+      </svg>
+    </div>
+  );
+}
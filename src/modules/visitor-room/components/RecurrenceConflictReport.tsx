@@ -0,0 +1,79 @@
+/**
+ * Recurrence Conflict Report
+ * Lists the occurrences of a recurring booking that clash with the room's
+ * schedule and lets the user skip each date or rebook it at a free time
+ */
+
+import { format, parseISO } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  addMinutesToTime,
+  getDurationMinutes,
+  OccurrenceCheck,
+  OccurrenceResolutions,
+} from '../utils/recurrence';
+
+// Select value for skipping an occurrence
+const SKIP = 'skip';
+
+interface RecurrenceConflictReportProps {
+  checks: OccurrenceCheck[];
+  resolutions: OccurrenceResolutions;
+  onResolve: (date: string, startTime: string | null) => void;
+}
+
+export function RecurrenceConflictReport({ checks, resolutions, onResolve }: RecurrenceConflictReportProps) {
+  const conflicts = checks.filter((check) => check.conflict);
+  if (conflicts.length === 0) return null;
+
+  return (
+    <Alert className="border-yellow-500/50">
+      <AlertTriangle className="h-4 w-4 text-yellow-600" />
+      <AlertTitle>
+        {conflicts.length} of {checks.length} occurrences clash
+      </AlertTitle>
+      <AlertDescription>
+        <p className="text-sm text-muted-foreground mb-3">
+          Skip these dates or rebook them at another time on the same day.
+        </p>
+        <div className="space-y-2">
+          {conflicts.map((check) => {
+            const duration = getDurationMinutes(check.startTime, check.endTime);
+            return (
+              <div key={check.date} className="flex flex-col sm:flex-row sm:items-center gap-2 rounded-md border p-2">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium">{format(parseISO(check.date), 'EEE, MMM d, yyyy')}</p>
+                  <p className="text-xs text-muted-foreground truncate">{check.conflict}</p>
+                </div>
+                <Select
+                  value={resolutions[check.date] ?? SKIP}
+                  onValueChange={(value) => onResolve(check.date, value === SKIP ? null : value)}
+                >
+                  <SelectTrigger className="sm:w-48 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP}>Skip this date</SelectItem>
+                    {check.alternatives.map((startTime) => (
+                      <SelectItem key={startTime} value={startTime}>
+                        Rebook {startTime} - {addMinutesToTime(startTime, duration)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Recurrence Scope Selector
+ * Choose whether a change applies to one occurrence of a recurring booking,
+ * this and the following occurrences, or the whole series
+ */
+
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { RecurrenceEditScope } from '../types';
+import { RECURRENCE_SCOPE_LABELS } from '../constants';
+
+interface RecurrenceScopeSelectorProps {
+  value: RecurrenceEditScope;
+  onChange: (scope: RecurrenceEditScope) => void;
+  disabled?: boolean;
+}
+
+export function RecurrenceScopeSelector({ value, onChange, disabled }: RecurrenceScopeSelectorProps) {
+  return (
+    <RadioGroup
+      value={value}
+      onValueChange={(scope) => onChange(scope as RecurrenceEditScope)}
+      disabled={disabled}
+      className="space-y-1"
+    >
+      {(Object.keys(RECURRENCE_SCOPE_LABELS) as RecurrenceEditScope[]).map((scope) => (
+        <div key={scope} className="flex items-center space-x-2">
+          <RadioGroupItem value={scope} id={`scope-${scope}`} />
+          <Label htmlFor={`scope-${scope}`} className="font-normal">
+            {RECURRENCE_SCOPE_LABELS[scope]}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+}
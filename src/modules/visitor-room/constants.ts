@@ -2,7 +2,7 @@
  * Room Management Constants
  */
 
-import { RoomStatus, RoomType, BookingStatus, BookingRecurrence } from './types';
+import { RoomStatus, RoomType, BookingStatus, BookingRecurrence, RecurrenceEditScope } from './types';
 
 /**
  * Room Status Labels
@@ -24,6 +24,16 @@ export const ROOM_STATUS_COLORS: Record<RoomStatus, string> = {
   inactive: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
 };
 
+/**
+ * Room Status Fills (floor plan shapes and pins)
+ */
+export const ROOM_STATUS_FILLS: Record<RoomStatus, string> = {
+  available: '#22c55e',
+  occupied: '#ef4444',
+  maintenance: '#eab308',
+  inactive: '#9ca3af',
+};
+
 /**
  * Room Type Labels
  */
@@ -66,6 +76,7 @@ export const ROOM_TYPE_ICONS: Record<RoomType, string> = {
 export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
   confirmed: 'Confirmed',
   pending: 'Pending',
+  rejected: 'Rejected',
   cancelled: 'Cancelled',
   completed: 'Completed',
   'no-show': 'No Show',
@@ -77,6 +88,7 @@ export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
 export const BOOKING_STATUS_COLORS: Record<BookingStatus, string> = {
   confirmed: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300',
   pending: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300',
+  rejected: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
   cancelled: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300',
   completed: 'bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-300',
   'no-show': 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
@@ -92,6 +104,15 @@ export const RECURRENCE_LABELS: Record<BookingRecurrence, string> = {
   monthly: 'Monthly',
 };
 
+/**
+ * Which occurrences of a recurring booking an edit or cancellation applies to
+ */
+export const RECURRENCE_SCOPE_LABELS: Record<RecurrenceEditScope, string> = {
+  this: 'This occurrence',
+  following: 'This and following occurrences',
+  series: 'All occurrences',
+};
+
 /**
  * Amenity Labels
  */
@@ -184,3 +205,11 @@ export const BOOKING_PURPOSE_OPTIONS = [
   'Conference Call',
   'Other',
 ];
+
+/**
+ * Booking check-in window
+ * Check-in opens shortly before the start; a confirmed booking nobody has
+ * checked in to by the end of the window is released as a no-show
+ */
+export const CHECK_IN_OPENS_BEFORE_MINUTES = 10;
+export const CHECK_IN_WINDOW_MINUTES = 10;
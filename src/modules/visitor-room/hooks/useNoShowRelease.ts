@@ -0,0 +1,58 @@
+/**
+ * useNoShowRelease Hook
+ * Asks the server to release loaded bookings that nobody checked in to once
+ * their check-in window has closed, so their rooms show as free again
+ *
+ * Meant for the room admin page only. The local clock only picks the
+ * candidates; the server decides by its own clock and releases quietly.
+ * The loaded bookings are swept whenever they change and every minute; a
+ * booking the server kept is offered again a minute later, one whose release
+ * failed is not retried until the page is reloaded.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useRoomBooking } from '@/contexts/RoomBookingContext';
+import { getUnclaimedBookings } from '../utils/checkIn';
+
+// How often the loaded bookings are checked for closed check-in windows
+const RELEASE_INTERVAL_MS = 60_000;
+
+/**
+ * @example
+ * const { bookings } = useRoomBooking();
+ * useNoShowRelease();
+ */
+export function useNoShowRelease() {
+  const { bookings, releaseNoShows } = useRoomBooking();
+  // Booking id -> time it may be offered again (Infinity while pending or after a failure)
+  const retryAt = useRef(new Map<string, number>());
+
+  const sweep = async () => {
+    const now = Date.now();
+    const unclaimed = getUnclaimedBookings(bookings).filter(
+      (booking) => (retryAt.current.get(booking.id) ?? 0) <= now
+    );
+    if (unclaimed.length === 0) return;
+    unclaimed.forEach((booking) => retryAt.current.set(booking.id, Infinity));
+
+    const released = await releaseNoShows(unclaimed);
+    if (!released) return;
+    const releasedIds = new Set(released.map((booking) => booking.id));
+    unclaimed
+      .filter((booking) => !releasedIds.has(booking.id))
+      .forEach((booking) => retryAt.current.set(booking.id, Date.now() + RELEASE_INTERVAL_MS));
+  };
+
+  // Keep the interval on the latest bookings without restarting it
+  const sweepRef = useRef(sweep);
+  sweepRef.current = sweep;
+
+  useEffect(() => {
+    sweepRef.current();
+  }, [bookings]);
+
+  useEffect(() => {
+    const interval = setInterval(() => sweepRef.current(), RELEASE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+}
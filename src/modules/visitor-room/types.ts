@@ -4,8 +4,10 @@
 
 export type RoomStatus = 'available' | 'occupied' | 'maintenance' | 'inactive';
 export type RoomType = 'conference' | 'meeting' | 'huddle' | 'training' | 'boardroom' | 'event';
-export type BookingStatus = 'confirmed' | 'pending' | 'cancelled' | 'completed' | 'no-show';
+export type BookingStatus = 'confirmed' | 'pending' | 'rejected' | 'cancelled' | 'completed' | 'no-show';
 export type BookingRecurrence = 'none' | 'daily' | 'weekly' | 'monthly';
+export type RecurrenceMonthlyMode = 'day-of-month' | 'weekday-of-month';
+export type RecurrenceEditScope = 'this' | 'following' | 'series';
 
 /**
  * Company that can share rooms
@@ -74,6 +76,19 @@ export interface Room {
   utilizationRate?: number; // Percentage
 }
 
+/**
+ * Recurrence rule of a booking series, following iCalendar RRULE
+ * (FREQ, INTERVAL, BYDAY, BYMONTHDAY / ordinal BYDAY, UNTIL, COUNT)
+ */
+export interface RecurrenceRule {
+  frequency: Exclude<BookingRecurrence, 'none'>;
+  interval: number; // Every N days / weeks / months
+  weekdays?: number[]; // Weekly: 0-6 (Sunday-Saturday), defaults to the first occurrence's day
+  monthlyMode?: RecurrenceMonthlyMode; // Monthly: "on the 15th" or "on the second Tuesday"
+  until?: string; // yyyy-MM-dd, inclusive
+  count?: number; // Number of occurrences; used when until is not set
+}
+
 /**
  * Room booking
  */
@@ -95,7 +110,9 @@ export interface RoomBooking {
   // Recurrence
   recurrence: BookingRecurrence;
   recurrenceEndDate?: string;
-  recurrenceInstances?: string[]; // Array of booking IDs if recurring
+  recurrenceRule?: RecurrenceRule; // Kept on the first booking of a series
+  recurrenceInstances?: string[]; // IDs of all occurrences in date order, kept on the first booking of a series
+  seriesId?: string; // ID of the first booking of the series, set on every occurrence
   
   // Attendees
   numberOfAttendees: number;
@@ -106,6 +123,7 @@ export interface RoomBooking {
   bookedByEmail: string;
   bookedByCompanyId: string;
   bookedByCompanyName: string;
+  bookedByDepartment?: string; // Set by the server from the booker's employee record
   
   // Host information (if different from booker)
   hostName?: string;
@@ -138,9 +156,36 @@ export interface RoomBooking {
   // Check-in/Check-out
   checkedInAt?: string;
   checkedOutAt?: string;
-  actualEndTime?: string;
+  actualEndTime?: string; // When the room was freed; earlier than endDateTime after an early checkout
 }
 
+/**
+ * Room Carrier - payload for creating a room
+ * The backend sets the id, audit fields and statistics
+ */
+export type RoomCarrier = Omit<
+  Room,
+  'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'createdByName' | 'totalBookings' | 'utilizationRate'
+>;
+
+/**
+ * Room Booking Carrier - payload for creating a booking
+ * The backend rejects a booking that overlaps another with a 409 conflict
+ */
+export type RoomBookingCarrier = Omit<
+  RoomBooking,
+  | 'id'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'recurrenceInstances'
+  | 'reminderSent'
+  | 'cancelledAt'
+  | 'cancellationReason'
+  | 'checkedInAt'
+  | 'checkedOutAt'
+  | 'actualEndTime'
+>;
+
 /**
  * Form data for room
  */
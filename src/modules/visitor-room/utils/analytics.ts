@@ -0,0 +1,173 @@
+/**
+ * Room Utilization Analytics
+ * Booked vs. used hours, peak hours, no-show rates per team and how well
+ * meetings fit their rooms, computed from booking history
+ *
+ * Only bookings that held their room count: confirmed, completed and no-show
+ * bookings that have started. Used time runs from check-in to checkout (or
+ * the booked end), so a booking nobody checked in to was booked but not used.
+ */
+
+import { addHours, eachDayOfInterval, getDay, getHours, max, min, startOfDay, startOfHour } from 'date-fns';
+import { Room, RoomBooking } from '../types';
+import { getEffectiveEnd } from './checkIn';
+
+// Meetings using less than this share of the room's capacity are oversized
+export const OVERSIZED_ROOM_RATIO = 0.5;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Usage of one room over the period
+ */
+export interface RoomUsage {
+  roomId: string;
+  roomName: string;
+  capacity: number;
+  bookings: number;
+  noShows: number;
+  bookedHours: number;
+  usedHours: number;
+  utilization: number; // Booked hours as % of the room's opening hours
+  averageAttendees: number;
+  averageFit: number; // Attendees as % of capacity, no-shows left out
+  oversized: number; // Meetings below OVERSIZED_ROOM_RATIO of capacity
+  overCapacity: number; // Meetings with more attendees than seats
+}
+
+/**
+ * No-shows of one team (the booker's department, else their company)
+ */
+export interface TeamNoShows {
+  team: string;
+  bookings: number;
+  noShows: number;
+  rate: number; // %
+}
+
+export interface RoomAnalytics {
+  bookings: number;
+  noShows: number;
+  noShowRate: number; // %
+  bookedHours: number;
+  usedHours: number;
+  averageFit: number; // %
+  rooms: RoomUsage[];
+  teams: TeamNoShows[];
+  heatmap: number[][]; // Booked hours by [weekday 0-6][hour 0-23]
+}
+
+const toPercent = (part: number, total: number): number => (total > 0 ? Math.round((part / total) * 100) : 0);
+
+const getBookedHours = (booking: RoomBooking): number =>
+  (new Date(booking.endDateTime).getTime() - new Date(booking.startDateTime).getTime()) / HOUR_MS;
+
+/**
+ * Hours between check-in (or the start, when checked in early) and checkout
+ */
+const getUsedHours = (booking: RoomBooking, now: Date): number => {
+  if (!booking.checkedInAt) return 0;
+  const from = max([new Date(booking.checkedInAt), new Date(booking.startDateTime)]);
+  const to = min([getEffectiveEnd(booking), now]);
+  return Math.max(0, (to.getTime() - from.getTime()) / HOUR_MS);
+};
+
+/**
+ * Opening hours of a room between two dates
+ */
+const getOpeningHours = (room: Room, from: Date, to: Date): number => {
+  if (to < from) return 0;
+  const [fromHour, fromMinute] = room.availableFrom.split(':').map(Number);
+  const [toHour, toMinute] = room.availableTo.split(':').map(Number);
+  const dailyHours = (toHour * 60 + toMinute - (fromHour * 60 + fromMinute)) / 60;
+  const openDays = eachDayOfInterval({ start: from, end: to }).filter((day) =>
+    room.availableDays.includes(getDay(day))
+  ).length;
+  return openDays * dailyHours;
+};
+
+/**
+ * Spread a booking's time over the hour cells it covers
+ */
+const addToHeatmap = (heatmap: number[][], booking: RoomBooking) => {
+  let cursor = new Date(booking.startDateTime);
+  const end = new Date(booking.endDateTime);
+  while (cursor < end) {
+    const next = min([addHours(startOfHour(cursor), 1), end]);
+    heatmap[getDay(cursor)][getHours(cursor)] += (next.getTime() - cursor.getTime()) / HOUR_MS;
+    cursor = next;
+  }
+};
+
+/**
+ * Analytics for bookings that started between two dates
+ */
+export function buildRoomAnalytics(
+  rooms: Room[],
+  bookings: RoomBooking[],
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): RoomAnalytics {
+  const periodEnd = min([to, now]);
+  const history = bookings.filter((booking) => {
+    const start = new Date(booking.startDateTime);
+    return (
+      (booking.status === 'confirmed' || booking.status === 'completed' || booking.status === 'no-show') &&
+      start >= from &&
+      start <= periodEnd
+    );
+  });
+
+  const heatmap = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+  history.forEach((booking) => addToHeatmap(heatmap, booking));
+
+  const roomUsage: RoomUsage[] = rooms.map((room) => {
+    const roomBookings = history.filter((booking) => booking.roomId === room.id);
+    const attended = roomBookings.filter((booking) => booking.status !== 'no-show');
+    const bookedHours = roomBookings.reduce((sum, booking) => sum + getBookedHours(booking), 0);
+    const totalAttendees = attended.reduce((sum, booking) => sum + booking.numberOfAttendees, 0);
+
+    return {
+      roomId: room.id,
+      roomName: room.name,
+      capacity: room.capacity,
+      bookings: roomBookings.length,
+      noShows: roomBookings.length - attended.length,
+      bookedHours,
+      usedHours: roomBookings.reduce((sum, booking) => sum + getUsedHours(booking, now), 0),
+      utilization: Math.round((bookedHours / (getOpeningHours(room, startOfDay(from), periodEnd) || 1)) * 100),
+      averageAttendees: attended.length > 0 ? totalAttendees / attended.length : 0,
+      averageFit: toPercent(totalAttendees, attended.length * room.capacity),
+      oversized: attended.filter((booking) => booking.numberOfAttendees < room.capacity * OVERSIZED_ROOM_RATIO).length,
+      overCapacity: attended.filter((booking) => booking.numberOfAttendees > room.capacity).length,
+    };
+  });
+
+  const teamMap = new Map<string, { bookings: number; noShows: number }>();
+  history.forEach((booking) => {
+    const team = booking.bookedByDepartment || booking.bookedByCompanyName || 'Unassigned';
+    const entry = teamMap.get(team) || { bookings: 0, noShows: 0 };
+    entry.bookings++;
+    if (booking.status === 'no-show') entry.noShows++;
+    teamMap.set(team, entry);
+  });
+  const teams = Array.from(teamMap.entries())
+    .map(([team, entry]) => ({ team, ...entry, rate: toPercent(entry.noShows, entry.bookings) }))
+    .sort((a, b) => b.rate - a.rate || b.noShows - a.noShows);
+
+  const noShows = history.filter((booking) => booking.status === 'no-show').length;
+  const fitted = roomUsage.filter((usage) => usage.bookings > usage.noShows && usage.capacity > 0);
+
+  return {
+    bookings: history.length,
+    noShows,
+    noShowRate: toPercent(noShows, history.length),
+    bookedHours: history.reduce((sum, booking) => sum + getBookedHours(booking), 0),
+    usedHours: history.reduce((sum, booking) => sum + getUsedHours(booking, now), 0),
+    averageFit: fitted.length > 0 ? Math.round(fitted.reduce((sum, usage) => sum + usage.averageFit, 0) / fitted.length) : 0,
+    rooms: roomUsage.sort((a, b) => b.utilization - a.utilization),
+    teams,
+    heatmap,
+  };
+}
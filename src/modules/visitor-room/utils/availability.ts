@@ -5,6 +5,7 @@
 
 import { Room, RoomBooking, TimeSlot } from '../types';
 import { format, isWithinInterval } from 'date-fns';
+import { getCheckInState, getEffectiveEnd } from './checkIn';
 
 /**
  * Check if a room is available for a specific date and time range
@@ -35,13 +36,14 @@ export function isRoomAvailable(
       b.roomId === room.id && 
       b.date === dateStr && 
       b.status !== 'cancelled' && 
+      b.status !== 'rejected' &&
       b.status !== 'no-show' &&
       b.id !== excludeBookingId
   );
 
   for (const booking of roomBookings) {
     const bookingStart = format(new Date(booking.startDateTime), 'HH:mm');
-    const bookingEnd = format(new Date(booking.endDateTime), 'HH:mm');
+    const bookingEnd = format(getEffectiveEnd(booking), 'HH:mm');
 
     // Check for time overlap
     if (
@@ -158,7 +160,7 @@ export function generateTimeSlots(
 
     for (const booking of dayBookings) {
       const bookingStart = format(new Date(booking.startDateTime), 'HH:mm');
-      const bookingEnd = format(new Date(booking.endDateTime), 'HH:mm');
+      const bookingEnd = format(getEffectiveEnd(booking), 'HH:mm');
 
       if (
         (slotStart >= bookingStart && slotStart < bookingEnd) ||
@@ -201,12 +203,13 @@ export function getRoomCurrentStatus(
   const currentDate = format(now, 'yyyy-MM-dd');
   const currentTime = format(now, 'HH:mm');
 
-  // Find any active booking right now
+  // Find any active booking right now; one nobody checked in to no longer holds the room
   const activeBooking = bookings.find((b) => {
     if (b.roomId !== room.id || b.status !== 'confirmed') return false;
+    if (getCheckInState(b, now) === 'missed') return false;
     
     const bookingStart = new Date(b.startDateTime);
-    const bookingEnd = new Date(b.endDateTime);
+    const bookingEnd = getEffectiveEnd(b);
     
     return isWithinInterval(now, { start: bookingStart, end: bookingEnd });
   });
@@ -0,0 +1,59 @@
+/**
+ * Booking Check-in Utilities
+ * Check-in window, no-show detection and early checkout of room bookings
+ *
+ * A confirmed booking must be checked in to between CHECK_IN_OPENS_BEFORE_MINUTES
+ * before and CHECK_IN_WINDOW_MINUTES after its start; otherwise it is released
+ * as a no-show. Checking out early sets actualEndTime, which frees the rest of
+ * the slot while endDateTime keeps the booked time for analytics.
+ */
+
+import { addMinutes, subMinutes } from 'date-fns';
+import { RoomBooking } from '../types';
+import { CHECK_IN_OPENS_BEFORE_MINUTES, CHECK_IN_WINDOW_MINUTES } from '../constants';
+
+export type CheckInState = 'upcoming' | 'open' | 'checked-in' | 'missed' | 'ended';
+
+/**
+ * When the booking stops holding the room: the early checkout, if any
+ */
+export const getEffectiveEnd = (booking: RoomBooking): Date =>
+  new Date(booking.actualEndTime || booking.endDateTime);
+
+/**
+ * Last moment the booking can be checked in to
+ */
+export const getCheckInDeadline = (booking: RoomBooking): Date =>
+  addMinutes(new Date(booking.startDateTime), CHECK_IN_WINDOW_MINUTES);
+
+/**
+ * Where a confirmed booking stands in its check-in window
+ */
+export function getCheckInState(booking: RoomBooking, now: Date = new Date()): CheckInState {
+  if (booking.checkedInAt) {
+    return booking.checkedOutAt || now >= getEffectiveEnd(booking) ? 'ended' : 'checked-in';
+  }
+  if (now >= new Date(booking.endDateTime)) return 'ended';
+  if (now > getCheckInDeadline(booking)) return 'missed';
+  if (now < subMinutes(new Date(booking.startDateTime), CHECK_IN_OPENS_BEFORE_MINUTES)) return 'upcoming';
+  return 'open';
+}
+
+/**
+ * Whether the booking can be checked in to right now
+ */
+export const canCheckIn = (booking: RoomBooking, now: Date = new Date()): boolean =>
+  booking.status === 'confirmed' && getCheckInState(booking, now) === 'open';
+
+/**
+ * Whether the booking can be checked out of (ended early) right now
+ */
+export const canCheckOut = (booking: RoomBooking, now: Date = new Date()): boolean =>
+  booking.status === 'confirmed' && getCheckInState(booking, now) === 'checked-in';
+
+/**
+ * Confirmed bookings nobody checked in to before the window closed, while
+ * releasing them still frees the room; ended ones are left to the server
+ */
+export const getUnclaimedBookings = (bookings: RoomBooking[], now: Date = new Date()): RoomBooking[] =>
+  bookings.filter((booking) => booking.status === 'confirmed' && getCheckInState(booking, now) === 'missed');
@@ -0,0 +1,64 @@
+/**
+ * Floor Plan Utilities
+ * Geometry of rooms placed on a floor plan and the status they are shown in
+ *
+ * Points are stored as fractions of the image size; they are scaled to the
+ * image's natural size only when drawn.
+ */
+
+import { FloorPlan, FloorPlanPoint, RoomPlacement } from '@/modules/space-management/spaceTypes';
+import { Room, RoomBooking, RoomStatus } from '../types';
+import { getRoomCurrentStatus } from './availability';
+
+/**
+ * Status a room is colored by on the map; booked-soon rooms are still free
+ */
+export const getMapStatus = (room: Room, bookings: RoomBooking[]): RoomStatus => {
+  const status = getRoomCurrentStatus(room, bookings);
+  return status === 'upcoming' ? 'available' : status;
+};
+
+/**
+ * SVG points attribute for a placement drawn at the plan's natural size
+ */
+export const toSvgPoints = (points: FloorPlanPoint[], plan: FloorPlan): string =>
+  points.map((point) => `${point.x * plan.width},${point.y * plan.height}`).join(' ');
+
+/**
+ * Where a placement's label goes: the pin itself or the polygon's area centroid
+ * Outlines with no area (fewer than 3 points, or collinear) use the mean of their points
+ */
+export const getPlacementAnchor = (placement: RoomPlacement): FloorPlanPoint => {
+  const { points } = placement;
+  let doubleArea = 0;
+  let x = 0;
+  let y = 0;
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length];
+    const cross = point.x * next.y - next.x * point.y;
+    doubleArea += cross;
+    x += (point.x + next.x) * cross;
+    y += (point.y + next.y) * cross;
+  });
+
+  if (Math.abs(doubleArea) < Number.EPSILON) {
+    const count = points.length || 1;
+    return {
+      x: points.reduce((sum, point) => sum + point.x, 0) / count,
+      y: points.reduce((sum, point) => sum + point.y, 0) / count,
+    };
+  }
+  return { x: x / (3 * doubleArea), y: y / (3 * doubleArea) };
+};
+
+/**
+ * Whether a placement has enough points to be drawn
+ */
+export const isPlacementComplete = (placement: RoomPlacement): boolean =>
+  placement.shape === 'pin' ? placement.points.length === 1 : placement.points.length >= 3;
+
+/**
+ * Distinct floors in natural order ("2" before "10")
+ */
+export const sortFloors = (floors: string[]): string[] =>
+  Array.from(new Set(floors.filter(Boolean))).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
@@ -0,0 +1,346 @@
+/**
+ * Booking Recurrence Utilities
+ * Expand a recurrence rule into occurrence dates, check every occurrence for
+ * conflicts and keep the bookings of a series linked when it is edited
+ *
+ * Rules follow iCalendar RRULE semantics: a monthly date that a month lacks
+ * (the 31st, a fifth Tuesday) is skipped in that month rather than moved.
+ *
+ * Every occurrence is its own booking carrying the seriesId of the first one;
+ * the first booking also holds the rule and recurrenceInstances. Cancelled
+ * occurrences stay in the series as exceptions.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  getDate,
+  getDay,
+  getDaysInMonth,
+  isSameMonth,
+  parseISO,
+  setDate,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+} from 'date-fns';
+import { RecurrenceEditScope, RecurrenceRule, Room, RoomBooking } from '../types';
+import { RECURRENCE_LABELS } from '../constants';
+import { isRoomAvailable } from './availability';
+import { getEffectiveEnd } from './checkIn';
+
+// Upper bound on occurrences booked for one series
+export const MAX_RECURRENCE_OCCURRENCES = 100;
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+const WEEKDAY_SHORT_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FREQUENCY_UNITS: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'days',
+  weekly: 'weeks',
+  monthly: 'months',
+};
+
+/**
+ * Result of checking one occurrence against the room's schedule
+ */
+export interface OccurrenceCheck {
+  date: string; // yyyy-MM-dd
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  conflict: string | null; // Why the room cannot be booked, null when it is free
+  alternatives: string[]; // Free start times that day for the same duration
+}
+
+/**
+ * Chosen start time (HH:mm) per clashing occurrence date; null skips the date
+ */
+export type OccurrenceResolutions = Record<string, string | null>;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+/**
+ * Add minutes to a time in HH:mm format
+ */
+export const addMinutesToTime = (time: string, minutes: number): string => fromMinutes(toMinutes(time) + minutes);
+
+/**
+ * Minutes from one HH:mm time to another
+ */
+export const getDurationMinutes = (startTime: string, endTime: string): number => toMinutes(endTime) - toMinutes(startTime);
+
+/**
+ * ISO date-time for a yyyy-MM-dd date and an HH:mm time in local time
+ */
+export const toBookingDateTime = (date: string, time: string): string => new Date(`${date}T${time}`).toISOString();
+
+/**
+ * Which occurrence of its weekday in the month a date is (1 = first)
+ */
+const getWeekdayOrdinal = (date: Date): number => Math.ceil(getDate(date) / 7);
+
+/**
+ * e.g. "second Tuesday" for 14 Oct 2025
+ */
+export const describeWeekdayOfMonth = (date: Date): string =>
+  `${ORDINALS[getWeekdayOrdinal(date) - 1]} ${format(date, 'EEEE')}`;
+
+/**
+ * Candidate dates of the period `step` days / weeks / months after the first date
+ */
+const getPeriodDates = (rule: RecurrenceRule, first: Date, step: number): Date[] => {
+  switch (rule.frequency) {
+    case 'daily':
+      return [addDays(first, step)];
+    case 'weekly': {
+      const weekStart = addWeeks(startOfWeek(first), step);
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? [...rule.weekdays] : [getDay(first)];
+      return weekdays.sort((a, b) => a - b).map((weekday) => addDays(weekStart, weekday));
+    }
+    case 'monthly': {
+      const month = addMonths(startOfMonth(first), step);
+      if (rule.monthlyMode === 'weekday-of-month') {
+        const offset = (getDay(first) - getDay(month) + 7) % 7;
+        const date = addDays(month, offset + (getWeekdayOrdinal(first) - 1) * 7);
+        return isSameMonth(date, month) ? [date] : [];
+      }
+      return getDate(first) <= getDaysInMonth(month) ? [setDate(month, getDate(first))] : [];
+    }
+  }
+};
+
+/**
+ * Dates of all occurrences of a rule starting on the first date, in order
+ * The first date is the first occurrence; weekly rules may skip it when its
+ * weekday is not selected. Capped at MAX_RECURRENCE_OCCURRENCES.
+ */
+export function expandRecurrence(rule: RecurrenceRule, firstDate: Date): Date[] {
+  const first = startOfDay(firstDate);
+  const until = rule.until ? parseISO(rule.until) : null;
+  const limit = Math.min(rule.count || MAX_RECURRENCE_OCCURRENCES, MAX_RECURRENCE_OCCURRENCES);
+  const interval = Math.max(1, rule.interval);
+  const dates: Date[] = [];
+
+  for (let step = 0; dates.length < limit; step += interval) {
+    for (const date of getPeriodDates(rule, first, step)) {
+      if (date < first) continue;
+      if ((until && date > until) || dates.length >= limit) return dates;
+      dates.push(date);
+    }
+    // A rule without an end stops at the cap; guard against a rule that never matches
+    if (step > MAX_RECURRENCE_OCCURRENCES * 31) break;
+  }
+
+  return dates;
+}
+
+/**
+ * Human-readable rule, e.g. "Every 2 weeks on Mon, Wed until Dec 31, 2025"
+ */
+export function describeRecurrence(rule: RecurrenceRule, firstDate: Date): string {
+  const parts = [
+    rule.interval > 1 ? `Every ${rule.interval} ${FREQUENCY_UNITS[rule.frequency]}` : RECURRENCE_LABELS[rule.frequency],
+  ];
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.weekdays && rule.weekdays.length > 0 ? [...rule.weekdays] : [getDay(firstDate)];
+    parts.push(`on ${weekdays.sort((a, b) => a - b).map((day) => WEEKDAY_SHORT_NAMES[day]).join(', ')}`);
+  }
+  if (rule.frequency === 'monthly') {
+    parts.push(
+      rule.monthlyMode === 'weekday-of-month'
+        ? `on the ${describeWeekdayOfMonth(firstDate)}`
+        : `on day ${getDate(firstDate)}`
+    );
+  }
+
+  if (rule.until) {
+    parts.push(`until ${format(parseISO(rule.until), 'MMM d, yyyy')}`);
+  } else if (rule.count) {
+    parts.push(`for ${rule.count} occurrences`);
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Why the room cannot be booked on a date and time, or null when it is free
+ */
+export function getOccurrenceConflict(
+  room: Room,
+  date: Date,
+  startTime: string,
+  endTime: string,
+  bookings: RoomBooking[]
+): string | null {
+  if (isRoomAvailable(room, date, startTime, endTime, bookings)) return null;
+
+  if (!room.availableDays.includes(getDay(date))) {
+    return `${room.name} is not open on ${format(date, 'EEEE')}s`;
+  }
+  if (startTime < room.availableFrom || endTime > room.availableTo) {
+    return `Outside opening hours (${room.availableFrom} - ${room.availableTo})`;
+  }
+
+  const dateStr = format(date, 'yyyy-MM-dd');
+  const clash = bookings.find(
+    (b) =>
+      b.roomId === room.id &&
+      b.date === dateStr &&
+      (b.status === 'confirmed' || b.status === 'pending') &&
+      startTime < format(getEffectiveEnd(b), 'HH:mm') &&
+      endTime > format(new Date(b.startDateTime), 'HH:mm')
+  );
+  return clash ? `Booked for "${clash.title}"` : 'Already booked';
+}
+
+/**
+ * Start times on a date at which the room is free for the given duration
+ */
+export function findAlternativeStartTimes(
+  room: Room,
+  date: Date,
+  durationMinutes: number,
+  bookings: RoomBooking[],
+  stepMinutes: number = 30
+): string[] {
+  if (!room.availableDays.includes(getDay(date))) return [];
+
+  const startTimes: string[] = [];
+  const latestStart = toMinutes(room.availableTo) - durationMinutes;
+  for (let minutes = toMinutes(room.availableFrom); minutes <= latestStart; minutes += stepMinutes) {
+    const startTime = fromMinutes(minutes);
+    if (isRoomAvailable(room, date, startTime, addMinutesToTime(startTime, durationMinutes), bookings)) {
+      startTimes.push(startTime);
+    }
+  }
+  return startTimes;
+}
+
+/**
+ * Check every occurrence date at the same time of day
+ * Clashing occurrences come with free alternatives on their day to rebook
+ */
+export function checkOccurrences(
+  room: Room,
+  dates: Date[],
+  startTime: string,
+  endTime: string,
+  bookings: RoomBooking[]
+): OccurrenceCheck[] {
+  const duration = getDurationMinutes(startTime, endTime);
+  return dates.map((date) => {
+    const conflict = getOccurrenceConflict(room, date, startTime, endTime, bookings);
+    return {
+      date: format(date, 'yyyy-MM-dd'),
+      startTime,
+      endTime,
+      conflict,
+      alternatives: conflict ? findAlternativeStartTimes(room, date, duration, bookings) : [],
+    };
+  });
+}
+
+/**
+ * Start time to book an occurrence at: its own when free, otherwise the
+ * chosen alternative; null when the occurrence is skipped
+ */
+export const resolveOccurrenceStart = (check: OccurrenceCheck, resolutions: OccurrenceResolutions): string | null =>
+  check.conflict ? resolutions[check.date] ?? null : check.startTime;
+
+/**
+ * Whether an occurrence can still be edited or cancelled
+ */
+export const isChangeableOccurrence = (booking: RoomBooking, now: Date = new Date()): boolean =>
+  (booking.status === 'confirmed' || booking.status === 'pending') && new Date(booking.startDateTime) > now;
+
+/**
+ * Occurrences of a series an edit or cancellation in the given scope applies to
+ */
+export function selectOccurrences(
+  booking: RoomBooking,
+  series: RoomBooking[],
+  scope: RecurrenceEditScope
+): RoomBooking[] {
+  if (scope === 'this' || !booking.seriesId) return [booking];
+  if (scope === 'series') return series;
+  return series.filter((occurrence) => occurrence.startDateTime >= booking.startDateTime);
+}
+
+/**
+ * Rule ending on the given date; count gives way to until
+ */
+const endRuleOn = (rule: RecurrenceRule, until: string): RecurrenceRule => ({
+  frequency: rule.frequency,
+  interval: rule.interval,
+  weekdays: rule.weekdays,
+  monthlyMode: rule.monthlyMode,
+  until,
+});
+
+const getSeriesFirst = (series: RoomBooking[]): RoomBooking | undefined =>
+  series.find((occurrence) => occurrence.id === occurrence.seriesId);
+
+/**
+ * Series updates when this and the following occurrences are cancelled:
+ * the rule of the series ends the day before
+ */
+export function buildSeriesTruncation(
+  booking: RoomBooking,
+  series: RoomBooking[]
+): Record<string, Partial<RoomBooking>> {
+  const first = getSeriesFirst(series);
+  if (!first || first.id === booking.id) return {};
+
+  const endDate = format(subDays(parseISO(booking.date), 1), 'yyyy-MM-dd');
+  return {
+    [first.id]: {
+      recurrenceEndDate: endDate,
+      ...(first.recurrenceRule && { recurrenceRule: endRuleOn(first.recurrenceRule, endDate) }),
+    },
+  };
+}
+
+/**
+ * Series updates when this and the following occurrences are edited: they
+ * become a new series starting at this occurrence, and the original series
+ * ends the day before
+ */
+export function buildSeriesSplit(
+  booking: RoomBooking,
+  series: RoomBooking[]
+): Record<string, Partial<RoomBooking>> {
+  const first = getSeriesFirst(series);
+  if (!first || first.id === booking.id) return {};
+
+  const sorted = [...series].sort((a, b) => a.startDateTime.localeCompare(b.startDateTime));
+  const preceding = sorted.filter((occurrence) => occurrence.startDateTime < booking.startDateTime);
+  const following = sorted.filter((occurrence) => occurrence.startDateTime >= booking.startDateTime);
+  const endDate = format(subDays(parseISO(booking.date), 1), 'yyyy-MM-dd');
+  const seriesEndDate = first.recurrenceEndDate || following[following.length - 1].date;
+
+  const updates: Record<string, Partial<RoomBooking>> = {};
+  following.forEach((occurrence) => {
+    updates[occurrence.id] = { seriesId: booking.id };
+  });
+  updates[booking.id] = {
+    seriesId: booking.id,
+    recurrenceInstances: following.map((occurrence) => occurrence.id),
+    recurrenceEndDate: seriesEndDate,
+    ...(first.recurrenceRule && { recurrenceRule: endRuleOn(first.recurrenceRule, seriesEndDate) }),
+  };
+  updates[first.id] = {
+    recurrenceInstances: preceding.map((occurrence) => occurrence.id),
+    recurrenceEndDate: endDate,
+    ...(first.recurrenceRule && { recurrenceRule: endRuleOn(first.recurrenceRule, endDate) }),
+  };
+  return updates;
+}
@@ -0,0 +1,120 @@
+/**
+ * Free Slot Finder
+ * Search free slots of a given length across every room a company can book,
+ * filtered by capacity and amenities and clear of attendees' approved leave
+ *
+ * Slots are ranked by capacity fit (fewest spare seats) and then by start,
+ * so a four-person meeting is offered the huddle room before the boardroom.
+ */
+
+import { eachDayOfInterval, endOfDay, format, startOfDay } from 'date-fns';
+import { AbsenceApplication } from '@/modules/leave-management-system/types/leave.types';
+import { Room, RoomAmenities, RoomBooking } from '../types';
+import { addMinutesToTime, findAlternativeStartTimes, toBookingDateTime } from './recurrence';
+
+// Start times are offered on the same grid as the booking page's slots
+export const SLOT_FINDER_STEP_MINUTES = 30;
+
+// Upper bound on ranked slots returned by one search
+export const MAX_FREE_SLOTS = 50;
+
+export interface SlotSearchCriteria {
+  companyId: string;
+  fromDate: Date;
+  toDate: Date;
+  durationMinutes: number;
+  attendees: number;
+  amenities: (keyof RoomAmenities)[];
+  attendeeEmails: string[]; // Slots overlapping their approved leave are left out
+}
+
+export interface FreeSlot {
+  room: Room;
+  date: string; // yyyy-MM-dd
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  spareSeats: number;
+}
+
+/**
+ * Whether a company owns the room or has it shared with them
+ */
+export const canCompanyBookRoom = (room: Room, companyId: string): boolean =>
+  room.ownerCompanyId === companyId || (room.sharedWithCompanies || []).includes(companyId);
+
+/**
+ * Rooms in service that the company can book, seat everyone and have every amenity
+ */
+export const getMatchingRooms = (rooms: Room[], criteria: SlotSearchCriteria): Room[] =>
+  rooms.filter(
+    (room) =>
+      room.status !== 'maintenance' &&
+      room.status !== 'inactive' &&
+      canCompanyBookRoom(room, criteria.companyId) &&
+      room.capacity >= criteria.attendees &&
+      criteria.amenities.every((amenity) => room.amenities[amenity])
+  );
+
+/**
+ * Time an absence takes someone away; partial days only cover their hours
+ */
+const getLeaveInterval = (absence: AbsenceApplication): { start: Date; end: Date } => {
+  if (absence.absenceCategory !== 'fullDay' && absence.fromTime && absence.toTime) {
+    return { start: new Date(absence.fromTime), end: new Date(absence.toTime) };
+  }
+  return {
+    start: startOfDay(new Date(absence.fromDate)),
+    end: endOfDay(new Date(absence.absenceCategory === 'fullDay' ? absence.toDate : absence.fromDate)),
+  };
+};
+
+/**
+ * Ranked free slots for the criteria
+ * Absences may include other people and other statuses; only the approved
+ * leave of the listed attendees blocks a slot
+ */
+export function findFreeSlots(
+  rooms: Room[],
+  bookings: RoomBooking[],
+  absences: AbsenceApplication[],
+  criteria: SlotSearchCriteria,
+  now: Date = new Date()
+): FreeSlot[] {
+  const attendeeEmails = criteria.attendeeEmails.map((email) => email.toLowerCase());
+  const leave = absences
+    .filter(
+      (absence) =>
+        absence.status?.toLowerCase() === 'approved' && attendeeEmails.includes(absence.email?.toLowerCase())
+    )
+    .map(getLeaveInterval);
+
+  const days = eachDayOfInterval({ start: startOfDay(criteria.fromDate), end: startOfDay(criteria.toDate) });
+  const slots: FreeSlot[] = [];
+
+  getMatchingRooms(rooms, criteria).forEach((room) => {
+    days.forEach((day) => {
+      const date = format(day, 'yyyy-MM-dd');
+      findAlternativeStartTimes(room, day, criteria.durationMinutes, bookings, SLOT_FINDER_STEP_MINUTES).forEach(
+        (startTime) => {
+          const endTime = addMinutesToTime(startTime, criteria.durationMinutes);
+          const start = new Date(toBookingDateTime(date, startTime));
+          const end = new Date(toBookingDateTime(date, endTime));
+          if (start < now) return;
+          if (leave.some((interval) => interval.start < end && interval.end > start)) return;
+
+          slots.push({ room, date, startTime, endTime, spareSeats: room.capacity - criteria.attendees });
+        }
+      );
+    });
+  });
+
+  return slots
+    .sort(
+      (a, b) =>
+        a.spareSeats - b.spareSeats ||
+        a.date.localeCompare(b.date) ||
+        a.startTime.localeCompare(b.startTime) ||
+        a.room.name.localeCompare(b.room.name)
+    )
+    .slice(0, MAX_FREE_SLOTS);
+}
@@ -13,6 +13,9 @@ import {
   ShiftSettings,
   ApiResponse,
   AttendanceRecordsRequest,
+  MusterAttendanceRecord,
+  MusterAttendanceRequest,
+  TeamAttendanceRequest,
   ExtraHoursSearchRequest,
   ExtraHoursUpdateRequest,
   ExtraHoursCreateRequest,
@@ -186,6 +189,33 @@ export const MOCK_USERS = {
   },
 };
 
+/**
+ * Mock Employees for the Muster Roll
+ */
+const MOCK_MUSTER_EMPLOYEES = [
+  {
+    employeeId: MOCK_USERS.employee.employeeId,
+    officialEmail: MOCK_USERS.employee.email,
+    firstName: MOCK_USERS.employee.firstName,
+    lastName: MOCK_USERS.employee.lastName,
+    department: "Engineering",
+  },
+  {
+    employeeId: MOCK_USERS.reportingManager.employeeId,
+    officialEmail: MOCK_USERS.reportingManager.email,
+    firstName: MOCK_USERS.reportingManager.firstName,
+    lastName: MOCK_USERS.reportingManager.lastName,
+    department: "Engineering",
+  },
+  {
+    employeeId: "590",
+    officialEmail: "srikanth@mailinator.com",
+    firstName: "Srikanth",
+    lastName: "K",
+    department: "Finance",
+  },
+];
+
 /**
  * Mock Extra Hours Requests - for employee
  */
@@ -323,6 +353,70 @@ export async function getPersonalAttendanceData(
   };
 }
 
+/**
+ * Get attendance of every active employee of a company (or department) for date range
+ * POST /api/emp360-backend/v1/attendance/muster-data
+ */
+export async function getMusterAttendanceData(
+  request: MusterAttendanceRequest,
+): Promise<ApiResponse<MusterAttendanceRecord[]>> {
+  // Simulate API delay
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  const startDate = new Date(request.startDate);
+  const endDate = new Date(request.endDate);
+
+  const records = MOCK_MUSTER_EMPLOYEES.filter(
+    (employee) => !request.department || employee.department === request.department,
+  ).map((employee) => {
+    const attendanceDetails = generateAttendanceDetails(startDate, endDate);
+    return {
+      ...employee,
+      shift: "regular",
+      attendanceDetails,
+      attendanceSummary: generateAttendanceSummary(attendanceDetails),
+    };
+  });
+
+  return {
+    data: records,
+    success: true,
+    message: "Fetched Successfully",
+  };
+}
+
+/**
+ * Get attendance of a manager's direct reports for date range
+ * POST /api/emp360-backend/v1/attendance/team-data
+ */
+export async function getTeamAttendanceData(
+  request: TeamAttendanceRequest,
+): Promise<ApiResponse<MusterAttendanceRecord[]>> {
+  // Simulate API delay
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  const startDate = new Date(request.startDate);
+  const endDate = new Date(request.endDate);
+
+  const records = MOCK_MUSTER_EMPLOYEES.filter(
+    (employee) => employee.officialEmail !== request.reportingTo,
+  ).map((employee) => {
+    const attendanceDetails = generateAttendanceDetails(startDate, endDate);
+    return {
+      ...employee,
+      shift: "regular",
+      attendanceDetails,
+      attendanceSummary: generateAttendanceSummary(attendanceDetails),
+    };
+  });
+
+  return {
+    data: records,
+    success: true,
+    message: "Fetched Successfully",
+  };
+}
+
 /**
  * Get extra hours requests (paginated)
  * POST /api/emp360-backend/v1/extra-hours/search?page={page}&size={pageSize}
@@ -454,6 +548,25 @@ export async function getShiftSettings(): Promise<ApiResponse<ShiftSettings>> {
   };
 }
 
+/**
+ * Update shift settings
+ * PUT /api/emp360-backend/v1/settings/attendance-settings/shift/{shiftId}
+ */
+export async function updateShiftSettings(
+  settings: Partial<ShiftSettings>,
+): Promise<ApiResponse<ShiftSettings>> {
+  // Simulate API delay
+  await new Promise((resolve) => setTimeout(resolve, 300));
+
+  Object.assign(MOCK_SHIFT_SETTINGS, settings);
+
+  return {
+    data: { ...MOCK_SHIFT_SETTINGS },
+    success: true,
+    message: "Shift settings updated successfully",
+  };
+}
+
 /**
  * Delete/Cancel extra hours request
  * DELETE /api/emp360-backend/v1/extra-hours/{id}
@@ -0,0 +1,165 @@
+/**
+ * Booking Service
+ * Handles all API operations for meeting room bookings
+ * 
+ * Endpoints:
+ * - POST /emp-user-management/v1/room-bookings - Create booking
+ * - GET /emp-user-management/v1/room-bookings/{id} - Get booking by ID
+ * - PATCH /emp-user-management/v1/room-bookings/{id} - Update booking (status, cancellation)
+ * - POST /emp-user-management/v1/room-bookings/search - Search bookings
+ * - POST /emp-user-management/v1/room-bookings/release-no-shows - Release unclaimed bookings
+ * 
+ * Creating or moving a booking that overlaps another booking of the room
+ * returns 409, which apiRequest maps to an ApiResponse with code CONFLICT.
+ * 
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { RoomBooking, RoomBookingCarrier } from "@/modules/visitor-room/types";
+import { apiRequest } from "@/services/utils";
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+
+const BASE_ENDPOINT = "/emp-user-management/v1/room-bookings";
+
+/**
+ * Update payload - Map of field names to values
+ */
+export type BookingUpdatePayload = Record<string, any>;
+
+/**
+ * Create Booking
+ * POST /emp-user-management/v1/room-bookings
+ * 
+ * @param carrier - RoomBookingCarrier with booking information
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<RoomBooking>>
+ */
+export const apiCreateBooking = async (
+  carrier: RoomBookingCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<RoomBooking>> => {
+  return apiRequest<RoomBooking>({
+    method: "POST",
+    endpoint: BASE_ENDPOINT,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Get Booking by ID
+ * GET /emp-user-management/v1/room-bookings/{id}
+ * 
+ * @param id - Booking ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<RoomBooking>>
+ */
+export const apiGetBookingById = async (
+  id: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<RoomBooking>> => {
+  return apiRequest<RoomBooking>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/${id}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Update Booking
+ * PATCH /emp-user-management/v1/room-bookings/{id}
+ * 
+ * Partial update - only provided fields are updated
+ * 
+ * @param id - Booking ID
+ * @param payload - Map of fields to update
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<RoomBooking>>
+ */
+export const apiUpdateBooking = async (
+  id: string,
+  payload: BookingUpdatePayload,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<RoomBooking>> => {
+  return apiRequest<RoomBooking>({
+    method: "PATCH",
+    endpoint: `${BASE_ENDPOINT}/${id}`,
+    tenant,
+    accessToken,
+    body: payload,
+  });
+};
+
+/**
+ * Search Bookings with pagination
+ * POST /emp-user-management/v1/room-bookings/search
+ * 
+ * @param searchRequest - Search criteria and filters
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<RoomBooking>>>
+ */
+export const apiSearchBookings = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<RoomBooking>>> => {
+  return apiRequest<Pagination<RoomBooking>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Release No-Show Bookings
+ * POST /emp-user-management/v1/room-bookings/release-no-shows
+ * 
+ * The server releases only the given bookings whose check-in window has
+ * closed by its own clock, marking them no-show; the others are left as they are
+ * 
+ * @param bookingIds - IDs of bookings believed to be unclaimed
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<RoomBooking[]>> - The bookings actually released
+ */
+export const apiReleaseNoShows = async (
+  bookingIds: string[],
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<RoomBooking[]>> => {
+  return apiRequest<RoomBooking[]>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/release-no-shows`,
+    tenant,
+    accessToken,
+    body: { bookingIds },
+  });
+};
+
+/**
+ * Export all service functions as default object for easier importing
+ */
+export const bookingService = {
+  apiCreateBooking,
+  apiGetBookingById,
+  apiUpdateBooking,
+  apiSearchBookings,
+  apiReleaseNoShows,
+};
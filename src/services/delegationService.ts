@@ -0,0 +1,197 @@
+/**
+ * Delegation Service
+ * Handles all API operations for approval delegation
+ *
+ * Endpoints:
+ * - POST /emp-user-management/v1/delegations - Create delegation
+ * - POST /emp-user-management/v1/delegations/search - Search delegations with pagination
+ * - GET /emp-user-management/v1/delegations/acting - Get delegations the current user acts on
+ * - PUT /emp-user-management/v1/delegations/{id}/revoke - Revoke delegation
+ * - POST /emp-user-management/v1/delegations/audit - Record an action taken as a delegate
+ * - POST /emp-user-management/v1/delegations/audit/search - Search the delegated action audit log
+ *
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  Delegation,
+  DelegationAuditEntry,
+  DelegationCarrier,
+  DelegatedActionCarrier,
+} from "@/modules/delegation/types";
+import { apiRequest } from "./utils";
+
+const BASE_ENDPOINT = "/emp-user-management/v1/delegations";
+
+/**
+ * Create Delegation
+ * POST /emp-user-management/v1/delegations
+ *
+ * Managers can only delegate their own approvals; HR can delegate on behalf of
+ * any manager. The server rejects overlapping active delegations of the same
+ * delegator and domain.
+ *
+ * @param carrier - DelegationCarrier with delegator, delegate, domains and date range
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Delegation>>
+ */
+export const apiCreateDelegation = async (
+  carrier: DelegationCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Delegation>> => {
+  return apiRequest<Delegation>({
+    method: "POST",
+    endpoint: BASE_ENDPOINT,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Delegations with Pagination
+ * POST /emp-user-management/v1/delegations/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. delegatorEmail, status)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<Delegation>>>
+ *
+ * @example
+ * const response = await apiSearchDelegations({
+ *   filters: { and: { delegatorEmail: 'manager@company.com' } },
+ *   sort: { fromDate: -1 }
+ * }, 0, 20, 'tenant-001', accessToken);
+ */
+export const apiSearchDelegations = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<Delegation>>> => {
+  return apiRequest<Pagination<Delegation>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Get Acting Delegations
+ * GET /emp-user-management/v1/delegations/acting
+ *
+ * Delegations (not revoked, not expired) where the current user is the delegate.
+ * Email is automatically extracted from JWT token.
+ *
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Delegation[]>>
+ */
+export const apiGetActingDelegations = async (
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Delegation[]>> => {
+  return apiRequest<Delegation[]>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/acting`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Revoke Delegation
+ * PUT /emp-user-management/v1/delegations/{id}/revoke
+ *
+ * Ends the delegation immediately. Actions already taken stay in the audit log.
+ *
+ * @param id - Delegation ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Delegation>>
+ */
+export const apiRevokeDelegation = async (
+  id: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Delegation>> => {
+  return apiRequest<Delegation>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/${id}/revoke`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Record Delegated Action
+ * POST /emp-user-management/v1/delegations/audit
+ *
+ * Audits an approval or rejection the current user took as a delegate.
+ * The server rejects the entry if the delegation is not active or does not
+ * cover the domain.
+ *
+ * @param carrier - DelegatedActionCarrier describing the action
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<DelegationAuditEntry>>
+ *
+ * @example
+ * const response = await apiRecordDelegatedAction({
+ *   delegationId: 'DLG-001',
+ *   domain: 'leave',
+ *   recordType: 'absence',
+ *   recordId: 'APP-123',
+ *   action: 'approve'
+ * }, 'tenant-001', accessToken);
+ */
+export const apiRecordDelegatedAction = async (
+  carrier: DelegatedActionCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<DelegationAuditEntry>> => {
+  return apiRequest<DelegationAuditEntry>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/audit`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Delegation Audit Log with Pagination
+ * POST /emp-user-management/v1/delegations/audit/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. delegationId, domain)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<DelegationAuditEntry>>>
+ */
+export const apiSearchDelegationAudit = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<DelegationAuditEntry>>> => {
+  return apiRequest<Pagination<DelegationAuditEntry>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/audit/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
@@ -10,6 +10,12 @@
  * - DELETE /emp-user-management/v1/holidays/{id} - Delete holiday by ID
  * - DELETE /emp-user-management/v1/holidays/bulk-delete - Bulk delete holidays
  * - PATCH /emp-user-management/v1/holidays/bulk-update - Bulk update holidays
+ * - POST /emp-user-management/v1/holidays/bulk-create - Bulk create holidays (iCalendar import)
+ * - GET /emp-user-management/v1/holidays/optional-quota - Get optional holiday quota
+ * - PUT /emp-user-management/v1/holidays/optional-quota - Create or replace optional holiday quota
+ * - GET /emp-user-management/v1/holidays/optional-selections - Get own optional holiday selections
+ * - POST /emp-user-management/v1/holidays/optional-selections - Pick an optional holiday
+ * - DELETE /emp-user-management/v1/holidays/optional-selections/{id} - Withdraw an optional holiday
  * 
  * All responses follow ApiResponse<T> wrapper format
  */
@@ -20,6 +26,10 @@ import UniversalSearchRequest from "@/types/search";
 import {
   Holiday,
   HolidayCarrier,
+  OptionalHolidayQuota,
+  OptionalHolidayQuotaCarrier,
+  OptionalHolidaySelection,
+  OptionalHolidaySelectionCarrier,
 } from "@/modules/leave-management-system/holiday-management/types";
 import { apiRequest } from "./utils";
 
@@ -201,6 +211,151 @@ export const apiBulkUpdateHolidays = async (
   });
 };
 
+/**
+ * Bulk Create Holidays
+ * POST /emp-user-management/v1/holidays/bulk-create
+ * 
+ * Used by the iCalendar (.ics) import
+ * 
+ * @param carriers - Array of HolidayCarrier to create
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Holiday[]>>
+ */
+export const apiBulkCreateHolidays = async (
+  carriers: HolidayCarrier[],
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Holiday[]>> => {
+  return apiRequest<Holiday[]>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/bulk-create`,
+    tenant,
+    accessToken,
+    body: carriers,
+  });
+};
+
+/**
+ * Get Optional Holiday Quota
+ * GET /emp-user-management/v1/holidays/optional-quota?companyId={companyId}&year={year}
+ * 
+ * @param companyId - Company ID
+ * @param year - Calendar year
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OptionalHolidayQuota>>
+ */
+export const apiGetOptionalHolidayQuota = async (
+  companyId: string,
+  year: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OptionalHolidayQuota>> => {
+  return apiRequest<OptionalHolidayQuota>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/optional-quota?companyId=${encodeURIComponent(companyId)}&year=${year}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Save Optional Holiday Quota
+ * PUT /emp-user-management/v1/holidays/optional-quota
+ * 
+ * Creates the quota for the company/year or replaces the existing one
+ * 
+ * @param carrier - OptionalHolidayQuotaCarrier
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OptionalHolidayQuota>>
+ */
+export const apiSaveOptionalHolidayQuota = async (
+  carrier: OptionalHolidayQuotaCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OptionalHolidayQuota>> => {
+  return apiRequest<OptionalHolidayQuota>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/optional-quota`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Get My Optional Holiday Selections
+ * GET /emp-user-management/v1/holidays/optional-selections?year={year}
+ * 
+ * Employee is resolved from the access token
+ * 
+ * @param year - Calendar year
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OptionalHolidaySelection[]>>
+ */
+export const apiGetMyOptionalHolidaySelections = async (
+  year: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OptionalHolidaySelection[]>> => {
+  return apiRequest<OptionalHolidaySelection[]>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/optional-selections?year=${year}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Select Optional Holiday
+ * POST /emp-user-management/v1/holidays/optional-selections
+ * 
+ * Backend rejects the selection when the quota for the year is exhausted
+ * 
+ * @param carrier - OptionalHolidaySelectionCarrier
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OptionalHolidaySelection>>
+ */
+export const apiSelectOptionalHoliday = async (
+  carrier: OptionalHolidaySelectionCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OptionalHolidaySelection>> => {
+  return apiRequest<OptionalHolidaySelection>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/optional-selections`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Withdraw Optional Holiday Selection
+ * DELETE /emp-user-management/v1/holidays/optional-selections/{id}
+ * 
+ * @param id - Selection ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<void>>
+ */
+export const apiWithdrawOptionalHoliday = async (
+  id: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<void>> => {
+  return apiRequest<void>({
+    method: "DELETE",
+    endpoint: `${BASE_ENDPOINT}/optional-selections/${id}`,
+    tenant,
+    accessToken,
+  });
+};
+
 /**
  * Export all service functions as default object for easier importing
  */
@@ -212,4 +367,10 @@ export const holidayService = {
   apiDeleteHolidayById,
   apiBulkDeleteHolidays,
   apiBulkUpdateHolidays,
+  apiBulkCreateHolidays,
+  apiGetOptionalHolidayQuota,
+  apiSaveOptionalHolidayQuota,
+  apiGetMyOptionalHolidaySelections,
+  apiSelectOptionalHoliday,
+  apiWithdrawOptionalHoliday,
 };
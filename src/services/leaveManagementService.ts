@@ -4,7 +4,11 @@
  * 
  * Endpoints:
  * - POST /emp-user-management/v1/leave-management/team/absences - Get team absence applications
+ * - POST /emp-user-management/v1/leave-management/absences/search - Search absence applications (HR)
  * - POST /emp-user-management/v1/leave-management/team/credits - Get team credit requests
+ * - PUT /emp-user-management/v1/leave-management/absences/{id}/sla?action=remind|escalate - Record an approval SLA action
+ * - POST /emp-user-management/v1/leave-management/team/encashments - Get team encashment requests
+ * - POST /emp-user-management/v1/leave-management/encashments/search - Search encashments (HR)
  * 
  * All responses follow ApiResponse<T> wrapper format
  */
@@ -13,7 +17,7 @@ import { apiRequest } from "@/services/utils";
 import { ApiResponse } from "@/types/responses";
 import Pagination from "@/types/pagination";
 import UniversalSearchRequest from "@/types/search";
-import { AbsenceApplication, Credit } from "@/modules/leave-management-system/types/leave.types";
+import { AbsenceApplication, Credit, Encashment } from "@/modules/leave-management-system/types/leave.types";
 
 const BASE_ENDPOINT = "/emp-user-management/v1/leave-management";
 
@@ -25,14 +29,17 @@ const BASE_ENDPOINT = "/emp-user-management/v1/leave-management";
  * Email is automatically extracted from JWT token and used to filter team members.
  * Only shows applications from direct reports.
  * Supports filtering by status, absence type, and other criteria.
+ * With actingFor, returns the direct reports of that manager instead; the server
+ * checks that they delegated their leave approvals to the caller.
  * 
- * Requires LEAD role in employee-360 resource.
+ * Requires LEAD role in employee-360 resource, or an active leave delegation.
  * 
  * @param searchRequest - UniversalSearchRequest with filters and search text
  * @param page - Page number (0-indexed)
  * @param pageSize - Number of results per page
  * @param tenant - Tenant ID
  * @param accessToken - Access token with JWT (email extracted from token)
+ * @param actingFor - Optional email of the delegating manager
  * @returns Promise<ApiResponse<Pagination<AbsenceApplication>>>
  * 
  * @example
@@ -44,6 +51,49 @@ const BASE_ENDPOINT = "/emp-user-management/v1/leave-management";
  * }, 0, 20, 'tenant-001', accessToken);
  */
 export const apiGetTeamAbsenceApplications = async (
+  searchRequest: UniversalSearchRequest,
+  page: number = 0,
+  pageSize: number = 20,
+  tenant: string,
+  accessToken?: string,
+  actingFor?: string
+): Promise<ApiResponse<Pagination<AbsenceApplication>>> => {
+  const actingForParam = actingFor ? `&actingFor=${encodeURIComponent(actingFor)}` : "";
+  return apiRequest<Pagination<AbsenceApplication>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/team/absences?page=${page}&size=${pageSize}${actingForParam}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Search Absence Applications (HR)
+ * POST /emp-user-management/v1/leave-management/absences/search
+ * 
+ * HR retrieves absence applications of any employee, e.g. those overlapping a
+ * month for the attendance muster roll.
+ * 
+ * @param searchRequest - UniversalSearchRequest with filters and search text
+ * @param page - Page number (0-indexed)
+ * @param pageSize - Number of results per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT
+ * @returns Promise<ApiResponse<Pagination<AbsenceApplication>>>
+ * 
+ * @example
+ * const response = await apiSearchAbsenceApplications({
+ *   filters: {
+ *     and: {
+ *       email: ['younus.s@mailinator.com'],
+ *       fromDate: { op: 'lte', value: '2026-10-31T23:59:59Z' },
+ *       toDate: { op: 'gte', value: '2026-10-01T00:00:00Z' }
+ *     }
+ *   }
+ * }, 0, 500, 'tenant-001', accessToken);
+ */
+export const apiSearchAbsenceApplications = async (
   searchRequest: UniversalSearchRequest,
   page: number = 0,
   pageSize: number = 20,
@@ -52,7 +102,7 @@ export const apiGetTeamAbsenceApplications = async (
 ): Promise<ApiResponse<Pagination<AbsenceApplication>>> => {
   return apiRequest<Pagination<AbsenceApplication>>({
     method: "POST",
-    endpoint: `${BASE_ENDPOINT}/team/absences?page=${page}&size=${pageSize}`,
+    endpoint: `${BASE_ENDPOINT}/absences/search?page=${page}&size=${pageSize}`,
     tenant,
     accessToken,
     body: searchRequest,
@@ -107,14 +157,17 @@ export const apiGetTeamCreditRequests = async (
  * 
  * Manager/Lead approves or rejects an absence application from their direct report.
  * Email is automatically extracted from JWT token and validated against reportingTo field.
+ * With actingFor, reportingTo is validated against that manager and the caller
+ * must hold their active leave delegation.
  * If rejected, leave balance is automatically credited back.
  * 
- * Requires LEAD role in employee-360 resource.
+ * Requires LEAD role in employee-360 resource, or an active leave delegation.
  * 
  * @param applicationId - Absence application ID (e.g., "APP-123")
  * @param status - Status: "approve" or "reject"
  * @param tenant - Tenant ID
  * @param accessToken - Access token with JWT (email extracted from token)
+ * @param actingFor - Optional email of the delegating manager
  * @returns Promise<ApiResponse<AbsenceApplication>>
  * 
  * @example
@@ -129,11 +182,54 @@ export const apiApproveRejectAbsenceApplication = async (
   applicationId: string,
   status: "approve" | "reject",
   tenant: string,
+  accessToken?: string,
+  actingFor?: string
+): Promise<ApiResponse<AbsenceApplication>> => {
+  const actingForParam = actingFor ? `&actingFor=${encodeURIComponent(actingFor)}` : "";
+  return apiRequest<AbsenceApplication>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/absences/${applicationId}?status=${status}${actingForParam}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Record Approval SLA Action
+ * PUT /emp-user-management/v1/leave-management/absences/{id}/sla?action=remind|escalate
+ * 
+ * Records that a pending absence application passed its reminder or escalation
+ * deadline (LMSConfiguration.restrictions.approvalSla).
+ * "remind" stamps remindedAt; "escalate" stamps escalatedAt and sets escalatedTo
+ * to the approver's reporting manager, who can then approve the application.
+ * The server ignores actions that were already recorded.
+ * 
+ * Requires LEAD role in employee-360 resource.
+ * 
+ * @param applicationId - Absence application ID (e.g., "APP-123")
+ * @param action - Action: "remind" or "escalate"
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT
+ * @returns Promise<ApiResponse<AbsenceApplication>> - Updated application
+ * 
+ * @example
+ * const response = await apiRecordApprovalSlaAction(
+ *   "APP-123",
+ *   "escalate",
+ *   "tenant-001",
+ *   accessToken
+ * );
+ * // response.data.escalatedTo === "skip.level@company.com"
+ */
+export const apiRecordApprovalSlaAction = async (
+  applicationId: string,
+  action: "remind" | "escalate",
+  tenant: string,
   accessToken?: string
 ): Promise<ApiResponse<AbsenceApplication>> => {
   return apiRequest<AbsenceApplication>({
     method: "PUT",
-    endpoint: `${BASE_ENDPOINT}/absences/${applicationId}?status=${status}`,
+    endpoint: `${BASE_ENDPOINT}/absences/${applicationId}/sla?action=${action}`,
     tenant,
     accessToken,
   });
@@ -177,6 +273,152 @@ export const apiApproveRejectCreditRequest = async (
   });
 };
 
+/**
+ * Get Team Encashment Requests
+ * POST /emp-user-management/v1/leave-management/team/encashments
+ * 
+ * Manager/Lead retrieves encashment requests of their direct reports.
+ * Email is automatically extracted from JWT token and used to filter team members.
+ * 
+ * Requires LEAD role in employee-360 resource.
+ * 
+ * @param searchRequest - UniversalSearchRequest with filters and search text
+ * @param page - Page number (0-indexed)
+ * @param pageSize - Number of results per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT (email extracted from token)
+ * @returns Promise<ApiResponse<Pagination<Encashment>>>
+ * 
+ * @example
+ * const response = await apiGetTeamEncashmentRequests({
+ *   searchText: '',
+ *   searchFields: ['absenceType', 'reason'],
+ *   filters: { and: { status: 'PENDING' } },
+ *   sort: { createdAt: -1 }
+ * }, 0, 20, 'tenant-001', accessToken);
+ */
+export const apiGetTeamEncashmentRequests = async (
+  searchRequest: UniversalSearchRequest,
+  page: number = 0,
+  pageSize: number = 20,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<Encashment>>> => {
+  return apiRequest<Pagination<Encashment>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/team/encashments?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Approve or Reject Encashment Request (Manager)
+ * PUT /emp-user-management/v1/leave-management/encashments/{id}?status=approve|reject
+ * 
+ * Manager/Lead approves or rejects a PENDING encashment request from their direct report.
+ * Email is automatically extracted from JWT token and validated against reportingTo field.
+ * When approved, the request moves to MANAGER_APPROVED and waits for HR processing.
+ * 
+ * Requires LEAD role in employee-360 resource.
+ * 
+ * @param encashmentId - Encashment request ID (e.g., "ENC-123")
+ * @param status - Status: "approve" or "reject"
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT (email extracted from token)
+ * @returns Promise<ApiResponse<Encashment>>
+ * 
+ * @example
+ * const response = await apiApproveRejectEncashmentRequest(
+ *   "ENC-123",
+ *   "approve",
+ *   "tenant-001",
+ *   accessToken
+ * );
+ */
+export const apiApproveRejectEncashmentRequest = async (
+  encashmentId: string,
+  status: "approve" | "reject",
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Encashment>> => {
+  return apiRequest<Encashment>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/encashments/${encashmentId}?status=${status}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Search Encashments (HR)
+ * POST /emp-user-management/v1/leave-management/encashments/search
+ * 
+ * HR retrieves encashment requests of any employee, e.g. filtered by employeeId
+ * for the employee's encashment ledger.
+ * 
+ * @param searchRequest - UniversalSearchRequest with filters and search text
+ * @param page - Page number (0-indexed)
+ * @param pageSize - Number of results per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT
+ * @returns Promise<ApiResponse<Pagination<Encashment>>>
+ * 
+ * @example
+ * const response = await apiSearchEncashments({
+ *   filters: { and: { employeeId: 'EMP-001' } },
+ *   sort: { createdAt: -1 }
+ * }, 0, 50, 'tenant-001', accessToken);
+ */
+export const apiSearchEncashments = async (
+  searchRequest: UniversalSearchRequest,
+  page: number = 0,
+  pageSize: number = 20,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<Encashment>>> => {
+  return apiRequest<Pagination<Encashment>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/encashments/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Process Encashment Request (HR)
+ * PUT /emp-user-management/v1/leave-management/encashments/{id}/process?status=approve|reject|paid
+ * 
+ * HR processes a manager-approved encashment request:
+ * - approve: MANAGER_APPROVED -> APPROVED, the days are deducted from the leave balance
+ * - reject: MANAGER_APPROVED -> REJECTED
+ * - paid: APPROVED -> PAID, records the payout
+ * 
+ * @param encashmentId - Encashment request ID (e.g., "ENC-123")
+ * @param status - Status: "approve", "reject" or "paid"
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT
+ * @returns Promise<ApiResponse<Encashment>>
+ * 
+ * @example
+ * const response = await apiProcessEncashmentRequest("ENC-123", "paid", "tenant-001", accessToken);
+ */
+export const apiProcessEncashmentRequest = async (
+  encashmentId: string,
+  status: "approve" | "reject" | "paid",
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Encashment>> => {
+  return apiRequest<Encashment>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/encashments/${encashmentId}/process?status=${status}`,
+    tenant,
+    accessToken,
+  });
+};
+
 /**
  * Export all service functions as default object for easier importing
  */
@@ -184,5 +426,10 @@ export const leaveManagementService = {
   apiGetTeamAbsenceApplications,
   apiGetTeamCreditRequests,
   apiApproveRejectAbsenceApplication,
+  apiRecordApprovalSlaAction,
   apiApproveRejectCreditRequest,
+  apiGetTeamEncashmentRequests,
+  apiApproveRejectEncashmentRequest,
+  apiSearchEncashments,
+  apiProcessEncashmentRequest,
 };
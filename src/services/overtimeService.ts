@@ -0,0 +1,240 @@
+/**
+ * Overtime Service
+ * Handles all API operations for the overtime policy, overtime claims and
+ * their export to payroll
+ *
+ * Endpoints:
+ * - GET /emp-user-management/v1/overtime/policy - Get the tenant's overtime policy
+ * - PUT /emp-user-management/v1/overtime/policy - Save the overtime policy
+ * - POST /emp-user-management/v1/overtime/claims - Submit overtime claims in bulk
+ * - POST /emp-user-management/v1/overtime/claims/search - Search overtime claims with pagination
+ * - PUT /emp-user-management/v1/overtime/claims/{id}/decision - Approve or reject a claim
+ * - PUT /emp-user-management/v1/overtime/claims/{id}/cancel - Cancel own pending claim
+ * - PUT /emp-user-management/v1/overtime/exports/{period} - Mark approved claims as exported to payroll
+ *
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  OvertimeClaim,
+  OvertimeClaimCarrier,
+  OvertimeDecisionCarrier,
+  OvertimePolicy,
+} from "@/modules/time-attendance/types/overtime.types";
+import { apiRequest } from "./utils";
+
+const BASE_ENDPOINT = "/emp-user-management/v1/overtime";
+
+/**
+ * Get Overtime Policy
+ * GET /emp-user-management/v1/overtime/policy
+ *
+ * Returns null data when the tenant has not saved a policy yet.
+ *
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OvertimePolicy | null>>
+ */
+export const apiGetOvertimePolicy = async (
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OvertimePolicy | null>> => {
+  return apiRequest<OvertimePolicy | null>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/policy`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Save Overtime Policy
+ * PUT /emp-user-management/v1/overtime/policy
+ *
+ * The policy applies to claims submitted afterwards; submitted claims keep
+ * their hours and multiplier.
+ *
+ * @param policy - OvertimePolicy to save
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OvertimePolicy>>
+ *
+ * @example
+ * const response = await apiSaveOvertimePolicy({
+ *   dailyThresholdMinutes: 30,
+ *   weeklyThresholdHours: 48,
+ *   roundingMinutes: 15,
+ *   multipliers: { WEEKDAY: 1.5, WEEKEND: 2, HOLIDAY: 2 },
+ *   monthlyCapHours: 50
+ * }, 'tenant-001', accessToken);
+ */
+export const apiSaveOvertimePolicy = async (
+  policy: OvertimePolicy,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OvertimePolicy>> => {
+  return apiRequest<OvertimePolicy>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/policy`,
+    tenant,
+    accessToken,
+    body: policy,
+  });
+};
+
+/**
+ * Submit Overtime Claims
+ * POST /emp-user-management/v1/overtime/claims
+ *
+ * Claims go to each employee's reporting manager. The server rejects a claim
+ * for a date and basis that already has a pending or approved claim.
+ *
+ * @param carriers - One OvertimeClaimCarrier per detected candidate
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OvertimeClaim[]>>
+ *
+ * @example
+ * const response = await apiCreateOvertimeClaims([{
+ *   employeeId: 'EMP001',
+ *   employeeName: 'Jane Doe',
+ *   officialEmail: 'jane@company.com',
+ *   reportingTo: 'manager@company.com',
+ *   date: '2026-10-10',
+ *   dayType: 'WEEKEND',
+ *   basis: 'DAILY',
+ *   workedHours: 4,
+ *   expectedHours: 0,
+ *   hours: 4,
+ *   multiplier: 2,
+ *   reason: 'Quarter-end close'
+ * }], 'tenant-001', accessToken);
+ */
+export const apiCreateOvertimeClaims = async (
+  carriers: OvertimeClaimCarrier[],
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OvertimeClaim[]>> => {
+  return apiRequest<OvertimeClaim[]>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/claims`,
+    tenant,
+    accessToken,
+    body: carriers,
+  });
+};
+
+/**
+ * Search Overtime Claims with Pagination
+ * POST /emp-user-management/v1/overtime/claims/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. employeeId, reportingTo, status, period)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<OvertimeClaim>>>
+ */
+export const apiSearchOvertimeClaims = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<OvertimeClaim>>> => {
+  return apiRequest<Pagination<OvertimeClaim>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/claims/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Approve or Reject Overtime Claim
+ * PUT /emp-user-management/v1/overtime/claims/{id}/decision?actingFor={email}
+ *
+ * Email is extracted from the JWT token and validated against reportingTo.
+ * With actingFor, reportingTo is validated against that manager and the caller
+ * must hold their active attendance delegation. Approved hours may not exceed
+ * the claimed hours or what is left of the employee's monthly cap.
+ *
+ * @param id - Claim ID
+ * @param decision - OvertimeDecisionCarrier with the status and approved hours
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @param actingFor - Optional email of the delegating manager
+ * @returns Promise<ApiResponse<OvertimeClaim>>
+ */
+export const apiDecideOvertimeClaim = async (
+  id: string,
+  decision: OvertimeDecisionCarrier,
+  tenant: string,
+  accessToken?: string,
+  actingFor?: string
+): Promise<ApiResponse<OvertimeClaim>> => {
+  const actingForParam = actingFor ? `?actingFor=${encodeURIComponent(actingFor)}` : "";
+  return apiRequest<OvertimeClaim>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/claims/${id}/decision${actingForParam}`,
+    tenant,
+    accessToken,
+    body: decision,
+  });
+};
+
+/**
+ * Cancel Overtime Claim
+ * PUT /emp-user-management/v1/overtime/claims/{id}/cancel
+ *
+ * Only the employee can cancel, and only while the claim is pending.
+ *
+ * @param id - Claim ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OvertimeClaim>>
+ */
+export const apiCancelOvertimeClaim = async (
+  id: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OvertimeClaim>> => {
+  return apiRequest<OvertimeClaim>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/claims/${id}/cancel`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Mark Overtime Exported to Payroll
+ * PUT /emp-user-management/v1/overtime/exports/{period}
+ *
+ * Stamps exportedAt on the given approved claims of the pay period so they are
+ * not paid twice. Exported claims can no longer be cancelled or re-decided.
+ *
+ * @param period - Pay period (yyyy-MM)
+ * @param claimIds - IDs of the approved claims included in the export
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<OvertimeClaim[]>>
+ */
+export const apiMarkOvertimeExported = async (
+  period: string,
+  claimIds: string[],
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<OvertimeClaim[]>> => {
+  return apiRequest<OvertimeClaim[]>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/exports/${period}`,
+    tenant,
+    accessToken,
+    body: { claimIds },
+  });
+};
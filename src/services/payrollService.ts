@@ -0,0 +1,225 @@
+/**
+ * Payroll Service
+ * Handles all API operations for payroll runs and payslips
+ *
+ * Endpoints:
+ * - GET /emp-user-management/v1/payroll/runs/inputs - Get salary and LOP inputs of a company for a period
+ * - POST /emp-user-management/v1/payroll/runs - Create payroll run (DRAFT)
+ * - POST /emp-user-management/v1/payroll/runs/search - Search payroll runs with pagination
+ * - GET /emp-user-management/v1/payroll/runs/{id} - Get payroll run by ID
+ * - PUT /emp-user-management/v1/payroll/runs/{id}/entries - Replace the entries of a DRAFT run
+ * - PUT /emp-user-management/v1/payroll/runs/{id}/status - Move a run through DRAFT -> REVIEW -> LOCKED -> PAID
+ * - GET /emp-user-management/v1/payroll/payslips/me - Get the current user's payslips for a financial year
+ *
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  PayrollEmployeeInput,
+  PayrollRun,
+  PayrollRunCarrier,
+  PayrollRunStatusCarrier,
+  Payslip,
+} from "@/modules/payroll/types/payroll.types";
+import { apiRequest } from "./utils";
+
+const BASE_ENDPOINT = "/emp-user-management/v1/payroll/runs";
+const PAYSLIPS_ENDPOINT = "/emp-user-management/v1/payroll/payslips";
+
+/**
+ * Get Payroll Inputs
+ * GET /emp-user-management/v1/payroll/runs/inputs?companyId={companyId}&period={period}
+ *
+ * Active employees of the company with the salary in force at the end of the
+ * period and the LOP days of their approved absences falling in the period.
+ *
+ * @param companyId - Company ID
+ * @param period - Payroll period (yyyy-MM)
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<PayrollEmployeeInput[]>>
+ */
+export const apiGetPayrollInputs = async (
+  companyId: string,
+  period: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<PayrollEmployeeInput[]>> => {
+  return apiRequest<PayrollEmployeeInput[]>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/inputs?companyId=${encodeURIComponent(companyId)}&period=${period}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Create Payroll Run
+ * POST /emp-user-management/v1/payroll/runs
+ *
+ * Creates the run in DRAFT. The server rejects a second run for the same
+ * company and period unless the existing one is still in DRAFT.
+ *
+ * @param carrier - PayrollRunCarrier with company, period and computed entries
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<PayrollRun>>
+ */
+export const apiCreatePayrollRun = async (
+  carrier: PayrollRunCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<PayrollRun>> => {
+  return apiRequest<PayrollRun>({
+    method: "POST",
+    endpoint: BASE_ENDPOINT,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Payroll Runs with Pagination
+ * POST /emp-user-management/v1/payroll/runs/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. companyId, status)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<PayrollRun>>>
+ *
+ * @example
+ * const response = await apiSearchPayrollRuns({
+ *   filters: { and: { companyId: 'CMP-001' } },
+ *   sort: { period: -1 }
+ * }, 0, 12, 'tenant-001', accessToken);
+ */
+export const apiSearchPayrollRuns = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<PayrollRun>>> => {
+  return apiRequest<Pagination<PayrollRun>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Get Payroll Run by ID
+ * GET /emp-user-management/v1/payroll/runs/{id}
+ *
+ * @param id - Payroll run ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<PayrollRun>>
+ */
+export const apiGetPayrollRun = async (
+  id: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<PayrollRun>> => {
+  return apiRequest<PayrollRun>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/${id}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Update Payroll Run Entries
+ * PUT /emp-user-management/v1/payroll/runs/{id}/entries
+ *
+ * Replaces the entries and totals after a recalculation. Only DRAFT runs can
+ * be updated.
+ *
+ * @param id - Payroll run ID
+ * @param carrier - PayrollRunCarrier with the recalculated entries
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<PayrollRun>>
+ */
+export const apiUpdatePayrollRunEntries = async (
+  id: string,
+  carrier: PayrollRunCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<PayrollRun>> => {
+  return apiRequest<PayrollRun>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/${id}/entries`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Update Payroll Run Status
+ * PUT /emp-user-management/v1/payroll/runs/{id}/status
+ *
+ * Marking a run as paid also records a payment confirmation on every expense
+ * reimbursed in the run.
+ *
+ * @param id - Payroll run ID
+ * @param carrier - PayrollRunStatusCarrier with the action to take
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<PayrollRun>>
+ *
+ * @example
+ * const response = await apiUpdatePayrollRunStatus('PR-2026-03', {
+ *   action: 'paid',
+ *   paymentReference: 'NEFT-BATCH-0331'
+ * }, 'tenant-001', accessToken);
+ */
+export const apiUpdatePayrollRunStatus = async (
+  id: string,
+  carrier: PayrollRunStatusCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<PayrollRun>> => {
+  return apiRequest<PayrollRun>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/${id}/status`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Get My Payslips
+ * GET /emp-user-management/v1/payroll/payslips/me?financialYear={financialYear}
+ *
+ * Payslips of the current user from locked and paid runs of the financial year
+ * (April to March). Employee is resolved from the JWT token.
+ *
+ * @param financialYear - Start year of the financial year, e.g. 2026 for 2026-27
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Payslip[]>>
+ */
+export const apiGetMyPayslips = async (
+  financialYear: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Payslip[]>> => {
+  return apiRequest<Payslip[]>({
+    method: "GET",
+    endpoint: `${PAYSLIPS_ENDPOINT}/me?financialYear=${financialYear}`,
+    tenant,
+    accessToken,
+  });
+};
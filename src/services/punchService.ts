@@ -0,0 +1,179 @@
+/**
+ * Punch Service
+ * Handles all API operations for web check-in/check-out and the work location
+ * geofences they are validated against
+ *
+ * Endpoints:
+ * - GET /emp-user-management/v1/attendance/geofences - List work location geofences
+ * - PUT /emp-user-management/v1/attendance/geofences/{workLocationId} - Create or update a geofence
+ * - POST /emp-user-management/v1/attendance/punches - Record a web punch
+ * - POST /emp-user-management/v1/attendance/punches/search - Search punches with pagination
+ * - PUT /emp-user-management/v1/attendance/punches/{id}?status=approve|reject - Decide an outside-geofence punch
+ *
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  AttendancePunch,
+  AttendancePunchCarrier,
+  WorkLocationGeofence,
+  WorkLocationGeofenceCarrier,
+} from "@/modules/time-attendance/types/punch.types";
+import { apiRequest } from "./utils";
+
+const BASE_ENDPOINT = "/emp-user-management/v1/attendance";
+
+/**
+ * List Work Location Geofences
+ * GET /emp-user-management/v1/attendance/geofences
+ *
+ * Work locations without a geofence are left out.
+ *
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<WorkLocationGeofence[]>>
+ */
+export const apiGetGeofences = async (
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<WorkLocationGeofence[]>> => {
+  return apiRequest<WorkLocationGeofence[]>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/geofences`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Save Work Location Geofence
+ * PUT /emp-user-management/v1/attendance/geofences/{workLocationId}
+ *
+ * @param workLocationId - Work location ID
+ * @param carrier - WorkLocationGeofenceCarrier with the center and radius
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<WorkLocationGeofence>>
+ *
+ * @example
+ * const response = await apiSaveGeofence('LOC_001', {
+ *   latitude: 12.9716,
+ *   longitude: 77.5946,
+ *   radiusMeters: 200,
+ *   enabled: true
+ * }, 'tenant-001', accessToken);
+ */
+export const apiSaveGeofence = async (
+  workLocationId: string,
+  carrier: WorkLocationGeofenceCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<WorkLocationGeofence>> => {
+  return apiRequest<WorkLocationGeofence>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/geofences/${encodeURIComponent(workLocationId)}`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Record Web Punch
+ * POST /emp-user-management/v1/attendance/punches
+ *
+ * The employee and their reporting manager come from the JWT token and the
+ * server stamps the punch time. The server re-checks the position against the
+ * geofences: inside one the punch is accepted, otherwise it is stored as a
+ * pending exception for the reporting manager.
+ *
+ * @param carrier - AttendancePunchCarrier with the type and browser position
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<AttendancePunch>>
+ *
+ * @example
+ * const response = await apiCreatePunch({
+ *   type: 'CHECK_IN',
+ *   date: '2026-10-19',
+ *   position: { latitude: 12.9721, longitude: 77.5933, accuracyMeters: 18 },
+ *   workLocationId: 'LOC_001',
+ *   distanceMeters: 146,
+ *   withinGeofence: true
+ * }, 'tenant-001', accessToken);
+ */
+export const apiCreatePunch = async (
+  carrier: AttendancePunchCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<AttendancePunch>> => {
+  return apiRequest<AttendancePunch>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/punches`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Punches with Pagination
+ * POST /emp-user-management/v1/attendance/punches/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. officialEmail, reportingTo, status, date)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<AttendancePunch>>>
+ */
+export const apiSearchPunches = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<AttendancePunch>>> => {
+  return apiRequest<Pagination<AttendancePunch>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/punches/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Approve or Reject Punch Exception
+ * PUT /emp-user-management/v1/attendance/punches/{id}?status=approve|reject&actingFor={email}
+ *
+ * Email is extracted from the JWT token and validated against reportingTo.
+ * With actingFor, reportingTo is validated against that manager and the caller
+ * must hold their active attendance delegation.
+ * A rejected punch no longer counts towards attendance.
+ *
+ * @param id - Punch ID
+ * @param status - "approve" or "reject"
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @param actingFor - Optional email of the delegating manager
+ * @returns Promise<ApiResponse<AttendancePunch>>
+ */
+export const apiApproveRejectPunch = async (
+  id: string,
+  status: "approve" | "reject",
+  tenant: string,
+  accessToken?: string,
+  actingFor?: string
+): Promise<ApiResponse<AttendancePunch>> => {
+  const actingForParam = actingFor ? `&actingFor=${encodeURIComponent(actingFor)}` : "";
+  return apiRequest<AttendancePunch>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/punches/${id}?status=${status}${actingForParam}`,
+    tenant,
+    accessToken,
+  });
+};
@@ -0,0 +1,158 @@
+/**
+ * Room Service
+ * Handles all API operations for meeting room management
+ * 
+ * Endpoints:
+ * - POST /emp-user-management/v1/rooms - Create room
+ * - GET /emp-user-management/v1/rooms/{id} - Get room by ID
+ * - PATCH /emp-user-management/v1/rooms/{id} - Update room
+ * - POST /emp-user-management/v1/rooms/search - Search rooms
+ * - DELETE /emp-user-management/v1/rooms/{id} - Delete room
+ * 
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { Room, RoomCarrier } from "@/modules/visitor-room/types";
+import { apiRequest } from "@/services/utils";
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+
+const BASE_ENDPOINT = "/emp-user-management/v1/rooms";
+
+/**
+ * Update payload - Map of field names to values
+ */
+export type RoomUpdatePayload = Record<string, any>;
+
+/**
+ * Create Room
+ * POST /emp-user-management/v1/rooms
+ * 
+ * @param carrier - RoomCarrier with room information
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Room>>
+ */
+export const apiCreateRoom = async (
+  carrier: RoomCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Room>> => {
+  return apiRequest<Room>({
+    method: "POST",
+    endpoint: BASE_ENDPOINT,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Get Room by ID
+ * GET /emp-user-management/v1/rooms/{id}
+ * 
+ * @param id - Room ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Room>>
+ */
+export const apiGetRoomById = async (
+  id: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Room>> => {
+  return apiRequest<Room>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/${id}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Update Room
+ * PATCH /emp-user-management/v1/rooms/{id}
+ * 
+ * Partial update - only provided fields are updated
+ * 
+ * @param id - Room ID
+ * @param payload - Map of fields to update
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Room>>
+ */
+export const apiUpdateRoom = async (
+  id: string,
+  payload: RoomUpdatePayload,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Room>> => {
+  return apiRequest<Room>({
+    method: "PATCH",
+    endpoint: `${BASE_ENDPOINT}/${id}`,
+    tenant,
+    accessToken,
+    body: payload,
+  });
+};
+
+/**
+ * Search Rooms with pagination
+ * POST /emp-user-management/v1/rooms/search
+ * 
+ * @param searchRequest - Search criteria and filters
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<Room>>>
+ */
+export const apiSearchRooms = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<Room>>> => {
+  return apiRequest<Pagination<Room>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Delete Room
+ * DELETE /emp-user-management/v1/rooms/{id}
+ * 
+ * @param id - Room ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<void>>
+ */
+export const apiDeleteRoom = async (
+  id: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<void>> => {
+  return apiRequest<void>({
+    method: "DELETE",
+    endpoint: `${BASE_ENDPOINT}/${id}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Export all service functions as default object for easier importing
+ */
+export const roomService = {
+  apiCreateRoom,
+  apiGetRoomById,
+  apiUpdateRoom,
+  apiSearchRooms,
+  apiDeleteRoom,
+};
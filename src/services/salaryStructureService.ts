@@ -0,0 +1,176 @@
+/**
+ * Salary Structure Service
+ * Handles all API operations for salary structure templates and employee salary revisions
+ *
+ * Endpoints:
+ * - POST /emp-user-management/v1/payroll/salary-structures - Create salary structure
+ * - PUT /emp-user-management/v1/payroll/salary-structures/{id} - Update salary structure
+ * - POST /emp-user-management/v1/payroll/salary-structures/search - Search salary structures with pagination
+ * - POST /emp-user-management/v1/payroll/employee-salaries - Add a salary revision for an employee
+ * - POST /emp-user-management/v1/payroll/employee-salaries/search - Search salary revisions with pagination
+ *
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  EmployeeSalaryRevision,
+  EmployeeSalaryRevisionCarrier,
+  SalaryStructure,
+  SalaryStructureCarrier,
+} from "@/modules/payroll/types/salaryStructure.types";
+import { apiRequest } from "./utils";
+
+const STRUCTURES_ENDPOINT = "/emp-user-management/v1/payroll/salary-structures";
+const EMPLOYEE_SALARIES_ENDPOINT = "/emp-user-management/v1/payroll/employee-salaries";
+
+/**
+ * Create Salary Structure
+ * POST /emp-user-management/v1/payroll/salary-structures
+ *
+ * @param carrier - SalaryStructureCarrier with components and applicability
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<SalaryStructure>>
+ *
+ * @example
+ * const response = await apiCreateSalaryStructure({
+ *   name: 'Engineering',
+ *   designationIds: ['SW_ENG'],
+ *   employeeTypeIds: [],
+ *   components: [
+ *     { code: 'BASIC', name: 'Basic', type: 'EARNING', calculation: 'PERCENTAGE', percentage: 50, percentageOf: 'CTC' },
+ *     { code: 'SPECIAL', name: 'Special Allowance', type: 'EARNING', calculation: 'FORMULA', formula: 'CTC - BASIC' }
+ *   ],
+ *   active: true
+ * }, 'tenant-001', accessToken);
+ */
+export const apiCreateSalaryStructure = async (
+  carrier: SalaryStructureCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<SalaryStructure>> => {
+  return apiRequest<SalaryStructure>({
+    method: "POST",
+    endpoint: STRUCTURES_ENDPOINT,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Update Salary Structure
+ * PUT /emp-user-management/v1/payroll/salary-structures/{id}
+ *
+ * Existing salary revisions keep the amounts they were made with; changes
+ * apply to revisions made afterwards.
+ *
+ * @param id - Salary structure ID
+ * @param carrier - SalaryStructureCarrier with the full structure
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<SalaryStructure>>
+ */
+export const apiUpdateSalaryStructure = async (
+  id: string,
+  carrier: SalaryStructureCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<SalaryStructure>> => {
+  return apiRequest<SalaryStructure>({
+    method: "PUT",
+    endpoint: `${STRUCTURES_ENDPOINT}/${id}`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Salary Structures with Pagination
+ * POST /emp-user-management/v1/payroll/salary-structures/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. active)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<SalaryStructure>>>
+ */
+export const apiSearchSalaryStructures = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<SalaryStructure>>> => {
+  return apiRequest<Pagination<SalaryStructure>>({
+    method: "POST",
+    endpoint: `${STRUCTURES_ENDPOINT}/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Add Employee Salary Revision
+ * POST /emp-user-management/v1/payroll/employee-salaries
+ *
+ * Revisions are never edited; a correction is a new revision with the same
+ * effective date. The server assigns the revision number.
+ *
+ * @param carrier - EmployeeSalaryRevisionCarrier with CTC, effective date and resolved components
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<EmployeeSalaryRevision>>
+ */
+export const apiCreateEmployeeSalaryRevision = async (
+  carrier: EmployeeSalaryRevisionCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<EmployeeSalaryRevision>> => {
+  return apiRequest<EmployeeSalaryRevision>({
+    method: "POST",
+    endpoint: EMPLOYEE_SALARIES_ENDPOINT,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Employee Salary Revisions with Pagination
+ * POST /emp-user-management/v1/payroll/employee-salaries/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. employeeId)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<EmployeeSalaryRevision>>>
+ *
+ * @example
+ * const response = await apiSearchEmployeeSalaryRevisions({
+ *   filters: { and: { employeeId: 'EMP-001' } },
+ *   sort: { effectiveFrom: -1 }
+ * }, 0, 50, 'tenant-001', accessToken);
+ */
+export const apiSearchEmployeeSalaryRevisions = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<EmployeeSalaryRevision>>> => {
+  return apiRequest<Pagination<EmployeeSalaryRevision>>({
+    method: "POST",
+    endpoint: `${EMPLOYEE_SALARIES_ENDPOINT}/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
@@ -17,7 +17,7 @@ import Pagination from "@/types/pagination";
 import UniversalSearchRequest from "@/types/search";
 import { SkillItem, SkillItemCarrier, GeneralDetailsSnapshot, JobDetailsSnapshot } from "@/modules/user-management/types/onboarding.types";
 import { EmployeeLeavesInformation } from "@/modules/leave-management-system/types/leaveConfiguration.types";
-import { AbsenceApplication, AbsenceCarrier, Credit, CreditCarrier } from "@/modules/leave-management-system/types/leave.types";
+import { AbsenceApplication, AbsenceCarrier, Credit, CreditCarrier, Encashment, EncashmentCarrier, LeaveTransaction } from "@/modules/leave-management-system/types/leave.types";
 import { PerformanceTemplate } from "@/modules/performance/types";
 
 const BASE_ENDPOINT = "/emp-user-management/v1/self-service";
@@ -496,6 +496,149 @@ export const apiCancelCreditRequest = async (
   });
 };
 
+/**
+ * Self-Service Get Encashments
+ * POST /emp-user-management/v1/self-service/encashments
+ * 
+ * Employee retrieves their own encashment requests (the encashment ledger) with search and pagination.
+ * Username and realm are automatically extracted from JWT token.
+ * 
+ * @param searchRequest - Search request with filters and sort
+ * @param page - Page number (0-indexed)
+ * @param pageSize - Page size (default 20)
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT (employeeId extracted from token)
+ * @returns Promise<ApiResponse<Pagination<Encashment>>>
+ * 
+ * @example
+ * const response = await apiGetEncashments({
+ *   searchText: "",
+ *   searchFields: ["absenceType", "reason"],
+ *   sort: { createdAt: -1 }
+ * }, 0, 20, 'tenant-001', accessToken);
+ */
+export const apiGetEncashments = async (
+  searchRequest: UniversalSearchRequest,
+  page: number = 0,
+  pageSize: number = 20,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<Encashment>>> => {
+  return apiRequest<Pagination<Encashment>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/encashments?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Self-Service Request Encashment
+ * POST /emp-user-management/v1/self-service/encashments/request
+ * 
+ * Employee requests to encash leave days of a monetizable leave type.
+ * EmployeeId is automatically extracted from JWT token.
+ * The request is validated against the MonetizationPolicy and the current balance,
+ * and is created with PENDING status for manager approval.
+ * 
+ * Requires SSV (Self-Service Viewer) role.
+ * 
+ * @param carrier - EncashmentCarrier with leave type and days
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT (employeeId extracted from token)
+ * @returns Promise<ApiResponse<Encashment>>
+ * 
+ * @example
+ * const response = await apiRequestEncashment({
+ *   absenceType: 'PL',
+ *   days: 5,
+ *   reason: 'Encashing unused privilege leave',
+ *   createdAt: new Date().toISOString()
+ * }, 'tenant-001', accessToken);
+ */
+export const apiRequestEncashment = async (
+  carrier: EncashmentCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Encashment>> => {
+  return apiRequest<Encashment>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/encashments/request`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Self-Service Cancel Encashment Request
+ * DELETE /emp-user-management/v1/self-service/encashments/{encashmentId}
+ * 
+ * Employee cancels their own encashment request while it is still PENDING.
+ * 
+ * Requires SSV (Self-Service Viewer) role.
+ * 
+ * @param encashmentId - Encashment request ID to cancel
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT (employeeId extracted from token)
+ * @returns Promise<ApiResponse<void>>
+ * 
+ * @example
+ * const response = await apiCancelEncashmentRequest('ENC-123', 'tenant-001', accessToken);
+ */
+export const apiCancelEncashmentRequest = async (
+  encashmentId: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<void>> => {
+  return apiRequest<void>({
+    method: "DELETE",
+    endpoint: `${BASE_ENDPOINT}/encashments/${encashmentId}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Self-Service Get Leave Ledger
+ * POST /emp-user-management/v1/self-service/leaves/ledger
+ * 
+ * Employee retrieves their own leave balance transactions with search and pagination.
+ * EmployeeId is automatically extracted from JWT token.
+ * 
+ * Requires SSV (Self-Service Viewer) role.
+ * 
+ * @param searchRequest - Search request with filters (e.g. absenceType) and sort
+ * @param page - Page number (0-indexed)
+ * @param pageSize - Page size (default 20)
+ * @param tenant - Tenant ID
+ * @param accessToken - Access token with JWT (employeeId extracted from token)
+ * @returns Promise<ApiResponse<Pagination<LeaveTransaction>>>
+ * 
+ * @example
+ * const response = await apiGetMyLeaveLedger({
+ *   searchText: undefined,
+ *   searchFields: [],
+ *   sort: { effectiveOn: 1 }
+ * }, 0, 500, 'tenant-001', accessToken);
+ */
+export const apiGetMyLeaveLedger = async (
+  searchRequest: UniversalSearchRequest,
+  page: number = 0,
+  pageSize: number = 20,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<LeaveTransaction>>> => {
+  return apiRequest<Pagination<LeaveTransaction>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/leaves/ledger?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
 /**
  * Self-Service Get My Performance Templates
  * GET /emp-user-management/v1/self-service/performance-templates
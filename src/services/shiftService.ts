@@ -0,0 +1,390 @@
+/**
+ * Shift Service
+ * Handles all API operations for shift definitions, rotation patterns, the
+ * employee roster and shift swap requests
+ *
+ * Endpoints:
+ * - POST /emp-user-management/v1/shifts - Create shift definition
+ * - PUT /emp-user-management/v1/shifts/{id} - Update shift definition
+ * - POST /emp-user-management/v1/shifts/search - Search shift definitions with pagination
+ * - POST /emp-user-management/v1/shifts/rotations - Create rotation pattern
+ * - PUT /emp-user-management/v1/shifts/rotations/{id} - Update rotation pattern
+ * - POST /emp-user-management/v1/shifts/rotations/search - Search rotation patterns with pagination
+ * - POST /emp-user-management/v1/shifts/roster/search - Search roster assignments with pagination
+ * - PUT /emp-user-management/v1/shifts/roster - Upsert roster assignments in bulk
+ * - POST /emp-user-management/v1/shifts/swaps - Create shift swap request
+ * - POST /emp-user-management/v1/shifts/swaps/search - Search shift swap requests with pagination
+ * - PUT /emp-user-management/v1/shifts/swaps/{id}?status=approve|reject - Approve or reject a swap
+ * - PUT /emp-user-management/v1/shifts/swaps/{id}/cancel - Cancel own pending swap
+ *
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  RosterAssignment,
+  RosterAssignmentCarrier,
+  RotationPattern,
+  RotationPatternCarrier,
+  ShiftDefinition,
+  ShiftDefinitionCarrier,
+  ShiftSwapCarrier,
+  ShiftSwapRequest,
+} from "@/modules/time-attendance/types/shift.types";
+import { apiRequest } from "./utils";
+
+const BASE_ENDPOINT = "/emp-user-management/v1/shifts";
+
+/**
+ * Create Shift Definition
+ * POST /emp-user-management/v1/shifts
+ *
+ * @param carrier - ShiftDefinitionCarrier with timings, grace period and break
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<ShiftDefinition>>
+ *
+ * @example
+ * const response = await apiCreateShift({
+ *   name: 'Night',
+ *   code: 'N',
+ *   startTime: '22:00',
+ *   endTime: '06:00',
+ *   graceMinutes: 15,
+ *   breakMinutes: 30,
+ *   color: '#6366f1',
+ *   active: true
+ * }, 'tenant-001', accessToken);
+ */
+export const apiCreateShift = async (
+  carrier: ShiftDefinitionCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<ShiftDefinition>> => {
+  return apiRequest<ShiftDefinition>({
+    method: "POST",
+    endpoint: BASE_ENDPOINT,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Update Shift Definition
+ * PUT /emp-user-management/v1/shifts/{id}
+ *
+ * Changed timings apply to attendance judged afterwards; rostered dates keep
+ * pointing at the shift.
+ *
+ * @param id - Shift ID
+ * @param carrier - ShiftDefinitionCarrier with the full definition
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<ShiftDefinition>>
+ */
+export const apiUpdateShift = async (
+  id: string,
+  carrier: ShiftDefinitionCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<ShiftDefinition>> => {
+  return apiRequest<ShiftDefinition>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/${id}`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Shift Definitions with Pagination
+ * POST /emp-user-management/v1/shifts/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. active)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<ShiftDefinition>>>
+ */
+export const apiSearchShifts = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<ShiftDefinition>>> => {
+  return apiRequest<Pagination<ShiftDefinition>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Create Rotation Pattern
+ * POST /emp-user-management/v1/shifts/rotations
+ *
+ * @param carrier - RotationPatternCarrier with one shift ID (or null for a week off) per cycle day
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<RotationPattern>>
+ *
+ * @example
+ * const response = await apiCreateRotation({
+ *   name: 'Weekly 3-shift',
+ *   days: ['SHIFT-M', 'SHIFT-M', 'SHIFT-M', 'SHIFT-M', 'SHIFT-M', null, null,
+ *          'SHIFT-N', 'SHIFT-N', 'SHIFT-N', 'SHIFT-N', 'SHIFT-N', null, null]
+ * }, 'tenant-001', accessToken);
+ */
+export const apiCreateRotation = async (
+  carrier: RotationPatternCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<RotationPattern>> => {
+  return apiRequest<RotationPattern>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/rotations`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Update Rotation Pattern
+ * PUT /emp-user-management/v1/shifts/rotations/{id}
+ *
+ * Dates already rostered from the pattern are not changed.
+ *
+ * @param id - Rotation pattern ID
+ * @param carrier - RotationPatternCarrier with the full pattern
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<RotationPattern>>
+ */
+export const apiUpdateRotation = async (
+  id: string,
+  carrier: RotationPatternCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<RotationPattern>> => {
+  return apiRequest<RotationPattern>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/rotations/${id}`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Rotation Patterns with Pagination
+ * POST /emp-user-management/v1/shifts/rotations/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<RotationPattern>>>
+ */
+export const apiSearchRotations = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<RotationPattern>>> => {
+  return apiRequest<Pagination<RotationPattern>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/rotations/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Search Roster Assignments with Pagination
+ * POST /emp-user-management/v1/shifts/roster/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest, usually employeeId filter and a date range on "date"
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<RosterAssignment>>>
+ *
+ * @example
+ * const response = await apiSearchRoster({
+ *   filters: { and: { employeeId: ['EMP-001', 'EMP-002'] } },
+ *   dateFilter: { type: 'between', field: 'date', startDate: '2026-10-19', endDate: '2026-10-25' }
+ * }, 0, 500, 'tenant-001', accessToken);
+ */
+export const apiSearchRoster = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<RosterAssignment>>> => {
+  return apiRequest<Pagination<RosterAssignment>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/roster/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Save Roster Assignments
+ * PUT /emp-user-management/v1/shifts/roster
+ *
+ * Creates or replaces the assignment of each employee and date in the list.
+ *
+ * @param carriers - RosterAssignmentCarrier per employee and date
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<RosterAssignment[]>>
+ *
+ * @example
+ * const response = await apiSaveRosterAssignments([
+ *   { employeeId: 'EMP-001', date: '2026-10-19', shiftId: 'SHIFT-M', source: 'MANUAL' },
+ *   { employeeId: 'EMP-001', date: '2026-10-20', shiftId: null, source: 'MANUAL' }
+ * ], 'tenant-001', accessToken);
+ */
+export const apiSaveRosterAssignments = async (
+  carriers: RosterAssignmentCarrier[],
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<RosterAssignment[]>> => {
+  return apiRequest<RosterAssignment[]>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/roster`,
+    tenant,
+    accessToken,
+    body: carriers,
+  });
+};
+
+/**
+ * Create Shift Swap Request
+ * POST /emp-user-management/v1/shifts/swaps
+ *
+ * The server records both employees' shifts on the date at request time.
+ *
+ * @param carrier - ShiftSwapCarrier with the date, both employees and the approving manager
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<ShiftSwapRequest>>
+ */
+export const apiCreateShiftSwap = async (
+  carrier: ShiftSwapCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<ShiftSwapRequest>> => {
+  return apiRequest<ShiftSwapRequest>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/swaps`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Shift Swap Requests with Pagination
+ * POST /emp-user-management/v1/shifts/swaps/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. requesterEmail, reportingTo, status)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<ShiftSwapRequest>>>
+ *
+ * @example
+ * const response = await apiSearchShiftSwaps({
+ *   filters: { and: { reportingTo: 'manager@company.com', status: 'pending' } },
+ *   sort: { createdAt: -1 }
+ * }, 0, 20, 'tenant-001', accessToken);
+ */
+export const apiSearchShiftSwaps = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<ShiftSwapRequest>>> => {
+  return apiRequest<Pagination<ShiftSwapRequest>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/swaps/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Approve or Reject Shift Swap
+ * PUT /emp-user-management/v1/shifts/swaps/{id}?status=approve|reject&actingFor={email}
+ *
+ * Email is extracted from the JWT token and validated against reportingTo.
+ * With actingFor, reportingTo is validated against that manager and the caller
+ * must hold their active attendance delegation.
+ * Approval exchanges the two employees' roster assignments on the date.
+ *
+ * @param id - Swap request ID
+ * @param status - "approve" or "reject"
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @param actingFor - Optional email of the delegating manager
+ * @returns Promise<ApiResponse<ShiftSwapRequest>>
+ */
+export const apiApproveRejectShiftSwap = async (
+  id: string,
+  status: "approve" | "reject",
+  tenant: string,
+  accessToken?: string,
+  actingFor?: string
+): Promise<ApiResponse<ShiftSwapRequest>> => {
+  const actingForParam = actingFor ? `&actingFor=${encodeURIComponent(actingFor)}` : "";
+  return apiRequest<ShiftSwapRequest>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/swaps/${id}?status=${status}${actingForParam}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Cancel Shift Swap
+ * PUT /emp-user-management/v1/shifts/swaps/{id}/cancel
+ *
+ * Only the requester can cancel, and only while the request is pending.
+ *
+ * @param id - Swap request ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<ShiftSwapRequest>>
+ */
+export const apiCancelShiftSwap = async (
+  id: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<ShiftSwapRequest>> => {
+  return apiRequest<ShiftSwapRequest>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/swaps/${id}/cancel`,
+    tenant,
+    accessToken,
+  });
+};
@@ -10,12 +10,14 @@
  * - DELETE /emp-user-management/v1/spaces/{id} - Delete space
  * - DELETE /emp-user-management/v1/spaces/bulk-delete - Bulk delete spaces
  * - PATCH /emp-user-management/v1/spaces/bulk-update - Bulk update spaces
+ * - POST /emp-user-management/v1/spaces/{id}/floor-plans/images - Upload a floor plan image
  * 
  * All responses follow ApiResponse<T> wrapper format
  */
 
 import { Space } from "@/modules/space-management/spaceTypes";
-import { apiRequest } from "@/services/utils";
+import wretch from "wretch";
+import { API_GATEWAY, apiRequest } from "@/services/utils";
 import { ApiResponse } from "@/types/responses";
 import Pagination from "@/types/pagination";
 import UniversalSearchRequest from "@/types/search";
@@ -41,6 +43,13 @@ export interface SpaceCarrier {
  */
 export type SpaceUpdatePayload = Record<string, any>;
 
+/**
+ * Stored floor plan image
+ */
+export interface FloorPlanImage {
+  imageUrl: string;
+}
+
 /**
  * Create Space
  * POST /emp-user-management/v1/spaces
@@ -210,6 +219,49 @@ export const apiBulkUpdateSpaces = async (
   });
 };
 
+/**
+ * Upload Floor Plan Image
+ * POST /emp-user-management/v1/spaces/{id}/floor-plans/images
+ *
+ * Accepts an image file (multipart/form-data, field name "file") and returns
+ * the URL it is served from; the URL is then saved on the space's floor plan.
+ *
+ * @param id - Space ID
+ * @param file - Image file selected by the user
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<FloorPlanImage>>
+ */
+export const apiUploadFloorPlanImage = async (
+  id: string,
+  file: File,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<FloorPlanImage>> => {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  // For multipart requests, we must NOT set Content-Type header
+  // Let the browser set it automatically as multipart/form-data with boundary
+  const headers: Record<string, string> = {
+    "X-Client-Type": "web",
+    "X-Tenant-ID": tenant,
+  };
+
+  if (accessToken) {
+    headers["Authorization"] = `Bearer ${accessToken}`;
+  }
+
+  return wretch(`${API_GATEWAY}${BASE_ENDPOINT}/${id}/floor-plans/images`)
+    .headers(headers)
+    .body(formData)
+    .post()
+    .badRequest(async (err) => await err.response.json())
+    .forbidden(async (err) => await err.response.json())
+    .internalError(async (err) => await err.response.json())
+    .json<ApiResponse<FloorPlanImage>>();
+};
+
 /**
  * Export all service functions as default object for easier importing
  */
@@ -221,4 +273,5 @@ export const spaceService = {
   apiDeleteSpace,
   apiBulkDeleteSpaces,
   apiBulkUpdateSpaces,
+  apiUploadFloorPlanImage,
 };
@@ -0,0 +1,201 @@
+/**
+ * Statutory Service
+ * Handles all API operations for statutory settings, employee statutory
+ * identifiers and income tax declarations
+ *
+ * Endpoints:
+ * - GET /emp-user-management/v1/payroll/statutory/settings - Get PF, ESI, PT and TDS settings
+ * - PUT /emp-user-management/v1/payroll/statutory/settings - Save PF, ESI, PT and TDS settings
+ * - GET /emp-user-management/v1/payroll/statutory/employees - Get statutory details of a company's employees
+ * - PUT /emp-user-management/v1/payroll/statutory/employees/{employeeId} - Update UAN / ESI IP number of an employee
+ * - POST /emp-user-management/v1/payroll/statutory/declarations/search - Search tax declarations with pagination
+ * - PUT /emp-user-management/v1/payroll/statutory/declarations - Save an employee's declaration for a financial year
+ *
+ * All responses follow ApiResponse<T> wrapper format
+ */
+
+import { ApiResponse } from "@/types/responses";
+import Pagination from "@/types/pagination";
+import UniversalSearchRequest from "@/types/search";
+import {
+  StatutoryEmployeeDetails,
+  StatutoryIdentifiersCarrier,
+  StatutorySettings,
+  TaxDeclaration,
+  TaxDeclarationCarrier,
+} from "@/modules/payroll/types/statutory.types";
+import { apiRequest } from "./utils";
+
+const BASE_ENDPOINT = "/emp-user-management/v1/payroll/statutory";
+
+/**
+ * Get Statutory Settings
+ * GET /emp-user-management/v1/payroll/statutory/settings
+ *
+ * Returns null data when the tenant has not saved settings yet.
+ *
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<StatutorySettings | null>>
+ */
+export const apiGetStatutorySettings = async (
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<StatutorySettings | null>> => {
+  return apiRequest<StatutorySettings | null>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/settings`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Save Statutory Settings
+ * PUT /emp-user-management/v1/payroll/statutory/settings
+ *
+ * Settings apply to runs computed afterwards; existing runs keep their amounts.
+ *
+ * @param settings - StatutorySettings to save
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<StatutorySettings>>
+ */
+export const apiSaveStatutorySettings = async (
+  settings: StatutorySettings,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<StatutorySettings>> => {
+  return apiRequest<StatutorySettings>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/settings`,
+    tenant,
+    accessToken,
+    body: settings,
+  });
+};
+
+/**
+ * Get Statutory Employee Details
+ * GET /emp-user-management/v1/payroll/statutory/employees?companyId={companyId}
+ *
+ * Active employees of the company with PAN and Aadhaar from onboarding, work
+ * location, salary bank account, UAN and ESI IP number.
+ *
+ * @param companyId - Company ID
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<StatutoryEmployeeDetails[]>>
+ */
+export const apiGetStatutoryEmployeeDetails = async (
+  companyId: string,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<StatutoryEmployeeDetails[]>> => {
+  return apiRequest<StatutoryEmployeeDetails[]>({
+    method: "GET",
+    endpoint: `${BASE_ENDPOINT}/employees?companyId=${encodeURIComponent(companyId)}`,
+    tenant,
+    accessToken,
+  });
+};
+
+/**
+ * Update Statutory Identifiers
+ * PUT /emp-user-management/v1/payroll/statutory/employees/{employeeId}
+ *
+ * @param employeeId - Employee ID
+ * @param carrier - StatutoryIdentifiersCarrier with UAN and / or ESI IP number
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<StatutoryEmployeeDetails>>
+ *
+ * @example
+ * const response = await apiUpdateStatutoryIdentifiers('EMP-001', {
+ *   uan: '100123456789',
+ *   esiIpNumber: '3112345678'
+ * }, 'tenant-001', accessToken);
+ */
+export const apiUpdateStatutoryIdentifiers = async (
+  employeeId: string,
+  carrier: StatutoryIdentifiersCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<StatutoryEmployeeDetails>> => {
+  return apiRequest<StatutoryEmployeeDetails>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/employees/${employeeId}`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Search Tax Declarations with Pagination
+ * POST /emp-user-management/v1/payroll/statutory/declarations/search?page={page}&size={size}
+ *
+ * @param searchRequest - UniversalSearchRequest for filtering (e.g. financialYear, idsList)
+ * @param page - Page number (0-based)
+ * @param pageSize - Number of items per page
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<Pagination<TaxDeclaration>>>
+ *
+ * @example
+ * const response = await apiSearchTaxDeclarations({
+ *   filters: { and: { financialYear: 2026 } }
+ * }, 0, 500, 'tenant-001', accessToken);
+ */
+export const apiSearchTaxDeclarations = async (
+  searchRequest: UniversalSearchRequest,
+  page: number,
+  pageSize: number,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<TaxDeclaration>>> => {
+  return apiRequest<Pagination<TaxDeclaration>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/declarations/search?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
+/**
+ * Save Tax Declaration
+ * PUT /emp-user-management/v1/payroll/statutory/declarations
+ *
+ * Creates or replaces the declaration of the employee for the financial year.
+ *
+ * @param carrier - TaxDeclarationCarrier with regime and annual amounts
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token for authorization
+ * @returns Promise<ApiResponse<TaxDeclaration>>
+ *
+ * @example
+ * const response = await apiSaveTaxDeclaration({
+ *   employeeId: 'EMP-001',
+ *   financialYear: 2026,
+ *   regime: 'OLD',
+ *   section80C: 100000,
+ *   section80D: 25000,
+ *   hraExemption: 120000,
+ *   homeLoanInterest: 0,
+ *   otherDeductions: 0
+ * }, 'tenant-001', accessToken);
+ */
+export const apiSaveTaxDeclaration = async (
+  carrier: TaxDeclarationCarrier,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<TaxDeclaration>> => {
+  return apiRequest<TaxDeclaration>({
+    method: "PUT",
+    endpoint: `${BASE_ENDPOINT}/declarations`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
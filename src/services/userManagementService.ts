@@ -11,6 +11,7 @@
  * - PATCH /emp-user-management/v1/users/work-locations/{id} - Update work location
  * - POST /emp-user-management/v1/users/leaves/credit - Add credits to leaves
  * - POST /emp-user-management/v1/users/leaves/deduct - Deduct credits from leaves
+ * - POST /emp-user-management/v1/users/{employeeId}/leaves/ledger - Search leave balance transactions
  * - POST /emp-user-management/v1/users/roles/assign - Assign roles to multiple users
  * - GET /emp-user-management/v1/users/{userId}/roles - Get user roles for a specific user
  * 
@@ -32,6 +33,7 @@ import {
 import { EmployeeType, Department, Designation, WorkLocation } from "@/modules/user-management/types/settings.types";
 import { AssignRolesCarrier, UserRoles } from "@/modules/user-management/types/user.types";
 import { LeaveDetails } from "@/modules/leave-management-system/types/leaveConfiguration.types";
+import { LeaveTransaction } from "@/modules/leave-management-system/types/leave.types";
 
 /**
  * BulkCreditCarrier - Carrier for bulk credit allocation to multiple employees
@@ -821,6 +823,47 @@ export const apiDeductLeaves = async (
   });
 };
 
+/**
+ * Get Leave Ledger for Employee
+ * POST /emp-user-management/v1/users/{employeeId}/leaves/ledger
+ *
+ * Retrieves the employee's leave balance transactions: accruals, carry-forwards,
+ * applications, cancellations, manual credits/deductions, lapses and encashments.
+ * Works for any employee (admin can view employee leave details).
+ *
+ * @param employeeId - The employee ID to fetch the ledger for
+ * @param searchRequest - Search request with filters (e.g. absenceType) and sort
+ * @param page - Page number (0-indexed)
+ * @param pageSize - Page size (default 20)
+ * @param tenant - Tenant ID
+ * @param accessToken - Optional access token
+ * @returns Promise<ApiResponse<Pagination<LeaveTransaction>>>
+ *
+ * @example
+ * const response = await apiGetLeaveLedger('EMP-001', {
+ *   searchText: undefined,
+ *   searchFields: [],
+ *   filters: { and: { absenceType: 'PL' } },
+ *   sort: { effectiveOn: 1 }
+ * }, 0, 500, 'techsophy', token);
+ */
+export const apiGetLeaveLedger = async (
+  employeeId: string,
+  searchRequest: UniversalSearchRequest,
+  page: number = 0,
+  pageSize: number = 20,
+  tenant: string,
+  accessToken?: string
+): Promise<ApiResponse<Pagination<LeaveTransaction>>> => {
+  return apiRequest<Pagination<LeaveTransaction>>({
+    method: "POST",
+    endpoint: `${BASE_ENDPOINT}/${employeeId}/leaves/ledger?page=${page}&size=${pageSize}`,
+    tenant,
+    accessToken,
+    body: searchRequest,
+  });
+};
+
 /**
  * Assign Roles to Multiple Users
  * POST /emp-user-management/v1/users/roles/assign
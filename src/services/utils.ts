@@ -6,6 +6,9 @@ import wretch from "wretch";
 export const AUTH_GATEWAY = "https://auth-uni.techsophy.com/auth";
 export const API_GATEWAY = "http://localhost:8081";
 
+// Response code set on 409 responses, e.g. a room booking that overlaps another
+export const CONFLICT_CODE = "CONFLICT";
+
 export const apiHeaders = (tenant: string, accessToken?: string) => {
   const baseHeaders = {
     "Content-Type": "application/json",
@@ -35,7 +38,7 @@ interface ApiRequestOptions {
 
 /**
  * Generic API request wrapper with standardized error handling
- * Handles 400 (Bad Request), 403 (Forbidden), and 500 (Internal Server Error)
+ * Handles 400 (Bad Request), 403 (Forbidden), 409 (Conflict) and 500 (Internal Server Error)
  */
 export const apiRequest = async <T = any>(
   options: ApiRequestOptions
@@ -54,6 +57,7 @@ export const apiRequest = async <T = any>(
   return request[method.toLowerCase() as Lowercase<HttpMethod>]()
     .badRequest(async (err) => await err.response.json())
     .forbidden(async (err) => await err.response.json())
+    .error(409, async (err) => ({ ...(await err.response.json()), code: CONFLICT_CODE }))
     .internalError(async (err) => await err.response.json())
     .json<ApiResponse<T>>();
 };
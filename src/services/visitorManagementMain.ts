@@ -7,13 +7,22 @@
  * - PATCH /visitors/:id - Update visitor
  * - DELETE /visitors/:id - Delete visitor
  * - POST /visitors/search - Search visitor snapshots (returns VisitorSnapshot[])
+ * - POST /visitors/invites - Create self-registration invite
+ * - GET /visitors/invites/:token - Get invite (public, token only)
+ * - POST /visitors/invites/:token/register - Self-register through invite (public, token only)
  */
 
 import { apiRequest } from "@/services/utils";
 import { ApiResponse } from "@/types/responses";
 import Pagination from "@/types/pagination";
 import UniversalSearchRequest from "@/types/search";
-import { VisitorCarrier, VisitorSnapshot } from "@/modules/visitor-management/types";
+import {
+  VisitorCarrier,
+  VisitorInvite,
+  VisitorInviteCarrier,
+  VisitorSelfRegistration,
+  VisitorSnapshot,
+} from "@/modules/visitor-management/types";
 import { resolveAuth } from "@/store/localStorage";
 
 const BASE_URL = "/emp-user-management/v1/visitor-management";
@@ -194,3 +203,60 @@ export const searchVisitorsByPurpose = async (
   };
   return searchVisitorSnapshots(searchRequest, page, size);
 };
+
+/**
+ * Create Visitor Invite
+ * POST /visitors/invites
+ *
+ * Returns the invite with its backend-generated token
+ */
+export const createVisitorInvite = async (
+  carrier: VisitorInviteCarrier
+): Promise<ApiResponse<VisitorInvite>> => {
+  const { tenant, accessToken } = getAuth();
+  return apiRequest<VisitorInvite>({
+    method: "POST",
+    endpoint: `${BASE_URL}/invites`,
+    tenant,
+    accessToken,
+    body: carrier,
+  });
+};
+
+/**
+ * Get Visitor Invite
+ * GET /visitors/invites/:token
+ *
+ * Public - called from the pre-registration page without a session;
+ * the token authorizes the request
+ */
+export const getVisitorInvite = async (
+  token: string,
+  tenant: string
+): Promise<ApiResponse<VisitorInvite>> => {
+  return apiRequest<VisitorInvite>({
+    method: "GET",
+    endpoint: `${BASE_URL}/invites/${encodeURIComponent(token)}`,
+    tenant,
+  });
+};
+
+/**
+ * Self-register Through Invite
+ * POST /visitors/invites/:token/register
+ *
+ * Public - creates a pending visitor for the host and marks the invite
+ * registered; rejected once the invite has expired or been used
+ */
+export const registerVisitorInvite = async (
+  token: string,
+  registration: VisitorSelfRegistration,
+  tenant: string
+): Promise<ApiResponse<VisitorInvite>> => {
+  return apiRequest<VisitorInvite>({
+    method: "POST",
+    endpoint: `${BASE_URL}/invites/${encodeURIComponent(token)}/register`,
+    tenant,
+    body: registration,
+  });
+};
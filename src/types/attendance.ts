@@ -59,6 +59,15 @@ export interface PersonalAttendanceResponse {
   attendanceSummary: AttendanceSummary;
 }
 
+/**
+ * Muster Attendance Record
+ * Attendance of one employee in a company-wide, department or team request
+ */
+export interface MusterAttendanceRecord extends PersonalAttendanceResponse {
+  department: string;
+  workLocationId?: string;
+}
+
 /**
  * Extra Hours / Regularisation Request
  */
@@ -113,6 +122,18 @@ export interface ShiftSettings {
   reportsTime: string;
   reportsFrequency: string;
   employeeIds: string[];
+  anomalyThresholds?: AttendanceAnomalyThresholds; // Defaults apply until saved
+}
+
+/**
+ * Attendance Anomaly Thresholds
+ * When a team member's attendance is flagged to their manager
+ */
+export interface AttendanceAnomalyThresholds {
+  lookbackDays: number; // Days of attendance scanned, ending today
+  lateCheckInCount: number; // Late check-ins in the lookback that make lateness chronic
+  missingCheckoutCount: number; // Days with a check-in but no check-out
+  shortHoursStreakDays: number; // Consecutive worked days under the warning / critical hours
 }
 
 /**
@@ -131,6 +152,19 @@ export interface AttendanceRecordsRequest {
   shiftId: string;
 }
 
+export interface MusterAttendanceRequest {
+  companyId: string;
+  department?: string; // Omitted for every department of the company
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+export interface TeamAttendanceRequest {
+  reportingTo: string; // Manager email; their direct reports are returned
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
 export interface ExtraHoursSearchRequest {
   filters: {
     and: {